@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useState } from 'react';
+import { XMarkIcon, ScaleIcon, EyeIcon, ArrowPathIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { toast } from './lib/sonner';
+import { useAuth } from '../src/features/auth/AuthContext';
+import { useGroomingSession } from '../src/hooks/useGroomingSessions';
+import { useUserProfiles } from '../src/hooks/useUserProfiles';
+import {
+  useEstimationRounds,
+  useEstimationVotes,
+  useEstimationVoters,
+  useEstimationRealtime,
+  useStartEstimationRound,
+  useCastEstimationVote,
+  useRevealEstimationRound,
+  useAcceptEstimate,
+} from '../src/hooks/useEstimation';
+import { ESTIMATE_FIELDS, EstimateField, summarizeVotes, VoteSummary } from '../src/lib/estimation';
+import type { EstimationRound, EstimationVote } from '../src/types/grooming';
+
+interface EstimationModalProps {
+  sessionId: string;
+  sessionStoryId: string;
+  storyTitle: string;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+type Estimate = Record<EstimateField, number | null>;
+
+const EMPTY_ESTIMATE: Estimate = { story_points: null, complexity_rating: null, risk_rating: null };
+const NO_VOTES: EstimationVote[] = [];
+
+// Row of cards for one value; picking the selected card again abstains
+function CardPicker({
+  label,
+  scale,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  scale: number[];
+  value: number | null;
+  onChange: (value: number | null) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{label}</h4>
+      <div className="flex flex-wrap gap-2">
+        {scale.map(card => (
+          <button
+            key={card}
+            onClick={() => onChange(value === card ? null : card)}
+            disabled={disabled}
+            className={`w-10 h-14 rounded-md border-2 text-sm font-semibold ${
+              value === card
+                ? 'bg-indigo-600 border-indigo-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:border-indigo-400'
+            } disabled:opacity-50`}
+          >
+            {card}
+          </button>
+        ))}
+        <span className="self-center text-xs text-gray-500 ml-1">{value === null ? 'No vote (?)' : ''}</span>
+      </div>
+    </div>
+  );
+}
+
+function roundLabel(round: EstimationRound) {
+  if (round.status === 'accepted') {
+    const parts = [
+      round.accepted_story_points !== null && round.accepted_story_points !== undefined ? `${round.accepted_story_points} points` : null,
+      round.accepted_complexity_rating ? `complexity ${round.accepted_complexity_rating}` : null,
+      round.accepted_risk_rating ? `risk ${round.accepted_risk_rating}` : null,
+    ].filter(Boolean);
+    return `Accepted${parts.length > 0 ? `: ${parts.join(', ')}` : ''}`;
+  }
+  if (round.status === 'cancelled') return 'Re-voted';
+  if (round.status === 'revealed') return 'Revealed';
+  return 'Voting';
+}
+
+export function EstimationModal({ sessionId, sessionStoryId, storyTitle, onClose, disabled = false }: EstimationModalProps) {
+  const { user, hasRole } = useAuth();
+  const { data: session } = useGroomingSession(sessionId);
+  const { data: profiles = [] } = useUserProfiles();
+  const { data: rounds = [], isLoading } = useEstimationRounds(sessionStoryId);
+  useEstimationRealtime(sessionStoryId);
+
+  // The latest round, as long as it has not been closed
+  const round = rounds[0] && (rounds[0].status === 'voting' || rounds[0].status === 'revealed') ? rounds[0] : undefined;
+  const { data: votes = NO_VOTES } = useEstimationVotes(round);
+  const { data: voters = [] } = useEstimationVoters(round);
+
+  const startRound = useStartEstimationRound();
+  const castVote = useCastEstimationVote();
+  const revealRound = useRevealEstimationRound();
+  const acceptRound = useAcceptEstimate();
+
+  const canLead = !!user && (user.id === session?.facilitator_id || hasRole('admin'));
+  const canVote = hasRole('admin', 'product_manager', 'engineer') && !disabled;
+
+  const ownVote = votes.find(vote => vote.user_id === user?.id);
+  const [estimate, setEstimate] = useState<Estimate>(EMPTY_ESTIMATE);
+  const [consensus, setConsensus] = useState<Estimate>(EMPTY_ESTIMATE);
+
+  const summaries = useMemo(() => {
+    const result = {} as Record<EstimateField, VoteSummary>;
+    ESTIMATE_FIELDS.forEach(({ field, scale }) => {
+      result[field] = summarizeVotes(round?.status === 'revealed' ? votes : [], field, scale);
+    });
+    return result;
+  }, [round?.status, votes]);
+
+  // Start from the own vote in each new round
+  useEffect(() => {
+    setEstimate(ownVote
+      ? { story_points: ownVote.story_points, complexity_rating: ownVote.complexity_rating, risk_rating: ownVote.risk_rating }
+      : EMPTY_ESTIMATE);
+  }, [round?.id, ownVote?.id]);
+
+  // Propose the suggested values once the votes are revealed
+  useEffect(() => {
+    setConsensus({
+      story_points: summaries.story_points.suggested,
+      complexity_rating: summaries.complexity_rating.suggested,
+      risk_rating: summaries.risk_rating.suggested,
+    });
+  }, [summaries.story_points.suggested, summaries.complexity_rating.suggested, summaries.risk_rating.suggested]);
+
+  const userName = (userId: string) => {
+    if (userId === user?.id) return 'You';
+    const profile = profiles.find(p => p.id === userId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      await action();
+      toast.success(success);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const handleVote = () => round && run(
+    () => castVote.mutateAsync({ round_id: round.id, ...estimate }),
+    ownVote ? 'Vote changed' : 'Vote cast',
+    'Failed to cast vote'
+  );
+
+  const handleAccept = () => round && run(
+    () => acceptRound.mutateAsync({ round_id: round.id, ...consensus }),
+    'Estimate saved to the story',
+    'Failed to accept estimate'
+  );
+
+  const busy = startRound.isPending || castVote.isPending || revealRound.isPending || acceptRound.isPending;
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center">
+            <ScaleIcon className="h-5 w-5 text-gray-400 mr-2" />
+            <h2 className="text-xl font-semibold text-gray-900">Estimate {storyTitle}</h2>
+            {round && (
+              <span className="ml-3 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                Round {round.round_number}
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {isLoading ? (
+            <div className="flex justify-center items-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : !round ? (
+            <div className="text-center py-6">
+              <p className="text-sm text-gray-500">No estimation round is open for this story.</p>
+              {canLead && !disabled && (
+                <button
+                  onClick={() => run(() => startRound.mutateAsync(sessionStoryId), 'Estimation round started', 'Failed to start round')}
+                  disabled={busy}
+                  className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  <ScaleIcon className="h-5 w-5 mr-2" />
+                  Start Estimation Round
+                </button>
+              )}
+            </div>
+          ) : round.status === 'voting' ? (
+            <>
+              {canVote ? (
+                <div className="space-y-4">
+                  {ESTIMATE_FIELDS.map(({ field, label, scale }) => (
+                    <CardPicker
+                      key={field}
+                      label={label}
+                      scale={scale}
+                      value={estimate[field]}
+                      onChange={(value) => setEstimate({ ...estimate, [field]: value })}
+                      disabled={busy}
+                    />
+                  ))}
+                  <button
+                    onClick={handleVote}
+                    disabled={busy}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    <CheckIcon className="h-5 w-5 mr-2" />
+                    {ownVote ? 'Change Vote' : 'Cast Vote'}
+                  </button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Viewers can follow the estimation but not vote.</p>
+              )}
+
+              <div className="bg-gray-50 rounded-md p-4">
+                <h4 className="text-sm font-medium text-gray-700">
+                  {voters.length} {voters.length === 1 ? 'vote' : 'votes'} cast; votes stay hidden until they are revealed
+                </h4>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {voters.map(voterId => (
+                    <span key={voterId} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      <CheckIcon className="h-3 w-3 mr-1" />
+                      {userName(voterId)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Participant</th>
+                    {ESTIMATE_FIELDS.map(({ field, label }) => (
+                      <th key={field} className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {votes.map(vote => (
+                    <tr key={vote.id}>
+                      <td className="px-3 py-2 text-sm text-gray-900">{userName(vote.user_id)}</td>
+                      {ESTIMATE_FIELDS.map(({ field }) => (
+                        <td
+                          key={field}
+                          title={summaries[field].outliers.includes(vote.user_id) ? 'Far from the other votes' : undefined}
+                          className={`px-3 py-2 text-sm text-center ${
+                            summaries[field].outliers.includes(vote.user_id) ? 'bg-red-100 text-red-800 font-semibold' : 'text-gray-700'
+                          }`}
+                        >
+                          {vote[field] ?? '?'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50">
+                    <td className="px-3 py-2 text-xs font-medium text-gray-500">Range</td>
+                    {ESTIMATE_FIELDS.map(({ field }) => (
+                      <td key={field} className="px-3 py-2 text-xs text-center text-gray-500">
+                        {summaries[field].count === 0
+                          ? '-'
+                          : summaries[field].unanimous
+                            ? `Unanimous: ${summaries[field].min}`
+                            : `${summaries[field].min} - ${summaries[field].max}`}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+
+              {ESTIMATE_FIELDS.some(({ field }) => summaries[field].outliers.length > 0) && (
+                <p className="text-sm text-red-700">
+                  Highlighted votes are far from the others. Discuss them, then re-vote or settle on an estimate.
+                </p>
+              )}
+
+              {canLead && !disabled ? (
+                <div className="bg-gray-50 rounded-md p-4 space-y-4">
+                  <h4 className="text-sm font-medium text-gray-700">Consensus</h4>
+                  {ESTIMATE_FIELDS.map(({ field, label, scale }) => (
+                    <CardPicker
+                      key={field}
+                      label={label}
+                      scale={scale}
+                      value={consensus[field]}
+                      onChange={(value) => setConsensus({ ...consensus, [field]: value })}
+                      disabled={busy}
+                    />
+                  ))}
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={handleAccept}
+                      disabled={busy}
+                      className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      <CheckIcon className="h-5 w-5 mr-2" />
+                      Accept Estimate
+                    </button>
+                    <button
+                      onClick={() => run(() => startRound.mutateAsync(sessionStoryId), 'New round started', 'Failed to start round')}
+                      disabled={busy}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <ArrowPathIcon className="h-5 w-5 mr-2" />
+                      Re-vote
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">The facilitator settles on the estimate or starts a re-vote.</p>
+              )}
+            </>
+          )}
+
+          {round?.status === 'voting' && canLead && !disabled && (
+            <button
+              onClick={() => run(() => revealRound.mutateAsync(round.id), 'Votes revealed', 'Failed to reveal votes')}
+              disabled={busy || round.vote_count === 0}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <EyeIcon className="h-5 w-5 mr-2" />
+              Reveal Votes
+            </button>
+          )}
+
+          {rounds.some(r => r.id !== round?.id) && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-500 mb-2">Earlier rounds</h4>
+              <ul className="space-y-1">
+                {rounds.filter(r => r.id !== round?.id).map(r => (
+                  <li key={r.id} className="text-sm text-gray-600">
+                    Round {r.round_number} · {r.vote_count} {r.vote_count === 1 ? 'vote' : 'votes'} · {roundLabel(r)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { StoryDiscussionCard } from './StoryDiscussionCard';
 import { StorySplittingModal } from './StorySplittingModal';
+import { StoryHistoryModal } from './StoryHistoryModal';
+import { EstimationModal } from './EstimationModal';
 import { useSplitStory } from '../src/hooks/useGroomingStories';
 import { toast } from 'sonner';
 import type { GroomingStory, SessionStory as GroomingSessionStory } from '../src/types/grooming';
@@ -74,6 +76,8 @@ export function GroomingStoryDetail({
   onStorySplit
 }: GroomingStoryDetailProps) {
   const [showSplitModal, setShowSplitModal] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showEstimation, setShowEstimation] = useState(false);
   
   // Convert the Story type to GroomingStory type for the StorySplittingModal
   const convertToGroomingStory = (): GroomingStory => {
@@ -132,6 +136,8 @@ export function GroomingStoryDetail({
         onUpdateRiskRating={onUpdateRiskRating}
         onUpdateComplexityRating={onUpdateComplexityRating}
         onSplitStory={handleSplitStory}
+        onShowHistory={() => setShowHistory(true)}
+        onEstimate={() => setShowEstimation(true)}
         sessionStatus={sessionStatus}
       />
 
@@ -142,6 +148,25 @@ export function GroomingStoryDetail({
           onSuccess={handleSplitSuccess}
         />
       )}
+
+      {showHistory && (
+        <StoryHistoryModal
+          storyId={sessionStory.story.id}
+          storyTitle={sessionStory.story.pb_title}
+          onClose={() => setShowHistory(false)}
+          disabled={sessionStatus === 'completed'}
+        />
+      )}
+
+      {showEstimation && (
+        <EstimationModal
+          sessionId={sessionStory.session_id}
+          sessionStoryId={sessionStory.id}
+          storyTitle={sessionStory.story.pb_title}
+          onClose={() => setShowEstimation(false)}
+          disabled={sessionStatus === 'completed'}
+        />
+      )}
     </>
   );
 }
@@ -7,7 +7,8 @@ import {
   DocumentTextIcon,
   ChatBubbleLeftRightIcon,
   ArrowsUpDownIcon,
-  DocumentDuplicateIcon
+  DocumentDuplicateIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline';
 import type { SessionStory, GroomingStory } from '../src/types/grooming';
 
@@ -19,6 +20,7 @@ interface SessionStoryListProps {
   onStoryClick: (sessionStory: SessionStory & { story: GroomingStory }) => void;
   onSplitStory: (sessionStory: SessionStory & { story: GroomingStory }) => void;
   sessionStatus: 'planned' | 'in_progress' | 'completed';
+  currentStoryId?: string | null;
 }
 
 export function SessionStoryList({
@@ -28,7 +30,8 @@ export function SessionStoryList({
   onReorderStory,
   onStoryClick,
   onSplitStory,
-  sessionStatus
+  sessionStatus,
+  currentStoryId
 }: SessionStoryListProps) {
   const [loading, setLoading] = useState(false);
   const [actionStoryId, setActionStoryId] = useState<string | null>(null);
@@ -125,7 +128,10 @@ export function SessionStoryList({
       ) : (
         <ul className="divide-y divide-gray-200">
           {sortedStories.map((sessionStory, index) => (
-            <li key={sessionStory.id} className="py-4">
+            <li
+              key={sessionStory.id}
+              className={`py-4 ${sessionStory.id === currentStoryId ? 'bg-indigo-50 border-l-4 border-indigo-500 pl-2' : ''}`}
+            >
               <div className="flex items-start">
                 <div className="flex-shrink-0 flex flex-col items-center mr-3">
                   <button
@@ -157,6 +163,11 @@ export function SessionStoryList({
                         {sessionStory.story.pb_feature_id ? 'feature' : 'story'}
                       </span>
                       <p className="text-sm font-medium text-gray-900">{sessionStory.story.title}</p>
+                      {sessionStory.id === currentStoryId && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-600 text-white">
+                          Discussing
+                        </span>
+                      )}
                     </div>
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(sessionStory.status)}`}>
                       {sessionStory.status}
@@ -182,6 +193,13 @@ export function SessionStoryList({
                       </span>
                     )}
                     
+                    {!!sessionStory.discussion_duration_minutes && (
+                      <span className="flex items-center">
+                        <ClockIcon className="h-3.5 w-3.5 mr-1" />
+                        {sessionStory.discussion_duration_minutes} min
+                      </span>
+                    )}
+                    
                     {sessionStory.complexity_rating && (
                       <span className="flex items-center">
                         Complexity: {sessionStory.complexity_rating}/5
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   XMarkIcon, 
   PencilIcon, 
@@ -8,7 +8,8 @@ import {
   ArrowPathIcon,
   DocumentDuplicateIcon,
   ExclamationTriangleIcon,
-  TrashIcon
+  TrashIcon,
+  ScaleIcon
 } from '@heroicons/react/24/outline';
 import { EditableItem } from './EditableItem';
 import { toast } from './lib/sonner';
@@ -60,6 +61,8 @@ interface StoryDiscussionCardProps {
   onUpdateRiskRating: (rating: number) => Promise<void>;
   onUpdateComplexityRating: (rating: number) => Promise<void>;
   onSplitStory: () => void;
+  onShowHistory?: () => void;
+  onEstimate?: () => void;
   sessionStatus: 'planned' | 'in_progress' | 'completed';
 }
 
@@ -77,6 +80,8 @@ export function StoryDiscussionCard({
   onUpdateRiskRating,
   onUpdateComplexityRating,
   onSplitStory,
+  onShowHistory,
+  onEstimate,
   sessionStatus
 }: StoryDiscussionCardProps) {
   const [loading, setLoading] = useState(false);
@@ -88,6 +93,12 @@ export function StoryDiscussionCard({
   const [riskRating, setRiskRating] = useState(sessionStory.risk_rating || 0);
   const [complexityRating, setComplexityRating] = useState(sessionStory.complexity_rating || 0);
 
+  // Ratings can also change elsewhere, e.g. when an estimate is accepted
+  useEffect(() => {
+    setRiskRating(sessionStory.risk_rating || 0);
+    setComplexityRating(sessionStory.complexity_rating || 0);
+  }, [sessionStory.risk_rating, sessionStory.complexity_rating]);
+
   const isReadOnly = sessionStatus === 'completed';
 
   const handleUpdateStatus = async (status: 'pending' | 'discussed' | 'deferred' | 'split' | 'rejected') => {
@@ -644,6 +655,15 @@ export function StoryDiscussionCard({
                 <p className="mt-1 text-lg font-semibold text-gray-900">
                   {sessionStory.story.story_points || 'Not estimated'}
                 </p>
+                {onEstimate && (
+                  <button
+                    onClick={onEstimate}
+                    className="mt-3 w-full inline-flex items-center justify-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <ScaleIcon className="h-4 w-4 mr-2" />
+                    Estimate with Planning Poker
+                  </button>
+                )}
               </div>
 
               {/* Split story button */}
@@ -657,6 +677,17 @@ export function StoryDiscussionCard({
                   Split Story
                 </button>
               )}
+
+              {/* Version history */}
+              {onShowHistory && (
+                <button
+                  onClick={onShowHistory}
+                  className="w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <ClockIcon className="h-5 w-5 mr-2" />
+                  View History
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useState } from 'react';
+import { XMarkIcon, ArrowUturnLeftIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { toast } from './lib/sonner';
+import { useStoryHistory, useRestoreStoryVersion } from '../src/hooks/useGroomingStories';
+import { useUserProfiles } from '../src/hooks/useUserProfiles';
+import { CHANGE_SOURCE_LABELS, diffWords, fieldLabel, formatHistoryValue } from '../src/lib/storyHistory';
+import type { StoryChange, StoryFieldChange } from '../src/types/grooming';
+
+interface StoryHistoryModalProps {
+  storyId: string;
+  storyTitle: string;
+  onClose: () => void;
+  onRestored?: () => void;
+  disabled?: boolean;
+}
+
+// Before and after of one field, with the removed and added words highlighted
+function FieldDiff({ field }: { field: StoryFieldChange }) {
+  const parts = useMemo(
+    () => diffWords(formatHistoryValue(field.old_value), formatHistoryValue(field.new_value)),
+    [field]
+  );
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-1">{fieldLabel(field.field_name)}</h4>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="bg-red-50 border border-red-100 rounded p-2 whitespace-pre-wrap break-words">
+          {parts.some(part => part.type !== 'added')
+            ? parts.filter(part => part.type !== 'added').map((part, index) => (
+                <span key={index} className={part.type === 'removed' ? 'bg-red-200 line-through' : ''}>{part.text}</span>
+              ))
+            : <span className="text-gray-400 italic">(empty)</span>}
+        </div>
+        <div className="bg-green-50 border border-green-100 rounded p-2 whitespace-pre-wrap break-words">
+          {parts.some(part => part.type !== 'removed')
+            ? parts.filter(part => part.type !== 'removed').map((part, index) => (
+                <span key={index} className={part.type === 'added' ? 'bg-green-200' : ''}>{part.text}</span>
+              ))
+            : <span className="text-gray-400 italic">(empty)</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function StoryHistoryModal({ storyId, storyTitle, onClose, onRestored, disabled = false }: StoryHistoryModalProps) {
+  const { data: changes = [], isLoading, error } = useStoryHistory(storyId);
+  const { data: profiles = [] } = useUserProfiles();
+  const restoreVersion = useRestoreStoryVersion();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Show the latest change until another one is picked
+  useEffect(() => {
+    if (!selectedId && changes.length > 0) {
+      setSelectedId(changes[0].id);
+    }
+  }, [changes, selectedId]);
+
+  const selectedIndex = changes.findIndex(change => change.id === selectedId);
+  const selected = selectedIndex >= 0 ? changes[selectedIndex] : null;
+
+  const actorName = (change: StoryChange) => {
+    if (!change.changed_by) return 'System';
+    const profile = profiles.find(p => p.id === change.changed_by);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const summary = (change: StoryChange) => {
+    if (change.created) return 'Created the story';
+    return `Changed ${change.fields.map(field => fieldLabel(field.field_name).toLowerCase()).join(', ')}`;
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      await restoreVersion.mutateAsync({ storyId, changeId: selected.id });
+      toast.success('Version restored');
+      setSelectedId(null);
+      onRestored?.();
+    } catch (err) {
+      console.error('Error restoring story version:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to restore version');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center">
+            <ClockIcon className="h-5 w-5 text-gray-400 mr-2" />
+            <h2 className="text-xl font-semibold text-gray-900">History of {storyTitle}</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : error ? (
+          <div className="p-4">
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <p className="text-red-800">Error loading story history</p>
+            </div>
+          </div>
+        ) : changes.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            <p className="text-sm">No changes have been recorded for this story yet</p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-3">
+            {/* Timeline */}
+            <ol className="border-r overflow-y-auto p-4 space-y-1">
+              {changes.map((change, index) => (
+                <li key={change.id}>
+                  <button
+                    onClick={() => setSelectedId(change.id)}
+                    className={`w-full text-left rounded-md p-2 border-l-4 ${
+                      change.id === selectedId ? 'bg-indigo-50 border-indigo-500' : 'border-transparent hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-gray-500">{format(new Date(change.changed_at), 'PP p')}</span>
+                      {index === 0 && <span className="text-xs font-medium text-indigo-600">Current</span>}
+                    </div>
+                    <p className="text-sm font-medium text-gray-900">{actorName(change)}</p>
+                    <p className="text-xs text-gray-600 truncate">{summary(change)}</p>
+                    {change.source && (
+                      <span className="inline-flex items-center px-2 py-0.5 mt-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        {CHANGE_SOURCE_LABELS[change.source] || change.source}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            {/* Diff of the selected change */}
+            <div className="md:col-span-2 overflow-y-auto p-4 space-y-4">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-gray-900">{summary(selected)}</p>
+                      <p className="text-xs text-gray-500">
+                        {actorName(selected)} · {format(new Date(selected.changed_at), 'PPP p')}
+                      </p>
+                    </div>
+                    {selectedIndex > 0 && !disabled && (
+                      <button
+                        onClick={handleRestore}
+                        disabled={restoreVersion.isPending}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <ArrowUturnLeftIcon className="h-4 w-4 mr-2" />
+                        {restoreVersion.isPending ? 'Restoring...' : 'Restore this version'}
+                      </button>
+                    )}
+                  </div>
+                  {selected.fields.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      {selected.created ? 'This is the first recorded version of the story.' : 'No field values were recorded.'}
+                    </p>
+                  ) : (
+                    selected.fields.map(field => <FieldDiff key={field.field_name} field={field} />)
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="p-4 border-t flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
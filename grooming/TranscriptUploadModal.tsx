@@ -1,8 +1,48 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { XMarkIcon, DocumentTextIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
 import { useDatabase } from '../src/contexts/DatabaseContext';
 import { useFunctions } from '../src/contexts/FunctionContext';
+import { isEdgeFunctionAbort } from '../src/lib/api/edgeFunctions';
+import { useUserProfiles } from '../src/hooks/useUserProfiles';
+import { useWorkspaceMembers } from '../src/hooks/useWorkspaces';
+import {
+  ParsedTranscript,
+  TRANSCRIPT_FILE_TYPES,
+  formatTranscript,
+  formatTranscriptTime,
+  parseTranscript,
+  readTranscriptFile
+} from '../src/lib/transcriptParser';
 import type { GroomingSession } from '../src/types/grooming';
+import type { UserProfile } from '../src/types/auth';
+import type { TranscriptAnalysisProgress } from '../src/types/edgeFunctions';
+
+const FORMAT_LABELS: Record<ParsedTranscript['format'], string> = {
+  webvtt: 'WebVTT',
+  srt: 'SRT',
+  teams: 'Microsoft Teams',
+  zoom: 'Zoom',
+  plain: 'Plain text',
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// What the analysis is doing, for the progress bar
+function progressLabel({ stage, completed, total }: TranscriptAnalysisProgress): string {
+  if (stage === 'reduce') return `Merging the results of ${total} parts...`;
+  if (stage === 'saving') return 'Saving the analysis...';
+  return total > 1 ? `Analyzing part ${Math.min(completed + 1, total)} of ${total}...` : 'Analyzing the transcript...';
+}
+
+// The user a speaker most likely is: same full name, e-mail address or e-mail name
+function guessSpeakerUser(speaker: string, users: UserProfile[]): string {
+  const name = normalizeName(speaker);
+  const user = users.find(candidate =>
+    (candidate.full_name && normalizeName(candidate.full_name) === name) ||
+    (candidate.email && (candidate.email.toLowerCase() === name || candidate.email.toLowerCase().split('@')[0] === name.replace(/ /g, '.')))
+  );
+  return user?.id || '';
+}
 
 interface TranscriptUploadModalProps {
   session: GroomingSession;
@@ -15,59 +55,97 @@ export function TranscriptUploadModal({ session, onClose, onUploaded }: Transcri
   const { functions } = useFunctions();
   
   const [transcript, setTranscript] = useState('');
+  const [parsed, setParsed] = useState<ParsedTranscript | null>(null);
+  // User ID per speaker name; empty when the speaker is not mapped
+  const [speakerUsers, setSpeakerUsers] = useState<Record<string, string>>({});
   const [isUploading, setIsUploading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<TranscriptAnalysisProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Cancels the analysis when the modal is closed while it runs
+  const abortRef = useRef<AbortController | null>(null);
   
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  useEffect(() => () => abortRef.current?.abort(), []);
+  
+  // Speakers can be mapped to the members of the session's workspace
+  const { data: profiles = [] } = useUserProfiles();
+  const { data: members = [] } = useWorkspaceMembers(session.workspace_id);
+  const users = useMemo(() => {
+    const memberIds = new Set(members.map(member => member.user_id));
+    return profiles.filter(profile => memberIds.has(profile.id));
+  }, [profiles, members]);
+  
+  // Seconds each speaker talked, when the transcript has timestamps
+  const talkTime = useMemo(() => {
+    const seconds = new Map<string, number>();
+    parsed?.segments.forEach(segment => {
+      if (!segment.speaker || segment.start_seconds === null || segment.end_seconds === null) return;
+      seconds.set(segment.speaker, (seconds.get(segment.speaker) || 0) + segment.end_seconds - segment.start_seconds);
+    });
+    return seconds;
+  }, [parsed]);
+  
+  useEffect(() => {
+    if (!parsed) return;
+    setSpeakerUsers(current => Object.fromEntries(
+      parsed.speakers.map(speaker => [speaker, current[speaker] || guessSpeakerUser(speaker, users)])
+    ));
+  }, [parsed, users]);
+  
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
     
     setIsUploading(true);
     setError(null);
     
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        setTranscript(content);
-        setIsUploading(false);
-      } catch (err) {
-        setError('Failed to read file. Please try again.');
-        setIsUploading(false);
-      }
-    };
-    
-    reader.onerror = () => {
-      setError('Failed to read file. Please try again.');
+    try {
+      const content = await readTranscriptFile(file);
+      const result = parseTranscript(content);
+      // Transcripts without speaker turns are analyzed as they are
+      setParsed(result.segments.length > 0 ? result : null);
+      setTranscript(result.segments.length > 0 ? formatTranscript(result.segments) : content);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file. Please try again.');
+    } finally {
       setIsUploading(false);
-    };
-    
-    reader.readAsText(file);
+    }
+  };
+  
+  const handleClear = () => {
+    setTranscript('');
+    setParsed(null);
+    setSpeakerUsers({});
   };
   
   const handleSubmit = async () => {
     if (!transcript.trim() || !db || !functions) return;
     
     setIsProcessing(true);
+    setProgress(null);
     setError(null);
+    abortRef.current = new AbortController();
     
     try {
       // First, save the transcript to the session
       await db.groomingSessions.updateTranscript(session.id, transcript);
       
       // Then, call the analyze-transcript function to process it
-      const result = await functions.analyzeTranscript({
+      await functions.analyzeTranscript({
         sessionId: session.id,
         transcript,
-      });
+        format: parsed?.format,
+        segments: parsed?.segments,
+        speakers: parsed?.speakers.map(name => ({ name, user_id: speakerUsers[name] || null })),
+      }, { signal: abortRef.current.signal, onProgress: setProgress });
       
       // Call the callback to refresh the session data
       onUploaded();
       onClose();
     } catch (err) {
+      if (isEdgeFunctionAbort(err)) return;
       console.error('Error processing transcript:', err);
-      setError('Failed to process transcript. Please try again.');
+      setError(`Failed to process transcript: ${err instanceof Error ? err.message : 'Unknown error'}`);
       setIsProcessing(false);
     }
   };
@@ -84,7 +162,7 @@ export function TranscriptUploadModal({ session, onClose, onUploaded }: Transcri
         
         <div className="flex-1 overflow-y-auto p-4">
           <p className="text-sm text-gray-500 mb-4">
-            Upload a transcript of your grooming session. The AI will analyze it to extract discussion points, decisions, and action items.
+            Upload a transcript of your grooming session. The AI will analyze it to extract discussion points, decisions, and action items, attribute them to speakers and estimate how long each story was discussed.
           </p>
           
           {!transcript ? (
@@ -98,21 +176,28 @@ export function TranscriptUploadModal({ session, onClose, onUploaded }: Transcri
                 Select File
                 <input
                   type="file"
-                  accept=".txt,.md,.doc,.docx"
+                  accept={TRANSCRIPT_FILE_TYPES.join(',')}
                   onChange={handleFileUpload}
                   className="hidden"
                 />
               </label>
               <p className="text-xs text-gray-400 mt-2">
-                Supported formats: .txt, .md, .doc, .docx
+                Supported formats: WebVTT, SRT, Microsoft Teams and Zoom exports ({TRANSCRIPT_FILE_TYPES.join(', ')})
               </p>
             </div>
           ) : (
             <div className="border border-gray-300 rounded-lg">
               <div className="bg-gray-50 px-4 py-2 border-b border-gray-300 flex justify-between items-center">
-                <h3 className="text-sm font-medium text-gray-700">Transcript Preview</h3>
+                <h3 className="text-sm font-medium text-gray-700">
+                  Transcript Preview
+                  {parsed && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {FORMAT_LABELS[parsed.format]} · {parsed.segments.length} turns · {parsed.speakers.length} speakers
+                    </span>
+                  )}
+                </h3>
                 <button
-                  onClick={() => setTranscript('')}
+                  onClick={handleClear}
                   className="text-xs text-gray-500 hover:text-gray-700"
                 >
                   Clear
@@ -124,6 +209,52 @@ export function TranscriptUploadModal({ session, onClose, onUploaded }: Transcri
             </div>
           )}
           
+          {parsed && parsed.speakers.length > 0 && (
+            <div className="mt-4 border border-gray-300 rounded-lg">
+              <div className="bg-gray-50 px-4 py-2 border-b border-gray-300">
+                <h3 className="text-sm font-medium text-gray-700">Speakers</h3>
+                <p className="text-xs text-gray-500">Mapped speakers are added to the session participants.</p>
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {parsed.speakers.map(speaker => (
+                  <li key={speaker} className="px-4 py-2 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{speaker}</p>
+                      {talkTime.has(speaker) && (
+                        <p className="text-xs text-gray-500">Talked for {formatTranscriptTime(talkTime.get(speaker) as number)}</p>
+                      )}
+                    </div>
+                    <select
+                      value={speakerUsers[speaker] || ''}
+                      onChange={(e) => setSpeakerUsers(current => ({ ...current, [speaker]: e.target.value }))}
+                      className="block w-56 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      <option value="">Not a workspace member</option>
+                      {users.map(user => (
+                        <option key={user.id} value={user.id}>{user.full_name || user.email}</option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          
+          {isProcessing && progress && (
+            <div className="mt-4">
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>{progressLabel(progress)}</span>
+                <span>{progress.completed} / {progress.total} parts</span>
+              </div>
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-2 bg-indigo-600 transition-all"
+                  style={{ width: `${progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+          
           {error && (
             <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3">
               <p className="text-sm text-red-600">{error}</p>
@@ -20,6 +20,7 @@ import { pbAdoLinkerRoutes } from './features/pb-ado-linker/routes'; // Import P
 
 // Import context providers
 import { AuthProvider } from './features/auth/AuthContext';
+import { RequireAuth, RequireRole } from './features/auth/components/RequireAuth';
 import { WorkspaceProvider } from './contexts/WorkspaceContext';
 import { DatabaseProvider } from './contexts/DatabaseContext';
 import { FunctionProvider } from './contexts/FunctionContext';
@@ -27,13 +28,14 @@ import { ToastProvider } from './contexts/ToastContext';
 
 // Import components
 import { PageNotFound } from './components/feedback/PageNotFound';
+import { AppRoute } from './types/auth';
 
 /**
  * Main application component that sets up routing and providers
  */
 function App() {
-  // Flatten all feature routes
-  const routes = [
+  // Flatten all feature routes; routes with roles are only available to those roles
+  const routes: AppRoute[] = [
     ...dashboardRoutes,
     ...featuresRoutes,
     ...hierarchyRoutes,
@@ -43,7 +45,6 @@ function App() {
     ...groomingAssistantRoutes,
     ...syncRoutes,
     ...adminRoutes, // Add admin routes
-    ...authRoutes,
     ...storyCreatorRoutes, // Add story creator routes
     ...pbAdoLinkerRoutes // Add PB-ADO Linker routes
   ];
@@ -59,10 +60,19 @@ function App() {
           {/* Redirect root to admin */}
           <Route path="/" element={<Navigate to="/admin" replace />} />
           
-          {/* Main layout with feature routes */}
-          <Route element={<MainLayout />}>
+          {/* Sign-in routes */}
+          {authRoutes.map((route) => (
+            <Route key={route.path} path={route.path} element={route.element} />
+          ))}
+          
+          {/* Main layout with feature routes, for signed-in users only */}
+          <Route element={<RequireAuth><MainLayout /></RequireAuth>}>
             {routes.map((route) => (
-              <Route key={route.path} path={route.path} element={route.element} />
+              <Route
+                key={route.path}
+                path={route.path}
+                element={<RequireRole roles={route.roles}>{route.element}</RequireRole>}
+              />
             ))}
           </Route>
           
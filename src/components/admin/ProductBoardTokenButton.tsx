@@ -1,12 +1,7 @@
 import React, { useState } from 'react';
 import { Button } from '../../components/ui/shadcn/button';
 import { RefreshCw } from 'lucide-react';
-import { createClient } from '@supabase/supabase-js';
-
-// Get Supabase URL and anon key from environment variables
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-const supabase = createClient(supabaseUrl, supabaseAnonKey);
+import { invokeEdgeFunction } from '../../lib/api/edgeFunctions';
 
 interface ProductBoardTokenButtonProps {
   onCaptureComplete?: (result: { success: boolean; message: string }) => void;
@@ -35,27 +30,19 @@ const ProductBoardTokenButton: React.FC<ProductBoardTokenButtonProps> = ({
       const workspaceId = import.meta.env.WORKSPACE_ID || '00000000-0000-0000-0000-000000000000';
 
       // Call the Supabase Function to capture tokens using Apify
-      const { data, error } = await supabase.functions.invoke('capture-productboard-tokens', {
-        body: {
-          workspaceId,
-          boardId: 'primary', // This should be configured as needed
-          boardUrl: testBoardUrl,
-          boardName: 'ProductBoard',
-          isClientCapture: false,
-          useApify: true, // Use Apify for token extraction with credentials from environment variables
-        },
-      });
-
-      if (error) {
-        setError(`Error capturing token: ${error.message}`);
-        onCaptureComplete?.({ success: false, message: error.message });
-        return;
-      }
+      const data = await invokeEdgeFunction('capture-productboard-tokens', {
+        workspaceId,
+        boardId: 'primary', // This should be configured as needed
+        boardUrl: testBoardUrl,
+        boardName: 'ProductBoard',
+        isClientCapture: false,
+        useApify: true, // Use Apify for token extraction with credentials from environment variables
+      }, { timeoutMs: 3 * 60_000 });
 
       // Handle the response
       if (data && data.success) {
         setMessage('ProductBoard token captured and saved successfully!');
-        onCaptureComplete?.({ success: true, message: data.message });
+        onCaptureComplete?.({ success: true, message: data.message || 'ProductBoard token captured' });
       } else {
         setError(data?.error || 'Failed to capture token');
         onCaptureComplete?.({ 
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { supabase } from '../../lib/supabase';
+import { getActiveWorkspaceId } from '../../lib/activeWorkspace';
 import * as adoApi from '../../lib/api/azureDevOpsProxy';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
@@ -143,7 +144,7 @@ const WorkItemTester: React.FC<WorkItemTesterProps> = ({ organization, project,
       
       const { data, error: upsertError } = await supabase
         .from('ado_work_items')
-        .upsert([mappedItem], { onConflict: 'id' })
+        .upsert([{ ...mappedItem, workspace_id: getActiveWorkspaceId() }], { onConflict: 'workspace_id,id' })
         .select();
       
       if (upsertError) {
@@ -156,6 +157,7 @@ const WorkItemTester: React.FC<WorkItemTesterProps> = ({ organization, project,
       const { data: verifyData, error: verifyError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('id', id)
         .single();
       
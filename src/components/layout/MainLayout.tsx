@@ -1,5 +1,10 @@
 import React from 'react';
 import { Link, Outlet, useLocation } from 'react-router-dom';
+import { LogOut } from 'lucide-react';
+import { useAuth } from '../../features/auth/AuthContext';
+import { useWorkspace } from '../../contexts/WorkspaceContext';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/shadcn/select';
+import { ROLE_LABELS } from '../../types/auth';
 
 /**
  * MainLayout component provides the main application layout structure,
@@ -8,6 +13,8 @@ import { Link, Outlet, useLocation } from 'react-router-dom';
  */
 export const MainLayout: React.FC = () => {
   const location = useLocation();
+  const { user, logout } = useAuth();
+  const { currentWorkspace, setCurrentWorkspace, workspaces } = useWorkspace();
   
   // Helper function to check if a path is active
   const isActive = (path: string) => {
@@ -57,6 +64,40 @@ export const MainLayout: React.FC = () => {
                   {item.label}
                 </Link>
               ))}
+
+              {workspaces.length > 1 && (
+                <div className="w-48 pl-4 ml-2 border-l border-gray-200">
+                  <Select
+                    value={currentWorkspace?.id}
+                    onValueChange={(id) => setCurrentWorkspace(workspaces.find(workspace => workspace.id === id) || null)}
+                  >
+                    <SelectTrigger title="Switch workspace">
+                      <SelectValue placeholder="Select workspace" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workspaces.map(workspace => (
+                        <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {user && (
+                <div className="flex items-center pl-4 ml-2 border-l border-gray-200">
+                  <div className="text-right mr-3">
+                    <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                    <div className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</div>
+                  </div>
+                  <button
+                    onClick={logout}
+                    className="p-2 text-gray-500 hover:text-gray-900"
+                    title="Sign out"
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
             </nav>
           </div>
         </div>
@@ -185,7 +185,7 @@
     
     const { data, error } = await supabase
       .from('ado_work_items')
-      .upsert([mappedItem], { onConflict: 'id' })
+      .upsert([{ ...mappedItem, workspace_id: '00000000-0000-0000-0000-000000000000' }], { onConflict: 'workspace_id,id' })
       .select();
     
     if (error) {
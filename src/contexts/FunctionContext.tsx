@@ -1,15 +1,24 @@
-import React, { createContext, useContext, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useMemo, useState, ReactNode } from 'react';
+import { analyzeStory, analyzeTranscript } from '../lib/api/grooming';
+import { invokeEdgeFunction, isEdgeFunctionAbort, isEdgeFunctionMockMode, InvokeOptions, StreamOptions } from '../lib/api/edgeFunctions';
+import { AnalyzeStoryResponse, AnalyzeTranscriptResponse, TranscriptAnalysisProgress } from '../types/edgeFunctions';
+import { AnalyzeStoryRequest, AnalyzeTranscriptRequest } from '../types/grooming';
 
 interface Functions {
-  analyzeTranscript: (params: { sessionId: string; transcript: string }) => Promise<any>;
-  analyzeStory: (params: { storyId: string; content: string }) => Promise<any>;
-  // Add other functions as needed
+  analyzeTranscript: (params: AnalyzeTranscriptRequest, options?: StreamOptions<TranscriptAnalysisProgress>) => Promise<AnalyzeTranscriptResponse>;
+  analyzeStory: (params: AnalyzeStoryRequest, options?: InvokeOptions) => Promise<AnalyzeStoryResponse>;
+  // Any other edge function, typed by name
+  invoke: typeof invokeEdgeFunction;
 }
 
 interface FunctionContextType {
   functions: Functions | null;
+  // Whether any call made through the context is still running
   isLoading: boolean;
+  // The error of the last failed call, cleared when the next call starts
   error: Error | null;
+  // Whether calls are answered with canned responses (VITE_MOCK_EDGE_FUNCTIONS)
+  isMockMode: boolean;
 }
 
 const FunctionContext = createContext<FunctionContextType | undefined>(undefined);
@@ -19,57 +28,36 @@ interface FunctionProviderProps {
 }
 
 export const FunctionProvider: React.FC<FunctionProviderProps> = ({ children }) => {
-  // Mock implementation of the functions
-  const mockFunctions: Functions = {
-    analyzeTranscript: async (params) => {
-      console.log('Analyzing transcript for session:', params.sessionId);
-      // In a real implementation, this would call the Supabase Edge Function
-      // For now, just return a mock response after a delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return {
-        success: true,
-        data: {
-          actionItems: [
-            { description: 'Update documentation', assignee: 'John', dueDate: '2025-04-21' },
-            { description: 'Create test cases', assignee: 'Sarah', dueDate: '2025-04-22' }
-          ],
-          keyPoints: [
-            'Need to improve performance',
-            'Mobile responsiveness is a priority',
-            'Consider accessibility requirements'
-          ],
-          decisions: [
-            'Use React Query for data fetching',
-            'Implement dark mode in next sprint',
-            'Prioritize bug fixes over new features'
-          ]
-        }
-      };
-    },
-    analyzeStory: async (params) => {
-      console.log('Analyzing story:', params.storyId);
-      // In a real implementation, this would call the Supabase Edge Function
-      // For now, just return a mock response after a delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return {
-        success: true,
-        data: {
-          complexity: 'medium',
-          riskAreas: ['performance', 'security'],
-          suggestedImprovements: [
-            'Add more detailed acceptance criteria',
-            'Consider breaking into smaller stories',
-            'Include technical constraints'
-          ]
-        }
-      };
+  const [pendingCalls, setPendingCalls] = useState(0);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Track a call in isLoading and error; cancelled calls are not errors
+  const track = useCallback(async <T,>(call: () => Promise<T>): Promise<T> => {
+    setPendingCalls(count => count + 1);
+    setError(null);
+    try {
+      return await call();
+    } catch (err) {
+      if (!isEdgeFunctionAbort(err)) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
+      throw err;
+    } finally {
+      setPendingCalls(count => count - 1);
     }
-  };
+  }, []);
+
+  const functions = useMemo<Functions>(() => ({
+    analyzeTranscript: (params, options) => track(() => analyzeTranscript(params, options)),
+    analyzeStory: (params, options) => track(() => analyzeStory(params, options)),
+    invoke: (name, body, options) => track(() => invokeEdgeFunction(name, body, options)),
+  }), [track]);
 
   const value = {
-    functions: mockFunctions,
-    isLoading: false,
-    error: null,
+    functions,
+    isLoading: pendingCalls > 0,
+    error,
+    isMockMode: isEdgeFunctionMockMode,
   };
 
   return (
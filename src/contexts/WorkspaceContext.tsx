@@ -1,10 +1,9 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-
-interface Workspace {
-  id: string;
-  name: string;
-  description?: string;
-}
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../features/auth/AuthContext';
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import { getActiveWorkspaceId, setActiveWorkspaceId } from '../lib/activeWorkspace';
+import { Workspace } from '../types/workspace';
 
 interface WorkspaceContextType {
   currentWorkspace: Workspace | null;
@@ -21,32 +20,38 @@ interface WorkspaceProviderProps {
 }
 
 export const WorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ children }) => {
-  // Using a valid UUID for the default workspace to avoid type errors with Supabase
-  const DEFAULT_WORKSPACE_UUID = '00000000-0000-0000-0000-000000000000';
-  
-  const [currentWorkspace, setCurrentWorkspace] = useState<Workspace | null>({
-    id: DEFAULT_WORKSPACE_UUID,
-    name: 'Default Workspace',
-    description: 'The default workspace for all users'
-  });
-  
-  const [workspaces, setWorkspaces] = useState<Workspace[]>([
-    {
-      id: DEFAULT_WORKSPACE_UUID,
-      name: 'Default Workspace',
-      description: 'The default workspace for all users'
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+  const { data: workspaces = [], isLoading, error } = useWorkspaces(isAuthenticated);
+
+  const [currentWorkspace, setCurrentWorkspaceState] = useState<Workspace | null>(null);
+
+  // Switch workspaces; cached data of the previous workspace is dropped so every view refetches
+  const setCurrentWorkspace = useCallback((workspace: Workspace | null) => {
+    setCurrentWorkspaceState(workspace);
+    if (!workspace || workspace.id === getActiveWorkspaceId()) return;
+
+    setActiveWorkspaceId(workspace.id);
+    queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== 'workspaces' });
+  }, [queryClient]);
+
+  // Restore the last used workspace once the user's workspaces are known, falling back to the first one
+  useEffect(() => {
+    if (workspaces.length === 0) {
+      setCurrentWorkspaceState(null);
+      return;
     }
-  ]);
-  
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  
+
+    const active = workspaces.find(workspace => workspace.id === getActiveWorkspaceId());
+    setCurrentWorkspace(active || workspaces[0]);
+  }, [workspaces, setCurrentWorkspace]);
+
   const value = {
     currentWorkspace,
     setCurrentWorkspace,
     workspaces,
     isLoading,
-    error
+    error: error as Error | null
   };
   
   return (
@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
+  // Dev server only: answer edge function calls with the mocks in src/lib/api/edgeFunctionMocks.ts
+  readonly VITE_MOCK_EDGE_FUNCTIONS?: string;
   // Add other environment variables as needed
 }
 
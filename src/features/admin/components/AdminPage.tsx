@@ -250,6 +250,54 @@ export const AdminPage: React.FC = () => {
                 </div>
               </div>
               
+              <div className="space-y-2 border-t pt-4">
+                <label className="text-sm font-medium">Trigger Rules</label>
+                <p className="text-xs text-gray-500">
+                  Decide which ProductBoard status transitions create, update or link Azure DevOps work items.
+                </p>
+                <Link to="/admin/sync-rules">
+                  <Button variant="outline" className="flex items-center">
+                    Manage Trigger Rules
+                  </Button>
+                </Link>
+              </div>
+              
+              <div className="space-y-2 border-t pt-4">
+                <label className="text-sm font-medium">Retry Queue</label>
+                <p className="text-xs text-gray-500">
+                  Inspect failed sync operations and replay the ones that exhausted their retries.
+                </p>
+                <Link to="/admin/sync-queue">
+                  <Button variant="outline" className="flex items-center">
+                    View Retry Queue
+                  </Button>
+                </Link>
+              </div>
+              
+              <div className="space-y-2 border-t pt-4">
+                <label className="text-sm font-medium">Simulation</label>
+                <p className="text-xs text-gray-500">
+                  Preview the work items a sync would create or update for an initiative, feature or component, without calling Azure DevOps.
+                </p>
+                <Link to="/admin/sync-simulation">
+                  <Button variant="outline" className="flex items-center">
+                    Simulate Sync
+                  </Button>
+                </Link>
+              </div>
+
+              <div className="space-y-2 border-t pt-4">
+                <label className="text-sm font-medium">Reconciliation</label>
+                <p className="text-xs text-gray-500">
+                  Find ADO work items whose feature was deleted or archived, features with engineering but no work item, broken links and drift, and fix them.
+                </p>
+                <Link to="/admin/reconciliation">
+                  <Button variant="outline" className="flex items-center">
+                    Open Reconciliation Report
+                  </Button>
+                </Link>
+              </div>
+
               <div className="flex justify-end">
                 <Button 
                   onClick={() => handleSaveSettings('sync')}
@@ -315,6 +363,30 @@ export const AdminPage: React.FC = () => {
                 </p>
               </div>
               
+              <div className="space-y-2 border-t pt-4">
+                <label className="text-sm font-medium">Users & Roles</label>
+                <p className="text-xs text-gray-500">
+                  Assign the admin, product manager, engineer or viewer role to users who signed in.
+                </p>
+                <Link to="/admin/users">
+                  <Button variant="outline" className="flex items-center">
+                    Manage Users
+                  </Button>
+                </Link>
+              </div>
+
+              <div className="space-y-2 border-t pt-4">
+                <label className="text-sm font-medium">Workspaces</label>
+                <p className="text-xs text-gray-500">
+                  Create a workspace per product line with its own ADO project, tokens and hierarchy mappings, and choose who can access it.
+                </p>
+                <Link to="/admin/workspaces">
+                  <Button variant="outline" className="flex items-center">
+                    Manage Workspaces
+                  </Button>
+                </Link>
+              </div>
+              
               <div className="flex justify-end">
                 <Button 
                   variant="default"
@@ -433,7 +505,7 @@ export const AdminPage: React.FC = () => {
               </div>
             </div>
             
-            <div className="flex justify-center mt-4">
+            <div className="flex justify-center gap-2 mt-4">
               <Button 
                 variant="default"
                 onClick={() => window.location.href = '/admin/mapping-results'}
@@ -442,6 +514,11 @@ export const AdminPage: React.FC = () => {
               >
                 View Detailed Mapping Results
               </Button>
+              <Link to="/admin/mapping-matches">
+                <Button variant="outline" size="lg" className="flex items-center">
+                  Review Match Candidates
+                </Button>
+              </Link>
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,342 @@
+import React, { useState } from 'react';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Input } from '../../../components/ui/shadcn/input';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { AlertTriangle, History, KeyRound, Plus, RotateCw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '../../../contexts/ToastContext';
+import { useWorkspace } from '../../../contexts/WorkspaceContext';
+import { useUserProfiles } from '../../../hooks/useUserProfiles';
+import {
+  useConfigSecrets,
+  useConfigSecretHistory,
+  useSetConfigSecret,
+  useDeleteConfigSecret
+} from '../../../hooks/useConfigSecrets';
+import { ConfigSecret } from '../../../types/secrets';
+
+type SecretFormData = {
+  key: string;
+  value: string;
+  description: string;
+  // Set the secret for the current workspace only instead of system-wide
+  workspaceOnly: boolean;
+};
+
+const EMPTY_FORM: SecretFormData = { key: '', value: '', description: '', workspaceOnly: false };
+
+/**
+ * ConfigSecretsCard manages the API tokens and PATs stored encrypted in config_secrets.
+ * Values are write-only: they can be set and rotated here but are never shown again.
+ */
+export const ConfigSecretsCard: React.FC = () => {
+  const { addToast } = useToast();
+  const { currentWorkspace } = useWorkspace();
+  const { data: secrets = [], isLoading } = useConfigSecrets();
+  const { data: profiles = [] } = useUserProfiles();
+  const setSecret = useSetConfigSecret();
+  const deleteSecret = useDeleteConfigSecret();
+
+  // null: dialog closed, 'new': adding, otherwise the secret being rotated
+  const [editing, setEditing] = useState<ConfigSecret | 'new' | null>(null);
+  const [form, setForm] = useState<SecretFormData>(EMPTY_FORM);
+  const [historyOf, setHistoryOf] = useState<ConfigSecret | null>(null);
+  const [deleting, setDeleting] = useState<ConfigSecret | null>(null);
+  const { data: history = [], isLoading: historyLoading } = useConfigSecretHistory(historyOf);
+
+  const userName = (userId: string | null) => {
+    if (!userId) return 'Service';
+    const profile = profiles.find(p => p.id === userId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const openEditor = (secret: ConfigSecret | 'new') => {
+    setEditing(secret);
+    setForm(secret === 'new' ? EMPTY_FORM : {
+      key: secret.key,
+      value: '',
+      description: secret.description || '',
+      workspaceOnly: !!secret.workspace_id,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing || !form.key.trim() || !form.value) return;
+
+    try {
+      await setSecret.mutateAsync({
+        key: form.key.trim(),
+        value: form.value,
+        description: form.description.trim() || null,
+        workspaceId: form.workspaceOnly ? currentWorkspace?.id : null,
+      });
+      addToast({
+        title: 'Success',
+        message: editing === 'new' ? `Secret "${form.key.trim()}" saved` : `Secret "${form.key}" rotated`,
+        type: 'success',
+      });
+      setEditing(null);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to save secret: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await deleteSecret.mutateAsync({ key: deleting.key, workspaceId: deleting.workspace_id });
+      addToast({
+        title: 'Success',
+        message: `Secret "${deleting.key}" deleted`,
+        type: 'success',
+      });
+      setDeleting(null);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to delete secret: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Secrets</CardTitle>
+          <CardDescription>
+            API tokens and PATs are stored encrypted and are only readable by the edge functions.
+            They can be rotated here, but their values are never shown again.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => openEditor('new')}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Secret
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="h-24 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Last Changed</TableHead>
+                  <TableHead className="w-[140px] text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {secrets.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">No secrets configured</TableCell>
+                  </TableRow>
+                ) : (
+                  secrets.map(secret => (
+                    <TableRow key={secret.id}>
+                      <TableCell className="font-mono text-sm">
+                        {secret.key}
+                        {secret.workspace_id && (
+                          <Badge variant="secondary" className="ml-2 font-sans">Workspace</Badge>
+                        )}
+                        {secret.description && (
+                          <div className="font-sans text-xs text-gray-500">{secret.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm text-gray-600">
+                        {'••••••••'}{secret.value_hint || ''}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">v{secret.version}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(secret.updated_at), 'PPp')}
+                        <div className="text-xs text-gray-500">{userName(secret.updated_by)}</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(secret)} title="Rotate">
+                            <RotateCw className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setHistoryOf(secret)} title="History">
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeleting(secret)}
+                            className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[525px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <KeyRound className="h-5 w-5 mr-2" />
+              {editing === 'new' ? 'Add Secret' : `Rotate ${form.key}`}
+            </DialogTitle>
+            <DialogDescription>
+              The value is encrypted when saved and can't be viewed afterwards.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Key</label>
+              <Input
+                value={form.key}
+                disabled={editing !== 'new'}
+                className={editing !== 'new' ? 'bg-gray-100' : undefined}
+                onChange={(e) => setForm({ ...form, key: e.target.value })}
+                placeholder="e.g., productboard_api_token"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{editing === 'new' ? 'Value' : 'New Value'}</label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={form.value}
+                onChange={(e) => setForm({ ...form, value: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Description</label>
+              <Input
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="What this secret is used for"
+              />
+            </div>
+
+            {editing === 'new' && (
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.workspaceOnly}
+                  disabled={!currentWorkspace}
+                  onChange={(e) => setForm({ ...form, workspaceOnly: e.target.checked })}
+                />
+                <span>Only for the {currentWorkspace?.name || 'current'} workspace</span>
+              </label>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={!form.key.trim() || !form.value}
+              loading={setSecret.isPending}
+            >
+              Save Secret
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyOf} onOpenChange={(open) => !open && setHistoryOf(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>History of {historyOf?.key}</DialogTitle>
+            <DialogDescription>Every change to this secret. Values are never recorded.</DialogDescription>
+          </DialogHeader>
+
+          {historyLoading ? (
+            <div className="h-24 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="max-h-96 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="text-sm whitespace-nowrap">{format(new Date(entry.changed_at), 'PPp')}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.action === 'deleted' ? 'destructive' : 'outline'}>{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">v{entry.version}</TableCell>
+                      <TableCell className="font-mono text-sm text-gray-600">
+                        {entry.action === 'deleted' ? '-' : `••••${entry.value_hint || ''}`}
+                      </TableCell>
+                      <TableCell className="text-sm">{userName(entry.changed_by)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHistoryOf(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <AlertTriangle className="h-5 w-5 mr-2 text-red-500" />
+              Confirm Deletion
+            </DialogTitle>
+            <DialogDescription>
+              {deleting?.workspace_id
+                ? `Delete the ${currentWorkspace?.name || 'workspace'} secret "${deleting.key}"? The workspace will use the system-wide secret, if there is one.`
+                : `Delete the secret "${deleting?.key}"? Functions that use it will stop working until it is set again.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={() => setDeleting(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleDelete} loading={deleteSecret.isPending}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Secret
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ConfigSecretsCard;
@@ -1,19 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '../../../components/ui/shadcn/card';
 import { Button } from '../../../components/ui/shadcn/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../components/ui/shadcn/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../../../components/ui/shadcn/dialog';
 import SimpleAreaPathTab from './hierarchy-mapping/SimpleAreaPathTab';
+import ResolutionRulesTab from './hierarchy-mapping/ResolutionRulesTab';
+import SaveMappingDialog from './hierarchy-mapping/SaveMappingDialog';
+import MappingVersionsDialog from './hierarchy-mapping/MappingVersionsDialog';
 import { useHierarchyMappings } from '../../../hooks/useHierarchyMappings';
+import { useToast } from '../../../contexts/ToastContext';
+import { exportMapping, importMapping, MappingExportFormat } from '../../../lib/mappingVersions';
 import { 
   HierarchyMappingConfig, 
   PbToAdoMapping, 
   AreaPathMapping, 
   InitiativeEpicMapping,
   UserTeamMapping,
-  ComponentProductMapping
+  ComponentProductMapping,
+  MappingVersionSource
 } from '../../../lib/api/hierarchyMapping';
-import { Plus, Trash2, Save, RefreshCw, Check, X, GripVertical } from 'lucide-react';
+import { Plus, Trash2, Save, RefreshCw, Check, X, GripVertical, History, Download, Upload } from 'lucide-react';
 import { supabase } from '../../../lib/supabase';
 
 /**
@@ -62,10 +68,88 @@ export const HierarchyMappingEditor: React.FC = () => {
   const [activeTab, setActiveTab] = useState<string>('pb-to-ado');
   
   
-  // Handle saving the mapping
+  const { addToast } = useToast();
+
+  // State for saving versions, the version history and imports
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState<boolean>(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [saveSource, setSaveSource] = useState<MappingVersionSource>('save');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Make a saved or restored configuration the one being edited
+  const showMapping = (mapping: HierarchyMappingConfig) => {
+    setSelectedMapping(mapping);
+    setEditedMapping(JSON.parse(JSON.stringify(mapping))); // Deep copy
+    setSaveSource('save');
+  };
+
+  // Handle saving the mapping: it is validated and saved with a change note in the save dialog
   const handleSave = () => {
     if (editedMapping) {
-      saveMapping(editedMapping);
+      setIsSaveDialogOpen(true);
+    }
+  };
+
+  const handleConfirmSave = (changeNote: string) => {
+    if (!editedMapping) return;
+
+    saveMapping({ mapping: editedMapping, changeNote, source: saveSource }, {
+      onSuccess: (saved) => {
+        setIsSaveDialogOpen(false);
+        showMapping(saved);
+        addToast({
+          title: 'Success',
+          message: `Saved version ${saved.current_version} of ${saved.name}`,
+          type: 'success',
+        });
+      },
+      onError: (error) => {
+        addToast({
+          title: 'Error',
+          message: `Failed to save mapping: ${error instanceof Error ? error.message : String(error)}`,
+          type: 'error',
+        });
+      }
+    });
+  };
+
+  // Download the edited configuration as a JSON or YAML file
+  const handleExport = (format: MappingExportFormat) => {
+    if (!editedMapping) return;
+
+    const content = exportMapping(editedMapping, format);
+    const blob = new Blob([content], { type: format === 'yaml' ? 'application/yaml' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${editedMapping.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'hierarchy-mapping'}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Replace the edited configuration with an imported one; it is saved as a new version like any edit
+  const handleImport = async (file: File | undefined) => {
+    if (!file || !editedMapping) return;
+
+    try {
+      const imported = importMapping(await file.text());
+      setEditedMapping({ ...editedMapping, ...imported });
+      setSaveSource('import');
+      addToast({
+        title: 'Imported',
+        message: `Loaded ${imported.name} from ${file.name}. Review it and save to create a new version.`,
+        type: 'success',
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        type: 'error',
+      });
+    } finally {
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
     }
   };
   
@@ -586,6 +670,36 @@ export const HierarchyMappingEditor: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold">Hierarchy Mapping Configuration</h1>
+        {editedMapping && (
+          <div className="flex items-center space-x-2">
+            {selectedMapping?.current_version && (
+              <span className="text-sm text-gray-500">Version {selectedMapping.current_version}</span>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setIsHistoryOpen(true)} disabled={!selectedMapping?.id}>
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('json')}>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('yaml')}>
+              <Download className="h-4 w-4 mr-2" />
+              Export YAML
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml"
+              className="hidden"
+              onChange={(e) => handleImport(e.target.files?.[0])}
+            />
+          </div>
+        )}
       </div>
       
       {isLoading ? (
@@ -641,12 +755,13 @@ export const HierarchyMappingEditor: React.FC = () => {
               defaultValue="pb-to-ado" 
               onValueChange={setActiveTab}
             >
-              <TabsList className="grid grid-cols-5 mb-4">
+              <TabsList className="grid grid-cols-6 mb-4">
                 <TabsTrigger value="pb-to-ado">PB to ADO Types</TabsTrigger>
                 <TabsTrigger value="initiative-epic">Initiative/Epic Mapping</TabsTrigger>
                 <TabsTrigger value="component-product">Component/Product Mapping</TabsTrigger>
                 <TabsTrigger value="user-teams">User Team Mappings</TabsTrigger>
                 <TabsTrigger value="enhanced-area-path">Area Path Mappings</TabsTrigger>
+                <TabsTrigger value="resolution-rules">Resolution Rules</TabsTrigger>
               </TabsList>
               
               {/* Component/Product Mapping Tab */}
@@ -1614,6 +1729,15 @@ export const HierarchyMappingEditor: React.FC = () => {
                   handleUpdateAreaPathMapping={handleUpdateAreaPathMapping}
                 />
               </TabsContent>
+              
+              {/* Resolution Rules Tab */}
+              <TabsContent value="resolution-rules">
+                <ResolutionRulesTab 
+                  editedMapping={editedMapping}
+                  setEditedMapping={setEditedMapping}
+                  activeTab={activeTab}
+                />
+              </TabsContent>
 
             </Tabs>
           </CardContent>
@@ -1639,6 +1763,30 @@ export const HierarchyMappingEditor: React.FC = () => {
           </CardFooter>
         </Card>
       )}
+
+      {editedMapping && (
+        <SaveMappingDialog
+          open={isSaveDialogOpen}
+          onOpenChange={setIsSaveDialogOpen}
+          savedMapping={selectedMapping?.id ? selectedMapping : null}
+          mapping={editedMapping}
+          source={saveSource}
+          isSaving={isSaving}
+          onSave={handleConfirmSave}
+        />
+      )}
+
+      {selectedMapping?.id && (
+        <MappingVersionsDialog
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          mapping={selectedMapping}
+          onRolledBack={(restored) => {
+            setIsHistoryOpen(false);
+            showMapping(restored);
+          }}
+        />
+      )}
       
       {/* Detail Dialog */}
       <Dialog 
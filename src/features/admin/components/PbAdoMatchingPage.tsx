@@ -0,0 +1,347 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Input } from '../../../components/ui/shadcn/input';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { CheckCircle, ExternalLink, Link2, RefreshCw, Search } from 'lucide-react';
+import { useToast } from '../../../contexts/ToastContext';
+import { useHierarchyMappings } from '../../../hooks/useHierarchyMappings';
+import { useAcceptMatches, useMatchCandidates } from '../../../hooks/usePbAdoMatching';
+import { AcceptMatchResult } from '../../../lib/api/pbAdoMatching';
+import { MATCH_SIGNAL_LABELS, MatchCandidate, MatchSignal, selectMatches } from '../../../lib/pbAdoMatching';
+
+const DEFAULT_THRESHOLD = 90;
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 0.9) return 'bg-green-100 text-green-800';
+  if (confidence >= 0.7) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-700';
+}
+
+function signalClass(signal: MatchSignal): string {
+  if (signal.score >= 0.75) return 'border-green-200 bg-green-50 text-green-800';
+  if (signal.score <= 0.25) return 'border-red-200 bg-red-50 text-red-800';
+  return 'border-gray-200 bg-gray-50 text-gray-600';
+}
+
+/**
+ * PbAdoMatchingPage lists scored ADO work item candidates for ProductBoard features that are not linked yet.
+ * Matches can be accepted one by one or in bulk above a confidence threshold; accepting stores the
+ * enhanced mapping and adds the ADO link to the ProductBoard feature.
+ */
+export const PbAdoMatchingPage: React.FC = () => {
+  const { addToast } = useToast();
+  const { mappings } = useHierarchyMappings();
+  const mapping = mappings[0];
+  const { data: candidates = [], isLoading, isFetching, refetch } = useMatchCandidates(mapping);
+  const acceptMutation = useAcceptMatches();
+
+  const [threshold, setThreshold] = useState<number>(DEFAULT_THRESHOLD);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  // Work item shown for each feature, when not its best candidate
+  const [choices, setChoices] = useState<Record<string, number>>({});
+  // Features whose shown match is selected for acceptance
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isConfirmOpen, setIsConfirmOpen] = useState<boolean>(false);
+  const [failures, setFailures] = useState<AcceptMatchResult[]>([]);
+
+  // Candidates per feature, best first; features ordered by their best candidate
+  const groups = useMemo(() => {
+    const byPbId = new Map<string, MatchCandidate[]>();
+    candidates.forEach(candidate => {
+      byPbId.set(candidate.pbItem.id, [...(byPbId.get(candidate.pbItem.id) || []), candidate]);
+    });
+    return Array.from(byPbId.values());
+  }, [candidates]);
+
+  const shownCandidate = (group: MatchCandidate[]): MatchCandidate =>
+    group.find(candidate => candidate.adoItem.id === choices[group[0].pbItem.id]) || group[0];
+
+  const filteredGroups = useMemo(() => {
+    if (!searchQuery) return groups;
+    const query = searchQuery.toLowerCase();
+    return groups.filter(group => group.some(candidate =>
+      candidate.pbItem.name.toLowerCase().includes(query) ||
+      candidate.adoItem.title.toLowerCase().includes(query) ||
+      candidate.adoItem.id.toString().includes(query)
+    ));
+  }, [groups, searchQuery]);
+
+  const selectedMatches = useMemo(
+    () => groups.filter(group => selected.has(group[0].pbItem.id)).map(shownCandidate),
+    [groups, selected, choices]
+  );
+
+  // Select a feature's shown match, dropping any other selected feature that uses the same work item
+  const selectMatch = (pbId: string, adoId: number, next: Set<string>) => {
+    groups.forEach(group => {
+      const otherPbId = group[0].pbItem.id;
+      if (otherPbId !== pbId && next.has(otherPbId) && shownCandidate(group).adoItem.id === adoId) {
+        next.delete(otherPbId);
+      }
+    });
+    next.add(pbId);
+  };
+
+  const toggleSelected = (candidate: MatchCandidate) => {
+    const next = new Set(selected);
+    if (next.has(candidate.pbItem.id)) {
+      next.delete(candidate.pbItem.id);
+    } else {
+      selectMatch(candidate.pbItem.id, candidate.adoItem.id, next);
+    }
+    setSelected(next);
+  };
+
+  const handleChoiceChange = (pbId: string, adoId: number) => {
+    setChoices(prev => ({ ...prev, [pbId]: adoId }));
+    if (selected.has(pbId)) {
+      const next = new Set(selected);
+      selectMatch(pbId, adoId, next);
+      setSelected(next);
+    }
+  };
+
+  const handleSelectAboveThreshold = () => {
+    const matches = selectMatches(candidates, threshold / 100);
+    setChoices(Object.fromEntries(matches.map(match => [match.pbItem.id, match.adoItem.id])));
+    setSelected(new Set(matches.map(match => match.pbItem.id)));
+
+    if (matches.length === 0) {
+      addToast({ title: 'No Matches', message: `No candidates at or above ${threshold}% confidence`, type: 'info' });
+    }
+  };
+
+  const handleAccept = async () => {
+    try {
+      const results = await acceptMutation.mutateAsync(selectedMatches);
+      const failed = results.filter(result => !result.linked);
+      setFailures(failed);
+      setSelected(new Set());
+      setChoices({});
+      setIsConfirmOpen(false);
+
+      addToast({
+        title: 'Matches Accepted',
+        message: failed.length === 0
+          ? `Linked ${results.length} features to their ADO work items`
+          : `Saved ${results.length} matches; ${failed.length} ProductBoard links could not be updated`,
+        type: failed.length === 0 ? 'success' : 'warning'
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to accept matches',
+        type: 'error'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">Match ProductBoard and ADO Items</h1>
+
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button onClick={() => setIsConfirmOpen(true)} disabled={selectedMatches.length === 0}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Accept {selectedMatches.length} {selectedMatches.length === 1 ? 'Match' : 'Matches'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bulk Selection</CardTitle>
+          <CardDescription>
+            Candidates for features without a linked work item. A ProductBoard link or [PB…] title prefix on the work item is near-certain;
+            other candidates are scored on title similarity and on whether type, parent and area path agree with the hierarchy mapping.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Minimum Confidence (%)</label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                className="w-32"
+                value={threshold}
+                onChange={(e) => setThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+              />
+            </div>
+            <Button variant="outline" onClick={handleSelectAboveThreshold} disabled={candidates.length === 0}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Select Matches Above Threshold
+            </Button>
+            {selected.size > 0 && (
+              <Button variant="ghost" onClick={() => setSelected(new Set())}>
+                Clear Selection
+              </Button>
+            )}
+            <div className="relative ml-auto">
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search by name or ID..."
+                className="pl-8 w-72"
+              />
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {failures.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>ProductBoard Links Not Updated</CardTitle>
+            <CardDescription>
+              These matches were saved, but the ADO link could not be added to the ProductBoard feature.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm text-red-700">
+              {failures.map(failure => (
+                <li key={failure.pbId}>
+                  {failure.pbId} → #{failure.adoId}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Candidates</CardTitle>
+          <CardDescription>
+            {groups.length} unlinked features have candidates. At most one work item can be accepted per feature, and each work item for one feature.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-48 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]"></TableHead>
+                    <TableHead>ProductBoard Feature</TableHead>
+                    <TableHead>ADO Work Item</TableHead>
+                    <TableHead>Confidence</TableHead>
+                    <TableHead>Signals</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredGroups.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">No match candidates</TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredGroups.map(group => {
+                      const candidate = shownCandidate(group);
+                      const { pbItem, adoItem } = candidate;
+
+                      return (
+                        <TableRow key={pbItem.id}>
+                          <TableCell>
+                            <input
+                              type="checkbox"
+                              checked={selected.has(pbItem.id)}
+                              onChange={() => toggleSelected(candidate)}
+                              className="h-4 w-4 rounded border-gray-300"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{pbItem.name}</div>
+                            <div className="text-xs text-gray-500">{pbItem.level === 'subfeature' ? 'Sub-feature' : 'Feature'}</div>
+                          </TableCell>
+                          <TableCell>
+                            {group.length > 1 ? (
+                              <select
+                                value={adoItem.id}
+                                onChange={(e) => handleChoiceChange(pbItem.id, Number(e.target.value))}
+                                className="w-full max-w-xs p-1 border border-gray-300 rounded-md text-sm"
+                              >
+                                {group.map(option => (
+                                  <option key={option.adoItem.id} value={option.adoItem.id}>
+                                    #{option.adoItem.id} {option.adoItem.title} ({Math.round(option.confidence * 100)}%)
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              <div className="text-sm">#{adoItem.id} {adoItem.title}</div>
+                            )}
+                            <div className="flex items-center text-xs text-gray-500 mt-1">
+                              {adoItem.type}{adoItem.areaPath ? ` · ${adoItem.areaPath}` : ''}
+                              {adoItem.url && (
+                                <a href={adoItem.url} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-500 hover:text-blue-700" title="Open in Azure DevOps">
+                                  <ExternalLink className="h-3 w-3" />
+                                </a>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <span className={`px-2 py-1 rounded-full text-xs ${confidenceClass(candidate.confidence)}`}>
+                              {Math.round(candidate.confidence * 100)}%
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {candidate.signals.map(signal => (
+                                <span
+                                  key={signal.kind}
+                                  title={signal.detail}
+                                  className={`px-2 py-0.5 rounded border text-xs ${signalClass(signal)}`}
+                                >
+                                  {MATCH_SIGNAL_LABELS[signal.kind]}
+                                </span>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Accept {selectedMatches.length} {selectedMatches.length === 1 ? 'Match' : 'Matches'}</DialogTitle>
+            <DialogDescription>
+              Each feature is linked to its work item in the mappings, and the ADO link is added to the feature in ProductBoard.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-[50vh] overflow-y-auto space-y-1 text-sm">
+            {selectedMatches.map(match => (
+              <li key={match.pbItem.id}>
+                {match.pbItem.name} → #{match.adoItem.id} {match.adoItem.title}
+                <span className="text-gray-500"> ({Math.round(match.confidence * 100)}%)</span>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)}>Cancel</Button>
+            <Button onClick={handleAccept} loading={acceptMutation.isPending}>Accept</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
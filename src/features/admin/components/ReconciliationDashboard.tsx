@@ -0,0 +1,479 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Input } from '../../../components/ui/shadcn/input';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { Archive, EyeOff, Link2, PlayCircle, PlusCircle, RefreshCw, RotateCcw, Search, Unlink } from 'lucide-react';
+import { useToast } from '../../../contexts/ToastContext';
+import { useHierarchyMappings } from '../../../hooks/useHierarchyMappings';
+import {
+  useFixReconciliationIssue,
+  useLatestReconciliationRun,
+  useMissingWorkItemDefaults,
+  useReconciliationIssues,
+  useRunReconciliation,
+  useSetReconciliationIssueIgnored
+} from '../../../hooks/useReconciliation';
+import {
+  ReconciliationFix,
+  ReconciliationIssue,
+  ReconciliationIssueKind,
+  ReconciliationIssueStatus
+} from '../../../types/reconciliation';
+import { RECONCILIATION_FIXES } from '../../../../supabase/functions/_shared/reconciliation';
+
+const KIND_LABELS: Record<ReconciliationIssueKind, string> = {
+  ado_orphan: 'ADO Orphan',
+  pb_orphan: 'PB Orphan',
+  broken_link: 'Broken Link',
+  parent_mismatch: 'Parent Mismatch',
+  status_mismatch: 'Status Disagreement',
+  title_drift: 'Title Drift'
+};
+
+const KIND_DESCRIPTIONS: Record<ReconciliationIssueKind, string> = {
+  ado_orphan: 'Work items whose ProductBoard feature was deleted or archived',
+  pb_orphan: 'Features with engineering without an ADO work item',
+  broken_link: 'Links to work items that no longer exist',
+  parent_mismatch: 'Work items under another parent than their feature\'s parent',
+  status_mismatch: 'ADO states that map to another ProductBoard status',
+  title_drift: 'Work item titles that no longer resemble the feature name'
+};
+
+const FIX_LABELS: Record<ReconciliationFix, string> = {
+  relink: 'Relink',
+  unlink: 'Unlink',
+  create_missing: 'Create Missing',
+  archive: 'Archive'
+};
+
+const FIX_ICONS: Record<ReconciliationFix, React.ElementType> = {
+  relink: Link2,
+  unlink: Unlink,
+  create_missing: PlusCircle,
+  archive: Archive
+};
+
+const STATUS_TABS: { status: ReconciliationIssueStatus; label: string }[] = [
+  { status: 'open', label: 'Open' },
+  { status: 'ignored', label: 'Ignored' },
+  { status: 'resolved', label: 'Resolved' }
+];
+
+const WORK_ITEM_TYPES = ['Epic', 'Feature', 'User Story'];
+
+interface PendingFix {
+  issue: ReconciliationIssue;
+  fix: ReconciliationFix;
+}
+
+function fixDescription({ issue, fix }: PendingFix): string {
+  switch (fix) {
+    case 'relink':
+      return 'The old link is removed, the new one is saved in the mappings and the ADO link is added to the feature in ProductBoard.';
+    case 'unlink':
+      return 'The link is removed from both mapping tables. Neither the feature nor the work item is changed.';
+    case 'create_missing':
+      return issue.kind === 'broken_link'
+        ? 'The broken link is removed and a new work item is queued for creation; it is linked once the sync queue creates it.'
+        : 'A work item is queued for creation and linked to the feature once the sync queue creates it.';
+    case 'archive':
+      return `Work item #${issue.ado_work_item_id} is moved to the archive state (reconcile_archive_state) by the sync queue, and its link is removed.`;
+  }
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+/**
+ * ReconciliationDashboard shows the orphans, broken links and drift the reconcile-pb-ado function
+ * found between ProductBoard features, ADO work items and the mapping tables, with a fix per row.
+ * Fixes that write to ADO or ProductBoard are queued in the sync retry queue.
+ */
+export const ReconciliationDashboard: React.FC = () => {
+  const { addToast } = useToast();
+  const { mappings } = useHierarchyMappings();
+  const mapping = mappings[0];
+
+  const [status, setStatus] = useState<ReconciliationIssueStatus>('open');
+  const [kindFilter, setKindFilter] = useState<ReconciliationIssueKind | 'all'>('all');
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [pendingFix, setPendingFix] = useState<PendingFix | null>(null);
+  const [relinkAdoId, setRelinkAdoId] = useState<string>('');
+  const [relinkPbId, setRelinkPbId] = useState<string>('');
+  const [workItemType, setWorkItemType] = useState<string>('User Story');
+  const [areaPath, setAreaPath] = useState<string>('');
+
+  const { data: run } = useLatestReconciliationRun();
+  const { data: issues = [], isLoading, isFetching, refetch } = useReconciliationIssues(status);
+  const { data: openIssues = [] } = useReconciliationIssues('open');
+  const runMutation = useRunReconciliation();
+  const fixMutation = useFixReconciliationIssue();
+  const ignoreMutation = useSetReconciliationIssueIgnored();
+
+  const createFeatureId = pendingFix?.fix === 'create_missing' ? pendingFix.issue.pb_feature_id : null;
+  const { data: createDefaults } = useMissingWorkItemDefaults(createFeatureId, mapping);
+
+  useEffect(() => {
+    if (createDefaults) {
+      setWorkItemType(createDefaults.workItemType);
+      setAreaPath(createDefaults.areaPath || '');
+    }
+  }, [createDefaults]);
+
+  const openCounts = useMemo(() => {
+    const counts: Partial<Record<ReconciliationIssueKind, number>> = {};
+    openIssues.forEach(issue => {
+      counts[issue.kind] = (counts[issue.kind] || 0) + 1;
+    });
+    return counts;
+  }, [openIssues]);
+
+  const filteredIssues = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return issues.filter(issue =>
+      (kindFilter === 'all' || issue.kind === kindFilter) &&
+      (!query ||
+        (issue.pb_name || '').toLowerCase().includes(query) ||
+        (issue.ado_title || '').toLowerCase().includes(query) ||
+        (issue.pb_feature_id || '').toLowerCase().includes(query) ||
+        String(issue.ado_work_item_id ?? '').includes(query))
+    );
+  }, [issues, kindFilter, searchQuery]);
+
+  const openFixDialog = (issue: ReconciliationIssue, fix: ReconciliationFix) => {
+    setPendingFix({ issue, fix });
+    setRelinkAdoId(issue.data?.suggested_ado_work_item_id ? String(issue.data.suggested_ado_work_item_id) : '');
+    setRelinkPbId('');
+    setWorkItemType('User Story');
+    setAreaPath('');
+  };
+
+  const handleRun = async () => {
+    try {
+      const result = await runMutation.mutateAsync();
+      const total = Object.values(result.open).reduce((sum, count) => sum + (count || 0), 0);
+      addToast({
+        title: 'Reconciliation Complete',
+        message: total === 0 ? 'ProductBoard and ADO agree' : `${total} open issues`,
+        type: total === 0 ? 'success' : 'info'
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to run reconciliation',
+        type: 'error'
+      });
+    }
+  };
+
+  const handleFix = async () => {
+    if (!pendingFix) return;
+    const { issue, fix } = pendingFix;
+
+    try {
+      const jobId = await fixMutation.mutateAsync({
+        id: issue.id,
+        fix,
+        options: {
+          adoWorkItemId: fix === 'relink' && relinkAdoId ? Number(relinkAdoId) : undefined,
+          pbFeatureId: fix === 'relink' && relinkPbId ? relinkPbId.trim() : undefined,
+          workItemType: fix === 'create_missing' ? workItemType : undefined,
+          areaPath: fix === 'create_missing' && areaPath ? areaPath.trim() : undefined
+        }
+      });
+      setPendingFix(null);
+
+      addToast({
+        title: `${FIX_LABELS[fix]} Applied`,
+        message: jobId ? 'The change is queued in the sync retry queue' : 'The issue is resolved',
+        type: 'success'
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : `Failed to ${FIX_LABELS[fix].toLowerCase()}`,
+        type: 'error'
+      });
+    }
+  };
+
+  const handleIgnore = async (issue: ReconciliationIssue, ignored: boolean) => {
+    try {
+      await ignoreMutation.mutateAsync({ id: issue.id, ignored });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to update issue',
+        type: 'error'
+      });
+    }
+  };
+
+  // relink needs a new work item, or for ADO orphans a new feature
+  const canSubmitFix = !!pendingFix && (
+    pendingFix.fix !== 'relink' ||
+    (!!relinkAdoId && Number(relinkAdoId) > 0) ||
+    (pendingFix.issue.kind === 'ado_orphan' && !!relinkPbId.trim())
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">ProductBoard / ADO Reconciliation</h1>
+
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button onClick={handleRun} loading={runMutation.isPending}>
+            <PlayCircle className="h-4 w-4 mr-2" />
+            Run Reconciliation
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Issues</CardTitle>
+          <CardDescription>
+            {run
+              ? `Last ${run.trigger} run ${run.status === 'running' ? 'started' : 'finished'} ${formatDate(run.completed_at || run.started_at)}`
+              : 'No reconciliation has run yet for this workspace'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {run?.status === 'failed' && (
+            <div className="mb-4 p-3 rounded-md bg-red-50 text-sm text-red-700">
+              The last run failed: {run.error_message}
+            </div>
+          )}
+          {run?.status === 'completed' && run.warning && (
+            <div className="mb-4 p-3 rounded-md bg-yellow-50 text-sm text-yellow-800">
+              {run.warning}
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+            {(Object.keys(KIND_LABELS) as ReconciliationIssueKind[]).map(kind => (
+              <button
+                key={kind}
+                type="button"
+                title={KIND_DESCRIPTIONS[kind]}
+                onClick={() => {
+                  setStatus('open');
+                  setKindFilter(kindFilter === kind ? 'all' : kind);
+                }}
+                className={`p-3 rounded-md border text-left ${kindFilter === kind ? 'border-primary bg-primary/5' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <div className="text-2xl font-semibold">{openCounts[kind] || 0}</div>
+                <div className="text-xs text-gray-600">{KIND_LABELS[kind]}</div>
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issues</CardTitle>
+          <CardDescription>
+            Ignored issues stay ignored in later runs. Open issues a later run no longer finds are resolved as cleared.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {STATUS_TABS.map(tab => (
+              <Button
+                key={tab.status}
+                size="sm"
+                variant={status === tab.status ? 'default' : 'outline'}
+                onClick={() => setStatus(tab.status)}
+              >
+                {tab.label}
+              </Button>
+            ))}
+            <select
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value as ReconciliationIssueKind | 'all')}
+              className="p-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="all">All kinds</option>
+              {(Object.keys(KIND_LABELS) as ReconciliationIssueKind[]).map(kind => (
+                <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <div className="relative ml-auto">
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search by name or ID..."
+                className="pl-8 w-72"
+              />
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="h-48 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Issue</TableHead>
+                    <TableHead>ProductBoard Feature</TableHead>
+                    <TableHead>ADO Work Item</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">{status === 'resolved' ? 'Resolution' : 'Actions'}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredIssues.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">No {status} issues</TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredIssues.map(issue => (
+                      <TableRow key={issue.id}>
+                        <TableCell>
+                          <Badge variant={issue.severity === 'error' ? 'destructive' : 'secondary'}>
+                            {KIND_LABELS[issue.kind]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{issue.pb_name || <span className="text-gray-400">Not in ProductBoard</span>}</div>
+                          {issue.pb_feature_id && <div className="text-xs text-gray-500">{issue.pb_feature_id}</div>}
+                        </TableCell>
+                        <TableCell>
+                          {issue.ado_work_item_id ? (
+                            <div className="text-sm">#{issue.ado_work_item_id} {issue.ado_title || ''}</div>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600 max-w-md">{issue.details}</TableCell>
+                        <TableCell>
+                          {status === 'resolved' ? (
+                            <div className="text-right text-sm">
+                              <div className="capitalize">{issue.resolution}</div>
+                              <div className="text-xs text-gray-500">{formatDate(issue.resolved_at)}</div>
+                            </div>
+                          ) : status === 'ignored' ? (
+                            <div className="flex justify-end">
+                              <Button size="sm" variant="outline" onClick={() => handleIgnore(issue, false)}>
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                                Reopen
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="flex flex-wrap justify-end gap-1">
+                              {RECONCILIATION_FIXES[issue.kind].map(fix => {
+                                const Icon = FIX_ICONS[fix];
+                                return (
+                                  <Button key={fix} size="sm" variant="outline" onClick={() => openFixDialog(issue, fix)}>
+                                    <Icon className="h-4 w-4 mr-1" />
+                                    {FIX_LABELS[fix]}
+                                  </Button>
+                                );
+                              })}
+                              <Button size="sm" variant="ghost" onClick={() => handleIgnore(issue, true)} title="Ignore in this and later runs">
+                                <EyeOff className="h-4 w-4 mr-1" />
+                                Ignore
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!pendingFix} onOpenChange={(open) => !open && setPendingFix(null)}>
+        <DialogContent>
+          {pendingFix && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{FIX_LABELS[pendingFix.fix]}: {pendingFix.issue.pb_name || pendingFix.issue.ado_title || pendingFix.issue.issue_key}</DialogTitle>
+                <DialogDescription>{fixDescription(pendingFix)}</DialogDescription>
+              </DialogHeader>
+
+              {pendingFix.fix === 'relink' && (
+                <div className="space-y-4">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">ADO Work Item ID</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={relinkAdoId}
+                      onChange={(e) => setRelinkAdoId(e.target.value)}
+                      placeholder={pendingFix.issue.ado_work_item_id ? `Keep #${pendingFix.issue.ado_work_item_id}` : 'Work item to link the feature to'}
+                    />
+                  </div>
+                  {pendingFix.issue.kind === 'ado_orphan' && (
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium">ProductBoard Feature ID</label>
+                      <Input
+                        value={relinkPbId}
+                        onChange={(e) => setRelinkPbId(e.target.value)}
+                        placeholder="Feature to link the work item to"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {pendingFix.fix === 'create_missing' && (
+                <div className="space-y-4">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Work Item Type</label>
+                    <select
+                      value={workItemType}
+                      onChange={(e) => setWorkItemType(e.target.value)}
+                      className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      {WORK_ITEM_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Area Path</label>
+                    <Input
+                      value={areaPath}
+                      onChange={(e) => setAreaPath(e.target.value)}
+                      placeholder="Project default"
+                    />
+                    <p className="text-xs text-gray-500">Prefilled from the hierarchy mapping's area path rules.</p>
+                  </div>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setPendingFix(null)}>Cancel</Button>
+                <Button
+                  variant={pendingFix.fix === 'archive' || pendingFix.fix === 'unlink' ? 'destructive' : 'default'}
+                  onClick={handleFix}
+                  loading={fixMutation.isPending}
+                  disabled={!canSubmitFix}
+                >
+                  {FIX_LABELS[pendingFix.fix]}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { Eye, Play, Save, RefreshCw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useToast } from '../../../contexts/ToastContext';
+import {
+  useSyncJobs,
+  useSyncJobCounts,
+  useUpdateSyncJobPayload,
+  useReplaySyncJob
+} from '../../../hooks/useSyncJobs';
+import { PBAdoSyncJob, SyncJobStatus } from '../../../types/pb-ado-mappings';
+
+const STATUS_FILTERS: { value: SyncJobStatus; label: string }[] = [
+  { value: 'dead_letter', label: 'Dead Letter' },
+  { value: 'retrying', label: 'Retrying' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+];
+
+const statusVariant = (status: SyncJobStatus) => {
+  switch (status) {
+    case 'dead_letter':
+      return 'destructive';
+    case 'completed':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+/**
+ * SyncQueueMonitor shows the sync retry queue and lets admins inspect,
+ * edit and replay jobs that ended up in the dead-letter state.
+ */
+export const SyncQueueMonitor: React.FC = () => {
+  const { addToast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<SyncJobStatus>('dead_letter');
+  const [selectedJob, setSelectedJob] = useState<PBAdoSyncJob | null>(null);
+  const [payloadText, setPayloadText] = useState('');
+  const [payloadError, setPayloadError] = useState<string | null>(null);
+
+  const { data: jobs = [], isLoading, refetch } = useSyncJobs(statusFilter);
+  const { data: counts, refetch: refetchCounts } = useSyncJobCounts();
+  const updatePayload = useUpdateSyncJobPayload();
+  const replayJob = useReplaySyncJob();
+
+  const openJob = (job: PBAdoSyncJob) => {
+    setSelectedJob(job);
+    setPayloadText(JSON.stringify(job.payload, null, 2));
+    setPayloadError(null);
+  };
+
+  // Parse the edited payload, reporting invalid JSON inline
+  const parsePayload = (): Record<string, any> | null => {
+    try {
+      const parsed = JSON.parse(payloadText);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        setPayloadError('Payload must be a JSON object');
+        return null;
+      }
+      setPayloadError(null);
+      return parsed;
+    } catch (error) {
+      setPayloadError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  };
+
+  const handleSavePayload = async () => {
+    if (!selectedJob) return;
+    const payload = parsePayload();
+    if (!payload) return;
+
+    try {
+      const updated = await updatePayload.mutateAsync({ id: selectedJob.id, payload });
+      setSelectedJob(updated);
+      addToast({
+        title: 'Success',
+        message: 'Job payload saved',
+        type: 'success',
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to save payload: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  const handleReplay = async (job: PBAdoSyncJob, payload?: Record<string, any>) => {
+    try {
+      await replayJob.mutateAsync({ id: job.id, payload });
+      addToast({
+        title: 'Success',
+        message: `Job requeued for ${job.operation_type}`,
+        type: 'success',
+      });
+      setSelectedJob(null);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to replay job: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  const handleReplayEdited = () => {
+    if (!selectedJob) return;
+    const payload = parsePayload();
+    if (!payload) return;
+    handleReplay(selectedJob, payload);
+  };
+
+  const renderJobDialog = () => {
+    if (!selectedJob) return null;
+
+    return (
+      <Dialog open={!!selectedJob} onOpenChange={(open) => !open && setSelectedJob(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>Sync Job: {selectedJob.operation_type}</DialogTitle>
+            <DialogDescription>
+              {selectedJob.attempts} of {selectedJob.max_attempts} attempts used.
+              {selectedJob.dead_lettered_at && ` Dead-lettered ${format(new Date(selectedJob.dead_lettered_at), 'PPpp')}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {selectedJob.last_error && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Last Error</label>
+                <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 font-mono whitespace-pre-wrap">
+                  {selectedJob.last_error}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Payload</label>
+              <textarea
+                value={payloadText}
+                onChange={(e) => setPayloadText(e.target.value)}
+                rows={14}
+                className="w-full rounded-md border border-gray-300 p-3 font-mono text-xs"
+                spellCheck={false}
+              />
+              {payloadError && <p className="text-xs text-red-600">{payloadError}</p>}
+            </div>
+
+            {selectedJob.last_response && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Last Response</label>
+                <pre className="rounded-md bg-gray-50 p-3 text-xs overflow-auto max-h-40">
+                  {JSON.stringify(selectedJob.last_response, null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedJob(null)}>Close</Button>
+            <Button variant="outline" onClick={handleSavePayload} loading={updatePayload.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Payload
+            </Button>
+            <Button
+              onClick={handleReplayEdited}
+              disabled={selectedJob.status === 'in_progress'}
+              loading={replayJob.isPending}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Replay
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">Sync Retry Queue</h1>
+
+        <Button variant="outline" onClick={() => { refetch(); refetchCounts(); }}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {STATUS_FILTERS.map(filter => (
+          <Button
+            key={filter.value}
+            variant={statusFilter === filter.value ? 'primary' : 'outline'}
+            size="sm"
+            onClick={() => setStatusFilter(filter.value)}
+          >
+            {filter.label}
+            <span className="ml-2 text-xs opacity-75">{counts?.[filter.value] ?? 0}</span>
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{STATUS_FILTERS.find(filter => filter.value === statusFilter)?.label} Jobs</CardTitle>
+          <CardDescription>
+            Failed create, update, link and rank update operations are retried with exponential backoff.
+            Jobs that run out of attempts move to the dead-letter state until they are replayed.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {isLoading ? (
+            <div className="h-48 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Operation</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Next Attempt</TableHead>
+                    <TableHead>Last Error</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead className="w-[120px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-24 text-center">No jobs in this state</TableCell>
+                    </TableRow>
+                  ) : (
+                    jobs.map((job) => (
+                      <TableRow key={job.id}>
+                        <TableCell className="font-medium">{job.operation_type}</TableCell>
+                        <TableCell><Badge variant={statusVariant(job.status)}>{job.status}</Badge></TableCell>
+                        <TableCell className="font-mono text-sm">{job.attempts}/{job.max_attempts}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {job.status === 'retrying' || job.status === 'pending'
+                            ? formatDistanceToNow(new Date(job.next_attempt_at), { addSuffix: true })
+                            : '-'}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600 max-w-md truncate" title={job.last_error || ''}>
+                          {job.last_error || '-'}
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{format(new Date(job.updated_at), 'PPpp')}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button variant="ghost" size="sm" onClick={() => openJob(job)} title="Inspect">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {job.status === 'dead_letter' && (
+                              <Button variant="ghost" size="sm" onClick={() => handleReplay(job)} title="Replay">
+                                <Play className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {renderJobDialog()}
+    </div>
+  );
+};
+
+export default SyncQueueMonitor;
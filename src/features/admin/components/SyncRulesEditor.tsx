@@ -0,0 +1,473 @@
+import React, { useState } from 'react';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Input } from '../../../components/ui/shadcn/input';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { Plus, Edit, Trash2, Save, AlertTriangle, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useWorkspace } from '../../../contexts/WorkspaceContext';
+import { useToast } from '../../../contexts/ToastContext';
+import {
+  useSyncRules,
+  useRecentRuleDecisions,
+  useCreateSyncRule,
+  useUpdateSyncRule,
+  useDeleteSyncRule
+} from '../../../hooks/useSyncRules';
+import { SyncRuleInput } from '../../../lib/api/syncRules';
+import { PBAdoSyncRule, SyncRuleAction } from '../../../types/pb-ado-mappings';
+
+const RULE_ACTIONS: { value: SyncRuleAction; label: string }[] = [
+  { value: 'create', label: 'Create (or update if mapped)' },
+  { value: 'update', label: 'Update mapped item only' },
+  { value: 'link', label: 'Push ADO link to ProductBoard' },
+  { value: 'skip', label: 'Skip' },
+];
+
+type RuleFormData = {
+  id?: string;
+  name: string;
+  description: string;
+  priority: string;
+  enabled: boolean;
+  global: boolean;
+  from_status: string;
+  to_status: string;
+  feature_type: string;
+  component_id: string;
+  custom_field_conditions: string;
+  action: SyncRuleAction;
+};
+
+const EMPTY_FORM: RuleFormData = {
+  name: '',
+  description: '',
+  priority: '100',
+  enabled: true,
+  global: false,
+  from_status: '',
+  to_status: '',
+  feature_type: '',
+  component_id: '',
+  custom_field_conditions: '',
+  action: 'create',
+};
+
+// Custom field conditions are edited as "key=value" pairs separated by commas
+const formatConditions = (conditions: Record<string, string>): string =>
+  Object.entries(conditions || {}).map(([key, value]) => `${key}=${value}`).join(', ');
+
+const parseConditions = (text: string): Record<string, string> => {
+  const conditions: Record<string, string> = {};
+  text.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [key, ...rest] = part.split('=');
+    if (key.trim()) {
+      conditions[key.trim()] = rest.join('=').trim();
+    }
+  });
+  return conditions;
+};
+
+const toFormData = (rule: PBAdoSyncRule): RuleFormData => ({
+  id: rule.id,
+  name: rule.name,
+  description: rule.description || '',
+  priority: String(rule.priority),
+  enabled: rule.enabled,
+  global: rule.workspace_id === null,
+  from_status: rule.from_status || '',
+  to_status: rule.to_status || '',
+  feature_type: rule.feature_type || '',
+  component_id: rule.component_id || '',
+  custom_field_conditions: formatConditions(rule.custom_field_conditions),
+  action: rule.action,
+});
+
+/**
+ * SyncRulesEditor lets admins manage the trigger rules that decide when
+ * pb-ado-sync pushes ProductBoard status changes to Azure DevOps.
+ */
+export const SyncRulesEditor: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const { addToast } = useToast();
+  const [editingRule, setEditingRule] = useState<RuleFormData | null>(null);
+  const [deleteRule, setDeleteRule] = useState<PBAdoSyncRule | null>(null);
+
+  const { data: rules = [], isLoading, refetch } = useSyncRules(currentWorkspace?.id);
+  const { data: decisions = [], refetch: refetchDecisions } = useRecentRuleDecisions();
+  const createRule = useCreateSyncRule();
+  const updateRule = useUpdateSyncRule();
+  const removeRule = useDeleteSyncRule();
+
+  const ruleNames = new Map(rules.map(rule => [rule.id, rule.name]));
+
+  const handleSave = async (form: RuleFormData) => {
+    const rule: SyncRuleInput = {
+      workspace_id: form.global ? null : currentWorkspace?.id || null,
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      priority: Number(form.priority) || 100,
+      enabled: form.enabled,
+      from_status: form.from_status.trim() || null,
+      to_status: form.to_status.trim() || null,
+      feature_type: form.feature_type.trim() || null,
+      component_id: form.component_id.trim() || null,
+      custom_field_conditions: parseConditions(form.custom_field_conditions),
+      action: form.action,
+    };
+
+    try {
+      if (form.id) {
+        await updateRule.mutateAsync({ id: form.id, ...rule });
+      } else {
+        await createRule.mutateAsync(rule);
+      }
+      addToast({
+        title: 'Success',
+        message: `Rule "${rule.name}" saved successfully`,
+        type: 'success',
+      });
+      setEditingRule(null);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to save rule: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  const handleToggle = async (rule: PBAdoSyncRule) => {
+    try {
+      await updateRule.mutateAsync({ id: rule.id, enabled: !rule.enabled });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to update rule: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  const handleDelete = async (rule: PBAdoSyncRule) => {
+    try {
+      await removeRule.mutateAsync(rule.id);
+      addToast({
+        title: 'Success',
+        message: `Rule "${rule.name}" deleted successfully`,
+        type: 'success',
+      });
+      setDeleteRule(null);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to delete rule: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  // Describe a rule's conditions in one line for the table
+  const describeConditions = (rule: PBAdoSyncRule): string => {
+    const parts = [
+      `${rule.from_status || 'any'} → ${rule.to_status || 'any'}`,
+      rule.feature_type ? `type: ${rule.feature_type}` : null,
+      rule.component_id ? `component: ${rule.component_id}` : null,
+      Object.keys(rule.custom_field_conditions || {}).length > 0
+        ? `fields: ${formatConditions(rule.custom_field_conditions)}`
+        : null,
+    ];
+    return parts.filter(Boolean).join(' · ');
+  };
+
+  const renderEditForm = () => {
+    if (!editingRule) return null;
+
+    const setField = <K extends keyof RuleFormData>(field: K, value: RuleFormData[K]) =>
+      setEditingRule({ ...editingRule, [field]: value });
+
+    return (
+      <Dialog open={!!editingRule} onOpenChange={(open) => !open && setEditingRule(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingRule.id ? 'Edit Trigger Rule' : 'Add Trigger Rule'}</DialogTitle>
+            <DialogDescription>
+              Leave a condition empty to match any value. Rules are evaluated by priority and the first match wins.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2 col-span-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input value={editingRule.name} onChange={(e) => setField('name', e.target.value)} />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <label className="text-sm font-medium">Description</label>
+              <Input value={editingRule.description} onChange={(e) => setField('description', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">From Status</label>
+              <Input
+                value={editingRule.from_status}
+                onChange={(e) => setField('from_status', e.target.value)}
+                placeholder="any"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">To Status</label>
+              <Input
+                value={editingRule.to_status}
+                onChange={(e) => setField('to_status', e.target.value)}
+                placeholder="e.g., With Engineering"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Feature Type</label>
+              <Input
+                value={editingRule.feature_type}
+                onChange={(e) => setField('feature_type', e.target.value)}
+                placeholder="e.g., feature, subfeature"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Component ID</label>
+              <Input value={editingRule.component_id} onChange={(e) => setField('component_id', e.target.value)} />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <label className="text-sm font-medium">Custom Field Conditions</label>
+              <Input
+                value={editingRule.custom_field_conditions}
+                onChange={(e) => setField('custom_field_conditions', e.target.value)}
+                placeholder="e.g., tentpole=true, investment_category=Growth"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Action</label>
+              <select
+                value={editingRule.action}
+                onChange={(e) => setField('action', e.target.value as SyncRuleAction)}
+                className="w-full h-10 rounded-md border border-gray-300 px-3 text-sm"
+              >
+                {RULE_ACTIONS.map(action => (
+                  <option key={action.value} value={action.value}>{action.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Priority</label>
+              <Input
+                type="number"
+                value={editingRule.priority}
+                onChange={(e) => setField('priority', e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={editingRule.enabled}
+                onChange={(e) => setField('enabled', e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <span className="text-sm">Enabled</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={editingRule.global}
+                onChange={(e) => setField('global', e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <span className="text-sm">Apply to all workspaces</span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRule(null)}>Cancel</Button>
+            <Button
+              onClick={() => handleSave(editingRule)}
+              disabled={!editingRule.name.trim()}
+              loading={createRule.isPending || updateRule.isPending}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  const renderDeleteDialog = () => (
+    <Dialog open={!!deleteRule} onOpenChange={(open) => !open && setDeleteRule(null)}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <AlertTriangle className="h-5 w-5 mr-2 text-red-500" />
+            Confirm Deletion
+          </DialogTitle>
+          <DialogDescription>
+            Are you sure you want to delete the rule "{deleteRule?.name}"? This action cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => setDeleteRule(null)}>Cancel</Button>
+          <Button variant="destructive" onClick={() => deleteRule && handleDelete(deleteRule)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete Rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">Sync Trigger Rules</h1>
+
+        <Button onClick={() => setEditingRule({ ...EMPTY_FORM })}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            When a ProductBoard feature changes status, pb-ado-sync evaluates these rules in priority order
+            and takes the action of the first rule that matches. Transitions that match no rule are skipped.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {isLoading ? (
+            <div className="h-48 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[80px]">Priority</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Conditions</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Scope</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    <TableHead className="w-[120px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-24 text-center">
+                        No trigger rules configured. Status changes will not be synced to Azure DevOps.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rules.map((rule) => (
+                      <TableRow key={rule.id} className={rule.enabled ? '' : 'opacity-50'}>
+                        <TableCell className="font-mono text-sm">{rule.priority}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{rule.name}</div>
+                          {rule.description && <div className="text-xs text-gray-500">{rule.description}</div>}
+                        </TableCell>
+                        <TableCell className="text-sm">{describeConditions(rule)}</TableCell>
+                        <TableCell>
+                          <Badge variant={rule.action === 'skip' ? 'outline' : 'secondary'}>{rule.action}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">{rule.workspace_id ? 'Workspace' : 'Global'}</TableCell>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            checked={rule.enabled}
+                            onChange={() => handleToggle(rule)}
+                            className="h-4 w-4 rounded border-gray-300"
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button variant="ghost" size="sm" onClick={() => setEditingRule(toFormData(rule))} title="Edit">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeleteRule(rule)}
+                              className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Recent Decisions</CardTitle>
+            <CardDescription>The latest webhook events and the rule that decided each one.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => { refetch(); refetchDecisions(); }}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>PB Item</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {decisions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">No webhook events recorded yet</TableCell>
+                  </TableRow>
+                ) : (
+                  decisions.map((log) => (
+                    <TableRow key={log.id}>
+                      <TableCell className="text-sm whitespace-nowrap">{format(new Date(log.created_at), 'PPpp')}</TableCell>
+                      <TableCell className="font-mono text-xs">{log.pb_item_id || '-'}</TableCell>
+                      <TableCell><Badge variant="outline">{log.status || 'unknown'}</Badge></TableCell>
+                      <TableCell className="text-sm">
+                        {log.matched_rule_id ? ruleNames.get(log.matched_rule_id) || log.matched_rule_id : '-'}
+                        {log.rule_action && <span className="text-gray-500"> ({log.rule_action})</span>}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{log.details}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {renderEditForm()}
+      {renderDeleteDialog()}
+    </div>
+  );
+};
+
+export default SyncRulesEditor;
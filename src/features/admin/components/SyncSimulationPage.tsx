@@ -0,0 +1,298 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/shadcn/select';
+import { AlertTriangle, Copy, Eye, RefreshCw } from 'lucide-react';
+import { useHierarchyMappings } from '../../../hooks/useHierarchyMappings';
+import { useSimulationTargets, useSyncSimulation } from '../../../hooks/useSyncSimulation';
+import { SimulatedWorkItem, SimulationScope, summarizeSimulation } from '../../../lib/syncSimulation';
+
+const SCOPES: { value: SimulationScope; label: string }[] = [
+  { value: 'initiative', label: 'Initiative' },
+  { value: 'feature', label: 'Feature' },
+  { value: 'component', label: 'Component' },
+];
+
+const LEVEL_INDENT: Record<SimulatedWorkItem['pbItem']['level'], string> = {
+  initiative: '',
+  feature: 'pl-4',
+  subfeature: 'pl-8',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * SyncSimulationPage shows what a ProductBoard → ADO sync would do for an initiative, feature or component:
+ * the work items it would create or update, with their type, area path, iteration, team, parent and fields.
+ * Only cached data is read; nothing is written to ADO.
+ */
+export const SyncSimulationPage: React.FC = () => {
+  const { mappings, isLoading: isMappingsLoading } = useHierarchyMappings();
+  const [mappingId, setMappingId] = useState<string | null>(null);
+  const [scope, setScope] = useState<SimulationScope>('initiative');
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [selectedResult, setSelectedResult] = useState<SimulatedWorkItem | null>(null);
+
+  const mapping = mappings.find(m => m.id === mappingId) || mappings[0];
+  const { data: targets, isLoading: isTargetsLoading } = useSimulationTargets();
+  const { data: results = [], isFetching, isError, error, refetch } = useSyncSimulation(scope, targetId, mapping);
+  const summary = useMemo(() => summarizeSimulation(results), [results]);
+
+  useEffect(() => {
+    setTargetId(null);
+  }, [scope]);
+
+  const renderResultDialog = () => {
+    if (!selectedResult) return null;
+    const { pbItem } = selectedResult;
+
+    return (
+      <Dialog open={!!selectedResult} onOpenChange={(open) => !open && setSelectedResult(null)}>
+        <DialogContent className="sm:max-w-[800px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{pbItem.name}</DialogTitle>
+            <DialogDescription>
+              {selectedResult.operation === 'create'
+                ? `Would create a ${selectedResult.workItemType}.`
+                : `Would update ${selectedResult.workItemType} #${selectedResult.adoId}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {selectedResult.problems.length > 0 && (
+              <ul className="space-y-1">
+                {selectedResult.problems.map(problem => (
+                  <li key={problem} className="flex items-start text-sm text-amber-700">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                    {problem}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {selectedResult.duplicates.length > 0 && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Possible Duplicates</label>
+                <ul className="text-sm text-red-700 space-y-1">
+                  {selectedResult.duplicates.map(duplicate => (
+                    <li key={duplicate.workItem.id}>
+                      #{duplicate.workItem.id} {duplicate.workItem.title}: {duplicate.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <p><span className="font-medium">Area path:</span> {selectedResult.areaPath.reason}</p>
+              <p><span className="font-medium">Team:</span> {selectedResult.team.reason}</p>
+              <p><span className="font-medium">Iteration:</span> {selectedResult.iterationPath.source}</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Fields</label>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Value</TableHead>
+                      {selectedResult.operation === 'update' && <TableHead>Current</TableHead>}
+                      <TableHead>From</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedResult.fields.map(field => (
+                      <TableRow key={field.field} className={field.changed === false ? 'text-gray-400' : ''}>
+                        <TableCell className="font-mono text-xs">{field.field}</TableCell>
+                        <TableCell className="text-xs max-w-xs truncate" title={formatValue(field.value)}>{formatValue(field.value)}</TableCell>
+                        {selectedResult.operation === 'update' && (
+                          <TableCell className="text-xs max-w-xs truncate">
+                            {field.changed === null ? 'Not cached' : formatValue(field.current)}
+                          </TableCell>
+                        )}
+                        <TableCell className="text-xs">{field.origin}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">Sync Simulation</h1>
+
+        <Button variant="outline" onClick={() => refetch()} disabled={!targetId || isFetching}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Rerun
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>What Would Sync Do?</CardTitle>
+          <CardDescription>
+            Runs the hierarchy mapping against cached ProductBoard and Azure DevOps data. Nothing is written to Azure DevOps.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-4">
+            {mappings.length > 1 && (
+              <Select value={mapping?.id || ''} onValueChange={setMappingId} disabled={isMappingsLoading}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Select Mapping" />
+                </SelectTrigger>
+                <SelectContent>
+                  {mappings.filter(m => m.id).map(m => (
+                    <SelectItem key={m.id} value={m.id as string}>{m.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="flex gap-2">
+              {SCOPES.map(option => (
+                <Button
+                  key={option.value}
+                  variant={scope === option.value ? 'primary' : 'outline'}
+                  size="sm"
+                  onClick={() => setScope(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            <Select value={targetId || ''} onValueChange={setTargetId} disabled={isTargetsLoading}>
+              <SelectTrigger className="w-[320px]">
+                <SelectValue placeholder={`Select ${SCOPES.find(option => option.value === scope)?.label}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {(targets?.[scope] || []).map(target => (
+                  <SelectItem key={target.id} value={target.id}>{target.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {mapping && (
+              <span className="text-sm text-gray-500">
+                Using {mapping.name}{mapping.current_version ? `, version ${mapping.current_version}` : ''}
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {targetId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Planned Work Items</CardTitle>
+            {results.length > 0 && (
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Badge variant="secondary">{summary.creates} to create</Badge>
+                <Badge variant="secondary">{summary.updates} to update</Badge>
+                {summary.unchanged > 0 && <Badge variant="outline">{summary.unchanged} unchanged</Badge>}
+                {summary.duplicates > 0 && <Badge variant="destructive">{summary.duplicates} possible duplicates</Badge>}
+                {summary.problems > 0 && <Badge variant="outline" className="text-amber-700 border-amber-300">{summary.problems} with problems</Badge>}
+              </div>
+            )}
+          </CardHeader>
+
+          <CardContent>
+            {isFetching ? (
+              <div className="h-48 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : isError ? (
+              <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'Simulation failed'}</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>ProductBoard Item</TableHead>
+                      <TableHead>Operation</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Area Path</TableHead>
+                      <TableHead>Iteration</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Parent</TableHead>
+                      <TableHead className="w-[80px] text-right">Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="h-24 text-center">No cached ProductBoard items in scope</TableCell>
+                      </TableRow>
+                    ) : (
+                      results.map(result => (
+                        <TableRow key={result.pbItem.id}>
+                          <TableCell className={`font-medium ${LEVEL_INDENT[result.pbItem.level]}`}>
+                            <div className="flex items-center space-x-2">
+                              <span>{result.pbItem.name}</span>
+                              {result.duplicates.length > 0 && (
+                                <span title={result.duplicates.map(d => `#${d.workItem.id}: ${d.reason}`).join('\n')}>
+                                  <Copy className="h-4 w-4 text-red-500" />
+                                </span>
+                              )}
+                              {result.problems.length > 0 && (
+                                <span title={result.problems.join('\n')}>
+                                  <AlertTriangle className="h-4 w-4 text-amber-500" />
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={result.operation === 'create' ? 'default' : 'secondary'}>
+                              {result.operation === 'create' ? 'Create' : `Update #${result.adoId}`}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">{result.workItemType}</TableCell>
+                          <TableCell className="text-sm font-mono" title={result.areaPath.reason}>
+                            {result.areaPath.value || <span className="text-red-600">Unresolved</span>}
+                          </TableCell>
+                          <TableCell className="text-sm font-mono" title={result.iterationPath.source}>
+                            {result.iterationPath.value || '-'}
+                          </TableCell>
+                          <TableCell className="text-sm" title={result.team.reason}>{result.team.value || '-'}</TableCell>
+                          <TableCell className="text-sm">
+                            {!result.parent ? '-' : result.parent.status === 'linked'
+                              ? `#${result.parent.adoId} ${result.parent.name}`
+                              : result.parent.status === 'created'
+                                ? `New: ${result.parent.name}`
+                                : <span className="text-amber-700">{result.parent.name} (not synced)</span>}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => setSelectedResult(result)} title="Details">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {renderResultDialog()}
+    </div>
+  );
+};
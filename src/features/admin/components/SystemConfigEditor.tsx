@@ -1,17 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '../../../components/ui/shadcn/button';
 import { Input } from '../../../components/ui/shadcn/input';
+import { Badge } from '../../../components/ui/shadcn/badge';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '../../../components/ui/shadcn/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../../../components/ui/shadcn/dialog';
-import { Plus, Edit, Trash2, Save, AlertTriangle, Search, EyeOff, Eye } from 'lucide-react';
+import { Plus, Edit, Trash2, Save, AlertTriangle, Search, KeyRound } from 'lucide-react';
 import { getAllSystemConfig, SystemConfigItem, setSystemConfig, deleteSystemConfig } from '../../../lib/api/systemConfig';
+import { isSecretConfigKey } from '../../../lib/api/secrets';
+import { useSetConfigSecret } from '../../../hooks/useConfigSecrets';
+import { ConfigSecretsCard } from './ConfigSecretsCard';
 import { useToast } from '../../../contexts/ToastContext';
+import { useWorkspace } from '../../../contexts/WorkspaceContext';
 
 type ConfigItemFormData = {
   key: string;
   value: string;
   description: string;
+  // Store the value as an override of the current workspace instead of system-wide
+  workspaceOverride: boolean;
 };
 
 /**
@@ -24,15 +31,16 @@ export const SystemConfigEditor: React.FC = () => {
   const [editingItem, setEditingItem] = useState<ConfigItemFormData | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [deleteItemKey, setDeleteItemKey] = useState<string | null>(null);
-  const [showSensitiveValues, setShowSensitiveValues] = useState<Record<string, boolean>>({});
+  const [deleteItem, setDeleteItem] = useState<SystemConfigItem | null>(null);
   
   const context = useToast();
+  const { currentWorkspace } = useWorkspace();
+  const setSecret = useSetConfigSecret();
 
-  // Fetch all configuration items on component mount
+  // Fetch all configuration items on mount and whenever the workspace changes
   useEffect(() => {
     fetchConfigItems();
-  }, []);
+  }, [currentWorkspace?.id]);
 
   // Filter config items based on search term
   const filteredConfigItems = configItems.filter(item =>
@@ -58,10 +66,33 @@ export const SystemConfigEditor: React.FC = () => {
     }
   };
 
-  // Create a new configuration item
+  // Create a new configuration item; credentials are stored as encrypted secrets instead
   const handleCreateItem = async (formData: ConfigItemFormData) => {
     try {
-      await setSystemConfig(formData.key, formData.value, formData.description);
+      if (isSecretConfigKey(formData.key)) {
+        await setSecret.mutateAsync({
+          key: formData.key,
+          value: formData.value,
+          description: formData.description || null,
+          workspaceId: formData.workspaceOverride ? currentWorkspace?.id : null,
+        });
+        
+        context.addToast({
+          title: 'Success',
+          message: `"${formData.key}" stored as an encrypted secret`,
+          type: 'success',
+        });
+        
+        setIsAddDialogOpen(false);
+        return;
+      }
+      
+      await setSystemConfig(
+        formData.key,
+        formData.value,
+        formData.description,
+        formData.workspaceOverride ? currentWorkspace?.id : undefined
+      );
       
       context.addToast({
         title: 'Success',
@@ -83,7 +114,12 @@ export const SystemConfigEditor: React.FC = () => {
   // Update an existing configuration item
   const handleUpdateItem = async (formData: ConfigItemFormData) => {
     try {
-      await setSystemConfig(formData.key, formData.value, formData.description);
+      await setSystemConfig(
+        formData.key,
+        formData.value,
+        formData.description,
+        formData.workspaceOverride ? currentWorkspace?.id : undefined
+      );
       
       context.addToast({
         title: 'Success',
@@ -102,20 +138,22 @@ export const SystemConfigEditor: React.FC = () => {
     }
   };
 
-  // Delete a configuration item
-  const handleDeleteItem = async (key: string) => {
+  // Delete a configuration item, or only the workspace override of it
+  const handleDeleteItem = async (item: SystemConfigItem) => {
     try {
-      await deleteSystemConfig(key);
+      await deleteSystemConfig(item.key, item.workspace_override ? currentWorkspace?.id : undefined);
       
       context.addToast({
         title: 'Success',
-        message: `Configuration item "${key}" deleted successfully`,
+        message: item.workspace_override
+          ? `Workspace override of "${item.key}" removed`
+          : `Configuration item "${item.key}" deleted successfully`,
         type: 'success',
       });
       
       fetchConfigItems();
       setIsDeleteDialogOpen(false);
-      setDeleteItemKey(null);
+      setDeleteItem(null);
     } catch (error) {
       context.addToast({
         title: 'Error',
@@ -125,34 +163,21 @@ export const SystemConfigEditor: React.FC = () => {
     }
   };
 
-  // Toggle visibility of sensitive values
-  const toggleValueVisibility = (key: string) => {
-    setShowSensitiveValues(prev => ({
-      ...prev,
-      [key]: !prev[key]
-    }));
-  };
-
-  // Determine if a key is for a sensitive value (like a token or password)
-  const isSensitiveKey = (key: string): boolean => {
-    const sensitivePatterns = [
-      'token',
-      'key',
-      'secret',
-      'password',
-      'auth',
-      'credential',
-    ];
-    
-    return sensitivePatterns.some(pattern => key.toLowerCase().includes(pattern));
-  };
-
-  // Mask sensitive values
-  const maskValue = (value: string): string => {
-    if (!value) return '';
-    if (value.length <= 8) return '•'.repeat(value.length);
-    return value.substring(0, 4) + '•'.repeat(value.length - 8) + value.substring(value.length - 4);
-  };
+  // Render the checkbox that stores a value for the current workspace only
+  const renderOverrideCheckbox = (
+    formData: ConfigItemFormData,
+    onChange: (workspaceOverride: boolean) => void
+  ) => (
+    <label className="flex items-center space-x-2 text-sm">
+      <input
+        type="checkbox"
+        checked={formData.workspaceOverride}
+        disabled={!currentWorkspace}
+        onChange={(e) => onChange(e.target.checked)}
+      />
+      <span>Only for the {currentWorkspace?.name || 'current'} workspace</span>
+    </label>
+  );
 
   // Render edit form for a configuration item
   const renderEditForm = () => {
@@ -183,7 +208,6 @@ export const SystemConfigEditor: React.FC = () => {
               <Input 
                 value={editingItem.value} 
                 onChange={(e) => setEditingItem({ ...editingItem, value: e.target.value })}
-                type={isSensitiveKey(editingItem.key) ? "password" : "text"}
               />
             </div>
             
@@ -194,6 +218,8 @@ export const SystemConfigEditor: React.FC = () => {
                 onChange={(e) => setEditingItem({ ...editingItem, description: e.target.value })}
               />
             </div>
+            
+            {renderOverrideCheckbox(editingItem, (workspaceOverride) => setEditingItem({ ...editingItem, workspaceOverride }))}
           </div>
           
           <DialogFooter>
@@ -214,6 +240,7 @@ export const SystemConfigEditor: React.FC = () => {
       key: '',
       value: '',
       description: '',
+      workspaceOverride: false,
     });
     
     return (
@@ -244,9 +271,15 @@ export const SystemConfigEditor: React.FC = () => {
               <Input 
                 value={formData.value} 
                 onChange={(e) => setFormData({ ...formData, value: e.target.value })}
-                type={isSensitiveKey(formData.key) ? "password" : "text"}
+                type={isSecretConfigKey(formData.key) ? "password" : "text"}
                 placeholder="Configuration value"
               />
+              {isSecretConfigKey(formData.key) && (
+                <p className="flex items-center text-xs text-gray-500">
+                  <KeyRound className="h-3 w-3 mr-1" />
+                  This key holds a credential, so it will be stored as an encrypted secret.
+                </p>
+              )}
             </div>
             
             <div className="space-y-2">
@@ -257,6 +290,8 @@ export const SystemConfigEditor: React.FC = () => {
                 placeholder="What this configuration is used for"
               />
             </div>
+            
+            {renderOverrideCheckbox(formData, (workspaceOverride) => setFormData({ ...formData, workspaceOverride }))}
           </div>
           
           <DialogFooter>
@@ -285,7 +320,9 @@ export const SystemConfigEditor: React.FC = () => {
               Confirm Deletion
             </DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete the configuration key "{deleteItemKey}"? This action cannot be undone.
+              {deleteItem?.workspace_override
+                ? `Remove the ${currentWorkspace?.name || 'workspace'} override of "${deleteItem.key}"? The workspace will use the system value again.`
+                : `Are you sure you want to delete the configuration key "${deleteItem?.key}"? This action cannot be undone.`}
             </DialogDescription>
           </DialogHeader>
           
@@ -293,7 +330,7 @@ export const SystemConfigEditor: React.FC = () => {
             <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>Cancel</Button>
             <Button 
               variant="destructive" 
-              onClick={() => deleteItemKey && handleDeleteItem(deleteItemKey)}
+              onClick={() => deleteItem && handleDeleteItem(deleteItem)}
             >
               <Trash2 className="h-4 w-4 mr-2" />
               Delete Configuration
@@ -319,7 +356,8 @@ export const SystemConfigEditor: React.FC = () => {
         <CardHeader>
           <CardTitle>Configuration Settings</CardTitle>
           <CardDescription>
-            Manage system-wide configuration settings, API tokens, and environment variables.
+            Manage system-wide configuration settings and environment variables.
+            Values marked as workspace overrides only apply to the {currentWorkspace?.name || 'current'} workspace.
           </CardDescription>
         </CardHeader>
         
@@ -361,29 +399,13 @@ export const SystemConfigEditor: React.FC = () => {
                   ) : (
                     filteredConfigItems.map((item) => (
                       <TableRow key={item.id}>
-                        <TableCell className="font-mono text-sm">{item.key}</TableCell>
-                        <TableCell>
-                          <div className="flex items-center space-x-2">
-                            <span className="font-mono text-sm">
-                              {isSensitiveKey(item.key) && !showSensitiveValues[item.key] 
-                                ? maskValue(item.value) 
-                                : item.value}
-                            </span>
-                            {isSensitiveKey(item.key) && (
-                              <button
-                                onClick={() => toggleValueVisibility(item.key)}
-                                className="text-gray-500 hover:text-gray-700"
-                                title={showSensitiveValues[item.key] ? "Hide value" : "Show value"}
-                              >
-                                {showSensitiveValues[item.key] ? (
-                                  <EyeOff className="h-4 w-4" />
-                                ) : (
-                                  <Eye className="h-4 w-4" />
-                                )}
-                              </button>
-                            )}
-                          </div>
+                        <TableCell className="font-mono text-sm">
+                          {item.key}
+                          {item.workspace_override && (
+                            <Badge variant="secondary" className="ml-2 font-sans">Workspace</Badge>
+                          )}
                         </TableCell>
+                        <TableCell className="font-mono text-sm">{item.value}</TableCell>
                         <TableCell>{item.description}</TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end space-x-2">
@@ -393,7 +415,8 @@ export const SystemConfigEditor: React.FC = () => {
                               onClick={() => setEditingItem({
                                 key: item.key,
                                 value: item.value,
-                                description: item.description
+                                description: item.description,
+                                workspaceOverride: !!item.workspace_override
                               })}
                               title="Edit"
                             >
@@ -403,7 +426,7 @@ export const SystemConfigEditor: React.FC = () => {
                               variant="ghost"
                               size="sm"
                               onClick={() => {
-                                setDeleteItemKey(item.key);
+                                setDeleteItem(item);
                                 setIsDeleteDialogOpen(true);
                               }}
                               className="text-red-500 hover:text-red-700 hover:bg-red-50"
@@ -432,6 +455,8 @@ export const SystemConfigEditor: React.FC = () => {
         </CardFooter>
       </Card>
       
+      <ConfigSecretsCard />
+      
       {renderEditForm()}
       {renderAddForm()}
       {renderDeleteDialog()}
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/shadcn/select';
+import { format } from 'date-fns';
+import { useToast } from '../../../contexts/ToastContext';
+import { useAuth } from '../../auth/AuthContext';
+import { useUserProfiles, useUpdateUserRole } from '../../../hooks/useUserProfiles';
+import { ROLE_LABELS, USER_ROLES, UserProfile, UserRole } from '../../../types/auth';
+
+/**
+ * UserRolesEditor lets admins assign application roles to the users who signed in.
+ */
+export const UserRolesEditor: React.FC = () => {
+  const { addToast } = useToast();
+  const { user } = useAuth();
+  const { data: profiles = [], isLoading } = useUserProfiles();
+  const updateRole = useUpdateUserRole();
+
+  const handleRoleChange = async (profile: UserProfile, role: UserRole) => {
+    try {
+      await updateRole.mutateAsync({ userId: profile.id, role });
+      addToast({
+        title: 'Success',
+        message: `${profile.email} is now ${ROLE_LABELS[role]}`,
+        type: 'success',
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to update role: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-semibold">Users & Roles</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            Admins manage configuration and mappings, product managers approve links and rank changes,
+            engineers take part in grooming and replay sync jobs, and viewers have read-only access.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-48 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Joined</TableHead>
+                    <TableHead className="w-[200px]">Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profiles.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center">No users have signed in yet</TableCell>
+                    </TableRow>
+                  ) : (
+                    profiles.map(profile => (
+                      <TableRow key={profile.id}>
+                        <TableCell className="font-medium">
+                          {profile.full_name || '-'}
+                          {profile.id === user?.id && <Badge variant="outline" className="ml-2">You</Badge>}
+                        </TableCell>
+                        <TableCell>{profile.email}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{format(new Date(profile.created_at), 'PP')}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={profile.role}
+                            onValueChange={(value) => handleRoleChange(profile, value as UserRole)}
+                            // Admins can't demote themselves and lock everyone out
+                            disabled={profile.id === user?.id}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {USER_ROLES.map(role => (
+                                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UserRolesEditor;
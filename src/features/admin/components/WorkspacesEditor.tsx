@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Input } from '../../../components/ui/shadcn/input';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { Pencil, Plus, Users } from 'lucide-react';
+import { useToast } from '../../../contexts/ToastContext';
+import { useUserProfiles } from '../../../hooks/useUserProfiles';
+import {
+  useWorkspaces,
+  useCreateWorkspace,
+  useUpdateWorkspace,
+  useWorkspaceMembers,
+  useSetWorkspaceMember
+} from '../../../hooks/useWorkspaces';
+import { Workspace } from '../../../types/workspace';
+
+interface WorkspaceForm {
+  name: string;
+  description: string;
+  ado_project_id: string;
+}
+
+const EMPTY_FORM: WorkspaceForm = { name: '', description: '', ado_project_id: '' };
+
+/**
+ * WorkspacesEditor lets admins create workspaces (one per product line)
+ * and choose which users can access each of them.
+ */
+export const WorkspacesEditor: React.FC = () => {
+  const { addToast } = useToast();
+  const { data: workspaces = [], isLoading } = useWorkspaces();
+  const { data: profiles = [] } = useUserProfiles();
+  const createWorkspace = useCreateWorkspace();
+  const updateWorkspace = useUpdateWorkspace();
+  const setMember = useSetWorkspaceMember();
+
+  // null: dialog closed, 'new': creating, otherwise the workspace being edited
+  const [editing, setEditing] = useState<Workspace | 'new' | null>(null);
+  const [form, setForm] = useState<WorkspaceForm>(EMPTY_FORM);
+  const [membersOf, setMembersOf] = useState<Workspace | null>(null);
+  const { data: members = [] } = useWorkspaceMembers(membersOf?.id);
+
+  const openEditor = (workspace: Workspace | 'new') => {
+    setEditing(workspace);
+    setForm(workspace === 'new' ? EMPTY_FORM : {
+      name: workspace.name,
+      description: workspace.description || '',
+      ado_project_id: workspace.ado_project_id || '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing || !form.name.trim()) return;
+
+    const input = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      ado_project_id: form.ado_project_id.trim() || null,
+    };
+
+    try {
+      if (editing === 'new') {
+        await createWorkspace.mutateAsync(input);
+      } else {
+        await updateWorkspace.mutateAsync({ id: editing.id, updates: input });
+      }
+      addToast({
+        title: 'Success',
+        message: `Workspace ${input.name} saved`,
+        type: 'success',
+      });
+      setEditing(null);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to save workspace: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  const handleMemberToggle = async (userId: string, member: boolean) => {
+    if (!membersOf) return;
+
+    try {
+      await setMember.mutateAsync({ workspaceId: membersOf.id, userId, member });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to update membership: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">Workspaces</h1>
+
+        <Button onClick={() => openEditor('new')}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Workspace
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspaces</CardTitle>
+          <CardDescription>
+            Each workspace has its own ADO project, ProductBoard tokens, hierarchy mappings and synced data.
+            Configuration values set for a workspace override the system configuration.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-48 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>ADO Project</TableHead>
+                    <TableHead className="w-[120px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {workspaces.map(workspace => (
+                    <TableRow key={workspace.id}>
+                      <TableCell className="font-medium">{workspace.name}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{workspace.description || '-'}</TableCell>
+                      <TableCell className="font-mono text-sm">{workspace.ado_project_id || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(workspace)} title="Edit">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setMembersOf(workspace)} title="Members">
+                            <Users className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Workspace' : 'Edit Workspace'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Name</label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Description</label>
+              <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">ADO Project</label>
+              <Input
+                value={form.ado_project_id}
+                placeholder="organization/project"
+                onChange={(e) => setForm({ ...form, ado_project_id: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={!form.name.trim()}
+              loading={createWorkspace.isPending || updateWorkspace.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!membersOf} onOpenChange={(open) => !open && setMembersOf(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Members of {membersOf?.name}</DialogTitle>
+            <DialogDescription>Admins can access every workspace.</DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-96 overflow-auto space-y-2 py-2">
+            {profiles.map(profile => {
+              const isMember = members.some(member => member.user_id === profile.id);
+              return (
+                <label key={profile.id} className="flex items-center space-x-3 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={isMember}
+                    disabled={setMember.isPending}
+                    onChange={(e) => handleMemberToggle(profile.id, e.target.checked)}
+                  />
+                  <span className="font-medium">{profile.full_name || profile.email}</span>
+                  {profile.full_name && <span className="text-gray-500">{profile.email}</span>}
+                </label>
+              );
+            })}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMembersOf(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default WorkspacesEditor;
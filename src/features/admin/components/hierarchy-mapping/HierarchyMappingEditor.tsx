@@ -104,7 +104,7 @@ export const HierarchyMappingEditor: React.FC = () => {
   // Handle saving the mapping
   const handleSave = () => {
     if (editedMapping) {
-      saveMapping(editedMapping);
+      saveMapping({ mapping: editedMapping });
     }
   };
   
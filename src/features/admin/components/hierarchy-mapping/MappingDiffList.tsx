@@ -0,0 +1,67 @@
+import React from 'react';
+import { Badge } from '../../../../components/ui/shadcn/badge';
+import { MappingChange } from '../../../../lib/mappingVersions';
+
+interface MappingDiffListProps {
+  changes: MappingChange[];
+  emptyMessage?: string;
+}
+
+const KIND_STYLES: Record<MappingChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * MappingDiffList component for showing the entry-level changes between two mapping configurations
+ */
+export const MappingDiffList: React.FC<MappingDiffListProps> = ({
+  changes,
+  emptyMessage = 'No differences'
+}) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+      {changes.map((change, index) => {
+        const before = (change.before || {}) as Record<string, unknown>;
+        const after = (change.after || {}) as Record<string, unknown>;
+
+        return (
+          <li key={`${change.section}-${change.key}-${index}`} className="p-2 text-sm">
+            <div className="flex items-center space-x-2">
+              <Badge className={`${KIND_STYLES[change.kind]} border-transparent capitalize`}>{change.kind}</Badge>
+              <span className="text-gray-500">{change.sectionLabel}</span>
+              <span className="font-medium">{change.key}</span>
+            </div>
+            {(change.section === 'name' || change.section === 'description') && (
+              <p className="mt-1 text-xs font-mono text-gray-600">
+                {formatValue(change.before)} → {formatValue(change.after)}
+              </p>
+            )}
+            {change.fields && (
+              <ul className="mt-1 space-y-0.5">
+                {change.fields.map(field => (
+                  <li key={field} className="text-xs font-mono text-gray-600">
+                    {field}: <span className="text-red-700">{formatValue(before[field])}</span> →{' '}
+                    <span className="text-green-700">{formatValue(after[field])}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default MappingDiffList;
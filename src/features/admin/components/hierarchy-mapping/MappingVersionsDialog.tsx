@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '../../../../components/ui/shadcn/button';
+import { Badge } from '../../../../components/ui/shadcn/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../../../../components/ui/shadcn/dialog';
+import { RotateCcw } from 'lucide-react';
+import { HierarchyMappingConfig } from '../../../../lib/api/hierarchyMapping';
+import { useHierarchyMappingVersions, useRollbackHierarchyMapping } from '../../../../hooks/useHierarchyMappings';
+import { diffMappings } from '../../../../lib/mappingVersions';
+import { useToast } from '../../../../contexts/ToastContext';
+import MappingDiffList from './MappingDiffList';
+
+interface MappingVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mapping: HierarchyMappingConfig;
+  onRolledBack: (restored: HierarchyMappingConfig) => void;
+}
+
+/**
+ * MappingVersionsDialog component listing the versions of a mapping configuration, with a diff between
+ * any two of them and rollback to an earlier one
+ */
+export const MappingVersionsDialog: React.FC<MappingVersionsDialogProps> = ({
+  open,
+  onOpenChange,
+  mapping,
+  onRolledBack
+}) => {
+  const { addToast } = useToast();
+  const { data: versions = [], isLoading, isError, error } = useHierarchyMappingVersions(open ? mapping.id : undefined);
+  const rollback = useRollbackHierarchyMapping();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [rollbackNote, setRollbackNote] = useState('');
+
+  // Start with the latest version, compared with the one before it
+  useEffect(() => {
+    if (open && versions.length > 0 && !versions.some(version => version.id === selectedId)) {
+      setSelectedId(versions[0].id);
+      setCompareId(versions[1]?.id || null);
+    }
+  }, [open, versions, selectedId]);
+
+  const selected = versions.find(version => version.id === selectedId);
+  const compared = versions.find(version => version.id === compareId);
+  const isCurrent = !!selected && selected.version_number === (mapping.current_version ?? versions[0]?.version_number);
+
+  const changes = useMemo(
+    () => selected && compared ? diffMappings(compared.config, selected.config) : [],
+    [selected, compared]
+  );
+
+  const handleSelect = (id: string) => {
+    const index = versions.findIndex(version => version.id === id);
+    setSelectedId(id);
+    setCompareId(versions[index + 1]?.id || null);
+    setRollbackNote('');
+  };
+
+  const handleRollback = async () => {
+    if (!selected) return;
+
+    try {
+      const restored = await rollback.mutateAsync({ mapping, version: selected, changeNote: rollbackNote.trim() });
+      addToast({
+        title: 'Success',
+        message: `Rolled back to version ${selected.version_number}`,
+        type: 'success',
+      });
+      setSelectedId(null);
+      setRollbackNote('');
+      onRolledBack(restored);
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: `Failed to roll back: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Every save of {mapping.name} is kept as a version. Rolling back saves the chosen version as a new one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!mapping.id ? (
+          <p className="text-sm text-gray-500">This mapping has not been saved yet.</p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin h-6 w-6 border-2 border-b-transparent border-primary rounded-full"></div>
+          </div>
+        ) : isError ? (
+          <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'Failed to load versions'}</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ul className="md:col-span-1 space-y-1 max-h-[60vh] overflow-y-auto">
+              {versions.map(version => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(version.id)}
+                    className={`w-full text-left p-2 rounded-md border text-sm ${version.id === selectedId ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Version {version.version_number}</span>
+                      {version.source !== 'save' && (
+                        <Badge variant="outline" className="capitalize">{version.source}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {version.created_by_email || 'Unknown author'} · {new Date(version.created_at).toLocaleString()}
+                    </p>
+                    {version.change_note && <p className="mt-1 text-xs text-gray-700 line-clamp-2">{version.change_note}</p>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="md:col-span-2 space-y-4">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h4 className="text-sm font-medium">
+                        Version {selected.version_number}
+                        {selected.restored_from_version && ` (restored version ${selected.restored_from_version})`}
+                      </h4>
+                      {selected.change_note && <p className="text-sm text-gray-600">{selected.change_note}</p>}
+                    </div>
+                    <label className="text-sm text-gray-600 flex items-center">
+                      Compare with
+                      <select
+                        className="ml-2 p-1 border border-gray-300 rounded-md text-sm"
+                        value={compareId || ''}
+                        onChange={(e) => setCompareId(e.target.value || null)}
+                      >
+                        <option value="">Nothing</option>
+                        {versions.filter(version => version.id !== selected.id).map(version => (
+                          <option key={version.id} value={version.id}>Version {version.version_number}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+
+                  {compared ? (
+                    <MappingDiffList changes={changes} />
+                  ) : (
+                    <p className="text-sm text-gray-500">Choose a version to compare with.</p>
+                  )}
+
+                  {!isCurrent && (
+                    <div className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-2">
+                      <label className="block text-sm font-medium">Roll back to version {selected.version_number}</label>
+                      <input
+                        type="text"
+                        className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                        value={rollbackNote}
+                        onChange={(e) => setRollbackNote(e.target.value)}
+                        placeholder={`Rolled back to version ${selected.version_number}`}
+                      />
+                      <Button variant="outline" size="sm" onClick={handleRollback} loading={rollback.isPending}>
+                        {!rollback.isPending && <RotateCcw className="h-4 w-4 mr-2" />}
+                        Roll Back
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MappingVersionsDialog;
@@ -0,0 +1,221 @@
+import React from 'react';
+import { Button } from '../../../../components/ui/shadcn/button';
+import { Plus, Trash2, X } from 'lucide-react';
+import { TabComponentProps } from './types';
+import { getResolutionRules } from '../../../../lib/api/hierarchyMapping';
+import {
+  AreaPathRule,
+  RuleCondition,
+  RuleField,
+  RuleOperator,
+  RULE_FIELD_LABELS,
+  RULE_OPERATOR_LABELS,
+  orderRules,
+  validateRule
+} from '../../../../lib/areaPathRules';
+
+/**
+ * ResolutionRulesTab component for managing the prioritized rules that resolve
+ * the area path and team of ProductBoard items
+ */
+export const ResolutionRulesTab: React.FC<TabComponentProps> = ({
+  editedMapping,
+  setEditedMapping
+}) => {
+  if (!editedMapping) {
+    return null;
+  }
+
+  const rules = editedMapping.area_path_rules || [];
+  // Rules derived from the area path and user team mappings, in use while no rules are defined
+  const derivedRules = rules.length === 0 ? getResolutionRules(editedMapping) : [];
+
+  const setRules = (newRules: AreaPathRule[]) => {
+    setEditedMapping({ ...editedMapping, area_path_rules: newRules });
+  };
+
+  const updateRule = (id: string, changes: Partial<AreaPathRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const updateCondition = (rule: AreaPathRule, index: number, changes: Partial<RuleCondition>) => {
+    const conditions = [...rule.conditions];
+    conditions[index] = { ...conditions[index], ...changes };
+    updateRule(rule.id, { conditions });
+  };
+
+  const handleAddRule = () => {
+    const lastPriority = rules.reduce((max, rule) => Math.max(max, rule.priority), 0);
+    setRules([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        name: 'New rule',
+        priority: lastPriority + 10,
+        enabled: true,
+        conditions: [{ field: 'component', operator: 'equals', value: '' }],
+        area_path: ''
+      }
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium">Resolution Rules</h3>
+          <p className="text-sm text-gray-500">
+            Rules are tried from the lowest priority up; the first enabled rule whose conditions all match sets the
+            area path or team. Items no rule matches are reported as unresolved.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {derivedRules.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setRules(derivedRules)}>
+              Start from Existing Mappings
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleAddRule} className="flex items-center">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      {rules.length === 0 && (
+        <div className="bg-gray-50 p-4 rounded-md border border-gray-200 text-sm text-gray-600">
+          {derivedRules.length > 0
+            ? `No rules are defined. ${derivedRules.length} rules are derived from the area path and user team mappings that name a ProductBoard initiative, component, product or user.`
+            : 'No rules are defined, so no area paths or teams can be resolved.'}
+        </div>
+      )}
+
+      {orderRules(rules).map(rule => {
+        const errors = validateRule(rule);
+
+        return (
+          <div key={rule.id} className={`p-4 rounded-md border ${rule.enabled ? 'border-gray-200 bg-white' : 'border-gray-200 bg-gray-50 opacity-75'}`}>
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+              <div className="md:col-span-1">
+                <label className="block text-xs font-medium text-gray-500 mb-1">Priority</label>
+                <input
+                  type="number"
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  value={rule.priority}
+                  onChange={(e) => updateRule(rule.id, { priority: Number(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-xs font-medium text-gray-500 mb-1">Name</label>
+                <input
+                  type="text"
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  value={rule.name}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-4">
+                <label className="block text-xs font-medium text-gray-500 mb-1">Area Path</label>
+                <input
+                  type="text"
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  value={rule.area_path || ''}
+                  onChange={(e) => updateRule(rule.id, { area_path: e.target.value })}
+                  placeholder="Healthcare\Product\Audit"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-xs font-medium text-gray-500 mb-1">Team</label>
+                <input
+                  type="text"
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  value={rule.team || ''}
+                  onChange={(e) => updateRule(rule.id, { team: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="md:col-span-2 flex items-center justify-end space-x-2 pb-2">
+                <label className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="mr-1"
+                  />
+                  Enabled
+                </label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRules(rules.filter(r => r.id !== rule.id))}
+                  className="text-red-500"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="mt-3 space-y-2">
+              <p className="text-xs font-medium text-gray-500">
+                {rule.conditions.length === 0 ? 'No conditions: the rule matches every item' : 'When all of these match'}
+              </p>
+              {rule.conditions.map((condition, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <select
+                    className="p-1 border border-gray-300 rounded-md text-sm"
+                    value={condition.field}
+                    onChange={(e) => updateCondition(rule, index, { field: e.target.value as RuleField })}
+                  >
+                    {(Object.keys(RULE_FIELD_LABELS) as RuleField[]).map(field => (
+                      <option key={field} value={field}>{RULE_FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="p-1 border border-gray-300 rounded-md text-sm"
+                    value={condition.operator}
+                    onChange={(e) => updateCondition(rule, index, { operator: e.target.value as RuleOperator })}
+                  >
+                    {(Object.keys(RULE_OPERATOR_LABELS) as RuleOperator[]).map(operator => (
+                      <option key={operator} value={operator}>{RULE_OPERATOR_LABELS[operator]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    className="flex-1 p-1 border border-gray-300 rounded-md text-sm font-mono"
+                    value={condition.value}
+                    onChange={(e) => updateCondition(rule, index, { value: e.target.value })}
+                    placeholder={condition.operator === 'regex' ? '^Audit( .*)?$' : condition.operator === 'wildcard' ? 'Audit*' : 'Audit'}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, { field: 'component', operator: 'equals', value: '' }] })}
+                className="flex items-center"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Condition
+              </Button>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="mt-2 text-xs text-red-600 list-disc list-inside">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ResolutionRulesTab;
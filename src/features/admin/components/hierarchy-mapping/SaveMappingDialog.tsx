@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '../../../../components/ui/shadcn/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../../../../components/ui/shadcn/dialog';
+import { AlertTriangle, Save, XCircle } from 'lucide-react';
+import { HierarchyMappingConfig, MappingVersionSource } from '../../../../lib/api/hierarchyMapping';
+import { useMappingReferenceData } from '../../../../hooks/useHierarchyMappings';
+import { diffMappings, toSnapshot } from '../../../../lib/mappingVersions';
+import { hasBlockingIssues, validateMapping } from '../../../../lib/mappingValidation';
+import MappingDiffList from './MappingDiffList';
+
+interface SaveMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The configuration as last saved, to show what the new version changes
+  savedMapping: HierarchyMappingConfig | null;
+  mapping: HierarchyMappingConfig;
+  source: MappingVersionSource;
+  isSaving: boolean;
+  onSave: (changeNote: string) => void;
+}
+
+const NO_REFERENCE_DATA = { areaPaths: [], initiativeIds: [], componentIds: [], productIds: [] };
+
+/**
+ * SaveMappingDialog component that validates a mapping configuration and asks for a change note
+ * before it is saved as a new version
+ */
+export const SaveMappingDialog: React.FC<SaveMappingDialogProps> = ({
+  open,
+  onOpenChange,
+  savedMapping,
+  mapping,
+  source,
+  isSaving,
+  onSave
+}) => {
+  const [changeNote, setChangeNote] = useState('');
+  const referenceData = useMappingReferenceData(open);
+
+  useEffect(() => {
+    if (open) {
+      setChangeNote(source === 'import' ? 'Imported configuration' : '');
+    }
+  }, [open, source]);
+
+  const issues = useMemo(
+    () => validateMapping(toSnapshot(mapping), referenceData.data || NO_REFERENCE_DATA),
+    [mapping, referenceData.data]
+  );
+  const changes = useMemo(
+    () => savedMapping ? diffMappings(toSnapshot(savedMapping), toSnapshot(mapping)) : [],
+    [savedMapping, mapping]
+  );
+  const blocked = hasBlockingIssues(issues);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Save Mapping</DialogTitle>
+          <DialogDescription>
+            Saving creates version {(savedMapping?.current_version || 0) + 1} of {mapping.name}. Earlier versions are kept and can be restored.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div>
+            <h4 className="text-sm font-medium mb-2">Validation</h4>
+            {referenceData.isLoading ? (
+              <p className="text-sm text-gray-500">Checking area paths and ProductBoard IDs...</p>
+            ) : (
+              <>
+                {referenceData.isError && (
+                  <p className="text-sm text-amber-700 mb-2">
+                    Area paths and ProductBoard IDs could not be loaded, so only the rules and mappings were checked.
+                  </p>
+                )}
+                {issues.length === 0 ? (
+                  <p className="text-sm text-green-700">No problems found.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {issues.map((issue, index) => (
+                      <li key={index} className={`flex items-start text-sm ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}>
+                        {issue.severity === 'error'
+                          ? <XCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                          : <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />}
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+
+          {savedMapping && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">Changes ({changes.length})</h4>
+              <MappingDiffList changes={changes} emptyMessage="Nothing changed since the last version" />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Change note</label>
+            <textarea
+              className="w-full p-2 border border-gray-300 rounded-md text-sm"
+              rows={3}
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="What changed and why"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant="primary"
+            onClick={() => onSave(changeNote.trim())}
+            disabled={blocked || !changeNote.trim() || referenceData.isLoading}
+            loading={isSaving}
+          >
+            {!isSaving && <Save className="h-4 w-4 mr-2" />}
+            {blocked ? 'Fix Errors to Save' : issues.length > 0 ? 'Save with Warnings' : 'Save Version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveMappingDialog;
@@ -1,20 +1,34 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '../../../../components/ui/shadcn/button';
 import { Card, CardHeader, CardTitle, CardContent } from '../../../../components/ui/shadcn/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../../../../components/ui/shadcn/dialog';
 import { ArrowLeft, RefreshCw, Search, Filter, ExternalLink } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useHierarchyMappings } from '../../../../hooks/useHierarchyMappings';
 import { supabase } from '../../../../lib/supabase';
+import { explainAreaPath } from '../../../../lib/api/hierarchyMapping';
+import { Resolution, RuleSubject } from '../../../../lib/areaPathRules';
+import {
+  MATCH_SIGNAL_LABELS,
+  MatchSignal,
+  MatchableAdoItem,
+  MatchablePbItem,
+  findMatchCandidates,
+  selectMatches
+} from '../../../../lib/pbAdoMatching';
 
 // Define the types for our data
 interface PbItem {
   id: string;
+  productboard_id?: string;
   name: string;
   level: string;
   description?: string;
   owner_email?: string;
   parent_id?: string;
   parent_name?: string;
+  component_id?: string;
+  metadata?: any;
   status?: string;
   created_at?: string;
   updated_at?: string;
@@ -52,12 +66,47 @@ interface MappingResult {
   typeMatch: boolean;
   parentMatch: boolean;
   areaMatch: boolean;
+  // How confident the matcher is, and the signals it scored
+  confidence?: number;
+  signals?: MatchSignal[];
+  
+  // How the resolution rules place the PB item
+  areaPath?: Resolution;
   
   // URLs for external links
   pbUrl?: string;
   adoUrl?: string;
 }
 
+// Matches below this confidence are shown as unmatched
+const MIN_MATCH_CONFIDENCE = 0.5;
+
+// The ProductBoard ID of a cached feature; older rows only have their own ID
+const pbIdOf = (item: PbItem): string => item.productboard_id || item.id;
+
+// What the resolution rules see of a ProductBoard feature
+const ruleSubjectFor = (item: PbItem, componentNames: Map<string, string>): RuleSubject => {
+  const metadata = item.metadata || {};
+  const componentId = item.component_id || metadata.component_id || metadata.parent?.component?.id;
+  
+  return {
+    initiative: metadata.initiative?.name || null,
+    component: (componentId && componentNames.get(componentId)) || componentId || null,
+    product: metadata.product?.name || null,
+    owner_email: item.owner_email || metadata.owner?.email || null,
+    tags: (metadata.tags || [])
+      .map((tag: any) => (typeof tag === 'string' ? tag : tag?.name))
+      .filter(Boolean)
+  };
+};
+
+const formatConfidence = (result: MappingResult): string =>
+  result.confidence !== undefined ? `${Math.round(result.confidence * 100)}%` : '';
+
+// Why the matcher paired the items, one signal per line
+const signalSummary = (result: MappingResult): string =>
+  (result.signals || []).map(signal => `${MATCH_SIGNAL_LABELS[signal.kind]}: ${signal.detail}`).join('\n');
+
 // Define the type for data view categories
 type DataCategory = 'all' | 'ado-with-pb' | 'ado-without-pb' | 'pb-without-ado';
 
@@ -79,6 +128,23 @@ export const MappingResultsPage: React.FC = () => {
   const [showMismatchesOnly, setShowMismatchesOnly] = useState<boolean>(false);
   const [searchQuery, setSearchQuery] = useState<string>('');
   
+  // Result whose area path resolution is being explained
+  const [explainedResult, setExplainedResult] = useState<MappingResult | null>(null);
+  
+  // Function to fetch the names of ProductBoard components by their ProductBoard ID
+  const fetchComponentNames = async (): Promise<Map<string, string>> => {
+    const { data, error } = await supabase
+      .from('productboard_components')
+      .select('productboard_id, name');
+    
+    if (error) {
+      console.error('Error fetching ProductBoard components:', error);
+      return new Map();
+    }
+    
+    return new Map((data || []).map(component => [component.productboard_id, component.name]));
+  };
+  
   // Function to fetch ProductBoard features
   const fetchPbFeatures = async (): Promise<PbItem[]> => {
     try {
@@ -214,40 +280,6 @@ export const MappingResultsPage: React.FC = () => {
     }
   };
   
-  // Helper function to normalize names for comparison
-  const normalizeName = (name: string): string => {
-    return name.toLowerCase().trim().replace(/\s+/g, ' ');
-  };
-  
-  // Helper function to calculate similarity between two strings (0-1)
-  const calculateSimilarity = (str1: string, str2: string): number => {
-    const s1 = normalizeName(str1);
-    const s2 = normalizeName(str2);
-    
-    // Exact match
-    if (s1 === s2) return 1;
-    
-    // One contains the other
-    if (s1.includes(s2) || s2.includes(s1)) {
-      const longerLength = Math.max(s1.length, s2.length);
-      const shorterLength = Math.min(s1.length, s2.length);
-      return shorterLength / longerLength;
-    }
-    
-    // Calculate Levenshtein distance (simplified)
-    const maxLength = Math.max(s1.length, s2.length);
-    if (maxLength === 0) return 1;
-    
-    // Count matching characters
-    let matches = 0;
-    const minLength = Math.min(s1.length, s2.length);
-    for (let i = 0; i < minLength; i++) {
-      if (s1[i] === s2[i]) matches++;
-    }
-    
-    return matches / maxLength;
-  };
-  
   // Function to generate mapping results from real data
   const generateMappingResults = async (): Promise<MappingResult[]> => {
     if (!mappings || mappings.length === 0) {
@@ -262,123 +294,61 @@ export const MappingResultsPage: React.FC = () => {
     try {
       // Fetch data from Supabase
       console.log('Fetching data from Supabase...');
-      const [pbFeatures, adoWorkItems] = await Promise.all([
+      const [pbFeatures, adoWorkItems, componentNames] = await Promise.all([
         fetchPbFeatures(),
-        fetchAdoWorkItems()
+        fetchAdoWorkItems(),
+        fetchComponentNames()
       ]);
       
       console.log(`Data fetched: ${pbFeatures.length} PB features, ${adoWorkItems.length} ADO work items`);
       
-      // Create maps for faster lookups
-      const pbMap = new Map<string, PbItem>();
-      pbFeatures.forEach(feature => pbMap.set(feature.id, feature));
-      
-      const adoMap = new Map<number, AdoItem>();
-      adoWorkItems.forEach(item => adoMap.set(item.id, item));
-      
-      // Create name-based lookup maps
-      const pbNameMap = new Map<string, PbItem[]>();
+      // How the resolution rules place each PB item
+      const areaPaths = new Map<string, Resolution>();
       pbFeatures.forEach(feature => {
-        if (!feature.name) return;
-        
-        const normalizedName = normalizeName(feature.name);
-        if (!pbNameMap.has(normalizedName)) {
-          pbNameMap.set(normalizedName, []);
-        }
-        pbNameMap.get(normalizedName)!.push(feature);
+        areaPaths.set(pbIdOf(feature), explainAreaPath(ruleSubjectFor(feature, componentNames), mapping));
       });
       
+      // Score the ADO items against the PB items and keep the best match of each
+      const pbItems: MatchablePbItem[] = pbFeatures
+        .filter(feature => !!feature.name)
+        .map(feature => ({
+          id: pbIdOf(feature),
+          name: feature.name,
+          level: feature.level || 'feature',
+          parentId: feature.parent_id || null,
+          expectedType: mapping.pb_to_ado_mappings.find(m => m.pb_level === (feature.level || 'feature'))?.ado_type || 'Feature',
+          expectedAreaPath: areaPaths.get(pbIdOf(feature))?.value || null
+        }));
+      const adoItems: MatchableAdoItem[] = adoWorkItems.map(item => ({
+        id: item.id,
+        title: item.title || '',
+        type: item.type,
+        areaPath: item.area_path || null,
+        parentId: item.parent_id ?? null,
+        linkedPbIds: item.productboard_id ? [item.productboard_id] : [],
+        url: null
+      }));
+      const matches = selectMatches(findMatchCandidates(pbItems, adoItems, new Map()), MIN_MATCH_CONFIDENCE);
+      const matchByAdoId = new Map(matches.map(match => [match.adoItem.id, match]));
+      const pbMap = new Map(pbFeatures.map(feature => [pbIdOf(feature), feature]));
+      
       // Track which PB items are matched
       const matchedPbIds = new Set<string>();
       
       const results: MappingResult[] = [];
       
-      // Process all ADO items and try to match them by name
+      // Process all ADO items with their best match, if any
       adoWorkItems.forEach(adoItem => {
-        if (!adoItem.title) {
-          // Skip items without a title
-          results.push({
-            // PB data (minimal)
-            pbId: '',
-            pbName: 'No PB Item',
-            pbType: 'none',
-            
-            // ADO data
-            adoId: adoItem.id,
-            adoName: adoItem.title || 'Unnamed Work Item',
-            adoType: adoItem.type || 'Unknown',
-            
-            // Match information
-            matchType: 'none',
-            matchSource: 'ado-without-pb',
-            typeMatch: false,
-            parentMatch: false,
-            areaMatch: false,
-            
-            // URLs
-            adoUrl: `https://dev.azure.com/inmar/Healthcare/_workitems/edit/${adoItem.id}`
-          });
-          return;
-        }
-        
-        const adoNormalizedName = normalizeName(adoItem.title);
-        
-        // Try to find an exact match first
-        let matchedPbItem: PbItem | null = null;
-        let matchSimilarity = 0;
-        let matchSource: 'ado-with-pb' | 'ado-without-pb' = 'ado-without-pb';
-        
-        // Check if we have an exact name match
-        if (pbNameMap.has(adoNormalizedName)) {
-          const candidates = pbNameMap.get(adoNormalizedName)!;
-          if (candidates.length > 0) {
-            matchedPbItem = candidates[0]; // Take the first match for now
-            matchSimilarity = 1;
-            matchSource = 'ado-with-pb';
-          }
-        }
-        
-        // If no exact match, try fuzzy matching
-        if (!matchedPbItem) {
-          let bestSimilarity = 0.7; // Threshold for considering a match
-          
-          pbFeatures.forEach(pbItem => {
-            if (!pbItem.name) return;
-            
-            const similarity = calculateSimilarity(adoItem.title, pbItem.name);
-            if (similarity > bestSimilarity) {
-              bestSimilarity = similarity;
-              matchedPbItem = pbItem;
-              matchSimilarity = similarity;
-              matchSource = 'ado-with-pb';
-            }
-          });
-        }
+        const match = matchByAdoId.get(adoItem.id);
+        const matchedPbItem = match ? pbMap.get(match.pbItem.id) : undefined;
         
-        if (matchedPbItem) {
-          // We found a match by name
-          matchedPbIds.add(matchedPbItem.id);
-          
-          // Determine expected ADO type based on PB level
-          const pbLevel = matchedPbItem.level || 'feature';
-          const pbToAdoMapping = mapping.pb_to_ado_mappings.find(m => m.pb_level === pbLevel);
-          const expectedAdoType = pbToAdoMapping?.ado_type || 'Feature';
-          
-          // Determine if types match
-          const typeMatch = adoItem.type === expectedAdoType;
-          
-          // Determine if parent hierarchy matches (simplified)
-          const parentMatch = false; // Simplified for now
-          
-          // Determine if area path matches (simplified)
-          const areaMatch = true; // Simplified for now
-          
-          // Overall match type based on similarity
-          const matchType = matchSimilarity >= 0.9 ? 'full' : 'partial';
+        if (match && matchedPbItem) {
+          matchedPbIds.add(match.pbItem.id);
+          const agrees = (kind: MatchSignal['kind']) => match.signals.some(signal => signal.kind === kind && signal.score === 1);
           
           results.push({
             // PB data
-            pbId: matchedPbItem.id,
+            pbId: match.pbItem.id,
             pbName: matchedPbItem.name || 'Unnamed Feature',
             pbType: matchedPbItem.level || 'feature',
             
@@ -388,18 +358,21 @@ export const MappingResultsPage: React.FC = () => {
             adoType: adoItem.type || 'Unknown',
             
             // Match information
-            matchType,
-            matchSource,
-            typeMatch,
-            parentMatch,
-            areaMatch,
+            matchType: match.confidence >= 0.9 ? 'full' : 'partial',
+            matchSource: 'ado-with-pb',
+            typeMatch: agrees('type'),
+            parentMatch: agrees('parent'),
+            areaMatch: agrees('area_path'),
+            confidence: match.confidence,
+            signals: match.signals,
+            areaPath: areaPaths.get(match.pbItem.id),
             
             // URLs
-            pbUrl: `https://inmar.productboard.com/entity-detail/features/${matchedPbItem.id}`,
+            pbUrl: `https://inmar.productboard.com/entity-detail/features/${match.pbItem.id}`,
             adoUrl: `https://dev.azure.com/inmar/Healthcare/_workitems/edit/${adoItem.id}`
           });
         } else {
-          // No match found by name
+          // No match found
           results.push({
             // PB data (minimal)
             pbId: '',
@@ -426,10 +399,10 @@ export const MappingResultsPage: React.FC = () => {
       
       // Process PB items without ADO matches
       pbFeatures.forEach(pbItem => {
-        if (!matchedPbIds.has(pbItem.id)) {
+        if (!matchedPbIds.has(pbIdOf(pbItem))) {
           results.push({
             // PB data
-            pbId: pbItem.id,
+            pbId: pbIdOf(pbItem),
             pbName: pbItem.name || 'Unnamed Feature',
             pbType: pbItem.level || 'feature',
             
@@ -444,9 +417,10 @@ export const MappingResultsPage: React.FC = () => {
             typeMatch: false,
             parentMatch: false,
             areaMatch: false,
+            areaPath: areaPaths.get(pbIdOf(pbItem)),
             
             // URLs
-            pbUrl: `https://inmar.productboard.com/entity-detail/features/${pbItem.id}`
+            pbUrl: `https://inmar.productboard.com/entity-detail/features/${pbIdOf(pbItem)}`
           });
         }
       });
@@ -596,6 +570,13 @@ export const MappingResultsPage: React.FC = () => {
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Hierarchy Mapping Results</CardTitle>
           <div className="flex items-center gap-2">
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => navigate('/admin/mapping-matches')}
+            >
+              Review Match Candidates
+            </Button>
             <Button 
               variant="outline" 
               size="sm" 
@@ -835,6 +816,7 @@ export const MappingResultsPage: React.FC = () => {
                       <th className="p-2 text-left border border-gray-200">ADO Name</th>
                       <th className="p-2 text-left border border-gray-200">ADO Type</th>
                       <th className="p-2 text-left border border-gray-200">Match</th>
+                      <th className="p-2 text-left border border-gray-200">Area Path</th>
                       <th className="p-2 text-left border border-gray-200">Links</th>
                     </tr>
                   </thead>
@@ -853,12 +835,12 @@ export const MappingResultsPage: React.FC = () => {
                         <td className="p-2 border border-gray-200">{result.adoType}</td>
                         <td className="p-2 border border-gray-200">
                           {result.matchType === 'full' ? (
-                            <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">
-                              Full Match
+                            <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs" title={signalSummary(result)}>
+                              Full Match {formatConfidence(result)}
                             </span>
                           ) : result.matchType === 'partial' ? (
-                            <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs">
-                              Partial Match
+                            <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs" title={signalSummary(result)}>
+                              Partial Match {formatConfidence(result)}
                             </span>
                           ) : (
                             <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs">
@@ -866,6 +848,27 @@ export const MappingResultsPage: React.FC = () => {
                             </span>
                           )}
                         </td>
+                        <td className="p-2 border border-gray-200">
+                          {result.areaPath && (
+                            <div className="flex items-center gap-2">
+                              {result.areaPath.value ? (
+                                <span className={`text-sm ${result.adoId > 0 && !result.areaMatch ? 'text-yellow-700' : ''}`}>
+                                  {result.areaPath.value}
+                                </span>
+                              ) : (
+                                <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs">
+                                  No rule matched
+                                </span>
+                              )}
+                              <button
+                                onClick={() => setExplainedResult(result)}
+                                className="text-xs text-blue-500 hover:text-blue-700"
+                              >
+                                Why?
+                              </button>
+                            </div>
+                          )}
+                        </td>
                         <td className="p-2 border border-gray-200">
                           <div className="flex space-x-2">
                             {result.pbUrl && (
@@ -905,6 +908,50 @@ export const MappingResultsPage: React.FC = () => {
           )}
         </CardContent>
       </Card>
+      
+      {/* Area path explanation */}
+      <Dialog open={!!explainedResult} onOpenChange={(open) => !open && setExplainedResult(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Area Path of {explainedResult?.pbName}</DialogTitle>
+            <DialogDescription>{explainedResult?.areaPath?.reason}</DialogDescription>
+          </DialogHeader>
+          {explainedResult?.areaPath && (
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {explainedResult.adoId > 0 && (
+                <p className="text-sm text-gray-600">
+                  ADO item {explainedResult.adoId} is in {explainedResult.areaMatch ? 'this area path' : 'a different area path'}.
+                </p>
+              )}
+              {explainedResult.areaPath.checks.map(check => (
+                <div
+                  key={check.rule.id}
+                  className={`p-3 rounded-md border ${check.matched ? 'border-green-200 bg-green-50' : 'border-gray-200'}`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium">{check.rule.name}</span>
+                    <span className="text-xs text-gray-500">Priority {check.rule.priority}</span>
+                  </div>
+                  {check.skipped ? (
+                    <p className="text-xs text-gray-500 mt-1">Skipped: {check.skipped}</p>
+                  ) : (
+                    <ul className="mt-1 space-y-0.5">
+                      {check.conditions.map((condition, index) => (
+                        <li key={index} className={`text-xs ${condition.matched ? 'text-green-700' : 'text-red-700'}`}>
+                          {condition.matched ? '✓' : '✗'} {condition.reason}
+                        </li>
+                      ))}
+                      {check.conditions.length === 0 && (
+                        <li className="text-xs text-green-700">✓ No conditions; matches every item</li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
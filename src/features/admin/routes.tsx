@@ -2,12 +2,20 @@ import React from 'react';
 import { AdminPage } from './components/AdminPage';
 import { HierarchyMappingEditor } from './components/HierarchyMappingEditor';
 import { MappingResultsPage } from './components/mapping-results/MappingResultsPage';
+import { PbAdoMatchingPage } from './components/PbAdoMatchingPage';
+import { ReconciliationDashboard } from './components/ReconciliationDashboard';
 import { SystemConfigEditor } from './components/SystemConfigEditor';
+import { SyncRulesEditor } from './components/SyncRulesEditor';
+import { SyncQueueMonitor } from './components/SyncQueueMonitor';
+import { SyncSimulationPage } from './components/SyncSimulationPage';
+import { UserRolesEditor } from './components/UserRolesEditor';
+import { WorkspacesEditor } from './components/WorkspacesEditor';
+import { AppRoute } from '../../types/auth';
 
 // This file defines the routes for the admin feature module
 
-// Define routes for the admin feature
-export const adminRoutes = [
+// Define routes for the admin feature; sensitive pages are limited to the listed roles
+export const adminRoutes: AppRoute[] = [
   {
     path: '/admin',
     element: <AdminPage />,
@@ -15,13 +23,51 @@ export const adminRoutes = [
   {
     path: '/admin/hierarchy-mapping',
     element: <HierarchyMappingEditor />,
+    roles: ['admin'],
   },
   {
     path: '/admin/mapping-results',
     element: <MappingResultsPage />,
+    roles: ['admin', 'product_manager'],
+  },
+  {
+    path: '/admin/mapping-matches',
+    element: <PbAdoMatchingPage />,
+    roles: ['admin', 'product_manager'],
+  },
+  {
+    path: '/admin/reconciliation',
+    element: <ReconciliationDashboard />,
+    roles: ['admin', 'product_manager'],
   },
   {
     path: '/admin/system-config',
     element: <SystemConfigEditor />,
+    roles: ['admin'],
+  },
+  {
+    path: '/admin/sync-rules',
+    element: <SyncRulesEditor />,
+    roles: ['admin'],
+  },
+  {
+    path: '/admin/sync-queue',
+    element: <SyncQueueMonitor />,
+    roles: ['admin', 'engineer'],
+  },
+  {
+    path: '/admin/sync-simulation',
+    element: <SyncSimulationPage />,
+    roles: ['admin', 'product_manager'],
+  },
+  {
+    path: '/admin/users',
+    element: <UserRolesEditor />,
+    roles: ['admin'],
+  },
+  {
+    path: '/admin/workspaces',
+    element: <WorkspacesEditor />,
+    roles: ['admin'],
   }
 ];
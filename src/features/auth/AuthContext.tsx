@@ -1,72 +1,112 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { getUserProfile } from '../../lib/api/userProfiles';
+import { UserRole } from '../../types/auth';
 
 interface User {
   id: string;
   name: string;
   email: string;
-  role: 'admin' | 'user';
-}
-
-interface Workspace {
-  id: string;
-  name: string;
-  isDefault: boolean;
+  role: UserRole;
 }
 
 interface AuthContextType {
   isAuthenticated: boolean;
+  isLoading: boolean;
   user: User | null;
-  workspaces: Workspace[];
-  currentWorkspace: Workspace | null;
   login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
-  setCurrentWorkspace: (workspace: Workspace) => void;
+  loginWithSSO: (domain: string) => Promise<void>;
+  logout: () => Promise<void>;
+  hasRole: (...roles: UserRole[]) => boolean;
 }
 
 // Create context with default values
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Sample mock data
-const MOCK_USER: User = {
-  id: 'user-1',
-  name: 'Demo User',
-  email: 'demo@example.com',
-  role: 'admin',
-};
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
 
-const MOCK_WORKSPACES: Workspace[] = [
-  { id: 'ws-1', name: 'Main Workspace', isDefault: true },
-  { id: 'ws-2', name: 'Development Team', isDefault: false },
-  { id: 'ws-3', name: 'Product Design', isDefault: false },
-];
+  // Resolve the application user (and role) of a Supabase session
+  const loadUser = useCallback(async (nextSession: Session | null) => {
+    setSession(nextSession);
 
-export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(true); // Set to true for demo
-  const [user, setUser] = useState<User | null>(MOCK_USER); // Set mock user
-  const [workspaces, setWorkspaces] = useState<Workspace[]>(MOCK_WORKSPACES);
-  const [currentWorkspace, setCurrentWorkspace] = useState<Workspace | null>(MOCK_WORKSPACES[0]);
+    if (!nextSession) {
+      setUser(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const authUser = nextSession.user;
+    let role: UserRole = 'viewer';
+    let name = authUser.user_metadata?.full_name || authUser.user_metadata?.name || authUser.email || '';
 
-  // Mock login function
+    try {
+      const profile = await getUserProfile(authUser.id);
+      if (profile) {
+        role = profile.role;
+        name = profile.full_name || name;
+      }
+    } catch (error) {
+      // Fall back to the least privileged role; RLS enforces it server side anyway
+      console.error('Failed to load user profile:', error);
+    }
+
+    setUser({ id: authUser.id, name, email: authUser.email || '', role });
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => loadUser(data.session));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      loadUser(nextSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadUser]);
+
+  // Email and password sign-in
   const login = async (email: string, password: string) => {
-    // In a real app, this would call an API
-    setUser(MOCK_USER);
-    setIsAuthenticated(true);
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      throw new Error(error.message);
+    }
+  };
+
+  // SAML SSO sign-in; redirects to the identity provider of the email domain
+  const loginWithSSO = async (domain: string) => {
+    const { data, error } = await supabase.auth.signInWithSSO({
+      domain,
+      options: { redirectTo: window.location.origin },
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (data?.url) {
+      window.location.href = data.url;
+    }
   };
 
-  // Mock logout function
-  const logout = () => {
-    setUser(null);
-    setIsAuthenticated(false);
+  const logout = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Error signing out:', error);
+    }
   };
 
+  const hasRole = (...roles: UserRole[]) => !!user && roles.includes(user.role);
+
   const authContextValue: AuthContextType = {
-    isAuthenticated,
+    isAuthenticated: !!session,
+    isLoading,
     user,
-    workspaces,
-    currentWorkspace,
     login,
+    loginWithSSO,
     logout,
-    setCurrentWorkspace,
+    hasRole,
   };
 
   return (
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '../AuthContext';
+import { UserRole } from '../../../types/auth';
+
+/**
+ * RequireAuth renders its children only for signed-in users and sends
+ * everyone else to the login page, remembering where they were going.
+ */
+export const RequireAuth: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+};
+
+/**
+ * RequireRole renders its children only when the user has one of the given roles.
+ */
+export const RequireRole: React.FC<{ roles?: UserRole[]; children: React.ReactNode }> = ({ roles, children }) => {
+  const { hasRole } = useAuth();
+
+  if (roles && roles.length > 0 && !hasRole(...roles)) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh] text-center">
+        <ShieldAlert className="h-10 w-10 text-gray-400 mb-4" />
+        <h1 className="text-xl font-semibold mb-2">Access restricted</h1>
+        <p className="text-gray-500">You don't have permission to view this page.</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
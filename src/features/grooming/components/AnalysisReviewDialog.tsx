@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { useToast } from '../../../contexts/ToastContext';
+import { useSessionStories } from '../../../hooks/useSessionStories';
+import { useApplyTranscriptAnalysis } from '../../../hooks/useGroomingSessions';
+import {
+  actionItemKey,
+  allProposalKeys,
+  buildAnalysisUpdates,
+  proposalItemKey,
+  proposeSessionUpdates,
+  StoryProposalField
+} from '../../../lib/analysisReconciliation';
+import { GroomingSession, TranscriptAnalysisRecord } from '../../../types/grooming';
+
+interface AnalysisReviewDialogProps {
+  session: GroomingSession;
+  analysis: TranscriptAnalysisRecord;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied?: () => void;
+}
+
+const FIELD_LABELS: Record<StoryProposalField, string> = {
+  decisions: 'Decisions',
+  questions: 'Open questions',
+  notes: 'Discussion notes',
+};
+
+const ItemCheckbox: React.FC<{
+  checked: boolean;
+  disabled: boolean;
+  onChange: (checked: boolean) => void;
+  children: React.ReactNode;
+}> = ({ checked, disabled, onChange, children }) => (
+  <label className="flex items-start space-x-3 text-sm py-1">
+    <input
+      type="checkbox"
+      className="mt-0.5"
+      checked={checked}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.checked)}
+    />
+    <span>{children}</span>
+  </label>
+);
+
+/**
+ * Review of what a transcript analysis adds to the session: decisions, open questions and notes
+ * per story, and action items for the session. Accepted items are written to the stories and
+ * the session, which keep a link to the analysis.
+ */
+export const AnalysisReviewDialog: React.FC<AnalysisReviewDialogProps> = ({
+  session,
+  analysis,
+  open,
+  onOpenChange,
+  onApplied
+}) => {
+  const { addToast } = useToast();
+  const { data: sessionStories, isLoading } = useSessionStories(session.id);
+  const applyAnalysis = useApplyTranscriptAnalysis();
+  const currentActionItems = useMemo(() => session.action_items || [], [session.action_items]);
+
+  const proposal = useMemo(
+    () => proposeSessionUpdates(analysis, sessionStories || [], currentActionItems),
+    [analysis, sessionStories, currentActionItems]
+  );
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Everything is proposed selected; the user unticks what is wrong
+  useEffect(() => {
+    setSelected(new Set(allProposalKeys(proposal)));
+  }, [proposal]);
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const isEmpty = proposal.stories.length === 0 && proposal.actionItems.length === 0;
+
+  const handleApply = async () => {
+    try {
+      const updates = buildAnalysisUpdates(proposal, session.id, currentActionItems, selected);
+      await applyAnalysis.mutateAsync(updates);
+      addToast({
+        title: 'Analysis applied',
+        message: `Updated ${updates.stories.length} ${updates.stories.length === 1 ? 'story' : 'stories'}` +
+          (updates.action_items ? ' and the session action items' : ''),
+        type: 'success',
+      });
+      onApplied?.();
+      onOpenChange(false);
+    } catch (error) {
+      addToast({
+        title: 'Error applying analysis',
+        message: error instanceof Error ? error.message : 'The results could not be saved',
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review AI Results</DialogTitle>
+          <DialogDescription>
+            The transcript analysis found the items below. Untick anything that should not be added to the session.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : isEmpty ? (
+          <p className="text-sm text-gray-500 py-4">
+            The analysis has nothing the session stories and action items do not already have.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {proposal.stories.map(story => {
+              const id = story.sessionStory.id;
+              return (
+                <div key={id} className="border rounded-md p-4">
+                  <h4 className="font-medium text-gray-900">{story.title}</h4>
+                  {story.markDiscussed && (
+                    <ItemCheckbox
+                      checked={selected.has(proposalItemKey(id, 'status'))}
+                      disabled={applyAnalysis.isPending}
+                      onChange={(checked) => toggle(proposalItemKey(id, 'status'), checked)}
+                    >
+                      Mark as <Badge variant="secondary">discussed</Badge>
+                    </ItemCheckbox>
+                  )}
+                  {(Object.keys(FIELD_LABELS) as StoryProposalField[])
+                    .filter(field => story[field].length > 0)
+                    .map(field => (
+                      <div key={field} className="mt-3">
+                        <p className="text-xs font-medium uppercase text-gray-500">{FIELD_LABELS[field]}</p>
+                        {story[field].map((text, index) => (
+                          <ItemCheckbox
+                            key={index}
+                            checked={selected.has(proposalItemKey(id, field, index))}
+                            disabled={applyAnalysis.isPending}
+                            onChange={(checked) => toggle(proposalItemKey(id, field, index), checked)}
+                          >
+                            {text}
+                          </ItemCheckbox>
+                        ))}
+                      </div>
+                    ))}
+                </div>
+              );
+            })}
+
+            {proposal.actionItems.length > 0 && (
+              <div className="border rounded-md p-4">
+                <h4 className="font-medium text-gray-900">Session action items</h4>
+                {proposal.actionItems.map((item, index) => (
+                  <ItemCheckbox
+                    key={index}
+                    checked={selected.has(actionItemKey(index))}
+                    disabled={applyAnalysis.isPending}
+                    onChange={(checked) => toggle(actionItemKey(index), checked)}
+                  >
+                    {item.description}
+                    {item.assignee && <span className="text-gray-500"> ({item.assignee})</span>}
+                  </ItemCheckbox>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {proposal.unlinkedCount > 0 && (
+          <p className="text-xs text-gray-500">
+            {proposal.unlinkedCount} {proposal.unlinkedCount === 1 ? 'item is' : 'items are'} not about a story on this
+            session and {proposal.unlinkedCount === 1 ? 'stays' : 'stay'} in the analysis only.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applyAnalysis.isPending}>
+            Not Now
+          </Button>
+          <Button onClick={handleApply} loading={applyAnalysis.isPending} disabled={isLoading}>
+            {isEmpty ? 'Mark as Reviewed' : `Apply ${selected.size} ${selected.size === 1 ? 'Item' : 'Items'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, StopIcon, SignalIcon } from '@heroicons/react/24/outline';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/shadcn/select';
+import { useAuth } from '../../auth/AuthContext';
+import { useToast } from '../../../contexts/ToastContext';
+import { useSessionStories } from '../../../hooks/useSessionStories';
+import { useLiveSession, useSetCurrentSessionStory } from '../../../hooks/useLiveSession';
+import { formatTranscriptTime } from '../../../lib/transcriptParser';
+import { GroomingSession, GroomingStory, LiveParticipant, SessionStory } from '../../../types/grooming';
+
+interface LiveSessionPanelProps {
+  session: GroomingSession;
+}
+
+// Seconds since a moment, updated every second
+function useSecondsSince(since: string | null | undefined): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!since) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [since]);
+
+  return since ? Math.max(0, Math.floor((now - new Date(since).getTime()) / 1000)) : 0;
+}
+
+const ParticipantAvatar: React.FC<{ participant: LiveParticipant; isFacilitator: boolean }> = ({ participant, isFacilitator }) => {
+  const initials = participant.name
+    .split(/\s+/)
+    .map(part => part.charAt(0))
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+
+  return (
+    <div
+      title={isFacilitator ? `${participant.name} (facilitator)` : participant.name}
+      className={`h-8 w-8 rounded-full flex items-center justify-center text-xs font-medium ${
+        isFacilitator ? 'bg-indigo-600 text-white ring-2 ring-indigo-200' : 'bg-gray-200 text-gray-700'
+      }`}
+    >
+      {initials || '?'}
+    </div>
+  );
+};
+
+/**
+ * Live mode of a grooming session: who has the session open, the story under discussion and its
+ * discussion timer. Only the facilitator moves between stories; everyone else follows along.
+ */
+export const LiveSessionPanel: React.FC<LiveSessionPanelProps> = ({ session }) => {
+  const { user, hasRole } = useAuth();
+  const { addToast } = useToast();
+  const { participants, isConnected } = useLiveSession(session.id);
+  const { data: sessionStories = [] } = useSessionStories(session.id);
+  const setCurrentStory = useSetCurrentSessionStory();
+
+  const canLead = !!user && (user.id === session.facilitator_id || hasRole('admin'));
+  const facilitator = participants.find(participant => participant.user_id === session.facilitator_id);
+
+  // Same order as the story list
+  const stories = [...sessionStories].sort((a, b) => (a.created_at > b.created_at ? 1 : -1)) as (SessionStory & { story?: GroomingStory })[];
+  const currentIndex = stories.findIndex(story => story.id === session.current_story_id);
+  const current = currentIndex >= 0 ? stories[currentIndex] : null;
+
+  const elapsed = useSecondsSince(current ? session.current_story_started_at : null);
+  const discussedSeconds = (current?.discussion_seconds || 0) + elapsed;
+
+  const moveTo = async (sessionStoryId: string | null) => {
+    try {
+      await setCurrentStory.mutateAsync({ sessionId: session.id, sessionStoryId });
+    } catch (error) {
+      addToast({
+        title: 'Error changing story',
+        message: error instanceof Error ? error.message : 'The story under discussion could not be changed',
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <SignalIcon className={`h-5 w-5 mr-2 ${isConnected ? 'text-green-600' : 'text-gray-400'}`} />
+              Live Session
+            </CardTitle>
+            <CardDescription>
+              {isConnected
+                ? `${participants.length} ${participants.length === 1 ? 'person' : 'people'} in the session`
+                : 'Connecting...'}
+            </CardDescription>
+          </div>
+          <div className="flex -space-x-2">
+            {participants.map(participant => (
+              <ParticipantAvatar
+                key={participant.user_id}
+                participant={participant}
+                isFacilitator={participant.user_id === session.facilitator_id}
+              />
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between bg-gray-50 rounded-md p-4">
+          <div>
+            <p className="text-sm font-medium text-gray-500">Currently discussing</p>
+            <p className="mt-1 text-lg font-semibold text-gray-900">
+              {current ? current.story?.title || 'Untitled story' : 'No story selected'}
+            </p>
+            {current && (
+              <p className="text-xs text-gray-500">Story {currentIndex + 1} of {stories.length}</p>
+            )}
+          </div>
+          {current && (
+            <div className="text-right">
+              <p className="text-2xl font-mono text-gray-900">{formatTranscriptTime(discussedSeconds)}</p>
+              <Badge variant="secondary">{current.status}</Badge>
+            </div>
+          )}
+        </div>
+
+        {canLead ? (
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => moveTo(stories[currentIndex - 1].id)}
+              disabled={currentIndex <= 0 || setCurrentStory.isPending}
+            >
+              <ChevronLeftIcon className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Select
+              value={current?.id}
+              onValueChange={moveTo}
+              disabled={stories.length === 0 || setCurrentStory.isPending}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Pick the story to discuss" />
+              </SelectTrigger>
+              <SelectContent>
+                {stories.map((story, index) => (
+                  <SelectItem key={story.id} value={story.id}>
+                    {index + 1}. {story.story?.title || 'Untitled story'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={() => moveTo(stories[currentIndex + 1].id)}
+              disabled={currentIndex >= stories.length - 1 || setCurrentStory.isPending}
+            >
+              {current ? 'Next' : 'Start'}
+              <ChevronRightIcon className="h-4 w-4 ml-1" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => moveTo(null)}
+              disabled={!current || setCurrentStory.isPending}
+              title="Stop the discussion timer"
+            >
+              <StopIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            {facilitator
+              ? `${facilitator.name} leads the session and picks the story under discussion.`
+              : 'The facilitator picks the story under discussion.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,15 +1,18 @@
 import React, { useState } from 'react';
-import { ArrowLeftIcon, UserGroupIcon, DocumentTextIcon, ClockIcon, ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, UserGroupIcon, DocumentTextIcon, ClockIcon, ClipboardDocumentListIcon, SparklesIcon, SignalIcon } from '@heroicons/react/24/outline';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
 import { Button } from '../../../components/ui/shadcn/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../components/ui/shadcn/tabs';
+import { Badge } from '../../../components/ui/shadcn/badge';
 import { format } from 'date-fns';
-import { useGroomingSession } from '../../../hooks/useGroomingSessions';
+import { useGroomingSession, useLatestTranscriptAnalysis } from '../../../hooks/useGroomingSessions';
 import { SessionStatusToggle } from '../../../../grooming/SessionStatusToggle';
 import { SessionParticipantList } from '../../../../grooming/SessionParticipantList';
 import { TranscriptUploadModal } from '../../../../grooming/TranscriptUploadModal';
 import { SessionActionItems } from '../../../../grooming/SessionActionItems';
 import { StoriesTab } from './StoriesTab';
+import { AnalysisReviewDialog } from './AnalysisReviewDialog';
+import { LiveSessionPanel } from './LiveSessionPanel';
 
 interface SessionDetailViewProps {
   sessionId: string;
@@ -23,6 +26,8 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
   onSessionUpdated
 }) => {
   const [isTranscriptModalOpen, setIsTranscriptModalOpen] = useState(false);
+  const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
+  const [isLive, setIsLive] = useState(false);
   
   // Fetch session data
   const { 
@@ -32,6 +37,9 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
     refetch: refetchSession
   } = useGroomingSession(sessionId);
   
+  // Latest transcript analysis, offered for review until its results are applied
+  const { data: latestAnalysis, refetch: refetchAnalysis } = useLatestTranscriptAnalysis(sessionId);
+  
   // Handle status change
   const handleStatusChange = async (newStatus: 'planned' | 'in_progress' | 'completed') => {
     try {
@@ -91,8 +99,17 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
     }
   };
   
-  // Handle transcript upload
-  const handleTranscriptUploaded = () => {
+  // Handle transcript upload: review the results of the new analysis right away
+  const handleTranscriptUploaded = async () => {
+    refetchSession();
+    onSessionUpdated();
+    const { data: analysis } = await refetchAnalysis();
+    if (analysis && !analysis.applied_at) {
+      setIsReviewDialogOpen(true);
+    }
+  };
+  
+  const handleAnalysisApplied = () => {
     refetchSession();
     onSessionUpdated();
   };
@@ -135,8 +152,19 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
           Back
         </Button>
         <h1 className="text-2xl font-semibold">{session.name}</h1>
+        <Button
+          variant={isLive ? 'outline' : 'primary'}
+          onClick={() => setIsLive(!isLive)}
+          disabled={!isLive && session.status === 'completed'}
+          className="ml-auto flex items-center"
+        >
+          <SignalIcon className="h-5 w-5 mr-2" />
+          {isLive ? 'Leave Live Mode' : 'Go Live'}
+        </Button>
       </div>
       
+      {isLive && <LiveSessionPanel session={session} />}
+      
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="md:col-span-2">
           <Card>
@@ -164,7 +192,7 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
                 </div>
               </div>
               
-              <div className="pt-4">
+              <div className="pt-4 flex items-center space-x-3">
                 <Button 
                   onClick={() => setIsTranscriptModalOpen(true)}
                   className="flex items-center"
@@ -172,6 +200,16 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
                   <DocumentTextIcon className="h-5 w-5 mr-2" />
                   {session.transcript ? 'Update Transcript' : 'Upload Transcript'}
                 </Button>
+                {latestAnalysis && !latestAnalysis.applied_at && (
+                  <Button 
+                    variant="outline"
+                    onClick={() => setIsReviewDialogOpen(true)}
+                    className="flex items-center"
+                  >
+                    <SparklesIcon className="h-5 w-5 mr-2" />
+                    Review AI Results
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -217,11 +255,11 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
             sessionId={sessionId} 
             sessionStatus={session.status} 
             onSessionUpdated={onSessionUpdated}
+            currentStoryId={isLive ? session.current_story_id : null}
           />
         </TabsContent>
         
         <TabsContent value="action-items" className="mt-6">
-          {/* Mock action items for now - in a real implementation, we would fetch action items */}
           <div className="bg-white shadow rounded-lg p-4">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-medium text-gray-900">Action Items</h3>
@@ -233,11 +271,30 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
                 Add Action Item
               </Button>
             </div>
-            <div className="text-center py-6 text-gray-500">
-              <ClipboardDocumentListIcon className="mx-auto h-12 w-12 text-gray-400" />
-              <p className="mt-2 text-sm">No action items yet</p>
-              <p className="text-xs">Add action items to track follow-up tasks</p>
-            </div>
+            {session.action_items && session.action_items.length > 0 ? (
+              <ul className="divide-y divide-gray-200">
+                {session.action_items.map((item, index) => (
+                  <li key={index} className="py-3 flex items-start justify-between">
+                    <div>
+                      <p className={`text-sm ${item.status === 'completed' ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                        {item.description}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {item.assignee || 'Unassigned'}
+                        {item.due_date && ` · due ${item.due_date}`}
+                      </p>
+                    </div>
+                    {item.source_analysis_id && <Badge variant="secondary">From transcript</Badge>}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center py-6 text-gray-500">
+                <ClipboardDocumentListIcon className="mx-auto h-12 w-12 text-gray-400" />
+                <p className="mt-2 text-sm">No action items yet</p>
+                <p className="text-xs">Add action items to track follow-up tasks</p>
+              </div>
+            )}
           </div>
         </TabsContent>
       </Tabs>
@@ -250,6 +307,17 @@ export const SessionDetailView: React.FC<SessionDetailViewProps> = ({
           onUploaded={handleTranscriptUploaded}
         />
       )}
+      
+      {/* Review of the transcript analysis results */}
+      {latestAnalysis && (
+        <AnalysisReviewDialog
+          session={session}
+          analysis={latestAnalysis}
+          open={isReviewDialogOpen}
+          onOpenChange={setIsReviewDialogOpen}
+          onApplied={handleAnalysisApplied}
+        />
+      )}
     </div>
   );
 };
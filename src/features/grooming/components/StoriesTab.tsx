@@ -19,12 +19,15 @@ interface StoriesTabProps {
   sessionId: string;
   sessionStatus: 'planned' | 'in_progress' | 'completed';
   onSessionUpdated: () => void;
+  // Story under discussion in live mode
+  currentStoryId?: string | null;
 }
 
 export const StoriesTab: React.FC<StoriesTabProps> = ({
   sessionId,
   sessionStatus,
-  onSessionUpdated
+  onSessionUpdated,
+  currentStoryId
 }) => {
   // State for modals
   const [isAddStoryModalOpen, setIsAddStoryModalOpen] = useState(false);
@@ -159,6 +162,23 @@ export const StoriesTab: React.FC<StoriesTabProps> = ({
     }
   };
   
+  // Handle updating the ratings
+  const handleUpdateRating = async (field: 'risk_rating' | 'complexity_rating', rating: number) => {
+    if (!selectedStory) return Promise.reject('No story selected');
+    
+    try {
+      await updateStoryMutation.mutateAsync({
+        id: selectedStory.id,
+        [field]: rating
+      });
+      return Promise.resolve();
+    } catch (error) {
+      console.error('Error updating rating:', error);
+      toast.error('Failed to update rating');
+      return Promise.reject(error);
+    }
+  };
+  
   // Handle story detail close
   const handleStoryDetailClose = () => {
     setSelectedStory(null);
@@ -229,6 +249,7 @@ export const StoriesTab: React.FC<StoriesTabProps> = ({
         onStoryClick={handleStoryClick}
         onSplitStory={handleSplitStory}
         sessionStatus={sessionStatus}
+        currentStoryId={currentStoryId}
       />
       
       {/* Add Story Modal */}
@@ -243,7 +264,8 @@ export const StoriesTab: React.FC<StoriesTabProps> = ({
       {/* Story Detail Modal */}
       {selectedStory && (
         <GroomingStoryDetail
-          sessionStory={selectedStory}
+          // Follow the latest version, so changes by other participants show up while the story is open
+          sessionStory={sessionStories.find(story => story.id === selectedStory.id) || selectedStory}
           onClose={handleStoryDetailClose}
           onUpdateStatus={async () => Promise.resolve()} // Mock implementation
           onAddDiscussionPoint={async () => Promise.resolve()} // Mock implementation
@@ -253,8 +275,8 @@ export const StoriesTab: React.FC<StoriesTabProps> = ({
           onAddQuestion={async () => Promise.resolve()} // Mock implementation
           onUpdateQuestions={handleUpdateQuestions}
           onUpdateTechnicalNotes={async () => Promise.resolve()} // Mock implementation
-          onUpdateRiskRating={async () => Promise.resolve()} // Mock implementation
-          onUpdateComplexityRating={async () => Promise.resolve()} // Mock implementation
+          onUpdateRiskRating={(rating) => handleUpdateRating('risk_rating', rating)}
+          onUpdateComplexityRating={(rating) => handleUpdateRating('complexity_rating', rating)}
           sessionStatus={sessionStatus}
           onStorySplit={() => {}} // Mock implementation
         />
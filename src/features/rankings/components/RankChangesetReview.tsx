@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { ArrowDown, ArrowLeft, ArrowUp, Check, Minus, Undo2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useWorkspace } from '../../../contexts/WorkspaceContext';
+import { useToast } from '../../../contexts/ToastContext';
+import {
+  useRankChangesets,
+  useRankChangesetItems,
+  useSetRankChangeApproval,
+  useRejectRankChangeset,
+  useRunRankChangeset
+} from '../../../hooks/useRankChangesets';
+import { RankChangeset, RankChangesetItem, RankChangesetStatus } from '../../../types/rankings';
+
+// Helper to get badge variant based on status
+const getStatusVariant = (status: RankChangesetStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'pending': return 'default';
+    case 'applied': return 'secondary';
+    case 'failed': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+const shortField = (field: string) => field.split('.').pop();
+
+const Movement: React.FC<{ item: RankChangesetItem }> = ({ item }) => {
+  const change = item.current_position - item.proposed_position;
+  if (change > 0) {
+    return <span className="inline-flex items-center text-green-600 text-sm"><ArrowUp className="h-4 w-4 mr-1" />{change}</span>;
+  }
+  if (change < 0) {
+    return <span className="inline-flex items-center text-red-600 text-sm"><ArrowDown className="h-4 w-4 mr-1" />{Math.abs(change)}</span>;
+  }
+  return <Minus className="h-4 w-4 text-gray-400" />;
+};
+
+/**
+ * RankChangesetReview lists the ADO backlog order changes proposed by ranking syncs
+ * and lets a reviewer approve (per item), apply, reject or roll them back.
+ */
+export const RankChangesetReview: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const { addToast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | undefined>();
+
+  const { data: changesets = [], isLoading } = useRankChangesets(currentWorkspace?.id);
+  const { data: items = [], isLoading: itemsLoading } = useRankChangesetItems(selectedId);
+  const setApproval = useSetRankChangeApproval();
+  const rejectChangeset = useRejectRankChangeset();
+  const runChangeset = useRunRankChangeset();
+
+  // Open the newest pending changeset by default
+  useEffect(() => {
+    if (!selectedId && changesets.length > 0) {
+      setSelectedId((changesets.find(changeset => changeset.status === 'pending') || changesets[0]).id);
+    }
+  }, [changesets, selectedId]);
+
+  const selected = changesets.find(changeset => changeset.id === selectedId);
+  const isEditable = selected?.status === 'pending';
+
+  const backlogs = useMemo(() => {
+    const groups = new Map<string, RankChangesetItem[]>();
+    items.forEach(item => {
+      groups.set(item.team_backlog, [...(groups.get(item.team_backlog) || []), item]);
+    });
+    return Array.from(groups.entries());
+  }, [items]);
+
+  const approvedCount = items.filter(item => item.approved && item.status === 'pending').length;
+
+  const handleRun = async (changeset: RankChangeset, action: 'apply' | 'rollback') => {
+    try {
+      const result = await runChangeset.mutateAsync({ id: changeset.id, action });
+      addToast({
+        title: result.success ? 'Success' : 'Warning',
+        message: action === 'apply'
+          ? `Applied ${result.applied ?? 0} rank changes${result.failed ? `, ${result.failed} failed` : ''}`
+          : `Rolled back ${result.rolledBack ?? 0} rank changes${result.failed ? `, ${result.failed} failed` : ''}`,
+        type: result.success ? 'success' : 'warning',
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        type: 'error',
+      });
+    }
+  };
+
+  const handleReject = async (changeset: RankChangeset) => {
+    try {
+      await rejectChangeset.mutateAsync(changeset.id);
+      addToast({ title: 'Success', message: 'Changeset rejected', type: 'success' });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        type: 'error',
+      });
+    }
+  };
+
+  const handleToggle = (item: RankChangesetItem) => {
+    setApproval.mutate(
+      { id: item.id, approved: !item.approved },
+      {
+        onError: (error) => addToast({
+          title: 'Error',
+          message: error instanceof Error ? error.message : String(error),
+          type: 'error',
+        }),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <Link to="/rankings">
+            <Button variant="ghost" size="sm"><ArrowLeft className="h-4 w-4" /></Button>
+          </Link>
+          <h1 className="text-2xl font-semibold">ADO Rank Changes</h1>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>Changesets</CardTitle>
+            <CardDescription>Proposed by ranking syncs with ADO sync enabled.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <div className="h-24 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : changesets.length === 0 ? (
+              <p className="text-sm text-gray-500">No rank changes have been proposed yet.</p>
+            ) : (
+              changesets.map(changeset => (
+                <button
+                  key={changeset.id}
+                  onClick={() => setSelectedId(changeset.id)}
+                  className={`w-full text-left p-3 border rounded-md hover:bg-gray-50 ${changeset.id === selectedId ? 'border-primary bg-gray-50' : ''}`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium">{format(new Date(changeset.created_at), 'PP p')}</span>
+                    <Badge variant={getStatusVariant(changeset.status)}>{changeset.status.replace('_', ' ')}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {changeset.change_count} of {changeset.item_count} work items move
+                  </p>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-3 space-y-6">
+          {selected && (
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle>Board {selected.board_id}</CardTitle>
+                    <CardDescription>
+                      {isEditable
+                        ? `${approvedCount} of ${selected.change_count} changes approved. Untick a change to leave that work item where it is.`
+                        : selected.error_message || `This changeset is ${selected.status.replace('_', ' ')}.`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex space-x-2">
+                    {isEditable && (
+                      <>
+                        <Button variant="outline" onClick={() => handleReject(selected)} loading={rejectChangeset.isPending}>
+                          <X className="h-4 w-4 mr-2" />
+                          Reject
+                        </Button>
+                        <Button onClick={() => handleRun(selected, 'apply')} disabled={approvedCount === 0} loading={runChangeset.isPending}>
+                          <Check className="h-4 w-4 mr-2" />
+                          Apply {approvedCount} Changes
+                        </Button>
+                      </>
+                    )}
+                    {(selected.status === 'partially_applied' || selected.status === 'failed') && (
+                      <Button variant="outline" onClick={() => handleRun(selected, 'apply')} loading={runChangeset.isPending}>
+                        Retry Failed
+                      </Button>
+                    )}
+                    {(selected.status === 'applied' || selected.status === 'partially_applied') && (
+                      <Button variant="destructive" onClick={() => handleRun(selected, 'rollback')} loading={runChangeset.isPending}>
+                        <Undo2 className="h-4 w-4 mr-2" />
+                        Roll Back
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          )}
+
+          {itemsLoading ? (
+            <div className="h-48 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            backlogs.map(([teamBacklog, backlogItems]) => (
+              <Card key={teamBacklog}>
+                <CardHeader>
+                  <CardTitle className="text-base">{teamBacklog}</CardTitle>
+                  <CardDescription>
+                    {backlogItems.filter(item => item.status !== 'unchanged').length} of {backlogItems.length} mapped work items change position
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[60px]">Apply</TableHead>
+                          <TableHead className="w-[90px]">Current</TableHead>
+                          <TableHead className="w-[90px]">Proposed</TableHead>
+                          <TableHead className="w-[80px]">Move</TableHead>
+                          <TableHead>Work Item</TableHead>
+                          <TableHead>ProductBoard Feature</TableHead>
+                          <TableHead>Rank Value</TableHead>
+                          <TableHead>Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {backlogItems.map(item => (
+                          <TableRow key={item.id} className={item.status === 'unchanged' ? 'text-gray-400' : ''}>
+                            <TableCell>
+                              {item.status !== 'unchanged' && (
+                                <input
+                                  type="checkbox"
+                                  checked={item.approved}
+                                  disabled={!isEditable}
+                                  onChange={() => handleToggle(item)}
+                                />
+                              )}
+                            </TableCell>
+                            <TableCell className="font-mono">#{item.current_position}</TableCell>
+                            <TableCell className="font-mono font-semibold">#{item.proposed_position}</TableCell>
+                            <TableCell><Movement item={item} /></TableCell>
+                            <TableCell>
+                              <span className="font-mono text-xs text-gray-500 mr-2">{item.ado_work_item_id}</span>
+                              {item.ado_title}
+                            </TableCell>
+                            <TableCell>
+                              <span className="font-mono text-xs text-gray-500 mr-2">PB #{item.pb_rank}</span>
+                              {item.story_name || item.productboard_id}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs whitespace-nowrap" title={item.rank_field}>
+                              {shortField(item.rank_field)}: {item.current_value ?? '-'} → {item.proposed_value}
+                            </TableCell>
+                            <TableCell title={item.error_message || ''}>
+                              <Badge variant={item.status === 'failed' ? 'destructive' : 'outline'}>{item.status.replace('_', ' ')}</Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RankChangesetReview;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+
+interface RankSparklineProps {
+  points: { captured_at: string; rank: number }[];
+}
+
+/**
+ * RankSparkline draws an item's rank over the stored snapshots.
+ * The axis is reversed so that moving up the board draws the line upwards.
+ */
+export const RankSparkline: React.FC<RankSparklineProps> = ({ points }) => {
+  if (points.length < 2) {
+    return <span className="text-xs text-gray-400">-</span>;
+  }
+
+  return (
+    <div className="h-8 w-28">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points}>
+          <YAxis dataKey="rank" reversed hide domain={['dataMin', 'dataMax']} />
+          <Line
+            type="monotone"
+            dataKey="rank"
+            stroke="#2563eb"
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default RankSparkline;
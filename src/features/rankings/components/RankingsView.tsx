@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Input } from '../../../components/ui/shadcn/input';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/shadcn/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { ArrowDown, ArrowUp, ImageUp, ListOrdered, Minus, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useWorkspace } from '../../../contexts/WorkspaceContext';
+import {
+  useTrackedBoards,
+  useCurrentRankings,
+  useRankingSnapshots,
+  useSnapshotEntries,
+  useRankHistory
+} from '../../../hooks/useRankings';
+import { diffSnapshots } from '../../../lib/api/rankings';
+import { RankDiff, RankingSnapshot } from '../../../types/rankings';
+import { RankSparkline } from './RankSparkline';
+
+// Number of snapshots used for the sparklines and the diff selectors
+const SNAPSHOT_LIMIT = 20;
+
+const RankChange: React.FC<{ change: number | null }> = ({ change }) => {
+  if (change === null) {
+    return <Badge variant="outline">new</Badge>;
+  }
+  if (change > 0) {
+    return (
+      <span className="inline-flex items-center text-green-600 text-sm font-medium">
+        <ArrowUp className="h-4 w-4 mr-1" />{change}
+      </span>
+    );
+  }
+  if (change < 0) {
+    return (
+      <span className="inline-flex items-center text-red-600 text-sm font-medium">
+        <ArrowDown className="h-4 w-4 mr-1" />{Math.abs(change)}
+      </span>
+    );
+  }
+  return <Minus className="h-4 w-4 text-gray-400" />;
+};
+
+const DiffList: React.FC<{ title: string; diffs: RankDiff[] }> = ({ title, diffs }) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-semibold">{title} <span className="text-gray-400 font-normal">({diffs.length})</span></h3>
+    {diffs.length === 0 ? (
+      <p className="text-sm text-gray-500">None</p>
+    ) : (
+      <ul className="space-y-1 max-h-64 overflow-auto">
+        {diffs.map(diff => (
+          <li key={diff.story_id} className="flex items-center justify-between text-sm border rounded-md px-2 py-1">
+            <span className="truncate mr-2" title={diff.story_name || diff.story_id}>{diff.story_name || diff.story_id}</span>
+            <span className="font-mono text-xs text-gray-500 whitespace-nowrap">
+              {diff.from_rank ?? '-'} → {diff.to_rank ?? '-'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * RankingsView component displays the stored ProductBoard rankings of a tracked board,
+ * how each feature moved since the previous ranking sync, and a diff between any two snapshots.
+ */
+export const RankingsView: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const [selectedBoard, setSelectedBoard] = useState<string>('');
+  const [searchTerm, setSearchTerm] = useState<string>('');
+  const [fromSnapshot, setFromSnapshot] = useState<string>('');
+  const [toSnapshot, setToSnapshot] = useState<string>('');
+
+  const { data: boards = [], isLoading: boardsLoading } = useTrackedBoards(workspaceId);
+  const { data: rankings = [], isLoading: rankingsLoading, refetch } = useCurrentRankings(workspaceId, selectedBoard);
+  const { data: snapshots = [] } = useRankingSnapshots(workspaceId, selectedBoard, SNAPSHOT_LIMIT);
+  const snapshotIds = useMemo(() => snapshots.map(snapshot => snapshot.sync_history_id), [snapshots]);
+  const { data: entries } = useSnapshotEntries(snapshotIds);
+  const rankHistory = useRankHistory(entries);
+
+  // Default to the first board, and to diffing the two latest snapshots
+  useEffect(() => {
+    if (!selectedBoard && boards.length > 0) {
+      setSelectedBoard(boards[0].board_id);
+    }
+  }, [boards, selectedBoard]);
+
+  useEffect(() => {
+    setToSnapshot(snapshots[0]?.sync_history_id || '');
+    setFromSnapshot(snapshots[1]?.sync_history_id || '');
+  }, [snapshots]);
+
+  const filteredRankings = rankings.filter(ranking =>
+    (ranking.story_name || '').toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const diffs = useMemo(() => {
+    if (!entries || !fromSnapshot || !toSnapshot) return [];
+    return diffSnapshots(
+      entries.filter(entry => entry.sync_history_id === fromSnapshot),
+      entries.filter(entry => entry.sync_history_id === toSnapshot)
+    );
+  }, [entries, fromSnapshot, toSnapshot]);
+
+  const snapshotLabel = (snapshot: RankingSnapshot) =>
+    `${format(new Date(snapshot.captured_at), 'PP p')}${snapshot.source === 'screenshot' ? ' (screenshot)' : ''}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">ProductBoard Rankings</h1>
+        <div className="flex space-x-2">
+          <Link to="/rankings/import">
+            <Button variant="outline">
+              <ImageUp className="h-4 w-4 mr-2" />
+              Import Screenshot
+            </Button>
+          </Link>
+          <Link to="/rankings/changesets">
+            <Button variant="outline">
+              <ListOrdered className="h-4 w-4 mr-2" />
+              Review ADO Rank Changes
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={() => refetch()} disabled={!selectedBoard}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Feature Rankings</CardTitle>
+          <CardDescription>
+            Current rank of each feature on the selected board, compared with the previous ranking sync.
+          </CardDescription>
+          <div className="flex space-x-4 pt-4">
+            <Select value={selectedBoard} onValueChange={setSelectedBoard} disabled={boardsLoading || boards.length === 0}>
+              <SelectTrigger className="w-[260px]">
+                <SelectValue placeholder={boards.length === 0 ? 'No tracked boards' : 'Select Board'} />
+              </SelectTrigger>
+              <SelectContent>
+                {boards.map(board => (
+                  <SelectItem key={board.board_id} value={board.board_id}>{board.board_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="search"
+              placeholder="Search features..."
+              className="max-w-sm"
+              value={searchTerm}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {rankingsLoading ? (
+            <div className="h-48 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : filteredRankings.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[80px]">Rank</TableHead>
+                    <TableHead>Feature</TableHead>
+                    <TableHead className="w-[100px]">Change</TableHead>
+                    <TableHead className="w-[140px]">Trend</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRankings.map(ranking => (
+                    <TableRow key={ranking.id}>
+                      <TableCell className="text-lg font-bold text-gray-400">{ranking.current_rank}</TableCell>
+                      <TableCell className="font-medium" style={{ paddingLeft: `${1 + (ranking.indent_level || 0)}rem` }}>
+                        {ranking.story_name || ranking.story_id}
+                      </TableCell>
+                      <TableCell>
+                        <RankChange
+                          change={ranking.previous_rank === null ? null : ranking.previous_rank - ranking.current_rank}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <RankSparkline points={rankHistory.get(ranking.story_id) || []} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-8">
+              {selectedBoard ? 'No rankings found for this board or search term.' : 'Select a tracked board to view its rankings.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ranking Changes</CardTitle>
+          <CardDescription>Compare two ranking snapshots to see which features moved.</CardDescription>
+          <div className="flex items-center space-x-4 pt-4">
+            <Select value={fromSnapshot} onValueChange={setFromSnapshot} disabled={snapshots.length < 2}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="From snapshot" />
+              </SelectTrigger>
+              <SelectContent>
+                {snapshots.map(snapshot => (
+                  <SelectItem key={snapshot.sync_history_id} value={snapshot.sync_history_id}>
+                    {snapshotLabel(snapshot)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-gray-500">→</span>
+            <Select value={toSnapshot} onValueChange={setToSnapshot} disabled={snapshots.length < 2}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="To snapshot" />
+              </SelectTrigger>
+              <SelectContent>
+                {snapshots.map(snapshot => (
+                  <SelectItem key={snapshot.sync_history_id} value={snapshot.sync_history_id}>
+                    {snapshotLabel(snapshot)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {snapshots.length < 2 ? (
+            <p className="text-gray-500 text-center py-8">At least two ranking syncs are needed to compare snapshots.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <DiffList title="Moved Up" diffs={diffs.filter(diff => diff.direction === 'up')} />
+              <DiffList title="Moved Down" diffs={diffs.filter(diff => diff.direction === 'down')} />
+              <DiffList title="New" diffs={diffs.filter(diff => diff.direction === 'new')} />
+              <DiffList title="Removed" diffs={diffs.filter(diff => diff.direction === 'removed')} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RankingsView;
@@ -0,0 +1,342 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Input } from '../../../components/ui/shadcn/input';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/shadcn/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { ArrowDown, ArrowLeft, ArrowUp, ScanText, Search, Trash2 } from 'lucide-react';
+import { useWorkspace } from '../../../contexts/WorkspaceContext';
+import { useToast } from '../../../contexts/ToastContext';
+import {
+  useTrackedBoards,
+  useReadRankingScreenshot,
+  useSaveScreenshotRanking,
+  useFeatureSearch
+} from '../../../hooks/useRankings';
+import { ScreenshotFeatureMatch, ScreenshotRankingRow } from '../../../types/edgeFunctions';
+
+// A recognized row as the user is correcting it
+interface ReviewRow extends ScreenshotRankingRow {
+  key: string;
+}
+
+// Name matches at or above this confidence are shown as likely correct
+const HIGH_CONFIDENCE = 0.85;
+
+const ConfidenceBadge: React.FC<{ match: ScreenshotFeatureMatch | null }> = ({ match }) => {
+  if (!match) {
+    return <Badge variant="destructive">No match</Badge>;
+  }
+  if (match.method === 'id') {
+    return <Badge variant="secondary">ID match</Badge>;
+  }
+  const percent = `${Math.round(match.confidence * 100)}%`;
+  return match.confidence >= HIGH_CONFIDENCE
+    ? <Badge variant="secondary">{percent}</Badge>
+    : <Badge variant="outline">{percent}</Badge>;
+};
+
+// Pick the feature of a row from its candidates, or search all features by name
+const FeatureMatchCell: React.FC<{
+  row: ReviewRow;
+  workspaceId: string | undefined;
+  onChange: (match: ScreenshotFeatureMatch) => void;
+}> = ({ row, workspaceId, onChange }) => {
+  const [isSearching, setIsSearching] = useState(false);
+  const [term, setTerm] = useState('');
+  const { data: results = [], isFetching } = useFeatureSearch(workspaceId, term);
+
+  const options = row.match && !row.candidates.some(candidate => candidate.productboard_id === row.match?.productboard_id)
+    ? [row.match, ...row.candidates]
+    : row.candidates;
+
+  const handleSelect = (productboardId: string) => {
+    const option = options.find(candidate => candidate.productboard_id === productboardId);
+    if (option) onChange(option);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Select value={row.match?.productboard_id} onValueChange={handleSelect} disabled={options.length === 0}>
+          <SelectTrigger className="w-[320px]">
+            <SelectValue placeholder={options.length === 0 ? 'No candidates' : 'Select feature'} />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option.productboard_id} value={option.productboard_id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" onClick={() => setIsSearching(!isSearching)} title="Search features">
+          <Search className="h-4 w-4" />
+        </Button>
+      </div>
+      {isSearching && (
+        <div className="space-y-1">
+          <Input
+            type="search"
+            placeholder="Search features by name..."
+            className="w-[320px]"
+            value={term}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTerm(e.target.value)}
+          />
+          {isFetching ? (
+            <p className="text-xs text-gray-500">Searching...</p>
+          ) : term.trim().length >= 2 && results.length === 0 ? (
+            <p className="text-xs text-gray-500">No features found.</p>
+          ) : (
+            <ul className="w-[320px] max-h-40 overflow-auto">
+              {results.map(feature => (
+                <li key={feature.productboard_id}>
+                  <button
+                    type="button"
+                    className="w-full text-left text-sm px-2 py-1 rounded hover:bg-gray-100"
+                    onClick={() => {
+                      onChange({ ...feature, confidence: 1, method: 'name' });
+                      setIsSearching(false);
+                      setTerm('');
+                    }}
+                  >
+                    {feature.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * ScreenshotRankingImport reads a board ranking from a screenshot, shows how confidently each
+ * row was matched to a ProductBoard feature, and saves the ranking once the user has reviewed
+ * and corrected the matches.
+ */
+export const ScreenshotRankingImport: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const { addToast } = useToast();
+  const navigate = useNavigate();
+  const [selectedBoard, setSelectedBoard] = useState<string>('');
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+
+  const { data: boards = [], isLoading: boardsLoading } = useTrackedBoards(workspaceId);
+  const readScreenshot = useReadRankingScreenshot();
+  const saveRanking = useSaveScreenshotRanking();
+
+  useEffect(() => {
+    if (!selectedBoard && boards.length > 0) {
+      setSelectedBoard(boards[0].board_id);
+    }
+  }, [boards, selectedBoard]);
+
+  // Features matched by more than one row
+  const duplicateIds = useMemo(() => {
+    const counts = new Map<string, number>();
+    rows.forEach(row => {
+      if (row.match) counts.set(row.match.productboard_id, (counts.get(row.match.productboard_id) || 0) + 1);
+    });
+    return new Set(Array.from(counts.entries()).filter(([, count]) => count > 1).map(([id]) => id));
+  }, [rows]);
+
+  const unmatchedCount = rows.filter(row => !row.match).length;
+  const canSave = rows.length > 0 && unmatchedCount === 0 && duplicateIds.size === 0 && !!selectedBoard;
+
+  const handleRead = async () => {
+    if (!workspaceId || !file) return;
+
+    try {
+      const result = await readScreenshot.mutateAsync({ workspaceId, file });
+      setRows(result.rows.map(row => ({ ...row, key: crypto.randomUUID() })));
+      addToast({
+        title: 'Screenshot read',
+        message: `Found ${result.rows.length} ranked items`,
+        type: 'success',
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to read the screenshot',
+        type: 'error',
+      });
+    }
+  };
+
+  const updateMatch = (key: string, match: ScreenshotFeatureMatch) => {
+    setRows(current => current.map(row => (row.key === key ? { ...row, match } : row)));
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    setRows(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeRow = (key: string) => {
+    setRows(current => current.filter(row => row.key !== key));
+  };
+
+  const handleSave = async () => {
+    if (!workspaceId || !canSave) return;
+
+    try {
+      const result = await saveRanking.mutateAsync({
+        workspace_id: workspaceId,
+        board_id: selectedBoard,
+        items: rows.map((row, index) => ({
+          story_id: row.match!.productboard_id,
+          story_name: row.match!.name,
+          rank: index + 1,
+          indent_level: row.indent_level,
+        })),
+      });
+      addToast({
+        title: 'Ranking saved',
+        message: `${result.new_items} new and ${result.updated_items} updated rankings`,
+        type: 'success',
+      });
+      navigate('/rankings');
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save the ranking',
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">Import Ranking from Screenshot</h1>
+        <Link to="/rankings">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Rankings
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Screenshot</CardTitle>
+          <CardDescription>
+            Upload a screenshot of a ProductBoard board. The ranked list is read with the configured vision model
+            and every row is matched to a feature by its PB ID or its name.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center space-x-4">
+            <Select value={selectedBoard} onValueChange={setSelectedBoard} disabled={boardsLoading || boards.length === 0}>
+              <SelectTrigger className="w-[260px]">
+                <SelectValue placeholder={boards.length === 0 ? 'No tracked boards' : 'Select Board'} />
+              </SelectTrigger>
+              <SelectContent>
+                {boards.map(board => (
+                  <SelectItem key={board.board_id} value={board.board_id}>{board.board_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="file"
+              accept="image/png,image/jpeg,image/webp,image/gif"
+              className="max-w-sm"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFile(e.target.files?.[0] || null)}
+            />
+            <Button variant="primary" onClick={handleRead} disabled={!file || !workspaceId} loading={readScreenshot.isPending}>
+              {!readScreenshot.isPending && <ScanText className="h-4 w-4 mr-2" />}
+              Read Screenshot
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle>Review Matches</CardTitle>
+                <CardDescription>
+                  Check the order and the matched feature of every row. Rows without a match or matched to the
+                  same feature twice must be corrected or removed before saving.
+                </CardDescription>
+              </div>
+              <Button variant="primary" onClick={handleSave} disabled={!canSave} loading={saveRanking.isPending}>
+                Save Ranking
+              </Button>
+            </div>
+            {(unmatchedCount > 0 || duplicateIds.size > 0) && (
+              <p className="text-sm text-red-600 pt-2">
+                {unmatchedCount > 0 && `${unmatchedCount} unmatched rows. `}
+                {duplicateIds.size > 0 && `${duplicateIds.size} features matched more than once.`}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[80px]">Rank</TableHead>
+                    <TableHead>Read from screenshot</TableHead>
+                    <TableHead>Feature</TableHead>
+                    <TableHead className="w-[110px]">Confidence</TableHead>
+                    <TableHead className="w-[130px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow
+                      key={row.key}
+                      className={row.match && duplicateIds.has(row.match.productboard_id) ? 'bg-red-50' : undefined}
+                    >
+                      <TableCell className="text-lg font-bold text-gray-400">{index + 1}</TableCell>
+                      <TableCell style={{ paddingLeft: `${1 + (row.indent_level || 0)}rem` }}>
+                        <span className="text-sm">{row.text}</span>
+                        {row.pb_id && <span className="ml-2 font-mono text-xs text-gray-500">{row.pb_id}</span>}
+                      </TableCell>
+                      <TableCell>
+                        <FeatureMatchCell row={row} workspaceId={workspaceId} onChange={match => updateMatch(row.key, match)} />
+                      </TableCell>
+                      <TableCell>
+                        <ConfidenceBadge match={row.match} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-1">
+                          <Button variant="ghost" size="sm" onClick={() => moveRow(index, -1)} disabled={index === 0} title="Move up">
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => moveRow(index, 1)} disabled={index === rows.length - 1} title="Move down">
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => removeRow(row.key)} title="Remove row">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ScreenshotRankingImport;
@@ -2,6 +2,18 @@ import React, { useState } from 'react';
 import { useAIStoryGenerator } from '../../../hooks/useAIStoryGenerator';
 import { StoryGenerationInput, StoryGenerationOutput } from '../../../lib/api/aiStoryGenerator';
 
+/**
+ * Marks a value that was filled with a default because the AI didn't generate it
+ */
+const DefaultedBadge: React.FC<{ show: boolean }> = ({ show }) => show ? (
+  <span
+    className="ml-2 px-1.5 py-0.5 bg-yellow-100 text-yellow-800 text-xs font-medium rounded"
+    title="The AI output for this field was missing or invalid, so a default value is shown"
+  >
+    Default
+  </span>
+) : null;
+
 interface IdeaToStoryGeneratorProps {
   onStoryGenerated?: (story: StoryGenerationOutput) => void;
 }
@@ -33,6 +45,10 @@ export const IdeaToStoryGenerator: React.FC<IdeaToStoryGeneratorProps> = ({
     }
   });
 
+  // Whether a field of the generated story holds a default instead of AI output
+  const isDefaulted = (field: keyof StoryGenerationOutput) =>
+    !!generatedStory?.defaulted_fields?.includes(field);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!idea.trim()) return;
@@ -203,27 +219,38 @@ export const IdeaToStoryGenerator: React.FC<IdeaToStoryGeneratorProps> = ({
       {/* Generated Story Preview */}
       {generatedStory && !loading && !error && (
         <div className="mt-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
-          <h3 className="text-xl font-bold mb-2">{generatedStory.title}</h3>
+          <h3 className="text-xl font-bold mb-2">
+            {generatedStory.title}
+            <DefaultedBadge show={isDefaulted('title')} />
+          </h3>
+          
+          {!!generatedStory.defaulted_fields?.length && (
+            <p className="mb-4 text-sm text-yellow-800">
+              {generatedStory.ai_fields?.length
+                ? `${generatedStory.defaulted_fields.length} fields could not be generated and use default values.`
+                : 'The AI could not generate this story; all fields use default values.'}
+            </p>
+          )}
           
           <div className="space-y-4">
             <div>
-              <h4 className="text-sm font-medium text-gray-500">Description</h4>
+              <h4 className="text-sm font-medium text-gray-500">Description<DefaultedBadge show={isDefaulted('description')} /></h4>
               <p className="mt-1">{generatedStory.description}</p>
             </div>
             
             <div>
-              <h4 className="text-sm font-medium text-gray-500">Acceptance Criteria</h4>
+              <h4 className="text-sm font-medium text-gray-500">Acceptance Criteria<DefaultedBadge show={isDefaulted('acceptance_criteria')} /></h4>
               <pre className="mt-1 whitespace-pre-wrap font-sans">{generatedStory.acceptance_criteria}</pre>
             </div>
             
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <h4 className="text-sm font-medium text-gray-500">Investment Category</h4>
+                <h4 className="text-sm font-medium text-gray-500">Investment Category<DefaultedBadge show={isDefaulted('investment_category')} /></h4>
                 <p className="mt-1">{generatedStory.investment_category}</p>
               </div>
               
               <div>
-                <h4 className="text-sm font-medium text-gray-500">Timeframe</h4>
+                <h4 className="text-sm font-medium text-gray-500">Timeframe<DefaultedBadge show={isDefaulted('timeframe')} /></h4>
                 <p className="mt-1">{generatedStory.timeframe}</p>
               </div>
             </div>
@@ -232,26 +259,26 @@ export const IdeaToStoryGenerator: React.FC<IdeaToStoryGeneratorProps> = ({
               <h4 className="text-sm font-medium text-gray-500">RICE Scoring</h4>
               <div className="mt-1 grid grid-cols-4 gap-2">
                 <div className="p-2 bg-white rounded border border-gray-200">
-                  <span className="block text-xs text-gray-500">Reach</span>
+                  <span className="block text-xs text-gray-500">Reach<DefaultedBadge show={isDefaulted('reach_score')} /></span>
                   <span className="font-medium">{generatedStory.reach_score}</span>
                 </div>
                 <div className="p-2 bg-white rounded border border-gray-200">
-                  <span className="block text-xs text-gray-500">Impact</span>
+                  <span className="block text-xs text-gray-500">Impact<DefaultedBadge show={isDefaulted('impact_score')} /></span>
                   <span className="font-medium">{generatedStory.impact_score}</span>
                 </div>
                 <div className="p-2 bg-white rounded border border-gray-200">
-                  <span className="block text-xs text-gray-500">Confidence</span>
+                  <span className="block text-xs text-gray-500">Confidence<DefaultedBadge show={isDefaulted('confidence_score')} /></span>
                   <span className="font-medium">{generatedStory.confidence_score}</span>
                 </div>
                 <div className="p-2 bg-white rounded border border-gray-200">
-                  <span className="block text-xs text-gray-500">Effort</span>
+                  <span className="block text-xs text-gray-500">Effort<DefaultedBadge show={isDefaulted('effort_score')} /></span>
                   <span className="font-medium">{generatedStory.effort_score}</span>
                 </div>
               </div>
             </div>
             
             <div>
-              <h4 className="text-sm font-medium text-gray-500">Tags</h4>
+              <h4 className="text-sm font-medium text-gray-500">Tags<DefaultedBadge show={isDefaulted('tags')} /></h4>
               <div className="mt-1 flex flex-wrap gap-2">
                 {generatedStory.tags.map((tag, index) => (
                   <span
@@ -265,7 +292,7 @@ export const IdeaToStoryGenerator: React.FC<IdeaToStoryGeneratorProps> = ({
             </div>
             
             <div>
-              <h4 className="text-sm font-medium text-gray-500">Customer Need</h4>
+              <h4 className="text-sm font-medium text-gray-500">Customer Need<DefaultedBadge show={isDefaulted('customer_need_description')} /></h4>
               <p className="mt-1">{generatedStory.customer_need_description}</p>
             </div>
             
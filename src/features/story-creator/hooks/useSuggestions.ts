@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { supabase } from '../../../lib/supabase';
+import { invokeEdgeFunction } from '../../../lib/api/edgeFunctions';
 import { Story, ScoreValue } from '../../../types/story-creator';
 
 interface SuggestionResult {
@@ -39,18 +39,12 @@ export const useSuggestions = () => {
       const prompt = buildContextualPrompt(story, section);
       
       // Call the Supabase Edge Function for AI suggestions
-      const { data, error } = await supabase.functions.invoke('get-story-suggestions', {
-        body: {
-          prompt,
-          story,
-          section
-        }
+      const data = await invokeEdgeFunction('get-story-suggestions', {
+        prompt,
+        story,
+        section
       });
       
-      if (error) {
-        throw new Error(`Error calling AI suggestions: ${error.message}`);
-      }
-      
       // Process results based on section
       // This is where we'd format the raw AI response into structured suggestions
       const processedResults = processResults(data, section);
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../../components/ui/shadcn/card';
+import { Button } from '../../../components/ui/shadcn/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { format, formatDistanceStrict } from 'date-fns';
+import { useWorkspace } from '../../../contexts/WorkspaceContext';
+import { useToast } from '../../../contexts/ToastContext';
+import { useSyncRuns, useStartManualSync, useSyncHistoryRealtime } from '../../../hooks/useSyncHistory';
+import { SyncRun, SyncRunStatus, SyncRunSystem, SyncRunTrigger } from '../../../types/sync-history';
+import { SyncRunDetails } from './SyncRunDetails';
+
+const SYSTEM_LABELS: Record<SyncRunSystem, string> = {
+  productboard: 'ProductBoard',
+  ado: 'Azure DevOps',
+  pb_ado: 'PB → ADO',
+};
+
+const TRIGGERS: SyncRunTrigger[] = ['manual', 'scheduled', 'webhook', 'retry'];
+const STATUSES: SyncRunStatus[] = ['running', 'completed', 'failed', 'retrying', 'skipped'];
+
+// Helper to get badge variant based on status
+const getStatusVariant = (status: SyncRunStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'running': return 'default';
+    case 'completed': return 'secondary';
+    case 'failed': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+const getDuration = (run: SyncRun): string => {
+  if (!run.completed_at) return 'Running...';
+  return formatDistanceStrict(new Date(run.completed_at), new Date(run.started_at));
+};
+
+/**
+ * SyncHistoryView component displays synchronization history.
+ */
+export const SyncHistoryView: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const { addToast } = useToast();
+  const [systemFilter, setSystemFilter] = useState<SyncRunSystem | ''>('');
+  const [triggerFilter, setTriggerFilter] = useState<SyncRunTrigger | ''>('');
+  const [statusFilter, setStatusFilter] = useState<SyncRunStatus | ''>('');
+  const [selectedRun, setSelectedRun] = useState<SyncRun | null>(null);
+
+  const { data: runs = [], isLoading } = useSyncRuns();
+  const startSync = useStartManualSync();
+  useSyncHistoryRealtime();
+
+  const filteredRuns = useMemo(() => runs.filter(run =>
+    (!systemFilter || run.system === systemFilter) &&
+    (!triggerFilter || run.trigger === triggerFilter) &&
+    (!statusFilter || run.status === statusFilter)
+  ), [runs, systemFilter, triggerFilter, statusFilter]);
+
+  const runningCount = runs.filter(run => run.status === 'running').length;
+
+  const handleStartSync = async () => {
+    if (!currentWorkspace) return;
+    try {
+      await startSync.mutateAsync(currentWorkspace.id);
+      addToast({
+        title: 'Success',
+        message: 'ProductBoard sync finished',
+        type: 'success',
+      });
+    } catch (error) {
+      addToast({
+        title: 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        type: 'error',
+      });
+    }
+  };
+
+  const selectClassName = 'h-9 rounded-md border border-gray-300 px-3 text-sm';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold">Synchronization History</h1>
+        <Button
+          variant="primary"
+          onClick={handleStartSync}
+          disabled={!currentWorkspace}
+          loading={startSync.isPending}
+        >
+          Start Manual Sync
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sync Logs</CardTitle>
+          <CardDescription>
+            History of manual, scheduled and webhook synchronizations. Updates live as runs progress
+            {runningCount > 0 && ` (${runningCount} running)`}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={systemFilter}
+              onChange={(e) => setSystemFilter(e.target.value as SyncRunSystem | '')}
+              className={selectClassName}
+            >
+              <option value="">All systems</option>
+              {Object.entries(SYSTEM_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={triggerFilter}
+              onChange={(e) => setTriggerFilter(e.target.value as SyncRunTrigger | '')}
+              className={selectClassName}
+            >
+              <option value="">All triggers</option>
+              {TRIGGERS.map(trigger => (
+                <option key={trigger} value={trigger} className="capitalize">{trigger}</option>
+              ))}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as SyncRunStatus | '')}
+              className={selectClassName}
+            >
+              <option value="">All statuses</option>
+              {STATUSES.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Start Time</TableHead>
+                <TableHead>System</TableHead>
+                <TableHead>Run</TableHead>
+                <TableHead className="w-[150px]">Duration</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Items Processed</TableHead>
+                <TableHead>Errors</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead className="w-[100px]">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-24 text-center">Loading synchronization history...</TableCell>
+                </TableRow>
+              ) : filteredRuns.length > 0 ? (
+                filteredRuns.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell>{format(new Date(run.started_at), 'Pp')}</TableCell>
+                    <TableCell>{SYSTEM_LABELS[run.system]}</TableCell>
+                    <TableCell className="text-sm">{run.label}</TableCell>
+                    <TableCell>{getDuration(run)}</TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusVariant(run.status)}>{run.status}</Badge>
+                    </TableCell>
+                    <TableCell>{run.items_processed}</TableCell>
+                    <TableCell className={run.errors > 0 ? 'text-destructive' : ''}>{run.errors}</TableCell>
+                    <TableCell className="capitalize">{run.trigger}</TableCell>
+                    <TableCell>
+                      <Button variant="link" size="sm" className="p-0 h-auto" onClick={() => setSelectedRun(run)}>
+                        View
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-24 text-center">
+                    No synchronization history found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <SyncRunDetails run={selectedRun} onClose={() => setSelectedRun(null)} />
+    </div>
+  );
+};
+
+export default SyncHistoryView;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Badge } from '../../../components/ui/shadcn/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../../components/ui/shadcn/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../../components/ui/shadcn/dialog';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { useSyncRunItems } from '../../../hooks/useSyncHistory';
+import { SyncRun, SyncRunItemOutcome } from '../../../types/sync-history';
+
+const outcomeVariant = (outcome: SyncRunItemOutcome): "default" | "secondary" | "destructive" | "outline" => {
+  switch (outcome) {
+    case 'created':
+    case 'updated':
+      return 'secondary';
+    case 'failed':
+      return 'destructive';
+    case 'pending':
+      return 'default';
+    default:
+      return 'outline';
+  }
+};
+
+interface SyncRunDetailsProps {
+  run: SyncRun | null;
+  onClose: () => void;
+}
+
+/**
+ * SyncRunDetails lists every item a sync run created, updated, skipped or failed,
+ * with the request, response and error payloads of each operation.
+ */
+export const SyncRunDetails: React.FC<SyncRunDetailsProps> = ({ run, onClose }) => {
+  const [expandedItem, setExpandedItem] = useState<string | null>(null);
+  const { data: items = [], isLoading } = useSyncRunItems(run);
+
+  if (!run) return null;
+
+  const outcomeCounts = items.reduce<Record<string, number>>((counts, item) => {
+    counts[item.outcome] = (counts[item.outcome] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Dialog open={!!run} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{run.label}</DialogTitle>
+          <DialogDescription>
+            {run.trigger} run started {format(new Date(run.started_at), 'PPpp')}
+            {run.completed_at && `, finished ${format(new Date(run.completed_at), 'PPpp')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {Object.keys(run.counts).length > 0 && (
+            <div className="flex flex-wrap gap-4 text-sm">
+              {Object.entries(run.counts).map(([key, count]) => (
+                <div key={key}>
+                  <span className="text-gray-500 capitalize">{key.replace(/_/g, ' ')}:</span>{' '}
+                  <span className="font-medium">{count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {run.error_message && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 font-mono whitespace-pre-wrap">
+              {run.error_message}
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(outcomeCounts).map(([outcome, count]) => (
+                <Badge key={outcome} variant={outcomeVariant(outcome as SyncRunItemOutcome)}>
+                  {count} {outcome}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="h-24 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[32px]"></TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Operation</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-16 text-center text-sm text-gray-500">
+                        No item-level operations were recorded for this run.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    items.map((item) => (
+                      <React.Fragment key={item.id}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedItem(expandedItem === item.id ? null : item.id)}
+                        >
+                          <TableCell>
+                            {expandedItem === item.id
+                              ? <ChevronDown className="h-4 w-4" />
+                              : <ChevronRight className="h-4 w-4" />}
+                          </TableCell>
+                          <TableCell className="text-sm whitespace-nowrap">{format(new Date(item.created_at), 'Pp')}</TableCell>
+                          <TableCell className="text-sm">{item.operation_type}</TableCell>
+                          <TableCell className="font-mono text-xs">{item.item_ref || '-'}</TableCell>
+                          <TableCell><Badge variant={outcomeVariant(item.outcome)}>{item.outcome}</Badge></TableCell>
+                          <TableCell className="text-sm text-red-600 max-w-xs truncate">{item.error_message || ''}</TableCell>
+                        </TableRow>
+                        {expandedItem === item.id && (
+                          <TableRow>
+                            <TableCell colSpan={6} className="bg-gray-50">
+                              <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                  <div className="text-xs font-medium mb-1">Request</div>
+                                  <pre className="text-xs overflow-auto max-h-60">
+                                    {JSON.stringify(item.request_payload, null, 2) || 'none'}
+                                  </pre>
+                                </div>
+                                <div>
+                                  <div className="text-xs font-medium mb-1">Response</div>
+                                  <pre className="text-xs overflow-auto max-h-60">
+                                    {JSON.stringify(item.response_payload, null, 2) || 'none'}
+                                  </pre>
+                                </div>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </React.Fragment>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncRunDetails;
@@ -0,0 +1,57 @@
+/**
+ * Hook for managing the credentials stored in config_secrets
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getConfigSecrets,
+  getConfigSecretHistory,
+  setConfigSecret,
+  deleteConfigSecret
+} from '../lib/api/secrets';
+import { ConfigSecret } from '../types/secrets';
+
+export function useConfigSecrets() {
+  return useQuery({
+    queryKey: ['config-secrets'],
+    queryFn: getConfigSecrets,
+  });
+}
+
+export function useConfigSecretHistory(secret: ConfigSecret | null) {
+  return useQuery({
+    queryKey: ['config-secret-history', secret?.key, secret?.workspace_id],
+    queryFn: () => getConfigSecretHistory(secret!.key, secret!.workspace_id),
+    enabled: !!secret,
+  });
+}
+
+export function useSetConfigSecret() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ key, value, description, workspaceId }: {
+      key: string;
+      value: string;
+      description?: string | null;
+      workspaceId?: string | null;
+    }) => setConfigSecret(key, value, description, workspaceId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config-secrets'] });
+      queryClient.invalidateQueries({ queryKey: ['config-secret-history'] });
+    },
+  });
+}
+
+export function useDeleteConfigSecret() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ key, workspaceId }: { key: string; workspaceId?: string | null }) =>
+      deleteConfigSecret(key, workspaceId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config-secrets'] });
+      queryClient.invalidateQueries({ queryKey: ['config-secret-history'] });
+    },
+  });
+}
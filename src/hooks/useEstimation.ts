@@ -0,0 +1,110 @@
+/**
+ * Hook for planning-poker estimation rounds on session stories, kept live through Supabase realtime
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import {
+  getEstimationRounds,
+  getEstimationVotes,
+  getEstimationVoters,
+  startEstimationRound,
+  castEstimationVote,
+  revealEstimationRound,
+  acceptEstimate,
+} from '../lib/api/grooming';
+import { AcceptEstimateRequest, CastEstimationVoteRequest, EstimationRound } from '../types/grooming';
+
+export function useEstimationRounds(sessionStoryId: string | undefined) {
+  return useQuery({
+    queryKey: ['estimation-rounds', sessionStoryId],
+    queryFn: () => sessionStoryId ? getEstimationRounds(sessionStoryId) : Promise.reject('No session story ID provided'),
+    enabled: !!sessionStoryId,
+  });
+}
+
+// Votes of a round; the status is part of the key, so the votes of others are fetched once the round is revealed
+export function useEstimationVotes(round: EstimationRound | undefined) {
+  return useQuery({
+    queryKey: ['estimation-votes', round?.id, round?.status],
+    queryFn: () => round ? getEstimationVotes(round.id) : Promise.reject('No estimation round provided'),
+    enabled: !!round,
+  });
+}
+
+export function useEstimationVoters(round: EstimationRound | undefined) {
+  return useQuery({
+    queryKey: ['estimation-voters', round?.id, round?.vote_count],
+    queryFn: () => round ? getEstimationVoters(round.id) : Promise.reject('No estimation round provided'),
+    enabled: !!round,
+  });
+}
+
+// Refetch the rounds of a story whenever one is started, gets a vote, is revealed or accepted
+export function useEstimationRealtime(sessionStoryId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!sessionStoryId) return;
+
+    const channel = supabase
+      .channel(`estimation:${sessionStoryId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'estimation_rounds', filter: `session_story_id=eq.${sessionStoryId}` }, () => {
+        queryClient.invalidateQueries({ queryKey: ['estimation-rounds', sessionStoryId] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionStoryId, queryClient]);
+}
+
+export function useStartEstimationRound() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sessionStoryId: string) => startEstimationRound(sessionStoryId),
+    onSuccess: (round) => {
+      queryClient.invalidateQueries({ queryKey: ['estimation-rounds', round.session_story_id] });
+    },
+  });
+}
+
+export function useCastEstimationVote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CastEstimationVoteRequest) => castEstimationVote(request),
+    onSuccess: (vote) => {
+      queryClient.invalidateQueries({ queryKey: ['estimation-votes', vote.round_id] });
+      queryClient.invalidateQueries({ queryKey: ['estimation-voters', vote.round_id] });
+    },
+  });
+}
+
+export function useRevealEstimationRound() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (roundId: string) => revealEstimationRound(roundId),
+    onSuccess: (round) => {
+      queryClient.invalidateQueries({ queryKey: ['estimation-rounds', round.session_story_id] });
+    },
+  });
+}
+
+export function useAcceptEstimate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: AcceptEstimateRequest) => acceptEstimate(request),
+    onSuccess: (round) => {
+      queryClient.invalidateQueries({ queryKey: ['estimation-rounds', round.session_story_id] });
+      queryClient.invalidateQueries({ queryKey: ['session-stories', round.session_id] });
+      queryClient.invalidateQueries({ queryKey: ['grooming-stories'] });
+      queryClient.invalidateQueries({ queryKey: ['grooming-story'] });
+    },
+  });
+}
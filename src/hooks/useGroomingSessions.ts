@@ -12,13 +12,16 @@ import {
   uploadTranscript,
   getSessionStories,
   getSessionParticipants,
-  getSessionAnalyses
+  getSessionAnalyses,
+  getLatestTranscriptAnalysis,
+  applyTranscriptAnalysis
 } from '../lib/api/grooming';
 import { 
   GroomingSession, 
   SessionFilter, 
   CreateSessionRequest, 
-  UpdateSessionRequest 
+  UpdateSessionRequest,
+  ApplyTranscriptAnalysisRequest
 } from '../types/grooming';
 
 export function useGroomingSessions(filter?: SessionFilter, page: number = 1, pageSize: number = 20) {
@@ -65,6 +68,29 @@ export function useSessionAnalyses(sessionId: string | undefined) {
   });
 }
 
+export function useLatestTranscriptAnalysis(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: ['latest-transcript-analysis', sessionId],
+    queryFn: () => sessionId ? getLatestTranscriptAnalysis(sessionId) : Promise.reject('No session ID provided'),
+    enabled: !!sessionId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useApplyTranscriptAnalysis() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (request: ApplyTranscriptAnalysisRequest) => applyTranscriptAnalysis(request),
+    onSuccess: (_: void, request: ApplyTranscriptAnalysisRequest) => {
+      queryClient.invalidateQueries({ queryKey: ['session-stories', request.session_id] });
+      queryClient.invalidateQueries({ queryKey: ['grooming-session', request.session_id] });
+      queryClient.invalidateQueries({ queryKey: ['session-analyses', request.session_id] });
+      queryClient.invalidateQueries({ queryKey: ['latest-transcript-analysis', request.session_id] });
+    },
+  });
+}
+
 export function useCreateSession() {
   const queryClient = useQueryClient();
   
@@ -14,7 +14,9 @@ import {
   createStoryRelationship,
   deleteStoryRelationship,
   getStoryAnalyses,
-  analyzeStory
+  analyzeStory,
+  getStoryHistory,
+  restoreStoryVersion
 } from '../lib/api/grooming';
 import { 
   GroomingStory, 
@@ -66,6 +68,28 @@ export function useUpdateStory() {
   });
 }
 
+export function useStoryHistory(storyId: string | undefined) {
+  return useQuery({
+    queryKey: ['story-history', storyId],
+    queryFn: () => storyId ? getStoryHistory(storyId) : Promise.reject('No story ID provided'),
+    enabled: !!storyId,
+  });
+}
+
+export function useRestoreStoryVersion() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ storyId, changeId }: { storyId: string; changeId: string }) => restoreStoryVersion(storyId, changeId),
+    onSuccess: (restoredStory: GroomingStory) => {
+      queryClient.invalidateQueries({ queryKey: ['grooming-stories'] });
+      queryClient.invalidateQueries({ queryKey: ['grooming-story', restoredStory.id] });
+      queryClient.invalidateQueries({ queryKey: ['story-history', restoredStory.id] });
+      queryClient.invalidateQueries({ queryKey: ['session-stories'] });
+    },
+  });
+}
+
 export function useDeleteStory() {
   const queryClient = useQueryClient();
   
@@ -1,18 +1,29 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { 
-  fetchHierarchyMappings, 
-  saveHierarchyMapping, 
-  HierarchyMappingConfig, 
-  DEFAULT_HIERARCHY_MAPPING 
+import {
+  fetchHierarchyMappings,
+  fetchHierarchyMappingVersions,
+  fetchMappingReferenceData,
+  saveHierarchyMapping,
+  rollbackHierarchyMapping,
+  HierarchyMappingConfig,
+  HierarchyMappingVersion,
+  MappingVersionSource,
+  DEFAULT_HIERARCHY_MAPPING
 } from '../lib/api/hierarchyMapping';
 
+export interface SaveHierarchyMappingRequest {
+  mapping: HierarchyMappingConfig;
+  changeNote?: string;
+  source?: MappingVersionSource;
+}
+
 /**
  * Custom hook for fetching and managing hierarchy mappings
  * @returns Object with hierarchy mappings data and mutation functions
  */
 export function useHierarchyMappings() {
   const queryClient = useQueryClient();
-  
+
   // Query to fetch hierarchy mappings
   const mappingsQuery = useQuery<HierarchyMappingConfig[]>({
     queryKey: ['hierarchy-mappings'],
@@ -20,16 +31,18 @@ export function useHierarchyMappings() {
     staleTime: 5 * 60 * 1000, // 5 minutes
     initialData: [DEFAULT_HIERARCHY_MAPPING], // Use default mapping as initial data
   });
-  
-  // Mutation to save a hierarchy mapping
+
+  // Mutation to save a hierarchy mapping; every save is recorded as a new version
   const saveMappingMutation = useMutation({
-    mutationFn: saveHierarchyMapping,
-    onSuccess: () => {
+    mutationFn: ({ mapping, changeNote, source }: SaveHierarchyMappingRequest) =>
+      saveHierarchyMapping(mapping, changeNote, source),
+    onSuccess: (saved) => {
       // Invalidate and refetch mappings query when save is successful
       queryClient.invalidateQueries({ queryKey: ['hierarchy-mappings'] });
+      queryClient.invalidateQueries({ queryKey: ['hierarchy-mapping-versions', saved.id] });
     },
   });
-  
+
   return {
     mappings: mappingsQuery.data || [DEFAULT_HIERARCHY_MAPPING],
     isLoading: mappingsQuery.isLoading,
@@ -41,3 +54,42 @@ export function useHierarchyMappings() {
     saveError: saveMappingMutation.error,
   };
 }
+
+/**
+ * Hook for the version history of a hierarchy mapping configuration
+ */
+export function useHierarchyMappingVersions(mappingId: string | undefined) {
+  return useQuery({
+    queryKey: ['hierarchy-mapping-versions', mappingId],
+    queryFn: () => mappingId ? fetchHierarchyMappingVersions(mappingId) : Promise.reject('No mapping ID provided'),
+    enabled: !!mappingId,
+  });
+}
+
+/**
+ * Hook for rolling a hierarchy mapping configuration back to an earlier version
+ */
+export function useRollbackHierarchyMapping() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ mapping, version, changeNote }: { mapping: HierarchyMappingConfig; version: HierarchyMappingVersion; changeNote: string }) =>
+      rollbackHierarchyMapping(mapping, version, changeNote),
+    onSuccess: (restored) => {
+      queryClient.invalidateQueries({ queryKey: ['hierarchy-mappings'] });
+      queryClient.invalidateQueries({ queryKey: ['hierarchy-mapping-versions', restored.id] });
+    },
+  });
+}
+
+/**
+ * Hook for the area paths and ProductBoard IDs configurations are validated against
+ */
+export function useMappingReferenceData(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['hierarchy-mapping-reference-data'],
+    queryFn: fetchMappingReferenceData,
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Hook for live grooming sessions, built on a Supabase realtime channel per session
+ * Participants who have the session open are tracked with presence, and changes to the session,
+ * its stories and its participants refetch the affected queries for everyone.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { RealtimePresenceState } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { setCurrentSessionStory } from '../lib/api/grooming';
+import { useAuth } from '../features/auth/AuthContext';
+import { useSessionStories } from './useSessionStories';
+import { GroomingSession, LiveParticipant } from '../types/grooming';
+
+// One entry per user, however many tabs they have the session open in
+function presentParticipants(state: RealtimePresenceState<LiveParticipant>): LiveParticipant[] {
+  const byUser = new Map<string, LiveParticipant>();
+
+  Object.values(state).flat().forEach(({ user_id, name, joined_at }) => {
+    const known = byUser.get(user_id);
+    if (!known || joined_at < known.joined_at) {
+      byUser.set(user_id, { user_id, name, joined_at });
+    }
+  });
+
+  return Array.from(byUser.values()).sort((a, b) => a.joined_at.localeCompare(b.joined_at));
+}
+
+// Join the live session: announce the current user and keep the session queries up to date
+export function useLiveSession(sessionId: string | undefined, enabled: boolean = true) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [participants, setParticipants] = useState<LiveParticipant[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+
+  const userId = user?.id;
+  const userName = user?.name;
+
+  // The grooming stories on the session, so edits to their title, description and estimates show up live
+  const { data: sessionStories } = useSessionStories(enabled ? sessionId : undefined);
+  const storyIds = useMemo(
+    () => Array.from(new Set((sessionStories || []).map(sessionStory => sessionStory.story_id))).sort().join(','),
+    [sessionStories]
+  );
+
+  useEffect(() => {
+    if (!sessionId || !enabled || !userId) return;
+
+    const channel = supabase.channel(`grooming-session:${sessionId}`, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setParticipants(presentParticipants(channel.presenceState<LiveParticipant>()));
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'grooming_sessions', filter: `id=eq.${sessionId}` }, () => {
+        queryClient.invalidateQueries({ queryKey: ['grooming-session', sessionId] });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'session_stories', filter: `session_id=eq.${sessionId}` }, () => {
+        queryClient.invalidateQueries({ queryKey: ['session-stories', sessionId] });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'session_participants', filter: `session_id=eq.${sessionId}` }, () => {
+        queryClient.invalidateQueries({ queryKey: ['session-participants', sessionId] });
+      })
+      .subscribe(async (status) => {
+        setIsConnected(status === 'SUBSCRIBED');
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ user_id: userId, name: userName || 'Unknown user', joined_at: new Date().toISOString() });
+        }
+      });
+
+    return () => {
+      setIsConnected(false);
+      setParticipants([]);
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, enabled, userId, userName, queryClient]);
+
+  // A channel of its own, so a story added to the session does not reset presence
+  useEffect(() => {
+    if (!sessionId || !enabled || !userId || !storyIds) return;
+
+    const channel = supabase
+      .channel(`grooming-session-stories:${sessionId}`)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'grooming_stories', filter: `id=in.(${storyIds})` }, (payload) => {
+        queryClient.invalidateQueries({ queryKey: ['session-stories', sessionId] });
+        queryClient.invalidateQueries({ queryKey: ['grooming-story', (payload.new as { id: string }).id] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, enabled, userId, storyIds, queryClient]);
+
+  return { participants, isConnected };
+}
+
+export function useSetCurrentSessionStory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ sessionId, sessionStoryId }: { sessionId: string; sessionStoryId: string | null }) =>
+      setCurrentSessionStory(sessionId, sessionStoryId),
+    onSuccess: (updatedSession: GroomingSession) => {
+      queryClient.setQueryData(['grooming-session', updatedSession.id], updatedSession);
+      queryClient.invalidateQueries({ queryKey: ['session-stories', updatedSession.id] });
+    },
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Hook for matching ProductBoard features to unlinked Azure DevOps work items
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { acceptMatches, getMatchingData } from '../lib/api/pbAdoMatching';
+import { HierarchyMappingConfig } from '../lib/api/hierarchyMapping';
+import { MatchCandidate, findMatchCandidates } from '../lib/pbAdoMatching';
+
+// Scored candidates for every unlinked feature, highest confidence first
+export function useMatchCandidates(mapping: HierarchyMappingConfig | undefined) {
+  return useQuery({
+    queryKey: ['pb-ado-match-candidates', mapping?.id, mapping?.current_version],
+    queryFn: async () => {
+      if (!mapping) {
+        throw new Error('No mapping provided');
+      }
+      const { pbItems, adoItems, knownLinks } = await getMatchingData(mapping);
+      return findMatchCandidates(pbItems, adoItems, knownLinks);
+    },
+    enabled: !!mapping,
+  });
+}
+
+export function useAcceptMatches() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (matches: MatchCandidate[]) => acceptMatches(matches),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pb-ado-match-candidates'] });
+      queryClient.invalidateQueries({ queryKey: ['pb-ado-mappings'] });
+    },
+  });
+}
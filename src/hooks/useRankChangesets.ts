@@ -0,0 +1,64 @@
+/**
+ * Hook for reviewing, applying and rolling back ADO rank changesets
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getRankChangesets,
+  getRankChangesetItems,
+  setRankChangesetItemApproval,
+  rejectRankChangeset,
+  runRankChangeset
+} from '../lib/api/rankChangesets';
+
+export function useRankChangesets(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: ['rank-changesets', workspaceId],
+    queryFn: () => getRankChangesets(workspaceId as string),
+    enabled: !!workspaceId,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+export function useRankChangesetItems(changesetId: string | undefined) {
+  return useQuery({
+    queryKey: ['rank-changeset-items', changesetId],
+    queryFn: () => getRankChangesetItems(changesetId as string),
+    enabled: !!changesetId,
+  });
+}
+
+export function useSetRankChangeApproval() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, approved }: { id: string; approved: boolean }) => setRankChangesetItemApproval(id, approved),
+    onSuccess: (item) => {
+      queryClient.invalidateQueries({ queryKey: ['rank-changeset-items', item.changeset_id] });
+    },
+  });
+}
+
+export function useRejectRankChangeset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => rejectRankChangeset(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rank-changesets'] });
+    },
+  });
+}
+
+export function useRunRankChangeset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'apply' | 'rollback' }) => runRankChangeset(id, action),
+    onSuccess: (_result, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['rank-changesets'] });
+      queryClient.invalidateQueries({ queryKey: ['rank-changeset-items', id] });
+      queryClient.invalidateQueries({ queryKey: ['rankings'] });
+    },
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Hook for ProductBoard rankings and their snapshot history
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getTrackedBoards,
+  getCurrentRankings,
+  getRankingSnapshots,
+  getSnapshotEntries,
+  readRankingScreenshot,
+  saveScreenshotRanking,
+  searchRankableFeatures
+} from '../lib/api/rankings';
+import { RankingSnapshotEntry } from '../types/rankings';
+import { SaveScreenshotRankingRequest } from '../types/edgeFunctions';
+
+export function useTrackedBoards(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: ['tracked-boards', workspaceId],
+    queryFn: () => getTrackedBoards(workspaceId as string),
+    enabled: !!workspaceId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useCurrentRankings(workspaceId: string | undefined, boardId: string | undefined) {
+  return useQuery({
+    queryKey: ['rankings', workspaceId, boardId],
+    queryFn: () => getCurrentRankings(workspaceId as string, boardId as string),
+    enabled: !!workspaceId && !!boardId,
+  });
+}
+
+export function useRankingSnapshots(workspaceId: string | undefined, boardId: string | undefined, limit: number = 20) {
+  return useQuery({
+    queryKey: ['ranking-snapshots', workspaceId, boardId, limit],
+    queryFn: () => getRankingSnapshots(workspaceId as string, boardId as string, limit),
+    enabled: !!workspaceId && !!boardId,
+  });
+}
+
+export function useSnapshotEntries(syncHistoryIds: string[]) {
+  return useQuery({
+    queryKey: ['ranking-snapshot-entries', syncHistoryIds],
+    queryFn: () => getSnapshotEntries(syncHistoryIds),
+    enabled: syncHistoryIds.length > 0,
+    staleTime: Infinity, // Snapshots never change once captured
+  });
+}
+
+export function useReadRankingScreenshot() {
+  return useMutation({
+    mutationFn: ({ workspaceId, file }: { workspaceId: string; file: File }) => readRankingScreenshot(workspaceId, file),
+  });
+}
+
+export function useSaveScreenshotRanking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: SaveScreenshotRankingRequest) => saveScreenshotRanking(request),
+    onSuccess: (_result, request) => {
+      queryClient.invalidateQueries({ queryKey: ['rankings', request.workspace_id, request.board_id] });
+      queryClient.invalidateQueries({ queryKey: ['ranking-snapshots', request.workspace_id, request.board_id] });
+    },
+  });
+}
+
+export function useFeatureSearch(workspaceId: string | undefined, term: string) {
+  return useQuery({
+    queryKey: ['rankable-features', workspaceId, term],
+    queryFn: () => searchRankableFeatures(workspaceId as string, term),
+    enabled: !!workspaceId && term.trim().length >= 2,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+// Group snapshot entries into each item's rank history, oldest first
+export function useRankHistory(entries: RankingSnapshotEntry[] | undefined) {
+  return useMemo(() => {
+    const history = new Map<string, { captured_at: string; rank: number }[]>();
+    (entries || []).forEach(entry => {
+      const points = history.get(entry.story_id) || [];
+      points.push({ captured_at: entry.captured_at, rank: entry.rank });
+      history.set(entry.story_id, points);
+    });
+    return history;
+  }, [entries]);
+}
@@ -0,0 +1,82 @@
+/**
+ * Hook for the ProductBoard / ADO reconciliation report and its fixes
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ReconciliationFixOptions,
+  fixReconciliationIssue,
+  getLatestReconciliationRun,
+  getMissingWorkItemDefaults,
+  getReconciliationIssues,
+  runReconciliation,
+  setReconciliationIssueIgnored
+} from '../lib/api/reconciliation';
+import { HierarchyMappingConfig } from '../lib/api/hierarchyMapping';
+import { ReconciliationFix, ReconciliationIssueStatus } from '../types/reconciliation';
+
+export function useLatestReconciliationRun() {
+  return useQuery({
+    queryKey: ['reconciliation-run'],
+    queryFn: getLatestReconciliationRun,
+  });
+}
+
+export function useReconciliationIssues(status: ReconciliationIssueStatus) {
+  return useQuery({
+    queryKey: ['reconciliation-issues', status],
+    queryFn: () => getReconciliationIssues(status),
+  });
+}
+
+// Prefills the create missing fix; runs when an issue's feature is chosen
+export function useMissingWorkItemDefaults(pbFeatureId: string | null, mapping: HierarchyMappingConfig | undefined) {
+  return useQuery({
+    queryKey: ['reconciliation-create-defaults', pbFeatureId, mapping?.id, mapping?.current_version],
+    queryFn: () => {
+      if (!pbFeatureId || !mapping) {
+        throw new Error('No feature or mapping provided');
+      }
+      return getMissingWorkItemDefaults(pbFeatureId, mapping);
+    },
+    enabled: !!pbFeatureId && !!mapping,
+  });
+}
+
+export function useRunReconciliation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: runReconciliation,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reconciliation-run'] });
+      queryClient.invalidateQueries({ queryKey: ['reconciliation-issues'] });
+    },
+  });
+}
+
+export function useFixReconciliationIssue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, fix, options }: { id: string; fix: ReconciliationFix; options?: ReconciliationFixOptions }) =>
+      fixReconciliationIssue(id, fix, options),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reconciliation-issues'] });
+      queryClient.invalidateQueries({ queryKey: ['pb-ado-mappings'] });
+      queryClient.invalidateQueries({ queryKey: ['sync-jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['sync-job-counts'] });
+    },
+  });
+}
+
+export function useSetReconciliationIssueIgnored() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ignored }: { id: string; ignored: boolean }) => setReconciliationIssueIgnored(id, ignored),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reconciliation-issues'] });
+    },
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Hook for the sync run history, kept live through Supabase realtime
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { getSyncRuns, getSyncRunItems, startManualSync } from '../lib/api/syncHistory';
+import { SyncRun } from '../types/sync-history';
+
+// Tables whose changes affect the sync history page
+const SYNC_HISTORY_TABLES = ['productboard_hierarchy_sync_history', 'ado_sync_history', 'pb_ado_sync_logs'];
+
+export function useSyncRuns(limit: number = 50) {
+  return useQuery({
+    queryKey: ['sync-runs', limit],
+    queryFn: () => getSyncRuns(limit),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+export function useSyncRunItems(run: SyncRun | null) {
+  return useQuery({
+    queryKey: ['sync-run-items', run?.id],
+    queryFn: () => getSyncRunItems(run as SyncRun),
+    enabled: !!run,
+  });
+}
+
+export function useStartManualSync() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (workspaceId: string) => startManualSync(workspaceId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sync-runs'] });
+    },
+  });
+}
+
+// Refetch the history whenever a run is inserted or updated
+export function useSyncHistoryRealtime() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase.channel('sync-history');
+
+    SYNC_HISTORY_TABLES.forEach(table => {
+      channel.on('postgres_changes', { event: '*', schema: 'public', table }, () => {
+        queryClient.invalidateQueries({ queryKey: ['sync-runs'] });
+        queryClient.invalidateQueries({ queryKey: ['sync-run-items'] });
+      });
+    });
+
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,51 @@
+/**
+ * Hook for inspecting and replaying jobs in the sync retry queue
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getSyncJobs,
+  getSyncJobCounts,
+  updateSyncJobPayload,
+  replaySyncJob
+} from '../lib/api/syncJobs';
+import { SyncJobStatus } from '../types/pb-ado-mappings';
+
+export function useSyncJobs(status?: SyncJobStatus) {
+  return useQuery({
+    queryKey: ['sync-jobs', status],
+    queryFn: () => getSyncJobs(status),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+export function useSyncJobCounts() {
+  return useQuery({
+    queryKey: ['sync-job-counts'],
+    queryFn: getSyncJobCounts,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+export function useUpdateSyncJobPayload() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: Record<string, any> }) => updateSyncJobPayload(id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sync-jobs'] });
+    },
+  });
+}
+
+export function useReplaySyncJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload?: Record<string, any> }) => replaySyncJob(id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sync-jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['sync-job-counts'] });
+    },
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Hook for managing pb-ado-sync trigger rules
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getSyncRules,
+  createSyncRule,
+  updateSyncRule,
+  deleteSyncRule,
+  getRecentRuleDecisions,
+  SyncRuleInput
+} from '../lib/api/syncRules';
+
+export function useSyncRules(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: ['sync-rules', workspaceId],
+    queryFn: () => getSyncRules(workspaceId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useRecentRuleDecisions(limit: number = 25) {
+  return useQuery({
+    queryKey: ['sync-rule-decisions', limit],
+    queryFn: () => getRecentRuleDecisions(limit),
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+export function useCreateSyncRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rule: SyncRuleInput) => createSyncRule(rule),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sync-rules'] });
+    },
+  });
+}
+
+export function useUpdateSyncRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rule: Partial<SyncRuleInput> & { id: string }) => updateSyncRule(rule),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sync-rules'] });
+    },
+  });
+}
+
+export function useDeleteSyncRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteSyncRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sync-rules'] });
+    },
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * Hook for simulating a ProductBoard → ADO sync against cached data
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { getSimulationData, getSimulationTargets } from '../lib/api/syncSimulation';
+import { HierarchyMappingConfig } from '../lib/api/hierarchyMapping';
+import { SimulationScope, simulateSync } from '../lib/syncSimulation';
+
+export function useSimulationTargets() {
+  return useQuery({
+    queryKey: ['sync-simulation-targets'],
+    queryFn: getSimulationTargets,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Runs when a target is chosen; the mapping version is part of the key, so saving the mapping reruns it
+export function useSyncSimulation(scope: SimulationScope, targetId: string | null, mapping: HierarchyMappingConfig | undefined) {
+  return useQuery({
+    queryKey: ['sync-simulation', scope, targetId, mapping?.id, mapping?.current_version],
+    queryFn: async () => {
+      if (!targetId || !mapping) {
+        throw new Error('No simulation target or mapping provided');
+      }
+      return simulateSync(await getSimulationData(scope, targetId), mapping);
+    },
+    enabled: !!targetId && !!mapping,
+    staleTime: 0,
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Hook for managing user roles
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getUserProfiles, updateUserRole } from '../lib/api/userProfiles';
+import { UserRole } from '../types/auth';
+
+export function useUserProfiles() {
+  return useQuery({
+    queryKey: ['user-profiles'],
+    queryFn: getUserProfiles,
+  });
+}
+
+export function useUpdateUserRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: UserRole }) => updateUserRole(userId, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-profiles'] });
+    },
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Hook for managing workspaces and their members
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getWorkspaces,
+  createWorkspace,
+  updateWorkspace,
+  getWorkspaceMembers,
+  addWorkspaceMember,
+  removeWorkspaceMember
+} from '../lib/api/workspaces';
+import { Workspace } from '../types/workspace';
+
+type WorkspaceInput = Pick<Workspace, 'name' | 'description' | 'ado_project_id'>;
+
+export function useWorkspaces(enabled = true) {
+  return useQuery({
+    queryKey: ['workspaces'],
+    queryFn: getWorkspaces,
+    enabled,
+  });
+}
+
+export function useCreateWorkspace() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (workspace: WorkspaceInput) => createWorkspace(workspace),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+    },
+  });
+}
+
+export function useUpdateWorkspace() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<WorkspaceInput> }) => updateWorkspace(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+    },
+  });
+}
+
+export function useWorkspaceMembers(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: ['workspace-members', workspaceId],
+    queryFn: () => getWorkspaceMembers(workspaceId!),
+    enabled: !!workspaceId,
+  });
+}
+
+export function useSetWorkspaceMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ workspaceId, userId, member }: { workspaceId: string; userId: string; member: boolean }) =>
+      member ? addWorkspaceMember(workspaceId, userId) : removeWorkspaceMember(workspaceId, userId),
+    onSuccess: (_, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: ['workspace-members', workspaceId] });
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { DEFAULT_WORKSPACE_ID } from '../types/workspace';
+
+/**
+ * The workspace the API services scope their queries to.
+ * Set by the WorkspaceProvider when the user switches workspaces and remembered across reloads.
+ */
+
+const STORAGE_KEY = 'activeWorkspaceId';
+
+let activeWorkspaceId: string =
+  (typeof window !== 'undefined' && window.localStorage.getItem(STORAGE_KEY)) || DEFAULT_WORKSPACE_ID;
+
+// Get the ID of the active workspace
+export function getActiveWorkspaceId(): string {
+  return activeWorkspaceId;
+}
+
+// Make a workspace the active one
+export function setActiveWorkspaceId(workspaceId: string): void {
+  activeWorkspaceId = workspaceId;
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(STORAGE_KEY, workspaceId);
+  }
+}
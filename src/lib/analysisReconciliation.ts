@@ -0,0 +1,174 @@
+/**
+ * Reconciliation of a transcript analysis with the session it analyzed
+ * Maps the decisions, open questions and key points of an analysis to the session stories they
+ * are about and its action items to the session, leaving out what the session already has.
+ * The result is reviewed by the user before buildAnalysisUpdates turns the accepted part into
+ * the updates to write.
+ */
+
+import {
+  ActionItem,
+  ApplyTranscriptAnalysisRequest,
+  GroomingStory,
+  SessionStory,
+  TranscriptAnalysisRecord
+} from '../types/grooming';
+
+export type StoryProposalField = 'decisions' | 'questions' | 'notes';
+
+export interface StoryProposal {
+  sessionStory: SessionStory;
+  title: string;
+  decisions: string[];
+  questions: string[];
+  // Key points, appended to the discussion notes
+  notes: string[];
+  // The story is still pending but the analysis found it discussed
+  markDiscussed: boolean;
+}
+
+export interface AnalysisProposal {
+  analysisId: string;
+  stories: StoryProposal[];
+  actionItems: ActionItem[];
+  // Decisions, questions and key points not linked to a story on the session; they stay in the analysis only
+  unlinkedCount: number;
+}
+
+// Texts that differ only in case, spacing or final punctuation are the same
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').replace(/[.!?;:,\s]+$/, '').trim();
+}
+
+// Texts not in the existing ones, nor repeated
+function newTexts(texts: string[], existing: string[]): string[] {
+  const seen = new Set(existing.map(normalize));
+  return texts.filter(text => {
+    const key = normalize(text);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Texts of the items linked to a story
+function textsFor<T extends { text: string; story_ids?: string[] }>(items: T[], storyId: string): string[] {
+  return items.filter(item => item.story_ids?.includes(storyId)).map(item => item.text);
+}
+
+// Key for the selection of one proposed item
+export function proposalItemKey(sessionStoryId: string, field: StoryProposalField | 'status', index = 0): string {
+  return `${sessionStoryId}:${field}:${index}`;
+}
+
+export function actionItemKey(index: number): string {
+  return `action:${index}`;
+}
+
+// Propose the updates an analysis makes to the stories and action items of its session
+export function proposeSessionUpdates(
+  analysis: TranscriptAnalysisRecord,
+  sessionStories: SessionStory[],
+  currentActionItems: ActionItem[] = []
+): AnalysisProposal {
+  const questions = analysis.questions || [];
+  const discussed = new Set((analysis.story_discussions || []).map(discussion => discussion.story_id));
+
+  const stories = sessionStories
+    .map((sessionStory): StoryProposal => {
+      const storyId = sessionStory.story_id;
+      const story = (sessionStory as SessionStory & { story?: GroomingStory | null }).story;
+      const decisions = newTexts(textsFor(analysis.decisions, storyId), sessionStory.decisions || []);
+      const storyQuestions = newTexts(textsFor(questions, storyId), sessionStory.questions || []);
+      const existingNotes = normalize(sessionStory.discussion_notes || '');
+      const notes = newTexts(textsFor(analysis.key_points, storyId), [])
+        .filter(note => !existingNotes.includes(normalize(note)));
+      const hasResults = decisions.length + storyQuestions.length + notes.length > 0;
+
+      return {
+        sessionStory,
+        title: story?.title || 'Untitled story',
+        decisions,
+        questions: storyQuestions,
+        notes,
+        markDiscussed: sessionStory.status === 'pending' && (hasResults || discussed.has(storyId)),
+      };
+    })
+    .filter(proposal =>
+      proposal.decisions.length + proposal.questions.length + proposal.notes.length > 0 || proposal.markDiscussed
+    );
+
+  const existingItems = new Set(currentActionItems.map(item => normalize(item.description)));
+  const actionItems = analysis.action_items
+    .filter(item => !existingItems.has(normalize(item.text)))
+    .map((item): ActionItem => ({
+      description: item.text,
+      assignee: item.assignee || '',
+      due_date: item.due_date || '',
+      status: item.status === 'completed' ? 'completed' : 'pending',
+      source_analysis_id: analysis.id,
+    }));
+
+  const storyIds = new Set(sessionStories.map(sessionStory => sessionStory.story_id));
+  const isUnlinked = (item: { story_ids?: string[] }) => !item.story_ids?.some(id => storyIds.has(id));
+  const unlinkedCount = [...analysis.decisions, ...questions, ...analysis.key_points].filter(isUnlinked).length;
+
+  return { analysisId: analysis.id, stories, actionItems, unlinkedCount };
+}
+
+// Every item of a proposal, for selecting all of them
+export function allProposalKeys(proposal: AnalysisProposal): string[] {
+  const keys = proposal.stories.flatMap(story => {
+    const id = story.sessionStory.id;
+    return [
+      ...story.decisions.map((_, index) => proposalItemKey(id, 'decisions', index)),
+      ...story.questions.map((_, index) => proposalItemKey(id, 'questions', index)),
+      ...story.notes.map((_, index) => proposalItemKey(id, 'notes', index)),
+      ...(story.markDiscussed ? [proposalItemKey(id, 'status')] : []),
+    ];
+  });
+  return [...keys, ...proposal.actionItems.map((_, index) => actionItemKey(index))];
+}
+
+// The updates of the selected items: new values of the stories that change and of the session's action items
+export function buildAnalysisUpdates(
+  proposal: AnalysisProposal,
+  sessionId: string,
+  currentActionItems: ActionItem[],
+  selected: Set<string>
+): ApplyTranscriptAnalysisRequest {
+  const stories: ApplyTranscriptAnalysisRequest['stories'] = [];
+
+  for (const story of proposal.stories) {
+    const { sessionStory } = story;
+    const pick = (field: StoryProposalField) =>
+      story[field].filter((_, index) => selected.has(proposalItemKey(sessionStory.id, field, index)));
+    const decisions = pick('decisions');
+    const questions = pick('questions');
+    const notes = pick('notes');
+    const markDiscussed = story.markDiscussed && selected.has(proposalItemKey(sessionStory.id, 'status'));
+
+    if (decisions.length + questions.length + notes.length === 0 && !markDiscussed) continue;
+
+    stories.push({
+      id: sessionStory.id,
+      ...(decisions.length > 0 && { decisions: [...(sessionStory.decisions || []), ...decisions] }),
+      ...(questions.length > 0 && { questions: [...(sessionStory.questions || []), ...questions] }),
+      ...(notes.length > 0 && {
+        discussion_notes: [sessionStory.discussion_notes?.trim(), ...notes.map(note => `• ${note}`)]
+          .filter(Boolean)
+          .join('\n'),
+      }),
+      ...(markDiscussed && { status: 'discussed' as const }),
+    });
+  }
+
+  const actionItems = proposal.actionItems.filter((_, index) => selected.has(actionItemKey(index)));
+
+  return {
+    session_id: sessionId,
+    analysis_id: proposal.analysisId,
+    stories,
+    action_items: actionItems.length > 0 ? [...currentActionItems, ...actionItems] : undefined,
+  };
+}
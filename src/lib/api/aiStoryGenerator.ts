@@ -1,32 +1,32 @@
-import { supabase } from '../supabase';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { GeneratedStoryFields, StoryFromIdeaRequest } from '../../types/edgeFunctions';
 
-// Interface matching the expected input for the AI story generator
-export interface StoryGenerationInput {
-  idea: string;
-  domain: string;
-  audience: string;
-  priority: string;
-  parentFeature?: string;
-  component?: string;
-}
+// Input of the AI story generator
+export type StoryGenerationInput = StoryFromIdeaRequest;
 
-// Interface matching the expected output from the AI story generator
-export interface StoryGenerationOutput {
-  title: string;
-  description: string;
-  acceptance_criteria: string;
-  investment_category: string;
-  reach_score: number;
-  impact_score: number;
-  confidence_score: number;
-  effort_score: number;
-  timeframe: string;
-  tags: string[];
-  customer_need_description: string;
+// Output of the AI story generator, or of the fallback used when it can't be reached
+export interface StoryGenerationOutput extends GeneratedStoryFields {
+  ai_fields?: string[]; // Fields the AI generated
+  defaulted_fields?: string[]; // Fields filled with default values because the AI output for them was missing or invalid
   warning?: string; // Optional warning if AI generation failed and fallback to mock
   error?: string;  // Optional error message
 }
 
+// Fields of a generated story, in the order they are shown
+export const STORY_FIELDS: (keyof StoryGenerationOutput)[] = [
+  'title',
+  'description',
+  'acceptance_criteria',
+  'investment_category',
+  'reach_score',
+  'impact_score',
+  'confidence_score',
+  'effort_score',
+  'timeframe',
+  'tags',
+  'customer_need_description',
+];
+
 /**
  * Generates a story from a simple idea using AI
  * Calls the Supabase Edge Function that performs the AI processing
@@ -34,16 +34,7 @@ export interface StoryGenerationOutput {
 export async function generateStoryFromIdea(input: StoryGenerationInput): Promise<StoryGenerationOutput> {
   try {
     // Call the Edge Function with our input
-    const { data, error } = await supabase.functions.invoke('generate-story-from-idea', {
-      body: JSON.stringify(input),
-    });
-    
-    if (error) {
-      console.error('Error calling AI story generator function:', error);
-      throw new Error(`Failed to generate story: ${error.message}`);
-    }
-    
-    return data as StoryGenerationOutput;
+    return await invokeEdgeFunction('generate-story-from-idea', input, { timeoutMs: 90_000 });
   } catch (error) {
     console.error('Error in generateStoryFromIdea:', error);
     
@@ -60,6 +51,8 @@ export async function generateStoryFromIdea(input: StoryGenerationInput): Promis
       timeframe: 'Q3 2025',
       tags: ['enhancement', input.domain, input.audience, input.priority],
       customer_need_description: `Original idea: ${input.idea}`,
+      ai_fields: [],
+      defaulted_fields: STORY_FIELDS,
       error: error instanceof Error ? error.message : 'Unknown error occurred'
     };
   }
@@ -1,7 +1,10 @@
+import { getActiveWorkspaceId } from '../activeWorkspace';
+
 // API version
 const API_VERSION = '7.0';
 const PROXY_URL = 'http://localhost:3008/ado';
 const BATCH_SIZE = 50; // Reduced batch size to avoid URL length issues
+const SYNC_LOG_BATCH_SIZE = 500;
 
 // Basic authentication helper
 function getAuthHeader(apiKey: string): string {
@@ -443,6 +446,7 @@ export async function getLastSyncTime(
     const { data, error } = await supabase
       .from('ado_sync_history')
       .select('last_sync_time')
+      .eq('workspace_id', getActiveWorkspaceId())
       .eq('entity_type', entityType)
       .eq('status', 'success')
       .order('last_sync_time', { ascending: false })
@@ -464,32 +468,62 @@ export async function getLastSyncTime(
   }
 }
 
-// Update the sync history for a specific entity type
+// Item of a sync run as logged to pb_ado_sync_logs: work items by ID, other entities by name
+const toSyncLogPayload = (entityType: string, item: any): Record<string, any> => entityType === 'work_items'
+  ? { ado_work_item_id: item.id, name: item.fields?.['System.Title'] || item.title || null }
+  : { entity_type: entityType, name: item.name || item.path || null };
+
+// Record a sync run for a specific entity type, with the synced items
 export async function updateSyncHistory(
   entityType: string,
-  itemsCount: number,
+  items: any[],
   status: 'success' | 'error' = 'success',
   errorMessage?: string
 ): Promise<void> {
   try {
     // Import supabase dynamically to avoid circular dependencies
     const { supabase } = await import('../supabase');
+    const workspaceId = getActiveWorkspaceId();
     
-    const { error } = await supabase
+    // One row per run, so the sync history page can show every run
+    const { data: run, error } = await supabase
       .from('ado_sync_history')
-      .upsert({
+      .insert({
+        workspace_id: workspaceId,
         entity_type: entityType,
         last_sync_time: new Date().toISOString(),
-        items_synced: itemsCount,
+        items_synced: items.length,
         status,
         error_message: errorMessage,
         created_at: new Date().toISOString()
-      }, {
-        onConflict: 'entity_type'
-      });
+      })
+      .select('id')
+      .single();
     
     if (error) {
       console.error(`Error updating sync history for ${entityType}:`, error);
+      return;
+    }
+
+    // One log row per item, linked to the run, so the run's items can be listed
+    for (let i = 0; i < items.length; i += SYNC_LOG_BATCH_SIZE) {
+      const { error: logError } = await supabase
+        .from('pb_ado_sync_logs')
+        .insert(items.slice(i, i + SYNC_LOG_BATCH_SIZE).map(item => ({
+          workspace_id: workspaceId,
+          operation_type: 'update',
+          status: status === 'success' ? 'completed' : 'failed',
+          error_message: status === 'success' ? null : errorMessage,
+          request_payload: toSyncLogPayload(entityType, item),
+          source_system: 'ado',
+          target_system: 'ado',
+          trigger: 'manual',
+          sync_run_id: String(run.id),
+        })));
+
+      if (logError) {
+        console.error(`Error logging synced ${entityType}:`, logError);
+      }
     }
   } catch (error) {
     console.error(`Error updating sync history for ${entityType}:`, error);
@@ -522,19 +556,19 @@ export async function syncAllData(
     console.log('Fetching work item types from Azure DevOps...');
     const workItemTypes = await getWorkItemTypes(organization, project, apiKey);
     console.log(`Retrieved ${workItemTypes.length} work item types`);
-    await updateSyncHistory('work_item_types', workItemTypes.length);
+    await updateSyncHistory('work_item_types', workItemTypes);
     
     // Fetch area paths
     console.log('Fetching area paths from Azure DevOps...');
     const areaPaths = await getAreaPaths(organization, project, apiKey);
     console.log(`Retrieved ${areaPaths.length} area paths`);
-    await updateSyncHistory('area_paths', areaPaths.length);
+    await updateSyncHistory('area_paths', areaPaths);
     
     // Fetch teams
     console.log('Fetching teams from Azure DevOps...');
     const teams = await getTeams(organization, project, apiKey);
     console.log(`Retrieved ${teams.length} teams`);
-    await updateSyncHistory('teams', teams.length);
+    await updateSyncHistory('teams', teams);
     
     // Fetch work items with hierarchy
     console.log('Fetching work item hierarchy from Azure DevOps...');
@@ -544,10 +578,9 @@ export async function syncAllData(
     const epicCount = Object.keys(hierarchy.epics).length;
     const featureCount = Object.keys(hierarchy.features).length;
     const storyCount = hierarchy.stories.length;
-    const totalWorkItems = epicCount + featureCount + storyCount;
     
     console.log(`Retrieved ${epicCount} epics, ${featureCount} features, and ${storyCount} stories`);
-    await updateSyncHistory('work_items', totalWorkItems);
+    await updateSyncHistory('work_items', [...Object.values(hierarchy.epics), ...Object.values(hierarchy.features), ...hierarchy.stories]);
     
     return {
       success: true,
@@ -1,5 +1,6 @@
 import { supabase } from '../supabase';
 import * as adoApi from './azureDevOps';
+import { getActiveWorkspaceId } from '../activeWorkspace';
 
 // API version
 const API_VERSION = '7.0';
@@ -26,6 +27,7 @@ function mapWorkItemToDb(item: any): Record<string, any> | null {
   };
 
   return {
+    workspace_id: getActiveWorkspaceId(),
     id: item.id,
     url: item.url,
     rev: item.rev,
@@ -65,6 +67,7 @@ function mapRelationToDb(sourceId: number, relation: any): Record<string, any> |
    }
 
    return {
+     workspace_id: getActiveWorkspaceId(),
      source_work_item_id: sourceId,
      target_work_item_id: target_work_item_id,
      target_url: relation.url,
@@ -78,6 +81,7 @@ function mapAreaPathToDb(areaPath: any): Record<string, any> | null {
   if (!areaPath || !areaPath.id) return null;
   
   return {
+    workspace_id: getActiveWorkspaceId(),
     id: areaPath.id,
     name: areaPath.name,
     path: areaPath.path,
@@ -93,6 +97,7 @@ function mapWorkItemTypeToDb(type: any): Record<string, any> | null {
   if (!type || !type.name) return null;
   
   return {
+    workspace_id: getActiveWorkspaceId(),
     name: type.name,
     description: type.description,
     reference_name: type.referenceName,
@@ -110,6 +115,7 @@ function mapTeamToDb(team: any): Record<string, any> | null {
   if (!team || !team.id) return null;
   
   return {
+    workspace_id: getActiveWorkspaceId(),
     id: team.id,
     name: team.name,
     description: team.description,
@@ -145,6 +151,7 @@ export async function fetchWorkItems(
       const { data: cachedItems, error } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .in('id', workItemIds);
       
       // If all items are in cache, return them
@@ -184,7 +191,7 @@ export async function fetchWorkItems(
       console.log(`Caching ${mappedItems.length} work items in Supabase...`);
       const { error: upsertError } = await supabase
         .from('ado_work_items')
-        .upsert(mappedItems, { onConflict: 'id' });
+        .upsert(mappedItems, { onConflict: 'workspace_id,id' });
       
       if (upsertError) {
         console.error('Error caching work items:', upsertError);
@@ -197,6 +204,7 @@ export async function fetchWorkItems(
           const { error: parentError } = await supabase
             .from('ado_work_items')
             .update({ parent_id: update.parent_id })
+            .eq('workspace_id', getActiveWorkspaceId())
             .eq('id', update.id);
           
           if (parentError) {
@@ -214,6 +222,7 @@ export async function fetchWorkItems(
         const { error: deleteError } = await supabase
           .from('ado_work_item_relations')
           .delete()
+          .eq('workspace_id', getActiveWorkspaceId())
           .in('source_work_item_id', sourceIds);
         
         if (deleteError) {
@@ -241,6 +250,7 @@ export async function fetchWorkItems(
       const { data: cachedItems, error: cacheError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .in('id', workItemIds);
       
       if (!cacheError && cachedItems && cachedItems.length > 0) {
@@ -265,7 +275,8 @@ export async function getWorkItemTypes(
     if (!forceRefresh) {
       const { data: cachedTypes, error } = await supabase
         .from('ado_work_item_types')
-        .select('*');
+        .select('*')
+        .eq('workspace_id', getActiveWorkspaceId());
       
       if (!error && cachedTypes && cachedTypes.length > 0) {
         console.log(`Retrieved ${cachedTypes.length} work item types from cache`);
@@ -285,7 +296,7 @@ export async function getWorkItemTypes(
       console.log(`Caching ${mappedTypes.length} work item types in Supabase...`);
       const { error: upsertError } = await supabase
         .from('ado_work_item_types')
-        .upsert(mappedTypes, { onConflict: 'name' });
+        .upsert(mappedTypes, { onConflict: 'workspace_id,name' });
       
       if (upsertError) {
         console.error('Error caching work item types:', upsertError);
@@ -300,7 +311,8 @@ export async function getWorkItemTypes(
     console.log('Attempting to fetch work item types from cache as fallback...');
     const { data: cachedTypes, error: cacheError } = await supabase
       .from('ado_work_item_types')
-      .select('*');
+      .select('*')
+      .eq('workspace_id', getActiveWorkspaceId());
     
     if (!cacheError && cachedTypes && cachedTypes.length > 0) {
       console.log(`Retrieved ${cachedTypes.length} work item types from cache as fallback`);
@@ -324,6 +336,7 @@ export async function getAreaPaths(
       const { data: cachedPaths, error } = await supabase
         .from('ado_area_paths')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .order('path', { ascending: true });
       
       if (!error && cachedPaths && cachedPaths.length > 0) {
@@ -344,7 +357,7 @@ export async function getAreaPaths(
       console.log(`Caching ${mappedPaths.length} area paths in Supabase...`);
       const { error: upsertError } = await supabase
         .from('ado_area_paths')
-        .upsert(mappedPaths, { onConflict: 'id' });
+        .upsert(mappedPaths, { onConflict: 'workspace_id,id' });
       
       if (upsertError) {
         console.error('Error caching area paths:', upsertError);
@@ -360,6 +373,7 @@ export async function getAreaPaths(
     const { data: cachedPaths, error: cacheError } = await supabase
       .from('ado_area_paths')
       .select('*')
+      .eq('workspace_id', getActiveWorkspaceId())
       .order('path', { ascending: true });
     
     if (!cacheError && cachedPaths && cachedPaths.length > 0) {
@@ -383,7 +397,8 @@ export async function getTeams(
     if (!forceRefresh) {
       const { data: cachedTeams, error } = await supabase
         .from('ado_teams')
-        .select('*');
+        .select('*')
+        .eq('workspace_id', getActiveWorkspaceId());
       
       if (!error && cachedTeams && cachedTeams.length > 0) {
         console.log(`Retrieved ${cachedTeams.length} teams from cache`);
@@ -403,7 +418,7 @@ export async function getTeams(
       console.log(`Caching ${mappedTeams.length} teams in Supabase...`);
       const { error: upsertError } = await supabase
         .from('ado_teams')
-        .upsert(mappedTeams, { onConflict: 'id' });
+        .upsert(mappedTeams, { onConflict: 'workspace_id,id' });
       
       if (upsertError) {
         console.error('Error caching teams:', upsertError);
@@ -418,7 +433,8 @@ export async function getTeams(
     console.log('Attempting to fetch teams from cache as fallback...');
     const { data: cachedTeams, error: cacheError } = await supabase
       .from('ado_teams')
-      .select('*');
+      .select('*')
+      .eq('workspace_id', getActiveWorkspaceId());
     
     if (!cacheError && cachedTeams && cachedTeams.length > 0) {
       console.log(`Retrieved ${cachedTeams.length} teams from cache as fallback`);
@@ -472,6 +488,7 @@ export async function getWorkItemsByType(
       const { data: cachedItems, error } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', workItemType);
       
       if (!error && cachedItems && cachedItems.length > 0) {
@@ -498,6 +515,7 @@ export async function getWorkItemsByType(
     const { data: cachedItems, error: cacheError } = await supabase
       .from('ado_work_items')
       .select('*')
+      .eq('workspace_id', getActiveWorkspaceId())
       .eq('type', workItemType);
     
     if (!cacheError && cachedItems && cachedItems.length > 0) {
@@ -584,16 +602,19 @@ export async function getWorkItemsWithHierarchy(
       const { count: epicCount, error: epicError } = await supabase
         .from('ado_work_items')
         .select('*', { count: 'exact', head: true })
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'Epic');
       
       const { count: featureCount, error: featureError } = await supabase
         .from('ado_work_items')
         .select('*', { count: 'exact', head: true })
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'Feature');
       
       const { count: storyCount, error: storyError } = await supabase
         .from('ado_work_items')
         .select('*', { count: 'exact', head: true })
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'User Story');
       
       // If we have data for all types, fetch from cache
@@ -607,22 +628,26 @@ export async function getWorkItemsWithHierarchy(
         const { data: epics, error: epicsError } = await supabase
           .from('ado_work_items')
           .select('*')
+          .eq('workspace_id', getActiveWorkspaceId())
           .eq('type', 'Epic');
         
         const { data: features, error: featuresError } = await supabase
           .from('ado_work_items')
           .select('*')
+          .eq('workspace_id', getActiveWorkspaceId())
           .eq('type', 'Feature');
         
         const { data: stories, error: storiesError } = await supabase
           .from('ado_work_items')
           .select('*')
+          .eq('workspace_id', getActiveWorkspaceId())
           .eq('type', 'User Story');
         
         // Get relations to build hierarchy
         const { data: relations, error: relationsError } = await supabase
           .from('ado_work_item_relations')
           .select('*')
+          .eq('workspace_id', getActiveWorkspaceId())
           .in('rel_type', ['System.LinkTypes.Hierarchy-Forward', 'System.LinkTypes.Hierarchy-Reverse']);
         
         if (!epicsError && !featuresError && !storiesError && !relationsError &&
@@ -683,21 +708,25 @@ export async function getWorkItemsWithHierarchy(
       const { data: epics, error: epicsError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'Epic');
       
       const { data: features, error: featuresError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'Feature');
       
       const { data: stories, error: storiesError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'User Story');
       
       const { data: relations, error: relationsError } = await supabase
         .from('ado_work_item_relations')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .in('rel_type', ['System.LinkTypes.Hierarchy-Forward', 'System.LinkTypes.Hierarchy-Reverse']);
       
       if (!epicsError && !featuresError && !storiesError && !relationsError &&
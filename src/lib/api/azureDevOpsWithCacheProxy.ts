@@ -1,5 +1,6 @@
 import { supabase } from '../supabase';
 import * as adoApi from './azureDevOpsProxy';
+import { getActiveWorkspaceId } from '../activeWorkspace';
 
 // API version
 const API_VERSION = '7.0';
@@ -57,6 +58,7 @@ function mapWorkItemToDb(item: any): Record<string, any> | null {
   // --- END GRANULAR DIAGNOSTIC LOGGING ---
 
   return {
+    workspace_id: getActiveWorkspaceId(),
     id: item.id,
     url: item.url,
     rev: item.rev,
@@ -125,6 +127,7 @@ function mapRelationToDb(sourceId: number, relation: any): Record<string, any> |
    }
 
    return {
+     workspace_id: getActiveWorkspaceId(),
      source_work_item_id: sourceId,
      target_work_item_id: target_work_item_id,
      target_url: relation.url,
@@ -144,6 +147,7 @@ function mapAreaPathToDb(areaPath: any): Record<string, any> | null {
   if (!areaPath || !areaPath.id) return null;
   
   return {
+    workspace_id: getActiveWorkspaceId(),
     id: areaPath.id,
     name: areaPath.name,
     path: areaPath.path,
@@ -159,6 +163,7 @@ function mapWorkItemTypeToDb(type: any): Record<string, any> | null {
   if (!type || !type.name) return null;
   
   return {
+    workspace_id: getActiveWorkspaceId(),
     name: type.name,
     description: type.description,
     reference_name: type.referenceName,
@@ -176,6 +181,7 @@ function mapTeamToDb(team: any): Record<string, any> | null {
   if (!team || !team.id) return null;
   
   return {
+    workspace_id: getActiveWorkspaceId(),
     id: team.id,
     name: team.name,
     description: team.description,
@@ -211,6 +217,7 @@ export async function fetchWorkItems(
       const { data: cachedItems, error } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .in('id', workItemIds);
       
       // If all items are in cache, return them
@@ -264,7 +271,7 @@ export async function fetchWorkItems(
       console.log(`Caching ${mappedItems.length} work items in Supabase...`);
       const { data: upsertData, error: upsertError } = await supabase
         .from('ado_work_items')
-        .upsert(mappedItems, { onConflict: 'id' })
+        .upsert(mappedItems, { onConflict: 'workspace_id,id' })
         .select(); // Select the upserted data to confirm
       
       if (upsertError) {
@@ -290,6 +297,7 @@ export async function fetchWorkItems(
         const { data: existingParents, error: checkError } = await supabase
           .from('ado_work_items')
           .select('id')
+          .eq('workspace_id', getActiveWorkspaceId())
           .in('id', parentIds);
         
         if (checkError) {
@@ -313,7 +321,7 @@ export async function fetchWorkItems(
                 
                 const { error: parentUpsertError } = await supabase
                   .from('ado_work_items')
-                  .upsert(mappedParents, { onConflict: 'id' });
+                  .upsert(mappedParents, { onConflict: 'workspace_id,id' });
                 
                 if (parentUpsertError) {
                   console.error('Error caching missing parents:', parentUpsertError);
@@ -332,6 +340,7 @@ export async function fetchWorkItems(
           const { error: parentError } = await supabase
             .from('ado_work_items')
             .update({ parent_id: update.parent_id })
+            .eq('workspace_id', getActiveWorkspaceId())
             .eq('id', update.id);
           
           if (parentError) {
@@ -349,6 +358,7 @@ export async function fetchWorkItems(
         const { error: deleteError } = await supabase
           .from('ado_work_item_relations')
           .delete()
+          .eq('workspace_id', getActiveWorkspaceId())
           .in('source_work_item_id', sourceIds);
         
         if (deleteError) {
@@ -376,6 +386,7 @@ export async function fetchWorkItems(
       const { data: cachedItems, error: cacheError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .in('id', workItemIds);
       
       if (!cacheError && cachedItems && cachedItems.length > 0) {
@@ -400,7 +411,8 @@ export async function getWorkItemTypes(
     if (!forceRefresh) {
       const { data: cachedTypes, error } = await supabase
         .from('ado_work_item_types')
-        .select('*');
+        .select('*')
+        .eq('workspace_id', getActiveWorkspaceId());
       
       if (!error && cachedTypes && cachedTypes.length > 0) {
         console.log(`Retrieved ${cachedTypes.length} work item types from cache`);
@@ -420,7 +432,7 @@ export async function getWorkItemTypes(
       console.log(`Caching ${mappedTypes.length} work item types in Supabase...`);
       const { error: upsertError } = await supabase
         .from('ado_work_item_types')
-        .upsert(mappedTypes, { onConflict: 'name' });
+        .upsert(mappedTypes, { onConflict: 'workspace_id,name' });
       
       if (upsertError) {
         console.error('Error caching work item types:', upsertError);
@@ -435,7 +447,8 @@ export async function getWorkItemTypes(
     console.log('Attempting to fetch work item types from cache as fallback...');
     const { data: cachedTypes, error: cacheError } = await supabase
       .from('ado_work_item_types')
-      .select('*');
+      .select('*')
+      .eq('workspace_id', getActiveWorkspaceId());
     
     if (!cacheError && cachedTypes && cachedTypes.length > 0) {
       console.log(`Retrieved ${cachedTypes.length} work item types from cache as fallback`);
@@ -459,6 +472,7 @@ export async function getAreaPaths(
       const { data: cachedPaths, error } = await supabase
         .from('ado_area_paths')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .order('path', { ascending: true });
       
       if (!error && cachedPaths && cachedPaths.length > 0) {
@@ -479,7 +493,7 @@ export async function getAreaPaths(
       console.log(`Caching ${mappedPaths.length} area paths in Supabase...`);
       const { error: upsertError } = await supabase
         .from('ado_area_paths')
-        .upsert(mappedPaths, { onConflict: 'id' });
+        .upsert(mappedPaths, { onConflict: 'workspace_id,id' });
       
       if (upsertError) {
         console.error('Error caching area paths:', upsertError);
@@ -495,6 +509,7 @@ export async function getAreaPaths(
     const { data: cachedPaths, error: cacheError } = await supabase
       .from('ado_area_paths')
       .select('*')
+      .eq('workspace_id', getActiveWorkspaceId())
       .order('path', { ascending: true });
     
     if (!cacheError && cachedPaths && cachedPaths.length > 0) {
@@ -518,7 +533,8 @@ export async function getTeams(
     if (!forceRefresh) {
       const { data: cachedTeams, error } = await supabase
         .from('ado_teams')
-        .select('*');
+        .select('*')
+        .eq('workspace_id', getActiveWorkspaceId());
       
       if (!error && cachedTeams && cachedTeams.length > 0) {
         console.log(`Retrieved ${cachedTeams.length} teams from cache`);
@@ -538,7 +554,7 @@ export async function getTeams(
       console.log(`Caching ${mappedTeams.length} teams in Supabase...`);
       const { error: upsertError } = await supabase
         .from('ado_teams')
-        .upsert(mappedTeams, { onConflict: 'id' });
+        .upsert(mappedTeams, { onConflict: 'workspace_id,id' });
       
       if (upsertError) {
         console.error('Error caching teams:', upsertError);
@@ -553,7 +569,8 @@ export async function getTeams(
     console.log('Attempting to fetch teams from cache as fallback...');
     const { data: cachedTeams, error: cacheError } = await supabase
       .from('ado_teams')
-      .select('*');
+      .select('*')
+      .eq('workspace_id', getActiveWorkspaceId());
     
     if (!cacheError && cachedTeams && cachedTeams.length > 0) {
       console.log(`Retrieved ${cachedTeams.length} teams from cache as fallback`);
@@ -609,6 +626,7 @@ export async function getWorkItemsByType(
       const { data: cachedItems, error } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', workItemType);
       
       if (!error && cachedItems && cachedItems.length > 0) {
@@ -635,6 +653,7 @@ export async function getWorkItemsByType(
     const { data: cachedItems, error: cacheError } = await supabase
       .from('ado_work_items')
       .select('*')
+      .eq('workspace_id', getActiveWorkspaceId())
       .eq('type', workItemType);
     
     if (!cacheError && cachedItems && cachedItems.length > 0) {
@@ -722,16 +741,19 @@ export async function getWorkItemsWithHierarchy(
       const { count: epicCount, error: epicError } = await supabase
         .from('ado_work_items')
         .select('*', { count: 'exact', head: true })
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'Epic');
       
       const { count: featureCount, error: featureError } = await supabase
         .from('ado_work_items')
         .select('*', { count: 'exact', head: true })
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'Feature');
       
       const { count: storyCount, error: storyError } = await supabase
         .from('ado_work_items')
         .select('*', { count: 'exact', head: true })
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'User Story');
       
       // If we have data for all types, fetch from cache
@@ -745,22 +767,26 @@ export async function getWorkItemsWithHierarchy(
         const { data: epics, error: epicsError } = await supabase
           .from('ado_work_items')
           .select('*')
+          .eq('workspace_id', getActiveWorkspaceId())
           .eq('type', 'Epic');
         
         const { data: features, error: featuresError } = await supabase
           .from('ado_work_items')
           .select('*')
+          .eq('workspace_id', getActiveWorkspaceId())
           .eq('type', 'Feature');
         
         const { data: stories, error: storiesError } = await supabase
           .from('ado_work_items')
           .select('*')
+          .eq('workspace_id', getActiveWorkspaceId())
           .eq('type', 'User Story');
         
         // Get relations to build hierarchy
         const { data: relations, error: relationsError } = await supabase
           .from('ado_work_item_relations')
           .select('*')
+          .eq('workspace_id', getActiveWorkspaceId())
           .in('rel_type', ['System.LinkTypes.Hierarchy-Forward', 'System.LinkTypes.Hierarchy-Reverse']);
         
         if (!epicsError && !featuresError && !storiesError && !relationsError &&
@@ -834,21 +860,25 @@ export async function getWorkItemsWithHierarchy(
       const { data: epics, error: epicsError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'Epic');
       
       const { data: features, error: featuresError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'Feature');
       
       const { data: stories, error: storiesError } = await supabase
         .from('ado_work_items')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('type', 'User Story');
       
       const { data: relations, error: relationsError } = await supabase
         .from('ado_work_item_relations')
         .select('*')
+        .eq('workspace_id', getActiveWorkspaceId())
         .in('rel_type', ['System.LinkTypes.Hierarchy-Forward', 'System.LinkTypes.Hierarchy-Reverse']);
       
       if (!epicsError && !featuresError && !storiesError && !relationsError &&
@@ -898,14 +928,14 @@ export async function getLastSyncTime(
   return adoApi.getLastSyncTime(entityType);
 }
 
-// Update the sync history for a specific entity type
+// Record a sync run for a specific entity type, with the synced items
 export async function updateSyncHistory(
   entityType: string,
-  itemsCount: number,
+  items: any[],
   status: 'success' | 'error' = 'success',
   errorMessage?: string
 ): Promise<void> {
-  return adoApi.updateSyncHistory(entityType, itemsCount, status, errorMessage);
+  return adoApi.updateSyncHistory(entityType, items, status, errorMessage);
 }
 
 // Manual sync function to force refresh all data
@@ -925,19 +955,19 @@ export async function syncAllData(
     console.log('Fetching work item types from Azure DevOps...');
     const workItemTypes = await getWorkItemTypes(organization, project, apiKey, true);
     console.log(`Retrieved ${workItemTypes.length} work item types`);
-    await updateSyncHistory('work_item_types', workItemTypes.length);
+    await updateSyncHistory('work_item_types', workItemTypes);
     
     // Sync area paths
     console.log('Fetching area paths from Azure DevOps...');
     const areaPaths = await getAreaPaths(organization, project, apiKey, true);
     console.log(`Retrieved ${areaPaths.length} area paths`);
-    await updateSyncHistory('area_paths', areaPaths.length);
+    await updateSyncHistory('area_paths', areaPaths);
     
     // Sync teams
     console.log('Fetching teams from Azure DevOps...');
     const teams = await getTeams(organization, project, apiKey, true);
     console.log(`Retrieved ${teams.length} teams`);
-    await updateSyncHistory('teams', teams.length);
+    await updateSyncHistory('teams', teams);
     
     // Sync work items with hierarchy (this will sync epics, features, and stories)
     console.log('Fetching work item hierarchy from Azure DevOps...');
@@ -947,10 +977,9 @@ export async function syncAllData(
     const epicCount = Object.keys(hierarchy.epics).length;
     const featureCount = Object.keys(hierarchy.features).length;
     const storyCount = hierarchy.stories.length;
-    const totalWorkItems = epicCount + featureCount + storyCount;
     
     console.log(`Retrieved ${epicCount} epics, ${featureCount} features, and ${storyCount} stories`);
-    await updateSyncHistory('work_items', totalWorkItems);
+    await updateSyncHistory('work_items', [...Object.values(hierarchy.epics), ...Object.values(hierarchy.features), ...hierarchy.stories]);
     
     return {
       success: true,
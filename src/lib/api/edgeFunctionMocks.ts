@@ -0,0 +1,86 @@
+/**
+ * Canned edge function responses for local development
+ * Used by invokeEdgeFunction when the dev server runs with VITE_MOCK_EDGE_FUNCTIONS=true;
+ * functions without a mock are still called for real
+ */
+
+import {
+  AIAnalysisResult,
+  EdgeFunctionName,
+  EdgeFunctionRequest,
+  EdgeFunctionResponse
+} from '../../types/edgeFunctions';
+
+type EdgeFunctionMock<Name extends EdgeFunctionName> = (body: EdgeFunctionRequest<Name>) => EdgeFunctionResponse<Name>;
+
+const mockAnalysis = (): AIAnalysisResult => ({
+  key_points: [
+    { id: crypto.randomUUID(), text: 'Need to improve performance', confidence: 0.9 },
+    { id: crypto.randomUUID(), text: 'Mobile responsiveness is a priority', confidence: 0.8 },
+    { id: crypto.randomUUID(), text: 'Consider accessibility requirements', confidence: 0.7 },
+  ],
+  action_items: [
+    { id: crypto.randomUUID(), text: 'Update documentation', assignee: 'Product owner', status: 'open', priority: 'medium' },
+    { id: crypto.randomUUID(), text: 'Create test cases', assignee: 'QA', status: 'open', priority: 'high' },
+  ],
+  decisions: [
+    { id: crypto.randomUUID(), text: 'Use React Query for data fetching' },
+    { id: crypto.randomUUID(), text: 'Prioritize bug fixes over new features' },
+  ],
+  risks: [
+    { id: crypto.randomUUID(), text: 'Performance regressions on large boards', impact: 'medium', likelihood: 'medium' },
+  ],
+  suggestions: [
+    { id: crypto.randomUUID(), text: 'Add more detailed acceptance criteria', category: 'improvement', confidence: 0.8 },
+    { id: crypto.randomUUID(), text: 'Consider breaking into smaller stories', category: 'alternative', confidence: 0.6 },
+  ],
+  sentiment_score: 0.7,
+});
+
+const mocks: { [Name in EdgeFunctionName]?: EdgeFunctionMock<Name> } = {
+  'analyze-transcript': ({ session_id }) => ({
+    id: crypto.randomUUID(),
+    session_id,
+    analysis_type: 'transcript',
+    ...mockAnalysis(),
+    questions: [
+      { id: crypto.randomUUID(), text: 'Who owns the migration of existing data?' },
+    ],
+  }),
+
+  'analyze-story': ({ story_id }) => ({
+    id: crypto.randomUUID(),
+    story_id,
+    analysis_type: 'story',
+    ...mockAnalysis(),
+  }),
+
+  'analyze-story-content': ({ hierarchyLevel = 'story' }) => ({
+    title: `Mock ${hierarchyLevel} title`,
+    description: 'As a user, I want to try the app without an AI provider, so that I can develop locally.',
+    acceptanceCriteria: ['Given the mock mode, when I ask for suggestions, then I get this response'],
+    ai_fields: ['title', 'description', 'acceptanceCriteria'],
+    defaulted_fields: [],
+  }),
+
+  'generate-story-from-idea': ({ idea, domain, audience, priority }) => ({
+    title: `Story for: ${idea.substring(0, 30)}`,
+    description: `As a ${audience} user, I want ${idea}, so that my work gets easier.`,
+    acceptance_criteria: '• The idea is implemented\n• The implementation is tested',
+    investment_category: 'Product Enhancement',
+    reach_score: 50,
+    impact_score: 50,
+    confidence_score: 70,
+    effort_score: 2,
+    timeframe: 'Next quarter',
+    tags: [domain, audience, priority],
+    customer_need_description: `Original idea: ${idea}`,
+    ai_fields: [],
+    defaulted_fields: [],
+  }),
+};
+
+// The mock for a function, if it has one
+export function getEdgeFunctionMock<Name extends EdgeFunctionName>(name: Name): EdgeFunctionMock<Name> | undefined {
+  return mocks[name] as EdgeFunctionMock<Name> | undefined;
+}
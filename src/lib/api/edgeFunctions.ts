@@ -0,0 +1,267 @@
+/**
+ * Typed client for the Supabase edge functions
+ * Adds the auth headers, enforces a timeout, supports cancellation and turns every
+ * kind of failure into an EdgeFunctionError. Functions that report progress can be
+ * called with streamEdgeFunction.
+ */
+
+import { supabase } from '../supabase';
+import {
+  EdgeFunctionName,
+  EdgeFunctionProgress,
+  EdgeFunctionRequest,
+  EdgeFunctionResponse,
+  EdgeFunctionStreamEvent,
+  FunctionErrorBody,
+  StreamingEdgeFunctionName
+} from '../../types/edgeFunctions';
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+const ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+// Canned responses instead of real calls; only honoured by the dev server
+export const isEdgeFunctionMockMode = import.meta.env.DEV && import.meta.env.VITE_MOCK_EDGE_FUNCTIONS === 'true';
+
+export type EdgeFunctionErrorCode =
+  | 'http'     // The function answered with a non-2xx status
+  | 'relay'    // The Supabase relay could not reach the function
+  | 'network'  // The request never got an answer
+  | 'timeout'  // No answer within timeoutMs
+  | 'aborted'  // Cancelled through the caller's signal
+  | 'stream';  // A streamed call reported an error or ended without a result
+
+export class EdgeFunctionError extends Error {
+  readonly functionName: EdgeFunctionName;
+  readonly code: EdgeFunctionErrorCode;
+  // HTTP status, for http and relay errors
+  readonly status: number | null;
+  // The error body returned by the function, if any
+  readonly details: unknown;
+
+  constructor(functionName: EdgeFunctionName, code: EdgeFunctionErrorCode, message: string, status: number | null = null, details?: unknown) {
+    super(`Error calling ${functionName}: ${message}`);
+    this.name = 'EdgeFunctionError';
+    this.functionName = functionName;
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export interface InvokeOptions {
+  // Defaults to one minute; AI functions that read long inputs should pass more
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface StreamOptions<Progress> extends InvokeOptions {
+  // For streams, timeoutMs is the longest wait for the next event
+  onProgress?: (progress: Progress) => void;
+}
+
+// Whether an error is the result of the caller cancelling the call
+export function isEdgeFunctionAbort(error: unknown): boolean {
+  return error instanceof EdgeFunctionError && error.code === 'aborted';
+}
+
+// The signed-in user's access token, or the anon key for anonymous calls
+async function getBearerToken(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token || ANON_KEY;
+}
+
+// Read a response body as JSON when it is JSON, as text otherwise
+async function readBody(response: Response): Promise<unknown> {
+  if (response.status === 204) return null;
+
+  const contentType = response.headers.get('Content-Type') || '';
+  if (contentType.includes('application/json')) {
+    return response.json();
+  }
+  return response.text();
+}
+
+// The error message a function put in its body, or the status text
+function errorMessage(body: unknown, response: Response): string {
+  if (body && typeof body === 'object') {
+    const { error, message } = body as FunctionErrorBody;
+    if (error || message) return String(error || message);
+  }
+  if (typeof body === 'string' && body.trim()) return body.trim();
+  return `${response.status} ${response.statusText}`.trim();
+}
+
+// Wait before answering with a mock, as the real function would
+function mockDelay(signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, 500);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// One controller for both the timeout and the caller's signal; the reason tells them apart
+function startCall(timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  let timer = setTimeout(() => controller.abort('timeout'), timeoutMs);
+  const onAbort = () => controller.abort('aborted');
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    // Start the timeout over, when a stream sends an event
+    restart: () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort('timeout'), timeoutMs);
+    },
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+async function post(name: EdgeFunctionName, body: unknown, signal: AbortSignal): Promise<Response> {
+  const isFormData = body instanceof FormData;
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${await getBearerToken()}`,
+    apikey: ANON_KEY,
+  };
+  if (!isFormData) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  return fetch(`${FUNCTIONS_URL}/${name}`, {
+    method: 'POST',
+    headers,
+    body: isFormData ? body : JSON.stringify(body),
+    signal,
+  });
+}
+
+// Throw the error of a failed response
+async function throwIfFailed(name: EdgeFunctionName, response: Response): Promise<void> {
+  const isRelayError = response.headers.get('x-relay-error') === 'true';
+  if (!isRelayError && response.ok) return;
+
+  const responseBody = await readBody(response);
+  throw new EdgeFunctionError(name, isRelayError ? 'relay' : 'http', errorMessage(responseBody, response), response.status, responseBody);
+}
+
+// Turn whatever a call threw into an EdgeFunctionError
+function toEdgeFunctionError(name: EdgeFunctionName, error: unknown, signal: AbortSignal, timeoutMs: number): EdgeFunctionError {
+  if (error instanceof EdgeFunctionError) return error;
+
+  if (signal.aborted) {
+    return signal.reason === 'timeout'
+      ? new EdgeFunctionError(name, 'timeout', `no response after ${Math.round(timeoutMs / 1000)}s`)
+      : new EdgeFunctionError(name, 'aborted', 'the call was cancelled');
+  }
+  return new EdgeFunctionError(name, 'network', error instanceof Error ? error.message : String(error));
+}
+
+// The canned response for a function in mock mode, if it has one
+async function getMockResponse<Name extends EdgeFunctionName>(
+  name: Name,
+  body: EdgeFunctionRequest<Name>,
+  signal: AbortSignal
+): Promise<EdgeFunctionResponse<Name> | undefined> {
+  if (!isEdgeFunctionMockMode) return undefined;
+
+  const { getEdgeFunctionMock } = await import('./edgeFunctionMocks');
+  const mock = getEdgeFunctionMock(name);
+  if (!mock) {
+    console.warn(`No mock for ${name}, calling the deployed function`);
+    return undefined;
+  }
+  await mockDelay(signal);
+  return mock(body);
+}
+
+// Call an edge function
+export async function invokeEdgeFunction<Name extends EdgeFunctionName>(
+  name: Name,
+  body: EdgeFunctionRequest<Name>,
+  options: InvokeOptions = {}
+): Promise<EdgeFunctionResponse<Name>> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, signal } = options;
+  const call = startCall(timeoutMs, signal);
+
+  try {
+    const mockResponse = await getMockResponse(name, body, call.signal);
+    if (mockResponse !== undefined) return mockResponse;
+
+    const response = await post(name, body, call.signal);
+    await throwIfFailed(name, response);
+
+    return await readBody(response) as EdgeFunctionResponse<Name>;
+  } catch (error) {
+    throw toEdgeFunctionError(name, error, call.signal, timeoutMs);
+  } finally {
+    call.dispose();
+  }
+}
+
+// Call a function that reports progress, passing each progress event to onProgress
+export async function streamEdgeFunction<Name extends StreamingEdgeFunctionName>(
+  name: Name,
+  body: EdgeFunctionRequest<Name>,
+  options: StreamOptions<EdgeFunctionProgress<Name>> = {}
+): Promise<EdgeFunctionResponse<Name>> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, signal, onProgress } = options;
+  const call = startCall(timeoutMs, signal);
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+  try {
+    const mockResponse = await getMockResponse(name, body, call.signal);
+    if (mockResponse !== undefined) return mockResponse;
+
+    const response = await post(name, { ...body, stream: true }, call.signal);
+    await throwIfFailed(name, response);
+
+    // A deployment that predates streaming answers with plain JSON
+    if (!(response.headers.get('Content-Type') || '').includes('application/x-ndjson') || !response.body) {
+      return await readBody(response) as EdgeFunctionResponse<Name>;
+    }
+
+    reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      call.restart();
+
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+
+      for (const line of lines.filter(line => line.trim())) {
+        const event = JSON.parse(line) as EdgeFunctionStreamEvent<EdgeFunctionProgress<Name>, EdgeFunctionResponse<Name>>;
+        if (event.type === 'progress') {
+          onProgress?.(event.progress);
+        } else if (event.type === 'result') {
+          return event.result;
+        } else {
+          throw new EdgeFunctionError(name, 'stream', event.error, response.status, event);
+        }
+      }
+    }
+
+    throw new EdgeFunctionError(name, 'stream', 'the response ended without a result', response.status);
+  } catch (error) {
+    throw toEdgeFunctionError(name, error, call.signal, timeoutMs);
+  } finally {
+    call.dispose();
+    reader?.cancel().catch(() => {});
+  }
+}
@@ -1,5 +1,6 @@
 import { supabase } from '../supabase';
 import { queryClient } from './reactQuery';
+import { getActiveWorkspaceId } from '../activeWorkspace';
 
 // Type definitions
 export interface Feature {
@@ -27,7 +28,8 @@ export async function fetchFeatures(): Promise<Feature[]> {
     // First check if the table exists and has data
     const { count, error: countError } = await supabase
       .from('productboard_features')
-      .select('*', { count: 'exact', head: true });
+      .select('*', { count: 'exact', head: true })
+      .eq('workspace_id', getActiveWorkspaceId());
       
     if (countError) {
       console.error('Error checking features table:', countError);
@@ -52,7 +54,8 @@ export async function fetchFeatures(): Promise<Feature[]> {
     // Now fetch the actual data
     const { data, error } = await supabase
       .from('productboard_features')
-      .select('*');
+      .select('*')
+      .eq('workspace_id', getActiveWorkspaceId());
       
     if (error) {
       console.error('Error fetching features:', error);
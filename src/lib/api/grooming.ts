@@ -4,7 +4,11 @@
  */
 
 import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { invokeEdgeFunction, InvokeOptions, streamEdgeFunction, StreamOptions } from './edgeFunctions';
+import { AnalyzeStoryResponse, AnalyzeTranscriptResponse, TranscriptAnalysisProgress } from '../../types/edgeFunctions';
 import { handleSupabaseError } from '../../../grooming/lib/supabase';
+import { groupStoryHistory, storyVersionPatch, StoryHistoryRow } from '../storyHistory';
 import { 
   GroomingSession, 
   GroomingStory, 
@@ -12,6 +16,7 @@ import {
   Sprint, 
   SprintStory,
   StoryRelationship,
+  StoryChange,
   SessionParticipant,
   AIAnalysis,
   SessionSprint,
@@ -30,6 +35,12 @@ import {
   SplitStoryRequest,
   AnalyzeTranscriptRequest,
   AnalyzeStoryRequest,
+  ApplyTranscriptAnalysisRequest,
+  TranscriptAnalysisRecord,
+  EstimationRound,
+  EstimationVote,
+  CastEstimationVoteRequest,
+  AcceptEstimateRequest,
   AssociateSessionWithSprintRequest,
   SessionFilter,
   StoryFilter,
@@ -51,11 +62,11 @@ export async function getSessions(
     .from('grooming_sessions')
     .select('*', { count: 'exact' });
 
+  // Scope to the requested workspace, defaulting to the active one
+  query = query.eq('workspace_id', filter?.workspace_id || getActiveWorkspaceId());
+
   // Apply filters if provided
   if (filter) {
-    if (filter.workspace_id) {
-      query = query.eq('workspace_id', filter.workspace_id);
-    }
     if (filter.status) {
       query = query.eq('status', filter.status);
     }
@@ -161,6 +172,21 @@ export async function deleteSession(id: string): Promise<void> {
   }
 }
 
+// Set the story under discussion of a live session, or clear it with null; only the facilitator or an admin can.
+// The time spent on the previous story is added to its discussion time
+export async function setCurrentSessionStory(sessionId: string, sessionStoryId: string | null): Promise<GroomingSession> {
+  const { data, error } = await supabase.rpc('set_current_session_story', {
+    p_session_id: sessionId,
+    p_session_story_id: sessionStoryId,
+  });
+
+  if (error) {
+    throw new Error(`Error changing the current story: ${error.message}`);
+  }
+
+  return data as GroomingSession;
+}
+
 // Upload a transcript for a session
 export async function uploadTranscript(sessionId: string, transcript: string): Promise<GroomingSession> {
   const { data, error } = await supabase
@@ -194,11 +220,11 @@ export async function getStories(
     .from('grooming_stories')
     .select('*', { count: 'exact' });
 
+  // Scope to the requested workspace, defaulting to the active one
+  query = query.eq('workspace_id', filter?.workspace_id || getActiveWorkspaceId());
+
   // Apply filters if provided
   if (filter) {
-    if (filter.workspace_id) {
-      query = query.eq('workspace_id', filter.workspace_id);
-    }
     if (filter.status) {
       query = query.eq('status', filter.status);
     }
@@ -258,7 +284,7 @@ export async function getStoryById(id: string): Promise<GroomingStory> {
 export async function createStory(story: CreateStoryRequest): Promise<GroomingStory> {
   const { data, error } = await supabase
     .from('grooming_stories')
-    .insert([story])
+    .insert([{ change_source: 'grooming', ...story }])
     .select()
     .single();
 
@@ -269,11 +295,11 @@ export async function createStory(story: CreateStoryRequest): Promise<GroomingSt
   return data as GroomingStory;
 }
 
-// Update an existing grooming story
+// Update an existing grooming story; the change is recorded in story_history
 export async function updateStory(story: UpdateStoryRequest): Promise<GroomingStory> {
   const { data, error } = await supabase
     .from('grooming_stories')
-    .update(story)
+    .update({ change_source: 'grooming', ...story })
     .eq('id', story.id)
     .select()
     .single();
@@ -285,6 +311,31 @@ export async function updateStory(story: UpdateStoryRequest): Promise<GroomingSt
   return data as GroomingStory;
 }
 
+// Get the changes made to a story, newest first
+export async function getStoryHistory(storyId: string): Promise<StoryChange[]> {
+  const { data, error } = await supabase
+    .from('story_history')
+    .select('*')
+    .eq('story_id', storyId)
+    .order('changed_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Error fetching story history: ${error.message}`);
+  }
+
+  return groupStoryHistory(data as StoryHistoryRow[]);
+}
+
+// Restore a story to the version right after one of its changes; the restore is recorded as a change too
+export async function restoreStoryVersion(storyId: string, changeId: string): Promise<GroomingStory> {
+  const patch = storyVersionPatch(await getStoryHistory(storyId), changeId);
+  if (Object.keys(patch).length === 0) {
+    throw new Error('The story already is at this version');
+  }
+
+  return updateStory({ ...patch, id: storyId, change_source: 'restore' });
+}
+
 // Delete a grooming story
 export async function deleteStory(id: string): Promise<void> {
   const { error } = await supabase
@@ -405,11 +456,11 @@ export async function getSprints(
     .from('sprints')
     .select('*', { count: 'exact' });
 
+  // Scope to the requested workspace, defaulting to the active one
+  query = query.eq('workspace_id', filter?.workspace_id || getActiveWorkspaceId());
+
   // Apply filters if provided
   if (filter) {
-    if (filter.workspace_id) {
-      query = query.eq('workspace_id', filter.workspace_id);
-    }
     if (filter.status) {
       query = query.eq('status', filter.status);
     }
@@ -463,7 +514,7 @@ export async function getSprintById(id: string): Promise<Sprint> {
 export async function createSprint(sprint: CreateSprintRequest): Promise<Sprint> {
   const { data, error } = await supabase
     .from('sprints')
-    .insert([sprint])
+    .insert([{ ...sprint, workspace_id: getActiveWorkspaceId() }])
     .select()
     .single();
 
@@ -688,37 +739,135 @@ export async function removeParticipant(id: string): Promise<void> {
 }
 
 /**
- * AI Analysis
+ * Estimation
  */
 
-// Analyze a transcript
-export async function analyzeTranscript(request: AnalyzeTranscriptRequest): Promise<AIAnalysis> {
-  // This would typically call a Supabase Edge Function
+// Get all estimation rounds of a session story, the latest first
+export async function getEstimationRounds(sessionStoryId: string): Promise<EstimationRound[]> {
+  const { data, error } = await supabase
+    .from('estimation_rounds')
+    .select('*')
+    .eq('session_story_id', sessionStoryId)
+    .order('round_number', { ascending: false });
+
+  if (error) {
+    throw new Error(`Error fetching estimation rounds: ${error.message}`);
+  }
+
+  return data as EstimationRound[];
+}
+
+// Get the votes of a round. Until the round is revealed, only the vote of the current user is returned.
+export async function getEstimationVotes(roundId: string): Promise<EstimationVote[]> {
   const { data, error } = await supabase
-    .functions.invoke('analyze-transcript', {
-      body: request
-    });
+    .from('estimation_votes')
+    .select('*')
+    .eq('round_id', roundId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Error fetching estimation votes: ${error.message}`);
+  }
+
+  return data as EstimationVote[];
+}
+
+// Get the users who have voted in a round, also while the votes are hidden
+export async function getEstimationVoters(roundId: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc('get_estimation_voters', { p_round_id: roundId });
+
+  if (error) {
+    throw new Error(`Error fetching estimation voters: ${error.message}`);
+  }
+
+  return (data || []) as string[];
+}
+
+// Start an estimation round on a session story (facilitator only); an open round of the story is cancelled
+export async function startEstimationRound(sessionStoryId: string): Promise<EstimationRound> {
+  const { data, error } = await supabase.rpc('start_estimation_round', { p_session_story_id: sessionStoryId });
 
   if (error) {
-    throw new Error(`Error analyzing transcript: ${error.message}`);
+    throw new Error(`Error starting estimation round: ${error.message}`);
   }
 
-  return data as AIAnalysis;
+  return data as EstimationRound;
 }
 
-// Analyze a story
-export async function analyzeStory(request: AnalyzeStoryRequest): Promise<AIAnalysis> {
-  // This would typically call a Supabase Edge Function
+// Cast or change the vote of the current user in an open round
+export async function castEstimationVote(request: CastEstimationVoteRequest): Promise<EstimationVote> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('Error casting vote: not signed in');
+  }
+
   const { data, error } = await supabase
-    .functions.invoke('analyze-story', {
-      body: request
-    });
+    .from('estimation_votes')
+    .upsert({ ...request, user_id: user.id }, { onConflict: 'round_id,user_id' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Error casting vote: ${error.message}`);
+  }
+
+  return data as EstimationVote;
+}
+
+// Reveal the votes of a round to everyone (facilitator only)
+export async function revealEstimationRound(roundId: string): Promise<EstimationRound> {
+  const { data, error } = await supabase.rpc('reveal_estimation_round', { p_round_id: roundId });
+
+  if (error) {
+    throw new Error(`Error revealing votes: ${error.message}`);
+  }
+
+  return data as EstimationRound;
+}
+
+// Write the consensus of a revealed round to the story and close the round (facilitator only)
+export async function acceptEstimate(request: AcceptEstimateRequest): Promise<EstimationRound> {
+  const { data, error } = await supabase.rpc('accept_estimation_round', {
+    p_round_id: request.round_id,
+    p_story_points: request.story_points,
+    p_complexity_rating: request.complexity_rating,
+    p_risk_rating: request.risk_rating,
+  });
 
   if (error) {
-    throw new Error(`Error analyzing story: ${error.message}`);
+    throw new Error(`Error accepting estimate: ${error.message}`);
   }
 
-  return data as AIAnalysis;
+  return data as EstimationRound;
+}
+
+/**
+ * AI Analysis
+ */
+
+// Long transcripts take the model a while
+const AI_ANALYSIS_TIMEOUT_MS = 120_000;
+
+// Analyze a transcript; the function stores the analysis and the transcript on the session.
+// Long transcripts are analyzed in parts, so the call is streamed and times out only when no part finishes in time
+export async function analyzeTranscript(
+  request: AnalyzeTranscriptRequest,
+  options?: StreamOptions<TranscriptAnalysisProgress>
+): Promise<AnalyzeTranscriptResponse> {
+  return streamEdgeFunction('analyze-transcript', {
+    session_id: request.sessionId,
+    transcript: request.transcript,
+    format: request.format,
+    segments: request.segments,
+    speakers: request.speakers,
+  }, { timeoutMs: AI_ANALYSIS_TIMEOUT_MS, ...options });
+}
+
+// Analyze a story; the function reads the story, its parent and children itself
+export async function analyzeStory(request: AnalyzeStoryRequest, options?: InvokeOptions): Promise<AnalyzeStoryResponse> {
+  return invokeEdgeFunction('analyze-story', {
+    story_id: request.storyId,
+  }, { timeoutMs: AI_ANALYSIS_TIMEOUT_MS, ...options });
 }
 
 // Get AI analyses for a session
@@ -736,6 +885,61 @@ export async function getSessionAnalyses(sessionId: string): Promise<AIAnalysis[
   return data as AIAnalysis[];
 }
 
+// Get the latest transcript analysis of a session, or null when the session has none
+export async function getLatestTranscriptAnalysis(sessionId: string): Promise<TranscriptAnalysisRecord | null> {
+  const { data, error } = await supabase
+    .from('ai_analyses')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('analysis_type', 'transcript')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching transcript analysis: ${error.message}`);
+  }
+  if (!data) return null;
+
+  // raw_analysis holds the full response; the columns cover analyses stored before it did
+  return {
+    key_points: data.key_points || [],
+    action_items: data.action_items || [],
+    decisions: data.decisions || [],
+    risks: data.risks || [],
+    suggestions: data.suggestions || [],
+    sentiment_score: data.sentiment_score ?? 0.5,
+    questions: [],
+    ...data.raw_analysis,
+    id: data.id,
+    session_id: data.session_id,
+    analysis_type: 'transcript',
+    created_at: data.created_at,
+    applied_at: data.applied_at ?? null,
+  };
+}
+
+// Apply the reviewed results of a transcript analysis to the session stories and the session,
+// linking the stories back to the analysis, and mark the analysis as applied
+export async function applyTranscriptAnalysis(request: ApplyTranscriptAnalysisRequest): Promise<void> {
+  for (const story of request.stories) {
+    await updateSessionStory({ ...story, source_analysis_id: request.analysis_id });
+  }
+
+  if (request.action_items) {
+    await updateSession({ id: request.session_id, action_items: request.action_items });
+  }
+
+  const { error } = await supabase
+    .from('ai_analyses')
+    .update({ applied_at: new Date().toISOString() })
+    .eq('id', request.analysis_id);
+
+  if (error) {
+    throw new Error(`Error marking analysis as applied: ${error.message}`);
+  }
+}
+
 // Get AI analyses for a story
 export async function getStoryAnalyses(storyId: string): Promise<AIAnalysis[]> {
   const { data, error } = await supabase
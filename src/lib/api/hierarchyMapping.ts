@@ -1,4 +1,8 @@
 import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { AreaPathRule, ResolutionTarget, Resolution, RuleCondition, RuleSubject, explainResolution, resolveWithRules } from '../areaPathRules';
+import { MappingSnapshot, toSnapshot } from '../mappingVersions';
+import { MappingReferenceData } from '../mappingValidation';
 
 // Types for the mapping configuration
 export interface HierarchyMappingConfig {
@@ -10,11 +14,31 @@ export interface HierarchyMappingConfig {
   initiative_epic_mappings: InitiativeEpicMapping[];
   user_team_mappings: UserTeamMapping[];
   component_product_mappings: ComponentProductMapping[];
+  // Rules that resolve area paths and teams; when empty, rules are derived from the area path and user team mappings
+  area_path_rules?: AreaPathRule[];
   workspace_id?: string;
+  // Number of the version the configuration was last saved as
+  current_version?: number;
   created_at?: string;
   updated_at?: string;
 }
 
+export type MappingVersionSource = 'save' | 'rollback' | 'import';
+
+// An immutable snapshot of a configuration, recorded on every save
+export interface HierarchyMappingVersion {
+  id: string;
+  mapping_id: string;
+  version_number: number;
+  config: MappingSnapshot;
+  change_note: string;
+  source: MappingVersionSource;
+  restored_from_version: number | null;
+  created_by: string | null;
+  created_by_email?: string | null;
+  created_at: string;
+}
+
 export interface PbToAdoMapping {
   pb_level: 'initiative' | 'feature' | 'subfeature';
   ado_type: 'Epic' | 'Feature' | 'User Story';
@@ -111,7 +135,8 @@ export const DEFAULT_HIERARCHY_MAPPING: HierarchyMappingConfig = {
   ],
   initiative_epic_mappings: [],
   user_team_mappings: [],
-  component_product_mappings: []
+  component_product_mappings: [],
+  area_path_rules: []
 };
 
 /**
@@ -122,7 +147,8 @@ export async function fetchHierarchyMappings(): Promise<HierarchyMappingConfig[]
   try {
     const { data, error } = await supabase
       .from('hierarchy_mappings')
-      .select('*');
+      .select('*')
+      .eq('workspace_id', getActiveWorkspaceId());
       
     if (error) {
       console.error('Error fetching hierarchy mappings:', error);
@@ -138,23 +164,44 @@ export async function fetchHierarchyMappings(): Promise<HierarchyMappingConfig[]
 }
 
 /**
- * Save a hierarchy mapping configuration to Supabase
+ * Save a hierarchy mapping configuration to Supabase as a new version
  * @param mapping The mapping configuration to save
+ * @param changeNote What changed, recorded with the version
+ * @param source Whether the version is a regular save, a rollback or an import
+ * @param restoredFromVersion The version a rollback restores
  * @returns Promise<HierarchyMappingConfig> The saved mapping configuration
  */
-export async function saveHierarchyMapping(mapping: HierarchyMappingConfig): Promise<HierarchyMappingConfig> {
+export async function saveHierarchyMapping(
+  mapping: HierarchyMappingConfig,
+  changeNote: string = '',
+  source: MappingVersionSource = 'save',
+  restoredFromVersion?: number
+): Promise<HierarchyMappingConfig> {
   try {
-    const { data, error } = await supabase
-      .from('hierarchy_mappings')
-      .upsert(mapping)
-      .select()
-      .single();
-      
+    const { data: version, error } = await supabase.rpc('save_hierarchy_mapping_version', {
+      p_mapping_id: mapping.id || null,
+      p_config: toSnapshot(mapping),
+      p_change_note: changeNote,
+      p_workspace_id: mapping.workspace_id || getActiveWorkspaceId(),
+      p_source: source,
+      p_restored_from_version: restoredFromVersion ?? null
+    });
+
     if (error) {
       console.error('Error saving hierarchy mapping:', error);
       throw error;
     }
-    
+
+    const { data, error: fetchError } = await supabase
+      .from('hierarchy_mappings')
+      .select('*')
+      .eq('id', (version as HierarchyMappingVersion).mapping_id)
+      .single();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
     return data;
   } catch (err) {
     console.error('Exception in saveHierarchyMapping:', err);
@@ -163,170 +210,190 @@ export async function saveHierarchyMapping(mapping: HierarchyMappingConfig): Pro
 }
 
 /**
- * Get the appropriate area path for a ProductBoard item based on the mapping configuration
- * @param businessUnit The business unit of the item
- * @param productCode The product code of the item
- * @param team The team of the item
- * @param mappings The mapping configurations to use
- * @returns The area path for the item
+ * Fetch the versions of a hierarchy mapping configuration, newest first
+ * @param mappingId The ID of the mapping configuration
+ * @returns Promise<HierarchyMappingVersion[]> The versions with the email of their author
  */
-export function getAreaPathForItem(
-  businessUnit: string,
-  productCode: string,
-  team: string,
-  mappings: HierarchyMappingConfig[]
-): string {
-  // Use the first mapping configuration for now
-  // In the future, we could add logic to select the appropriate mapping
-  const mapping = mappings[0];
-  
-  // Find the matching area path mapping - try new fields first
-  const areaPathMapping = mapping.area_path_mappings.find(m => {
-    if (m.mapping_type === 'epic') {
-      return m.ado_business_unit === businessUnit;
-    } else if (m.mapping_type === 'feature') {
-      return m.ado_product === productCode;
-    } else if (m.mapping_type === 'story') {
-      return m.ado_team === team;
-    }
-    return false;
+export async function fetchHierarchyMappingVersions(mappingId: string): Promise<HierarchyMappingVersion[]> {
+  const { data, error } = await supabase
+    .from('hierarchy_mapping_versions')
+    .select('*')
+    .eq('mapping_id', mappingId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    throw new Error(`Error fetching hierarchy mapping versions: ${error.message}`);
+  }
+
+  const { data: authors, error: authorsError } = await supabase.rpc('get_hierarchy_mapping_version_authors', {
+    p_mapping_id: mappingId
   });
-  
-  // If found with new fields, return the area path
-  if (areaPathMapping) {
-    return areaPathMapping.area_path;
+
+  if (authorsError) {
+    throw new Error(`Error fetching hierarchy mapping version authors: ${authorsError.message}`);
   }
-  
-  // Legacy support - try the old fields
-  const legacyMapping = mapping.area_path_mappings.find(m => 
-    m.business_unit === businessUnit && 
-    m.product_code === productCode && 
-    m.team === team
+
+  const emails = new Map<string, string>((authors || []).map((author: { user_id: string; email: string }) => [author.user_id, author.email]));
+
+  return (data || []).map(version => ({
+    ...version,
+    created_by_email: version.created_by ? emails.get(version.created_by) || null : null
+  }));
+}
+
+/**
+ * Roll a hierarchy mapping configuration back to an earlier version
+ * The earlier configuration is saved as a new version, so the versions in between are kept.
+ * @param mapping The current mapping configuration
+ * @param version The version to restore
+ * @param changeNote Why the configuration is rolled back
+ * @returns Promise<HierarchyMappingConfig> The restored mapping configuration
+ */
+export async function rollbackHierarchyMapping(
+  mapping: HierarchyMappingConfig,
+  version: HierarchyMappingVersion,
+  changeNote: string
+): Promise<HierarchyMappingConfig> {
+  return saveHierarchyMapping(
+    { ...mapping, ...version.config },
+    changeNote || `Rolled back to version ${version.version_number}`,
+    'rollback',
+    version.version_number
   );
-  
-  // If no exact match, try to find a partial match
-  if (!legacyMapping) {
-    // Try matching just business unit and product code
-    const partialMapping = mapping.area_path_mappings.find(m => 
-      m.business_unit === businessUnit && 
-      m.product_code === productCode
-    );
-    
-    if (partialMapping) {
-      return partialMapping.area_path;
-    }
-    
-    // Try matching just business unit
-    const businessUnitMapping = mapping.area_path_mappings.find(m => 
-      m.business_unit === businessUnit
-    );
-    
-    if (businessUnitMapping) {
-      return businessUnitMapping.area_path;
-    }
-    
-    // Default to the first mapping's area path
-    return mapping.area_path_mappings[0]?.area_path || 'Unknown';
+}
+
+/**
+ * Fetch the Azure DevOps area paths and ProductBoard IDs a configuration is validated against
+ * @returns Promise<MappingReferenceData> The known area paths and initiative, component and product IDs
+ */
+export async function fetchMappingReferenceData(): Promise<MappingReferenceData> {
+  const [areaPaths, initiatives, components, products] = await Promise.all([
+    supabase.from('ado_area_paths').select('path'),
+    supabase.from('productboard_initiatives').select('id'),
+    supabase.from('productboard_components').select('id, productboard_id'),
+    supabase.from('productboard_products').select('id, productboard_id')
+  ]);
+
+  const error = areaPaths.error || initiatives.error || components.error || products.error;
+  if (error) {
+    throw new Error(`Error fetching mapping reference data: ${error.message}`);
   }
-  
-  return legacyMapping.area_path;
+
+  // Mappings refer to components and products by their ProductBoard ID or by their row ID
+  const ids = (rows: { id: number | string; productboard_id: string }[] | null) =>
+    (rows || []).flatMap(row => [String(row.id), row.productboard_id]);
+
+  return {
+    areaPaths: (areaPaths.data || []).map(row => row.path),
+    initiativeIds: (initiatives.data || []).map(row => String(row.id)),
+    componentIds: ids(components.data),
+    productIds: ids(products.data)
+  };
+}
+
+// Conditions on the ProductBoard fields of a legacy mapping; the ADO-side fields do not describe the item
+function legacyConditions(fields: [RuleCondition['field'], string | undefined][]): RuleCondition[] {
+  return fields
+    .filter(([, value]) => !!value?.trim())
+    .map(([field, value]) => ({ field, operator: 'equals', value: value as string }));
 }
 
 /**
- * Get the appropriate team for a story based on user, component, and business unit
- * @param userEmail The email of the user (owner)
- * @param componentId The component ID
- * @param businessUnit The business unit
- * @param mappings The mapping configurations to use
- * @returns The team for the story
+ * Get the rules that resolve area paths and teams for a mapping configuration
+ * Configurations without rules get one rule per area path mapping and user team mapping that names
+ * a ProductBoard initiative, component, product or user, tried in the order of the mappings.
+ * @param mapping The mapping configuration
+ * @returns The resolution rules
  */
-export function getTeamForStory(
-  userEmail: string,
-  componentId: string,
-  businessUnit: string,
-  mappings: HierarchyMappingConfig[]
-): string {
-  // Use the first mapping configuration for now
-  const mapping = mappings[0];
-  
-  // Find the component product mapping to get the product code
-  const componentMapping = mapping.component_product_mappings.find(m => 
-    m.component_id === componentId
-  );
-  
-  const productCode = componentMapping?.product_name || '';
-  
-  // Find the matching user team mapping with exact match
-  const userTeamMapping = mapping.user_team_mappings.find(m => 
-    m.user_email === userEmail && 
-    m.product_code === productCode && 
-    m.business_unit === businessUnit
-  );
-  
-  // If no exact match, try to find a partial match
-  if (!userTeamMapping) {
-    // Try matching just user email and product code
-    const userProductMapping = mapping.user_team_mappings.find(m => 
-      m.user_email === userEmail && 
-      m.product_code === productCode
-    );
-    
-    if (userProductMapping) {
-      return userProductMapping.team;
-    }
-    
-    // Try matching just user email and business unit
-    const userBuMapping = mapping.user_team_mappings.find(m => 
-      m.user_email === userEmail && 
-      m.business_unit === businessUnit
-    );
-    
-    if (userBuMapping) {
-      return userBuMapping.team;
-    }
-    
-    // Try matching just user email
-    const userMapping = mapping.user_team_mappings.find(m => 
-      m.user_email === userEmail
-    );
-    
-    if (userMapping) {
-      return userMapping.team;
-    }
-    
-    // Try matching just product code and business unit
-    const productBuMapping = mapping.user_team_mappings.find(m => 
-      m.product_code === productCode && 
-      m.business_unit === businessUnit
-    );
-    
-    if (productBuMapping) {
-      return productBuMapping.team;
-    }
-    
-    // Try matching just product code
-    const productMapping = mapping.user_team_mappings.find(m => 
-      m.product_code === productCode
-    );
-    
-    if (productMapping) {
-      return productMapping.team;
-    }
-    
-    // Try matching just business unit
-    const buMapping = mapping.user_team_mappings.find(m => 
-      m.business_unit === businessUnit
-    );
-    
-    if (buMapping) {
-      return buMapping.team;
-    }
-    
-    // Default to the first mapping's team
-    return mapping.user_team_mappings[0]?.team || 'Unknown';
+export function getResolutionRules(mapping: HierarchyMappingConfig): AreaPathRule[] {
+  if (mapping.area_path_rules && mapping.area_path_rules.length > 0) {
+    return mapping.area_path_rules;
   }
-  
-  return userTeamMapping.team;
+
+  const areaPathRules = mapping.area_path_mappings
+    .map((m, index): AreaPathRule => ({
+      id: `area-path-mapping-${index}`,
+      name: m.description || `Area path mapping ${index + 1}`,
+      priority: index + 1,
+      enabled: true,
+      conditions: legacyConditions([
+        ['initiative', m.pb_initiative_name],
+        ['component', m.pb_component_name],
+        ['product', m.pb_product_name],
+        ['owner_email', m.pb_user_email]
+      ]),
+      area_path: m.area_path
+    }))
+    .filter(rule => rule.conditions.length > 0);
+
+  const teamRules = (mapping.user_team_mappings || [])
+    .map((m, index): AreaPathRule => ({
+      id: `user-team-mapping-${index}`,
+      name: m.description || `User team mapping ${index + 1}`,
+      priority: index + 1,
+      enabled: true,
+      conditions: legacyConditions([
+        ['owner_email', m.user_email],
+        ['component', m.pb_component_name],
+        ['product', m.pb_product_name]
+      ]),
+      team: m.team
+    }))
+    .filter(rule => rule.conditions.length > 0);
+
+  return [...areaPathRules, ...teamRules];
+}
+
+// Fill in the product of the item's component from the component product mappings
+function withMappedProduct(item: RuleSubject, mapping: HierarchyMappingConfig): RuleSubject {
+  if (item.product || !item.component) {
+    return item;
+  }
+
+  const component = item.component.trim().toLowerCase();
+  const componentMapping = (mapping.component_product_mappings || []).find(m =>
+    m.component_id === item.component || m.component_name?.trim().toLowerCase() === component
+  );
+
+  return componentMapping ? { ...item, product: componentMapping.product_name } : item;
+}
+
+/**
+ * Explain how the area path or team of a ProductBoard item is resolved: which rule fired and why,
+ * or why no rule matched
+ * @param item The initiative, component, product, owner email and tags of the item
+ * @param mapping The mapping configuration to use
+ * @param target Whether to resolve the area path or the team
+ * @returns The resolution with the rules that were tried
+ */
+export function explainAreaPath(
+  item: RuleSubject,
+  mapping: HierarchyMappingConfig,
+  target: ResolutionTarget = 'area_path'
+): Resolution {
+  return explainResolution(withMappedProduct(item, mapping), getResolutionRules(mapping), target);
+}
+
+/**
+ * Get the area path for a ProductBoard item from the first matching resolution rule
+ * @param item The initiative, component, product, owner email and tags of the item
+ * @param mapping The mapping configuration to use
+ * @returns The area path for the item
+ * @throws AreaPathResolutionError when no rule matches the item
+ */
+export function getAreaPathForItem(item: RuleSubject, mapping: HierarchyMappingConfig): string {
+  return resolveWithRules(withMappedProduct(item, mapping), getResolutionRules(mapping), 'area_path');
+}
+
+/**
+ * Get the team for a story from the first matching resolution rule
+ * @param item The initiative, component, product, owner email and tags of the story
+ * @param mapping The mapping configuration to use
+ * @returns The team for the story
+ * @throws AreaPathResolutionError when no rule matches the story
+ */
+export function getTeamForStory(item: RuleSubject, mapping: HierarchyMappingConfig): string {
+  return resolveWithRules(withMappedProduct(item, mapping), getResolutionRules(mapping), 'team');
 }
 
 /**
@@ -0,0 +1,226 @@
+/**
+ * API service for matching ProductBoard features to existing Azure DevOps work items
+ * Candidates are scored from cached data; accepted matches are stored as enhanced mappings
+ * and the ADO link is pushed to ProductBoard by the pb-link-updater function
+ */
+
+import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { HierarchyMappingConfig, explainAreaPath, getAdoTypeForPbLevel } from './hierarchyMapping';
+import {
+  fetchCachedComponents,
+  fetchCachedFeatures,
+  fetchCachedInitiatives,
+  featureRuleSubject,
+  initiativeIdOf,
+  initiativeName,
+  isSubfeature
+} from './syncSimulation';
+import { MatchCandidate, MatchableAdoItem, MatchablePbItem } from '../pbAdoMatching';
+import { adoWorkItemWebUrl, pbIdFromUrl } from '../../../supabase/functions/_shared/pbAdoLinks';
+
+export interface MatchingData {
+  pbItems: MatchablePbItem[];
+  adoItems: MatchableAdoItem[];
+  // ProductBoard ID to ADO work item ID of the links that already exist
+  knownLinks: Map<string, number>;
+}
+
+export interface AcceptMatchResult {
+  pbId: string;
+  adoId: number;
+  // Whether the ADO link was added to the ProductBoard feature
+  linked: boolean;
+  error?: string;
+}
+
+// Load the ProductBoard features and ADO work items of the active workspace, with what the mapping expects of each feature
+export async function getMatchingData(mapping: HierarchyMappingConfig): Promise<MatchingData> {
+  const workspaceId = getActiveWorkspaceId();
+  const [features, initiatives, components, workItems, relations, enhancedMappings, legacyMappings] = await Promise.all([
+    fetchCachedFeatures(),
+    fetchCachedInitiatives(),
+    fetchCachedComponents(),
+    supabase
+      .from('ado_work_items')
+      .select('id, title, type, area_path, parent_id, url')
+      .eq('workspace_id', workspaceId),
+    supabase
+      .from('ado_work_item_relations')
+      .select('source_work_item_id, target_url')
+      .eq('workspace_id', workspaceId)
+      .eq('rel_type', 'Hyperlink')
+      .ilike('target_url', '%productboard.com%'),
+    supabase
+      .from('pb_ado_enhanced_mappings')
+      .select('pb_feature_id, ado_work_item_id')
+      .eq('workspace_id', workspaceId)
+      .not('ado_work_item_id', 'is', null),
+    supabase
+      .from('pb_ado_mappings')
+      .select('productboard_id, ado_work_item_id')
+      .eq('workspace_id', workspaceId)
+  ]);
+
+  const error = workItems.error || relations.error || enhancedMappings.error || legacyMappings.error;
+  if (error) {
+    throw new Error(`Error loading matching data: ${error.message}`);
+  }
+
+  const componentNames = new Map(components.map(component => [component.id, component.name]));
+  const initiativeNames = new Map(initiatives.map(row => [String(row.id), initiativeName(row)]));
+  const featureById = new Map(features.map(feature => [feature.productboard_id, feature]));
+
+  const pbItems: MatchablePbItem[] = features.map(feature => {
+    const level = isSubfeature(feature) ? 'subfeature' : 'feature';
+    const parent = level === 'subfeature' && feature.parent_id ? featureById.get(feature.parent_id) : undefined;
+    const areaPath = explainAreaPath(featureRuleSubject(feature, parent, componentNames, initiativeNames), mapping);
+
+    return {
+      id: feature.productboard_id,
+      name: feature.name,
+      level,
+      parentId: level === 'subfeature' ? feature.parent_id || null : initiativeIdOf(feature),
+      expectedType: getAdoTypeForPbLevel(level, [mapping]),
+      expectedAreaPath: areaPath.value
+    };
+  });
+
+  const linkedPbIds = new Map<number, string[]>();
+  (relations.data || []).forEach(relation => {
+    const pbId = pbIdFromUrl(relation.target_url);
+    if (pbId) {
+      linkedPbIds.set(relation.source_work_item_id, [...(linkedPbIds.get(relation.source_work_item_id) || []), pbId]);
+    }
+  });
+
+  const adoItems: MatchableAdoItem[] = (workItems.data || []).map(row => ({
+    id: row.id,
+    title: row.title || '',
+    type: row.type,
+    areaPath: row.area_path,
+    parentId: row.parent_id,
+    linkedPbIds: linkedPbIds.get(row.id) || [],
+    url: adoWorkItemWebUrl(row)
+  }));
+
+  const knownLinks = new Map<string, number>();
+  (legacyMappings.data || []).forEach(link => {
+    if (link.ado_work_item_id) knownLinks.set(link.productboard_id, Number(link.ado_work_item_id));
+  });
+  (enhancedMappings.data || []).forEach(link => knownLinks.set(link.pb_feature_id, Number(link.ado_work_item_id)));
+
+  return { pbItems, adoItems, knownLinks };
+}
+
+// How a mapping was matched, kept in its metadata
+function matchMetadata(match: MatchCandidate, acceptedAt: string): Record<string, any> {
+  return {
+    matched: {
+      confidence: match.confidence,
+      evidence: match.evidence,
+      signals: match.signals,
+      accepted_at: acceptedAt
+    }
+  };
+}
+
+// ProductBoard features that already have an enhanced mapping in another workspace
+async function featuresMappedElsewhere(pbIds: string[], workspaceId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('pb_ado_enhanced_mappings')
+    .select('pb_feature_id')
+    .in('pb_feature_id', pbIds)
+    .neq('workspace_id', workspaceId);
+
+  if (error) {
+    throw new Error(`Error checking existing mappings: ${error.message}`);
+  }
+
+  return new Set((data || []).map(row => row.pb_feature_id));
+}
+
+// Store accepted matches as enhanced mappings, then add each ADO link to its ProductBoard feature
+// A feature has one enhanced mapping across all workspaces, so one mapped in another workspace is left alone
+export async function acceptMatches(matches: MatchCandidate[]): Promise<AcceptMatchResult[]> {
+  if (matches.length === 0) return [];
+
+  const workspaceId = getActiveWorkspaceId();
+  const mappedElsewhere = await featuresMappedElsewhere(matches.map(match => match.pbItem.id), workspaceId);
+  const accepted = matches.filter(match => !mappedElsewhere.has(match.pbItem.id));
+
+  const acceptedAt = new Date().toISOString();
+  const mappingIds = new Map<string, string>();
+  if (accepted.length > 0) {
+    const { data, error } = await supabase
+      .from('pb_ado_enhanced_mappings')
+      .upsert(
+        accepted.map(match => ({
+          pb_feature_id: match.pbItem.id,
+          ado_work_item_id: match.adoItem.id,
+          status: 'pending',
+          origin_system: 'productboard',
+          item_type: match.pbItem.level === 'subfeature' ? 'story' : 'feature',
+          workspace_id: workspaceId,
+          metadata: matchMetadata(match, acceptedAt)
+        })),
+        { onConflict: 'pb_feature_id' }
+      )
+      .select('id, pb_feature_id');
+
+    if (error) {
+      throw new Error(`Error saving matches: ${error.message}`);
+    }
+
+    (data || []).forEach(row => mappingIds.set(row.pb_feature_id, row.id));
+  }
+
+  const results: AcceptMatchResult[] = [];
+
+  // One at a time, so a large batch does not flood the ProductBoard API
+  for (const match of matches) {
+    const result: AcceptMatchResult = { pbId: match.pbItem.id, adoId: match.adoItem.id, linked: false };
+
+    if (mappedElsewhere.has(match.pbItem.id)) {
+      result.error = 'The ProductBoard feature is already mapped in another workspace';
+      results.push(result);
+      continue;
+    }
+
+    if (!match.adoItem.url) {
+      result.error = `No URL cached for work item #${match.adoItem.id}`;
+    } else {
+      try {
+        const response = await invokeEdgeFunction('pb-link-updater', {
+          productboard_id: match.pbItem.id,
+          ado_work_item_id: match.adoItem.id,
+          ado_work_item_url: match.adoItem.url
+        });
+        result.linked = response.success;
+        if (!response.success) result.error = response.error || 'ProductBoard link was not updated';
+      } catch (linkError) {
+        result.error = linkError instanceof Error ? linkError.message : String(linkError);
+      }
+    }
+
+    const mappingId = mappingIds.get(match.pbItem.id);
+    if (mappingId) {
+      const { error: updateError } = await supabase
+        .from('pb_ado_enhanced_mappings')
+        .update({
+          status: result.linked ? 'synced' : 'error',
+          ...(result.error && { metadata: { ...matchMetadata(match, acceptedAt), error: result.error } })
+        })
+        .eq('id', mappingId);
+
+      if (updateError) {
+        result.error = `${result.error ? `${result.error}; ` : ''}Error updating mapping status: ${updateError.message}`;
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
@@ -2,8 +2,8 @@ import { supabase } from '../supabase';
 import { Story, CommitmentStatus } from '../../types/story-creator';
 import { ProductBoardFeature, ProductBoardPushOptions, ProductBoardPushResult } from '../../types/productboard';
 import { createProductBoardAdapter, updateStoryWithProductBoardId, storeAdoProductBoardMapping } from './adapters/productBoardAdapters';
-import { PRODUCTBOARD_API_URL } from '../../config/constants';
-import { getSystemConfig } from './systemConfig';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { invokeEdgeFunction } from './edgeFunctions';
 
 /**
  * API service for interacting with ProductBoard
@@ -11,29 +11,22 @@ import { getSystemConfig } from './systemConfig';
  */
 
 /**
- * Get the ProductBoard API token from system configuration
+ * Call the ProductBoard API through the productboard-api edge function, which adds the
+ * API token server-side so it never reaches the browser
+ * @returns The ProductBoard response, as if it had been fetched directly
  */
-async function getProductBoardToken(): Promise<string> {
-  try {
-    const apiToken = await getSystemConfig('productboard_api_token');
-    
-    // If token is empty, try to get it from environment variables as fallback
-    if (!apiToken) {
-      console.warn('ProductBoard API token not found in system config, checking environment variables as fallback');
-      const envToken = import.meta.env.VITE_PRODUCTBOARD_API_TOKEN || '';
-      
-      if (envToken) {
-        return envToken;
-      }
-      
-      throw new Error('ProductBoard API token not configured');
-    }
-    
-    return apiToken;
-  } catch (error) {
-    console.error('Error retrieving ProductBoard token:', error);
-    throw new Error(`Failed to get ProductBoard API token: ${error instanceof Error ? error.message : String(error)}`);
-  }
+async function productBoardFetch(path: string, init: { method?: 'GET' | 'POST' | 'PUT'; body?: unknown } = {}): Promise<Response> {
+  const data = await invokeEdgeFunction('productboard-api', {
+    method: init.method || 'GET',
+    path,
+    body: init.body,
+    workspace_id: getActiveWorkspaceId(),
+  });
+  
+  const body = data.body === null || data.status === 204
+    ? null
+    : typeof data.body === 'string' ? data.body : JSON.stringify(data.body);
+  return new Response(body, { status: data.status });
 }
 
 /**
@@ -49,8 +42,6 @@ export async function pushToProductBoard(
   options: ProductBoardPushOptions = {}
 ): Promise<ProductBoardPushResult> {
   try {
-    const apiToken = await getProductBoardToken();
-    
     // Apply option overrides if specified
     if (options.parentId) feature.parent_id = options.parentId;
     if (options.productId) feature.product_id = options.productId;
@@ -59,20 +50,10 @@ export async function pushToProductBoard(
     
     // Determine if we're creating or updating
     const method = feature.id ? 'PUT' : 'POST';
-    const url = feature.id 
-      ? `${PRODUCTBOARD_API_URL}/features/${feature.id}`
-      : `${PRODUCTBOARD_API_URL}/features`;
+    const path = feature.id ? `/features/${feature.id}` : '/features';
     
     // Make the API request
-    const response = await fetch(url, {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Version': '1',
-        'Authorization': `Bearer ${apiToken}`
-      },
-      body: JSON.stringify(feature)
-    });
+    const response = await productBoardFetch(path, { method, body: feature });
     
     if (!response.ok) {
       const errorText = await response.text();
@@ -176,15 +157,7 @@ export async function pushAdoWorkItemToProductBoard(
  */
 export async function getProductBoardFeature(id: string): Promise<ProductBoardFeature | null> {
   try {
-    const apiToken = await getProductBoardToken();
-    
-    const response = await fetch(`${PRODUCTBOARD_API_URL}/features/${id}`, {
-      method: 'GET',
-      headers: {
-        'X-Version': '1',
-        'Authorization': `Bearer ${apiToken}`
-      }
-    });
+    const response = await productBoardFetch(`/features/${id}`);
     
     if (!response.ok) {
       const errorText = await response.text();
@@ -214,8 +187,6 @@ export async function pullStoriesFromProductBoard(options: {
   limit?: number;
 } = {}): Promise<string[]> {
   try {
-    const apiToken = await getProductBoardToken();
-    
     // Build the query parameters
     const queryParams = new URLSearchParams();
     
@@ -228,14 +199,7 @@ export async function pullStoriesFromProductBoard(options: {
     }
     
     // Fetch features from ProductBoard
-    const url = `${PRODUCTBOARD_API_URL}/features?${queryParams.toString()}`;
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'X-Version': '1',
-        'Authorization': `Bearer ${apiToken}`
-      }
-    });
+    const response = await productBoardFetch(`/features?${queryParams.toString()}`);
     
     if (!response.ok) {
       const errorText = await response.text();
@@ -251,6 +215,7 @@ export async function pullStoriesFromProductBoard(options: {
       const { data: existingStory } = await supabase
         .from('stories')
         .select('id')
+        .eq('workspace_id', getActiveWorkspaceId())
         .eq('productboard_id', feature.id)
         .maybeSingle();
       
@@ -276,6 +241,7 @@ export async function pullStoriesFromProductBoard(options: {
           .from('stories')
           .insert({
             ...story,
+            workspace_id: getActiveWorkspaceId(),
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           })
@@ -363,16 +329,8 @@ const mapProductBoardToStatus = (status: string): CommitmentStatus | undefined =
  */
 export async function getProductBoardProjects(): Promise<any[]> {
   try {
-    const apiToken = await getProductBoardToken();
-    
     // Fetch projects from ProductBoard
-    const response = await fetch(`${PRODUCTBOARD_API_URL}/products`, {
-      method: 'GET',
-      headers: {
-        'X-Version': '1',
-        'Authorization': `Bearer ${apiToken}`
-      }
-    });
+    const response = await productBoardFetch('/products');
     
     if (!response.ok) {
       const errorText = await response.text();
@@ -392,16 +350,8 @@ export async function getProductBoardProjects(): Promise<any[]> {
  */
 export async function getProductBoardUsers(): Promise<any[]> {
   try {
-    const apiToken = await getProductBoardToken();
-    
     // Fetch users from ProductBoard
-    const response = await fetch(`${PRODUCTBOARD_API_URL}/users`, {
-      method: 'GET',
-      headers: {
-        'X-Version': '1',
-        'Authorization': `Bearer ${apiToken}`
-      }
-    });
+    const response = await productBoardFetch('/users');
     
     if (!response.ok) {
       const errorText = await response.text();
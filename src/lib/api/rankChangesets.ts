@@ -0,0 +1,84 @@
+/**
+ * API service for ADO rank changesets
+ * Ranking syncs propose ADO backlog order changes; the apply-rank-changeset function applies approved ones
+ */
+
+import { supabase } from '../supabase';
+import { invokeEdgeFunction } from './edgeFunctions';
+import {
+  RankChangeset,
+  RankChangesetItem,
+  RankChangesetResult
+} from '../../types/rankings';
+
+// Get the rank changesets of a workspace, newest first
+export async function getRankChangesets(workspaceId: string, limit: number = 50): Promise<RankChangeset[]> {
+  const { data, error } = await supabase
+    .from('ado_rank_changesets')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error fetching rank changesets: ${error.message}`);
+  }
+
+  return data as RankChangeset[];
+}
+
+// Get the items of a changeset grouped by team backlog, in proposed order
+export async function getRankChangesetItems(changesetId: string): Promise<RankChangesetItem[]> {
+  const { data, error } = await supabase
+    .from('ado_rank_changeset_items')
+    .select('*')
+    .eq('changeset_id', changesetId)
+    .order('team_backlog', { ascending: true })
+    .order('proposed_position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Error fetching rank changeset items: ${error.message}`);
+  }
+
+  return data as RankChangesetItem[];
+}
+
+// Include or exclude a single change from the apply
+export async function setRankChangesetItemApproval(id: string, approved: boolean): Promise<RankChangesetItem> {
+  const { data, error } = await supabase
+    .from('ado_rank_changeset_items')
+    .update({ approved })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Error updating rank change approval: ${error.message}`);
+  }
+
+  return data as RankChangesetItem;
+}
+
+// Reject a pending changeset so none of its changes are applied
+export async function rejectRankChangeset(id: string): Promise<RankChangeset> {
+  const { data, error } = await supabase
+    .from('ado_rank_changesets')
+    .update({ status: 'rejected', rejected_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Error rejecting rank changeset: ${error.message}`);
+  }
+
+  return data as RankChangeset;
+}
+
+// Apply the approved changes of a changeset, or roll back the changes that were applied
+export async function runRankChangeset(id: string, action: 'apply' | 'rollback'): Promise<RankChangesetResult> {
+  const data = await invokeEdgeFunction('apply-rank-changeset', { changeset_id: id, action });
+
+  return data as RankChangesetResult;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RankingSnapshotEntry } from '../../types/rankings';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { diffSnapshots } from './rankings';
+
+function entries(ranked: [string, number][], syncHistoryId = 'sync-1'): RankingSnapshotEntry[] {
+  return ranked.map(([storyId, rank]) => ({
+    sync_history_id: syncHistoryId,
+    story_id: storyId,
+    story_name: `Story ${storyId}`,
+    rank,
+    captured_at: '2026-01-01T10:00:00Z',
+  }));
+}
+
+describe('diffSnapshots', () => {
+  it('should report items that moved up, down or stayed, biggest movers first', () => {
+    const diffs = diffSnapshots(
+      entries([['a', 1], ['b', 2], ['c', 3], ['d', 4]]),
+      entries([['d', 1], ['a', 2], ['b', 3], ['c', 4]], 'sync-2')
+    );
+
+    expect(diffs.map(diff => [diff.story_id, diff.from_rank, diff.to_rank, diff.change, diff.direction])).toEqual([
+      ['d', 4, 1, 3, 'up'],
+      ['a', 1, 2, -1, 'down'],
+      ['b', 2, 3, -1, 'down'],
+      ['c', 3, 4, -1, 'down'],
+    ]);
+  });
+
+  it('should report items that are only in the later snapshot as new', () => {
+    const diffs = diffSnapshots(entries([['a', 1]]), entries([['a', 1], ['b', 2]], 'sync-2'));
+
+    expect(diffs).toContainEqual({ story_id: 'b', story_name: 'Story b', from_rank: null, to_rank: 2, change: 0, direction: 'new' });
+    expect(diffs.find(diff => diff.story_id === 'a')?.direction).toBe('unchanged');
+  });
+
+  it('should report items that are only in the earlier snapshot as removed', () => {
+    const diffs = diffSnapshots(entries([['a', 1], ['b', 2]]), entries([['b', 1]], 'sync-2'));
+
+    expect(diffs).toEqual([
+      { story_id: 'b', story_name: 'Story b', from_rank: 2, to_rank: 1, change: 1, direction: 'up' },
+      { story_id: 'a', story_name: 'Story a', from_rank: 1, to_rank: null, change: 0, direction: 'removed' },
+    ]);
+  });
+
+  it('should keep the earlier name when the later snapshot has none', () => {
+    const later = entries([['a', 1]], 'sync-2').map(entry => ({ ...entry, story_name: null }));
+
+    expect(diffSnapshots(entries([['a', 1]]), later)[0].story_name).toBe('Story a');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * API service for ProductBoard rankings
+ * Rankings are scraped by the sync-productboard-rankings function and snapshotted on every sync,
+ * or read from a screenshot by process-ranking-screenshot and saved after review
+ */
+
+import { supabase } from '../supabase';
+import { invokeEdgeFunction, InvokeOptions } from './edgeFunctions';
+import {
+  RankingScreenshotResponse,
+  SaveScreenshotRankingRequest,
+  SaveScreenshotRankingResponse
+} from '../../types/edgeFunctions';
+import {
+  TrackedBoard,
+  RankingItem,
+  RankingSnapshot,
+  RankingSnapshotEntry,
+  RankDiff,
+  RankableFeature
+} from '../../types/rankings';
+
+// Reading a screenshot with a vision model can take a while
+const SCREENSHOT_TIMEOUT_MS = 2 * 60_000;
+
+// Get the active boards tracked for ranking sync in a workspace
+export async function getTrackedBoards(workspaceId: string): Promise<TrackedBoard[]> {
+  const { data, error } = await supabase
+    .from('productboard_tracked_boards')
+    .select('board_id, board_name, board_url, workspace_id, is_active')
+    .eq('workspace_id', workspaceId)
+    .eq('is_active', true)
+    .order('board_name');
+
+  if (error) {
+    throw new Error(`Error fetching tracked boards: ${error.message}`);
+  }
+
+  return data as TrackedBoard[];
+}
+
+// Get the current rankings of a board
+export async function getCurrentRankings(workspaceId: string, boardId: string): Promise<RankingItem[]> {
+  const { data, error } = await supabase
+    .from('productboard_item_rankings')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('board_id', boardId)
+    .order('current_rank', { ascending: true });
+
+  if (error) {
+    throw new Error(`Error fetching rankings: ${error.message}`);
+  }
+
+  return data as RankingItem[];
+}
+
+// Get the most recent ranking snapshots of a board, newest first
+export async function getRankingSnapshots(workspaceId: string, boardId: string, limit: number = 20): Promise<RankingSnapshot[]> {
+  const { data, error } = await supabase
+    .from('productboard_sync_history')
+    .select('id, completed_at, item_count, source')
+    .eq('workspace_id', workspaceId)
+    .eq('board_id', boardId)
+    .eq('rankings_stored', true)
+    .not('completed_at', 'is', null)
+    .order('completed_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error fetching ranking snapshots: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    sync_history_id: row.id,
+    captured_at: row.completed_at,
+    item_count: row.item_count,
+    source: row.source || 'scrape',
+  }));
+}
+
+// Get the entries of the given snapshots
+export async function getSnapshotEntries(syncHistoryIds: string[]): Promise<RankingSnapshotEntry[]> {
+  if (syncHistoryIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('productboard_ranking_snapshots')
+    .select('sync_history_id, story_id, story_name, rank, captured_at')
+    .in('sync_history_id', syncHistoryIds)
+    .order('captured_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Error fetching snapshot entries: ${error.message}`);
+  }
+
+  return data as RankingSnapshotEntry[];
+}
+
+// Read the ranked list in a screenshot and match its rows to the workspace's features
+export async function readRankingScreenshot(
+  workspaceId: string,
+  file: File,
+  options: InvokeOptions = {}
+): Promise<RankingScreenshotResponse> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('workspace_id', workspaceId);
+
+  return invokeEdgeFunction('process-ranking-screenshot', formData, {
+    timeoutMs: SCREENSHOT_TIMEOUT_MS,
+    ...options,
+  });
+}
+
+// Save a reviewed screenshot ranking as a new snapshot of the board
+export async function saveScreenshotRanking(request: SaveScreenshotRankingRequest): Promise<SaveScreenshotRankingResponse> {
+  return invokeEdgeFunction('save-screenshot-ranking', request);
+}
+
+// Find features by name, for correcting screenshot matches
+export async function searchRankableFeatures(workspaceId: string, term: string, limit: number = 10): Promise<RankableFeature[]> {
+  const { data, error } = await supabase
+    .from('productboard_features')
+    .select('productboard_id, name')
+    .eq('workspace_id', workspaceId)
+    .ilike('name', `%${term}%`)
+    .order('name')
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error searching features: ${error.message}`);
+  }
+
+  return data as RankableFeature[];
+}
+
+// Compare two snapshots and describe how each item moved
+export function diffSnapshots(from: RankingSnapshotEntry[], to: RankingSnapshotEntry[]): RankDiff[] {
+  const fromByStory = new Map(from.map(entry => [entry.story_id, entry]));
+  const toByStory = new Map(to.map(entry => [entry.story_id, entry]));
+  const diffs: RankDiff[] = [];
+
+  toByStory.forEach((entry, storyId) => {
+    const previous = fromByStory.get(storyId);
+    if (!previous) {
+      diffs.push({ story_id: storyId, story_name: entry.story_name, from_rank: null, to_rank: entry.rank, change: 0, direction: 'new' });
+      return;
+    }
+
+    const change = previous.rank - entry.rank;
+    diffs.push({
+      story_id: storyId,
+      story_name: entry.story_name || previous.story_name,
+      from_rank: previous.rank,
+      to_rank: entry.rank,
+      change,
+      direction: change > 0 ? 'up' : change < 0 ? 'down' : 'unchanged',
+    });
+  });
+
+  fromByStory.forEach((entry, storyId) => {
+    if (!toByStory.has(storyId)) {
+      diffs.push({ story_id: storyId, story_name: entry.story_name, from_rank: entry.rank, to_rank: null, change: 0, direction: 'removed' });
+    }
+  });
+
+  // Biggest movers first
+  return diffs.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
@@ -0,0 +1,164 @@
+/**
+ * API service for the reconciliation of ProductBoard features, ADO work items and their links
+ * Runs and fixes go through the reconcile-pb-ado function; issues are ignored and reopened directly
+ */
+
+import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { HierarchyMappingConfig, explainAreaPath, getAdoTypeForPbLevel } from './hierarchyMapping';
+import {
+  fetchCachedComponents,
+  fetchCachedFeatures,
+  fetchCachedInitiatives,
+  featureRuleSubject,
+  initiativeName,
+  isSubfeature
+} from './syncSimulation';
+import {
+  ReconciliationFix,
+  ReconciliationIssue,
+  ReconciliationIssueStatus,
+  ReconciliationRun
+} from '../../types/reconciliation';
+import { ReconciliationRunSummary } from '../../types/edgeFunctions';
+
+export interface ReconciliationFixOptions {
+  // relink: the work item or feature to link to instead
+  adoWorkItemId?: number;
+  pbFeatureId?: string;
+  // create_missing
+  workItemType?: string;
+  areaPath?: string;
+}
+
+// What the hierarchy mapping would create for a feature without a work item
+export interface MissingWorkItemDefaults {
+  workItemType: string;
+  areaPath: string | null;
+}
+
+// Get the latest reconciliation run of the active workspace
+export async function getLatestReconciliationRun(): Promise<ReconciliationRun | null> {
+  const { data, error } = await supabase
+    .from('pb_ado_reconciliation_runs')
+    .select('*')
+    .eq('workspace_id', getActiveWorkspaceId())
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching reconciliation run: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Get the active workspace's issues with a status, errors first
+export async function getReconciliationIssues(status: ReconciliationIssueStatus): Promise<ReconciliationIssue[]> {
+  const { data, error } = await supabase
+    .from('pb_ado_reconciliation_issues')
+    .select('*')
+    .eq('workspace_id', getActiveWorkspaceId())
+    .eq('status', status)
+    .order('severity', { ascending: true })
+    .order('kind', { ascending: true })
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Error fetching reconciliation issues: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Reconcile the active workspace now
+export async function runReconciliation(): Promise<ReconciliationRunSummary> {
+  const response = await invokeEdgeFunction('reconcile-pb-ado', {
+    action: 'run',
+    workspace_id: getActiveWorkspaceId()
+  });
+
+  const run = response.runs?.[0];
+  if (!run) {
+    throw new Error(`Error running reconciliation: ${response.error || 'no run was started'}`);
+  }
+  if (run.status === 'failed') {
+    throw new Error(`Error running reconciliation: ${run.error}`);
+  }
+
+  return run;
+}
+
+// Apply a fix to an issue; returns the sync job that carries out its ADO or ProductBoard write, if any
+export async function fixReconciliationIssue(
+  issueId: string,
+  fix: ReconciliationFix,
+  options: ReconciliationFixOptions = {}
+): Promise<string | null> {
+  const response = await invokeEdgeFunction('reconcile-pb-ado', {
+    action: 'fix',
+    issue_id: issueId,
+    fix,
+    ado_work_item_id: options.adoWorkItemId,
+    pb_feature_id: options.pbFeatureId,
+    work_item_type: options.workItemType,
+    area_path: options.areaPath
+  });
+
+  if (!response.success) {
+    throw new Error(`Error fixing issue: ${response.error || 'the fix was not applied'}`);
+  }
+
+  return response.job_id ?? null;
+}
+
+// Ignore an open issue, or reopen an ignored one; later runs keep ignored issues ignored
+export async function setReconciliationIssueIgnored(issueId: string, ignored: boolean): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('pb_ado_reconciliation_issues')
+    .update(ignored
+      ? { status: 'ignored', resolution: 'ignored', resolved_by: user?.id || null, resolved_at: new Date().toISOString() }
+      : { status: 'open', resolution: null, resolved_by: null, resolved_at: null })
+    .eq('id', issueId);
+
+  if (error) {
+    throw new Error(`Error updating issue: ${error.message}`);
+  }
+}
+
+// The work item type and area path the mapping gives a feature, to prefill the create missing fix
+export async function getMissingWorkItemDefaults(
+  pbFeatureId: string,
+  mapping: HierarchyMappingConfig
+): Promise<MissingWorkItemDefaults> {
+  const [features, initiatives, components] = await Promise.all([
+    fetchCachedFeatures(),
+    fetchCachedInitiatives(),
+    fetchCachedComponents()
+  ]);
+
+  const feature = features.find(row => row.productboard_id === pbFeatureId);
+  if (!feature) {
+    throw new Error(`Error loading feature: ${pbFeatureId} is not in the ProductBoard cache`);
+  }
+
+  const level = isSubfeature(feature) ? 'subfeature' : 'feature';
+  const parent = level === 'subfeature' && feature.parent_id
+    ? features.find(row => row.productboard_id === feature.parent_id)
+    : undefined;
+  const subject = featureRuleSubject(
+    feature,
+    parent,
+    new Map(components.map(component => [component.id, component.name])),
+    new Map(initiatives.map(row => [String(row.id), initiativeName(row)]))
+  );
+
+  return {
+    workItemType: getAdoTypeForPbLevel(level, [mapping]),
+    areaPath: explainAreaPath(subject, mapping).value || null
+  };
+}
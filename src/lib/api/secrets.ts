@@ -0,0 +1,80 @@
+/**
+ * API service for credentials stored encrypted in config_secrets
+ * Secrets can be set, rotated and deleted from the browser but never read back
+ */
+
+import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { ConfigSecret, ConfigSecretHistoryEntry } from '../../types/secrets';
+
+const SECRET_COLUMNS = 'id, workspace_id, key, description, value_hint, version, updated_by, created_at, updated_at';
+
+// Keys that hold credentials and are stored as secrets instead of plain configuration
+export function isSecretConfigKey(key: string): boolean {
+  return /(token|key|secret|password|auth|credential)/i.test(key);
+}
+
+// Fetch the system-wide secrets and those of the active workspace
+export async function getConfigSecrets(): Promise<ConfigSecret[]> {
+  const { data, error } = await supabase
+    .from('config_secrets')
+    .select(SECRET_COLUMNS)
+    .or(`workspace_id.is.null,workspace_id.eq.${getActiveWorkspaceId()}`)
+    .order('key');
+
+  if (error) {
+    throw new Error(`Error fetching secrets: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Fetch the rotation history of a secret, newest first
+export async function getConfigSecretHistory(key: string, workspaceId: string | null): Promise<ConfigSecretHistoryEntry[]> {
+  let query = supabase
+    .from('config_secret_history')
+    .select('*')
+    .eq('key', key)
+    .order('changed_at', { ascending: false });
+
+  query = workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Error fetching secret history: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Create or rotate a secret; pass a workspace to set it for that workspace only
+export async function setConfigSecret(
+  key: string,
+  value: string,
+  description?: string | null,
+  workspaceId?: string | null
+): Promise<void> {
+  const { error } = await supabase.rpc('set_config_secret', {
+    p_key: key,
+    p_value: value,
+    p_description: description ?? null,
+    p_workspace_id: workspaceId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Error saving secret: ${error.message}`);
+  }
+}
+
+// Delete a secret
+export async function deleteConfigSecret(key: string, workspaceId?: string | null): Promise<void> {
+  const { error } = await supabase.rpc('delete_config_secret', {
+    p_key: key,
+    p_workspace_id: workspaceId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Error deleting secret: ${error.message}`);
+  }
+}
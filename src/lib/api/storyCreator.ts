@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '../supabase';
+import { invokeEdgeFunction } from './edgeFunctions';
 import { 
   StoryTemplate, 
   CreateStoryTemplateRequest, 
@@ -144,73 +145,16 @@ export async function analyzeStoryContent(storyData: AnalyzeStoryRequest): Promi
     // Construct a complete prompt
     const input = promptParts.join("\n\n");
     
-    // Create a minimal request payload in the exact format that works with the Edge Function
-    const requestPayload = {
-      input: input,
+    const result = await invokeEdgeFunction('analyze-story-content', {
+      input,
       hierarchyLevel: storyData.hierarchy_level || 'story',
       componentName: storyData.component_name || ''
-    };
+    });
     
-    console.log('Direct fetch payload for analyze-story-content:', JSON.stringify(requestPayload));
+    console.log('AI suggestion result:', result);
     
-    // *** APPROACH 1: Use supabase client (first attempt) ***
-    try {
-      // Call the Edge Function using the client
-      const response = await supabase.functions.invoke('analyze-story-content', {
-        body: requestPayload
-      });
-      
-      if (response.error) {
-        console.error('Edge Function client error:', response.error);
-        throw new Error('Client invoke failed, trying direct fetch');
-      }
-      
-      console.log('AI suggestion result (supabase client):', response.data);
-      
-      // Process the response into AIAnalysisResult format
-      return processAISuggestionResponse(response.data, storyData);
-    } catch (clientError) {
-      console.error('Exception in supabase client invoke:', clientError);
-      
-      // *** APPROACH 2: Try direct fetch as fallback ***
-      try {
-        // Construct the URL manually
-        const supabaseUrl = import.meta.env.VITE_SUPABASE_URL 
-          ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-story-content`
-          : 'https://tqzsfzhcwkhwketcbvoz.supabase.co/functions/v1/analyze-story-content';
-        
-        console.log('Using direct fetch to URL:', supabaseUrl);
-        
-        // Use the anon key directly from the environment variables
-        const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
-        console.log('Anon key available:', !!anonKey);
-        
-        const response = await fetch(supabaseUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${anonKey}`
-          },
-          body: JSON.stringify(requestPayload)
-        });
-        
-        console.log('Direct fetch response status:', response.status);
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        console.log('AI suggestion result (direct fetch):', data);
-        
-        // Process the response into AIAnalysisResult format
-        return processAISuggestionResponse(data, storyData);
-      } catch (fetchError) {
-        console.error('Direct fetch also failed:', fetchError);
-        // Return empty results rather than throwing
-        return {};
-      }
-    }
+    // Process the response into AIAnalysisResult format
+    return processAISuggestionResponse(result, storyData);
   } catch (error) {
     console.error('Error getting story suggestions:', error);
     // Return empty results rather than throwing
@@ -326,7 +270,8 @@ export async function createStoryWithAI(request: CreateStoryWithAIRequest): Prom
         workspace_id: request.workspace_id,
         status: 'new',
         complexity: mergedContent.complexity || 1,
-        story_type: template.type
+        story_type: template.type,
+        change_source: missingFields.length > 0 ? 'ai' : 'story_creator'
       }])
       .select()
       .single();
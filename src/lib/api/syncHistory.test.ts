@@ -0,0 +1,108 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import { SyncRun } from '../../types/sync-history';
+
+// Records the query calls and resolves every query with the rows of the test
+const db = vi.hoisted(() => ({
+  calls: [] as unknown[][],
+  rows: [] as Record<string, any>[],
+}));
+
+vi.mock('../supabase', () => {
+  const query: Record<string, any> = {};
+  for (const method of ['select', 'eq', 'is', 'neq', 'order', 'limit']) {
+    query[method] = (...args: unknown[]) => {
+      db.calls.push([method, ...args]);
+      return query;
+    };
+  }
+  query.then = (resolve: (result: unknown) => void) => resolve({ data: db.rows, error: null });
+
+  return {
+    supabase: {
+      from: (table: string) => {
+        db.calls.push(['from', table]);
+        return query;
+      },
+    },
+  };
+});
+
+import { getSyncRunItems } from './syncHistory';
+
+function run(overrides: Partial<SyncRun>): SyncRun {
+  return {
+    id: 'productboard:run-1',
+    system: 'productboard',
+    source_id: 'run-1',
+    label: 'ProductBoard hierarchy',
+    trigger: 'manual',
+    status: 'completed',
+    started_at: '2026-01-01T10:00:00Z',
+    completed_at: '2026-01-01T10:05:00Z',
+    items_processed: 3,
+    errors: 0,
+    error_message: null,
+    counts: {},
+    ...overrides,
+  };
+}
+
+function log(overrides: Record<string, any>) {
+  return {
+    id: 'log-1',
+    operation_type: 'update',
+    status: 'completed',
+    error_message: null,
+    request_payload: null,
+    response_payload: null,
+    mapping_id: null,
+    created_at: '2026-01-01T10:01:00Z',
+    ...overrides,
+  };
+}
+
+describe('getSyncRunItems', () => {
+  beforeEach(() => {
+    db.calls = [];
+    db.rows = [];
+  });
+
+  it('should list the entities a ProductBoard hierarchy run logged under its ID', async () => {
+    db.rows = [
+      log({ id: 'log-1', operation_type: 'create', request_payload: { productboard_id: 'pb-1', entity_type: 'feature', name: 'Checkout' } }),
+      log({ id: 'log-2', request_payload: { productboard_id: 'pb-2', entity_type: 'product', name: 'Shop' } }),
+      log({ id: 'log-3', operation_type: 'create', status: 'failed', error_message: 'duplicate key', request_payload: { productboard_id: 'pb-3' } }),
+    ];
+
+    const items = await getSyncRunItems(run({}));
+
+    expect(db.calls).toContainEqual(['from', 'pb_ado_sync_logs']);
+    expect(db.calls).toContainEqual(['eq', 'sync_run_id', 'run-1']);
+    expect(items.map(item => [item.id, item.item_ref, item.outcome, item.error_message])).toEqual([
+      ['log-1', 'pb-1', 'created', null],
+      ['log-2', 'pb-2', 'updated', null],
+      ['log-3', 'pb-3', 'failed', 'duplicate key'],
+    ]);
+  });
+
+  it('should refer to the entities of an ADO run by work item ID or name', async () => {
+    db.rows = [
+      log({ id: 'log-1', request_payload: { ado_work_item_id: 42, name: 'Checkout' } }),
+      log({ id: 'log-2', request_payload: { entity_type: 'teams', name: 'Payments' } }),
+    ];
+
+    const items = await getSyncRunItems(run({ id: 'ado:7', system: 'ado', source_id: '7' }));
+
+    expect(db.calls).toContainEqual(['eq', 'sync_run_id', '7']);
+    expect(items.map(item => item.item_ref)).toEqual(['42', 'Payments']);
+  });
+
+  it('should read a PB-ADO operation by its own log ID', async () => {
+    db.rows = [log({ id: 'log-9', status: 'retrying', request_payload: { productboard_id: 'pb-1' } })];
+
+    const items = await getSyncRunItems(run({ id: 'pb_ado:log-9', system: 'pb_ado', source_id: 'log-9' }));
+
+    expect(db.calls).toContainEqual(['eq', 'id', 'log-9']);
+    expect(items[0].outcome).toBe('retrying');
+  });
+});
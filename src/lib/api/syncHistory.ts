@@ -0,0 +1,207 @@
+/**
+ * API service for sync run history
+ * Combines the ProductBoard hierarchy sync history, the ADO sync history and the PB-ADO sync logs
+ */
+
+import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { invokeEdgeFunction } from './edgeFunctions';
+import {
+  SyncRun,
+  SyncRunItem,
+  SyncRunItemOutcome,
+  SyncRunStatus,
+  SyncRunTrigger
+} from '../../types/sync-history';
+
+// A full hierarchy sync walks every product, component and feature
+const SYNC_TIMEOUT_MS = 5 * 60_000;
+
+const mapLogStatus = (status: string): SyncRunStatus => {
+  switch (status) {
+    case 'pending':
+    case 'in_progress':
+      return 'running';
+    case 'failed':
+      return 'failed';
+    case 'retrying':
+      return 'retrying';
+    case 'skipped':
+      return 'skipped';
+    default:
+      return 'completed';
+  }
+};
+
+const mapLogOutcome = (status: string, operationType: string): SyncRunItemOutcome => {
+  switch (status) {
+    case 'failed':
+      return 'failed';
+    case 'retrying':
+      return 'retrying';
+    case 'skipped':
+      return 'skipped';
+    case 'pending':
+    case 'in_progress':
+      return 'pending';
+    default:
+      return operationType === 'create' ? 'created' : 'updated';
+  }
+};
+
+const toRunItem = (log: any): SyncRunItem => ({
+  id: log.id,
+  operation_type: log.operation_type,
+  outcome: mapLogOutcome(log.status, log.operation_type),
+  item_ref: log.request_payload?.productboard_id || log.request_payload?.ado_work_item_id?.toString() || log.request_payload?.name || log.mapping_id || null,
+  error_message: log.error_message,
+  request_payload: log.request_payload,
+  response_payload: log.response_payload,
+  created_at: log.created_at,
+});
+
+// Get the ProductBoard hierarchy sync runs
+async function getProductBoardRuns(limit: number): Promise<SyncRun[]> {
+  const { data, error } = await supabase
+    .from('productboard_hierarchy_sync_history')
+    .select('*')
+    .eq('workspace_id', getActiveWorkspaceId())
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error fetching ProductBoard sync history: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => {
+    const counts = {
+      products: row.products_count || 0,
+      components: row.components_count || 0,
+      features: row.features_count || 0,
+      initiatives: row.initiatives_count || 0,
+      relationships: row.relationships_count || 0,
+    };
+
+    return {
+      id: `productboard:${row.id}`,
+      system: 'productboard',
+      source_id: row.id,
+      label: 'ProductBoard hierarchy',
+      trigger: (row.trigger || 'scheduled') as SyncRunTrigger,
+      status: row.status === 'in_progress' ? 'running' : row.status === 'failed' ? 'failed' : 'completed',
+      started_at: row.started_at,
+      completed_at: row.completed_at,
+      items_processed: counts.products + counts.components + counts.features + counts.initiatives,
+      errors: row.status === 'failed' ? 1 : 0,
+      error_message: row.error_message,
+      counts,
+    };
+  });
+}
+
+// Get the Azure DevOps entity sync runs, skipping the seeded placeholder rows
+async function getAdoRuns(limit: number): Promise<SyncRun[]> {
+  const { data, error } = await supabase
+    .from('ado_sync_history')
+    .select('*')
+    .eq('workspace_id', getActiveWorkspaceId())
+    .neq('status', 'pending')
+    .order('last_sync_time', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error fetching ADO sync history: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    id: `ado:${row.id}`,
+    system: 'ado',
+    source_id: String(row.id),
+    label: `Azure DevOps ${String(row.entity_type).replace(/_/g, ' ')}`,
+    trigger: (row.trigger || 'manual') as SyncRunTrigger,
+    status: row.status === 'error' ? 'failed' : 'completed',
+    started_at: row.last_sync_time,
+    completed_at: row.last_sync_time,
+    items_processed: row.items_synced || 0,
+    errors: row.status === 'error' ? 1 : 0,
+    error_message: row.error_message,
+    counts: { [row.entity_type]: row.items_synced || 0 },
+  }));
+}
+
+// Get the PB-ADO operations that ran on their own (webhooks and retries)
+async function getPbAdoRuns(limit: number): Promise<SyncRun[]> {
+  const { data, error } = await supabase
+    .from('pb_ado_sync_logs')
+    .select('*')
+    .is('sync_run_id', null)
+    .eq('workspace_id', getActiveWorkspaceId())
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error fetching PB-ADO sync logs: ${error.message}`);
+  }
+
+  return (data || []).map((log: any) => {
+    const item = toRunItem(log);
+    return {
+      id: `pb_ado:${log.id}`,
+      system: 'pb_ado',
+      source_id: log.id,
+      label: `${log.operation_type} ${log.source_system} → ${log.target_system}${item.item_ref ? ` (${item.item_ref})` : ''}`,
+      trigger: (log.trigger || 'webhook') as SyncRunTrigger,
+      status: mapLogStatus(log.status),
+      started_at: log.created_at,
+      completed_at: log.status === 'pending' || log.status === 'in_progress' ? null : log.created_at,
+      items_processed: 1,
+      errors: item.outcome === 'failed' || item.outcome === 'retrying' ? 1 : 0,
+      error_message: log.error_message,
+      counts: {},
+    };
+  });
+}
+
+// Get the most recent sync runs across all systems, newest first
+export async function getSyncRuns(limit: number = 50): Promise<SyncRun[]> {
+  const [productBoardRuns, adoRuns, pbAdoRuns] = await Promise.all([
+    getProductBoardRuns(limit),
+    getAdoRuns(limit),
+    getPbAdoRuns(limit),
+  ]);
+
+  return [...productBoardRuns, ...adoRuns, ...pbAdoRuns]
+    .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())
+    .slice(0, limit);
+}
+
+// Get the item-level operations of a sync run
+export async function getSyncRunItems(run: SyncRun): Promise<SyncRunItem[]> {
+  let query = supabase
+    .from('pb_ado_sync_logs')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  query = run.system === 'pb_ado'
+    ? query.eq('id', run.source_id)
+    : query.eq('sync_run_id', run.source_id);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Error fetching sync run items: ${error.message}`);
+  }
+
+  return (data || []).map(toRunItem);
+}
+
+// Start a manual ProductBoard hierarchy sync for a workspace
+export async function startManualSync(workspaceId: string): Promise<{ syncHistoryId: string }> {
+  // The function reads the ProductBoard API token from the workspace's secrets
+  const data = await invokeEdgeFunction('sync-productboard-hierarchy', {
+    workspace_id: workspaceId,
+    trigger: 'manual',
+  }, { timeoutMs: SYNC_TIMEOUT_MS });
+
+  return { syncHistoryId: data.syncHistoryId };
+}
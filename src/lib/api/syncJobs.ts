@@ -0,0 +1,100 @@
+/**
+ * API service for the sync retry queue
+ * Failed create/update/link/rank_update operations are retried by the process-sync-queue function
+ */
+
+import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { invokeEdgeFunction } from './edgeFunctions';
+import { PBAdoSyncJob, SyncJobStatus } from '../../types/pb-ado-mappings';
+
+// Get queued sync jobs, optionally filtered by status, most recently updated first
+export async function getSyncJobs(status?: SyncJobStatus, limit: number = 100): Promise<PBAdoSyncJob[]> {
+  let query = supabase
+    .from('pb_ado_sync_jobs')
+    .select('*')
+    .eq('workspace_id', getActiveWorkspaceId())
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Error fetching sync jobs: ${error.message}`);
+  }
+
+  return data as PBAdoSyncJob[];
+}
+
+// Count the jobs in each queue state
+export async function getSyncJobCounts(): Promise<Record<SyncJobStatus, number>> {
+  const statuses: SyncJobStatus[] = ['pending', 'in_progress', 'retrying', 'completed', 'dead_letter'];
+  const counts = {} as Record<SyncJobStatus, number>;
+
+  for (const status of statuses) {
+    const { count, error } = await supabase
+      .from('pb_ado_sync_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('workspace_id', getActiveWorkspaceId())
+      .eq('status', status);
+
+    if (error) {
+      throw new Error(`Error counting sync jobs: ${error.message}`);
+    }
+
+    counts[status] = count || 0;
+  }
+
+  return counts;
+}
+
+// Replace the payload of a job before it is replayed
+export async function updateSyncJobPayload(id: string, payload: Record<string, any>): Promise<PBAdoSyncJob> {
+  const { data, error } = await supabase
+    .from('pb_ado_sync_jobs')
+    .update({ payload })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Error updating sync job payload: ${error.message}`);
+  }
+
+  return data as PBAdoSyncJob;
+}
+
+// Put a dead-lettered job back in the queue with a fresh set of attempts and run the queue
+export async function replaySyncJob(id: string, payload?: Record<string, any>): Promise<PBAdoSyncJob> {
+  const { data, error } = await supabase
+    .from('pb_ado_sync_jobs')
+    .update({
+      ...(payload && { payload }),
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+      dead_lettered_at: null,
+      locked_at: null,
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Error replaying sync job: ${error.message}`);
+  }
+
+  // Process the queue straight away instead of waiting for the next scheduled run
+  try {
+    await invokeEdgeFunction('process-sync-queue', {});
+  } catch (invokeError) {
+    console.warn('Job requeued, but process-sync-queue could not be invoked:', invokeError);
+  }
+
+  return data as PBAdoSyncJob;
+}
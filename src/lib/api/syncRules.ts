@@ -0,0 +1,100 @@
+/**
+ * API service for pb-ado-sync trigger rules
+ * Rules decide which action the webhook takes for a ProductBoard status transition
+ */
+
+import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { PBAdoSyncRule } from '../../types/pb-ado-mappings';
+
+export type SyncRuleInput = Omit<PBAdoSyncRule, 'id' | 'created_at' | 'updated_at'>;
+
+/**
+ * A pb_ado_automation_logs entry showing how the trigger rules decided an event
+ */
+export interface SyncRuleDecisionLog {
+  id: number;
+  created_at: string;
+  event_type: string | null;
+  pb_item_id: string | null;
+  status: string | null;
+  details: string | null;
+  matched_rule_id: string | null;
+  rule_action: string | null;
+}
+
+// Get the trigger rules for a workspace, including global rules, in evaluation order
+export async function getSyncRules(workspaceId: string = getActiveWorkspaceId()): Promise<PBAdoSyncRule[]> {
+  const { data, error } = await supabase
+    .from('pb_ado_sync_rules')
+    .select('*')
+    .or(`workspace_id.is.null,workspace_id.eq.${workspaceId}`)
+    .order('priority', { ascending: true });
+
+  if (error) {
+    throw new Error(`Error fetching sync rules: ${error.message}`);
+  }
+
+  return data as PBAdoSyncRule[];
+}
+
+// Create a new trigger rule
+export async function createSyncRule(rule: SyncRuleInput): Promise<PBAdoSyncRule> {
+  const { data, error } = await supabase
+    .from('pb_ado_sync_rules')
+    .insert([rule])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Error creating sync rule: ${error.message}`);
+  }
+
+  return data as PBAdoSyncRule;
+}
+
+// Update an existing trigger rule
+export async function updateSyncRule(rule: Partial<SyncRuleInput> & { id: string }): Promise<PBAdoSyncRule> {
+  const { id, ...changes } = rule;
+  const { data, error } = await supabase
+    .from('pb_ado_sync_rules')
+    .update(changes)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Error updating sync rule: ${error.message}`);
+  }
+
+  return data as PBAdoSyncRule;
+}
+
+// Delete a trigger rule
+export async function deleteSyncRule(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('pb_ado_sync_rules')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Error deleting sync rule: ${error.message}`);
+  }
+}
+
+// Get the most recent webhook decisions made by the trigger rules
+export async function getRecentRuleDecisions(limit: number = 25): Promise<SyncRuleDecisionLog[]> {
+  const { data, error } = await supabase
+    .from('pb_ado_automation_logs')
+    .select('id, created_at, event_type, pb_item_id, status, details, matched_rule_id, rule_action')
+    .eq('workspace_id', getActiveWorkspaceId())
+    .not('event_type', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error fetching rule decisions: ${error.message}`);
+  }
+
+  return data as SyncRuleDecisionLog[];
+}
@@ -0,0 +1,237 @@
+/**
+ * API service for the sync simulation
+ * Reads cached ProductBoard items, ADO work items, links and field mappings; nothing is written and ADO is not called
+ */
+
+import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { RuleSubject } from '../areaPathRules';
+import { CachedWorkItem, PbLevel, SimulationData, SimulationPbItem, SimulationScope } from '../syncSimulation';
+
+export interface SimulationTarget {
+  id: string;
+  name: string;
+}
+
+export type SimulationTargets = Record<SimulationScope, SimulationTarget[]>;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Keeps the productboard_id filter of the link lookup within URL length limits
+const ID_BATCH_SIZE = 200;
+
+// The parts of a cached ProductBoard feature the simulation reads
+export interface CachedFeature {
+  productboard_id: string;
+  name: string;
+  description?: string | null;
+  status?: string | null;
+  type?: string | null;
+  parent_id?: string | null;
+  component_id?: string | null;
+  owner_email?: string | null;
+  metadata?: Record<string, any> | null;
+  [field: string]: any;
+}
+
+export function initiativeName(row: Record<string, any>): string {
+  return row.name || row.title || String(row.id);
+}
+
+export function isSubfeature(feature: CachedFeature): boolean {
+  return feature.type === 'sub-feature' || feature.type === 'subfeature' || feature.metadata?.parent_type === 'feature';
+}
+
+function componentIdOf(feature: CachedFeature): string | null {
+  return feature.component_id
+    || feature.metadata?.component_id
+    || feature.metadata?.component?.id
+    || (feature.metadata?.parent_type === 'component' ? feature.parent_id || null : null);
+}
+
+export function initiativeIdOf(feature: CachedFeature): string | null {
+  return feature.metadata?.initiative?.id ? String(feature.metadata.initiative.id) : null;
+}
+
+// What the resolution rules see of a cached feature; sub-features fall back to their parent's component and initiative
+export function featureRuleSubject(
+  feature: CachedFeature,
+  parent: CachedFeature | undefined,
+  componentNames: Map<string, string>,
+  initiativeNames: Map<string, string>
+): RuleSubject {
+  const metadata = feature.metadata || {};
+  const componentId = componentIdOf(feature) || (parent ? componentIdOf(parent) : null);
+  const initiativeId = initiativeIdOf(feature) || (parent ? initiativeIdOf(parent) : null);
+
+  return {
+    initiative: metadata.initiative?.name || (initiativeId && initiativeNames.get(initiativeId)) || null,
+    component: (componentId && componentNames.get(componentId)) || componentId || null,
+    product: metadata.product?.name || null,
+    owner_email: feature.owner_email || metadata.owner?.email || null,
+    tags: (metadata.tags || [])
+      .map((tag: any) => (typeof tag === 'string' ? tag : tag?.name))
+      .filter(Boolean)
+  };
+}
+
+// Read every row of the active workspace's table, a page at a time
+async function selectAll<T>(table: string, columns: string, orderBy: string, filter?: (query: any) => any): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from(table).select(columns).eq('workspace_id', getActiveWorkspaceId());
+    if (filter) query = filter(query);
+
+    const { data, error } = await query.order(orderBy).range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Error fetching ${table}: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+export async function fetchCachedFeatures(): Promise<CachedFeature[]> {
+  return selectAll<CachedFeature>('productboard_features', '*', 'productboard_id');
+}
+
+// Links of the given ProductBoard items in the active workspace
+async function fetchLinks(pbIds: string[]): Promise<{ productboard_id: string; ado_work_item_id: number }[]> {
+  const batches: string[][] = [];
+  for (let i = 0; i < pbIds.length; i += ID_BATCH_SIZE) {
+    batches.push(pbIds.slice(i, i + ID_BATCH_SIZE));
+  }
+
+  const results = await Promise.all(batches.map(batch =>
+    selectAll<{ productboard_id: string; ado_work_item_id: number }>(
+      'pb_ado_mappings',
+      'productboard_id, ado_work_item_id',
+      'productboard_id',
+      query => query.in('productboard_id', batch)
+    )
+  ));
+  return results.flat();
+}
+
+export async function fetchCachedInitiatives(): Promise<Record<string, any>[]> {
+  const { data, error } = await supabase.from('productboard_initiatives').select('*');
+
+  if (error) {
+    throw new Error(`Error fetching ProductBoard initiatives: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function fetchCachedComponents(): Promise<SimulationTarget[]> {
+  const { data, error } = await supabase.from('productboard_components').select('productboard_id, name');
+
+  if (error) {
+    throw new Error(`Error fetching ProductBoard components: ${error.message}`);
+  }
+
+  return (data || []).map(component => ({ id: component.productboard_id, name: component.name }));
+}
+
+// Initiatives, features and components a simulation can be run for
+export async function getSimulationTargets(): Promise<SimulationTargets> {
+  const [features, initiatives, components] = await Promise.all([
+    fetchCachedFeatures(),
+    fetchCachedInitiatives(),
+    fetchCachedComponents()
+  ]);
+
+  const byName = (a: SimulationTarget, b: SimulationTarget) => a.name.localeCompare(b.name);
+
+  return {
+    initiative: initiatives.map(row => ({ id: String(row.id), name: initiativeName(row) })).sort(byName),
+    feature: features.filter(feature => !isSubfeature(feature)).map(feature => ({ id: feature.productboard_id, name: feature.name })).sort(byName),
+    component: components.sort(byName)
+  };
+}
+
+// Load the cached data a simulation of one initiative, feature or component needs
+export async function getSimulationData(scope: SimulationScope, targetId: string): Promise<SimulationData> {
+  const [features, initiatives, components] = await Promise.all([
+    fetchCachedFeatures(),
+    fetchCachedInitiatives(),
+    fetchCachedComponents()
+  ]);
+
+  const componentNames = new Map(components.map(component => [component.id, component.name]));
+  const initiativeNames = new Map(initiatives.map(row => [String(row.id), initiativeName(row)]));
+  const featureNames = new Map(features.map(feature => [feature.productboard_id, feature.name]));
+
+  const childrenOf = (parentId: string) =>
+    features.filter(feature => isSubfeature(feature) && feature.parent_id === parentId);
+  const withDescendants = (roots: CachedFeature[]): CachedFeature[] =>
+    roots.flatMap(root => [root, ...withDescendants(childrenOf(root.productboard_id))]);
+
+  const topLevel = features.filter(feature => !isSubfeature(feature));
+  const selected = scope === 'initiative'
+    ? withDescendants(topLevel.filter(feature => initiativeIdOf(feature) === targetId))
+    : scope === 'feature'
+      ? withDescendants(topLevel.filter(feature => feature.productboard_id === targetId))
+      : withDescendants(topLevel.filter(feature => componentIdOf(feature) === targetId));
+
+  if (scope === 'feature' && selected.length === 0) {
+    throw new Error(`Error loading simulation data: feature ${targetId} is not in the ProductBoard cache`);
+  }
+
+  const featureById = new Map(features.map(feature => [feature.productboard_id, feature]));
+  const items: SimulationPbItem[] = selected.map(feature => {
+    const level: PbLevel = isSubfeature(feature) ? 'subfeature' : 'feature';
+    const parentId = level === 'subfeature' ? feature.parent_id || null : initiativeIdOf(feature);
+
+    return {
+      id: feature.productboard_id,
+      name: feature.name,
+      level,
+      description: feature.description,
+      status: feature.status,
+      parentId,
+      parentName: parentId ? (level === 'subfeature' ? featureNames.get(parentId) : initiativeNames.get(parentId)) || null : null,
+      subject: featureRuleSubject(feature, level === 'subfeature' && feature.parent_id ? featureById.get(feature.parent_id) : undefined, componentNames, initiativeNames),
+      source: feature
+    };
+  });
+
+  if (scope === 'initiative') {
+    const initiative = initiatives.find(row => String(row.id) === targetId);
+    if (!initiative) {
+      throw new Error(`Error loading simulation data: initiative ${targetId} is not in the ProductBoard cache`);
+    }
+    items.unshift({
+      id: targetId,
+      name: initiativeName(initiative),
+      level: 'initiative',
+      description: initiative.description,
+      status: initiative.status,
+      subject: { initiative: initiativeName(initiative), tags: [] },
+      source: initiative
+    });
+  }
+
+  const pbIds = items.map(item => item.id);
+  const [links, workItems, fieldMappings] = await Promise.all([
+    fetchLinks(pbIds),
+    selectAll<CachedWorkItem>('ado_work_items', 'id, title, type, state, area_path, iteration_path, parent_id, tags, description', 'id'),
+    supabase.from('field_mappings').select('*').eq('workspace_id', getActiveWorkspaceId())
+  ]);
+
+  if (fieldMappings.error) {
+    throw new Error(`Error loading simulation data: ${fieldMappings.error.message}`);
+  }
+
+  return {
+    items,
+    links: new Map(links.map(link => [link.productboard_id, link.ado_work_item_id])),
+    workItems,
+    fieldMappings: fieldMappings.data || []
+  };
+}
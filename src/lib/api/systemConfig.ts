@@ -1,4 +1,6 @@
 import { supabase } from '../supabase';
+import { getActiveWorkspaceId } from '../activeWorkspace';
+import { isSecretConfigKey } from './secrets';
 
 /**
  * Interface for system configuration items
@@ -10,10 +12,34 @@ export interface SystemConfigItem {
   description: string;
   created_at: string;
   updated_at: string;
+  // True when the value is an override of the active workspace (stored in workspace_config)
+  workspace_override?: boolean;
 }
 
 /**
- * Get a configuration value by key
+ * Get the override of a configuration value for a workspace
+ * @param key The configuration key to retrieve
+ * @param workspaceId The workspace to look in
+ * @returns Promise<string | null> The override, or null if the workspace uses the system value
+ */
+async function getWorkspaceConfigOverride(key: string, workspaceId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('workspace_config')
+    .select('value')
+    .eq('workspace_id', workspaceId)
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[SystemConfig] Error getting workspace config ${key}:`, error.message);
+    return null;
+  }
+
+  return data ? data.value || '' : null;
+}
+
+/**
+ * Get a configuration value by key, preferring the active workspace's override
  * @param key The configuration key to retrieve
  * @returns Promise<string> The configuration value, or empty string if not found
  */
@@ -21,6 +47,11 @@ export async function getSystemConfig(key: string): Promise<string> {
   try {
     console.log(`[SystemConfig] Getting system config: ${key}`);
     
+    const override = await getWorkspaceConfigOverride(key, getActiveWorkspaceId());
+    if (override !== null) {
+      return override;
+    }
+    
     const { data, error } = await supabase
       .from('system_config')
       .select('value')
@@ -40,7 +71,7 @@ export async function getSystemConfig(key: string): Promise<string> {
 }
 
 /**
- * Get all system configuration items
+ * Get all system configuration items, with the overrides of the active workspace applied
  * @returns Promise<SystemConfigItem[]> Array of configuration items
  */
 export async function getAllSystemConfig(): Promise<SystemConfigItem[]> {
@@ -55,7 +86,28 @@ export async function getAllSystemConfig(): Promise<SystemConfigItem[]> {
       return [];
     }
     
-    return data || [];
+    const { data: overrides, error: overridesError } = await supabase
+      .from('workspace_config')
+      .select('*')
+      .eq('workspace_id', getActiveWorkspaceId());
+    
+    if (overridesError) {
+      console.error('[SystemConfig] Error getting workspace config:', overridesError.message);
+      return data || [];
+    }
+    
+    const items = new Map<string, SystemConfigItem>((data || []).map(item => [item.key, item]));
+    for (const override of overrides || []) {
+      const item = items.get(override.key);
+      items.set(override.key, {
+        ...override,
+        value: override.value || '',
+        description: override.description || item?.description || '',
+        workspace_override: true,
+      });
+    }
+    
+    return Array.from(items.values()).sort((a, b) => a.key.localeCompare(b.key));
   } catch (error) {
     console.error('[SystemConfig] Exception getting all config:', error);
     return [];
@@ -67,15 +119,41 @@ export async function getAllSystemConfig(): Promise<SystemConfigItem[]> {
  * @param key The configuration key to set
  * @param value The value to set
  * @param description Optional description of the config item
+ * @param workspaceId Optional workspace to set an override for instead of the system value
  * @returns Promise<boolean> True if successful, false otherwise
  */
 export async function setSystemConfig(
   key: string,
   value: string,
-  description?: string
+  description?: string,
+  workspaceId?: string
 ): Promise<boolean> {
   try {
-    console.log(`[SystemConfig] Setting system config: ${key}`);
+    console.log(`[SystemConfig] Setting system config: ${key}${workspaceId ? ` for workspace ${workspaceId}` : ''}`);
+    
+    // Credentials can't be stored in plain configuration; use setConfigSecret
+    if (isSecretConfigKey(key)) {
+      console.error(`[SystemConfig] ${key} is a secret and must be set with setConfigSecret`);
+      return false;
+    }
+    
+    if (workspaceId) {
+      const { error } = await supabase
+        .from('workspace_config')
+        .upsert({ 
+          workspace_id: workspaceId, 
+          key, 
+          value, 
+          description: description || null 
+        }, { onConflict: 'workspace_id,key' });
+      
+      if (error) {
+        console.error(`[SystemConfig] Error setting workspace config ${key}:`, error.message);
+        return false;
+      }
+      
+      return true;
+    }
     
     // Check if the key already exists
     const { data: existingData } = await supabase
@@ -129,16 +207,23 @@ export async function setSystemConfig(
 /**
  * Delete a configuration item
  * @param key The configuration key to delete
+ * @param workspaceId Optional workspace whose override to delete, reverting it to the system value
  * @returns Promise<boolean> True if successful, false otherwise
  */
-export async function deleteSystemConfig(key: string): Promise<boolean> {
+export async function deleteSystemConfig(key: string, workspaceId?: string): Promise<boolean> {
   try {
-    console.log(`[SystemConfig] Deleting system config: ${key}`);
+    console.log(`[SystemConfig] Deleting system config: ${key}${workspaceId ? ` for workspace ${workspaceId}` : ''}`);
     
-    const { error } = await supabase
-      .from('system_config')
-      .delete()
-      .eq('key', key);
+    const { error } = workspaceId
+      ? await supabase
+          .from('workspace_config')
+          .delete()
+          .eq('workspace_id', workspaceId)
+          .eq('key', key)
+      : await supabase
+          .from('system_config')
+          .delete()
+          .eq('key', key);
     
     if (error) {
       console.error(`[SystemConfig] Error deleting config ${key}:`, error.message);
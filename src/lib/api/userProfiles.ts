@@ -0,0 +1,52 @@
+/**
+ * API service for user profiles and roles
+ * Profiles are created by a database trigger when a user signs up through Supabase Auth
+ */
+
+import { supabase } from '../supabase';
+import { UserProfile, UserRole } from '../../types/auth';
+
+// Get the profile of a single user
+export async function getUserProfile(userId: string): Promise<UserProfile | null> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching user profile: ${error.message}`);
+  }
+
+  return data as UserProfile | null;
+}
+
+// Get all user profiles
+export async function getUserProfiles(): Promise<UserProfile[]> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .order('email', { ascending: true });
+
+  if (error) {
+    throw new Error(`Error fetching user profiles: ${error.message}`);
+  }
+
+  return data as UserProfile[];
+}
+
+// Change the role of a user (admins only, enforced by RLS)
+export async function updateUserRole(userId: string, role: UserRole): Promise<UserProfile> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .update({ role })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Error updating user role: ${error.message}`);
+  }
+
+  return data as UserProfile;
+}
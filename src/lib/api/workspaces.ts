@@ -0,0 +1,97 @@
+/**
+ * API service for workspaces and workspace membership
+ * Users only see the workspaces they are a member of; admins see (and manage) all of them
+ */
+
+import { supabase } from '../supabase';
+import { Workspace, WorkspaceMember } from '../../types/workspace';
+
+const WORKSPACE_COLUMNS = 'id, name, description, ado_project_id, created_at, updated_at';
+
+// Get the workspaces the current user can access
+export async function getWorkspaces(): Promise<Workspace[]> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select(WORKSPACE_COLUMNS)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Error fetching workspaces: ${error.message}`);
+  }
+
+  return data as Workspace[];
+}
+
+// Create a workspace and make the creating user a member
+export async function createWorkspace(workspace: Pick<Workspace, 'name' | 'description' | 'ado_project_id'>): Promise<Workspace> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert(workspace)
+    .select(WORKSPACE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Error creating workspace: ${error.message}`);
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (user) {
+    await addWorkspaceMember(data.id, user.id);
+  }
+
+  return data as Workspace;
+}
+
+// Update the name, description or ADO project of a workspace
+export async function updateWorkspace(id: string, updates: Partial<Pick<Workspace, 'name' | 'description' | 'ado_project_id'>>): Promise<Workspace> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .update(updates)
+    .eq('id', id)
+    .select(WORKSPACE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Error updating workspace: ${error.message}`);
+  }
+
+  return data as Workspace;
+}
+
+// Get the members of a workspace
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const { data, error } = await supabase
+    .from('workspace_users')
+    .select('*')
+    .eq('workspace_id', workspaceId);
+
+  if (error) {
+    throw new Error(`Error fetching workspace members: ${error.message}`);
+  }
+
+  return data as WorkspaceMember[];
+}
+
+// Give a user access to a workspace
+export async function addWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('workspace_users')
+    .upsert({ workspace_id: workspaceId, user_id: userId }, { onConflict: 'workspace_id,user_id' });
+
+  if (error) {
+    throw new Error(`Error adding workspace member: ${error.message}`);
+  }
+}
+
+// Remove a user's access to a workspace
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('workspace_users')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Error removing workspace member: ${error.message}`);
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AreaPathResolutionError,
+  AreaPathRule,
+  checkCondition,
+  explainResolution,
+  orderRules,
+  resolveWithRules,
+  validateRule
+} from './areaPathRules';
+
+function rule(overrides: Partial<AreaPathRule>): AreaPathRule {
+  return {
+    id: overrides.id || 'rule',
+    name: overrides.name || 'Rule',
+    priority: 10,
+    enabled: true,
+    conditions: [],
+    area_path: 'Project\\Default',
+    ...overrides,
+  };
+}
+
+describe('checkCondition', () => {
+  it('should compare equals conditions ignoring case and surrounding spaces', () => {
+    const check = checkCondition({ component: ' Payments ' }, { field: 'component', operator: 'equals', value: 'payments' });
+    expect(check.matched).toBe(true);
+  });
+
+  it('should match * and ? wildcards against the whole value', () => {
+    const condition = { field: 'initiative' as const, operator: 'wildcard' as const, value: 'Q? Mobile*' };
+    expect(checkCondition({ initiative: 'q3 mobile revamp' }, condition).matched).toBe(true);
+    expect(checkCondition({ initiative: 'Q10 Mobile' }, condition).matched).toBe(false);
+    expect(checkCondition({ initiative: 'New Q3 Mobile' }, condition).matched).toBe(false);
+  });
+
+  it('should treat regex characters in a wildcard as literal text', () => {
+    const condition = { field: 'product' as const, operator: 'wildcard' as const, value: 'App (v2)' };
+    expect(checkCondition({ product: 'app (v2)' }, condition).matched).toBe(true);
+    expect(checkCondition({ product: 'App v2' }, condition).matched).toBe(false);
+  });
+
+  it('should match regex conditions ignoring case', () => {
+    const condition = { field: 'owner_email' as const, operator: 'regex' as const, value: '@payments\\.example\\.com$' };
+    expect(checkCondition({ owner_email: 'Ana@Payments.Example.com' }, condition).matched).toBe(true);
+    expect(checkCondition({ owner_email: 'ana@example.com' }, condition).matched).toBe(false);
+  });
+
+  it('should match when any tag matches', () => {
+    const check = checkCondition({ tags: ['backend', 'api'] }, { field: 'tags', operator: 'equals', value: 'API' });
+    expect(check.matched).toBe(true);
+    expect(check.reason).toContain('"api" matches');
+  });
+
+  it('should explain a missing value and an invalid pattern', () => {
+    expect(checkCondition({}, { field: 'component', operator: 'equals', value: 'Payments' }).reason)
+      .toContain('the item has no component');
+    expect(checkCondition({ component: 'Payments' }, { field: 'component', operator: 'regex', value: '(' }).reason)
+      .toContain('the pattern is invalid');
+  });
+});
+
+describe('orderRules', () => {
+  it('should order by priority and keep the order of rules with the same priority', () => {
+    const rules = [
+      rule({ id: 'b', priority: 20 }),
+      rule({ id: 'a1', priority: 10 }),
+      rule({ id: 'c', priority: 5 }),
+      rule({ id: 'a2', priority: 10 }),
+    ];
+    expect(orderRules(rules).map(r => r.id)).toEqual(['c', 'a1', 'a2', 'b']);
+  });
+});
+
+describe('explainResolution', () => {
+  const rules = [
+    rule({ id: 'fallback', name: 'Fallback', priority: 100, area_path: 'Project\\Other' }),
+    rule({
+      id: 'payments',
+      name: 'Payments',
+      priority: 1,
+      area_path: 'Project\\Payments',
+      conditions: [{ field: 'component', operator: 'equals', value: 'Payments' }],
+    }),
+    rule({ id: 'disabled', name: 'Disabled', priority: 0, enabled: false }),
+    rule({ id: 'team-only', name: 'Team only', priority: 0, area_path: undefined, team: 'Core' }),
+  ];
+
+  it('should fire the first matching rule by priority', () => {
+    const resolution = explainResolution({ component: 'Payments' }, rules, 'area_path');
+    expect(resolution.value).toBe('Project\\Payments');
+    expect(resolution.rule?.id).toBe('payments');
+    expect(resolution.reason).toContain('Rule "Payments" fired');
+  });
+
+  it('should report the rules tried before the one that fired', () => {
+    const resolution = explainResolution({ component: 'Search' }, rules, 'area_path');
+    expect(resolution.rule?.id).toBe('fallback');
+    expect(resolution.checks.map(check => [check.rule.id, check.matched, check.skipped])).toEqual([
+      ['disabled', false, 'Rule is disabled'],
+      ['team-only', false, 'Rule does not set an area path'],
+      ['payments', false, undefined],
+      ['fallback', true, undefined],
+    ]);
+    expect(resolution.reason).toContain('it has no conditions');
+  });
+
+  it('should resolve the team from rules that set one', () => {
+    expect(explainResolution({}, rules, 'team').value).toBe('Core');
+  });
+
+  it('should explain when no rule matches', () => {
+    const resolution = explainResolution({ component: 'Search' }, [rules[1]], 'area_path');
+    expect(resolution.value).toBeNull();
+    expect(resolution.reason).toBe('No rule matched the item (1 tried)');
+    expect(explainResolution({}, [], 'team').reason).toBe('There are no rules that set a team');
+  });
+});
+
+describe('resolveWithRules', () => {
+  it('should throw AreaPathResolutionError with the resolution when no rule matches', () => {
+    try {
+      resolveWithRules({}, [], 'area_path');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(AreaPathResolutionError);
+      expect((error as AreaPathResolutionError).message).toBe('Error resolving area path: There are no rules that set an area path');
+      expect((error as AreaPathResolutionError).resolution.checks).toEqual([]);
+    }
+  });
+});
+
+describe('validateRule', () => {
+  it('should accept a complete rule', () => {
+    expect(validateRule(rule({ conditions: [{ field: 'tags', operator: 'wildcard', value: 'team-*' }] }))).toEqual([]);
+  });
+
+  it('should report a missing name, target, value and invalid regex', () => {
+    expect(validateRule(rule({
+      name: ' ',
+      area_path: '',
+      conditions: [
+        { field: 'component', operator: 'equals', value: '' },
+        { field: 'component', operator: 'regex', value: '[' },
+      ],
+    }))).toEqual([
+      'The rule needs a name',
+      'The rule sets neither an area path nor a team',
+      'Condition 1 has no value',
+      'Condition 2 has an invalid regular expression',
+    ]);
+  });
+});
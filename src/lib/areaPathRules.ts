@@ -0,0 +1,231 @@
+/**
+ * Rule-based resolution of the area path and team of ProductBoard items
+ * Rules are tried by priority; the first enabled rule whose conditions all match the item decides.
+ * When no rule matches, resolution fails instead of falling back to a default, and
+ * explainResolution tells which rule fired or why none did.
+ */
+
+export type RuleField = 'initiative' | 'component' | 'product' | 'owner_email' | 'tags';
+
+export type RuleOperator =
+  | 'equals'    // Same text, ignoring case and surrounding spaces
+  | 'wildcard'  // * matches any text and ? one character, ignoring case
+  | 'regex';    // Regular expression, ignoring case
+
+export type ResolutionTarget = 'area_path' | 'team';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string;
+}
+
+export interface AreaPathRule {
+  id: string;
+  name: string;
+  // Lower priorities are tried first; rules with the same priority keep their order
+  priority: number;
+  enabled: boolean;
+  // All conditions must match; a rule without conditions matches every item
+  conditions: RuleCondition[];
+  area_path?: string;
+  team?: string;
+  description?: string;
+}
+
+// What the rules are evaluated against
+export interface RuleSubject {
+  initiative?: string | null;
+  component?: string | null;
+  product?: string | null;
+  owner_email?: string | null;
+  tags?: string[];
+}
+
+export interface ConditionCheck {
+  condition: RuleCondition;
+  matched: boolean;
+  reason: string;
+}
+
+export interface RuleCheck {
+  rule: AreaPathRule;
+  matched: boolean;
+  // Why the rule was not evaluated, e.g. disabled or without a value for the target
+  skipped?: string;
+  conditions: ConditionCheck[];
+}
+
+export interface Resolution {
+  target: ResolutionTarget;
+  value: string | null;
+  rule: AreaPathRule | null;
+  // The rules tried, up to and including the one that fired
+  checks: RuleCheck[];
+  reason: string;
+}
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  initiative: 'Initiative',
+  component: 'Component',
+  product: 'Product',
+  owner_email: 'Owner email',
+  tags: 'Tag',
+};
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  equals: 'equals',
+  wildcard: 'matches wildcard',
+  regex: 'matches regex',
+};
+
+export class AreaPathResolutionError extends Error {
+  readonly resolution: Resolution;
+
+  constructor(resolution: Resolution) {
+    super(`Error resolving ${resolution.target === 'team' ? 'team' : 'area path'}: ${resolution.reason}`);
+    this.name = 'AreaPathResolutionError';
+    this.resolution = resolution;
+  }
+}
+
+const TARGET_LABELS: Record<ResolutionTarget, string> = {
+  area_path: 'an area path',
+  team: 'a team',
+};
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+// A case-insensitive regular expression for a condition; throws for invalid patterns
+function conditionPattern(condition: RuleCondition): RegExp | null {
+  if (condition.operator === 'regex') {
+    return new RegExp(condition.value, 'i');
+  }
+  if (condition.operator === 'wildcard') {
+    const source = condition.value
+      .trim()
+      .split('')
+      .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    return new RegExp(`^${source}$`, 'i');
+  }
+  return null;
+}
+
+function subjectValues(subject: RuleSubject, field: RuleField): string[] {
+  if (field === 'tags') {
+    return (subject.tags || []).filter(tag => !!tag);
+  }
+  const value = subject[field];
+  return value ? [value] : [];
+}
+
+export function checkCondition(subject: RuleSubject, condition: RuleCondition): ConditionCheck {
+  const label = RULE_FIELD_LABELS[condition.field];
+  const values = subjectValues(subject, condition.field);
+  const expected = `${label} ${RULE_OPERATOR_LABELS[condition.operator]} "${condition.value}"`;
+
+  if (values.length === 0) {
+    return { condition, matched: false, reason: `${expected}, but the item has no ${label.toLowerCase()}` };
+  }
+
+  let pattern: RegExp | null;
+  try {
+    pattern = conditionPattern(condition);
+  } catch (error) {
+    return { condition, matched: false, reason: `${expected}, but the pattern is invalid` };
+  }
+
+  const match = values.find(value => pattern ? pattern.test(value) : normalize(value) === normalize(condition.value));
+  const actual = values.map(value => `"${value}"`).join(', ');
+
+  return match !== undefined
+    ? { condition, matched: true, reason: `${expected}: "${match}" matches` }
+    : { condition, matched: false, reason: `${expected}, but the item has ${actual}` };
+}
+
+// Rules in the order they are tried
+export function orderRules(rules: AreaPathRule[]): AreaPathRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+// Try the rules in order and report which one fired and why the ones before it did not
+export function explainResolution(subject: RuleSubject, rules: AreaPathRule[], target: ResolutionTarget): Resolution {
+  const checks: RuleCheck[] = [];
+
+  for (const rule of orderRules(rules)) {
+    if (!rule.enabled) {
+      checks.push({ rule, matched: false, skipped: 'Rule is disabled', conditions: [] });
+      continue;
+    }
+    if (!rule[target]) {
+      checks.push({ rule, matched: false, skipped: `Rule does not set ${TARGET_LABELS[target]}`, conditions: [] });
+      continue;
+    }
+
+    const conditions = rule.conditions.map(condition => checkCondition(subject, condition));
+    const matched = conditions.every(check => check.matched);
+    checks.push({ rule, matched, conditions });
+
+    if (matched) {
+      return {
+        target,
+        value: rule[target] as string,
+        rule,
+        checks,
+        reason: conditions.length > 0
+          ? `Rule "${rule.name}" fired: ${conditions.map(check => check.reason).join('; ')}`
+          : `Rule "${rule.name}" fired: it has no conditions and matches every item`,
+      };
+    }
+  }
+
+  return {
+    target,
+    value: null,
+    rule: null,
+    checks,
+    reason: checks.length > 0
+      ? `No rule matched the item (${checks.length} tried)`
+      : `There are no rules that set ${TARGET_LABELS[target]}`,
+  };
+}
+
+// The value the first matching rule sets; throws AreaPathResolutionError when no rule matches
+export function resolveWithRules(subject: RuleSubject, rules: AreaPathRule[], target: ResolutionTarget): string {
+  const resolution = explainResolution(subject, rules, target);
+  if (resolution.value === null) {
+    throw new AreaPathResolutionError(resolution);
+  }
+  return resolution.value;
+}
+
+// Problems that keep a rule from working as intended
+export function validateRule(rule: AreaPathRule): string[] {
+  const errors: string[] = [];
+
+  if (!rule.name.trim()) {
+    errors.push('The rule needs a name');
+  }
+  if (!rule.area_path?.trim() && !rule.team?.trim()) {
+    errors.push('The rule sets neither an area path nor a team');
+  }
+  rule.conditions.forEach((condition, index) => {
+    if (!condition.value.trim()) {
+      errors.push(`Condition ${index + 1} has no value`);
+      return;
+    }
+    try {
+      conditionPattern(condition);
+    } catch (error) {
+      errors.push(`Condition ${index + 1} has an invalid regular expression`);
+    }
+  });
+
+  return errors;
+}
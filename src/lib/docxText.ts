@@ -0,0 +1,90 @@
+/**
+ * Plain text of a .docx file, read in the browser
+ * A .docx is a zip archive; the text is in word/document.xml, one w:p element per paragraph.
+ * Entries are inflated with the built-in DecompressionStream, so no zip library is needed.
+ */
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Find an entry of a zip archive and return its uncompressed content
+async function readZipEntry(buffer: ArrayBuffer, entryName: string): Promise<Uint8Array | null> {
+  const view = new DataView(buffer);
+
+  // The end of central directory record is in the last 64 KB (its comment is at most 65535 bytes)
+  let endOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('The file is not a valid .docx document');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+        throw new Error('The file is not a valid .docx document');
+      }
+      const dataOffset = localHeaderOffset + 30
+        + view.getUint16(localHeaderOffset + 26, true)
+        + view.getUint16(localHeaderOffset + 28, true);
+      const data = new Uint8Array(buffer, dataOffset, compressedSize);
+
+      if (method === STORED) return data;
+      if (method !== DEFLATED) {
+        throw new Error(`Unsupported compression method ${method} in .docx document`);
+      }
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+// Extract the text of a .docx file, one line per paragraph
+export async function extractDocxText(file: Blob): Promise<string> {
+  const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+  if (!xml) {
+    throw new Error('The file is not a valid .docx document');
+  }
+
+  const document = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+  const paragraphs = Array.from(document.getElementsByTagNameNS(WORD_NAMESPACE, 'p'));
+
+  return paragraphs.map(paragraph => {
+    let text = '';
+    paragraph.querySelectorAll('*').forEach(node => {
+      if (node.namespaceURI !== WORD_NAMESPACE) return;
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab') text += '\t';
+      else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+    });
+    return text;
+  }).join('\n');
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { RATING_SCALE, STORY_POINT_SCALE, summarizeVotes } from './estimation';
+import { EstimationVote } from '../types/grooming';
+
+function votes(storyPoints: (number | null)[]): EstimationVote[] {
+  return storyPoints.map((points, index) => ({
+    id: `vote-${index}`,
+    round_id: 'round-1',
+    user_id: `user-${index}`,
+    story_points: points,
+    complexity_rating: null,
+    risk_rating: null,
+    created_at: '2026-01-01T10:00:00Z',
+    updated_at: '2026-01-01T10:00:00Z',
+  }));
+}
+
+describe('summarizeVotes', () => {
+  it('should return an empty summary without votes', () => {
+    expect(summarizeVotes(votes([null, null]), 'story_points', STORY_POINT_SCALE)).toEqual({
+      count: 0,
+      min: null,
+      max: null,
+      unanimous: false,
+      suggested: null,
+      outliers: [],
+    });
+  });
+
+  it('should leave abstentions out and spot a unanimous vote', () => {
+    expect(summarizeVotes(votes([5, null, 5]), 'story_points', STORY_POINT_SCALE)).toMatchObject({
+      count: 2,
+      min: 5,
+      max: 5,
+      unanimous: true,
+      suggested: 5,
+      outliers: [],
+    });
+  });
+
+  it('should suggest the median card', () => {
+    const summary = summarizeVotes(votes([3, 8, 5]), 'story_points', STORY_POINT_SCALE);
+    expect(summary).toMatchObject({ min: 3, max: 8, unanimous: false, suggested: 5 });
+  });
+
+  it('should round a median between two cards up', () => {
+    expect(summarizeVotes(votes([3, 5]), 'story_points', STORY_POINT_SCALE).suggested).toBe(5);
+    expect(summarizeVotes(votes([1, 2, 3, 5]), 'story_points', STORY_POINT_SCALE).suggested).toBe(3);
+  });
+
+  it('should count distance in cards, so voters more than one card from the median are outliers', () => {
+    // 3, 5, 5, 8, 21: the median is 5; 21 is three cards away, 3 and 8 one card
+    const summary = summarizeVotes(votes([21, 5, 3, 8, 5]), 'story_points', STORY_POINT_SCALE);
+    expect(summary.suggested).toBe(5);
+    expect(summary.outliers).toEqual(['user-0']);
+  });
+
+  it('should place values that are not on the scale on the nearest card', () => {
+    expect(summarizeVotes(votes([4, 4]), 'story_points', STORY_POINT_SCALE)).toMatchObject({ min: 3, max: 3, suggested: 3 });
+    expect(summarizeVotes(votes([40]), 'story_points', STORY_POINT_SCALE).suggested).toBe(21);
+  });
+
+  it('should summarize ratings on their own scale', () => {
+    const ratings = votes([null, null, null]).map((vote, index) => ({ ...vote, risk_rating: [1, 2, 5][index] }));
+    const summary = summarizeVotes(ratings, 'risk_rating', RATING_SCALE);
+
+    expect(summary).toMatchObject({ count: 3, min: 1, max: 5, suggested: 2, outliers: ['user-2'] });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Planning-poker vote summaries: spread, outliers and a suggested consensus per estimated value
+ */
+
+import { EstimationVote } from '../types/grooming';
+
+export type EstimateField = 'story_points' | 'complexity_rating' | 'risk_rating';
+
+// Cards participants can vote with
+export const STORY_POINT_SCALE = [0, 1, 2, 3, 5, 8, 13, 21];
+export const RATING_SCALE = [1, 2, 3, 4, 5];
+
+export const ESTIMATE_FIELDS: { field: EstimateField; label: string; scale: number[] }[] = [
+  { field: 'story_points', label: 'Story Points', scale: STORY_POINT_SCALE },
+  { field: 'complexity_rating', label: 'Complexity', scale: RATING_SCALE },
+  { field: 'risk_rating', label: 'Risk', scale: RATING_SCALE },
+];
+
+export interface VoteSummary {
+  // Votes on this value; abstentions are left out
+  count: number;
+  min: number | null;
+  max: number | null;
+  // Everyone voted the same
+  unanimous: boolean;
+  // Median vote, rounded up to a card of the scale
+  suggested: number | null;
+  // Voters more than one card away from the median, to explain their estimate
+  outliers: string[];
+}
+
+// Position of a value on the scale, or of the nearest card for values that are not on it
+function cardIndex(scale: number[], value: number): number {
+  let nearest = 0;
+  scale.forEach((card, index) => {
+    if (Math.abs(card - value) < Math.abs(scale[nearest] - value)) {
+      nearest = index;
+    }
+  });
+  return nearest;
+}
+
+export function summarizeVotes(votes: EstimationVote[], field: EstimateField, scale: number[]): VoteSummary {
+  const cast = votes
+    .filter(vote => vote[field] !== null && vote[field] !== undefined)
+    .map(vote => ({ userId: vote.user_id, index: cardIndex(scale, vote[field] as number) }))
+    .sort((a, b) => a.index - b.index);
+
+  if (cast.length === 0) {
+    return { count: 0, min: null, max: null, unanimous: false, suggested: null, outliers: [] };
+  }
+
+  const middle = Math.floor(cast.length / 2);
+  const median = cast.length % 2 === 1 ? cast[middle].index : (cast[middle - 1].index + cast[middle].index) / 2;
+  const first = cast[0].index;
+  const last = cast[cast.length - 1].index;
+
+  return {
+    count: cast.length,
+    min: scale[first],
+    max: scale[last],
+    unanimous: first === last,
+    suggested: scale[Math.ceil(median)],
+    outliers: cast.filter(vote => Math.abs(vote.index - median) > 1).map(vote => vote.userId),
+  };
+}
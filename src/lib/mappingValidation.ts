@@ -0,0 +1,226 @@
+/**
+ * Checks run on a hierarchy mapping configuration before it is saved: area paths that do not exist in
+ * Azure DevOps, duplicate or conflicting rules and mappings, and ProductBoard IDs that no longer exist.
+ * Errors block the save; warnings are shown and can be saved anyway.
+ */
+
+import { validateRule } from './areaPathRules';
+import { MappingSection, MappingSnapshot } from './mappingVersions';
+
+export type MappingIssueSeverity = 'error' | 'warning';
+
+export interface MappingIssue {
+  severity: MappingIssueSeverity;
+  section: MappingSection;
+  message: string;
+}
+
+// What the configuration is checked against; an empty list skips the checks that need it
+export interface MappingReferenceData {
+  // Paths of ado_area_paths
+  areaPaths: string[];
+  initiativeIds: string[];
+  componentIds: string[];
+  productIds: string[];
+}
+
+type PbIdKind = 'initiative' | 'component' | 'product';
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/^\\+/, '').toLowerCase();
+}
+
+function normalize(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim().toLowerCase();
+}
+
+function checkAreaPaths(mapping: MappingSnapshot, reference: MappingReferenceData, issues: MappingIssue[]) {
+  const known = new Set(reference.areaPaths.map(normalizePath));
+  const check = (section: MappingSection, path: string | undefined, owner: string) => {
+    if (!path?.trim()) {
+      if (section === 'area_path_mappings') {
+        issues.push({ severity: 'error', section, message: `${owner} has no area path` });
+      }
+      return;
+    }
+    if (known.size > 0 && !known.has(normalizePath(path))) {
+      issues.push({ severity: 'error', section, message: `${owner} uses area path "${path}", which does not exist in Azure DevOps` });
+    }
+  };
+
+  if (known.size === 0) {
+    issues.push({
+      severity: 'warning',
+      section: 'area_path_mappings',
+      message: 'No Azure DevOps area paths are cached, so area paths were not checked; sync area paths first',
+    });
+  }
+
+  mapping.area_path_mappings.forEach((m, index) => check('area_path_mappings', m.area_path, `Area path mapping ${index + 1}`));
+  (mapping.area_path_rules || []).forEach(rule => check('area_path_rules', rule.area_path, `Rule "${rule.name}"`));
+}
+
+function checkRules(mapping: MappingSnapshot, issues: MappingIssue[]) {
+  const rules = mapping.area_path_rules || [];
+  const section: MappingSection = 'area_path_rules';
+
+  const ids = new Set<string>();
+  rules.forEach(rule => {
+    if (ids.has(rule.id)) {
+      issues.push({ severity: 'error', section, message: `Rule "${rule.name}" has the same ID as another rule` });
+    }
+    ids.add(rule.id);
+    validateRule(rule).forEach(error => issues.push({ severity: 'error', section, message: `Rule "${rule.name}": ${error}` }));
+  });
+
+  // Enabled rules with the same conditions compete for the same items
+  const groups = new Map<string, typeof rules>();
+  rules
+    .filter(rule => rule.enabled)
+    .forEach(rule => {
+      const signature = rule.conditions
+        .map(condition => `${condition.field}|${condition.operator}|${normalize(condition.value)}`)
+        .sort()
+        .join('&');
+      groups.set(signature, [...(groups.get(signature) || []), rule]);
+    });
+
+  groups.forEach(group => {
+    (['area_path', 'team'] as const).forEach(target => {
+      const setting = group.filter(rule => rule[target]?.trim()).sort((a, b) => a.priority - b.priority);
+      const label = target === 'area_path' ? 'area path' : 'team';
+      const [first, ...others] = setting;
+
+      others.forEach(rule => {
+        if (normalize(rule[target]) === normalize(first[target])) {
+          issues.push({ severity: 'warning', section, message: `Rule "${rule.name}" duplicates rule "${first.name}": same conditions and ${label}` });
+        } else if (rule.priority === first.priority) {
+          issues.push({
+            severity: 'error',
+            section,
+            message: `Rules "${first.name}" and "${rule.name}" conflict: same conditions and priority, but ${label} "${first[target]}" and "${rule[target]}"`,
+          });
+        } else {
+          issues.push({
+            severity: 'warning',
+            section,
+            message: `Rule "${rule.name}" never sets the ${label}: rule "${first.name}" has the same conditions and comes first`,
+          });
+        }
+      });
+    });
+  });
+}
+
+// Entries of a section that map the same ProductBoard item: conflicting when they map it differently
+function checkDuplicateMappings<T>(
+  issues: MappingIssue[],
+  section: MappingSection,
+  items: T[],
+  describe: string,
+  key: (item: T) => string,
+  target: (item: T) => string
+) {
+  const seen = new Map<string, { index: number; target: string }>();
+
+  items.forEach((item, index) => {
+    const itemKey = key(item);
+    if (!itemKey) return;
+
+    const earlier = seen.get(itemKey);
+    if (!earlier) {
+      seen.set(itemKey, { index, target: target(item) });
+      return;
+    }
+    const value = target(item);
+    issues.push(
+      normalize(value) === normalize(earlier.target)
+        ? { severity: 'warning', section, message: `${describe} ${index + 1} duplicates ${describe.toLowerCase()} ${earlier.index + 1}` }
+        : {
+            severity: 'error',
+            section,
+            message: `${describe} ${index + 1} conflicts with ${describe.toLowerCase()} ${earlier.index + 1}: "${earlier.target}" and "${value}" for the same item`,
+          }
+    );
+  });
+}
+
+function checkMappings(mapping: MappingSnapshot, issues: MappingIssue[]) {
+  checkDuplicateMappings(issues, 'pb_to_ado_mappings', mapping.pb_to_ado_mappings, 'Level mapping',
+    m => m.pb_level, m => m.ado_type);
+
+  checkDuplicateMappings(issues, 'area_path_mappings', mapping.area_path_mappings, 'Area path mapping',
+    m => {
+      const pbFields = [m.pb_initiative_id || m.pb_initiative_name, m.pb_component_id || m.pb_component_name, m.pb_product_id || m.pb_product_name, m.pb_user_email];
+      return pbFields.some(value => value?.trim()) ? [m.mapping_type, ...pbFields].map(normalize).join('|') : '';
+    },
+    m => m.area_path);
+
+  checkDuplicateMappings(issues, 'initiative_epic_mappings', mapping.initiative_epic_mappings, 'Initiative-epic mapping',
+    m => normalize(m.pb_initiative_id), m => String(m.ado_epic_id));
+
+  checkDuplicateMappings(issues, 'user_team_mappings', mapping.user_team_mappings, 'User-team mapping',
+    m => {
+      const fields = [m.user_email, m.pb_component_id || m.pb_component_name, m.pb_product_id || m.pb_product_name].map(normalize);
+      return fields.some(field => !!field) ? fields.join('|') : '';
+    },
+    m => m.team);
+
+  checkDuplicateMappings(issues, 'component_product_mappings', mapping.component_product_mappings, 'Component-product mapping',
+    m => normalize(m.component_id), m => m.product_id);
+}
+
+function checkOrphanedIds(mapping: MappingSnapshot, reference: MappingReferenceData, issues: MappingIssue[]) {
+  const used: { kind: PbIdKind; id: string | undefined; section: MappingSection; owner: string }[] = [];
+
+  mapping.area_path_mappings.forEach((m, index) => {
+    const owner = `Area path mapping ${index + 1}`;
+    used.push({ kind: 'initiative', id: m.pb_initiative_id, section: 'area_path_mappings', owner });
+    used.push({ kind: 'component', id: m.pb_component_id, section: 'area_path_mappings', owner });
+    used.push({ kind: 'product', id: m.pb_product_id, section: 'area_path_mappings', owner });
+  });
+  mapping.initiative_epic_mappings.forEach((m, index) => {
+    used.push({ kind: 'initiative', id: m.pb_initiative_id, section: 'initiative_epic_mappings', owner: `Initiative-epic mapping ${index + 1}` });
+  });
+  mapping.user_team_mappings.forEach((m, index) => {
+    const owner = `User-team mapping ${index + 1}`;
+    used.push({ kind: 'component', id: m.pb_component_id, section: 'user_team_mappings', owner });
+    used.push({ kind: 'product', id: m.pb_product_id, section: 'user_team_mappings', owner });
+  });
+  mapping.component_product_mappings.forEach((m, index) => {
+    const owner = `Component-product mapping ${index + 1}`;
+    used.push({ kind: 'component', id: m.component_id, section: 'component_product_mappings', owner });
+    used.push({ kind: 'product', id: m.product_id, section: 'component_product_mappings', owner });
+  });
+
+  const known: Record<PbIdKind, Set<string>> = {
+    initiative: new Set(reference.initiativeIds),
+    component: new Set(reference.componentIds),
+    product: new Set(reference.productIds),
+  };
+
+  used.forEach(({ kind, id, section, owner }) => {
+    if (!id?.trim() || known[kind].size === 0 || known[kind].has(id)) return;
+    issues.push({
+      severity: 'warning',
+      section,
+      message: `${owner} refers to ProductBoard ${kind} ${id}, which no longer exists`,
+    });
+  });
+}
+
+// All issues of a configuration, errors first
+export function validateMapping(mapping: MappingSnapshot, reference: MappingReferenceData): MappingIssue[] {
+  const issues: MappingIssue[] = [];
+
+  checkAreaPaths(mapping, reference, issues);
+  checkRules(mapping, issues);
+  checkMappings(mapping, issues);
+  checkOrphanedIds(mapping, reference, issues);
+
+  return [...issues.filter(issue => issue.severity === 'error'), ...issues.filter(issue => issue.severity === 'warning')];
+}
+
+export function hasBlockingIssues(issues: MappingIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { MappingSnapshot, diffMappings, exportMapping, importMapping, toSnapshot } from './mappingVersions';
+
+function snapshot(overrides: Partial<MappingSnapshot> = {}): MappingSnapshot {
+  return toSnapshot({
+    name: 'Default',
+    description: 'Standard mapping',
+    pb_to_ado_mappings: [
+      { pb_level: 'initiative', ado_type: 'Epic' },
+      { pb_level: 'feature', ado_type: 'Feature' },
+    ],
+    area_path_mappings: [],
+    initiative_epic_mappings: [],
+    user_team_mappings: [],
+    component_product_mappings: [],
+    area_path_rules: [],
+    ...overrides,
+  } as MappingSnapshot);
+}
+
+describe('diffMappings', () => {
+  it('should report no changes between equal snapshots', () => {
+    expect(diffMappings(snapshot(), snapshot())).toEqual([]);
+  });
+
+  it('should report a changed name and description', () => {
+    const changes = diffMappings(snapshot(), snapshot({ name: 'Renamed', description: undefined }));
+    expect(changes.map(change => [change.section, change.kind, change.before, change.after])).toEqual([
+      ['name', 'changed', 'Default', 'Renamed'],
+      ['description', 'changed', 'Standard mapping', undefined],
+    ]);
+  });
+
+  it('should match entries by key, so an edit is a change with the fields that differ', () => {
+    const after = snapshot({
+      pb_to_ado_mappings: [
+        { pb_level: 'initiative', ado_type: 'Feature' },
+        { pb_level: 'subfeature', ado_type: 'User Story' },
+      ],
+    } as Partial<MappingSnapshot>);
+
+    const changes = diffMappings(snapshot(), after);
+    expect(changes.map(change => [change.kind, change.key, change.fields])).toEqual([
+      ['changed', 'initiative', ['ado_type']],
+      ['removed', 'feature', undefined],
+      ['added', 'subfeature', undefined],
+    ]);
+    expect(changes[0].sectionLabel).toBe('PB to ADO');
+  });
+
+  it('should tell entries with the same key apart by their order', () => {
+    const rule = { id: 'r1', name: 'Payments', priority: 1, enabled: true, conditions: [], area_path: 'A' };
+    const before = snapshot({ area_path_rules: [rule] });
+    const after = snapshot({ area_path_rules: [rule, { ...rule, id: 'r2', area_path: 'B' }] });
+
+    const changes = diffMappings(before, after);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ section: 'area_path_rules', kind: 'added', key: 'Payments (2)' });
+  });
+});
+
+describe('importMapping', () => {
+  it('should read back a JSON and a YAML export', () => {
+    const original = snapshot({
+      area_path_rules: [{
+        id: 'r1',
+        name: 'Payments',
+        priority: 1,
+        enabled: true,
+        conditions: [{ field: 'component', operator: 'equals', value: 'Payments' }],
+        area_path: 'Project\\Payments',
+      }],
+    });
+
+    expect(importMapping(exportMapping(original, 'json'))).toEqual(original);
+    expect(importMapping(exportMapping(original, 'yaml'))).toEqual(original);
+  });
+
+  it('should accept a bare configuration and fill in missing sections', () => {
+    const imported = importMapping(JSON.stringify({ name: 'Bare' }));
+    expect(imported.name).toBe('Bare');
+    expect(imported.pb_to_ado_mappings).toEqual([]);
+    expect(imported.area_path_rules).toEqual([]);
+  });
+
+  it('should keep entry fields the app does not know', () => {
+    const imported = importMapping(JSON.stringify({
+      name: 'Extra',
+      user_team_mappings: [{ user_email: 'ana@example.com', team: 'Core', note: 'kept' }],
+    }));
+    expect(imported.user_team_mappings[0]).toMatchObject({ note: 'kept' });
+  });
+
+  it('should reject files that are neither JSON nor YAML', () => {
+    expect(() => importMapping('name: [unclosed')).toThrow('Error importing mapping: the file is neither JSON nor YAML');
+  });
+
+  it('should reject a configuration without a name', () => {
+    expect(() => importMapping(JSON.stringify({ mapping: { name: ' ' } }))).toThrow('the configuration has no name');
+  });
+
+  it('should reject a newer format version', () => {
+    expect(() => importMapping(JSON.stringify({ format_version: 99, mapping: { name: 'Future' } })))
+      .toThrow('format version 99 is newer than this app supports');
+  });
+
+  it('should say where entries do not match the schema', () => {
+    const content = JSON.stringify({
+      name: 'Broken',
+      pb_to_ado_mappings: [{ pb_level: 'portfolio', ado_type: 'Epic' }],
+      area_path_rules: [{ id: 'r1', name: 'No priority', enabled: true, conditions: [] }],
+    });
+
+    expect(() => importMapping(content)).toThrow(/pb_to_ado_mappings\[0\]\.pb_level: .*; area_path_rules\[0\]\.priority: Required/);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Versioned hierarchy mapping configurations: the part of a configuration that is versioned,
+ * entry-level diffs between two versions and the JSON/YAML files configurations are exported to and imported from
+ */
+
+import { parse, stringify } from 'yaml';
+import { z } from 'zod';
+import type { HierarchyMappingConfig } from './api/hierarchyMapping';
+
+export type MappingSection =
+  | 'pb_to_ado_mappings'
+  | 'area_path_mappings'
+  | 'initiative_epic_mappings'
+  | 'user_team_mappings'
+  | 'component_product_mappings'
+  | 'area_path_rules';
+
+// What a version holds: the configuration without its id, workspace and timestamps
+export type MappingSnapshot = Pick<HierarchyMappingConfig, 'name' | 'description' | MappingSection>;
+
+export type MappingExportFormat = 'json' | 'yaml';
+
+type MappingEntry = Record<string, unknown>;
+
+interface SectionDefinition {
+  section: MappingSection;
+  label: string;
+  // Identifies an entry across versions, so edits show as changes instead of a removal and an addition
+  key: (entry: MappingEntry) => string;
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function joined(...values: unknown[]): string {
+  return values.map(text).filter(value => !!value.trim()).join(' / ');
+}
+
+export const MAPPING_SECTIONS: SectionDefinition[] = [
+  {
+    section: 'pb_to_ado_mappings',
+    label: 'PB to ADO',
+    key: entry => text(entry.pb_level),
+  },
+  {
+    section: 'area_path_mappings',
+    label: 'Area Paths',
+    key: entry =>
+      joined(
+        entry.mapping_type,
+        entry.pb_initiative_name || entry.pb_initiative_id,
+        entry.pb_component_name || entry.pb_component_id,
+        entry.pb_product_name || entry.pb_product_id,
+        entry.pb_user_email
+      ) || text(entry.area_path),
+  },
+  {
+    section: 'initiative_epic_mappings',
+    label: 'Initiative-Epic',
+    key: entry => text(entry.pb_initiative_name || entry.pb_initiative_id),
+  },
+  {
+    section: 'user_team_mappings',
+    label: 'User-Team',
+    key: entry => joined(entry.user_email, entry.pb_component_name, entry.pb_product_name),
+  },
+  {
+    section: 'component_product_mappings',
+    label: 'Component-Product',
+    key: entry => text(entry.component_name || entry.component_id),
+  },
+  {
+    section: 'area_path_rules',
+    label: 'Resolution Rules',
+    key: entry => text(entry.name || entry.id),
+  },
+];
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export function toSnapshot(mapping: HierarchyMappingConfig | MappingSnapshot): MappingSnapshot {
+  return {
+    name: mapping.name,
+    description: mapping.description,
+    pb_to_ado_mappings: mapping.pb_to_ado_mappings || [],
+    area_path_mappings: mapping.area_path_mappings || [],
+    initiative_epic_mappings: mapping.initiative_epic_mappings || [],
+    user_team_mappings: mapping.user_team_mappings || [],
+    component_product_mappings: mapping.component_product_mappings || [],
+    area_path_rules: mapping.area_path_rules || [],
+  };
+}
+
+/** Diffs */
+
+export interface MappingChange {
+  section: MappingSection | 'name' | 'description';
+  sectionLabel: string;
+  kind: 'added' | 'removed' | 'changed';
+  key: string;
+  before?: unknown;
+  after?: unknown;
+  // Fields of a changed entry that differ
+  fields?: string[];
+}
+
+function entries(snapshot: MappingSnapshot, definition: SectionDefinition): Map<string, MappingEntry> {
+  const keyed = new Map<string, MappingEntry>();
+  ((snapshot[definition.section] || []) as unknown as MappingEntry[]).forEach((entry, index) => {
+    const key = definition.key(entry) || `Entry ${index + 1}`;
+    // Entries with the same key are told apart by their order
+    let unique = key;
+    for (let occurrence = 2; keyed.has(unique); occurrence++) {
+      unique = `${key} (${occurrence})`;
+    }
+    keyed.set(unique, entry);
+  });
+  return keyed;
+}
+
+function changedFields(before: MappingEntry, after: MappingEntry): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields].filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+}
+
+// Entry-level changes that turn one version into another
+export function diffMappings(before: MappingSnapshot, after: MappingSnapshot): MappingChange[] {
+  const changes: MappingChange[] = [];
+
+  (['name', 'description'] as const).forEach(field => {
+    if (text(before[field]) !== text(after[field])) {
+      const label = field === 'name' ? 'Name' : 'Description';
+      changes.push({ section: field, sectionLabel: label, kind: 'changed', key: label, before: before[field], after: after[field] });
+    }
+  });
+
+  MAPPING_SECTIONS.forEach(definition => {
+    const beforeEntries = entries(before, definition);
+    const afterEntries = entries(after, definition);
+    const base = { section: definition.section, sectionLabel: definition.label };
+
+    beforeEntries.forEach((entry, key) => {
+      const next = afterEntries.get(key);
+      if (!next) {
+        changes.push({ ...base, kind: 'removed', key, before: entry });
+        return;
+      }
+      const fields = changedFields(entry, next);
+      if (fields.length > 0) {
+        changes.push({ ...base, kind: 'changed', key, before: entry, after: next, fields });
+      }
+    });
+
+    afterEntries.forEach((entry, key) => {
+      if (!beforeEntries.has(key)) {
+        changes.push({ ...base, kind: 'added', key, after: entry });
+      }
+    });
+  });
+
+  return changes;
+}
+
+/** Import and export */
+
+export function exportMapping(mapping: HierarchyMappingConfig | MappingSnapshot, format: MappingExportFormat): string {
+  const file = {
+    format_version: EXPORT_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    mapping: toSnapshot(mapping),
+  };
+  return format === 'yaml' ? stringify(file) : JSON.stringify(file, null, 2);
+}
+
+// What an imported configuration must look like; entries keep fields the app does not know
+const IMPORT_SCHEMA = z.object({
+  name: z.string().refine(name => !!name.trim(), 'the configuration has no name'),
+  description: z.string().nullish(),
+  pb_to_ado_mappings: z.array(z.object({
+    pb_level: z.enum(['initiative', 'feature', 'subfeature']),
+    ado_type: z.enum(['Epic', 'Feature', 'User Story']),
+  }).passthrough()).optional(),
+  area_path_mappings: z.array(z.object({
+    mapping_type: z.enum(['epic', 'feature', 'story']),
+    area_path: z.string(),
+  }).passthrough()).optional(),
+  initiative_epic_mappings: z.array(z.object({
+    pb_initiative_id: z.string(),
+    pb_initiative_name: z.string(),
+    ado_epic_id: z.number(),
+    ado_epic_name: z.string(),
+  }).passthrough()).optional(),
+  user_team_mappings: z.array(z.object({
+    user_email: z.string(),
+    team: z.string(),
+  }).passthrough()).optional(),
+  component_product_mappings: z.array(z.object({
+    component_id: z.string(),
+    component_name: z.string(),
+    product_id: z.string(),
+    product_name: z.string(),
+  }).passthrough()).optional(),
+  area_path_rules: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    priority: z.number(),
+    enabled: z.boolean(),
+    conditions: z.array(z.object({
+      field: z.enum(['initiative', 'component', 'product', 'owner_email', 'tags']),
+      operator: z.enum(['equals', 'wildcard', 'regex']),
+      value: z.string(),
+    })),
+    area_path: z.string().optional(),
+    team: z.string().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+// Where and why the file does not match IMPORT_SCHEMA, e.g. "area_path_rules[0].conditions: Required"
+function describeIssue(issue: z.ZodIssue): string {
+  const path = issue.path
+    .map((part, index) => (typeof part === 'number' ? `[${part}]` : `${index > 0 ? '.' : ''}${part}`))
+    .join('');
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+// Read an exported configuration; JSON is tried first, as every JSON file is also YAML
+export function importMapping(content: string): MappingSnapshot {
+  let file: unknown;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    try {
+      file = parse(content);
+    } catch (error) {
+      throw new Error(`Error importing mapping: the file is neither JSON nor YAML (${(error as Error).message})`);
+    }
+  }
+
+  if (!file || typeof file !== 'object') {
+    throw new Error('Error importing mapping: the file does not contain a mapping configuration');
+  }
+
+  // Exports wrap the configuration; a bare configuration is accepted as well
+  const record = file as Record<string, unknown>;
+  if (typeof record.format_version === 'number' && record.format_version > EXPORT_FORMAT_VERSION) {
+    throw new Error(`Error importing mapping: format version ${record.format_version} is newer than this app supports`);
+  }
+  const mapping = (record.mapping && typeof record.mapping === 'object' ? record.mapping : record) as Record<string, unknown>;
+
+  if (typeof mapping.name !== 'string' || !mapping.name.trim()) {
+    throw new Error('Error importing mapping: the configuration has no name');
+  }
+  const result = IMPORT_SCHEMA.safeParse(mapping);
+  if (!result.success) {
+    throw new Error(`Error importing mapping: ${result.error.issues.slice(0, 3).map(describeIssue).join('; ')}`);
+  }
+
+  return toSnapshot(result.data as unknown as MappingSnapshot);
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MatchCandidate,
+  MatchableAdoItem,
+  MatchablePbItem,
+  findMatchCandidates,
+  selectMatches,
+  titleSimilarity,
+  wordSimilarity
+} from './pbAdoMatching';
+import { adoWorkItemWebUrl, pbIdFromTitle, pbIdFromUrl, stripPbPrefix } from '../../supabase/functions/_shared/pbAdoLinks';
+
+function pbItem(overrides: Partial<MatchablePbItem>): MatchablePbItem {
+  return {
+    id: 'pb-1',
+    name: 'Checkout redesign',
+    level: 'feature',
+    parentId: null,
+    expectedType: 'Feature',
+    expectedAreaPath: 'Shop\\Payments',
+    ...overrides,
+  };
+}
+
+function adoItem(overrides: Partial<MatchableAdoItem>): MatchableAdoItem {
+  return {
+    id: 100,
+    title: 'Checkout redesign',
+    type: 'Feature',
+    areaPath: 'Shop\\Payments',
+    parentId: null,
+    linkedPbIds: [],
+    url: null,
+    ...overrides,
+  };
+}
+
+function signal(candidate: MatchCandidate, kind: string) {
+  return candidate.signals.find(s => s.kind === kind);
+}
+
+describe('PB link helpers', () => {
+  it('should read the feature ID from ProductBoard URLs and title prefixes', () => {
+    expect(pbIdFromUrl('https://acme.productboard.com/feature-board/123/features/abc-123/detail')).toBe('abc-123');
+    expect(pbIdFromUrl('https://example.com/features/abc')).toBeNull();
+    expect(pbIdFromTitle('[PB abc-123] Checkout')).toBe('abc-123');
+    expect(pbIdFromTitle('[pb:#42]Checkout')).toBe('42');
+    expect(pbIdFromTitle('Checkout [PB42]')).toBeNull();
+    expect(stripPbPrefix('  [PB42] Checkout')).toBe('Checkout');
+  });
+
+  it('should turn the REST URL of a work item into its browser URL', () => {
+    expect(adoWorkItemWebUrl({ id: 7, url: 'https://dev.azure.com/acme/Shop/_apis/wit/workItems/7' }))
+      .toBe('https://dev.azure.com/acme/Shop/_workitems/edit/7');
+    expect(adoWorkItemWebUrl({ id: 7, url: 'https://dev.azure.com/acme/Shop/_workitems/edit/7' })).toBeNull();
+    expect(adoWorkItemWebUrl({ id: 7 })).toBeNull();
+  });
+});
+
+describe('title scoring', () => {
+  it('should ignore stop words, case and small typos', () => {
+    expect(wordSimilarity('The Checkout Redesign', 'checkout redesigns')).toBe(1);
+    expect(wordSimilarity('Checkout', 'Search')).toBe(0);
+    expect(wordSimilarity('the', 'Checkout')).toBe(0);
+  });
+
+  it('should ignore the [PB] prefix of the work item title', () => {
+    expect(titleSimilarity('Checkout redesign', '[PB42] Checkout redesign')).toBe(1);
+  });
+});
+
+describe('findMatchCandidates', () => {
+  it('should give a linked work item full confidence whatever its title', () => {
+    const [candidate] = findMatchCandidates(
+      [pbItem({})],
+      [adoItem({ title: 'Something else', linkedPbIds: ['pb-1'] })],
+      new Map()
+    );
+
+    expect(candidate.evidence).toBe('link');
+    expect(candidate.confidence).toBe(1);
+    expect(candidate.signals[0].kind).toBe('pb_link');
+  });
+
+  it('should rank a [PB] title prefix just below a link', () => {
+    const [candidate] = findMatchCandidates([pbItem({})], [adoItem({ title: '[PBpb-1] Unrelated' })], new Map());
+
+    expect(candidate.evidence).toBe('prefix');
+    expect(candidate.confidence).toBe(0.98);
+  });
+
+  it('should not offer a work item that points at another feature', () => {
+    const candidates = findMatchCandidates(
+      [pbItem({}), pbItem({ id: 'pb-2', name: 'Search' })],
+      [adoItem({ linkedPbIds: ['pb-2'] })],
+      new Map()
+    );
+
+    expect(candidates.map(candidate => [candidate.pbItem.id, candidate.evidence])).toEqual([['pb-2', 'link']]);
+  });
+
+  it('should score fuzzy matches on title, type, parent and area path', () => {
+    const [candidate] = findMatchCandidates(
+      [pbItem({ parentId: 'init-1' })],
+      [adoItem({ parentId: 50 })],
+      new Map([['init-1', 50]])
+    );
+
+    expect(candidate.evidence).toBe('fuzzy');
+    expect(signal(candidate, 'parent')?.score).toBe(1);
+    expect(signal(candidate, 'type')?.score).toBe(1);
+    expect(signal(candidate, 'area_path')?.score).toBe(1);
+    // Capped below the matches the work item confirms itself
+    expect(candidate.confidence).toBe(0.95);
+  });
+
+  it('should score a disagreeing type, parent and area path lower', () => {
+    const [agreeing] = findMatchCandidates([pbItem({})], [adoItem({})], new Map());
+    const [disagreeing] = findMatchCandidates(
+      [pbItem({ parentId: 'init-1' })],
+      [adoItem({ type: 'Epic', parentId: 60, areaPath: 'Shop\\Search' })],
+      new Map([['init-1', 50]])
+    );
+
+    expect(signal(disagreeing, 'type')?.score).toBe(0);
+    expect(signal(disagreeing, 'parent')?.score).toBe(0);
+    expect(signal(disagreeing, 'area_path')?.score).toBe(0);
+    expect(disagreeing.confidence).toBeCloseTo(0.55);
+    expect(disagreeing.confidence).toBeLessThan(agreeing.confidence);
+  });
+
+  it('should give partial credit for a grandparent and a nested area path', () => {
+    const [candidate] = findMatchCandidates(
+      [pbItem({ parentId: 'init-1' })],
+      [adoItem({ parentId: 60, areaPath: 'Shop\\Payments\\Cards' }), adoItem({ id: 60, title: 'Wallets', parentId: 50 })],
+      new Map([['init-1', 50]])
+    );
+
+    expect(signal(candidate, 'parent')?.score).toBe(0.6);
+    expect(signal(candidate, 'area_path')?.score).toBe(0.75);
+  });
+
+  it('should skip linked items and titles below the minimum score', () => {
+    const items = [pbItem({}), pbItem({ id: 'pb-2', name: 'Checkout analytics dashboard' })];
+    const ado = [adoItem({}), adoItem({ id: 101, title: 'Checkout redesign' })];
+
+    const candidates = findMatchCandidates(items, ado, new Map([['pb-1', 100]]), { minTitleScore: 0.6 });
+    expect(candidates).toEqual([]);
+  });
+
+  it('should keep the best candidates of each item up to the limit', () => {
+    const candidates = findMatchCandidates(
+      [pbItem({})],
+      [adoItem({ id: 1 }), adoItem({ id: 2, title: 'Checkout redesigns' }), adoItem({ id: 3, title: 'Checkout redesign v2' })],
+      new Map(),
+      { limit: 2 }
+    );
+
+    expect(candidates.map(candidate => candidate.adoItem.id)).toEqual([1, 2]);
+  });
+});
+
+describe('selectMatches', () => {
+  it('should pick each feature and work item once, most confident first', () => {
+    const candidates = findMatchCandidates(
+      [pbItem({}), pbItem({ id: 'pb-2', name: 'Checkout redesign mobile' })],
+      [adoItem({ id: 1 }), adoItem({ id: 2, title: 'Search', linkedPbIds: ['pb-2'] })],
+      new Map()
+    );
+
+    expect(selectMatches(candidates, 0.5).map(match => [match.pbItem.id, match.adoItem.id])).toEqual([
+      ['pb-2', 2],
+      ['pb-1', 1],
+    ]);
+    expect(selectMatches(candidates, 0.99).map(match => match.pbItem.id)).toEqual(['pb-2']);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Matching of ProductBoard features to existing Azure DevOps work items that are not linked yet
+ *
+ * A work item that links to the feature (a ProductBoard hyperlink relation or a [PB<id>] title
+ * prefix) is a near-certain match. Otherwise candidates are scored on their title, and on whether
+ * the work item's type, parent and area path agree with what the hierarchy mapping expects.
+ */
+
+import { pbIdFromTitle, stripPbPrefix } from '../../supabase/functions/_shared/pbAdoLinks';
+import { normalizeText, textSimilarity } from '../../supabase/functions/_shared/textSimilarity';
+
+export interface MatchablePbItem {
+  // ProductBoard ID
+  id: string;
+  name: string;
+  level: string;
+  // ProductBoard ID of the parent feature or initiative
+  parentId: string | null;
+  // ADO type and area path the hierarchy mapping gives the item, if any
+  expectedType: string | null;
+  expectedAreaPath: string | null;
+}
+
+export interface MatchableAdoItem {
+  id: number;
+  title: string;
+  type: string;
+  areaPath: string | null;
+  parentId: number | null;
+  // ProductBoard features the work item links to through its hyperlink relations
+  linkedPbIds: string[];
+  // Browser URL of the work item, if cached
+  url: string | null;
+}
+
+export type MatchSignalKind = 'pb_link' | 'title_prefix' | 'title' | 'type' | 'parent' | 'area_path';
+
+export interface MatchSignal {
+  kind: MatchSignalKind;
+  // 0 (disagrees) to 1 (agrees); 0.5 when there is nothing to compare
+  score: number;
+  detail: string;
+}
+
+export interface MatchCandidate {
+  pbItem: MatchablePbItem;
+  adoItem: MatchableAdoItem;
+  // 0 to 1
+  confidence: number;
+  // Link and prefix: the work item points at the feature; fuzzy: scored on similarity only
+  evidence: 'link' | 'prefix' | 'fuzzy';
+  signals: MatchSignal[];
+}
+
+export interface MatchOptions {
+  // Candidates kept per ProductBoard item
+  limit?: number;
+  // Fuzzy candidates whose titles score lower are left out
+  minTitleScore?: number;
+}
+
+export const MATCH_SIGNAL_LABELS: Record<MatchSignalKind, string> = {
+  pb_link: 'ProductBoard link',
+  title_prefix: 'Title prefix',
+  title: 'Title',
+  type: 'Type',
+  parent: 'Parent',
+  area_path: 'Area path',
+};
+
+// How much each signal counts towards a fuzzy match
+const FUZZY_WEIGHTS: Partial<Record<MatchSignalKind, number>> = { title: 0.55, parent: 0.2, area_path: 0.15, type: 0.1 };
+
+// Fuzzy matches stay below matches the work item itself confirms
+const MAX_FUZZY_CONFIDENCE = 0.95;
+const LINK_CONFIDENCE = 1;
+const PREFIX_CONFIDENCE = 0.98;
+
+// Words that say nothing about which item a title describes
+const STOP_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// Two words count as the same when they are this similar, so typos and plurals still match
+const WORD_SIMILARITY = 0.7;
+
+// Ancestors of a work item checked for the parent chain
+const MAX_PARENT_DEPTH = 3;
+
+function words(text: string): string[] {
+  return normalizeText(text).split(' ').filter(word => !!word && !STOP_WORDS.has(word));
+}
+
+// Dice coefficient over words, counting near-identical words as shared
+export function wordSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const unmatched = [...right];
+  let shared = 0;
+  for (const word of left) {
+    const index = unmatched.findIndex(other => other === word || textSimilarity(word, other) >= WORD_SIMILARITY);
+    if (index >= 0) {
+      shared++;
+      unmatched.splice(index, 1);
+    }
+  }
+
+  return (2 * shared) / (left.length + right.length);
+}
+
+// Title similarity: the average of the word and character bigram scores, ignoring [PB…] prefixes
+export function titleSimilarity(pbName: string, adoTitle: string): number {
+  const title = stripPbPrefix(adoTitle);
+  return (wordSimilarity(pbName, title) + textSimilarity(pbName, title)) / 2;
+}
+
+function typeSignal(pbItem: MatchablePbItem, adoItem: MatchableAdoItem): MatchSignal {
+  if (!pbItem.expectedType) {
+    return { kind: 'type', score: 0.5, detail: 'The mapping has no ADO type for this level' };
+  }
+  return adoItem.type === pbItem.expectedType
+    ? { kind: 'type', score: 1, detail: `${adoItem.type}, as the mapping expects` }
+    : { kind: 'type', score: 0, detail: `${adoItem.type}; the mapping expects a ${pbItem.expectedType}` };
+}
+
+function areaPathSignal(pbItem: MatchablePbItem, adoItem: MatchableAdoItem): MatchSignal {
+  if (!pbItem.expectedAreaPath || !adoItem.areaPath) {
+    return { kind: 'area_path', score: 0.5, detail: pbItem.expectedAreaPath ? 'The work item has no area path' : 'No rule resolves an area path' };
+  }
+
+  const expected = pbItem.expectedAreaPath.toLowerCase();
+  const actual = adoItem.areaPath.toLowerCase();
+  if (actual === expected) {
+    return { kind: 'area_path', score: 1, detail: `In ${adoItem.areaPath}, as the rules resolve` };
+  }
+  if (actual.startsWith(`${expected}\\`) || expected.startsWith(`${actual}\\`)) {
+    return { kind: 'area_path', score: 0.75, detail: `In ${adoItem.areaPath}; the rules resolve ${pbItem.expectedAreaPath}` };
+  }
+  return { kind: 'area_path', score: 0, detail: `In ${adoItem.areaPath}; the rules resolve ${pbItem.expectedAreaPath}` };
+}
+
+function parentSignal(
+  pbItem: MatchablePbItem,
+  adoItem: MatchableAdoItem,
+  links: Map<string, number>,
+  adoById: Map<number, MatchableAdoItem>
+): MatchSignal {
+  const expectedParent = pbItem.parentId ? links.get(pbItem.parentId) : undefined;
+  if (expectedParent === undefined) {
+    return { kind: 'parent', score: 0.5, detail: pbItem.parentId ? 'The ProductBoard parent is not linked to a work item' : 'No ProductBoard parent' };
+  }
+  if (adoItem.parentId === null) {
+    return { kind: 'parent', score: 0.25, detail: `No parent; the ProductBoard parent is linked to #${expectedParent}` };
+  }
+  if (adoItem.parentId === expectedParent) {
+    return { kind: 'parent', score: 1, detail: `Child of #${expectedParent}, the ProductBoard parent's work item` };
+  }
+
+  // A grandparent still places the item in the right part of the hierarchy
+  let ancestor = adoById.get(adoItem.parentId);
+  for (let depth = 1; ancestor && depth < MAX_PARENT_DEPTH; depth++) {
+    if (ancestor.parentId === expectedParent) {
+      return { kind: 'parent', score: 0.6, detail: `Under #${expectedParent}, the ProductBoard parent's work item, but not a direct child` };
+    }
+    ancestor = ancestor.parentId !== null ? adoById.get(ancestor.parentId) : undefined;
+  }
+
+  return { kind: 'parent', score: 0, detail: `Child of #${adoItem.parentId}; the ProductBoard parent is linked to #${expectedParent}` };
+}
+
+function fuzzyConfidence(signals: MatchSignal[]): number {
+  const score = signals.reduce((sum, signal) => sum + signal.score * (FUZZY_WEIGHTS[signal.kind] || 0), 0);
+  return Math.min(score, MAX_FUZZY_CONFIDENCE);
+}
+
+/**
+ * Score the unlinked work items against the unlinked ProductBoard items
+ * @param pbItems The ProductBoard items to match
+ * @param adoItems The cached ADO work items
+ * @param knownLinks Existing links from ProductBoard ID to ADO work item ID; linked items are not matched again
+ * @returns The best candidates of every item, highest confidence first
+ */
+export function findMatchCandidates(
+  pbItems: MatchablePbItem[],
+  adoItems: MatchableAdoItem[],
+  knownLinks: Map<string, number>,
+  options: MatchOptions = {}
+): MatchCandidate[] {
+  const { limit = 3, minTitleScore = 0.5 } = options;
+  const linkedAdoIds = new Set(knownLinks.values());
+  const adoById = new Map(adoItems.map(item => [item.id, item]));
+  const pbIds = new Set(pbItems.map(item => item.id));
+
+  // Work items that point at a ProductBoard item belong to it and to no other
+  const claimed = new Map<number, { pbId: string; evidence: 'link' | 'prefix' }>();
+  adoItems.forEach(adoItem => {
+    const linkedPbId = adoItem.linkedPbIds.find(id => pbIds.has(id));
+    const prefixPbId = pbIdFromTitle(adoItem.title);
+    if (linkedPbId) {
+      claimed.set(adoItem.id, { pbId: linkedPbId, evidence: 'link' });
+    } else if (prefixPbId && pbIds.has(prefixPbId)) {
+      claimed.set(adoItem.id, { pbId: prefixPbId, evidence: 'prefix' });
+    }
+  });
+
+  // Parents resolve through existing links and through the work items that point at their feature
+  const parentLinks = new Map(knownLinks);
+  claimed.forEach(({ pbId }, adoId) => {
+    if (!parentLinks.has(pbId)) parentLinks.set(pbId, adoId);
+  });
+
+  const unlinkedAdo = adoItems.filter(item => !linkedAdoIds.has(item.id));
+
+  // Only work items sharing a word with the feature's name are scored
+  const byWord = new Map<string, MatchableAdoItem[]>();
+  unlinkedAdo.forEach(adoItem => {
+    new Set(words(stripPbPrefix(adoItem.title))).forEach(word => {
+      byWord.set(word, [...(byWord.get(word) || []), adoItem]);
+    });
+  });
+
+  const candidates: MatchCandidate[] = [];
+  pbItems
+    .filter(pbItem => !knownLinks.has(pbItem.id))
+    .forEach(pbItem => {
+      const itemCandidates: MatchCandidate[] = [];
+      const scored = new Set<number>();
+      const score = (adoItem: MatchableAdoItem) => {
+        if (scored.has(adoItem.id)) return;
+        scored.add(adoItem.id);
+
+        const claim = claimed.get(adoItem.id);
+        if (claim && claim.pbId !== pbItem.id) return;
+
+        const title = titleSimilarity(pbItem.name, adoItem.title);
+        if (!claim && title < minTitleScore) return;
+
+        const signals: MatchSignal[] = [
+          { kind: 'title', score: title, detail: `${Math.round(title * 100)}% similar to "${stripPbPrefix(adoItem.title)}"` },
+          typeSignal(pbItem, adoItem),
+          parentSignal(pbItem, adoItem, parentLinks, adoById),
+          areaPathSignal(pbItem, adoItem),
+        ];
+
+        if (claim?.evidence === 'link') {
+          signals.unshift({ kind: 'pb_link', score: 1, detail: 'The work item links to this ProductBoard feature' });
+        } else if (claim?.evidence === 'prefix') {
+          signals.unshift({ kind: 'title_prefix', score: 1, detail: `The title starts with [PB${pbItem.id}]` });
+        }
+
+        itemCandidates.push({
+          pbItem,
+          adoItem,
+          confidence: claim ? (claim.evidence === 'link' ? LINK_CONFIDENCE : PREFIX_CONFIDENCE) : fuzzyConfidence(signals),
+          evidence: claim?.evidence || 'fuzzy',
+          signals,
+        });
+      };
+
+      claimed.forEach(({ pbId }, adoId) => {
+        const adoItem = adoById.get(adoId);
+        if (pbId === pbItem.id && adoItem && !linkedAdoIds.has(adoId)) score(adoItem);
+      });
+      new Set(words(pbItem.name)).forEach(word => (byWord.get(word) || []).forEach(score));
+
+      candidates.push(...itemCandidates.sort((a, b) => b.confidence - a.confidence).slice(0, limit));
+    });
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Pick at most one work item per ProductBoard item and vice versa, most confident first
+ * @param candidates Candidates from findMatchCandidates
+ * @param minConfidence Candidates below this confidence are not picked
+ */
+export function selectMatches(candidates: MatchCandidate[], minConfidence: number): MatchCandidate[] {
+  const usedPb = new Set<string>();
+  const usedAdo = new Set<number>();
+
+  return [...candidates]
+    .sort((a, b) => b.confidence - a.confidence)
+    .filter(candidate => {
+      if (candidate.confidence < minConfidence) return false;
+      if (usedPb.has(candidate.pbItem.id) || usedAdo.has(candidate.adoItem.id)) return false;
+      usedPb.add(candidate.pbItem.id);
+      usedAdo.add(candidate.adoItem.id);
+      return true;
+    });
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { StoryHistoryRow, diffWords, groupStoryHistory, storyVersionPatch } from './storyHistory';
+
+function row(overrides: Partial<StoryHistoryRow>): StoryHistoryRow {
+  return {
+    id: 'h1',
+    story_id: 'story-1',
+    field_name: 'title',
+    old_value: null,
+    new_value: null,
+    changed_by: 'user-1',
+    changed_at: '2026-01-01T10:00:00Z',
+    source: 'grooming',
+    ...overrides,
+  };
+}
+
+// Newest first, as the history is read
+const rows: StoryHistoryRow[] = [
+  row({ id: 'h5', field_name: 'title', old_value: '"Checkout v2"', new_value: '"Checkout v3"', changed_at: '2026-01-03T10:00:00Z' }),
+  row({ id: 'h4', field_name: 'story_points', old_value: '3', new_value: '5', changed_at: '2026-01-02T10:00:00Z' }),
+  row({ id: 'h3', field_name: 'title', old_value: '"Checkout"', new_value: '"Checkout v2"', changed_at: '2026-01-02T10:00:00Z' }),
+  row({ id: 'h2', field_name: 'description', old_value: 'plain text', new_value: '"Pay in one step"', changed_at: '2026-01-01T12:00:00Z', source: 'ai' }),
+  row({ id: 'h1', field_name: 'created', changed_at: '2026-01-01T10:00:00Z' }),
+];
+
+describe('groupStoryHistory', () => {
+  it('should group the rows of one write and parse the stored values', () => {
+    const changes = groupStoryHistory(rows);
+
+    expect(changes.map(change => [change.id, change.fields.map(field => field.field_name), change.created])).toEqual([
+      ['h5', ['title'], false],
+      ['h4', ['story_points', 'title'], false],
+      ['h2', ['description'], false],
+      ['h1', [], true],
+    ]);
+    expect(changes[1].fields[0]).toEqual({ field_name: 'story_points', old_value: 3, new_value: 5 });
+    // Rows written before values were JSON encoded are kept as text
+    expect(changes[2].fields[0].old_value).toBe('plain text');
+  });
+});
+
+describe('storyVersionPatch', () => {
+  const changes = groupStoryHistory(rows);
+
+  it('should be empty for the latest version', () => {
+    expect(storyVersionPatch(changes, 'h5')).toEqual({});
+  });
+
+  it('should restore each field changed since to its value right after the version', () => {
+    expect(storyVersionPatch(changes, 'h4')).toEqual({ title: 'Checkout v2' });
+    expect(storyVersionPatch(changes, 'h2')).toEqual({ title: 'Checkout', story_points: 3 });
+    expect(storyVersionPatch(changes, 'h1')).toEqual({ title: 'Checkout', story_points: 3, description: 'plain text' });
+  });
+
+  it('should throw for a version that is not in the history', () => {
+    expect(() => storyVersionPatch(changes, 'missing')).toThrow('The version is not in the history of the story');
+  });
+});
+
+describe('diffWords', () => {
+  it('should mark removed and added words and keep the rest', () => {
+    expect(diffWords('Pay in one step', 'Pay in two steps')).toEqual([
+      { type: 'equal', text: 'Pay in ' },
+      { type: 'removed', text: 'one' },
+      { type: 'added', text: 'two' },
+      { type: 'equal', text: ' ' },
+      { type: 'removed', text: 'step' },
+      { type: 'added', text: 'steps' },
+    ]);
+  });
+
+  it('should return one equal part for the same text', () => {
+    expect(diffWords('Same text', 'Same text')).toEqual([{ type: 'equal', text: 'Same text' }]);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('should keep the whitespace so the parts join back into both texts', () => {
+    const before = 'As a shopper\nI want to pay  quickly';
+    const after = 'As a returning shopper\nI want to pay quickly';
+    const parts = diffWords(before, after);
+
+    expect(parts.filter(part => part.type !== 'added').map(part => part.text).join('')).toBe(before);
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after);
+  });
+
+  it('should show very long texts as replaced instead of comparing them', () => {
+    const before = Array.from({ length: 1200 }, (_, index) => `a${index}`).join(' ');
+    const after = Array.from({ length: 1200 }, (_, index) => `b${index}`).join(' ');
+
+    expect(diffWords(before, after)).toEqual([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Helpers for the version history of grooming stories
+ * story_history holds one row per changed field with the JSON encoded values before and after.
+ * Rows written by the same update are grouped into one change, the changes are turned back into
+ * earlier versions of the story, and values are compared word by word for the diff view.
+ */
+
+import { StoryChange, StoryChangeSource } from '../types/grooming';
+
+export interface StoryHistoryRow {
+  id: string;
+  story_id: string;
+  field_name: string;
+  old_value: string | null;
+  new_value: string | null;
+  changed_by: string | null;
+  changed_at: string;
+  source: StoryChangeSource | null;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+// Above this many word pairs the texts are shown as replaced instead of compared
+const MAX_DIFF_CELLS = 1_000_000;
+
+export const CHANGE_SOURCE_LABELS: Record<StoryChangeSource, string> = {
+  grooming: 'Grooming',
+  story_creator: 'Story Creator',
+  ai: 'AI',
+  productboard: 'ProductBoard sync',
+  ado: 'Azure DevOps sync',
+  restore: 'Restore',
+};
+
+// Values are stored JSON encoded; rows written before that are plain text
+function parseValue(value: string | null): unknown {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Group history rows, newest first, into the changes made by each write
+export function groupStoryHistory(rows: StoryHistoryRow[]): StoryChange[] {
+  const changes: StoryChange[] = [];
+
+  for (const row of rows) {
+    const previous = changes[changes.length - 1];
+    const sameWrite = previous
+      && previous.changed_at === row.changed_at
+      && previous.changed_by === row.changed_by
+      && previous.source === row.source;
+
+    const change = sameWrite ? previous : {
+      id: row.id,
+      story_id: row.story_id,
+      changed_at: row.changed_at,
+      changed_by: row.changed_by,
+      source: row.source,
+      created: false,
+      fields: [],
+    };
+    if (!sameWrite) changes.push(change);
+
+    if (row.field_name === 'created') {
+      change.created = true;
+    } else {
+      change.fields.push({
+        field_name: row.field_name,
+        old_value: parseValue(row.old_value),
+        new_value: parseValue(row.new_value),
+      });
+    }
+  }
+
+  return changes;
+}
+
+// The field values that turn the current story back into the version right after a change.
+// Changes are newest first; each field changed since gets the value it had before the first later change
+export function storyVersionPatch(changes: StoryChange[], changeId: string): Record<string, unknown> {
+  const index = changes.findIndex(change => change.id === changeId);
+  if (index < 0) {
+    throw new Error('The version is not in the history of the story');
+  }
+
+  const patch: Record<string, unknown> = {};
+  for (let i = index - 1; i >= 0; i--) {
+    for (const field of changes[i].fields) {
+      if (!(field.field_name in patch)) {
+        patch[field.field_name] = field.old_value;
+      }
+    }
+  }
+  return patch;
+}
+
+// Readable text of a stored value: lists one item per line, objects as JSON
+export function formatHistoryValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    return value.map(item => {
+      if (item && typeof item === 'object') {
+        const text = (item as { text?: unknown; description?: unknown }).text
+          ?? (item as { description?: unknown }).description;
+        return typeof text === 'string' ? text : JSON.stringify(item);
+      }
+      return String(item);
+    }).join('\n');
+  }
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+// "acceptance_criteria" -> "Acceptance criteria"
+export function fieldLabel(fieldName: string): string {
+  const words = fieldName.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Word diff of two texts, from the longest common subsequence of their words
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
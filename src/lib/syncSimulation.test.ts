@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CachedWorkItem, SimulationData, SimulationPbItem, simulateSync, summarizeSimulation } from './syncSimulation';
+import { HierarchyMappingConfig } from './api/hierarchyMapping';
+
+// The mapping API module creates the Supabase client on import
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const mapping: HierarchyMappingConfig = {
+  name: 'Default',
+  pb_to_ado_mappings: [
+    { pb_level: 'initiative', ado_type: 'Epic' },
+    { pb_level: 'feature', ado_type: 'Feature' },
+    { pb_level: 'subfeature', ado_type: 'User Story' },
+  ],
+  area_path_mappings: [],
+  initiative_epic_mappings: [],
+  user_team_mappings: [],
+  component_product_mappings: [],
+  area_path_rules: [{
+    id: 'payments',
+    name: 'Payments',
+    priority: 1,
+    enabled: true,
+    conditions: [{ field: 'component', operator: 'equals', value: 'Payments' }],
+    area_path: 'Shop\\Payments',
+    team: 'Payments Team',
+  }],
+} as HierarchyMappingConfig;
+
+function pbItem(overrides: Partial<SimulationPbItem>): SimulationPbItem {
+  return {
+    id: 'pb-1',
+    name: 'Checkout',
+    level: 'feature',
+    description: 'Pay in one step',
+    subject: { component: 'Payments' },
+    source: {},
+    ...overrides,
+  };
+}
+
+function workItem(overrides: Partial<CachedWorkItem>): CachedWorkItem {
+  return {
+    id: 100,
+    title: 'Checkout',
+    type: 'Feature',
+    description: 'Pay in one step',
+    area_path: 'Shop\\Payments',
+    iteration_path: 'Shop\\Sprint 1',
+    ...overrides,
+  };
+}
+
+function data(overrides: Partial<SimulationData>): SimulationData {
+  return { items: [], links: new Map(), workItems: [], fieldMappings: [], ...overrides };
+}
+
+describe('simulateSync', () => {
+  it('should create an unlinked item with the area path, team and ProductBoard tag', () => {
+    const [result] = simulateSync(data({ items: [pbItem({})] }), mapping);
+
+    expect(result.operation).toBe('create');
+    expect(result.workItemType).toBe('Feature');
+    expect(result.areaPath.value).toBe('Shop\\Payments');
+    expect(result.team.value).toBe('Payments Team');
+    expect(result.iterationPath).toEqual({ value: 'Shop', source: 'Project default iteration' });
+    expect(result.fields.find(field => field.field === 'System.Tags')?.value).toBe('ProductBoard:pb-1');
+    expect(result.fields.every(field => field.changed === true)).toBe(true);
+    expect(result.problems).toEqual([]);
+  });
+
+  it('should report a missing area path as a problem', () => {
+    const [result] = simulateSync(data({ items: [pbItem({ subject: { component: 'Search' } })] }), mapping);
+
+    expect(result.areaPath.value).toBeNull();
+    expect(result.problems[0]).toMatch(/^No area path: No rule matched/);
+    expect(result.iterationPath.value).toBeNull();
+  });
+
+  it('should update a linked item and compare the fields with the cache', () => {
+    const [result] = simulateSync(data({
+      items: [pbItem({ name: 'Checkout v2' })],
+      links: new Map([['pb-1', 100]]),
+      workItems: [workItem({})],
+    }), mapping);
+
+    expect(result.operation).toBe('update');
+    expect(result.adoId).toBe(100);
+    expect(result.iterationPath).toEqual({ value: 'Shop\\Sprint 1', source: 'Unchanged' });
+    const changed = Object.fromEntries(result.fields.map(field => [field.field, field.changed]));
+    expect(changed).toEqual({
+      'System.Title': true,
+      'System.Description': false,
+      'System.AreaPath': false,
+      'System.IterationPath': false,
+    });
+  });
+
+  it('should flag a linked work item missing from the cache or of the wrong type', () => {
+    const [missing] = simulateSync(data({ items: [pbItem({})], links: new Map([['pb-1', 7]]) }), mapping);
+    expect(missing.problems[0]).toContain('#7 is not in the ADO cache');
+    expect(missing.fields.every(field => field.changed === null)).toBe(true);
+
+    const [wrongType] = simulateSync(data({
+      items: [pbItem({})],
+      links: new Map([['pb-1', 100]]),
+      workItems: [workItem({ type: 'Epic' })],
+    }), mapping);
+    expect(wrongType.problems[0]).toContain('is a Epic, but the mapping makes features Features');
+  });
+
+  it('should let field mappings override what the sync writes', () => {
+    const [result] = simulateSync(data({
+      items: [pbItem({ status: 'Planned' })],
+      fieldMappings: [{
+        pb_field: 'status',
+        ado_field: 'System.State',
+        mapping_type: 'lookup',
+        mapping_rules: { lookupTable: { Planned: 'New' } },
+      }],
+    }), mapping);
+
+    expect(result.fields.find(field => field.field === 'System.State')).toMatchObject({ value: 'New', origin: 'field mapping' });
+  });
+
+  it('should find duplicates by ProductBoard tag and by type and title', () => {
+    const [result] = simulateSync(data({
+      items: [pbItem({})],
+      workItems: [
+        workItem({ id: 1, title: 'Something else', tags: 'ProductBoard:pb-1; Web' }),
+        workItem({ id: 2, title: '  checkout ' }),
+        workItem({ id: 3, title: 'Checkout', type: 'Epic' }),
+      ],
+    }), mapping);
+
+    expect(result.duplicates.map(duplicate => [duplicate.workItem.id, duplicate.reason])).toEqual([
+      [1, 'Tagged ProductBoard:pb-1 but not linked to the ProductBoard item'],
+      [2, 'Feature with the same title'],
+    ]);
+  });
+
+  it('should order parents before their children and resolve parent links', () => {
+    const results = simulateSync(data({
+      items: [
+        pbItem({ id: 'sub', name: 'Apple Pay', level: 'subfeature', parentId: 'pb-1', parentName: 'Checkout' }),
+        pbItem({ id: 'orphan', name: 'Refunds', parentId: 'init-9', parentName: 'Growth' }),
+        pbItem({ id: 'pb-1', parentId: 'init-1', parentName: 'Payments' }),
+      ],
+      links: new Map([['init-1', 50]]),
+    }), mapping);
+
+    expect(results.map(result => result.pbItem.id)).toEqual(['orphan', 'pb-1', 'sub']);
+    expect(results.map(result => result.parent?.status)).toEqual(['missing', 'linked', 'created']);
+    expect(results[0].problems).toContain('Parent "Growth" has no work item, so this one would have no parent');
+    expect(results[2].workItemType).toBe('User Story');
+  });
+});
+
+describe('summarizeSimulation', () => {
+  it('should count creates, updates, unchanged updates, duplicates and problems', () => {
+    const results = simulateSync(data({
+      items: [
+        pbItem({ id: 'new', name: 'New feature' }),
+        pbItem({ id: 'same' }),
+        pbItem({ id: 'lost', name: 'Lost', subject: {} }),
+      ],
+      links: new Map([['same', 100], ['lost', 101]]),
+      workItems: [workItem({}), workItem({ id: 101, title: 'Lost', description: 'Outdated' })],
+    }), mapping);
+
+    expect(summarizeSimulation(results)).toEqual({ creates: 1, updates: 2, unchanged: 1, duplicates: 0, problems: 1 });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Sync simulation: the Azure DevOps work items a ProductBoard → ADO sync would create or update for a
+ * set of cached ProductBoard items, worked out from a hierarchy mapping configuration without calling ADO
+ */
+
+import { applyFieldMappings, FieldMapping } from '../../supabase/functions/_shared/fieldMappings';
+import { HierarchyMappingConfig, explainAreaPath, getAdoTypeForPbLevel } from './api/hierarchyMapping';
+import { Resolution, RuleSubject } from './areaPathRules';
+
+export type SimulationScope = 'initiative' | 'feature' | 'component';
+
+export type PbLevel = 'initiative' | 'feature' | 'subfeature';
+
+export type AdoWorkItemType = 'Epic' | 'Feature' | 'User Story';
+
+export interface SimulationPbItem {
+  // ProductBoard ID
+  id: string;
+  name: string;
+  level: PbLevel;
+  description?: string | null;
+  status?: string | null;
+  // ProductBoard ID and name of the feature or initiative the item belongs to
+  parentId?: string | null;
+  parentName?: string | null;
+  subject: RuleSubject;
+  // The cached row, which field mappings read from
+  source: Record<string, any>;
+}
+
+export interface CachedWorkItem {
+  id: number;
+  title: string;
+  type: string;
+  state?: string | null;
+  area_path?: string | null;
+  iteration_path?: string | null;
+  parent_id?: number | null;
+  tags?: string | null;
+  description?: string | null;
+}
+
+export interface SimulationData {
+  // The items in scope
+  items: SimulationPbItem[];
+  // ADO work item linked to each ProductBoard ID (pb_ado_mappings)
+  links: Map<string, number>;
+  workItems: CachedWorkItem[];
+  fieldMappings: FieldMapping[];
+}
+
+export interface SimulatedField {
+  field: string;
+  value: unknown;
+  origin: 'sync' | 'field mapping';
+  // Value of the cached work item; undefined when the cache does not hold the field
+  current?: unknown;
+  // Whether an update would change the field; null when the current value is not cached
+  changed: boolean | null;
+}
+
+export interface SimulatedParentLink {
+  pbId: string;
+  name: string;
+  adoId: number | null;
+  // Linked: the parent already has a work item; created: the simulation creates it; missing: neither
+  status: 'linked' | 'created' | 'missing';
+}
+
+export interface SimulatedDuplicate {
+  workItem: CachedWorkItem;
+  reason: string;
+}
+
+export interface SimulatedWorkItem {
+  pbItem: SimulationPbItem;
+  operation: 'create' | 'update';
+  // Work item an update writes to
+  adoId: number | null;
+  workItemType: AdoWorkItemType;
+  areaPath: Resolution;
+  team: Resolution;
+  iterationPath: { value: string | null; source: string };
+  parent: SimulatedParentLink | null;
+  fields: SimulatedField[];
+  duplicates: SimulatedDuplicate[];
+  problems: string[];
+}
+
+export interface SimulationSummary {
+  creates: number;
+  updates: number;
+  // Updates that would not change any cached field
+  unchanged: number;
+  duplicates: number;
+  problems: number;
+}
+
+const LEVEL_ORDER: Record<PbLevel, number> = { initiative: 0, feature: 1, subfeature: 2 };
+
+// Levels the field mappings know: the hierarchy special cases test for epic, feature and story
+const FIELD_MAPPING_LEVELS: Record<PbLevel, string> = { initiative: 'epic', feature: 'feature', subfeature: 'story' };
+
+// Cached work item values of the fields a sync writes
+const CACHED_FIELDS: Record<string, keyof CachedWorkItem> = {
+  'System.Title': 'title',
+  'System.Description': 'description',
+  'System.State': 'state',
+  'System.AreaPath': 'area_path',
+  'System.IterationPath': 'iteration_path',
+  'System.Tags': 'tags',
+};
+
+export const PB_TAG_PREFIX = 'ProductBoard:';
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+  return text(a) === text(b);
+}
+
+export function workItemTags(workItem: CachedWorkItem): string[] {
+  return (workItem.tags || '').split(';').map(tag => tag.trim()).filter(tag => !!tag);
+}
+
+// Work items a new one would duplicate: tagged with the ProductBoard ID, or of the same type and title
+function findDuplicates(item: SimulationPbItem, type: AdoWorkItemType, workItems: CachedWorkItem[], linkedId: number | null): SimulatedDuplicate[] {
+  const tag = `${PB_TAG_PREFIX}${item.id}`.toLowerCase();
+  const title = normalizeTitle(item.name);
+
+  return workItems
+    .filter(workItem => workItem.id !== linkedId)
+    .map(workItem => {
+      if (workItemTags(workItem).some(t => t.toLowerCase() === tag)) {
+        return { workItem, reason: `Tagged ${PB_TAG_PREFIX}${item.id} but not linked to the ProductBoard item` };
+      }
+      if (workItem.type === type && normalizeTitle(workItem.title || '') === title) {
+        return { workItem, reason: `${workItem.type} with the same title` };
+      }
+      return null;
+    })
+    .filter((duplicate): duplicate is SimulatedDuplicate => duplicate !== null);
+}
+
+function simulateItem(
+  item: SimulationPbItem,
+  data: SimulationData,
+  mapping: HierarchyMappingConfig,
+  inScope: Set<string>
+): SimulatedWorkItem {
+  const problems: string[] = [];
+  const workItemType = getAdoTypeForPbLevel(item.level, [mapping]);
+  const adoId = data.links.get(item.id) ?? null;
+  const existing = adoId !== null ? data.workItems.find(workItem => workItem.id === adoId) : undefined;
+  const operation = adoId !== null ? 'update' : 'create';
+
+  if (adoId !== null && !existing) {
+    problems.push(`Linked work item #${adoId} is not in the ADO cache; its current values are unknown`);
+  }
+  if (existing && existing.type !== workItemType) {
+    problems.push(`Linked work item #${adoId} is a ${existing.type}, but the mapping makes ${item.level}s ${workItemType}s`);
+  }
+
+  const areaPath = explainAreaPath(item.subject, mapping, 'area_path');
+  const team = explainAreaPath(item.subject, mapping, 'team');
+  if (!areaPath.value) {
+    problems.push(`No area path: ${areaPath.reason}`);
+  }
+
+  const mapped = applyFieldMappings(
+    { ...item.source, name: item.name, title: item.name, description: item.description, status: item.status, level: FIELD_MAPPING_LEVELS[item.level] },
+    data.fieldMappings,
+    'pb_to_ado'
+  );
+
+  // The project's root iteration is what ADO assigns to new work items without one
+  const iterationPath = mapped['System.IterationPath']
+    ? { value: String(mapped['System.IterationPath']), source: 'Field mapping' }
+    : existing?.iteration_path
+      ? { value: existing.iteration_path, source: 'Unchanged' }
+      : areaPath.value
+        ? { value: areaPath.value.split('\\')[0], source: 'Project default iteration' }
+        : { value: null, source: 'Unknown: no area path' };
+
+  const values: Record<string, unknown> = {
+    'System.Title': item.name,
+    'System.Description': item.description || '',
+    ...(areaPath.value ? { 'System.AreaPath': areaPath.value } : {}),
+    ...(iterationPath.value ? { 'System.IterationPath': iterationPath.value } : {}),
+    ...(operation === 'create' ? { 'System.Tags': `${PB_TAG_PREFIX}${item.id}` } : {}),
+  };
+
+  const fields: SimulatedField[] = [
+    ...Object.entries(values)
+      .filter(([field]) => !(field in mapped))
+      .map(([field, value]) => ({ field, value, origin: 'sync' as const })),
+    ...Object.entries(mapped).map(([field, value]) => ({ field, value, origin: 'field mapping' as const })),
+  ].map(field => {
+    const cachedField = CACHED_FIELDS[field.field];
+    if (operation === 'create') {
+      return { ...field, changed: true };
+    }
+    if (!existing || !cachedField) {
+      return { ...field, changed: null };
+    }
+    const current = existing[cachedField];
+    return { ...field, current, changed: !sameValue(field.value, current) };
+  });
+
+  let parent: SimulatedParentLink | null = null;
+  if (item.parentId) {
+    const parentAdoId = data.links.get(item.parentId) ?? null;
+    const name = item.parentName || item.parentId;
+    if (parentAdoId !== null) {
+      parent = { pbId: item.parentId, name, adoId: parentAdoId, status: 'linked' };
+      if (existing?.parent_id && existing.parent_id !== parentAdoId) {
+        problems.push(`Work item #${adoId} has parent #${existing.parent_id}; the sync links it to #${parentAdoId}`);
+      }
+    } else if (inScope.has(item.parentId)) {
+      parent = { pbId: item.parentId, name, adoId: null, status: 'created' };
+    } else {
+      parent = { pbId: item.parentId, name, adoId: null, status: 'missing' };
+      problems.push(`Parent "${name}" has no work item, so this one would have no parent`);
+    }
+  }
+
+  return {
+    pbItem: item,
+    operation,
+    adoId,
+    workItemType,
+    areaPath,
+    team,
+    iterationPath,
+    parent,
+    fields,
+    duplicates: findDuplicates(item, workItemType, data.workItems, adoId),
+    problems,
+  };
+}
+
+// Items with each one followed by its children, the order a sync creates them in
+function treeOrder(items: SimulationPbItem[]): SimulationPbItem[] {
+  const ids = new Set(items.map(item => item.id));
+  const children = new Map<string, SimulationPbItem[]>();
+  items.forEach(item => {
+    if (item.parentId && ids.has(item.parentId)) {
+      children.set(item.parentId, [...(children.get(item.parentId) || []), item]);
+    }
+  });
+
+  const ordered: SimulationPbItem[] = [];
+  const visit = (item: SimulationPbItem) => {
+    ordered.push(item);
+    (children.get(item.id) || []).forEach(visit);
+  };
+  items
+    .filter(item => !item.parentId || !ids.has(item.parentId))
+    .sort((a, b) => LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level])
+    .forEach(visit);
+
+  return ordered;
+}
+
+// What a sync would do for every item in scope, parents before their children
+export function simulateSync(data: SimulationData, mapping: HierarchyMappingConfig): SimulatedWorkItem[] {
+  const inScope = new Set(data.items.map(item => item.id));
+
+  return treeOrder(data.items).map(item => simulateItem(item, data, mapping, inScope));
+}
+
+export function summarizeSimulation(results: SimulatedWorkItem[]): SimulationSummary {
+  return {
+    creates: results.filter(result => result.operation === 'create').length,
+    updates: results.filter(result => result.operation === 'update').length,
+    unchanged: results.filter(result => result.operation === 'update' && result.fields.every(field => field.changed === false)).length,
+    duplicates: results.filter(result => result.duplicates.length > 0).length,
+    problems: results.filter(result => result.problems.length > 0).length,
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { formatTranscript, formatTranscriptTime, parseTranscript } from './transcriptParser';
+
+describe('parseTranscript', () => {
+  it('should read Teams WebVTT voice tags and merge consecutive cues of a speaker', () => {
+    const parsed = parseTranscript([
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:04.500',
+      '<v Alice Smith>Let us start with checkout.</v>',
+      '',
+      '00:00:04.500 --> 00:00:06.000',
+      '<v Alice Smith>It is the top story.</v>',
+      '',
+      '00:01:02.000 --> 00:01:05.000',
+      '<v Bob>I think it is five points.</v>',
+    ].join('\n'));
+
+    expect(parsed.format).toBe('teams');
+    expect(parsed.speakers).toEqual(['Alice Smith', 'Bob']);
+    expect(parsed.segments).toEqual([
+      { speaker: 'Alice Smith', start_seconds: 1, end_seconds: 6, text: 'Let us start with checkout. It is the top story.' },
+      { speaker: 'Bob', start_seconds: 62, end_seconds: 65, text: 'I think it is five points.' },
+    ]);
+  });
+
+  it('should read speaker prefixes in WebVTT and SRT cues', () => {
+    const webvtt = parseTranscript('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nAlice: Hello\n');
+    expect(webvtt.format).toBe('webvtt');
+    expect(webvtt.segments[0]).toMatchObject({ speaker: 'Alice', text: 'Hello' });
+
+    const srt = parseTranscript('1\n00:00:01,500 --> 00:00:03,000\nBob: Sounds good\n\n2\n00:00:03,000 --> 00:00:04,000\nAlice: Next\n');
+    expect(srt.format).toBe('srt');
+    expect(srt.segments.map(segment => [segment.speaker, segment.start_seconds])).toEqual([['Bob', 1.5], ['Alice', 3]]);
+  });
+
+  it('should read older Teams exports with the speaker on a line of their own', () => {
+    const parsed = parseTranscript('0:0:1.0 --> 0:0:3.0\nAlice Smith\nWelcome everyone\n\n0:0:3.0 --> 0:0:5.0\nBob Jones\nThanks\n');
+
+    expect(parsed.format).toBe('teams');
+    expect(parsed.segments.map(segment => [segment.speaker, segment.text])).toEqual([
+      ['Alice Smith', 'Welcome everyone'],
+      ['Bob Jones', 'Thanks'],
+    ]);
+  });
+
+  it('should make Zoom caption times relative to the first caption', () => {
+    const parsed = parseTranscript('[Alice] 23:59:50\nAlmost midnight\n[Bob] 00:00:10\nA new day\n');
+
+    expect(parsed.format).toBe('zoom');
+    expect(parsed.segments.map(segment => [segment.speaker, segment.start_seconds, segment.end_seconds])).toEqual([
+      ['Alice', 0, 20],
+      ['Bob', 20, null],
+    ]);
+  });
+
+  it('should read Teams downloads with a "speaker  time" header per turn', () => {
+    const parsed = parseTranscript('Alice Smith   0:05\nFirst point\nstill first\nBob   1:02\nSecond point\n');
+
+    expect(parsed.format).toBe('teams');
+    expect(parsed.segments).toEqual([
+      { speaker: 'Alice Smith', start_seconds: 5, end_seconds: 62, text: 'First point still first' },
+      { speaker: 'Bob', start_seconds: 62, end_seconds: null, text: 'Second point' },
+    ]);
+  });
+
+  it('should read plain "Speaker: text" lines, with other lines continuing the turn', () => {
+    const parsed = parseTranscript('Alice: We need a decision.\nBy Friday.\nBob: Agreed\n');
+
+    expect(parsed.format).toBe('plain');
+    expect(parsed.segments.map(segment => [segment.speaker, segment.text])).toEqual([
+      ['Alice', 'We need a decision. By Friday.'],
+      ['Bob', 'Agreed'],
+    ]);
+  });
+
+  it('should keep plain lines before the first speaker as a turn without a speaker', () => {
+    const parsed = parseTranscript('Sprint 12 grooming\nNotes taken by the facilitator\nAlice: Let us start\n');
+
+    expect(parsed.segments).toEqual([
+      { speaker: null, start_seconds: null, end_seconds: null, text: 'Sprint 12 grooming Notes taken by the facilitator' },
+      { speaker: 'Alice', start_seconds: null, end_seconds: null, text: 'Let us start' },
+    ]);
+    expect(parsed.speakers).toEqual(['Alice']);
+  });
+
+  it('should keep text without any speaker as one unattributed turn', () => {
+    const parsed = parseTranscript('We talked about checkout.\nThen search.\n');
+
+    expect(parsed.segments).toEqual([
+      { speaker: null, start_seconds: null, end_seconds: null, text: 'We talked about checkout. Then search.' },
+    ]);
+    expect(parsed.speakers).toEqual([]);
+  });
+
+  it('should not take a sentence with a colon for a speaker', () => {
+    const parsed = parseTranscript('Alice: The plan for this quarter and the next one is: ship it\n');
+    expect(parsed.segments[0].speaker).toBe('Alice');
+
+    const long = parseTranscript('The plan for this quarter and the next one: ship it\n');
+    expect(long.segments[0].speaker).toBeNull();
+  });
+});
+
+describe('formatTranscript', () => {
+  it('should format times as [h:]mm:ss', () => {
+    expect(formatTranscriptTime(5)).toBe('00:05');
+    expect(formatTranscriptTime(62.9)).toBe('01:02');
+    expect(formatTranscriptTime(3725)).toBe('1:02:05');
+  });
+
+  it('should write one line per turn with its time and speaker', () => {
+    expect(formatTranscript([
+      { speaker: 'Alice', start_seconds: 5, end_seconds: 9, text: 'Hello' },
+      { speaker: null, start_seconds: null, end_seconds: null, text: 'Unattributed' },
+    ])).toBe('[00:05] Alice: Hello\nUnattributed');
+  });
+});
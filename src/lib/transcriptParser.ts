@@ -0,0 +1,226 @@
+/**
+ * Parsers for meeting transcript exports
+ * Turns WebVTT, SRT, Microsoft Teams and Zoom transcripts into speaker turns with timestamps,
+ * which analyze-transcript uses to attribute decisions and action items to speakers and to
+ * estimate how long each story was discussed. Text without a known format is read as
+ * "Speaker: text" lines, or analyzed as it is.
+ */
+
+import { extractDocxText } from './docxText';
+import { TranscriptFormat, TranscriptSegment } from '../types/edgeFunctions';
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  segments: TranscriptSegment[];
+  // Speaker names in order of first appearance
+  speakers: string[];
+}
+
+// File extensions the upload accepts
+export const TRANSCRIPT_FILE_TYPES = ['.vtt', '.srt', '.txt', '.md', '.docx'];
+
+const TIMESTAMP = '(?:\\d+:)?\\d{1,2}:\\d{1,2}(?:[.,]\\d+)?';
+
+// 00:01:02.500 --> 00:01:05.000 (WebVTT), 00:01:02,500 --> ... (SRT), 0:1:2.5 --> ... (older Teams exports)
+const CUE_TIMING = new RegExp(`^\\s*(${TIMESTAMP})\\s*-->\\s*(${TIMESTAMP})`);
+
+// <v Alice Smith>Hello</v> (Teams WebVTT)
+const VOICE_TAG = /^<v(?:\.[^\s>]+)?\s+([^>]+)>/;
+
+// Alice Smith: Hello (Zoom WebVTT, SRT and plain text)
+const SPEAKER_PREFIX = /^([^\s:\d][^:\d]{0,39}):\s+(.+)$/s;
+
+// [Alice Smith] 14:02:11 (Zoom closed captions)
+const ZOOM_CAPTION_HEADER = /^\[([^\]]+)\]\s+(\d{1,2}:\d{2}:\d{2})$/;
+
+// Alice Smith   1:02 (Teams .docx and .txt downloads)
+const TEAMS_HEADER = /^([^\d\s][^\d]{0,39}?)\s+(\d{1,2}:\d{2}(?::\d{2})?)$/;
+
+const MAX_SPEAKER_WORDS = 5;
+
+// Seconds of a [hh:]mm:ss[.fff] timestamp
+function parseTimestamp(value: string): number {
+  return value
+    .replace(',', '.')
+    .split(':')
+    .reduce((seconds, part) => seconds * 60 + Number(part), 0);
+}
+
+function isSpeakerName(name: string): boolean {
+  return name.trim().split(/\s+/).length <= MAX_SPEAKER_WORDS;
+}
+
+// Split "Speaker: text" into its parts
+function splitSpeaker(text: string): { speaker: string | null; text: string } {
+  const match = text.match(SPEAKER_PREFIX);
+  if (match && isSpeakerName(match[1])) {
+    return { speaker: match[1].trim(), text: match[2].trim() };
+  }
+  return { speaker: null, text };
+}
+
+// A line that is only a name, as in older Teams exports where the speaker has a line of their own
+function isBareName(line: string): boolean {
+  return line.length <= 40 && isSpeakerName(line) && !/[.!?,:;]$/.test(line) && !/\d/.test(line);
+}
+
+// WebVTT, SRT and older Teams exports: blocks of a timing line followed by the cue text
+function parseCues(text: string): ParsedTranscript {
+  const hasHeader = /^\uFEFF?WEBVTT/.test(text);
+  let hasVoiceTags = false;
+  let hasIndexes = false;
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) continue;
+    if (timingIndex > 0 && /^\d+$/.test(lines[timingIndex - 1])) hasIndexes = true;
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING) as RegExpMatchArray;
+    let cueLines = lines.slice(timingIndex + 1);
+    if (cueLines.length === 0) continue;
+
+    let speaker: string | null = null;
+    const voice = cueLines[0].match(VOICE_TAG);
+    if (voice) {
+      hasVoiceTags = true;
+      speaker = voice[1].trim();
+    } else if (!hasHeader && timingIndex === 0 && cueLines.length >= 2 && isBareName(cueLines[0])) {
+      speaker = cueLines[0];
+      cueLines = cueLines.slice(1);
+    }
+
+    let cueText = cueLines.join(' ').replace(/<[^>]+>/g, '').trim();
+    if (!speaker) {
+      ({ speaker, text: cueText } = splitSpeaker(cueText));
+    }
+    if (!cueText) continue;
+
+    segments.push({
+      speaker,
+      start_seconds: parseTimestamp(start),
+      end_seconds: parseTimestamp(end),
+      text: cueText,
+    });
+  }
+
+  const format: TranscriptFormat = hasHeader
+    ? (hasVoiceTags ? 'teams' : 'webvtt')
+    : (hasIndexes ? 'srt' : 'teams');
+
+  return { format, segments, speakers: [] };
+}
+
+// Zoom captions and Teams downloads: a "speaker + time" line followed by what they said
+function parseSpeakerHeaders(lines: string[], header: RegExp, format: TranscriptFormat): ParsedTranscript {
+  const segments: TranscriptSegment[] = [];
+  let firstTime: number | null = null;
+
+  for (const line of lines) {
+    const match = line.match(header);
+    if (match && isSpeakerName(match[1])) {
+      let time = parseTimestamp(match[2]);
+      // Zoom captions use the time of day; make it relative to the first caption
+      if (format === 'zoom') {
+        firstTime = firstTime ?? time;
+        time = time - firstTime < 0 ? time - firstTime + 24 * 3600 : time - firstTime;
+      }
+      segments.push({ speaker: match[1].trim(), start_seconds: time, end_seconds: null, text: '' });
+    } else if (segments.length > 0) {
+      const current = segments[segments.length - 1];
+      current.text = current.text ? `${current.text} ${line}` : line;
+    }
+  }
+
+  return { format, segments: segments.filter(segment => segment.text), speakers: [] };
+}
+
+// Plain text: "Speaker: text" lines, with lines without a speaker continuing the previous turn
+// Lines before the first speaker are kept as a turn without a speaker
+function parsePlain(lines: string[]): ParsedTranscript {
+  const segments: TranscriptSegment[] = [];
+
+  for (const line of lines) {
+    const { speaker, text } = splitSpeaker(line);
+    if (speaker || segments.length === 0) {
+      segments.push({ speaker, start_seconds: null, end_seconds: null, text });
+    } else {
+      segments[segments.length - 1].text += ` ${text}`;
+    }
+  }
+
+  return { format: 'plain', segments, speakers: [] };
+}
+
+// Merge consecutive turns of the same speaker, fill in missing end times and list the speakers
+function finalize(parsed: ParsedTranscript): ParsedTranscript {
+  const segments: TranscriptSegment[] = [];
+
+  for (const segment of parsed.segments) {
+    const previous = segments[segments.length - 1];
+    if (previous && segment.speaker && previous.speaker === segment.speaker) {
+      previous.text = `${previous.text} ${segment.text}`;
+      previous.end_seconds = segment.end_seconds ?? previous.end_seconds;
+    } else {
+      segments.push({ ...segment });
+    }
+  }
+
+  segments.forEach((segment, index) => {
+    if (segment.end_seconds === null) {
+      segment.end_seconds = segments[index + 1]?.start_seconds ?? null;
+    }
+  });
+
+  const speakers = Array.from(new Set(segments.map(segment => segment.speaker).filter((speaker): speaker is string => !!speaker)));
+
+  return { format: parsed.format, segments, speakers };
+}
+
+// Parse the text of a transcript export
+export function parseTranscript(text: string): ParsedTranscript {
+  if (text.split(/\r?\n/).some(line => CUE_TIMING.test(line))) {
+    return finalize(parseCues(text));
+  }
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.filter(line => ZOOM_CAPTION_HEADER.test(line)).length >= 2) {
+    return finalize(parseSpeakerHeaders(lines, ZOOM_CAPTION_HEADER, 'zoom'));
+  }
+  if (lines.filter(line => TEAMS_HEADER.test(line)).length >= 2) {
+    return finalize(parseSpeakerHeaders(lines, TEAMS_HEADER, 'teams'));
+  }
+
+  return finalize(parsePlain(lines));
+}
+
+// Read a transcript file; .docx files are unpacked, everything else is read as text
+export async function readTranscriptFile(file: File): Promise<string> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.docx')) {
+    return extractDocxText(file);
+  }
+  if (name.endsWith('.doc')) {
+    throw new Error('Word 97-2003 (.doc) files are not supported; save the transcript as .docx');
+  }
+  return file.text();
+}
+
+// Format seconds from the start of the meeting as [h:]mm:ss
+export function formatTranscriptTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+// Readable transcript with one line per speaker turn
+export function formatTranscript(segments: TranscriptSegment[]): string {
+  return segments.map(segment => {
+    const time = segment.start_seconds !== null ? `[${formatTranscriptTime(segment.start_seconds)}] ` : '';
+    const speaker = segment.speaker ? `${segment.speaker}: ` : '';
+    return `${time}${speaker}${segment.text}`;
+  }).join('\n');
+}
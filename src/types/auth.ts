@@ -0,0 +1,29 @@
+// Types for authentication and role-based access
+
+export type UserRole = 'admin' | 'product_manager' | 'engineer' | 'viewer';
+
+export const USER_ROLES: UserRole[] = ['admin', 'product_manager', 'engineer', 'viewer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  product_manager: 'Product Manager',
+  engineer: 'Engineer',
+  viewer: 'Viewer',
+};
+
+// Row of the user_profiles table
+export interface UserProfile {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  role: UserRole;
+  created_at: string;
+  updated_at: string;
+}
+
+// Route of a feature module; routes with roles are only rendered for users with one of them
+export interface AppRoute {
+  path: string;
+  element: JSX.Element;
+  roles?: UserRole[];
+}
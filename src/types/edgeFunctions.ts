@@ -0,0 +1,8 @@
+/**
+ * Request and response types of the edge functions
+ *
+ * Defined next to the functions in supabase/functions/_shared/contracts.ts, so the app and
+ * the Deno code compile against the same types.
+ */
+
+export type * from '../../supabase/functions/_shared/contracts';
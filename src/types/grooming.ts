@@ -1,4 +1,5 @@
 // Types for the grooming system
+import type { AnalyzeTranscriptResponse, TranscriptFormat, TranscriptSegment, TranscriptSpeaker } from './edgeFunctions';
 
 // Session related types
 export interface GroomingSession {
@@ -11,6 +12,11 @@ export interface GroomingSession {
   workspace_id: string;
   facilitator_id?: string;
   transcript?: string;
+  transcript_format?: TranscriptFormat | null;
+  transcript_segments?: TranscriptSegment[] | null;
+  // Live mode: the session story under discussion and since when
+  current_story_id?: string | null;
+  current_story_started_at?: string | null;
   created_at: string;
   updated_at: string;
   action_items?: ActionItem[];
@@ -22,6 +28,15 @@ export interface ActionItem {
   assignee: string;
   due_date: string;
   status: 'pending' | 'completed';
+  // Transcript analysis the item was taken from
+  source_analysis_id?: string;
+}
+
+// Someone who has a session open in live mode, from realtime presence
+export interface LiveParticipant {
+  user_id: string;
+  name: string;
+  joined_at: string;
 }
 
 export interface Participant {
@@ -39,10 +54,14 @@ export interface SessionStory {
   complexity_rating?: number;
   risk_rating?: number;
   discussion_duration_minutes?: number;
+  // Time the story was under discussion in live mode
+  discussion_seconds?: number;
   discussion_notes?: string;
   discussion_points?: string[];
   decisions?: string[];
   questions?: string[];
+  // Transcript analysis whose results were last applied to the story
+  source_analysis_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -73,6 +92,28 @@ export interface AcceptanceCriterion {
   status: 'pending' | 'met' | 'not_met';
 }
 
+// Where a change to a story came from
+export type StoryChangeSource = 'grooming' | 'story_creator' | 'ai' | 'productboard' | 'ado' | 'restore';
+
+// One changed field of a story; values are as stored on the story
+export interface StoryFieldChange {
+  field_name: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+// The fields changed by one write to a story, from story_history
+export interface StoryChange {
+  id: string;
+  story_id: string;
+  changed_at: string;
+  changed_by: string | null;
+  source: StoryChangeSource | null;
+  // The write created the story
+  created: boolean;
+  fields: StoryFieldChange[];
+}
+
 export interface StoryRelationship {
   id: string;
   parent_story_id: string;
@@ -86,6 +127,8 @@ export interface SessionParticipant {
   session_id: string;
   user_id: string;
   role: 'facilitator' | 'participant' | 'observer';
+  // Name under which the participant appears in the session transcript
+  transcript_speaker?: string | null;
   created_at: string;
 }
 
@@ -133,6 +176,45 @@ export interface AIAnalysis {
   created_at: string;
 }
 
+// A stored transcript analysis, as analyze-transcript returned it
+export interface TranscriptAnalysisRecord extends AnalyzeTranscriptResponse {
+  created_at: string;
+  // Set once its results were reviewed and applied to the session
+  applied_at: string | null;
+}
+
+// Planning-poker estimation; a re-vote is a new round of the same session story
+export type EstimationRoundStatus = 'voting' | 'revealed' | 'accepted' | 'cancelled';
+
+export interface EstimationRound {
+  id: string;
+  session_id: string;
+  session_story_id: string;
+  round_number: number;
+  status: EstimationRoundStatus;
+  vote_count: number;
+  started_by?: string | null;
+  revealed_at?: string | null;
+  accepted_story_points?: number | null;
+  accepted_complexity_rating?: number | null;
+  accepted_risk_rating?: number | null;
+  accepted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A vote; null means the voter abstained on that value
+export interface EstimationVote {
+  id: string;
+  round_id: string;
+  user_id: string;
+  story_points: number | null;
+  complexity_rating: number | null;
+  risk_rating: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Request types
 export interface CreateSessionRequest {
   name: string;
@@ -151,6 +233,7 @@ export interface UpdateSessionRequest {
   session_type?: 'product' | 'technical' | 'refinement';
   status?: 'planned' | 'in_progress' | 'completed';
   facilitator_id?: string;
+  action_items?: ActionItem[];
 }
 
 export interface CreateStoryRequest {
@@ -161,6 +244,7 @@ export interface CreateStoryRequest {
   complexity?: number; // 1=low, 2=medium, 3=high
   pb_feature_id?: string;
   workspace_id: string; // Required by the database
+  change_source?: StoryChangeSource;
 }
 
 export interface UpdateStoryRequest {
@@ -174,6 +258,8 @@ export interface UpdateStoryRequest {
   acceptance_criteria?: AcceptanceCriterion[];
   story_points?: number;
   complexity?: number; // 1=low, 2=medium, 3=high
+  // Recorded with the change in story_history; defaults to 'grooming'
+  change_source?: StoryChangeSource;
 }
 
 export interface AddStoryToSessionRequest {
@@ -190,6 +276,7 @@ export interface UpdateSessionStoryRequest {
   discussion_points?: string[];
   decisions?: string[];
   questions?: string[];
+  source_analysis_id?: string;
 }
 
 export interface CreateSprintRequest {
@@ -241,6 +328,34 @@ export interface SplitStoryRequest {
 export interface AnalyzeTranscriptRequest {
   sessionId: string;
   transcript: string;
+  format?: TranscriptFormat;
+  segments?: TranscriptSegment[];
+  speakers?: TranscriptSpeaker[];
+}
+
+// Results of a transcript analysis accepted in review
+export interface ApplyTranscriptAnalysisRequest {
+  session_id: string;
+  analysis_id: string;
+  // New values of the session stories that change
+  stories: (UpdateSessionStoryRequest & { id: string })[];
+  // All action items of the session, including the accepted ones; unchanged when absent
+  action_items?: ActionItem[];
+}
+
+export interface CastEstimationVoteRequest {
+  round_id: string;
+  story_points: number | null;
+  complexity_rating: number | null;
+  risk_rating: number | null;
+}
+
+// Consensus of a revealed round; null leaves the value of the story unchanged
+export interface AcceptEstimateRequest {
+  round_id: string;
+  story_points: number | null;
+  complexity_rating: number | null;
+  risk_rating: number | null;
 }
 
 export interface AnalyzeStoryRequest {
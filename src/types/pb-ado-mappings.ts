@@ -89,3 +89,60 @@ export interface StorySplitOperation {
   remaining_points?: number;
   mark_original_as?: 'deprecated' | 'completed' | 'unchanged';
 }
+
+/**
+ * Action pb-ado-sync takes when a trigger rule matches
+ */
+export type SyncRuleAction = 'create' | 'update' | 'link' | 'skip';
+
+/**
+ * Per-workspace rule deciding when a ProductBoard status transition syncs to ADO
+ */
+export interface PBAdoSyncRule {
+  id: string;
+  workspace_id: string | null;
+  name: string;
+  description?: string | null;
+  priority: number;
+  enabled: boolean;
+  from_status: string | null;
+  to_status: string | null;
+  feature_type: string | null;
+  component_id: string | null;
+  custom_field_conditions: Record<string, string>;
+  action: SyncRuleAction;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Operations that the sync retry queue can re-run
+ */
+export type SyncJobOperation = 'create' | 'update' | 'link' | 'rank_update';
+
+/**
+ * State of a job in the sync retry queue
+ */
+export type SyncJobStatus = 'pending' | 'in_progress' | 'retrying' | 'completed' | 'dead_letter';
+
+/**
+ * Failed sync operation queued for retry by the process-sync-queue function
+ */
+export interface PBAdoSyncJob {
+  id: string;
+  sync_log_id: string | null;
+  mapping_id: string | null;
+  operation_type: SyncJobOperation;
+  status: SyncJobStatus;
+  payload: Record<string, any>;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  last_response: Record<string, any> | null;
+  locked_at: string | null;
+  completed_at: string | null;
+  dead_lettered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,120 @@
+// Types for ProductBoard ranking tracking
+
+export interface TrackedBoard {
+  board_id: string;
+  board_name: string;
+  board_url: string;
+  workspace_id: string;
+  is_active: boolean;
+}
+
+// Current rank of an item on a tracked board (productboard_item_rankings)
+export interface RankingItem {
+  id: string;
+  workspace_id: string;
+  board_id: string;
+  story_id: string;
+  story_name: string | null;
+  current_rank: number;
+  previous_rank: number | null;
+  indent_level: number | null;
+  is_synced_to_ado: boolean;
+  updated_at: string;
+}
+
+export type RankingSource = 'scrape' | 'screenshot';
+
+// A completed ranking sync whose full ranking was stored
+export interface RankingSnapshot {
+  sync_history_id: string;
+  captured_at: string;
+  item_count: number | null;
+  // How the ranking was captured: scraped from ProductBoard or read from a screenshot
+  source: RankingSource;
+}
+
+export interface RankingSnapshotEntry {
+  sync_history_id: string;
+  story_id: string;
+  story_name: string | null;
+  rank: number;
+  captured_at: string;
+}
+
+export type RankChangeDirection = 'up' | 'down' | 'unchanged' | 'new' | 'removed';
+
+// How an item's rank changed between two snapshots
+export interface RankDiff {
+  story_id: string;
+  story_name: string | null;
+  from_rank: number | null;
+  to_rank: number | null;
+  change: number; // positive means the item moved up
+  direction: RankChangeDirection;
+}
+
+export type RankChangesetStatus =
+  | 'pending'
+  | 'applying'
+  | 'applied'
+  | 'partially_applied'
+  | 'failed'
+  | 'rejected'
+  | 'rolled_back';
+
+// Proposed ADO backlog order changes awaiting approval (ado_rank_changesets)
+export interface RankChangeset {
+  id: string;
+  workspace_id: string;
+  board_id: string;
+  sync_history_id: string | null;
+  status: RankChangesetStatus;
+  item_count: number;
+  change_count: number;
+  applied_count: number;
+  failed_count: number;
+  error_message: string | null;
+  approved_at: string | null;
+  applied_at: string | null;
+  rejected_at: string | null;
+  rolled_back_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RankChangesetItemStatus = 'pending' | 'unchanged' | 'applied' | 'failed' | 'skipped' | 'rolled_back';
+
+export interface RankChangesetItem {
+  id: string;
+  changeset_id: string;
+  productboard_id: string;
+  story_name: string | null;
+  pb_rank: number;
+  ado_work_item_id: number;
+  ado_title: string | null;
+  team_backlog: string;
+  rank_field: string;
+  current_value: number | null;
+  proposed_value: number;
+  current_position: number;
+  proposed_position: number;
+  approved: boolean;
+  status: RankChangesetItemStatus;
+  sync_log_id: string | null;
+  rollback_log_id: string | null;
+  error_message: string | null;
+}
+
+export interface RankChangesetResult {
+  success: boolean;
+  status: RankChangesetStatus;
+  applied?: number;
+  rolledBack?: number;
+  failed: number;
+}
+
+// A productboard_features record that a screenshot row can be matched to
+export interface RankableFeature {
+  productboard_id: string;
+  name: string;
+}
@@ -0,0 +1,48 @@
+// Types for the ProductBoard / ADO reconciliation dashboard
+
+import type { ReconciliationIssueKind } from './edgeFunctions';
+
+export type { ReconciliationFix, ReconciliationIssueKind } from './edgeFunctions';
+
+export type ReconciliationIssueStatus = 'open' | 'resolved' | 'ignored';
+
+// How an issue was closed; cleared when a later run no longer found it
+export type ReconciliationResolution = 'relinked' | 'unlinked' | 'created' | 'archived' | 'ignored' | 'cleared';
+
+// A run of reconcile-pb-ado, from pb_ado_reconciliation_runs
+export interface ReconciliationRun {
+  id: string;
+  workspace_id: string;
+  trigger: 'manual' | 'scheduled';
+  status: 'running' | 'completed' | 'failed';
+  summary: Partial<Record<ReconciliationIssueKind, number>>;
+  error_message: string | null;
+  warning: string | null;
+  started_by: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+// An orphan, broken link or drift, from pb_ado_reconciliation_issues
+export interface ReconciliationIssue {
+  id: string;
+  workspace_id: string;
+  issue_key: string;
+  kind: ReconciliationIssueKind;
+  severity: 'error' | 'warning';
+  pb_feature_id: string | null;
+  ado_work_item_id: number | null;
+  pb_name: string | null;
+  ado_title: string | null;
+  details: string;
+  data: Record<string, any>;
+  status: ReconciliationIssueStatus;
+  resolution: ReconciliationResolution | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  fix_job_id: string | null;
+  first_seen_run_id: string | null;
+  last_seen_run_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
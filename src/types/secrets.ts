@@ -0,0 +1,33 @@
+/**
+ * Types for credentials stored encrypted in config_secrets
+ *
+ * Secret values are never returned to the browser; only their metadata is.
+ */
+
+export type ConfigSecretAction = 'created' | 'rotated' | 'deleted';
+
+export interface ConfigSecret {
+  id: string;
+  // NULL for the system-wide secret
+  workspace_id: string | null;
+  key: string;
+  description: string | null;
+  // Last four characters of the value, if it is long enough to show them
+  value_hint: string | null;
+  version: number;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConfigSecretHistoryEntry {
+  id: string;
+  secret_id: string | null;
+  workspace_id: string | null;
+  key: string;
+  action: ConfigSecretAction;
+  version: number;
+  value_hint: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
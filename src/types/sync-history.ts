@@ -0,0 +1,39 @@
+// Types for the sync run history page
+
+// System a sync run belongs to
+export type SyncRunSystem = 'productboard' | 'ado' | 'pb_ado';
+
+// How a sync run was started
+export type SyncRunTrigger = 'manual' | 'scheduled' | 'webhook' | 'retry';
+
+export type SyncRunStatus = 'running' | 'completed' | 'failed' | 'retrying' | 'skipped';
+
+// A sync run from productboard_hierarchy_sync_history, ado_sync_history or pb_ado_sync_logs
+export interface SyncRun {
+  id: string; // `${system}:${source_id}`, unique across the source tables
+  system: SyncRunSystem;
+  source_id: string;
+  label: string;
+  trigger: SyncRunTrigger;
+  status: SyncRunStatus;
+  started_at: string;
+  completed_at: string | null;
+  items_processed: number;
+  errors: number;
+  error_message: string | null;
+  counts: Record<string, number>;
+}
+
+export type SyncRunItemOutcome = 'created' | 'updated' | 'skipped' | 'failed' | 'retrying' | 'pending';
+
+// A single operation performed during a sync run
+export interface SyncRunItem {
+  id: string;
+  operation_type: string;
+  outcome: SyncRunItemOutcome;
+  item_ref: string | null;
+  error_message: string | null;
+  request_payload: Record<string, any> | null;
+  response_payload: Record<string, any> | null;
+  created_at: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * Types for workspaces, their members and per-workspace config overrides
+ */
+
+// Nil UUID of the workspace existing data belongs to
+export const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000000';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  description?: string | null;
+  ado_project_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export interface WorkspaceConfigEntry {
+  id: string;
+  workspace_id: string;
+  key: string;
+  value: string | null;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,138 @@
+/**
+ * Azure DevOps backlog order helpers for rank propagation
+ *
+ * The backlog order of a work item is stored in Microsoft.VSTS.Common.StackRank
+ * (Agile/CMMI processes) or Microsoft.VSTS.Common.BacklogPriority (Scrum process).
+ * Proposed orders are computed by sync-productboard-rankings and applied by
+ * apply-rank-changeset once a reviewer approved them.
+ */
+
+import { getSecret } from './secrets.ts';
+
+export const STACK_RANK_FIELD = 'Microsoft.VSTS.Common.StackRank';
+export const BACKLOG_PRIORITY_FIELD = 'Microsoft.VSTS.Common.BacklogPriority';
+
+const ADO_API_VERSION = '7.0';
+
+// workitemsbatch accepts at most 200 IDs per request
+const BATCH_SIZE = 200;
+
+export interface AdoRankConfig {
+  organization: string;
+  project: string;
+  apiKey: string;
+}
+
+export interface WorkItemRank {
+  id: number;
+  title: string;
+  areaPath: string;
+  rankField: string;
+  rankValue: number | null;
+}
+
+/**
+ * Load the ADO organization and project configured on a workspace, and its ado_pat secret
+ * @throws When the workspace is missing or its ADO configuration is incomplete
+ */
+export async function getWorkspaceAdoConfig(supabase: any, workspaceId: string): Promise<AdoRankConfig> {
+  const { data: workspace, error } = await supabase
+    .from('workspaces')
+    .select('id, ado_project_id')
+    .eq('id', workspaceId)
+    .single();
+
+  if (error || !workspace) {
+    throw new Error(`Failed to get workspace: ${error?.message || 'Workspace not found'}`);
+  }
+
+  const [organization, project] = (workspace.ado_project_id || '').split('/');
+  const apiKey = await getSecret(supabase, 'ado_pat', { workspaceId, envVar: 'ADO_PAT' });
+  if (!organization || !project || !apiKey) {
+    throw new Error('Azure DevOps configuration is incomplete');
+  }
+
+  return { organization, project, apiKey };
+}
+
+function getAuthHeader(config: AdoRankConfig): string {
+  return `Basic ${btoa(`:${config.apiKey}`)}`;
+}
+
+/**
+ * Fetch the title, area path and backlog order field of the given work items
+ */
+export async function getWorkItemRanks(config: AdoRankConfig, ids: number[]): Promise<Map<number, WorkItemRank>> {
+  const ranks = new Map<number, WorkItemRank>();
+
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const response = await fetch(
+      `https://dev.azure.com/${config.organization}/${config.project}/_apis/wit/workitemsbatch?api-version=${ADO_API_VERSION}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': getAuthHeader(config) },
+        body: JSON.stringify({
+          ids: ids.slice(i, i + BATCH_SIZE),
+          fields: ['System.Id', 'System.Title', 'System.AreaPath', STACK_RANK_FIELD, BACKLOG_PRIORITY_FIELD],
+          errorPolicy: 'omit',
+        }),
+      }
+    );
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`ADO API Error ${response.status}: ${body?.message || response.statusText}`);
+    }
+
+    for (const item of body.value || []) {
+      // Omitted (deleted or inaccessible) work items come back as null
+      if (!item?.fields) continue;
+
+      const fields = item.fields;
+      // Scrum backlogs are ordered by BacklogPriority, every other process by StackRank
+      const usesBacklogPriority = fields[BACKLOG_PRIORITY_FIELD] !== undefined && fields[STACK_RANK_FIELD] === undefined;
+      const rankField = usesBacklogPriority ? BACKLOG_PRIORITY_FIELD : STACK_RANK_FIELD;
+
+      ranks.set(item.id, {
+        id: item.id,
+        title: fields['System.Title'] || '',
+        areaPath: fields['System.AreaPath'] || '',
+        rankField,
+        rankValue: typeof fields[rankField] === 'number' ? fields[rankField] : null,
+      });
+    }
+  }
+
+  return ranks;
+}
+
+/**
+ * Build the JSON patch that sets (or clears, for a null value) a backlog order field
+ */
+export function buildRankPatch(rankField: string, value: number | null): any[] {
+  return value === null
+    ? [{ op: 'remove', path: `/fields/${rankField}` }]
+    : [{ op: 'add', path: `/fields/${rankField}`, value }];
+}
+
+/**
+ * Send a rank patch to a work item
+ * @returns The HTTP status and parsed response body; never throws for API errors
+ */
+export async function patchWorkItemRank(
+  config: AdoRankConfig,
+  workItemId: number,
+  patch: any[]
+): Promise<{ ok: boolean; status: number; body: Record<string, any> }> {
+  const response = await fetch(
+    `https://dev.azure.com/${config.organization}/${config.project}/_apis/wit/workitems/${workItemId}?api-version=${ADO_API_VERSION}`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json-patch+json', 'Authorization': getAuthHeader(config) },
+      body: JSON.stringify(patch),
+    }
+  );
+
+  const body = await response.json().catch(() => ({}));
+  return { ok: response.ok, status: response.status, body };
+}
@@ -0,0 +1,213 @@
+/**
+ * Schemas of the JSON the AI functions ask the model for
+ *
+ * Replies are validated with LlmClient.structured(). GeneratedStorySchema mirrors
+ * GeneratedStoryFields in contracts.ts, so keep the two in sync.
+ */
+
+import { z } from 'npm:zod@3.22.4';
+
+// Models often answer null for fields they have nothing for; treat that as absent
+const optionalString = z.string().nullish().transform(value => value ?? undefined);
+
+const level = z.enum(['low', 'medium', 'high']);
+
+const storyIds = z.array(z.string()).nullish().transform(value => value ?? undefined);
+
+// Acceptance criteria are stored as one bulleted string; accept a list too
+const criteriaText = z.preprocess(
+  value => Array.isArray(value) ? value.map(criterion => `• ${criterion}`).join('\n') : value,
+  z.string().min(1)
+);
+
+/**
+ * generate-story-from-idea
+ */
+export const GeneratedStorySchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  acceptance_criteria: criteriaText,
+  investment_category: z.string().min(1),
+  reach_score: z.number().min(0).max(100),
+  impact_score: z.number().min(0).max(100),
+  confidence_score: z.number().min(0).max(100),
+  effort_score: z.number().min(0.5).max(5),
+  timeframe: z.string().min(1),
+  tags: z.array(z.string()).min(1),
+  customer_need_description: z.string().min(1),
+});
+
+export type GeneratedStory = z.infer<typeof GeneratedStorySchema>;
+
+/**
+ * analyze-story-content
+ */
+export const StoryContentSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  acceptanceCriteria: z.array(z.string()),
+});
+
+/**
+ * analyze-transcript and analyze-story
+ */
+export const AnalysisResultSchema = z.object({
+  key_points: z.array(z.object({
+    text: z.string(),
+    confidence: z.number().min(0).max(1),
+    source_text: optionalString,
+    story_ids: storyIds,
+  })).default([]),
+  action_items: z.array(z.object({
+    text: z.string(),
+    assignee: optionalString,
+    raised_by: optionalString,
+    due_date: optionalString,
+    status: z.enum(['open', 'in_progress', 'completed']).default('open'),
+    priority: level.default('medium'),
+    story_ids: storyIds,
+  })).default([]),
+  decisions: z.array(z.object({
+    text: z.string(),
+    rationale: optionalString,
+    made_by: optionalString,
+    made_at: optionalString,
+    story_ids: storyIds,
+  })).default([]),
+  risks: z.array(z.object({
+    text: z.string(),
+    impact: level,
+    likelihood: level,
+    mitigation_strategy: optionalString,
+  })).default([]),
+  suggestions: z.array(z.object({
+    text: z.string(),
+    category: z.enum(['improvement', 'clarification', 'alternative', 'warning']),
+    confidence: z.number().min(0).max(1),
+  })).default([]),
+  sentiment_score: z.number().min(0).max(1),
+});
+
+export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
+
+// analyze-transcript also asks for the open questions and which segments of a timed transcript
+// discussed each session story
+export const TranscriptAnalysisSchema = AnalysisResultSchema.extend({
+  questions: z.array(z.object({
+    text: z.string(),
+    asked_by: optionalString,
+    story_ids: storyIds,
+  })).default([]),
+  story_discussions: z.array(z.object({
+    story_id: z.string(),
+    segment_ranges: z.array(z.tuple([z.number().int().min(0), z.number().int().min(0)])),
+  })).default([]),
+});
+
+export type TranscriptAnalysis = z.infer<typeof TranscriptAnalysisSchema>;
+
+// Long transcripts are analyzed in parts; the lists of all parts are then merged into one
+export const TranscriptMergeSchema = TranscriptAnalysisSchema.omit({ sentiment_score: true, story_discussions: true });
+
+/**
+ * analyze-completeness
+ */
+const score = z.number().min(0).max(100);
+
+export const CompletenessAnalysisSchema = z.object({
+  scores: z.object({
+    description: score,
+    acceptance: score,
+    scope: score,
+    dependencies: score,
+    value: score,
+  }),
+  suggestions: z.object({
+    description: optionalString,
+    acceptance: optionalString,
+    scope: optionalString,
+    dependencies: optionalString,
+    value: optionalString,
+  }),
+  totalScore: score.optional(),
+});
+
+/**
+ * breakdown-story
+ */
+const storyPoints = z.number().min(0).max(100);
+
+export const FeatureBreakdownSchema = z.object({
+  stories: z.array(z.object({
+    title: z.string().min(1),
+    description: z.string(),
+    acceptance_criteria: z.array(z.string()),
+    story_points: storyPoints,
+    technical_notes: optionalString,
+  })).min(1),
+});
+
+export const StoryEnhancementSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  acceptance_criteria: z.array(z.string()),
+  technical_notes: optionalString,
+  dependencies: z.array(z.string()).default([]),
+  risks: z.array(z.string()).default([]),
+  story_points: storyPoints,
+});
+
+/**
+ * generate-story
+ */
+export const StoryResponseSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  acceptanceCriteria: z.array(z.string()),
+  riceScore: z.object({
+    reach: z.number(),
+    impact: z.number(),
+    confidence: z.number(),
+    effort: z.number(),
+  }),
+  sprintable: z.boolean(),
+  completenessScore: z.number().min(0).max(100),
+});
+
+/**
+ * process-ranking-screenshot
+ */
+export const RankingScreenshotSchema = z.object({
+  rows: z.array(z.object({
+    text: z.string().min(1),
+    pb_id: optionalString,
+    indent_level: z.number().int().min(0).nullish().transform(value => value ?? undefined),
+  })),
+});
+
+/**
+ * Keep the fields of an invalid reply that are valid on their own and default the rest
+ * @returns The merged object and which of its fields came from the model
+ */
+export function applyFieldDefaults<T extends Record<string, unknown>>(
+  schema: z.AnyZodObject,
+  value: unknown,
+  defaults: T
+): { data: T; aiFields: string[]; defaultedFields: string[] } {
+  const reply = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const data: Record<string, unknown> = { ...defaults };
+  const aiFields: string[] = [];
+  const defaultedFields: string[] = [];
+
+  for (const [field, fieldSchema] of Object.entries(schema.shape)) {
+    const result = fieldSchema.safeParse(reply[field]);
+    if (result.success && reply[field] !== undefined) {
+      data[field] = result.data;
+      aiFields.push(field);
+    } else {
+      defaultedFields.push(field);
+    }
+  }
+
+  return { data: data as T, aiFields, defaultedFields };
+}
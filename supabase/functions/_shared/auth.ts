@@ -0,0 +1,67 @@
+/**
+ * Role checks for edge functions that are called from the app
+ *
+ * Functions use the service role client, which bypasses row-level security, so
+ * functions that act on behalf of a user check the caller's role themselves.
+ */
+
+export type AppRole = 'admin' | 'product_manager' | 'engineer' | 'viewer';
+
+export interface Caller {
+  userId: string | null;
+  role: AppRole | 'service';
+}
+
+/**
+ * Resolve the caller of a request from its bearer token
+ * @returns The caller, or null when the token is missing or invalid
+ */
+export async function getCaller(req: Request, supabase: any): Promise<Caller | null> {
+  const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  // Scheduled jobs and other functions call with the service role key
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return { userId: null, role: 'service' };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) return null;
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', data.user.id)
+    .maybeSingle();
+
+  return { userId: data.user.id, role: (profile?.role as AppRole) || 'viewer' };
+}
+
+/**
+ * Whether the caller may perform an action limited to the given roles; the service role always may
+ */
+export function callerHasRole(caller: Caller | null, roles: AppRole[]): boolean {
+  return !!caller && (caller.role === 'service' || roles.includes(caller.role));
+}
+
+/**
+ * Whether the caller may act on a workspace's data, as is_workspace_member() decides for RLS:
+ * admins and the service role may act on every workspace, other users on those they are members of
+ */
+export async function callerIsWorkspaceMember(caller: Caller | null, workspaceId: string, supabase: any): Promise<boolean> {
+  if (!caller || !workspaceId) return false;
+  if (caller.role === 'service' || caller.role === 'admin') return true;
+
+  const { data, error } = await supabase
+    .from('workspace_users')
+    .select('workspace_id')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', caller.userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error checking membership of workspace ${workspaceId}:`, error);
+    return false;
+  }
+  return !!data;
+}
@@ -0,0 +1,38 @@
+/**
+ * Server-side access to system_config, with per-workspace overrides from workspace_config
+ *
+ * Credentials are not stored here; read them with getSecret() from secrets.ts.
+ */
+
+/**
+ * Read a configuration value, preferring the workspace's override
+ * @returns The value, or null when the key is not configured
+ */
+export async function getConfigValue(supabase: any, key: string, workspaceId?: string | null): Promise<string | null> {
+  if (workspaceId) {
+    const { data: override, error: overrideError } = await supabase
+      .from('workspace_config')
+      .select('value')
+      .eq('workspace_id', workspaceId)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (overrideError) {
+      console.error(`Error reading workspace config ${key}:`, overrideError.message);
+    } else if (override?.value) {
+      return override.value;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('system_config')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error reading config ${key}:`, error.message);
+  }
+
+  return data?.value || null;
+}
@@ -0,0 +1,614 @@
+/**
+ * Request and response types of the edge functions
+ *
+ * Shared by the functions and the app's edge function client (src/lib/api/edgeFunctions.ts).
+ * Both Deno and Vite compile this file, so it must not import anything.
+ */
+
+// Body of a failed call; functions set at least one of error or message
+export interface FunctionErrorBody {
+  error?: string;
+  message?: string;
+  details?: unknown;
+}
+
+// Body of the functions that are not called by the app (webhooks, tests, scheduled jobs)
+export type UntypedBody = Record<string, unknown>;
+
+// Functions that report progress answer streamed requests with newline-delimited JSON events,
+// ending with a result or an error event
+export type EdgeFunctionStreamEvent<Progress, Result> =
+  | { type: 'progress'; progress: Progress }
+  | { type: 'result'; result: Result }
+  | { type: 'error'; error: string };
+
+/**
+ * analyze-transcript and analyze-story
+ */
+export type AnalysisLevel = 'low' | 'medium' | 'high';
+
+export interface AnalysisKeyPoint {
+  id: string;
+  text: string;
+  confidence: number;
+  source_text?: string;
+  // Stories (grooming_stories ids) the point is about
+  story_ids?: string[];
+}
+
+export interface AnalysisActionItem {
+  id: string;
+  text: string;
+  assignee?: string;
+  // Set when the assignee is a transcript speaker mapped to a user
+  assignee_user_id?: string;
+  // Speaker who raised the item
+  raised_by?: string;
+  due_date?: string;
+  status: 'open' | 'in_progress' | 'completed';
+  priority: AnalysisLevel;
+  // Stories (grooming_stories ids) the item belongs to
+  story_ids?: string[];
+}
+
+export interface AnalysisDecision {
+  id: string;
+  text: string;
+  rationale?: string;
+  made_by?: string;
+  // Set when made_by is a transcript speaker mapped to a user
+  made_by_user_id?: string;
+  made_at?: string;
+  // Stories (grooming_stories ids) the decision is about
+  story_ids?: string[];
+}
+
+// A question left open in the session
+export interface AnalysisQuestion {
+  id: string;
+  text: string;
+  asked_by?: string;
+  // Stories (grooming_stories ids) the question is about
+  story_ids?: string[];
+}
+
+export interface AnalysisRisk {
+  id: string;
+  text: string;
+  impact: AnalysisLevel;
+  likelihood: AnalysisLevel;
+  mitigation_strategy?: string;
+}
+
+export interface AnalysisSuggestion {
+  id: string;
+  text: string;
+  category: 'improvement' | 'clarification' | 'alternative' | 'warning';
+  confidence: number;
+}
+
+export interface AIAnalysisResult {
+  key_points: AnalysisKeyPoint[];
+  action_items: AnalysisActionItem[];
+  decisions: AnalysisDecision[];
+  risks: AnalysisRisk[];
+  suggestions: AnalysisSuggestion[];
+  sentiment_score: number;
+}
+
+// Transcript export the segments were parsed from
+export type TranscriptFormat = 'webvtt' | 'srt' | 'teams' | 'zoom' | 'plain';
+
+// One speaker turn of a parsed transcript; times are seconds from the start of the meeting
+export interface TranscriptSegment {
+  speaker: string | null;
+  start_seconds: number | null;
+  end_seconds: number | null;
+  text: string;
+}
+
+// A transcript speaker and the user (session participant) they were mapped to
+export interface TranscriptSpeaker {
+  name: string;
+  user_id: string | null;
+}
+
+export interface AnalyzeTranscriptRequest {
+  session_id: string;
+  // Readable transcript, stored on the session
+  transcript: string;
+  // Parsed speaker turns; without them the transcript is analyzed as plain text
+  format?: TranscriptFormat;
+  segments?: TranscriptSegment[];
+  speakers?: TranscriptSpeaker[];
+  // Stream progress events while long transcripts are analyzed part by part
+  stream?: boolean;
+}
+
+export interface TranscriptAnalysisProgress {
+  // map: analyzing the parts; reduce: merging their results; saving: storing the analysis
+  stage: 'map' | 'reduce' | 'saving';
+  // Parts analyzed so far, out of total
+  completed: number;
+  total: number;
+}
+
+// Where a session story was discussed in the transcript
+export interface StoryDiscussion {
+  story_id: string;
+  // Inclusive ranges of segment indexes
+  segment_ranges: [number, number][];
+  // Estimated from the segment timestamps; null when the transcript has none
+  discussion_duration_minutes: number | null;
+}
+
+export interface TranscriptAnalysisResult extends AIAnalysisResult {
+  questions: AnalysisQuestion[];
+}
+
+export interface AnalyzeTranscriptResponse extends TranscriptAnalysisResult {
+  id: string;
+  session_id: string;
+  analysis_type: 'transcript';
+  story_discussions?: StoryDiscussion[];
+}
+
+export interface AnalyzeStoryRequest {
+  story_id: string;
+}
+
+export interface AnalyzeStoryResponse extends AIAnalysisResult {
+  id: string;
+  story_id: string;
+  analysis_type: 'story';
+}
+
+/**
+ * analyze-completeness
+ */
+export type CompletenessArea = 'description' | 'acceptance' | 'scope' | 'dependencies' | 'value';
+
+export interface CompletenessRequest {
+  storyId: string;
+  workspaceId: string;
+}
+
+export interface CompletenessAnalysis {
+  scores: Record<CompletenessArea, number>;
+  suggestions: Partial<Record<CompletenessArea, string>>;
+  totalScore: number;
+}
+
+/**
+ * analyze-story-content
+ */
+export interface StoryContentRequest {
+  input: string;
+  hierarchyLevel?: 'epic' | 'feature' | 'story';
+  componentName?: string;
+}
+
+export interface StoryContentResponse {
+  title: string;
+  description: string;
+  acceptanceCriteria?: string[];
+  // Fields the model generated, and fields left empty because it didn't
+  ai_fields: string[];
+  defaulted_fields: string[];
+}
+
+/**
+ * breakdown-story
+ */
+export interface StoryBreakdownRequest {
+  workspaceId: string;
+  storyData: {
+    title: string;
+    description: string;
+    level: 'feature' | 'story';
+  };
+}
+
+export interface BrokenDownStory {
+  title: string;
+  description: string;
+  acceptance_criteria: string[];
+  story_points: number;
+  technical_notes?: string;
+}
+
+// Features are split into stories, stories are refined
+export interface FeatureBreakdown {
+  stories: BrokenDownStory[];
+}
+
+export interface StoryEnhancement extends BrokenDownStory {
+  dependencies: string[];
+  risks: string[];
+}
+
+export type StoryBreakdownResponse = FeatureBreakdown | StoryEnhancement;
+
+/**
+ * generate-story
+ */
+export interface StoryPromptRequest {
+  type: 'user_need' | 'feature_idea' | 'pain_point' | 'business_objective';
+  prompt: string;
+  workspaceId: string;
+}
+
+export interface StoryPromptResponse {
+  title: string;
+  description: string;
+  acceptanceCriteria: string[];
+  riceScore: {
+    reach: number;
+    impact: number;
+    confidence: number;
+    effort: number;
+  };
+  sprintable: boolean;
+  completenessScore: number;
+}
+
+/**
+ * generate-story-from-idea
+ */
+export interface StoryFromIdeaRequest {
+  idea: string;
+  domain: string;
+  audience: string;
+  priority: string;
+  parentFeature?: string;  // Optional parent feature for context
+  component?: string;     // Optional component name for context
+}
+
+// Mirrors GeneratedStorySchema in aiSchemas.ts
+export interface GeneratedStoryFields {
+  title: string;
+  description: string;
+  acceptance_criteria: string;
+  investment_category: string;
+  reach_score: number;
+  impact_score: number;
+  confidence_score: number;
+  effort_score: number;
+  timeframe: string;
+  tags: string[];
+  customer_need_description: string;
+}
+
+export interface StoryFromIdeaResponse extends GeneratedStoryFields {
+  // Fields the model generated, and fields that were filled with defaults because it didn't
+  ai_fields: string[];
+  defaulted_fields: string[];
+}
+
+/**
+ * get-story-suggestions
+ */
+export interface StorySuggestionsRequest {
+  prompt: string;
+  // The story being edited, with any of its other fields
+  story: {
+    title?: string;
+    description?: string;
+  };
+  section: string;
+}
+
+export interface StorySuggestionsResponse {
+  success: boolean;
+  suggestions: Record<string, unknown>;
+  message: string;
+}
+
+/**
+ * apply-rank-changeset
+ */
+export type RankChangesetAction = 'apply' | 'rollback';
+
+export interface RankChangesetRequest {
+  changeset_id: string;
+  action: RankChangesetAction;
+}
+
+export interface RankChangesetResponse {
+  success: boolean;
+  status: string;
+  applied?: number;
+  rolledBack?: number;
+  failed: number;
+}
+
+/**
+ * process-ranking-screenshot and save-screenshot-ranking
+ */
+// A stored ProductBoard feature a recognized row may refer to
+export interface ScreenshotFeatureMatch {
+  productboard_id: string;
+  name: string;
+  // Between 0 and 1
+  confidence: number;
+  // id: the row shows the feature's PB ID; name: fuzzy match on the feature name
+  method: 'id' | 'name';
+}
+
+export interface ScreenshotRankingRow {
+  rank: number;
+  // Text read from the row
+  text: string;
+  // PB ID visible in the row, if any
+  pb_id: string | null;
+  indent_level: number | null;
+  // Best match, if confident enough to preselect
+  match: ScreenshotFeatureMatch | null;
+  // Best matches to offer when the user corrects the row
+  candidates: ScreenshotFeatureMatch[];
+}
+
+export interface RankingScreenshotResponse {
+  success: boolean;
+  rows: ScreenshotRankingRow[];
+  extracted_text: string;
+  model: string;
+}
+
+export interface SaveScreenshotRankingRequest {
+  workspace_id: string;
+  board_id: string;
+  items: {
+    story_id: string;
+    story_name: string;
+    rank: number;
+    indent_level?: number | null;
+  }[];
+}
+
+export interface SaveScreenshotRankingResponse {
+  success: boolean;
+  sync_history_id: string;
+  new_items: number;
+  updated_items: number;
+}
+
+/**
+ * productboard-api
+ */
+export interface ProductBoardProxyRequest {
+  method?: 'GET' | 'POST' | 'PUT';
+  path: string;
+  body?: unknown;
+  workspace_id?: string | null;
+}
+
+// The ProductBoard status and body are passed through with HTTP 200
+export interface ProductBoardProxyResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * sync-productboard-hierarchy
+ */
+export interface HierarchySyncRequest {
+  workspace_id: string;
+  product_id?: string;
+  initiative_id?: string;
+  include_features?: boolean;
+  include_components?: boolean;
+  include_initiatives?: boolean;
+  max_depth?: number;
+  trigger?: 'manual' | 'scheduled' | 'webhook';
+}
+
+export interface HierarchySyncResponse {
+  success: boolean;
+  message: string;
+  syncHistoryId: string;
+  results: Record<string, number>;
+}
+
+/**
+ * pb-link-updater
+ */
+export interface PbLinkUpdateRequest {
+  productboard_id: string;
+  ado_work_item_id: number;
+  ado_work_item_url: string;
+  // pb_ado_automation_logs row to update; one is created when missing
+  log_entry_id?: string | null;
+}
+
+export interface PbLinkUpdateResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+/**
+ * process-sync-queue
+ */
+export interface SyncQueueResponse {
+  success: boolean;
+  processed: number;
+  results?: { id: string; status: string; error?: string }[];
+}
+
+/**
+ * reconcile-pb-ado
+ */
+export type ReconciliationIssueKind =
+  | 'ado_orphan'
+  | 'pb_orphan'
+  | 'broken_link'
+  | 'parent_mismatch'
+  | 'status_mismatch'
+  | 'title_drift';
+
+export type ReconciliationFix = 'relink' | 'unlink' | 'create_missing' | 'archive';
+
+export type ReconcileRequest =
+  // Compare the workspace's cached data and links; without a workspace, every workspace is reconciled
+  | { action: 'run'; workspace_id?: string }
+  | {
+      action: 'fix';
+      issue_id: string;
+      fix: ReconciliationFix;
+      // relink: the new ADO work item of the issue's feature, or the new feature of its work item
+      ado_work_item_id?: number;
+      pb_feature_id?: string;
+      // create_missing: what to create; the work item type defaults to User Story
+      work_item_type?: string;
+      area_path?: string;
+    };
+
+export interface ReconciliationRunSummary {
+  run_id: string;
+  workspace_id: string;
+  status: 'completed' | 'failed';
+  // Open issues per kind after the run
+  open: Partial<Record<ReconciliationIssueKind, number>>;
+  error?: string;
+  // Checks the run left out, such as broken links when the ADO cache is stale
+  warning?: string;
+}
+
+export interface ReconcileResponse {
+  success: boolean;
+  error?: string;
+  runs?: ReconciliationRunSummary[];
+  // fix: the sync job queued for the fix, when it writes to ADO or ProductBoard
+  job_id?: string | null;
+}
+
+/**
+ * sync-story
+ */
+export interface SyncStoryRequest {
+  storyId: string;
+  direction: 'pb_to_ado' | 'ado_to_pb' | 'bidirectional';
+}
+
+/**
+ * ProductBoard token capture
+ */
+export interface CaptureTokensRequest {
+  workspaceId: string;
+  boardId: string;
+  boardUrl: string;
+  boardName?: string;
+  returnUrl?: string; // URL to redirect to after capture
+  authData?: unknown; // Used for client-side captured tokens
+  isClientCapture?: boolean; // Set to true when tokens are captured by the client
+  useApify?: boolean; // Set to true to use Apify for token extraction
+  workspace?: string; // Optional workspace for Apify token extraction
+  credentials?: { // Used when useApify is true
+    username: string;
+    password: string;
+    workspace?: string;
+  };
+}
+
+export interface CaptureTokensResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  expiresAt?: string;
+  sessionTokenSaved?: boolean;
+}
+
+export interface TokenValidityRequest {
+  workspaceId: string;
+  boardId: string;
+}
+
+export interface TokenValidityResponse {
+  found: boolean;
+  isValid?: boolean;
+  expiresAt?: string;
+  lastUsedAt?: string | null;
+  tokenId?: string;
+  message?: string;
+}
+
+export interface RefreshLinkRequest {
+  workspace_id: string;
+  board_id: string;
+  return_url?: string; // Where to redirect after token capture
+  callback_url?: string; // Webhook to call when token is captured
+}
+
+export interface RefreshLinkResponse {
+  success: boolean;
+  refresh_url: string;
+  board_name: string;
+  board_url: string;
+  expires_at: string;
+}
+
+/**
+ * Every deployed function, by name; functions that can stream progress also name its type
+ */
+export interface EdgeFunctions {
+  'analyze-completeness': { request: CompletenessRequest; response: CompletenessAnalysis };
+  'analyze-story': { request: AnalyzeStoryRequest; response: AnalyzeStoryResponse };
+  'analyze-story-content': { request: StoryContentRequest; response: StoryContentResponse };
+  'analyze-transcript': { request: AnalyzeTranscriptRequest; response: AnalyzeTranscriptResponse; progress: TranscriptAnalysisProgress };
+  'apply-rank-changeset': { request: RankChangesetRequest; response: RankChangesetResponse };
+  'breakdown-story': { request: StoryBreakdownRequest; response: StoryBreakdownResponse };
+  'capture-productboard-tokens': { request: CaptureTokensRequest; response: CaptureTokensResponse };
+  'check-token-validity': { request: TokenValidityRequest; response: TokenValidityResponse };
+  'generate-refresh-link': { request: RefreshLinkRequest; response: RefreshLinkResponse };
+  'generate-story': { request: StoryPromptRequest; response: StoryPromptResponse };
+  'generate-story-from-idea': { request: StoryFromIdeaRequest; response: StoryFromIdeaResponse };
+  'get-ado-workitems': { request: UntypedBody; response: unknown };
+  'get-productboard-boards': { request: UntypedBody; response: unknown };
+  'get-productboard-components': { request: UntypedBody; response: unknown };
+  'get-productboard-custom-fields': { request: UntypedBody; response: unknown };
+  'get-productboard-features': { request: UntypedBody; response: unknown };
+  'get-productboard-initiative-features': { request: UntypedBody; response: unknown };
+  'get-productboard-initiatives': { request: UntypedBody; response: unknown };
+  'get-productboard-objectives': { request: UntypedBody; response: unknown };
+  'get-productboard-products': { request: UntypedBody; response: unknown };
+  'get-story-suggestions': { request: StorySuggestionsRequest; response: StorySuggestionsResponse };
+  'handle-ado-webhook': { request: UntypedBody; response: unknown };
+  'pb-ado-sync': { request: UntypedBody; response: unknown };
+  'pb-link-updater': { request: PbLinkUpdateRequest; response: PbLinkUpdateResponse };
+  'pb-link-via-ui': { request: UntypedBody; response: unknown };
+  'pb-link-via-ui-node': { request: UntypedBody; response: unknown };
+  'process-ranking-screenshot': { request: FormData; response: RankingScreenshotResponse };
+  'process-sync-queue': { request: UntypedBody; response: SyncQueueResponse };
+  'productboard-api': { request: ProductBoardProxyRequest; response: ProductBoardProxyResponse };
+  'reconcile-pb-ado': { request: ReconcileRequest; response: ReconcileResponse };
+  'save-screenshot-ranking': { request: SaveScreenshotRankingRequest; response: SaveScreenshotRankingResponse };
+  'scheduled-token-refresh': { request: UntypedBody; response: unknown };
+  'scrape-productboard-rankings': { request: UntypedBody; response: unknown };
+  'simplified-sync-rankings': { request: UntypedBody; response: unknown };
+  'sync-ado-data': { request: UntypedBody; response: unknown };
+  'sync-productboard-hierarchy': { request: HierarchySyncRequest; response: HierarchySyncResponse };
+  'sync-productboard-rankings': { request: UntypedBody; response: unknown };
+  'sync-productboard-rankings-fixed': { request: UntypedBody; response: unknown };
+  'sync-stories': { request: UntypedBody; response: unknown };
+  'sync-story': { request: SyncStoryRequest; response: { success: boolean } };
+  'test-azuredevops': { request: UntypedBody; response: unknown };
+  'test-browserless': { request: UntypedBody; response: unknown };
+  'test-google-spaces': { request: UntypedBody; response: unknown };
+  'test-openai': { request: UntypedBody; response: unknown };
+  'test-productboard': { request: UntypedBody; response: unknown };
+  'test-scraping-api': { request: UntypedBody; response: unknown };
+  'test-slack': { request: UntypedBody; response: unknown };
+  'validate-screenshot': { request: FormData; response: unknown };
+}
+
+export type EdgeFunctionName = keyof EdgeFunctions;
+export type EdgeFunctionRequest<Name extends EdgeFunctionName> = EdgeFunctions[Name]['request'];
+export type EdgeFunctionResponse<Name extends EdgeFunctionName> = EdgeFunctions[Name]['response'];
+
+// Functions that can stream progress, and the progress they report
+export type StreamingEdgeFunctionName = {
+  [Name in EdgeFunctionName]: EdgeFunctions[Name] extends { progress: unknown } ? Name : never
+}[EdgeFunctionName];
+export type EdgeFunctionProgress<Name extends StreamingEdgeFunctionName> =
+  EdgeFunctions[Name] extends { progress: infer Progress } ? Progress : never;
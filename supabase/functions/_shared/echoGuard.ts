@@ -0,0 +1,75 @@
+/**
+ * Echo detection for bidirectional ProductBoard <-> Azure DevOps sync
+ *
+ * Whenever one function writes a change into the other system, it records what it
+ * wrote on the pb_ado_mappings row. The webhook that the write triggers in the
+ * target system is then recognised as an echo and ignored instead of bouncing back.
+ */
+
+export type SyncSystem = 'pb' | 'ado';
+
+// How long after a write-back an incoming event with the same values counts as an echo
+export const ECHO_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface WritebackState {
+  last_writeback_target?: SyncSystem | null;
+  last_writeback_at?: string | null;
+  last_writeback_fields?: Record<string, unknown> | null;
+}
+
+/**
+ * Record that we just wrote the given field values into the target system
+ * @param supabase The Supabase client instance
+ * @param productboardId The ProductBoard ID of the pb_ado_mappings row
+ * @param target The system that was written to
+ * @param fields The field values that were written
+ */
+export async function recordWriteback(
+  supabase: any,
+  productboardId: string,
+  target: SyncSystem,
+  fields: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from('pb_ado_mappings')
+    .update({
+      last_writeback_target: target,
+      last_writeback_at: new Date().toISOString(),
+      last_writeback_fields: fields,
+    })
+    .eq('productboard_id', productboardId);
+
+  if (error) {
+    console.error(`Error recording write-back to ${target} for ${productboardId}:`, error);
+  }
+}
+
+/**
+ * Check whether an incoming event from a system was caused by our own write-back
+ * @param mapping The pb_ado_mappings row for the item
+ * @param origin The system the incoming event came from
+ * @param values The current values reported by the incoming event
+ * @returns boolean True if the event only repeats what we recently wrote
+ */
+export function isEchoEvent(
+  mapping: WritebackState | null | undefined,
+  origin: SyncSystem,
+  values: Record<string, unknown>
+): boolean {
+  if (!mapping || mapping.last_writeback_target !== origin || !mapping.last_writeback_at) {
+    return false;
+  }
+
+  const age = Date.now() - new Date(mapping.last_writeback_at).getTime();
+  if (age > ECHO_WINDOW_MS) {
+    return false;
+  }
+
+  // Every value we wrote must still be what the event reports; anything else is a genuine edit
+  const comparable = Object.entries(mapping.last_writeback_fields || {}).filter(([key]) => key in values);
+  if (comparable.length === 0) {
+    return false;
+  }
+
+  return comparable.every(([key, value]) => String(values[key] ?? '') === String(value ?? ''));
+}
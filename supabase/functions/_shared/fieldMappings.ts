@@ -0,0 +1,95 @@
+/**
+ * Field mappings between ProductBoard items and Azure DevOps work items (the field_mappings table)
+ *
+ * Used by sync-story when it writes work items, and by the app's sync simulation to show
+ * the field values a sync would write.
+ */
+
+export type FieldMappingType =
+  | 'direct'
+  | 'transform'
+  | 'lookup'
+  | 'epic_business_unit'
+  | 'feature_product_code'
+  | 'story_team';
+
+export interface FieldMapping {
+  pb_field: string | null;
+  ado_field: string | null;
+  mapping_type: FieldMappingType | string;
+  mapping_rules?: {
+    transforms?: Record<string, unknown>;
+    lookupTable?: Record<string, unknown>;
+  } | null;
+}
+
+export type FieldMappingDirection = 'pb_to_ado' | 'ado_to_pb';
+
+// Values of the target fields, read from the source fields of each mapping
+export function applyFieldMappings(
+  source: Record<string, any>,
+  mappings: FieldMapping[],
+  direction: FieldMappingDirection
+): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const mapping of mappings) {
+    const sourceField = direction === 'pb_to_ado' ? mapping.pb_field : mapping.ado_field;
+    const targetField = direction === 'pb_to_ado' ? mapping.ado_field : mapping.pb_field;
+
+    if (!sourceField || !targetField) continue;
+
+    const value = source[sourceField];
+
+    // Apply mapping rules based on mapping type
+    switch (mapping.mapping_type) {
+      case 'direct':
+        // Direct mapping, just copy the value
+        result[targetField] = value;
+        break;
+
+      case 'transform':
+        // Apply transformation rules
+        if (mapping.mapping_rules?.transforms && value in mapping.mapping_rules.transforms) {
+          result[targetField] = mapping.mapping_rules.transforms[value];
+        } else {
+          result[targetField] = value;
+        }
+        break;
+
+      case 'lookup':
+        // Apply lookup table
+        if (mapping.mapping_rules?.lookupTable && value in mapping.mapping_rules.lookupTable) {
+          result[targetField] = mapping.mapping_rules.lookupTable[value];
+        } else {
+          result[targetField] = value;
+        }
+        break;
+
+      // Special mapping types for hierarchy
+      case 'epic_business_unit':
+        if (source.level === 'epic') {
+          result[targetField] = value;
+        }
+        break;
+
+      case 'feature_product_code':
+        if (source.level === 'feature') {
+          result[targetField] = value;
+        }
+        break;
+
+      case 'story_team':
+        if (source.level === 'story') {
+          result[targetField] = value;
+        }
+        break;
+
+      default:
+        // Unknown mapping type, just copy the value
+        result[targetField] = value;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,404 @@
+/**
+ * Shared LLM provider layer for the AI edge functions
+ *
+ * Functions get a client with getLlmClient() and call chat(), json() or structured() on it; the provider
+ * and model come from system_config (ai_provider / ai_model, overridable per function with
+ * ai_provider_<function> / ai_model_<function>) and the API keys from config_secrets.
+ * The token usage of every call is recorded in ai_usage.
+ */
+
+import { getConfigValue } from './config.ts';
+import { getSecret, requireSecret } from './secrets.ts';
+
+export type LlmProviderName = 'openai' | 'azure_openai' | 'anthropic' | 'local';
+
+// Part of a message that mixes text and images; images need a vision-capable model
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: string; data: string }; // data is base64 encoded
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider for a JSON object instead of free text
+  json?: boolean;
+}
+
+export interface ChatResult {
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  chat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResult>;
+}
+
+// Anything with a Zod-style safeParse, such as the schemas in aiSchemas.ts
+export interface OutputSchema<T> {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: { path: (string | number)[]; message: string }[] } };
+}
+
+export type StructuredResult<T> =
+  | { success: true; data: T; repaired: boolean }
+  // The reply still didn't match after the repair attempt; value is the last parsed reply, if any
+  | { success: false; value: unknown; issues: string[]; repaired: true };
+
+export interface LlmClient {
+  provider: LlmProviderName;
+  model: string;
+  // Send the messages and return the text of the reply
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  // Send the messages and parse the reply as a JSON object
+  json<T = Record<string, any>>(messages: ChatMessage[], options?: Omit<ChatOptions, 'json'>): Promise<T>;
+  // Send the messages and validate the JSON reply against a schema, asking the model once to repair an invalid reply
+  structured<T>(messages: ChatMessage[], schema: OutputSchema<T>, options?: Omit<ChatOptions, 'json'>): Promise<StructuredResult<T>>;
+}
+
+const PROVIDERS: LlmProviderName[] = ['openai', 'azure_openai', 'anthropic', 'local'];
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  openai: 'gpt-4o',
+  azure_openai: '',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+};
+
+// Anthropic requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 2000;
+
+// The text parts of a message
+function textOf(content: ChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content.map(part => part.type === 'text' ? part.text : '').join('');
+}
+
+async function readError(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  return `${response.status} ${text || response.statusText}`;
+}
+
+/**
+ * Adapter for the OpenAI chat completions API and the compatible APIs of Azure OpenAI and local servers
+ */
+function openAiCompatibleProvider(
+  name: LlmProviderName,
+  model: string,
+  url: string,
+  headers: Record<string, string>
+): LlmProvider {
+  const toOpenAiContent = (content: ChatMessage['content']) => typeof content === 'string'
+    ? content
+    : content.map(part => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } });
+
+  return {
+    name,
+    model,
+    async chat(messages, options) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({
+          model,
+          messages: messages.map(message => ({ role: message.role, content: toOpenAiContent(message.content) })),
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+          response_format: options.json ? { type: 'json_object' } : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`${name} API error: ${await readError(response)}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error(`No content in ${name} response`);
+      }
+
+      return {
+        content,
+        inputTokens: data.usage?.prompt_tokens || 0,
+        outputTokens: data.usage?.completion_tokens || 0,
+      };
+    },
+  };
+}
+
+/**
+ * Adapter for the Anthropic messages API, which takes the system prompt separately
+ */
+function anthropicProvider(model: string, apiKey: string): LlmProvider {
+  const toAnthropicContent = (content: ChatMessage['content']) => typeof content === 'string'
+    ? content
+    : content.map(part => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image', source: { type: 'base64', media_type: part.mediaType, data: part.data } });
+
+  return {
+    name: 'anthropic',
+    model,
+    async chat(messages, options) {
+      const system = messages.filter(m => m.role === 'system').map(m => textOf(m.content)).join('\n\n');
+      const conversation = messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role, content: toAnthropicContent(m.content) }));
+
+      if (options.json) {
+        // No JSON mode; prefill the reply so it starts as an object
+        conversation.push({ role: 'assistant', content: '{' });
+      }
+
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model,
+          system: system || undefined,
+          messages: conversation,
+          temperature: options.temperature,
+          max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`anthropic API error: ${await readError(response)}`);
+      }
+
+      const data = await response.json();
+      const text = (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+      if (!text) {
+        throw new Error('No content in anthropic response');
+      }
+
+      return {
+        content: options.json ? `{${text}` : text,
+        inputTokens: data.usage?.input_tokens || 0,
+        outputTokens: data.usage?.output_tokens || 0,
+      };
+    },
+  };
+}
+
+/**
+ * Build the provider configured for a function
+ */
+async function createProvider(supabase: any, functionKey: string, workspaceId?: string | null): Promise<LlmProvider> {
+  const configured = (await getConfigValue(supabase, `ai_provider_${functionKey}`, workspaceId))
+    || (await getConfigValue(supabase, 'ai_provider', workspaceId))
+    || 'openai';
+
+  if (!PROVIDERS.includes(configured as LlmProviderName)) {
+    throw new Error(`Unknown AI provider ${configured}; use one of ${PROVIDERS.join(', ')}`);
+  }
+  const name = configured as LlmProviderName;
+
+  const model = (await getConfigValue(supabase, `ai_model_${functionKey}`, workspaceId))
+    || (await getConfigValue(supabase, 'ai_model', workspaceId))
+    || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = await requireSecret(supabase, 'openai_api_key', { workspaceId, envVar: 'OPENAI_API_KEY' });
+      return openAiCompatibleProvider(name, model, 'https://api.openai.com/v1/chat/completions', {
+        'Authorization': `Bearer ${apiKey}`,
+      });
+    }
+
+    case 'azure_openai': {
+      const endpoint = await getConfigValue(supabase, 'azure_openai_endpoint', workspaceId);
+      if (!endpoint || !model) {
+        throw new Error('azure_openai_endpoint and an ai_model deployment name are required for Azure OpenAI');
+      }
+      const apiVersion = (await getConfigValue(supabase, 'azure_openai_api_version', workspaceId)) || '2024-06-01';
+      const apiKey = await requireSecret(supabase, 'azure_openai_api_key', { workspaceId, envVar: 'AZURE_OPENAI_API_KEY' });
+      const url = `${endpoint.replace(/\/$/, '')}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${apiVersion}`;
+      return openAiCompatibleProvider(name, model, url, { 'api-key': apiKey });
+    }
+
+    case 'anthropic': {
+      const apiKey = await requireSecret(supabase, 'anthropic_api_key', { workspaceId, envVar: 'ANTHROPIC_API_KEY' });
+      return anthropicProvider(model, apiKey);
+    }
+
+    case 'local': {
+      const baseUrl = (await getConfigValue(supabase, 'local_llm_base_url', workspaceId)) || 'http://localhost:11434';
+      // Local servers usually don't need a key
+      const apiKey = await getSecret(supabase, 'local_llm_api_key', { workspaceId, envVar: 'LOCAL_LLM_API_KEY' });
+      return openAiCompatibleProvider(
+        name,
+        model,
+        `${baseUrl.replace(/\/$/, '')}/v1/chat/completions`,
+        apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+      );
+    }
+  }
+}
+
+/**
+ * Record the token usage of a call; failures are logged but never fail the call
+ */
+async function recordUsage(
+  supabase: any,
+  usage: {
+    workspace_id: string | null;
+    function_name: string;
+    provider: LlmProviderName;
+    model: string;
+    input_tokens: number;
+    output_tokens: number;
+    duration_ms: number;
+    success: boolean;
+    error_message: string | null;
+  }
+) {
+  const { error } = await supabase.from('ai_usage').insert(usage);
+  if (error) {
+    console.error('Error recording AI usage:', error.message);
+  }
+}
+
+/**
+ * Parse a JSON object from a model reply, ignoring any text around it
+ */
+export function parseJsonReply<T>(content: string): T {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in AI response');
+  }
+
+  try {
+    return JSON.parse(jsonMatch[0]) as T;
+  } catch (error) {
+    throw new Error(`Failed to parse AI response as JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parse and validate a reply
+ * @returns The validated value, or the problems found as "path: message" strings
+ */
+function validateReply<T>(content: string, schema: OutputSchema<T>): { data?: T; value: unknown; issues: string[] } {
+  let value: unknown;
+  try {
+    value = parseJsonReply(content);
+  } catch (error) {
+    return { value: undefined, issues: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { data: result.data, value, issues: [] };
+  }
+
+  return {
+    value,
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+/**
+ * Create the LLM client for a function
+ * @param supabase Service role client; it reads the API keys and records usage
+ * @param functionName Name of the calling edge function, e.g. analyze-transcript
+ * @param options.workspaceId Workspace whose config and secrets take precedence
+ * @throws When the configured provider is unknown or its API key is not configured
+ */
+export async function getLlmClient(
+  supabase: any,
+  functionName: string,
+  options: { workspaceId?: string | null } = {}
+): Promise<LlmClient> {
+  const workspaceId = options.workspaceId ?? null;
+  const provider = await createProvider(supabase, functionName.replace(/-/g, '_'), workspaceId);
+
+  const chat = async (messages: ChatMessage[], chatOptions: ChatOptions = {}): Promise<string> => {
+    const startedAt = Date.now();
+    try {
+      const result = await provider.chat(messages, chatOptions);
+      await recordUsage(supabase, {
+        workspace_id: workspaceId,
+        function_name: functionName,
+        provider: provider.name,
+        model: provider.model,
+        input_tokens: result.inputTokens,
+        output_tokens: result.outputTokens,
+        duration_ms: Date.now() - startedAt,
+        success: true,
+        error_message: null,
+      });
+      return result.content;
+    } catch (error) {
+      await recordUsage(supabase, {
+        workspace_id: workspaceId,
+        function_name: functionName,
+        provider: provider.name,
+        model: provider.model,
+        input_tokens: 0,
+        output_tokens: 0,
+        duration_ms: Date.now() - startedAt,
+        success: false,
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+
+  return {
+    provider: provider.name,
+    model: provider.model,
+    chat,
+    async json<T>(messages: ChatMessage[], chatOptions: Omit<ChatOptions, 'json'> = {}) {
+      return parseJsonReply<T>(await chat(messages, { ...chatOptions, json: true }));
+    },
+    async structured<T>(
+      messages: ChatMessage[],
+      schema: OutputSchema<T>,
+      chatOptions: Omit<ChatOptions, 'json'> = {}
+    ): Promise<StructuredResult<T>> {
+      const reply = await chat(messages, { ...chatOptions, json: true });
+      const first = validateReply(reply, schema);
+      if (first.data !== undefined) {
+        return { success: true, data: first.data, repaired: false };
+      }
+
+      // One repair attempt: show the model its reply and what was wrong with it
+      console.warn(`${functionName}: AI reply failed validation, asking for a repair:`, first.issues);
+      const repairedReply = await chat([
+        ...messages,
+        { role: 'assistant', content: reply },
+        {
+          role: 'user',
+          content: `Your reply did not match the required JSON format:\n${first.issues.map(issue => `- ${issue}`).join('\n')}\n\nReply with the corrected JSON object only.`,
+        },
+      ], { ...chatOptions, json: true });
+
+      const second = validateReply(repairedReply, schema);
+      if (second.data !== undefined) {
+        return { success: true, data: second.data, repaired: true };
+      }
+
+      console.error(`${functionName}: repaired AI reply still failed validation:`, second.issues);
+      return { success: false, value: second.value ?? first.value, issues: second.issues, repaired: true };
+    },
+  };
+}
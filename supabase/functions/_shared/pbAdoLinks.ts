@@ -0,0 +1,32 @@
+/**
+ * How ADO work items refer to ProductBoard features, and how to link to a work item
+ *
+ * Shared by reconcile-pb-ado, the reconciliation and the app's matching of features to work items.
+ */
+
+// The [PB<id>] prefix sync adds to ADO titles, as handle-ado-webhook writes it
+const PB_TITLE_PREFIX_PATTERN = /^\s*\[PB[\s:#-]*([^\]\s]*)\]\s*/i;
+
+const PB_FEATURE_URL_PATTERN = /productboard\.com\/.*?features\/([A-Za-z0-9-]+)/;
+
+const ADO_REST_WORK_ITEM_PATTERN = /\/_apis\/wit\/workItems\/.*$/i;
+
+// ProductBoard feature ID in a hyperlink to ProductBoard, if any
+export function pbIdFromUrl(url: string): string | null {
+  return url.match(PB_FEATURE_URL_PATTERN)?.[1] || null;
+}
+
+// ProductBoard ID in a [PB<id>] title prefix, if any
+export function pbIdFromTitle(title: string): string | null {
+  return title.match(PB_TITLE_PREFIX_PATTERN)?.[1] || null;
+}
+
+export function stripPbPrefix(title: string): string {
+  return title.replace(PB_TITLE_PREFIX_PATTERN, '');
+}
+
+// Browser URL of a cached work item, from the REST URL ADO returns for it
+export function adoWorkItemWebUrl(row: { id: number; url?: string | null }): string | null {
+  if (!row.url || !ADO_REST_WORK_ITEM_PATTERN.test(row.url)) return null;
+  return row.url.replace(ADO_REST_WORK_ITEM_PATTERN, `/_workitems/edit/${row.id}`);
+}
@@ -0,0 +1,181 @@
+/**
+ * Storage of ProductBoard rankings
+ *
+ * Used by sync-productboard-rankings for scraped rankings and by save-screenshot-ranking for
+ * rankings read from a screenshot. Each stored ranking updates productboard_item_rankings
+ * (current and previous rank) and adds a snapshot to productboard_ranking_snapshots.
+ */
+
+// An item at its place in a ranking
+export interface RankedItem {
+  storyId: string;
+  rank: number;
+  name?: string;
+  matchingId?: string;
+  indentLevel?: number;
+}
+
+/**
+ * Store a snapshot of the full ranking for this sync so rank changes can be compared over time
+ */
+export async function storeRankingSnapshot(
+  supabase: any,
+  workspaceId: string,
+  boardId: string,
+  rankings: RankedItem[],
+  syncHistoryId: string
+): Promise<number> {
+  const capturedAt = new Date().toISOString();
+  const rows = rankings.map(item => ({
+    workspace_id: workspaceId,
+    board_id: boardId,
+    sync_history_id: syncHistoryId,
+    story_id: item.storyId,
+    story_name: item.name,
+    rank: item.rank,
+    indent_level: item.indentLevel,
+    captured_at: capturedAt
+  }));
+
+  // Insert in batches to keep request sizes reasonable on large boards
+  const BATCH_SIZE = 500;
+  let stored = 0;
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('productboard_ranking_snapshots')
+      .upsert(rows.slice(i, i + BATCH_SIZE), { onConflict: 'sync_history_id,story_id' });
+
+    if (error) {
+      console.error('Error storing ranking snapshot:', error);
+    } else {
+      stored += Math.min(BATCH_SIZE, rows.length - i);
+    }
+  }
+
+  return stored;
+}
+
+/**
+ * Store all ranking items in the database, tracking changes
+ */
+export async function storeRankingItems(
+  supabase: any,
+  workspaceId: string,
+  boardId: string,
+  rankings: RankedItem[],
+  syncHistoryId: string
+): Promise<{ 
+  newItems: number, 
+  updatedItems: number, 
+  changedItems: any[], 
+  rankingIds: string[] 
+}> {
+  let newItems = 0;
+  let updatedItems = 0;
+  const changedItems: any[] = [];
+  const rankingIds: string[] = [];
+  
+  for (const item of rankings) {
+    // Check for existing record
+    const { data: existingItem } = await supabase
+      .from('productboard_item_rankings')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('board_id', boardId)
+      .eq('story_id', item.storyId)
+      .single();
+      
+    if (existingItem) {
+      // Only update if the rank has changed
+      if (existingItem.current_rank !== item.rank) {
+        // Update with previous rank tracking
+        const { data: updatedItem, error } = await supabase
+          .from('productboard_item_rankings')
+          .update({
+            story_name: item.name,
+            previous_rank: existingItem.current_rank,
+            current_rank: item.rank,
+            updated_at: new Date().toISOString(),
+            indent_level: item.indentLevel,
+            matching_id: item.matchingId,
+            sync_history_id: syncHistoryId,
+            is_synced_to_ado: false
+          })
+          .eq('id', existingItem.id)
+          .select()
+          .single();
+          
+        if (!error && updatedItem) {
+          updatedItems++;
+          rankingIds.push(updatedItem.id);
+          
+          // Add to changed items if the rank has changed
+          if (updatedItem.current_rank !== updatedItem.previous_rank) {
+            changedItems.push({
+              id: updatedItem.id,
+              storyId: item.storyId,
+              name: item.name || existingItem.story_name,
+              currentRank: item.rank,
+              previousRank: existingItem.current_rank,
+              change: Math.abs(item.rank - existingItem.current_rank),
+              direction: item.rank < existingItem.current_rank ? 'up' : 'down'
+            });
+          }
+        }
+      } else {
+        // Just update the sync_history_id
+        await supabase
+          .from('productboard_item_rankings')
+          .update({
+            sync_history_id: syncHistoryId,
+            story_name: item.name || existingItem.story_name,
+            indent_level: item.indentLevel,
+            matching_id: item.matchingId || existingItem.matching_id
+          })
+          .eq('id', existingItem.id);
+          
+        rankingIds.push(existingItem.id);
+      }
+    } else {
+      // Insert new record
+      const { data: newItem, error } = await supabase
+        .from('productboard_item_rankings')
+        .insert({
+          workspace_id: workspaceId,
+          board_id: boardId,
+          story_id: item.storyId,
+          story_name: item.name,
+          current_rank: item.rank,
+          indent_level: item.indentLevel,
+          matching_id: item.matchingId,
+          sync_history_id: syncHistoryId,
+          is_synced_to_ado: false
+        })
+        .select()
+        .single();
+        
+      if (!error && newItem) {
+        newItems++;
+        rankingIds.push(newItem.id);
+        
+        // Add all new items to changed items list
+        changedItems.push({
+          id: newItem.id,
+          storyId: item.storyId,
+          name: item.name,
+          currentRank: item.rank,
+          previousRank: null,
+          change: null,
+          direction: 'new'
+        });
+      }
+    }
+  }
+  
+  return {
+    newItems,
+    updatedItems,
+    changedItems,
+    rankingIds
+  };
+}
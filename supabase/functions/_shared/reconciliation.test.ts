@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ReconcileAdoItem,
+  ReconcileOptions,
+  ReconcilePbFeature,
+  countByKind,
+  reconcile
+} from './reconciliation';
+
+const options: ReconcileOptions = {
+  engineeringStatuses: ['With Engineering'],
+  statusMap: { Active: 'With Engineering', Closed: 'Done' },
+  titleDriftThreshold: 0.6,
+  archivedAdoStates: ['Removed'],
+};
+
+function feature(overrides: Partial<ReconcilePbFeature>): ReconcilePbFeature {
+  return { id: 'pb-1', name: 'Checkout redesign', status: 'With Engineering', parentId: null, archived: false, ...overrides };
+}
+
+function workItem(overrides: Partial<ReconcileAdoItem>): ReconcileAdoItem {
+  return { id: 100, title: 'Checkout redesign', state: 'Active', parentId: null, tags: null, pbLinks: [], ...overrides };
+}
+
+describe('reconcile', () => {
+  it('should find nothing when features, work items and links agree', () => {
+    expect(reconcile([feature({})], [workItem({})], [{ pbId: 'pb-1', adoId: 100 }], options)).toEqual([]);
+  });
+
+  it('should report a link to a work item that no longer exists once across both mapping tables', () => {
+    const findings = reconcile([feature({})], [], [{ pbId: 'pb-1', adoId: 100 }, { pbId: 'pb-1', adoId: 100 }], options);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      key: 'broken_link:pb-1:100',
+      kind: 'broken_link',
+      severity: 'error',
+      pbName: 'Checkout redesign',
+      data: { feature_missing: false },
+    });
+  });
+
+  it('should report work items linked to deleted or archived features, except archived work items', () => {
+    const findings = reconcile(
+      [feature({ id: 'pb-archived', archived: true })],
+      [workItem({ id: 1 }), workItem({ id: 2 }), workItem({ id: 3, state: 'removed' })],
+      [{ pbId: 'pb-archived', adoId: 1 }, { pbId: 'pb-deleted', adoId: 2 }, { pbId: 'pb-deleted', adoId: 3 }],
+      options
+    );
+
+    expect(findings.map(f => [f.kind, f.adoWorkItemId, f.details])).toEqual([
+      ['ado_orphan', 1, 'Linked to "Checkout redesign", which is archived in ProductBoard'],
+      ['ado_orphan', 2, 'Linked to ProductBoard feature pb-deleted, which no longer exists'],
+    ]);
+  });
+
+  it('should report work items that refer to a missing feature by hyperlink, title prefix or tag', () => {
+    const findings = reconcile(
+      [],
+      [
+        workItem({ id: 1, pbLinks: ['pb-a'] }),
+        workItem({ id: 2, title: '[PB pb-b] Checkout' }),
+        workItem({ id: 3, tags: 'Web; ProductBoard: pb-c' }),
+      ],
+      [],
+      options
+    );
+
+    expect(findings.map(f => [f.pbFeatureId, f.adoWorkItemId, f.data.via])).toEqual([
+      ['pb-a', 1, 'hyperlink'],
+      ['pb-b', 2, 'title prefix'],
+      ['pb-c', 3, 'tag'],
+    ]);
+  });
+
+  it('should report features in an engineering status without a work item and suggest one that refers to them', () => {
+    const findings = reconcile(
+      [
+        feature({ id: 'pb-1' }),
+        feature({ id: 'pb-2', name: 'Search' }),
+        feature({ id: 'pb-3', status: 'Planned' }),
+        feature({ id: 'pb-4', archived: true }),
+      ],
+      [workItem({ id: 7, tags: 'ProductBoard:pb-2' })],
+      [],
+      options
+    );
+
+    expect(findings.map(f => [f.kind, f.pbFeatureId, f.severity, f.data.suggested_ado_work_item_id])).toEqual([
+      ['pb_orphan', 'pb-1', 'warning', null],
+      ['pb_orphan', 'pb-2', 'warning', 7],
+    ]);
+  });
+
+  it('should report titles that drifted from the feature name, ignoring the [PB] prefix', () => {
+    const links = [{ pbId: 'pb-1', adoId: 100 }];
+
+    expect(reconcile([feature({})], [workItem({ title: '[PBpb-1] Checkout redesign' })], links, options)).toEqual([]);
+
+    const [drift] = reconcile([feature({})], [workItem({ title: 'Loyalty points' })], links, options);
+    expect(drift.kind).toBe('title_drift');
+    expect(drift.data.similarity).toBeLessThan(0.6);
+  });
+
+  it('should report an ADO state that maps to another ProductBoard status', () => {
+    const [mismatch] = reconcile([feature({})], [workItem({ state: 'Closed' })], [{ pbId: 'pb-1', adoId: 100 }], options);
+
+    expect(mismatch).toMatchObject({
+      kind: 'status_mismatch',
+      details: 'ADO state Closed maps to "Done", but the feature is "With Engineering"',
+    });
+    expect(reconcile([feature({})], [workItem({ state: 'New' })], [{ pbId: 'pb-1', adoId: 100 }], options)).toEqual([]);
+  });
+
+  it('should report a work item whose parent is not the work item of the feature parent', () => {
+    const features = [feature({ id: 'init', name: 'Payments', status: null }), feature({ parentId: 'init' })];
+    const links = [{ pbId: 'init', adoId: 50 }, { pbId: 'pb-1', adoId: 100 }];
+    const parent = workItem({ id: 50, title: 'Payments', state: null });
+
+    expect(reconcile(features, [parent, workItem({ parentId: 50 })], links, options)).toEqual([]);
+
+    const [noParent] = reconcile(features, [parent, workItem({})], links, options);
+    expect(noParent.details).toBe('Has no parent, but "Payments" is linked to #50');
+
+    const [wrongParent] = reconcile(features, [parent, workItem({ parentId: 60 })], links, options);
+    expect(wrongParent).toMatchObject({ kind: 'parent_mismatch', data: { ado_parent_id: 60, expected_ado_parent_ids: [50] } });
+  });
+});
+
+describe('countByKind', () => {
+  it('should count issues per kind', () => {
+    expect(countByKind([{ kind: 'pb_orphan' }, { kind: 'broken_link' }, { kind: 'pb_orphan' }])).toEqual({ pb_orphan: 2, broken_link: 1 });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Reconciliation of the cached ProductBoard features and ADO work items with the links between them
+ *
+ * Used by reconcile-pb-ado, which stores the issues it finds for the reconciliation dashboard,
+ * and by the app to show which fixes an issue offers.
+ */
+
+import { pbIdFromTitle, stripPbPrefix } from './pbAdoLinks.ts';
+import { textSimilarity } from './textSimilarity.ts';
+import type { ReconciliationFix, ReconciliationIssueKind } from './contracts.ts';
+
+export interface ReconcilePbFeature {
+  id: string;
+  name: string;
+  status: string | null;
+  parentId: string | null;
+  archived: boolean;
+}
+
+export interface ReconcileAdoItem {
+  id: number;
+  title: string;
+  state: string | null;
+  parentId: number | null;
+  tags: string | null;
+  // ProductBoard features the work item has a hyperlink to
+  pbLinks: string[];
+}
+
+// A link in pb_ado_mappings or pb_ado_enhanced_mappings
+export interface ReconcileLink {
+  pbId: string;
+  adoId: number;
+}
+
+export interface ReconcileOptions {
+  // ProductBoard statuses of features that should have a work item
+  engineeringStatuses: string[];
+  // ADO state to ProductBoard status, as handle-ado-webhook writes it back
+  statusMap: Record<string, string>;
+  // Titles less similar than this to the feature name have drifted
+  titleDriftThreshold: number;
+  // ADO states of work items that were archived; they are not reported as orphans
+  archivedAdoStates: string[];
+}
+
+export type ReconciliationSeverity = 'error' | 'warning';
+
+export interface ReconciliationFinding {
+  // Identifies the same issue across runs
+  key: string;
+  kind: ReconciliationIssueKind;
+  severity: ReconciliationSeverity;
+  pbFeatureId: string | null;
+  adoWorkItemId: number | null;
+  pbName: string | null;
+  adoTitle: string | null;
+  details: string;
+  data: Record<string, unknown>;
+}
+
+export const RECONCILIATION_SEVERITY: Record<ReconciliationIssueKind, ReconciliationSeverity> = {
+  ado_orphan: 'error',
+  broken_link: 'error',
+  pb_orphan: 'warning',
+  parent_mismatch: 'warning',
+  status_mismatch: 'warning',
+  title_drift: 'warning'
+};
+
+// Fixes reconcile-pb-ado applies to each kind of issue; any issue can also be ignored
+export const RECONCILIATION_FIXES: Record<ReconciliationIssueKind, ReconciliationFix[]> = {
+  ado_orphan: ['relink', 'unlink', 'archive'],
+  pb_orphan: ['create_missing', 'relink'],
+  broken_link: ['relink', 'unlink', 'create_missing'],
+  parent_mismatch: ['relink', 'unlink'],
+  status_mismatch: ['relink', 'unlink'],
+  title_drift: ['relink', 'unlink']
+};
+
+export const DEFAULT_ENGINEERING_STATUSES = ['With Engineering'];
+export const DEFAULT_TITLE_DRIFT_THRESHOLD = 0.6;
+
+// The tag sync adds to the work items it creates
+export const PB_TAG_PREFIX = 'ProductBoard:';
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Every ProductBoard feature a work item refers to outside the mapping tables:
+ * hyperlinks, the [PB<id>] title prefix and ProductBoard:<id> tags
+ */
+function referencedPbIds(item: ReconcileAdoItem): { pbId: string; via: string }[] {
+  const references = item.pbLinks.map(pbId => ({ pbId, via: 'hyperlink' }));
+
+  const prefixId = pbIdFromTitle(item.title);
+  if (prefixId) references.push({ pbId: prefixId, via: 'title prefix' });
+
+  (item.tags || '').split(';').map(tag => tag.trim()).forEach(tag => {
+    if (tag.toLowerCase().startsWith(PB_TAG_PREFIX.toLowerCase())) {
+      references.push({ pbId: tag.slice(PB_TAG_PREFIX.length).trim(), via: 'tag' });
+    }
+  });
+
+  return references.filter(reference => !!reference.pbId);
+}
+
+function finding(
+  kind: ReconciliationIssueKind,
+  pbFeatureId: string | null,
+  adoWorkItemId: number | null,
+  fields: Pick<ReconciliationFinding, 'pbName' | 'adoTitle' | 'details' | 'data'>
+): ReconciliationFinding {
+  return {
+    key: `${kind}:${pbFeatureId || ''}:${adoWorkItemId ?? ''}`,
+    kind,
+    severity: RECONCILIATION_SEVERITY[kind],
+    pbFeatureId,
+    adoWorkItemId,
+    ...fields
+  };
+}
+
+/**
+ * Compare features, work items and links, and report what disagrees:
+ * - ado_orphan: a work item linked to a feature that was deleted or archived
+ * - pb_orphan: a feature in an engineering status without a work item
+ * - broken_link: a link to a work item that no longer exists
+ * - parent_mismatch: a work item whose parent is not the work item of the feature's parent
+ * - status_mismatch: an ADO state that maps to another ProductBoard status than the feature's
+ * - title_drift: a work item title that no longer resembles the feature name
+ */
+export function reconcile(
+  features: ReconcilePbFeature[],
+  workItems: ReconcileAdoItem[],
+  links: ReconcileLink[],
+  options: ReconcileOptions
+): ReconciliationFinding[] {
+  const featureById = new Map(features.map(feature => [feature.id, feature]));
+  const workItemById = new Map(workItems.map(item => [item.id, item]));
+  const archivedStates = options.archivedAdoStates.map(state => state.toLowerCase());
+  const isArchived = (item: ReconcileAdoItem) => !!item.state && archivedStates.includes(item.state.toLowerCase());
+  const findings = new Map<string, ReconciliationFinding>();
+  const add = (issue: ReconciliationFinding) => {
+    if (!findings.has(issue.key)) findings.set(issue.key, issue);
+  };
+
+  // Distinct links per feature; both mapping tables may hold the same one
+  const adoIdsByPbId = new Map<string, number[]>();
+  links.forEach(link => {
+    const adoIds = adoIdsByPbId.get(link.pbId) || [];
+    if (!adoIds.includes(link.adoId)) adoIdsByPbId.set(link.pbId, [...adoIds, link.adoId]);
+  });
+
+  adoIdsByPbId.forEach((adoIds, pbId) => {
+    const feature = featureById.get(pbId);
+
+    adoIds.forEach(adoId => {
+      const item = workItemById.get(adoId);
+
+      if (!item) {
+        add(finding('broken_link', pbId, adoId, {
+          pbName: feature?.name || null,
+          adoTitle: null,
+          details: `Linked to work item #${adoId}, which no longer exists in Azure DevOps`,
+          data: { feature_missing: !feature }
+        }));
+        return;
+      }
+
+      if (!feature || feature.archived) {
+        if (isArchived(item)) return;
+        add(finding('ado_orphan', pbId, adoId, {
+          pbName: feature?.name || null,
+          adoTitle: item.title,
+          details: feature
+            ? `Linked to "${feature.name}", which is archived in ProductBoard`
+            : `Linked to ProductBoard feature ${pbId}, which no longer exists`,
+          data: { via: 'mapping', feature_archived: !!feature, ado_state: item.state }
+        }));
+        return;
+      }
+
+      const title = stripPbPrefix(item.title);
+      const similarity = textSimilarity(feature.name, title);
+      if (similarity < options.titleDriftThreshold) {
+        add(finding('title_drift', pbId, adoId, {
+          pbName: feature.name,
+          adoTitle: item.title,
+          details: `"${title}" is ${Math.round(similarity * 100)}% similar to the feature name`,
+          data: { similarity }
+        }));
+      }
+
+      const expectedStatus = item.state ? options.statusMap[item.state] : undefined;
+      if (expectedStatus && feature.status && !sameText(expectedStatus, feature.status)) {
+        add(finding('status_mismatch', pbId, adoId, {
+          pbName: feature.name,
+          adoTitle: item.title,
+          details: `ADO state ${item.state} maps to "${expectedStatus}", but the feature is "${feature.status}"`,
+          data: { ado_state: item.state, pb_status: feature.status, expected_pb_status: expectedStatus }
+        }));
+      }
+
+      const expectedParents = feature.parentId ? adoIdsByPbId.get(feature.parentId) || [] : [];
+      if (expectedParents.length > 0 && (item.parentId === null || !expectedParents.includes(item.parentId))) {
+        const parentName = featureById.get(feature.parentId as string)?.name || feature.parentId;
+        add(finding('parent_mismatch', pbId, adoId, {
+          pbName: feature.name,
+          adoTitle: item.title,
+          details: item.parentId === null
+            ? `Has no parent, but "${parentName}" is linked to #${expectedParents.join(', #')}`
+            : `Parent is #${item.parentId}, but "${parentName}" is linked to #${expectedParents.join(', #')}`,
+          data: { pb_parent_id: feature.parentId, ado_parent_id: item.parentId, expected_ado_parent_ids: expectedParents }
+        }));
+      }
+    });
+  });
+
+  // Work items that refer to a deleted or archived feature without a link in the mapping tables
+  const referencingItems = new Map<string, number[]>();
+  workItems.forEach(item => {
+    referencedPbIds(item).forEach(({ pbId, via }) => {
+      referencingItems.set(pbId, [...(referencingItems.get(pbId) || []), item.id]);
+
+      const feature = featureById.get(pbId);
+      if ((feature && !feature.archived) || isArchived(item)) return;
+
+      add(finding('ado_orphan', pbId, item.id, {
+        pbName: feature?.name || null,
+        adoTitle: item.title,
+        details: feature
+          ? `Refers (${via}) to "${feature.name}", which is archived in ProductBoard`
+          : `Refers (${via}) to ProductBoard feature ${pbId}, which no longer exists`,
+        data: { via, feature_archived: !!feature, ado_state: item.state }
+      }));
+    });
+  });
+
+  const engineeringStatuses = options.engineeringStatuses.map(status => status.toLowerCase());
+  features.forEach(feature => {
+    if (feature.archived || adoIdsByPbId.has(feature.id)) return;
+    if (!feature.status || !engineeringStatuses.includes(feature.status.toLowerCase())) return;
+
+    // A work item that refers to the feature is the likely one to link
+    const suggested = referencingItems.get(feature.id)?.[0] ?? null;
+    add(finding('pb_orphan', feature.id, null, {
+      pbName: feature.name,
+      adoTitle: null,
+      details: suggested
+        ? `"${feature.status}" without a linked work item; #${suggested} refers to it`
+        : `"${feature.status}" without a work item in Azure DevOps`,
+      data: { pb_status: feature.status, suggested_ado_work_item_id: suggested }
+    }));
+  });
+
+  return [...findings.values()];
+}
+
+// Open issues per kind
+export function countByKind(issues: { kind: ReconciliationIssueKind }[]): Partial<Record<ReconciliationIssueKind, number>> {
+  return issues.reduce<Partial<Record<ReconciliationIssueKind, number>>>((counts, issue) => {
+    counts[issue.kind] = (counts[issue.kind] || 0) + 1;
+    return counts;
+  }, {});
+}
@@ -0,0 +1,64 @@
+/**
+ * Server-side access to the credentials stored in config_secrets
+ *
+ * Secret values are encrypted with Supabase Vault and can only be decrypted with the
+ * service role, so edge functions read them here instead of receiving them from the app.
+ */
+
+export interface GetSecretOptions {
+  // Workspace whose secret takes precedence over the system-wide one
+  workspaceId?: string | null;
+  // Environment variable to fall back to when no secret is stored
+  envVar?: string;
+}
+
+/**
+ * Read a secret with a service role client
+ * @returns The secret value, or null when it is not configured
+ */
+export async function getSecret(supabase: any, key: string, options: GetSecretOptions = {}): Promise<string | null> {
+  const { data, error } = await supabase.rpc('get_config_secret', {
+    p_key: key,
+    p_workspace_id: options.workspaceId ?? null,
+  });
+
+  if (error) {
+    console.error(`Error reading secret ${key}:`, error.message);
+  }
+
+  if (data) return data as string;
+  return options.envVar ? Deno.env.get(options.envVar) || null : null;
+}
+
+/**
+ * Read a secret that the function cannot run without
+ * @throws When the secret is not configured
+ */
+export async function requireSecret(supabase: any, key: string, options: GetSecretOptions = {}): Promise<string> {
+  const value = await getSecret(supabase, key, options);
+  if (!value) {
+    throw new Error(`Secret ${key} is not configured`);
+  }
+  return value;
+}
+
+/**
+ * Create or rotate a secret, recording the change in config_secret_history
+ */
+export async function setSecret(
+  supabase: any,
+  key: string,
+  value: string,
+  options: { description?: string; workspaceId?: string | null } = {}
+): Promise<void> {
+  const { error } = await supabase.rpc('set_config_secret', {
+    p_key: key,
+    p_value: value,
+    p_description: options.description ?? null,
+    p_workspace_id: options.workspaceId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Error storing secret ${key}: ${error.message}`);
+  }
+}
@@ -0,0 +1,37 @@
+import { EdgeFunctionStreamEvent } from './contracts.ts';
+
+/**
+ * Streamed responses for functions that report progress
+ *
+ * The body is newline-delimited JSON: progress events while run() works, then one result
+ * or error event. Errors are reported in the stream because the status is already sent.
+ */
+export function streamResponse<Progress, Result>(
+  run: (report: (progress: Progress) => void) => Promise<Result>,
+  headers: Record<string, string>
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: EdgeFunctionStreamEvent<Progress, Result>) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const result = await run(progress => send({ type: 'progress', progress }));
+        send({ type: 'result', result });
+      } catch (error) {
+        console.error('Error in streamed response:', error);
+        send({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+  });
+}
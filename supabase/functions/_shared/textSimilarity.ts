@@ -0,0 +1,75 @@
+/**
+ * Fuzzy matching of free text (OCR output, typed names) against stored names
+ *
+ * Scores are between 0 and 1: the Dice coefficient of the character bigrams of both
+ * normalized texts, so small OCR errors and reordered words still score high.
+ */
+
+export interface TextMatch<T> {
+  item: T;
+  score: number;
+}
+
+// Lower case, without punctuation and with single spaces
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Character bigrams of every word, counted
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.split(' ')) {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 1; i++) {
+      const bigram = padded.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// How similar two texts are, from 0 (nothing in common) to 1 (equal once normalized)
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  let shared = 0;
+  let total = 0;
+  for (const [bigram, count] of leftBigrams) {
+    shared += Math.min(count, rightBigrams.get(bigram) || 0);
+    total += count;
+  }
+  for (const count of rightBigrams.values()) {
+    total += count;
+  }
+
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Score every candidate against a text
+ * @returns The best matches first, at most limit of them, leaving out those below minScore
+ */
+export function rankMatches<T>(
+  text: string,
+  candidates: T[],
+  nameOf: (candidate: T) => string,
+  options: { limit?: number; minScore?: number } = {}
+): TextMatch<T>[] {
+  const { limit = 3, minScore = 0 } = options;
+
+  return candidates
+    .map(item => ({ item, score: textSimilarity(text, nameOf(item)) }))
+    .filter(match => match.score > 0 && match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+
+// The module reads its defaults from the Deno environment when it is loaded
+vi.hoisted(() => {
+  (globalThis as any).Deno = { env: { get: () => undefined } };
+});
+
+import {
+  STALE_CLAIM_SECONDS,
+  claimWebhookDelivery,
+  completeWebhookDelivery,
+  hmacSha256Hex,
+  releaseWebhookDelivery,
+  verifyEventTimestamp,
+  verifyWebhookRequest
+} from './webhookVerification';
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+const SECRET = 'hook-secret';
+const BODY = '{"eventType":"workitem.updated"}';
+
+function request(headers: Record<string, string>): Request {
+  return new Request('https://example.com/hook', { method: 'POST', headers });
+}
+
+interface Delivery {
+  source: string;
+  delivery_id: string;
+  status: string;
+  received_at: string;
+}
+
+// In-memory webhook_deliveries table with the unique (source, delivery_id) key
+function deliveriesTable(rows: Delivery[] = []) {
+  const filtered = (filters: ((row: Delivery) => boolean)[], apply: (matches: Delivery[]) => void) => {
+    const query: Record<string, any> = {
+      eq: (column: keyof Delivery, value: string) => {
+        filters.push(row => row[column] === value);
+        return query;
+      },
+      lt: (column: keyof Delivery, value: string) => {
+        filters.push(row => row[column] < value);
+        return query;
+      },
+      then: (resolve: (result: unknown) => void) => {
+        apply(rows.filter(row => filters.every(filter => filter(row))));
+        resolve({ error: null });
+      },
+    };
+    return query;
+  };
+
+  const supabase = {
+    from: () => ({
+      insert: async (row: Omit<Delivery, 'received_at'>) => {
+        if (rows.some(existing => existing.source === row.source && existing.delivery_id === row.delivery_id)) {
+          return { error: { code: '23505', message: 'duplicate key value' } };
+        }
+        rows.push({ ...row, received_at: new Date().toISOString() });
+        return { error: null };
+      },
+      delete: () => filtered([], matches => {
+        for (const match of matches) rows.splice(rows.indexOf(match), 1);
+      }),
+      update: (values: Partial<Delivery>) => filtered([], matches => {
+        for (const match of matches) Object.assign(match, values);
+      }),
+    }),
+  };
+
+  return { rows, supabase };
+}
+
+describe('verifyWebhookRequest', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should accept an HMAC signature over the timestamp and the body', async () => {
+    const timestamp = String(NOW / 1000);
+    const signature = await hmacSha256Hex(SECRET, `${timestamp}.${BODY}`);
+
+    const result = await verifyWebhookRequest(
+      request({ 'x-webhook-signature': `sha256=${signature}`, 'x-webhook-timestamp': timestamp }),
+      BODY,
+      { hmacSecret: SECRET }
+    );
+
+    expect(result).toMatchObject({ valid: true, method: 'hmac' });
+  });
+
+  it('should reject a signature over another body or with another secret', async () => {
+    const timestamp = String(NOW / 1000);
+    const headers = (signature: string) => ({ 'x-webhook-signature': signature, 'x-webhook-timestamp': timestamp });
+
+    const otherBody = await hmacSha256Hex(SECRET, `${timestamp}.{"eventType":"workitem.deleted"}`);
+    expect(await verifyWebhookRequest(request(headers(otherBody)), BODY, { hmacSecret: SECRET }))
+      .toEqual({ valid: false, method: 'hmac', reason: 'HMAC signature mismatch' });
+
+    const otherSecret = await hmacSha256Hex('other-secret', `${timestamp}.${BODY}`);
+    expect((await verifyWebhookRequest(request(headers(otherSecret)), BODY, { hmacSecret: SECRET })).valid).toBe(false);
+  });
+
+  it('should check basic auth and shared secrets, and reject requests without credentials', async () => {
+    const basicAuth = { username: 'ado', password: 'pass' };
+    const authorization = `Basic ${btoa('ado:pass')}`;
+
+    expect(await verifyWebhookRequest(request({ authorization }), BODY, { basicAuth, payloadTimestamp: NOW }))
+      .toMatchObject({ valid: true, method: 'basic_auth' });
+    expect(await verifyWebhookRequest(request({ authorization: `Basic ${btoa('ado:wrong')}` }), BODY, { basicAuth, payloadTimestamp: NOW }))
+      .toMatchObject({ valid: false, reason: 'Basic auth credentials mismatch' });
+    expect(await verifyWebhookRequest(request({ authorization: SECRET }), BODY, { sharedSecret: SECRET, requireTimestamp: false }))
+      .toMatchObject({ valid: true, method: 'shared_secret' });
+    expect(await verifyWebhookRequest(request({}), BODY, { hmacSecret: SECRET, sharedSecret: SECRET }))
+      .toMatchObject({ valid: false, method: null });
+  });
+
+  it('should only accept events inside the timestamp window', async () => {
+    const options = { sharedSecret: SECRET, toleranceSeconds: 300 };
+    const withTimestamp = (timestamp: string) => request({ authorization: SECRET, 'x-webhook-timestamp': timestamp });
+
+    expect((await verifyWebhookRequest(withTimestamp(String((NOW - 299_000) / 1000)), BODY, options)).valid).toBe(true);
+    expect(await verifyWebhookRequest(withTimestamp(String((NOW - 301_000) / 1000)), BODY, options))
+      .toMatchObject({ valid: false, reason: 'Event timestamp is 301s outside the 300s window' });
+    expect(await verifyWebhookRequest(request({ authorization: SECRET }), BODY, options))
+      .toMatchObject({ valid: false, reason: 'Missing event timestamp' });
+  });
+});
+
+describe('verifyEventTimestamp', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should read ISO dates, unix seconds and unix milliseconds', () => {
+    expect(verifyEventTimestamp('2026-03-01T11:58:00Z').valid).toBe(true);
+    expect(verifyEventTimestamp(NOW / 1000 + 60).valid).toBe(true);
+    expect(verifyEventTimestamp(String(NOW - 60_000)).valid).toBe(true);
+    expect(verifyEventTimestamp('2026-03-01T11:00:00Z').valid).toBe(false);
+  });
+
+  it('should reject missing and unparseable timestamps', () => {
+    expect(verifyEventTimestamp(undefined)).toEqual({ valid: false, reason: 'Missing event timestamp' });
+    expect(verifyEventTimestamp('yesterday')).toEqual({ valid: false, reason: 'Unparseable event timestamp: yesterday' });
+  });
+});
+
+describe('webhook delivery claims', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should claim a delivery once and treat later deliveries as duplicates', async () => {
+    const { rows, supabase } = deliveriesTable();
+
+    expect(await claimWebhookDelivery(supabase, 'ado', 'body:abc')).toBe(true);
+    expect(await claimWebhookDelivery(supabase, 'ado', 'body:abc')).toBe(false);
+    expect(await claimWebhookDelivery(supabase, 'productboard', 'body:abc')).toBe(true);
+
+    await completeWebhookDelivery(supabase, 'ado', 'body:abc');
+    expect(rows.find(row => row.source === 'ado')?.status).toBe('processed');
+    expect(await claimWebhookDelivery(supabase, 'ado', 'body:abc')).toBe(false);
+  });
+
+  it('should accept the retry of a released delivery', async () => {
+    const { supabase } = deliveriesTable();
+
+    await claimWebhookDelivery(supabase, 'ado', 'body:abc');
+    await releaseWebhookDelivery(supabase, 'ado', 'body:abc');
+
+    expect(await claimWebhookDelivery(supabase, 'ado', 'body:abc')).toBe(true);
+  });
+
+  it('should take over a claim left processing by a crash, but not a processed one', async () => {
+    const { supabase } = deliveriesTable([
+      { source: 'ado', delivery_id: 'crashed', status: 'processing', received_at: new Date(NOW).toISOString() },
+      { source: 'ado', delivery_id: 'done', status: 'processed', received_at: new Date(NOW).toISOString() },
+    ]);
+    vi.useFakeTimers();
+
+    vi.setSystemTime(NOW + (STALE_CLAIM_SECONDS - 1) * 1000);
+    expect(await claimWebhookDelivery(supabase, 'ado', 'crashed')).toBe(false);
+
+    vi.setSystemTime(NOW + (STALE_CLAIM_SECONDS + 1) * 1000);
+    expect(await claimWebhookDelivery(supabase, 'ado', 'crashed')).toBe(true);
+    expect(await claimWebhookDelivery(supabase, 'ado', 'done')).toBe(false);
+  });
+
+  it('should let a claim with a TTL expire whatever its status', async () => {
+    const { supabase } = deliveriesTable([
+      { source: 'productboard', delivery_id: 'body:abc', status: 'processed', received_at: new Date(NOW).toISOString() },
+    ]);
+    vi.useFakeTimers();
+
+    vi.setSystemTime(NOW + 60_000);
+    expect(await claimWebhookDelivery(supabase, 'productboard', 'body:abc', 120)).toBe(false);
+
+    vi.setSystemTime(NOW + 121_000);
+    expect(await claimWebhookDelivery(supabase, 'productboard', 'body:abc', 120)).toBe(true);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Verification and replay protection for inbound webhooks
+ *
+ * Requests are authenticated with either an HMAC-SHA256 signature over the raw body,
+ * a shared secret in the Authorization header, or ADO service hook basic auth. All
+ * secret comparisons are constant time. Each delivery is then claimed by its ID in
+ * webhook_deliveries so retried webhooks are only processed once.
+ */
+
+export type WebhookSource = 'productboard' | 'ado';
+
+export interface WebhookVerificationOptions {
+  // Secret used to check the HMAC signature header
+  hmacSecret?: string | null;
+  // Secret expected verbatim in the Authorization header (ProductBoard subscriptions)
+  sharedSecret?: string | null;
+  // Credentials configured on the ADO service hook
+  basicAuth?: { username: string; password: string } | null;
+  // Event time taken from the payload when there is no timestamp header
+  payloadTimestamp?: string | number | null;
+  signatureHeader?: string;
+  timestampHeader?: string;
+  toleranceSeconds?: number;
+  // Reject requests that carry no timestamp at all (default true)
+  requireTimestamp?: boolean;
+}
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  method: 'hmac' | 'shared_secret' | 'basic_auth' | null;
+  reason: string;
+}
+
+export const DEFAULT_SIGNATURE_HEADER = 'x-webhook-signature';
+export const DEFAULT_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const DEFAULT_TOLERANCE_SECONDS = Number(Deno.env.get('WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS') || 300);
+// Longer than an edge function can run, so a claim still processing after this was left by a crash
+export const STALE_CLAIM_SECONDS = Number(Deno.env.get('WEBHOOK_STALE_CLAIM_SECONDS') || 600);
+
+const encoder = new TextEncoder();
+
+/**
+ * Compare two strings without leaking where they differ through timing
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+
+  // Always walk the longer input so the length check does not short-circuit
+  const length = Math.max(aBytes.length, bBytes.length);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Compute the hex HMAC-SHA256 of a message
+ */
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+/**
+ * Compute the hex SHA-256 of a message
+ */
+export async function sha256Hex(message: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(message)));
+}
+
+/**
+ * Parse a timestamp given as ISO date, unix seconds or unix milliseconds
+ */
+function parseTimestamp(value: string | number): number | null {
+  if (typeof value === 'number' || /^\d+$/.test(value)) {
+    const numeric = Number(value);
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Check that a webhook request is authentic and recent
+ * @param req The incoming request (headers only are read)
+ * @param rawBody The raw request body, exactly as received
+ * @param options Accepted credentials and timestamp settings
+ */
+export async function verifyWebhookRequest(
+  req: Request,
+  rawBody: string,
+  options: WebhookVerificationOptions
+): Promise<WebhookVerificationResult> {
+  const signatureHeader = options.signatureHeader || DEFAULT_SIGNATURE_HEADER;
+  const timestampHeader = options.timestampHeader || DEFAULT_TIMESTAMP_HEADER;
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+
+  const signature = req.headers.get(signatureHeader);
+  const headerTimestamp = req.headers.get(timestampHeader);
+  const authorization = req.headers.get('authorization');
+
+  let method: WebhookVerificationResult['method'] = null;
+
+  if (signature && options.hmacSecret) {
+    // Signed payloads cover the timestamp too, so it cannot be swapped on replay
+    const signedContent = headerTimestamp ? `${headerTimestamp}.${rawBody}` : rawBody;
+    const expected = await hmacSha256Hex(options.hmacSecret, signedContent);
+    const received = signature.replace(/^sha256=/i, '').trim().toLowerCase();
+    if (!timingSafeEqual(received, expected)) {
+      return { valid: false, method: 'hmac', reason: 'HMAC signature mismatch' };
+    }
+    method = 'hmac';
+  } else if (authorization && options.basicAuth) {
+    const expected = `Basic ${btoa(`${options.basicAuth.username}:${options.basicAuth.password}`)}`;
+    if (!timingSafeEqual(authorization, expected)) {
+      return { valid: false, method: 'basic_auth', reason: 'Basic auth credentials mismatch' };
+    }
+    method = 'basic_auth';
+  } else if (authorization && options.sharedSecret) {
+    if (!timingSafeEqual(authorization, options.sharedSecret)) {
+      return { valid: false, method: 'shared_secret', reason: 'Authorization header mismatch' };
+    }
+    method = 'shared_secret';
+  } else {
+    return { valid: false, method: null, reason: 'No verifiable signature or credentials on request' };
+  }
+
+  const timestampValue = headerTimestamp ?? options.payloadTimestamp ?? null;
+  if ((timestampValue === null || timestampValue === '') && options.requireTimestamp === false) {
+    return { valid: true, method, reason: `Verified by ${method} (no timestamp to check)` };
+  }
+
+  const timestampCheck = verifyEventTimestamp(timestampValue, toleranceSeconds);
+  if (!timestampCheck.valid) {
+    return { valid: false, method, reason: timestampCheck.reason };
+  }
+
+  return { valid: true, method, reason: `Verified by ${method}` };
+}
+
+/**
+ * Check that an event happened within the tolerance window, for senders that only put the
+ * event time in the body and so can only be checked after the body is parsed
+ */
+export function verifyEventTimestamp(
+  timestampValue: string | number | null | undefined,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): { valid: boolean; reason: string } {
+  if (timestampValue === null || timestampValue === undefined || timestampValue === '') {
+    return { valid: false, reason: 'Missing event timestamp' };
+  }
+
+  const eventTime = parseTimestamp(timestampValue);
+  if (eventTime === null) {
+    return { valid: false, reason: `Unparseable event timestamp: ${timestampValue}` };
+  }
+
+  const skewSeconds = Math.abs(Date.now() - eventTime) / 1000;
+  if (skewSeconds > toleranceSeconds) {
+    return { valid: false, reason: `Event timestamp is ${Math.round(skewSeconds)}s outside the ${toleranceSeconds}s window` };
+  }
+
+  return { valid: true, reason: 'Event timestamp is within the window' };
+}
+
+/**
+ * Claim a webhook delivery so it is processed only once
+ * @param supabase The Supabase client instance
+ * @param source The system that sent the webhook
+ * @param deliveryId The notification ID of the delivery
+ * @param ttlSeconds Optional lifetime of the claim; older claims of the same ID no longer count as duplicates
+ * @returns boolean False if the delivery was already claimed
+ *
+ * A claim still 'processing' after STALE_CLAIM_SECONDS is taken over, so a function that crashed
+ * before completing or releasing its claim does not make every retry of the delivery a duplicate.
+ */
+export async function claimWebhookDelivery(
+  supabase: any,
+  source: WebhookSource,
+  deliveryId: string,
+  ttlSeconds?: number
+): Promise<boolean> {
+  const { error: staleError } = await supabase
+    .from('webhook_deliveries')
+    .delete()
+    .eq('source', source)
+    .eq('delivery_id', deliveryId)
+    .eq('status', 'processing')
+    .lt('received_at', new Date(Date.now() - STALE_CLAIM_SECONDS * 1000).toISOString());
+
+  if (staleError) {
+    console.error(`Error taking over stale ${source} webhook delivery ${deliveryId}:`, staleError);
+  }
+
+  if (ttlSeconds) {
+    const { error: expireError } = await supabase
+      .from('webhook_deliveries')
+      .delete()
+      .eq('source', source)
+      .eq('delivery_id', deliveryId)
+      .lt('received_at', new Date(Date.now() - ttlSeconds * 1000).toISOString());
+
+    if (expireError) {
+      console.error(`Error expiring ${source} webhook delivery ${deliveryId}:`, expireError);
+    }
+  }
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      source,
+      delivery_id: deliveryId,
+      status: 'processing',
+    });
+
+  if (!error) {
+    return true;
+  }
+
+  // Unique violation on (source, delivery_id): this delivery has been seen before
+  if (error.code === '23505') {
+    console.log(`Duplicate ${source} webhook delivery ${deliveryId}, skipping`);
+    return false;
+  }
+
+  // Fail open so a database problem does not drop webhooks
+  console.error(`Error claiming ${source} webhook delivery ${deliveryId}:`, error);
+  return true;
+}
+
+/**
+ * Mark a claimed delivery as processed
+ */
+export async function completeWebhookDelivery(
+  supabase: any,
+  source: WebhookSource,
+  deliveryId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'processed', processed_at: new Date().toISOString() })
+    .eq('source', source)
+    .eq('delivery_id', deliveryId);
+
+  if (error) {
+    console.error(`Error completing ${source} webhook delivery ${deliveryId}:`, error);
+  }
+}
+
+/**
+ * Release a claimed delivery after a failure so the sender's retry is processed
+ */
+export async function releaseWebhookDelivery(
+  supabase: any,
+  source: WebhookSource,
+  deliveryId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .delete()
+    .eq('source', source)
+    .eq('delivery_id', deliveryId);
+
+  if (error) {
+    console.error(`Error releasing ${source} webhook delivery ${deliveryId}:`, error);
+  }
+}
@@ -1,5 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
-import { Configuration, OpenAIApi } from 'npm:openai@4.28.0';
+import { getLlmClient } from '../_shared/llm.ts';
+import { CompletenessAnalysisSchema } from '../_shared/aiSchemas.ts';
+import { CompletenessAnalysis, CompletenessRequest } from '../_shared/contracts.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,29 +9,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-interface StoryAnalysisRequest {
-  storyId: string;
-  workspaceId: string;
-}
-
-interface CompletenessAnalysis {
-  scores: {
-    description: number;
-    acceptance: number;
-    scope: number;
-    dependencies: number;
-    value: number;
-  };
-  suggestions: {
-    description?: string;
-    acceptance?: string;
-    scope?: string;
-    dependencies?: string;
-    value?: string;
-  };
-  totalScore: number;
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -41,18 +20,15 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_ANON_KEY') ?? ''
     );
 
-    const { storyId, workspaceId }: StoryAnalysisRequest = await req.json();
+    // The LLM client reads its API key from config_secrets, which needs the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    // Get workspace configuration
-    const { data: config } = await supabase
-      .from('configurations')
-      .select('openai_api_key')
-      .eq('workspace_id', workspaceId)
-      .single();
+    const { storyId, workspaceId }: CompletenessRequest = await req.json();
 
-    if (!config?.openai_api_key) {
-      throw new Error('OpenAI API key not configured');
-    }
+    const llm = await getLlmClient(supabaseAdmin, 'analyze-completeness', { workspaceId });
 
     // Get story data
     const { data: story } = await supabase
@@ -65,16 +41,11 @@ Deno.serve(async (req) => {
       throw new Error('Story not found');
     }
 
-    // Initialize OpenAI
-    const openai = new OpenAIApi(new Configuration({ apiKey: config.openai_api_key }));
-
-    // Analyze story with GPT-4
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Analyze the user story and provide a detailed completeness assessment with scores and suggestions for improvement. Focus on:
+    // Analyze the story
+    const result = await llm.structured([
+      {
+        role: 'system',
+        content: `Analyze the user story and provide a detailed completeness assessment with scores and suggestions for improvement. Focus on:
 
 1. Description Quality (0-100):
    - Clarity and specificity
@@ -111,38 +82,38 @@ For each category:
 - Give specific suggestions for improvement
 - Keep suggestions actionable and concise
 
-Return the analysis in JSON format with 'scores' and 'suggestions' objects.`
-        },
-        {
-          role: 'user',
-          content: JSON.stringify({
-            title: story.pb_title,
-            description: story.description,
-            acceptanceCriteria: story.acceptance_criteria,
-            notes: story.notes,
-          }),
-        },
-      ],
+Return the analysis as a JSON object:
+{
+  "scores": { "description": 0, "acceptance": 0, "scope": 0, "dependencies": 0, "value": 0 },
+  "suggestions": { "description": "...", "acceptance": "...", "scope": "...", "dependencies": "...", "value": "..." },
+  "totalScore": 0
+}
+where totalScore is the overall completeness score (0-100).`
+      },
+      {
+        role: 'user',
+        content: JSON.stringify({
+          title: story.pb_title,
+          description: story.description,
+          acceptanceCriteria: story.acceptance_criteria,
+          notes: story.notes,
+        }),
+      },
+    ], CompletenessAnalysisSchema, {
       temperature: 0.7,
     });
 
-    // Ensure we have a valid response
-    if (!completion.choices?.[0]?.message?.content) {
-      throw new Error('Invalid response from OpenAI');
-    }
-
-    let analysis: CompletenessAnalysis;
-    try {
-      analysis = JSON.parse(completion.choices[0].message.content);
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', completion.choices[0].message.content);
-      throw new Error('Failed to parse OpenAI response as JSON');
+    if (!result.success) {
+      throw new Error(`Invalid analysis format from AI response: ${result.issues.join('; ')}`);
     }
 
-    // Validate the analysis structure
-    if (!analysis.scores || !analysis.suggestions) {
-      throw new Error('Invalid analysis format from OpenAI');
-    }
+    // Fall back to the average of the category scores if the model left out the total
+    const { scores, suggestions, totalScore } = result.data;
+    const analysis: CompletenessAnalysis = {
+      scores,
+      suggestions,
+      totalScore: totalScore ?? Math.round(Object.values(scores).reduce((sum, value) => sum + value, 0) / 5),
+    };
 
     // Update story with new completeness score and AI suggestions
     const { error: updateError } = await supabase
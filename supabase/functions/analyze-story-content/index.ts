@@ -2,36 +2,24 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
 import { corsHeaders } from '../_shared/cors.ts';
-
-interface StoryGenerationRequest {
-  input: string;
-  hierarchyLevel?: 'epic' | 'feature' | 'story';
-  componentName?: string;
-}
-
-interface StoryGenerationResponse {
-  title: string;
-  description: string;
-  acceptanceCriteria?: string[];
-}
+import { getLlmClient } from '../_shared/llm.ts';
+import { applyFieldDefaults, StoryContentSchema } from '../_shared/aiSchemas.ts';
+import { StoryContentRequest, StoryContentResponse } from '../_shared/contracts.ts';
 
 // Create a system prompt based on the request
-function createSystemPrompt(request: StoryGenerationRequest): string {
+function createSystemPrompt(request: StoryContentRequest): string {
   const { hierarchyLevel = 'story', componentName } = request;
   
   let prompt = `You are an expert product manager who specializes in writing clear, concise, and effective product requirements. `;
   
   // Add formatting instructions
-  prompt += `Format your response with clear section headers:
+  prompt += `Reply with a JSON object with these fields:
   
-Title: [A concise, descriptive, action-oriented title that starts with a verb]
-
-Description: [Description in the format "As a [user type], I want to [action], so that [benefit]", followed by any additional details]
-
-Acceptance Criteria:
-- [First criterion]
-- [Second criterion]
-- [Third criterion]
+{
+  "title": "A concise, descriptive, action-oriented title that starts with a verb",
+  "description": "Description in the format \"As a [user type], I want to [action], so that [benefit]\", followed by any additional details",
+  "acceptanceCriteria": ["First criterion", "Second criterion", "Third criterion"]
+}
 `;
   
   if (hierarchyLevel === 'story') {
@@ -59,102 +47,12 @@ Acceptance Criteria:
 }
 
 // Create a user prompt based on the request
-function createUserPrompt(request: StoryGenerationRequest): string {
+function createUserPrompt(request: StoryContentRequest): string {
   const { input, hierarchyLevel = 'story' } = request;
   
   return `Please create a ${hierarchyLevel} based on the following input: "${input}"`;
 }
 
-// Parse the AI response to extract title, description, and acceptance criteria
-function parseAIResponse(response: string): StoryGenerationResponse {
-  // Default values
-  let title = '';
-  let description = '';
-  let acceptanceCriteria: string[] = [];
-  
-  try {
-    console.log('Raw AI response:', response);
-    
-    // Try to parse as JSON first
-    try {
-      const jsonResponse = JSON.parse(response);
-      if (jsonResponse.title) title = jsonResponse.title;
-      if (jsonResponse.description) description = jsonResponse.description;
-      if (jsonResponse.acceptanceCriteria) acceptanceCriteria = jsonResponse.acceptanceCriteria;
-      return { title, description, acceptanceCriteria };
-    } catch (e) {
-      // Not JSON, continue with text parsing
-      console.log('Not JSON, continuing with text parsing');
-    }
-    
-    // Clean up markdown formatting
-    const cleanResponse = response.replace(/#+\s+/g, '').replace(/\*\*/g, '');
-    
-    // Extract title (first line or section marked with "Title:")
-    const titleMatch = cleanResponse.match(/(?:Title:)(.*?)(?:\n|$)/i);
-    if (titleMatch && titleMatch[1]) {
-      title = titleMatch[1].trim();
-    } else {
-      // Use the first line as title if no explicit title found
-      const lines = cleanResponse.split('\n').filter(line => line.trim());
-      if (lines.length > 0) {
-        title = lines[0].trim();
-      }
-    }
-    
-    // Extract description (section marked with "Description:" or everything between title and acceptance criteria)
-    const descriptionMatch = cleanResponse.match(/(?:Description:)(.*?)(?:Acceptance Criteria:|$)/is);
-    if (descriptionMatch && descriptionMatch[1]) {
-      description = descriptionMatch[1].trim();
-    } else {
-      // Use everything except the first line and acceptance criteria as description
-      const lines = cleanResponse.split('\n').filter(line => line.trim());
-      if (lines.length > 1) {
-        const descLines = [];
-        let inAcceptanceCriteria = false;
-        
-        for (let i = 1; i < lines.length; i++) {
-          if (lines[i].match(/Acceptance Criteria:/i)) {
-            inAcceptanceCriteria = true;
-            continue;
-          }
-          
-          if (!inAcceptanceCriteria) {
-            descLines.push(lines[i]);
-          }
-        }
-        
-        description = descLines.join('\n').trim();
-      }
-    }
-    
-    // Extract acceptance criteria (section marked with "Acceptance Criteria:" or list items after description)
-    const acMatch = cleanResponse.match(/(?:Acceptance Criteria:)(.*?)$/is);
-    if (acMatch && acMatch[1]) {
-      // Split by list markers or numbered items
-      const criteria = acMatch[1]
-        .split(/\n\s*(?:-|\*|\d+\.|\s*Given\s+)/i)
-        .filter(item => item.trim())
-        .map(item => {
-          // Add "Given" back if it was removed during splitting
-          if (item.trim() && !item.trim().toLowerCase().startsWith('given')) {
-            return `Given ${item.trim()}`;
-          }
-          return item.trim();
-        });
-      
-      if (criteria.length > 0) {
-        acceptanceCriteria = criteria;
-      }
-    }
-    
-    return { title, description, acceptanceCriteria };
-  } catch (error) {
-    console.error('Error parsing AI response:', error);
-    return { title, description, acceptanceCriteria };
-  }
-}
-
 // Main handler function
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -174,11 +72,11 @@ serve(async (req) => {
     const hasBody = req.headers.get('content-length') && parseInt(req.headers.get('content-length') || '0') > 0;
     console.log('Has body:', hasBody);
     
-    let requestData: StoryGenerationRequest;
+    let requestData: StoryContentRequest;
     
     try {
       // Get request body
-      requestData = await req.json() as StoryGenerationRequest;
+      requestData = await req.json() as StoryContentRequest;
       console.log('Request data:', requestData);
     } catch (e) {
       console.error('Error parsing request body:', e);
@@ -202,52 +100,39 @@ serve(async (req) => {
       );
     }
     
-    // Create Supabase client
+    // Service role client; the LLM client reads its API key from config_secrets
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
     
     // Create prompts
     const systemPrompt = createSystemPrompt(requestData);
     const userPrompt = createUserPrompt(requestData);
     
-    // Call OpenAI API
-    const openAIKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIKey) {
-      throw new Error('OPENAI_API_KEY is not set');
-    }
-    
-    const openAIResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openAIKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      })
+    // Call the configured LLM
+    const llm = await getLlmClient(supabaseClient, 'analyze-story-content');
+    const result = await llm.structured([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ], StoryContentSchema, {
+      temperature: 0.7,
+      maxTokens: 1000
     });
     
-    if (!openAIResponse.ok) {
-      const errorText = await openAIResponse.text();
-      console.error('OpenAI API error:', errorText);
-      throw new Error(`OpenAI API error: ${errorText}`);
+    let parsedResponse: StoryContentResponse;
+    if (result.success) {
+      parsedResponse = { ...result.data, ai_fields: Object.keys(StoryContentSchema.shape), defaulted_fields: [] };
+    } else {
+      // Keep the valid fields of the reply and leave the rest empty
+      const { data, aiFields, defaultedFields } = applyFieldDefaults(
+        StoryContentSchema,
+        result.value,
+        { title: '', description: '', acceptanceCriteria: [] as string[] }
+      );
+      parsedResponse = { ...data, ai_fields: aiFields, defaulted_fields: defaultedFields };
     }
     
-    const openAIData = await openAIResponse.json();
-    const aiResponseText = openAIData.choices[0]?.message?.content || '';
-    
-    // Parse the AI response
-    const parsedResponse = parseAIResponse(aiResponseText);
-    
     // Return the response
     return new Response(
       JSON.stringify(parsedResponse),
@@ -1,59 +1,10 @@
 // Supabase Edge Function for analyzing and improving grooming stories
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
-import { Configuration, OpenAIApi } from 'https://esm.sh/openai@3.1.0';
-
-interface AnalyzeStoryRequest {
-  story_id: string;
-}
-
-interface KeyPoint {
-  id: string;
-  text: string;
-  confidence: number;
-  source_text?: string;
-}
-
-interface ActionItem {
-  id: string;
-  text: string;
-  assignee?: string;
-  due_date?: string;
-  status: 'open' | 'in_progress' | 'completed';
-  priority: 'low' | 'medium' | 'high';
-}
-
-interface Decision {
-  id: string;
-  text: string;
-  rationale?: string;
-  made_by?: string;
-  made_at?: string;
-}
-
-interface Risk {
-  id: string;
-  text: string;
-  impact: 'low' | 'medium' | 'high';
-  likelihood: 'low' | 'medium' | 'high';
-  mitigation_strategy?: string;
-}
-
-interface Suggestion {
-  id: string;
-  text: string;
-  category: 'improvement' | 'clarification' | 'alternative' | 'warning';
-  confidence: number;
-}
-
-interface AIAnalysisResult {
-  key_points: KeyPoint[];
-  action_items: ActionItem[];
-  decisions: Decision[];
-  risks: Risk[];
-  suggestions: Suggestion[];
-  sentiment_score: number;
-}
+import { getLlmClient, LlmClient } from '../_shared/llm.ts';
+import { AnalysisResultSchema } from '../_shared/aiSchemas.ts';
+import { AIAnalysisResult, AnalyzeStoryRequest, AnalyzeStoryResponse } from '../_shared/contracts.ts';
+import { corsHeaders } from '../_shared/cors.ts';
 
 interface GroomingStory {
   id: string;
@@ -69,17 +20,6 @@ interface GroomingStory {
   workspace_id: string;
 }
 
-// Initialize OpenAI
-const openAiKey = Deno.env.get('OPENAI_API_KEY');
-if (!openAiKey) {
-  throw new Error('OPENAI_API_KEY is required');
-}
-
-const configuration = new Configuration({
-  apiKey: openAiKey,
-});
-const openai = new OpenAIApi(configuration);
-
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -144,7 +84,7 @@ async function getChildStories(storyId: string): Promise<GroomingStory[]> {
 }
 
 // Main function to analyze story
-async function analyzeStory(story: GroomingStory, parentStory: GroomingStory | null, childStories: GroomingStory[]): Promise<AIAnalysisResult> {
+async function analyzeStory(llm: LlmClient, story: GroomingStory, parentStory: GroomingStory | null, childStories: GroomingStory[]): Promise<AIAnalysisResult> {
   // Prepare the story data for analysis
   const storyData = {
     id: story.id,
@@ -168,7 +108,7 @@ async function analyzeStory(story: GroomingStory, parentStory: GroomingStory | n
     })),
   };
 
-  // Prepare the prompt for OpenAI
+  // Prepare the prompt
   const prompt = `
     Analyze the following user story and provide feedback to improve it. Consider the following aspects:
     
@@ -206,30 +146,21 @@ async function analyzeStory(story: GroomingStory, parentStory: GroomingStory | n
   `;
 
   try {
-    // Call OpenAI API
-    const response = await openai.createChatCompletion({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: 'You are an AI assistant that analyzes user stories and provides feedback to improve them.' },
-        { role: 'user', content: prompt }
-      ],
+    // Call the configured LLM
+    const result = await llm.structured([
+      { role: 'system', content: 'You are an AI assistant that analyzes user stories and provides feedback to improve them.' },
+      { role: 'user', content: prompt }
+    ], AnalysisResultSchema, {
       temperature: 0.3,
-      max_tokens: 2000,
+      maxTokens: 2000,
     });
 
-    // Parse the response
-    const content = response.data.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content in OpenAI response');
-    }
-
-    // Extract the JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in OpenAI response');
+    if (!result.success) {
+      throw new Error(`AI analysis did not match the expected format: ${result.issues.join('; ')}`);
     }
 
-    const analysisResult = JSON.parse(jsonMatch[0]) as AIAnalysisResult;
+    // IDs are added below
+    const analysisResult = result.data as AIAnalysisResult;
 
     // Add IDs to each item
     analysisResult.key_points = analysisResult.key_points.map(point => ({
@@ -292,6 +223,10 @@ async function saveAnalysis(storyId: string, analysis: AIAnalysisResult): Promis
 
 // Main handler
 serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
   try {
     // Parse request
     const { story_id } = await req.json() as AnalyzeStoryRequest;
@@ -299,7 +234,7 @@ serve(async (req) => {
     if (!story_id) {
       return new Response(
         JSON.stringify({ error: 'story_id is required' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
@@ -308,27 +243,29 @@ serve(async (req) => {
     const parentStory = await getParentStory(story.parent_story_id);
     const childStories = await getChildStories(story_id);
 
-    // Analyze story
-    const analysis = await analyzeStory(story, parentStory, childStories);
+    // Analyze story with the provider and model configured for its workspace
+    const llm = await getLlmClient(supabase, 'analyze-story', { workspaceId: story.workspace_id });
+    const analysis = await analyzeStory(llm, story, parentStory, childStories);
 
     // Save analysis to database
     const analysisId = await saveAnalysis(story_id, analysis);
 
     // Return analysis
+    const response: AnalyzeStoryResponse = {
+      id: analysisId,
+      story_id,
+      analysis_type: 'story',
+      ...analysis,
+    };
     return new Response(
-      JSON.stringify({
-        id: analysisId,
-        story_id,
-        analysis_type: 'story',
-        ...analysis,
-      }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
+      JSON.stringify(response),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error processing request:', error);
     return new Response(
       JSON.stringify({ error: error.message }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
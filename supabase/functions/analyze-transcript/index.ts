@@ -1,110 +1,201 @@
 // Supabase Edge Function for analyzing grooming session transcripts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
-import { Configuration, OpenAIApi } from 'https://esm.sh/openai@3.1.0';
+import { getLlmClient, LlmClient } from '../_shared/llm.ts';
+import { getConfigValue } from '../_shared/config.ts';
+import { TranscriptAnalysis, TranscriptAnalysisSchema, TranscriptMergeSchema } from '../_shared/aiSchemas.ts';
+import {
+  AnalyzeTranscriptRequest,
+  AnalyzeTranscriptResponse,
+  StoryDiscussion,
+  TranscriptAnalysisProgress,
+  TranscriptAnalysisResult,
+  TranscriptSegment,
+  TranscriptSpeaker
+} from '../_shared/contracts.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { streamResponse } from '../_shared/stream.ts';
+import { textSimilarity } from '../_shared/textSimilarity.ts';
 
-interface AnalyzeTranscriptRequest {
-  session_id: string;
-  transcript: string;
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
 }
 
-interface KeyPoint {
-  id: string;
-  text: string;
-  confidence: number;
-  source_text?: string;
-}
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-interface ActionItem {
-  id: string;
-  text: string;
-  assignee?: string;
-  due_date?: string;
-  status: 'open' | 'in_progress' | 'completed';
-  priority: 'low' | 'medium' | 'high';
+// Transcripts longer than this many characters are analyzed in parts (transcript_chunk_chars)
+const DEFAULT_CHUNK_CHARS = 12000;
+// Neighbouring parts share this many characters, so nothing said across a boundary is lost
+const CHUNK_OVERLAP_CHARS = 1000;
+// Items of different parts this similar are taken to be the same before the merge pass
+const DUPLICATE_SIMILARITY = 0.85;
+// Characters of lists sent to one merge call, so the merged reply fits in its output tokens
+const MERGE_INPUT_CHARS = 12000;
+// Model calls made at the same time; parts and merges of a round do not depend on each other
+const MODEL_CONCURRENCY = 3;
+// Supabase stops an edge function after 150 seconds of wall clock; no model call is started after this
+const ANALYSIS_DEADLINE_MS = 110_000;
+
+// Generate a UUID
+function generateUUID(): string {
+  return crypto.randomUUID();
 }
 
-interface Decision {
-  id: string;
-  text: string;
-  rationale?: string;
-  made_by?: string;
-  made_at?: string;
+interface SessionStoryRef {
+  story_id: string;
+  title: string;
 }
 
-interface Risk {
-  id: string;
-  text: string;
-  impact: 'low' | 'medium' | 'high';
-  likelihood: 'low' | 'medium' | 'high';
-  mitigation_strategy?: string;
+// Format seconds from the start of the meeting as [h:]mm:ss
+function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
 }
 
-interface Suggestion {
-  id: string;
-  text: string;
-  category: 'improvement' | 'clarification' | 'alternative' | 'warning';
-  confidence: number;
+// Number the segments so the model can refer to them
+function formatSegments(segments: TranscriptSegment[]): string[] {
+  return segments.map((segment, index) => {
+    const time = segment.start_seconds !== null ? ` ${formatTimestamp(segment.start_seconds)}` : '';
+    const speaker = segment.speaker ? `${segment.speaker}: ` : '';
+    return `[#${index}${time}] ${speaker}${segment.text}`;
+  });
 }
 
-interface AIAnalysisResult {
-  key_points: KeyPoint[];
-  action_items: ActionItem[];
-  decisions: Decision[];
-  risks: Risk[];
-  suggestions: Suggestion[];
-  sentiment_score: number;
+// Lines of a plain transcript, with lines longer than a part cut up
+function plainLines(transcript: string, chunkChars: number): string[] {
+  return transcript
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .flatMap(line => {
+      const pieces: string[] = [];
+      for (let start = 0; start < line.length; start += chunkChars) {
+        pieces.push(line.slice(start, start + chunkChars));
+      }
+      return pieces;
+    });
 }
 
-// Initialize OpenAI
-const openAiKey = Deno.env.get('OPENAI_API_KEY');
-if (!openAiKey) {
-  throw new Error('OPENAI_API_KEY is required');
+// Split lines into parts of at most chunkChars characters that overlap by about overlapChars
+function chunkLines(lines: string[], chunkChars: number, overlapChars: number): string[][] {
+  const chunks: string[][] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    let end = start;
+    let size = 0;
+    while (end < lines.length && (end === start || size + lines[end].length + 1 <= chunkChars)) {
+      size += lines[end].length + 1;
+      end++;
+    }
+    chunks.push(lines.slice(start, end));
+    if (end >= lines.length) break;
+
+    // Start the next part with the last lines of this one
+    let next = end;
+    let overlap = 0;
+    while (next - 1 > start && overlap + lines[next - 1].length + 1 <= overlapChars) {
+      next--;
+      overlap += lines[next].length + 1;
+    }
+    start = next;
+  }
+
+  return chunks;
 }
 
-const configuration = new Configuration({
-  apiKey: openAiKey,
-});
-const openai = new OpenAIApi(configuration);
+// The stories on the session's agenda
+async function getSessionStories(sessionId: string): Promise<SessionStoryRef[]> {
+  const { data, error } = await supabase
+    .from('session_stories')
+    .select('story_id, story:grooming_stories(title)')
+    .eq('session_id', sessionId);
 
-// Initialize Supabase client
-const supabaseUrl = Deno.env.get('SUPABASE_URL');
-const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-if (!supabaseUrl || !supabaseServiceKey) {
-  throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+  if (error) {
+    throw new Error(`Failed to get session stories: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({ story_id: row.story_id, title: row.story?.title || 'Untitled story' }));
 }
 
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+// Estimate how long a story was discussed from the timestamps of its segment ranges
+function discussionMinutes(ranges: [number, number][], segments: TranscriptSegment[]): number | null {
+  const sorted = ranges
+    .map(([from, to]) => [Math.min(from, to), Math.min(Math.max(from, to), segments.length - 1)] as [number, number])
+    .filter(([from]) => from < segments.length)
+    .sort((a, b) => a[0] - b[0]);
+
+  // Overlapping ranges are counted once
+  const merged: [number, number][] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
 
-// Generate a UUID
-function generateUUID(): string {
-  return crypto.randomUUID();
+  let seconds = 0;
+  for (const [from, to] of merged) {
+    const start = segments[from].start_seconds;
+    const end = segments[to].end_seconds ?? segments[to + 1]?.start_seconds ?? segments[to].start_seconds;
+    if (start === null || end === null) return null;
+    seconds += Math.max(0, end - start);
+  }
+
+  return merged.length === 0 ? null : Math.max(1, Math.round(seconds / 60));
 }
 
-// Main function to analyze transcript
-async function analyzeTranscript(transcript: string): Promise<AIAnalysisResult> {
-  // Prepare the prompt for OpenAI
+// Analyze one part of a transcript
+async function analyzeChunk(
+  llm: LlmClient,
+  lines: string[],
+  hasSegments: boolean,
+  stories: SessionStoryRef[],
+  part: { index: number; total: number }
+): Promise<TranscriptAnalysis> {
+  const storyList = stories.length > 0
+    ? stories.map(story => `- ${story.story_id}: ${story.title}`).join('\n')
+    : '(none)';
+
+  // Prepare the prompt
   const prompt = `
-    Analyze the following transcript from a grooming session. Extract key information and organize it into the following categories:
+    Analyze the following ${part.total > 1 ? `part ${part.index + 1} of ${part.total} of a ` : ''}transcript from a grooming session. Extract key information and organize it into the following categories:
     
     1. Key Points: Important information discussed during the session
-    2. Action Items: Tasks that need to be completed, with assignees if mentioned
-    3. Decisions: Decisions made during the session
-    4. Risks: Potential risks or issues identified
-    5. Suggestions: Suggestions for improvement
+    2. Action Items: Tasks that need to be completed, with assignees if mentioned and the speaker who raised them
+    3. Decisions: Decisions made during the session, with the speaker who made them
+    4. Questions: Questions that were raised but not answered, with the speaker who asked them
+    5. Risks: Potential risks or issues identified
+    6. Suggestions: Suggestions for improvement
     
     Also provide a sentiment score from 0 to 1, where 0 is very negative and 1 is very positive.
     
+    Use speaker names exactly as they appear in the transcript. Link key points, action items, decisions and questions
+    to the stories they are about with story_ids, using the IDs from the list of session stories below.
+    ${hasSegments
+      ? 'Each transcript line starts with its segment number. In story_discussions, list for each story the ranges of segment numbers (first and last, inclusive) in which it was discussed.'
+      : 'Leave story_discussions empty.'}
+    
     Format your response as a JSON object with the following structure:
     {
       "key_points": [
-        { "text": "...", "confidence": 0.9, "source_text": "..." }
+        { "text": "...", "confidence": 0.9, "source_text": "...", "story_ids": ["..."] }
       ],
       "action_items": [
-        { "text": "...", "assignee": "...", "status": "open", "priority": "high" }
+        { "text": "...", "assignee": "...", "raised_by": "...", "status": "open", "priority": "high", "story_ids": ["..."] }
       ],
       "decisions": [
-        { "text": "...", "rationale": "..." }
+        { "text": "...", "rationale": "...", "made_by": "...", "story_ids": ["..."] }
+      ],
+      "questions": [
+        { "text": "...", "asked_by": "...", "story_ids": ["..."] }
       ],
       "risks": [
         { "text": "...", "impact": "high", "likelihood": "medium", "mitigation_strategy": "..." }
@@ -112,74 +203,256 @@ async function analyzeTranscript(transcript: string): Promise<AIAnalysisResult>
       "suggestions": [
         { "text": "...", "category": "improvement", "confidence": 0.8 }
       ],
+      "story_discussions": [
+        { "story_id": "...", "segment_ranges": [[12, 30]] }
+      ],
       "sentiment_score": 0.7
     }
     
+    Session stories:
+    ${storyList}
+    
     Transcript:
-    ${transcript}
+    ${lines.join('\n')}
   `;
 
   try {
-    // Call OpenAI API
-    const response = await openai.createChatCompletion({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: 'You are an AI assistant that analyzes grooming session transcripts and extracts structured information.' },
-        { role: 'user', content: prompt }
-      ],
+    // Call the configured LLM
+    const result = await llm.structured([
+      { role: 'system', content: 'You are an AI assistant that analyzes grooming session transcripts and extracts structured information.' },
+      { role: 'user', content: prompt }
+    ], TranscriptAnalysisSchema, {
       temperature: 0.3,
-      max_tokens: 2000,
+      maxTokens: 4000,
     });
 
-    // Parse the response
-    const content = response.data.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content in OpenAI response');
+    if (!result.success) {
+      throw new Error(`AI analysis did not match the expected format: ${result.issues.join('; ')}`);
     }
 
-    // Extract the JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in OpenAI response');
+    return result.data;
+  } catch (error) {
+    console.error('Error analyzing transcript:', error);
+    throw error;
+  }
+}
+
+// Keep the first of items whose texts are nearly the same, with the story links of all of them
+function dedupeItems<T extends { text: string; story_ids?: string[] }>(items: T[]): T[] {
+  const kept: T[] = [];
+  for (const item of items) {
+    const duplicate = kept.find(other => textSimilarity(other.text, item.text) >= DUPLICATE_SIMILARITY);
+    if (!duplicate) {
+      kept.push({ ...item });
+    } else if (item.story_ids?.length) {
+      duplicate.story_ids = Array.from(new Set([...(duplicate.story_ids || []), ...item.story_ids]));
     }
+  }
+  return kept;
+}
 
-    const analysisResult = JSON.parse(jsonMatch[0]) as AIAnalysisResult;
+// The item lists of an analysis, which the merge pass works on
+type AnalysisLists = Omit<TranscriptAnalysis, 'sentiment_score' | 'story_discussions'>;
 
-    // Add IDs to each item
-    analysisResult.key_points = analysisResult.key_points.map(point => ({
-      ...point,
-      id: generateUUID(),
-    }));
+function listsOf(analysis: AnalysisLists): AnalysisLists {
+  const { key_points, action_items, decisions, questions, risks, suggestions } = analysis;
+  return { key_points, action_items, decisions, questions, risks, suggestions };
+}
 
-    analysisResult.action_items = analysisResult.action_items.map(item => ({
+// The lists of consecutive parts one after the other, without the obvious repeats of the overlaps
+function combineLists(lists: AnalysisLists[]): AnalysisLists {
+  return {
+    key_points: dedupeItems(lists.flatMap(list => list.key_points)),
+    action_items: dedupeItems(lists.flatMap(list => list.action_items)),
+    decisions: dedupeItems(lists.flatMap(list => list.decisions)),
+    questions: dedupeItems(lists.flatMap(list => list.questions)),
+    risks: dedupeItems(lists.flatMap(list => list.risks)),
+    suggestions: dedupeItems(lists.flatMap(list => list.suggestions)),
+  };
+}
+
+// Group neighbouring lists whose JSON together stays within maxChars; a larger list is a group of its own
+function groupBySize(lists: AnalysisLists[], maxChars: number): AnalysisLists[][] {
+  const groups: AnalysisLists[][] = [];
+  let size = 0;
+  for (const list of lists) {
+    const listSize = JSON.stringify(list).length;
+    if (groups.length === 0 || size + listSize > maxChars) {
+      groups.push([list]);
+      size = listSize;
+    } else {
+      groups[groups.length - 1].push(list);
+      size += listSize;
+    }
+  }
+  return groups;
+}
+
+// Run fn on every item, at most limit at a time, keeping the order of the results
+async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function checkDeadline(deadline: number, step: string): void {
+  if (Date.now() > deadline) {
+    throw new Error(`The analysis ran out of time before ${step}; raise transcript_chunk_chars to analyze fewer, larger parts`);
+  }
+}
+
+// Ask the model to merge the items that describe the same thing; keeps the lists as they are if its reply is invalid
+async function mergeLists(llm: LlmClient, lists: AnalysisLists): Promise<AnalysisLists> {
+  const result = await llm.structured([
+    { role: 'system', content: 'You are an AI assistant that merges the analyses of consecutive, overlapping parts of one grooming session transcript.' },
+    {
+      role: 'user',
+      content: `
+    The JSON below holds the key points, action items, decisions, questions, risks and suggestions found in consecutive parts of a transcript.
+    Merge items that describe the same thing into one item, keeping the most complete wording, and combine their story_ids.
+    Keep assignee, raised_by, made_by and asked_by as they are. Do not add new items. Reply with the merged lists in the same JSON format.
+
+    ${JSON.stringify(lists)}
+  `,
+    },
+  ], TranscriptMergeSchema, {
+    temperature: 0,
+    maxTokens: 4000,
+  });
+
+  if (!result.success) {
+    // The de-duplicated lists are still a usable answer
+    console.error(`Merge pass did not match the expected format, keeping the de-duplicated lists: ${result.issues.join('; ')}`);
+    return lists;
+  }
+  return result.data;
+}
+
+/**
+ * Reduce pass: merge the analyses of all parts into one.
+ * Neighbouring parts are merged in rounds, each call getting at most MERGE_INPUT_CHARS of lists,
+ * until one analysis is left.
+ */
+async function mergeChunkAnalyses(
+  llm: LlmClient,
+  analyses: TranscriptAnalysis[],
+  chunkSizes: number[],
+  deadline: number
+): Promise<TranscriptAnalysis> {
+  const totalSize = chunkSizes.reduce((sum, size) => sum + size, 0);
+  const sentimentScore = analyses.reduce((sum, analysis, index) => sum + analysis.sentiment_score * chunkSizes[index], 0) / totalSize;
+
+  // Where a story was discussed is the union of where each part found it
+  const rangesByStory = new Map<string, [number, number][]>();
+  analyses.flatMap(analysis => analysis.story_discussions).forEach(discussion => {
+    rangesByStory.set(discussion.story_id, [...(rangesByStory.get(discussion.story_id) || []), ...discussion.segment_ranges]);
+  });
+  const storyDiscussions = Array.from(rangesByStory.entries()).map(([story_id, segment_ranges]) => ({ story_id, segment_ranges }));
+
+  let lists = analyses.map(listsOf);
+  while (lists.length > 1) {
+    const groups = groupBySize(lists, MERGE_INPUT_CHARS);
+    if (groups.length === lists.length) {
+      // No two neighbours fit in one call; the de-duplicated lists are the best answer left
+      console.error(`Lists of ${lists.length} parts are too long to merge with the model, keeping the de-duplicated lists`);
+      lists = [combineLists(lists)];
+      break;
+    }
+
+    checkDeadline(deadline, 'merging the parts');
+    lists = await mapConcurrently(groups, MODEL_CONCURRENCY, async group =>
+      group.length === 1 ? group[0] : mergeLists(llm, combineLists(group))
+    );
+  }
+
+  return {
+    ...lists[0],
+    sentiment_score: sentimentScore,
+    story_discussions: storyDiscussions,
+  };
+}
+
+// Add IDs, map speakers to users and drop references to stories that are not on the session
+function toAnalysisResult(
+  analysis: TranscriptAnalysis,
+  speakers: TranscriptSpeaker[],
+  stories: SessionStoryRef[]
+): TranscriptAnalysisResult {
+  const userIds = new Map(
+    speakers.filter(speaker => speaker.user_id).map(speaker => [speaker.name.trim().toLowerCase(), speaker.user_id as string])
+  );
+  const userIdOf = (name?: string) => (name ? userIds.get(name.trim().toLowerCase()) : undefined);
+  const storyIds = new Set(stories.map(story => story.story_id));
+  const knownStories = (ids?: string[]) => ids?.filter(id => storyIds.has(id));
+
+  return {
+    key_points: analysis.key_points.map(point => ({ ...point, id: generateUUID(), story_ids: knownStories(point.story_ids) })),
+    action_items: analysis.action_items.map(item => ({
       ...item,
       id: generateUUID(),
-    }));
-
-    analysisResult.decisions = analysisResult.decisions.map(decision => ({
+      assignee_user_id: userIdOf(item.assignee),
+      story_ids: knownStories(item.story_ids),
+    })),
+    decisions: analysis.decisions.map(decision => ({
       ...decision,
       id: generateUUID(),
-    }));
-
-    analysisResult.risks = analysisResult.risks.map(risk => ({
-      ...risk,
+      made_by_user_id: userIdOf(decision.made_by),
+      story_ids: knownStories(decision.story_ids),
+    })),
+    questions: analysis.questions.map(question => ({
+      ...question,
       id: generateUUID(),
-    }));
+      story_ids: knownStories(question.story_ids),
+    })),
+    risks: analysis.risks.map(risk => ({ ...risk, id: generateUUID() })),
+    suggestions: analysis.suggestions.map(suggestion => ({ ...suggestion, id: generateUUID() })),
+    sentiment_score: analysis.sentiment_score,
+  };
+}
 
-    analysisResult.suggestions = analysisResult.suggestions.map(suggestion => ({
-      ...suggestion,
-      id: generateUUID(),
-    }));
+// Record which session participant each mapped speaker is
+async function saveSpeakers(sessionId: string, speakers: TranscriptSpeaker[]): Promise<void> {
+  const mapped = speakers.filter(speaker => speaker.user_id);
+  if (mapped.length === 0) return;
 
-    return analysisResult;
-  } catch (error) {
-    console.error('Error analyzing transcript:', error);
-    throw error;
+  const { error } = await supabase
+    .from('session_participants')
+    .upsert(
+      mapped.map(speaker => ({ session_id: sessionId, user_id: speaker.user_id, transcript_speaker: speaker.name })),
+      { onConflict: 'session_id,user_id' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save transcript speakers: ${error.message}`);
+  }
+}
+
+// Store the estimated discussion time of each story
+async function saveDiscussionDurations(sessionId: string, discussions: StoryDiscussion[]): Promise<void> {
+  for (const discussion of discussions) {
+    if (discussion.discussion_duration_minutes === null) continue;
+
+    const { error } = await supabase
+      .from('session_stories')
+      .update({ discussion_duration_minutes: discussion.discussion_duration_minutes })
+      .eq('session_id', sessionId)
+      .eq('story_id', discussion.story_id);
+
+    if (error) {
+      console.error(`Error saving discussion duration of story ${discussion.story_id}:`, error);
+    }
   }
 }
 
 // Save analysis to database
-async function saveAnalysis(sessionId: string, analysis: AIAnalysisResult): Promise<string> {
+async function saveAnalysis(sessionId: string, analysis: TranscriptAnalysisResult, storyDiscussions: StoryDiscussion[]): Promise<string> {
   const { data, error } = await supabase
     .from('ai_analyses')
     .insert([{
@@ -191,7 +464,7 @@ async function saveAnalysis(sessionId: string, analysis: AIAnalysisResult): Prom
       risks: analysis.risks,
       suggestions: analysis.suggestions,
       sentiment_score: analysis.sentiment_score,
-      raw_analysis: analysis,
+      raw_analysis: { ...analysis, story_discussions: storyDiscussions },
     }])
     .select('id')
     .single();
@@ -204,54 +477,126 @@ async function saveAnalysis(sessionId: string, analysis: AIAnalysisResult): Prom
   return data.id;
 }
 
+// Analyze a transcript part by part, merge the results and store them
+async function runAnalysis(
+  request: AnalyzeTranscriptRequest,
+  report: (progress: TranscriptAnalysisProgress) => void
+): Promise<AnalyzeTranscriptResponse> {
+  const { session_id, transcript, format, segments, speakers = [] } = request;
+  const deadline = Date.now() + ANALYSIS_DEADLINE_MS;
+  const timedSegments = segments && segments.length > 0 ? segments : null;
+
+  // Use the provider, model and part size configured for the session's workspace
+  const { data: session } = await supabase
+    .from('grooming_sessions')
+    .select('workspace_id')
+    .eq('id', session_id)
+    .maybeSingle();
+  const llm = await getLlmClient(supabase, 'analyze-transcript', { workspaceId: session?.workspace_id });
+  const chunkChars = Number(await getConfigValue(supabase, 'transcript_chunk_chars', session?.workspace_id)) || DEFAULT_CHUNK_CHARS;
+
+  const stories = await getSessionStories(session_id);
+  const chunks = chunkLines(
+    timedSegments ? formatSegments(timedSegments) : plainLines(transcript, chunkChars),
+    chunkChars,
+    Math.min(CHUNK_OVERLAP_CHARS, Math.floor(chunkChars / 4))
+  );
+
+  // Map: analyze every part against the stories on the session, a few at a time
+  let analyzed = 0;
+  report({ stage: 'map', completed: 0, total: chunks.length });
+  const chunkAnalyses = await mapConcurrently(chunks, MODEL_CONCURRENCY, async (lines, index) => {
+    checkDeadline(deadline, `analyzing part ${index + 1} of ${chunks.length}`);
+    const chunkAnalysis = await analyzeChunk(llm, lines, !!timedSegments, stories, { index, total: chunks.length });
+    report({ stage: 'map', completed: ++analyzed, total: chunks.length });
+    return chunkAnalysis;
+  });
+
+  // Reduce: merge and de-duplicate the results of the parts
+  let rawAnalysis = chunkAnalyses[0];
+  if (chunks.length > 1) {
+    report({ stage: 'reduce', completed: chunks.length, total: chunks.length });
+    rawAnalysis = await mergeChunkAnalyses(llm, chunkAnalyses, chunks.map(lines => lines.join('\n').length), deadline);
+  }
+  const analysis = toAnalysisResult(rawAnalysis, speakers, stories);
+
+  const knownStoryIds = new Set(stories.map(story => story.story_id));
+  const storyDiscussions: StoryDiscussion[] = timedSegments
+    ? rawAnalysis.story_discussions
+      .filter(discussion => knownStoryIds.has(discussion.story_id))
+      .map(discussion => ({
+        story_id: discussion.story_id,
+        segment_ranges: discussion.segment_ranges,
+        discussion_duration_minutes: discussionMinutes(discussion.segment_ranges, timedSegments),
+      }))
+    : [];
+
+  // Save analysis to database
+  report({ stage: 'saving', completed: chunks.length, total: chunks.length });
+  const analysisId = await saveAnalysis(session_id, analysis, storyDiscussions);
+  await saveSpeakers(session_id, speakers);
+  await saveDiscussionDurations(session_id, storyDiscussions);
+
+  // Update session with transcript
+  const { error: updateError } = await supabase
+    .from('grooming_sessions')
+    .update({
+      transcript,
+      transcript_format: format || 'plain',
+      transcript_segments: timedSegments,
+      transcript_uploaded_at: new Date().toISOString(),
+    })
+    .eq('id', session_id);
+
+  if (updateError) {
+    console.error('Error updating session:', updateError);
+    throw updateError;
+  }
+
+  return {
+    id: analysisId,
+    session_id,
+    analysis_type: 'transcript',
+    ...analysis,
+    story_discussions: storyDiscussions,
+  };
+}
+
 // Main handler
 serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
   try {
     // Parse request
-    const { session_id, transcript } = await req.json() as AnalyzeTranscriptRequest;
+    const request = await req.json() as AnalyzeTranscriptRequest;
 
-    if (!session_id || !transcript) {
+    if (!request.session_id || !request.transcript) {
       return new Response(
         JSON.stringify({ error: 'session_id and transcript are required' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Analyze transcript
-    const analysis = await analyzeTranscript(transcript);
-
-    // Save analysis to database
-    const analysisId = await saveAnalysis(session_id, analysis);
-
-    // Update session with transcript
-    const { error: updateError } = await supabase
-      .from('grooming_sessions')
-      .update({
-        transcript,
-        transcript_uploaded_at: new Date().toISOString(),
-      })
-      .eq('id', session_id);
-
-    if (updateError) {
-      console.error('Error updating session:', updateError);
-      throw updateError;
+    // Report progress while the analysis runs when the caller asked for a stream
+    if (request.stream) {
+      return streamResponse<TranscriptAnalysisProgress, AnalyzeTranscriptResponse>(
+        report => runAnalysis(request, report),
+        corsHeaders
+      );
     }
 
-    // Return analysis
+    const response = await runAnalysis(request, () => {});
     return new Response(
-      JSON.stringify({
-        id: analysisId,
-        session_id,
-        analysis_type: 'transcript',
-        ...analysis,
-      }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
+      JSON.stringify(response),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error processing request:', error);
     return new Response(
       JSON.stringify({ error: error.message }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
@@ -0,0 +1,314 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.21.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { callerHasRole, callerIsWorkspaceMember, getCaller } from '../_shared/auth.ts';
+import { RankChangesetAction, RankChangesetRequest } from '../_shared/contracts.ts';
+import {
+  AdoRankConfig,
+  buildRankPatch,
+  getWorkspaceAdoConfig,
+  patchWorkItemRank
+} from '../_shared/adoBacklogRank.ts';
+
+/**
+ * Applies or rolls back an approved ADO rank changeset created by sync-productboard-rankings.
+ * Every write is recorded as a rank_update operation in pb_ado_sync_logs; a rollback restores
+ * the rank values recorded when the changeset was computed.
+ */
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+// Changesets that may (still) be applied; failed items of a partial apply are retried
+const APPLICABLE_STATUSES = ['pending', 'partially_applied', 'failed'];
+const ROLLBACK_STATUSES = ['applied', 'partially_applied'];
+
+interface ChangesetItem {
+  id: string;
+  productboard_id: string;
+  ado_work_item_id: number;
+  rank_field: string;
+  current_value: number | null;
+  proposed_value: number;
+  approved: boolean;
+  status: string;
+  sync_log_id: string | null;
+}
+
+/**
+ * Write a rank value to ADO and log it as a rank_update operation
+ * @returns The sync log ID and the error, if the write failed
+ */
+async function writeRank(
+  config: AdoRankConfig,
+  changeset: Record<string, any>,
+  item: ChangesetItem,
+  previousValue: number | null,
+  value: number | null,
+  rollbackOfLogId: string | null = null
+): Promise<{ logId: string | null; error: string | null }> {
+  const patch = buildRankPatch(item.rank_field, value);
+  let error: string | null = null;
+  let response: Record<string, any> = {};
+
+  try {
+    const result = await patchWorkItemRank(config, item.ado_work_item_id, patch);
+    response = result.ok ? { id: result.body.id, rev: result.body.rev } : result.body;
+    if (!result.ok) {
+      error = `ADO API Error ${result.status}: ${result.body?.message || 'Unknown error'}`;
+    }
+  } catch (fetchError) {
+    error = `Network error: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`;
+  }
+
+  const { data: log, error: logError } = await supabase
+    .from('pb_ado_sync_logs')
+    .insert({
+      workspace_id: changeset.workspace_id,
+      operation_type: 'rank_update',
+      status: error ? 'failed' : 'completed',
+      error_message: error,
+      request_payload: {
+        changeset_id: changeset.id,
+        changeset_item_id: item.id,
+        productboard_id: item.productboard_id,
+        ado_work_item_id: item.ado_work_item_id,
+        rank_field: item.rank_field,
+        previous_value: previousValue,
+        rank: value,
+        patch,
+        rollback_of_log_id: rollbackOfLogId,
+      },
+      response_payload: response,
+      source_system: 'productboard',
+      target_system: 'ado',
+      trigger: 'manual',
+      sync_run_id: changeset.sync_history_id,
+    })
+    .select('id')
+    .single();
+
+  if (logError) {
+    console.error(`Failed to log rank_update for work item ${item.ado_work_item_id}:`, logError);
+  }
+
+  return { logId: log?.id || null, error };
+}
+
+/**
+ * Apply the approved items of a changeset
+ */
+async function applyChangeset(config: AdoRankConfig, changeset: Record<string, any>, items: ChangesetItem[]) {
+  let applied = 0;
+  let failed = 0;
+  const appliedStoryIds: string[] = [];
+
+  for (const item of items) {
+    if (!['pending', 'failed'].includes(item.status)) continue;
+
+    if (!item.approved) {
+      await supabase.from('ado_rank_changeset_items').update({ status: 'skipped' }).eq('id', item.id);
+      continue;
+    }
+
+    console.log(`Setting ${item.rank_field} of work item ${item.ado_work_item_id} to ${item.proposed_value}`);
+    const { logId, error } = await writeRank(config, changeset, item, item.current_value, item.proposed_value);
+
+    await supabase
+      .from('ado_rank_changeset_items')
+      .update({ status: error ? 'failed' : 'applied', sync_log_id: logId, error_message: error })
+      .eq('id', item.id);
+
+    if (error) {
+      failed++;
+    } else {
+      applied++;
+      appliedStoryIds.push(item.productboard_id);
+    }
+  }
+
+  // Mark the stored rankings as synced to ADO
+  if (appliedStoryIds.length > 0) {
+    await supabase
+      .from('productboard_item_rankings')
+      .update({ is_synced_to_ado: true, synced_to_ado_at: new Date().toISOString() })
+      .eq('workspace_id', changeset.workspace_id)
+      .eq('board_id', changeset.board_id)
+      .in('story_id', appliedStoryIds);
+  }
+
+  const totalApplied = (changeset.applied_count || 0) + applied;
+  const status = failed === 0 ? 'applied' : totalApplied > 0 ? 'partially_applied' : 'failed';
+
+  await supabase
+    .from('ado_rank_changesets')
+    .update({
+      status,
+      applied_count: totalApplied,
+      failed_count: failed,
+      error_message: failed > 0 ? `${failed} work items could not be updated` : null,
+      applied_at: new Date().toISOString(),
+    })
+    .eq('id', changeset.id);
+
+  return { status, applied, failed };
+}
+
+/**
+ * Restore the original rank values of every applied item of a changeset
+ */
+async function rollbackChangeset(config: AdoRankConfig, changeset: Record<string, any>, items: ChangesetItem[]) {
+  let rolledBack = 0;
+  let failed = 0;
+
+  for (const item of items) {
+    if (item.status !== 'applied') continue;
+
+    console.log(`Restoring ${item.rank_field} of work item ${item.ado_work_item_id} to ${item.current_value}`);
+    const { logId, error } = await writeRank(config, changeset, item, item.proposed_value, item.current_value, item.sync_log_id);
+
+    await supabase
+      .from('ado_rank_changeset_items')
+      .update({ status: error ? 'applied' : 'rolled_back', rollback_log_id: logId, error_message: error })
+      .eq('id', item.id);
+
+    if (error) {
+      failed++;
+    } else {
+      rolledBack++;
+    }
+  }
+
+  // Only a complete rollback closes the changeset; otherwise it can be rolled back again
+  const status = failed === 0 ? 'rolled_back' : 'partially_applied';
+
+  await supabase
+    .from('ado_rank_changesets')
+    .update({
+      status,
+      applied_count: failed,
+      error_message: failed > 0 ? `${failed} work items could not be restored` : null,
+      rolled_back_at: failed === 0 ? new Date().toISOString() : null,
+    })
+    .eq('id', changeset.id);
+
+  return { status, rolledBack, failed };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    // Only product managers and admins approve rank changes
+    const caller = await getCaller(req, supabase);
+    if (!callerHasRole(caller, ['admin', 'product_manager'])) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins and product managers can apply rank changesets' }),
+        { status: 403, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const { changeset_id, action = 'apply' } = await req.json() as Partial<RankChangesetRequest>;
+
+    if (!changeset_id || !['apply', 'rollback'].includes(action)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'changeset_id and an action of apply or rollback are required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    // Reviewers only act on the changesets of their own workspaces
+    const { data: target, error: targetError } = await supabase
+      .from('ado_rank_changesets')
+      .select('workspace_id')
+      .eq('id', changeset_id)
+      .maybeSingle();
+
+    if (targetError) {
+      throw new Error(`Failed to get changeset: ${targetError.message}`);
+    }
+
+    if (!target) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Changeset ${changeset_id} not found` }),
+        { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    if (!(await callerIsWorkspaceMember(caller, target.workspace_id, supabase))) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Not a member of workspace ${target.workspace_id}` }),
+        { status: 403, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    // Claim the changeset so two reviewers can't apply it at the same time
+    const { data: changeset, error: claimError } = await supabase
+      .from('ado_rank_changesets')
+      .update({ status: 'applying', approved_at: action === 'apply' ? new Date().toISOString() : undefined })
+      .eq('id', changeset_id)
+      .in('status', action === 'apply' ? APPLICABLE_STATUSES : ROLLBACK_STATUSES)
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      throw new Error(`Failed to claim changeset: ${claimError.message}`);
+    }
+
+    if (!changeset) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Changeset ${changeset_id} can't be ${action === 'apply' ? 'applied' : 'rolled back'} in its current state` }),
+        { status: 409, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    console.log(`Running ${action} for rank changeset ${changeset_id}`);
+
+    try {
+      const config = await getWorkspaceAdoConfig(supabase, changeset.workspace_id);
+
+      const { data: items, error: itemsError } = await supabase
+        .from('ado_rank_changeset_items')
+        .select('*')
+        .eq('changeset_id', changeset_id)
+        .order('team_backlog')
+        .order('proposed_position');
+
+      if (itemsError) {
+        throw new Error(`Failed to get changeset items: ${itemsError.message}`);
+      }
+
+      const result = action === 'apply'
+        ? await applyChangeset(config, changeset, items as ChangesetItem[])
+        : await rollbackChangeset(config, changeset, items as ChangesetItem[]);
+
+      console.log(`Rank changeset ${changeset_id} ${action} finished:`, result);
+
+      return new Response(
+        JSON.stringify({ success: result.failed === 0, ...result }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    } catch (error) {
+      // Put the changeset back in a state the action can be retried from
+      await supabase
+        .from('ado_rank_changesets')
+        .update({
+          status: changeset.applied_count === 0
+            ? 'pending'
+            : changeset.applied_count < changeset.change_count ? 'partially_applied' : 'applied',
+          error_message: error instanceof Error ? error.message : String(error),
+        })
+        .eq('id', changeset_id);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error processing rank changeset:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+});
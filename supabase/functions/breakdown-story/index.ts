@@ -1,5 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
-import { Configuration, OpenAIApi } from 'npm:openai@4.28.0';
+import { getLlmClient } from '../_shared/llm.ts';
+import { FeatureBreakdownSchema, StoryEnhancementSchema } from '../_shared/aiSchemas.ts';
+import { StoryBreakdownRequest } from '../_shared/contracts.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,15 +9,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-interface StoryBreakdownRequest {
-  workspaceId: string;
-  storyData: {
-    title: string;
-    description: string;
-    level: 'feature' | 'story';
-  };
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -27,21 +20,15 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_ANON_KEY') ?? ''
     );
 
-    const { workspaceId, storyData }: StoryBreakdownRequest = await req.json();
-
-    // Get workspace configuration
-    const { data: config } = await supabase
-      .from('configurations')
-      .select('openai_api_key')
-      .eq('workspace_id', workspaceId)
-      .single();
+    // The LLM client reads its API key from config_secrets, which needs the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    if (!config?.openai_api_key) {
-      throw new Error('OpenAI API key not configured');
-    }
+    const { workspaceId, storyData }: StoryBreakdownRequest = await req.json();
 
-    // Initialize OpenAI
-    const openai = new OpenAIApi(new Configuration({ apiKey: config.openai_api_key }));
+    const llm = await getLlmClient(supabaseAdmin, 'breakdown-story', { workspaceId });
 
     // Get historical story data for context
     const { data: historicalStories } = await supabase
@@ -50,55 +37,80 @@ Deno.serve(async (req) => {
       .eq('workspace_id', workspaceId)
       .limit(50);
 
-    // Analyze story with GPT-4
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: storyData.level === 'feature'
-            ? `Break down this feature into smaller, implementable stories. Consider:
-               1. User flows and interactions
-               2. Technical components
-               3. Data requirements
-               4. Testing scenarios
-               5. Dependencies and risks
-               
-               Format each story with:
-               - Clear title
-               - Detailed description
-               - Specific acceptance criteria
-               - Story point estimate
-               - Technical implementation notes`
-            : `Enhance this story with implementation details. Include:
-               1. Technical requirements
-               2. Dependencies
-               3. Potential risks
-               4. Testing scenarios
-               5. Story point estimate
-               
-               Structure the response with:
-               - Refined title and description
-               - Detailed acceptance criteria
-               - Technical notes
-               - Dependencies list
-               - Risk assessment`,
-        },
-        {
-          role: 'user',
-          content: JSON.stringify({
-            story: storyData,
-            historicalContext: historicalStories,
-          }),
-        },
-      ],
+    // Break down or enhance the story
+    const isFeature = storyData.level === 'feature';
+    const result = await llm.structured<Record<string, unknown>>([
+      {
+        role: 'system',
+        content: isFeature
+          ? `Break down this feature into smaller, implementable stories. Consider:
+             1. User flows and interactions
+             2. Technical components
+             3. Data requirements
+             4. Testing scenarios
+             5. Dependencies and risks
+             
+             Format each story with:
+             - Clear title
+             - Detailed description
+             - Specific acceptance criteria
+             - Story point estimate
+             - Technical implementation notes
+             
+             Return the stories as a JSON object:
+             {
+               "stories": [
+                 {
+                   "title": "...",
+                   "description": "...",
+                   "acceptance_criteria": ["..."],
+                   "story_points": 3,
+                   "technical_notes": "..."
+                 }
+               ]
+             }`
+          : `Enhance this story with implementation details. Include:
+             1. Technical requirements
+             2. Dependencies
+             3. Potential risks
+             4. Testing scenarios
+             5. Story point estimate
+             
+             Structure the response with:
+             - Refined title and description
+             - Detailed acceptance criteria
+             - Technical notes
+             - Dependencies list
+             - Risk assessment
+             
+             Return the result as a JSON object:
+             {
+               "title": "...",
+               "description": "...",
+               "acceptance_criteria": ["..."],
+               "technical_notes": "...",
+               "dependencies": ["..."],
+               "risks": ["..."],
+               "story_points": 3
+             }`,
+      },
+      {
+        role: 'user',
+        content: JSON.stringify({
+          story: storyData,
+          historicalContext: historicalStories,
+        }),
+      },
+    ], isFeature ? FeatureBreakdownSchema : StoryEnhancementSchema, {
       temperature: 0.7,
     });
 
-    const result = JSON.parse(completion.choices[0].message.content);
+    if (!result.success) {
+      throw new Error(`Invalid breakdown format from AI response: ${result.issues.join('; ')}`);
+    }
 
     return new Response(
-      JSON.stringify(result),
+      JSON.stringify(result.data),
       {
         headers: {
           'Content-Type': 'application/json',
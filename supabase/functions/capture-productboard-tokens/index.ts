@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
 import puppeteer from 'https://deno.land/x/puppeteer@16.2.0/mod.ts';
+import { setSecret } from '../_shared/secrets.ts';
 
 // Constants
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
@@ -370,33 +371,20 @@ serve(async (req) => {
       console.warn(`[Cookie Search] authData.cookies is missing, not an array, or empty. Type: ${typeof authData.cookies}, Is Array: ${Array.isArray(authData.cookies)}`); // More detailed warning
     }
 
-    // Also save the session token to system_config table for use by pb-link-updater
+    // Also store the session token as an encrypted secret for the UI automation functions
     if (sessionToken) {
       try {
-        const { error: configError } = await supabaseAdmin
-          .from('system_config')
-          .upsert(
-            {
-              key: 'pb_session_token',
-              value: sessionToken,
-              description: 'ProductBoard session token for UI automation',
-              updated_at: new Date().toISOString()
-            },
-            { onConflict: 'key' }
-          );
-
-        if (configError) {
-          console.error('Error updating system_config with sessionToken:', configError);
-          // Continue anyway, as the main token data was saved successfully
-        } else {
-          console.log('Successfully updated system_config with sessionToken');
-        }
+        await setSecret(supabaseAdmin, 'pb_session_token', sessionToken, {
+          description: 'ProductBoard session token for UI automation',
+          workspaceId: body.workspaceId,
+        });
+        console.log('Successfully stored pb_session_token secret');
       } catch (configUpdateError) {
-        console.error('Exception updating system_config with sessionToken:', configUpdateError);
+        console.error('Exception storing pb_session_token secret:', configUpdateError);
         // Continue anyway, as the main token data was saved successfully
       }
     } else {
-      console.warn('No sessionToken found to save to system_config');
+      console.warn('No sessionToken found to store as a secret');
     }
 
     // Return success response
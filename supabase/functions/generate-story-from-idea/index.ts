@@ -2,29 +2,11 @@ import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 // Use explicit import URL instead of relying on import map
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getLlmClient, LlmClient } from '../_shared/llm.ts';
+import { applyFieldDefaults, GeneratedStory, GeneratedStorySchema } from '../_shared/aiSchemas.ts';
+import { StoryFromIdeaRequest, StoryFromIdeaResponse } from '../_shared/contracts.ts';
 
-interface IdeaInput {
-  idea: string;
-  domain: string;
-  audience: string;
-  priority: string;
-  parentFeature?: string;  // Optional parent feature for context
-  component?: string;     // Optional component name for context
-}
-
-interface StoryOutput {
-  title: string;
-  description: string;
-  acceptance_criteria: string;
-  investment_category: string;
-  reach_score: number;
-  impact_score: number;
-  confidence_score: number;
-  effort_score: number;
-  timeframe: string;
-  tags: string[];
-  customer_need_description: string;
-}
+const STORY_FIELDS = Object.keys(GeneratedStorySchema.shape);
 
 /**
  * This function takes a simple idea and uses AI to generate a structured story
@@ -37,17 +19,22 @@ serve(async (req) => {
   }
 
   try {
-    const { idea, domain, audience, priority, parentFeature, component } = await req.json() as IdeaInput;
+    const { idea, domain, audience, priority, parentFeature, component } = await req.json() as StoryFromIdeaRequest;
     
-    // Get API Key from environment
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+    // Get the configured LLM; the service role is needed to read its API key
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
     
-    // Check if API key is available
-    if (!openaiApiKey) {
-      console.error('OpenAI API key not found in environment variables');
+    let llm: LlmClient;
+    try {
+      llm = await getLlmClient(supabase, 'generate-story-from-idea');
+    } catch (configError) {
+      console.error('AI provider not configured:', configError);
       return new Response(
         JSON.stringify({ 
-          error: 'OpenAI API key not configured',
+          error: `AI provider not configured: ${configError instanceof Error ? configError.message : String(configError)}`,
           message: 'The server is not properly configured for AI story generation',
           fallbackToMock: true,
           mockStory: await generateStoryMock(idea, domain, audience, priority, component)
@@ -70,16 +57,16 @@ serve(async (req) => {
       );
     }
 
-    // In a production implementation, call the OpenAI API to generate the story
+    // Call the configured LLM to generate the story
     try {
       const generatedStory = await generateStoryWithAI(
+        llm,
         idea, 
         domain, 
         audience, 
         priority, 
         parentFeature, 
-        component,
-        openaiApiKey
+        component
       );
 
       return new Response(
@@ -93,7 +80,7 @@ serve(async (req) => {
         }
       );
     } catch (aiError) {
-      console.error('Error calling OpenAI:', aiError);
+      console.error('Error calling the AI provider:', aiError);
       
       // Fall back to mock if AI fails
       const mockStory = await generateStoryMock(idea, domain, audience, priority, component);
@@ -123,17 +110,17 @@ serve(async (req) => {
 });
 
 /**
- * Generate a structured story from an idea using OpenAI
+ * Generate a structured story from an idea using the configured LLM
  */
 async function generateStoryWithAI(
+  llm: LlmClient,
   idea: string,
   domain: string,
   audience: string,
   priority: string,
   parentFeature?: string,
-  component?: string,
-  apiKey?: string
-): Promise<StoryOutput> {
+  component?: string
+): Promise<StoryFromIdeaResponse> {
   // Construct a prompt that instructs the AI to generate a structured story
   const prompt = `
   You are an expert software product manager skilled in creating structured user stories.
@@ -147,167 +134,70 @@ async function generateStoryWithAI(
   ${component ? `COMPONENT: ${component}` : ''}
   ${parentFeature ? `PARENT FEATURE: ${parentFeature}` : ''}
   
-  Create a structured story with the following elements:
-  
-  1. A clear, concise title
-  2. A detailed description explaining the functionality and value
-  3. Comprehensive acceptance criteria (5-7 bullet points)
-  4. An appropriate investment category
-  5. RICE scoring values (reach, impact, confidence, effort on scales of 1-100 for reach/impact/confidence and 0.5-5 for effort)
-  6. A realistic timeframe (Q2-Q4 2025)
-  7. Relevant tags (4-6 tags)
-  8. A summary of the customer need
+  Reply with a JSON object with exactly these fields:
+  {
+    "title": "A clear, concise title",
+    "description": "A detailed description explaining the functionality and value",
+    "acceptance_criteria": "5-7 acceptance criteria, one per line, each starting with •",
+    "investment_category": "An appropriate investment category",
+    "reach_score": 60,
+    "impact_score": 60,
+    "confidence_score": 80,
+    "effort_score": 2.5,
+    "timeframe": "A realistic timeframe (Q2-Q4 2025)",
+    "tags": ["4-6 relevant tags"],
+    "customer_need_description": "A summary of the customer need"
+  }
   
+  reach_score, impact_score and confidence_score are numbers from 1 to 100; effort_score is a number from 0.5 to 5.
   Focus on creating content that is specific, actionable, and addresses the original idea in the context provided.
   `;
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+    const result = await llm.structured([
+      {
+        role: 'system',
+        content: 'You are an AI assistant that generates structured user stories for product development.'
       },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an AI assistant that generates structured user stories for product development.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1500
-      })
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], GeneratedStorySchema, {
+      temperature: 0.7,
+      maxTokens: 1500
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
     
-    // Parse the AI response to extract the structured components
-    const aiText = data.choices[0]?.message?.content;
-    if (!aiText) {
-      throw new Error('Invalid response from OpenAI API');
+    if (result.success) {
+      return { ...result.data, ai_fields: STORY_FIELDS, defaulted_fields: [] };
     }
     
-    // Parse the AI output to extract structured data
-    return parseAIResponseToStory(aiText, idea);
+    // Keep whatever the model got right and default the rest
+    const { data, aiFields, defaultedFields } = applyFieldDefaults(GeneratedStorySchema, result.value, getDefaultStory(idea));
+    return { ...data, ai_fields: aiFields, defaulted_fields: defaultedFields };
   } catch (error) {
-    console.error('Error calling OpenAI API:', error);
+    console.error('Error calling the AI provider:', error);
     throw error;
   }
 }
 
 /**
- * Parse the AI-generated text into a structured story object
+ * Values used for fields the model didn't generate correctly
  */
-function parseAIResponseToStory(aiText: string, originalIdea: string): StoryOutput {
-  try {
-    // Extract title (first line is typically the title)
-    const lines = aiText.split('\n').filter(line => line.trim().length > 0);
-    const title = lines[0]?.replace(/^title:?\s*/i, '').trim() || `Story for: ${originalIdea.substring(0, 30)}...`;
-    
-    // Extract description (usually starts with "Description:")
-    const descriptionStart = aiText.toLowerCase().indexOf('description:');
-    const acceptanceCriteriaStart = aiText.toLowerCase().indexOf('acceptance criteria:');
-    let description = '';
-    
-    if (descriptionStart >= 0 && acceptanceCriteriaStart > descriptionStart) {
-      description = aiText.substring(descriptionStart + 12, acceptanceCriteriaStart).trim();
-    } else {
-      // Fallback: Use the second paragraph if available
-      description = lines.length > 1 ? lines[1] : `Implementation of: ${originalIdea}`;
-    }
-    
-    // Extract acceptance criteria 
-    const investmentCategoryStart = aiText.toLowerCase().indexOf('investment category:');
-    let acceptanceCriteria = '';
-    
-    if (acceptanceCriteriaStart >= 0 && investmentCategoryStart > acceptanceCriteriaStart) {
-      acceptanceCriteria = aiText.substring(acceptanceCriteriaStart + 20, investmentCategoryStart).trim();
-    } else {
-      // Generate default acceptance criteria 
-      acceptanceCriteria = `• Feature implements "${originalIdea}" successfully\n• Implementation is tested across all supported platforms\n• User feedback is collected and integrated\n• Performance metrics show no degradation\n• Documentation is updated`;
-    }
-    
-    // Extract investment category
-    const investmentCategory = extractValue(aiText, 'investment category', 'Product Enhancement');
-    
-    // Extract RICE scores (with fallbacks to reasonable defaults)
-    const reachScore = extractNumberValue(aiText, 'reach', 60);
-    const impactScore = extractNumberValue(aiText, 'impact', 60);
-    const confidenceScore = extractNumberValue(aiText, 'confidence', 80);
-    const effortScore = extractFloatValue(aiText, 'effort', 2.5);
-    
-    // Extract timeframe
-    const timeframe = extractValue(aiText, 'timeframe', 'Q3 2025');
-    
-    // Extract tags
-    const tagsMatch = aiText.match(/tags:?\s*(.*?)(?:\.|\n|$)/i);
-    const tags = tagsMatch ? 
-      tagsMatch[1].split(',').map(tag => tag.trim()).filter(tag => tag.length > 0) : 
-      ['enhancement', 'user-experience'];
-    
-    // Extract customer need
-    const customerNeed = extractValue(aiText, 'customer need', `Original idea: ${originalIdea}`);
-    
-    return {
-      title,
-      description,
-      acceptance_criteria: acceptanceCriteria,
-      investment_category: investmentCategory,
-      reach_score: reachScore,
-      impact_score: impactScore,
-      confidence_score: confidenceScore,
-      effort_score: effortScore,
-      timeframe,
-      tags,
-      customer_need_description: customerNeed
-    };
-  } catch (error) {
-    console.error('Error parsing AI response:', error);
-    // Return fallback values
-    return {
-      title: `Story for: ${originalIdea.substring(0, 30)}...`,
-      description: `Implementation of: ${originalIdea}`,
-      acceptance_criteria: `• Feature implements "${originalIdea}" successfully\n• Implementation is tested across all supported platforms\n• User feedback is collected and integrated\n• Performance metrics show no degradation\n• Documentation is updated`,
-      investment_category: 'Product Enhancement',
-      reach_score: 60,
-      impact_score: 60,
-      confidence_score: 80,
-      effort_score: 2.5,
-      timeframe: 'Q3 2025',
-      tags: ['enhancement', 'user-experience'],
-      customer_need_description: `Original idea: ${originalIdea}`
-    };
-  }
-}
-
-// Helper functions for parsing values from the AI response
-function extractValue(text: string, field: string, defaultValue: string): string {
-  const regex = new RegExp(`${field}:?\\s*(.*?)(?:(?:\\n\\s*[a-z]+:)|$)`, 'is');
-  const match = text.match(regex);
-  return match ? match[1].trim() : defaultValue;
-}
-
-function extractNumberValue(text: string, field: string, defaultValue: number): number {
-  const value = extractValue(text, field, '');
-  const numberMatch = value.match(/(\d+)/);
-  return numberMatch ? parseInt(numberMatch[1]) : defaultValue;
-}
-
-function extractFloatValue(text: string, field: string, defaultValue: number): number {
-  const value = extractValue(text, field, '');
-  const floatMatch = value.match(/(\d+\.\d+|\d+)/);
-  return floatMatch ? parseFloat(floatMatch[1]) : defaultValue;
+function getDefaultStory(originalIdea: string): GeneratedStory {
+  return {
+    title: `Story for: ${originalIdea.substring(0, 30)}...`,
+    description: `Implementation of: ${originalIdea}`,
+    acceptance_criteria: `• Feature implements "${originalIdea}" successfully\n• Implementation is tested across all supported platforms\n• User feedback is collected and integrated\n• Performance metrics show no degradation\n• Documentation is updated`,
+    investment_category: 'Product Enhancement',
+    reach_score: 60,
+    impact_score: 60,
+    confidence_score: 80,
+    effort_score: 2.5,
+    timeframe: 'Q3 2025',
+    tags: ['enhancement', 'user-experience'],
+    customer_need_description: `Original idea: ${originalIdea}`
+  };
 }
 
 /**
@@ -319,7 +209,7 @@ async function generateStoryMock(
   audience: string,
   priority: string,
   component?: string
-): Promise<StoryOutput> {
+): Promise<StoryFromIdeaResponse> {
   // Simulate processing time
   await new Promise(resolve => setTimeout(resolve, 1000));
 
@@ -368,6 +258,8 @@ async function generateStoryMock(
     effort_score: effort,
     timeframe: priority === 'high' ? 'Q2 2025' : 'Q3 2025',
     tags,
-    customer_need_description: `Original idea: ${idea}`
+    customer_need_description: `Original idea: ${idea}`,
+    ai_fields: [],
+    defaulted_fields: STORY_FIELDS
   };
 }
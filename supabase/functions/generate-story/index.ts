@@ -1,5 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
-import { Configuration, OpenAIApi } from 'npm:openai@4.28.0';
+import { getLlmClient } from '../_shared/llm.ts';
+import { StoryResponseSchema } from '../_shared/aiSchemas.ts';
+import { StoryPromptRequest, StoryPromptResponse } from '../_shared/contracts.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,26 +9,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-interface StoryPrompt {
-  type: 'user_need' | 'feature_idea' | 'pain_point' | 'business_objective';
-  prompt: string;
-  workspaceId: string;
-}
-
-interface StoryResponse {
-  title: string;
-  description: string;
-  acceptanceCriteria: string[];
-  riceScore: {
-    reach: number;
-    impact: number;
-    confidence: number;
-    effort: number;
-  };
-  sprintable: boolean;
-  completenessScore: number;
-}
-
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -39,25 +21,16 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_ANON_KEY') ?? ''
     );
 
-    // Get request data
-    const { type, prompt, workspaceId }: StoryPrompt = await req.json();
-
-    // Get workspace configuration
-    const { data: config } = await supabase
-      .from('configurations')
-      .select('openai_api_key')
-      .eq('workspace_id', workspaceId)
-      .single();
+    // The LLM client reads its API key from config_secrets, which needs the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    if (!config?.openai_api_key) {
-      throw new Error('OpenAI API key not configured for workspace');
-    }
+    // Get request data
+    const { type, prompt, workspaceId }: StoryPromptRequest = await req.json();
 
-    // Initialize OpenAI
-    const configuration = new Configuration({
-      apiKey: config.openai_api_key,
-    });
-    const openai = new OpenAIApi(configuration);
+    const llm = await getLlmClient(supabaseAdmin, 'generate-story', { workspaceId });
 
     // Get prompt template
     const { data: promptTemplate } = await supabase
@@ -71,25 +44,28 @@ Deno.serve(async (req) => {
       throw new Error(`No prompt template found for category: ${type}`);
     }
 
-    // Generate story using OpenAI
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: promptTemplate.prompt_template,
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    // Generate the story; the prompt template describes the story, the schema the JSON to return
+    const result = await llm.structured([
+      {
+        role: 'system',
+        content: `${promptTemplate.prompt_template}
+
+Reply with a JSON object with the fields title, description, acceptanceCriteria (an array of strings), riceScore (an object with the numbers reach, impact, confidence and effort), sprintable (a boolean) and completenessScore (0-100).`,
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ], StoryResponseSchema, {
       temperature: 0.7,
-      max_tokens: 1000,
+      maxTokens: 1000,
     });
 
-    // Parse the response
-    const response = JSON.parse(completion.choices[0].message.content) as StoryResponse;
+    if (!result.success) {
+      throw new Error(`Invalid story format from AI response: ${result.issues.join('; ')}`);
+    }
+
+    const response: StoryPromptResponse = result.data;
 
     return new Response(
       JSON.stringify(response),
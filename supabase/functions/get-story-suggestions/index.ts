@@ -1,17 +1,8 @@
 import { serve } from 'http/server';
 import { corsHeaders } from '../_shared/cors.ts';
+import { StorySuggestionsRequest } from '../_shared/contracts.ts';
 
-interface StoryData {
-  title?: string;
-  description?: string;
-  [key: string]: any;
-}
-
-interface RequestBody {
-  prompt: string;
-  story: StoryData;
-  section: string;
-}
+type StoryData = StorySuggestionsRequest['story'];
 
 /**
  * Supabase Edge Function to generate AI-powered suggestions for stories
@@ -24,7 +15,7 @@ serve(async (req) => {
   }
   
   try {
-    const { prompt, story, section } = await req.json() as RequestBody;
+    const { prompt, story, section } = await req.json() as StorySuggestionsRequest;
     
     // Log the request for debugging
     console.log(`Processing suggestion request for section: ${section}`);
@@ -1,5 +1,15 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { isEchoEvent, recordWriteback } from '../_shared/echoGuard.ts';
+import { requireSecret } from '../_shared/secrets.ts';
+import {
+  verifyWebhookRequest,
+  verifyEventTimestamp,
+  claimWebhookDelivery,
+  completeWebhookDelivery,
+  releaseWebhookDelivery,
+  sha256Hex
+} from '../_shared/webhookVerification.ts';
 
 // Simple CORS headers
 const corsHeaders = {
@@ -83,11 +93,38 @@ interface ADOWorkItemWebhookPayload {
   createdDate: string;
 }
 
-// Feature flag to control whether to actually update ADO work items
-const ENABLE_ADO_UPDATES = false;
+// Feature flag to control whether to actually update ADO work items (e.g. the [PB…] title prefix)
+const ENABLE_ADO_UPDATES = Deno.env.get('ADO_WRITEBACK_ENABLED') === 'true';
 
-// Feature flag to control whether to update ProductBoard items
-const ENABLE_PB_UPDATES = false;
+// Feature flag to control whether to update ProductBoard items from ADO changes
+const ENABLE_PB_UPDATES = Deno.env.get('PB_WRITEBACK_ENABLED') === 'true';
+
+console.log(`ADO title updates are ${ENABLE_ADO_UPDATES ? 'ENABLED' : 'DISABLED'} (controlled by ADO_WRITEBACK_ENABLED env var)`);
+console.log(`ProductBoard write-back is ${ENABLE_PB_UPDATES ? 'ENABLED' : 'DISABLED'} (controlled by PB_WRITEBACK_ENABLED env var)`);
+
+// ADO project shared with pb-ado-sync; the ProductBoard token and ADO PAT are read from config_secrets
+const adoOrg = Deno.env.get('ADO_ORG');
+const adoProject = Deno.env.get('ADO_PROJECT');
+
+// Service hook credentials: basic auth configured on the ADO subscription, or an HMAC secret
+const adoWebhookUsername = Deno.env.get('ADO_WEBHOOK_USERNAME');
+const adoWebhookPassword = Deno.env.get('ADO_WEBHOOK_PASSWORD');
+const adoWebhookHmacSecret = Deno.env.get('ADO_WEBHOOK_HMAC_SECRET');
+
+// Fallback ADO state -> ProductBoard status map, overridden by the ado_pb_status_map system config
+const DEFAULT_ADO_TO_PB_STATUS_MAP: Record<string, string> = {
+  'New': 'With Engineering',
+  'Active': 'In progress',
+  'Resolved': 'In progress',
+  'Closed': 'Released',
+  'Removed': "Won't do",
+};
+
+// ADO fields that are propagated to ProductBoard when they change
+const PROPAGATED_ADO_FIELDS = ['System.State', 'System.Title', 'System.Description', 'System.IterationPath'];
+
+// Matches the [PB…] prefix added to ADO titles so it is not written back to ProductBoard
+const PB_TITLE_PREFIX_PATTERN = /^\s*\[PB[^\]]*\]\s*/;
 
 serve(async (req) => {
   // Handle preflight OPTIONS request
@@ -98,22 +135,102 @@ serve(async (req) => {
     });
   }
 
+  let deliveryId: string | null = null;
+  let supabase: any = null;
+
   try {
     // Get environment variables
     const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
     
     // Create Supabase client
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    supabase = createClient(supabaseUrl, supabaseServiceKey);
     
-    // Parse request body
-    const payload = await req.json() as ADOWorkItemWebhookPayload;
+    const rawBody = await req.text();
+    
+    // Verify the service hook credentials on the raw body before reading anything from it;
+    // ADO only puts the event time in the body, so that is checked once the body is parsed
+    const verification = await verifyWebhookRequest(req, rawBody, {
+      hmacSecret: adoWebhookHmacSecret,
+      basicAuth: adoWebhookUsername && adoWebhookPassword
+        ? { username: adoWebhookUsername, password: adoWebhookPassword }
+        : null,
+      requireTimestamp: false,
+    });
     
+    if (!verification.valid) {
+      console.error(`ADO webhook verification failed: ${verification.reason}`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+    
+    // ADO retries a failed delivery with the same body, notification ID included
+    const deliveryKey = `body:${await sha256Hex(rawBody)}`;
+    if (!(await claimWebhookDelivery(supabase, 'ado', deliveryKey))) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: 'Duplicate delivery ignored',
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+    deliveryId = deliveryKey;
+    
+    let payload: ADOWorkItemWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody) as ADOWorkItemWebhookPayload;
+    } catch {
+      await releaseWebhookDelivery(supabase, 'ado', deliveryId);
+      return new Response(
+        JSON.stringify({ success: false, error: 'The request body is not valid JSON' }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+    
+    // Reject replays of old events
+    const timestampCheck = verifyEventTimestamp(payload.createdDate);
+    if (!timestampCheck.valid) {
+      console.error(`ADO webhook verification failed: ${timestampCheck.reason}`);
+      await releaseWebhookDelivery(supabase, 'ado', deliveryId);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+    
+    const currentFields = getCurrentFields(payload);
     console.log('Received ADO webhook:', {
       eventType: payload.eventType,
       workItemId: payload.resource.workItemId,
-      workItemType: payload.resource.fields['System.WorkItemType'],
-      title: payload.resource.fields['System.Title']
+      workItemType: currentFields['System.WorkItemType'],
+      title: currentFields['System.Title']
     });
     
     // Process based on event type
@@ -121,10 +238,13 @@ serve(async (req) => {
       await handleWorkItemCreated(supabase, payload);
     } else if (payload.eventType === 'workitem.updated') {
       await handleWorkItemUpdated(supabase, payload);
+      await propagateToProductBoard(supabase, payload);
     } else {
       console.log(`Ignoring unsupported event type: ${payload.eventType}`);
     }
     
+    await completeWebhookDelivery(supabase, 'ado', deliveryId);
+    
     return new Response(
       JSON.stringify({
         success: true,
@@ -141,11 +261,15 @@ serve(async (req) => {
   } catch (error) {
     console.error('Error processing ADO webhook:', error);
     
+    // Let ADO's retry of this delivery be processed
+    if (supabase && deliveryId) {
+      await releaseWebhookDelivery(supabase, 'ado', deliveryId);
+    }
+    
     return new Response(
       JSON.stringify({
         success: false,
         error: error instanceof Error ? error.message : 'An unexpected error occurred',
-        stack: error instanceof Error ? error.stack : undefined,
       }),
       {
         status: 500,
@@ -249,10 +373,11 @@ async function handleWorkItemCreated(supabase: any, payload: ADOWorkItemWebhookP
  * Handle a work item updated event
  */
 async function handleWorkItemUpdated(supabase: any, payload: ADOWorkItemWebhookPayload) {
+  const fields = getCurrentFields(payload);
   const workItemId = payload.resource.workItemId.toString();
-  const workItemType = payload.resource.fields['System.WorkItemType'];
-  const title = payload.resource.fields['System.Title'];
-  const state = payload.resource.fields['System.State'];
+  const workItemType = fields['System.WorkItemType'];
+  const title = fields['System.Title'];
+  const state = fields['System.State'];
   
   console.log(`Processing work item updated: ${workItemId} (${workItemType}): ${title}`);
   
@@ -352,41 +477,32 @@ async function updateADOWorkItemTitle(supabase: any, adoId: string, pbId: string
     return;
   }
   
+  if (!adoOrg || !adoProject) {
+    console.error('Missing ADO_ORG or ADO_PROJECT environment variables');
+    return;
+  }
+  
   try {
-    // Get the ADO API configuration
-    const { data: configs, error: configError } = await supabase
-      .from('configurations')
-      .select('ado_api_key, ado_organization, ado_project_id')
-      .eq('id', '1')
-      .single();
-    
-    if (configError) {
-      console.error('Error fetching ADO configuration:', configError);
-      return;
-    }
-    
-    if (!configs || !configs.ado_api_key || !configs.ado_organization || !configs.ado_project_id) {
-      console.error('Missing ADO configuration');
-      return;
-    }
-    
     // Create the authorization header
-    const credentials = `:${configs.ado_api_key}`;
-    const encodedCredentials = btoa(credentials);
-    const authHeader = `Basic ${encodedCredentials}`;
+    const adoPat = await requireSecret(supabase, 'ado_pat', { envVar: 'ADO_PAT' });
+    const authHeader = `Basic ${btoa(`:${adoPat}`)}`;
     
     // Build the API URL
-    const apiUrl = `https://dev.azure.com/${configs.ado_organization}/${configs.ado_project_id}/_apis/wit/workitems/${adoId}?api-version=7.0`;
+    const apiUrl = `https://dev.azure.com/${adoOrg}/${encodeURIComponent(adoProject)}/_apis/wit/workitems/${adoId}?api-version=7.0`;
     
     // Create the patch document
+    const newTitle = `${pbIdPrefix} ${currentTitle}`;
     const patchDocument = [
       {
         op: 'replace',
         path: '/fields/System.Title',
-        value: `${pbIdPrefix} ${currentTitle}`
+        value: newTitle
       }
     ];
     
+    // Record the write-back first so the resulting workitem.updated event is recognised as an echo
+    await recordWriteback(supabase, pbId, 'ado', { 'System.Title': newTitle });
+    
     // Make the API request
     const response = await fetch(apiUrl, {
       method: 'PATCH',
@@ -409,7 +525,7 @@ async function updateADOWorkItemTitle(supabase: any, adoId: string, pbId: string
     const { error: updateError } = await supabase
       .from('entity_mappings')
       .update({
-        ado_title: `${pbIdPrefix} ${currentTitle}`,
+        ado_title: newTitle,
         sync_status: 'synced',
         last_synced_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -443,3 +559,300 @@ function mapADOTypeToPBType(adoType: string): string {
       return 'feature';
   }
 }
+
+/**
+ * Get the current field values of the work item.
+ * Updated events only carry the changed fields ({ oldValue, newValue }) in resource.fields,
+ * the full set of current values is in resource.revision.fields.
+ */
+function getCurrentFields(payload: ADOWorkItemWebhookPayload): Record<string, any> {
+  return payload.resource.revision?.fields || payload.resource.fields || {};
+}
+
+/**
+ * Load the ADO state -> ProductBoard status map from system_config
+ */
+async function loadStatusMap(supabase: any): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('system_config')
+    .select('value')
+    .eq('key', 'ado_pb_status_map')
+    .maybeSingle();
+
+  if (error || !data?.value) {
+    if (error) console.error('Error loading ado_pb_status_map, using defaults:', error);
+    return DEFAULT_ADO_TO_PB_STATUS_MAP;
+  }
+
+  try {
+    return typeof data.value === 'string' ? JSON.parse(data.value) : data.value;
+  } catch (parseError) {
+    console.error('Invalid ado_pb_status_map JSON, using defaults:', parseError);
+    return DEFAULT_ADO_TO_PB_STATUS_MAP;
+  }
+}
+
+/**
+ * Find the ProductBoard mapping for an ADO work item.
+ * pb_ado_mappings is checked first; links that only exist in entity_mappings are copied
+ * into pb_ado_mappings so write-backs and echo detection have a row to work with.
+ */
+async function findPbMapping(supabase: any, payload: ADOWorkItemWebhookPayload): Promise<any | null> {
+  const workItemId = payload.resource.workItemId;
+
+  const { data: pbMapping, error: pbMappingError } = await supabase
+    .from('pb_ado_mappings')
+    .select('id, workspace_id, productboard_id, ado_work_item_id, last_known_pb_status, last_writeback_target, last_writeback_at, last_writeback_fields')
+    .eq('ado_work_item_id', workItemId)
+    .maybeSingle();
+
+  if (pbMappingError) {
+    console.error('Error looking up pb_ado_mappings:', pbMappingError);
+  }
+
+  if (pbMapping) {
+    return pbMapping;
+  }
+
+  const { data: entityMapping, error: entityMappingError } = await supabase
+    .from('entity_mappings')
+    .select('productboard_id')
+    .eq('ado_id', workItemId.toString())
+    .not('productboard_id', 'is', null)
+    .maybeSingle();
+
+  if (entityMappingError) {
+    console.error('Error looking up entity mapping:', entityMappingError);
+    return null;
+  }
+
+  if (!entityMapping) {
+    return null;
+  }
+
+  const { data: createdMapping, error: createError } = await supabase
+    .from('pb_ado_mappings')
+    .upsert({
+      productboard_id: entityMapping.productboard_id,
+      ado_work_item_id: workItemId,
+      ado_work_item_url: payload.resource._links?.html?.href || payload.resource.url,
+      sync_status: 'synced',
+      last_synced_at: new Date().toISOString(),
+    }, { onConflict: 'productboard_id' })
+    .select('id, workspace_id, productboard_id, ado_work_item_id, last_known_pb_status, last_writeback_target, last_writeback_at, last_writeback_fields')
+    .single();
+
+  if (createError) {
+    console.error('Error creating pb_ado_mappings row from entity mapping:', createError);
+    return { productboard_id: entityMapping.productboard_id };
+  }
+
+  return createdMapping;
+}
+
+/**
+ * Get the ProductBoard timeframe for an ADO iteration path from its start/finish dates
+ */
+async function getIterationTimeframe(
+  supabase: any,
+  iterationPath: string,
+  workspaceId: string | null
+): Promise<{ startDate: string; endDate: string; granularity: string } | null> {
+  if (!iterationPath || !adoOrg || !adoProject) {
+    return null;
+  }
+
+  // The first segment of the iteration path is the project root node
+  const nodePath = iterationPath.split('\\').slice(1).map(encodeURIComponent).join('/');
+  if (!nodePath) {
+    return null;
+  }
+
+  try {
+    const adoPat = await requireSecret(supabase, 'ado_pat', { workspaceId, envVar: 'ADO_PAT' });
+    const apiUrl = `https://dev.azure.com/${adoOrg}/${encodeURIComponent(adoProject)}/_apis/wit/classificationnodes/Iterations/${nodePath}?api-version=7.0`;
+    const response = await fetch(apiUrl, {
+      headers: { 'Authorization': `Basic ${btoa(`:${adoPat}`)}` }
+    });
+
+    if (!response.ok) {
+      console.error(`Error fetching ADO iteration ${iterationPath}: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    const node = await response.json();
+    const startDate = node.attributes?.startDate;
+    const finishDate = node.attributes?.finishDate;
+    if (!startDate || !finishDate) {
+      console.log(`ADO iteration ${iterationPath} has no dates, skipping timeframe update`);
+      return null;
+    }
+
+    return {
+      startDate: startDate.substring(0, 10),
+      endDate: finishDate.substring(0, 10),
+      granularity: 'day',
+    };
+  } catch (error) {
+    console.error('Error fetching ADO iteration:', error);
+    return null;
+  }
+}
+
+/**
+ * Log an ADO -> ProductBoard write-back decision to pb_ado_automation_logs
+ */
+async function logWriteback(supabase: any, payload: ADOWorkItemWebhookPayload, pbId: string | null, status: string, details: string, pbUpdate?: Record<string, any>) {
+  const { error } = await supabase
+    .from('pb_ado_automation_logs')
+    .insert({
+      event_type: payload.eventType,
+      pb_item_id: pbId,
+      pb_item_type: 'feature',
+      ado_work_item_id: payload.resource.workItemId,
+      status,
+      details,
+      payload: { notification_id: payload.notificationId, changed_fields: Object.keys(payload.resource.fields || {}) },
+      ado_payload: pbUpdate ? { pb_update: pbUpdate } : null,
+    });
+
+  if (error) {
+    console.error('Error writing automation log:', error);
+  }
+}
+
+/**
+ * Propagate state, title, description and iteration changes from an ADO work item
+ * to its mapped ProductBoard feature
+ */
+async function propagateToProductBoard(supabase: any, payload: ADOWorkItemWebhookPayload) {
+  const workItemId = payload.resource.workItemId;
+  const fields = getCurrentFields(payload);
+  const changedFields = Object.keys(payload.resource.fields || {}).filter(field => PROPAGATED_ADO_FIELDS.includes(field));
+
+  if (changedFields.length === 0) {
+    console.log(`No propagated fields changed on work item ${workItemId}, skipping ProductBoard write-back`);
+    return;
+  }
+
+  const mapping = await findPbMapping(supabase, payload);
+  if (!mapping?.productboard_id) {
+    console.log(`Work item ${workItemId} is not mapped to a ProductBoard feature, skipping write-back`);
+    return;
+  }
+
+  const pbId = mapping.productboard_id;
+  const state = fields['System.State'] || '';
+  const title = fields['System.Title'] || '';
+  const iterationPath = fields['System.IterationPath'] || '';
+
+  // Ignore the event caused by our own title prefix update or a pb-ado-sync write
+  if (isEchoEvent(mapping, 'ado', { 'System.Title': title, 'System.State': state })) {
+    console.log(`Work item ${workItemId} update is an echo of our own write-back, skipping`);
+    await logWriteback(supabase, payload, pbId, 'skipped_echo', 'Event repeats a recent write-back to ADO');
+    return;
+  }
+
+  // Remember the latest ADO values on the mapping
+  const { error: mappingUpdateError } = await supabase
+    .from('pb_ado_mappings')
+    .update({
+      ado_state: state,
+      ado_iteration_path: iterationPath,
+    })
+    .eq('productboard_id', pbId);
+
+  if (mappingUpdateError) {
+    console.error('Error updating ADO values on pb_ado_mappings:', mappingUpdateError);
+  }
+
+  // Build the ProductBoard update from the changed fields
+  const pbUpdate: Record<string, any> = {};
+
+  if (changedFields.includes('System.State')) {
+    const statusMap = await loadStatusMap(supabase);
+    const pbStatus = statusMap[state];
+    if (pbStatus) {
+      pbUpdate.status = { name: pbStatus };
+    } else {
+      console.log(`No ProductBoard status mapped for ADO state "${state}"`);
+    }
+  }
+
+  if (changedFields.includes('System.Title')) {
+    const pbName = title.replace(PB_TITLE_PREFIX_PATTERN, '').trim();
+    if (pbName) {
+      pbUpdate.name = pbName;
+    }
+  }
+
+  if (changedFields.includes('System.Description')) {
+    pbUpdate.description = fields['System.Description'] || '';
+  }
+
+  if (changedFields.includes('System.IterationPath')) {
+    const timeframe = await getIterationTimeframe(supabase, iterationPath, mapping.workspace_id ?? null);
+    if (timeframe) {
+      pbUpdate.timeframe = timeframe;
+    }
+  }
+
+  if (Object.keys(pbUpdate).length === 0) {
+    console.log(`Nothing to write back to ProductBoard feature ${pbId}`);
+    return;
+  }
+
+  if (!ENABLE_PB_UPDATES) {
+    console.log(`[DRY RUN] Would update ProductBoard feature ${pbId}:`, pbUpdate);
+    await logWriteback(supabase, payload, pbId, 'dry_run', 'PB_WRITEBACK_ENABLED is not true', pbUpdate);
+    return;
+  }
+
+  let pbApiToken: string;
+  try {
+    pbApiToken = await requireSecret(supabase, 'productboard_api_token', { workspaceId: mapping.workspace_id ?? null, envVar: 'PB_API_TOKEN' });
+  } catch (secretError) {
+    console.error(secretError.message);
+    await logWriteback(supabase, payload, pbId, 'config_error', secretError.message, pbUpdate);
+    return;
+  }
+
+  try {
+    // Record the write-back first so the resulting ProductBoard webhook is recognised as an echo
+    await recordWriteback(supabase, pbId, 'pb', {
+      status: pbUpdate.status?.name,
+      name: pbUpdate.name,
+    });
+
+    const response = await fetch(`https://api.productboard.com/features/${pbId}`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${pbApiToken}`,
+        'Content-Type': 'application/json',
+        'X-Version': '1',
+      },
+      body: JSON.stringify({ data: pbUpdate }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Error updating ProductBoard feature ${pbId}: ${response.status} ${response.statusText}`, errorText);
+      await logWriteback(supabase, payload, pbId, 'pb_error', `ProductBoard API error ${response.status}: ${errorText}`, pbUpdate);
+      return;
+    }
+
+    // Keep last_known_pb_status in step so pb-ado-sync does not see a status transition
+    if (pbUpdate.status) {
+      await supabase
+        .from('pb_ado_mappings')
+        .update({ last_known_pb_status: pbUpdate.status.name })
+        .eq('productboard_id', pbId);
+    }
+
+    console.log(`Successfully updated ProductBoard feature ${pbId} from ADO work item ${workItemId}`);
+    await logWriteback(supabase, payload, pbId, 'pb_updated', `Updated ${Object.keys(pbUpdate).join(', ')}`, pbUpdate);
+  } catch (error) {
+    console.error('Error updating ProductBoard feature:', error);
+    await logWriteback(supabase, payload, pbId, 'pb_error', error instanceof Error ? error.message : String(error), pbUpdate);
+  }
+}
@@ -1,6 +1,19 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.21.0';
 import { corsHeaders } from '../_shared/cors.ts'; // Import CORS headers
+import { fetchTriggerRules, evaluateTriggerRules, SyncRuleAction } from './triggerRules.ts';
+import { isEchoEvent, recordWriteback, WritebackState } from '../_shared/echoGuard.ts';
+import {
+  verifyWebhookRequest,
+  claimWebhookDelivery,
+  completeWebhookDelivery,
+  releaseWebhookDelivery,
+  sha256Hex
+} from '../_shared/webhookVerification.ts';
+import { requireSecret } from '../_shared/secrets.ts';
+
+// How long a delivery without an x-webhook-id header is treated as a retry of an identical body
+const PB_BODY_DEDUPE_TTL_SECONDS = 120;
 
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
@@ -12,48 +25,55 @@ if (!supabaseUrl || !serviceRoleKey) {
 const supabase = createClient(supabaseUrl, serviceRoleKey);
 console.log('Supabase client initialized.');
 
-// Get ProductBoard API Token
-const pbApiToken = Deno.env.get('PB_API_TOKEN');
-if (!pbApiToken) {
-  console.error('FATAL: Missing PB_API_TOKEN environment variable');
-} else {
-  console.log('ProductBoard API token loaded.');
-}
-
-// Get ADO Credentials
+// Get ADO Project; the ProductBoard token and ADO PAT are read from config_secrets per delivery
 const adoOrg = Deno.env.get('ADO_ORG');
 const adoProject = Deno.env.get('ADO_PROJECT');
-const adoPat = Deno.env.get('ADO_PAT');
-if (!adoOrg || !adoProject || !adoPat) {
-    console.error('FATAL: Missing ADO_ORG, ADO_PROJECT, or ADO_PAT environment variables');
+if (!adoOrg || !adoProject) {
+    console.error('FATAL: Missing ADO_ORG or ADO_PROJECT environment variables');
 } else {
-    console.log('ADO credentials loaded.');
+    console.log('ADO project loaded.');
 }
 
 // Get ADO Sync Enable/Disable Flag
 const adoSyncEnabled = Deno.env.get('ADO_SYNC_ENABLED') === 'true';
 console.log(`ADO sync is ${adoSyncEnabled ? 'ENABLED' : 'DISABLED'} (controlled by ADO_SYNC_ENABLED env var)`);
 
+// Workspace of ProductBoard items that are not mapped yet; mapped items use the workspace of their mapping
+const defaultWorkspaceId = Deno.env.get('PB_ADO_WORKSPACE_ID') || null;
+console.log(`Default workspace for unmapped items: ${defaultWorkspaceId || 'none (global rules only)'}`);
 
-// Function to verify the webhook signature
-async function verifySignature(req: Request): Promise<boolean> {
-  const expectedSecret = Deno.env.get('PB_WEBHOOK_SECRET');
-  if (!expectedSecret) {
-    console.error('Verification Error: PB_WEBHOOK_SECRET environment variable not set.');
-    return false;
-  }
+/**
+ * Find the workspace a ProductBoard item belongs to from its mapping, falling back to PB_ADO_WORKSPACE_ID
+ */
+async function resolveWorkspaceId(pbItemId: string | null): Promise<string | null> {
+  if (!pbItemId) return defaultWorkspaceId;
 
-  const signature = req.headers.get('authorization');
-  console.log(`Received signature: ${signature ? 'Present' : 'Missing'}`);
+  for (const [table, column] of [['pb_ado_mappings', 'productboard_id'], ['pb_ado_enhanced_mappings', 'pb_feature_id']]) {
+    const { data, error } = await supabase.from(table).select('workspace_id').eq(column, pbItemId).maybeSingle();
+    if (error) console.error(`Error resolving the workspace of ${pbItemId} from ${table}:`, error);
+    else if (data?.workspace_id) return data.workspace_id;
+  }
+  return defaultWorkspaceId;
+}
 
-  if (!signature) {
-    console.warn('Verification Warning: Missing authorization header in webhook request.');
-    return false;
+// Read a credential from config_secrets; a missing one is recorded on the automation log instead of failing the delivery
+async function loadCredential(key: string, envVar: string, workspaceId: string | null, logEntryId: string | null, status: string): Promise<string | null> {
+  try {
+    return await requireSecret(supabase, key, { workspaceId, envVar });
+  } catch (secretError) {
+    console.error(`Cannot process: ${secretError.message}`);
+    if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status, details: secretError.message }).eq('id', logEntryId);
+    return null;
   }
+}
 
-  const isValid = signature === expectedSecret;
-  console.log(`Signature valid: ${isValid}`);
-  return isValid;
+
+// Webhook verification settings: HMAC signature (PB_WEBHOOK_HMAC_SECRET) or the
+// authorization header configured on the ProductBoard subscription (PB_WEBHOOK_SECRET)
+const pbWebhookSecret = Deno.env.get('PB_WEBHOOK_SECRET');
+const pbWebhookHmacSecret = Deno.env.get('PB_WEBHOOK_HMAC_SECRET');
+if (!pbWebhookSecret && !pbWebhookHmacSecret) {
+  console.error('FATAL: Missing PB_WEBHOOK_SECRET or PB_WEBHOOK_HMAC_SECRET environment variable');
 }
 
 // Helper Functions
@@ -158,11 +178,86 @@ function simpleBtoa(str: string): string {
   return output;
 }
 
+/**
+ * Trigger the pb-link-updater function to add the ADO link to ProductBoard
+ */
+async function triggerPbLinkUpdater(
+  itemId: string,
+  adoWorkItemId: number,
+  adoWorkItemUrl: string,
+  logEntryId: string | null
+): Promise<void> {
+  console.log(`Triggering pb-link-updater for PB ID ${itemId} and ADO URL ${adoWorkItemUrl}`);
+  try {
+    const linkUpdaterUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/pb-link-updater`;
+    const linkUpdaterResponse = await fetch(linkUpdaterUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        productboard_id: itemId,
+        ado_work_item_id: adoWorkItemId,
+        ado_work_item_url: adoWorkItemUrl,
+        log_entry_id: logEntryId
+      })
+    });
+
+    if (!linkUpdaterResponse.ok) {
+      const linkUpdaterError = await linkUpdaterResponse.text();
+      console.error(`Error calling pb-link-updater: ${linkUpdaterResponse.status} ${linkUpdaterError}`);
+      if (logEntryId) await supabase.from('pb_ado_automation_logs').update({
+        details: `ADO item created/updated, but failed to trigger link update: ${linkUpdaterResponse.status}`
+      }).eq('id', logEntryId);
+    } else {
+      const linkResult = await linkUpdaterResponse.json();
+      console.log(`pb-link-updater response:`, JSON.stringify(linkResult, null, 2));
+    }
+  } catch (linkError) {
+    console.error(`Exception calling pb-link-updater:`, linkError);
+    if (logEntryId) await supabase.from('pb_ado_automation_logs').update({
+      details: `ADO item created/updated, but exception calling link updater: ${linkError.message}`
+    }).eq('id', logEntryId);
+  }
+}
+
+/**
+ * Record a failed ADO create/update in pb_ado_sync_logs as retrying so process-sync-queue picks it up
+ */
+async function queueFailedAdoOperation(
+  workspaceId: string | null,
+  itemId: string,
+  isCreate: boolean,
+  adoWorkItemId: number | null | undefined,
+  workItemType: string,
+  patch: any[],
+  errorMessage: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('pb_ado_sync_logs')
+    .insert({
+      ...(workspaceId ? { workspace_id: workspaceId } : {}),
+      operation_type: isCreate ? 'create' : 'update',
+      status: 'retrying',
+      error_message: errorMessage,
+      request_payload: {
+        productboard_id: itemId,
+        ado_work_item_id: adoWorkItemId ?? null,
+        work_item_type: workItemType,
+        patch,
+      },
+      source_system: 'productboard',
+      target_system: 'ado',
+    });
+
+  if (error) console.error(`Error queueing retry for PB ID ${itemId}:`, error);
+  else console.log(`Queued ${isCreate ? 'create' : 'update'} retry for PB ID ${itemId}`);
+}
+
 
 // Main API handler
 serve(async (req) => {
   console.log(`---> Received request: ${req.method} ${req.url}`);
   let logEntryId: string | null = null; // Define logEntryId early
+  let deliveryId: string | null = null; // Claimed webhook delivery, released again if processing fails
 
   try { // Wrap main logic in a try block
 
@@ -189,24 +284,43 @@ serve(async (req) => {
     if (req.method === 'POST') {
       console.log('Handling POST request (webhook event)');
 
-      const isVerified = await verifySignature(req);
-      if (!isVerified) {
-        console.error('Webhook verification failed. Returning 401.');
-        return new Response(JSON.stringify({ error: 'Unauthorized: Invalid signature' }), { status: 401, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
-      }
-      console.log('Webhook signature verified successfully.');
-
       let payload: any;
       let rawBody: string | null = null;
 
-      // --- Step 1 & 2: Read and Parse Body ---
-      console.log('Attempting to read and parse request body...');
+      // --- Step 1: Read Body and Verify ---
+      console.log('Attempting to read request body...');
       rawBody = await req.text();
       console.log('Successfully read request body as text. Length:', rawBody?.length ?? 0);
+
+      // ProductBoard sends no timestamp header and no event time in the body, so requiring one would reject
+      // every delivery. The window is enforced when a relay adds x-webhook-timestamp; otherwise replays are
+      // only limited by the delivery claim below.
+      const verification = await verifyWebhookRequest(req, rawBody, {
+        hmacSecret: pbWebhookHmacSecret,
+        sharedSecret: pbWebhookSecret,
+        requireTimestamp: false,
+      });
+      if (!verification.valid) {
+        console.error(`Webhook verification failed: ${verification.reason}. Returning 401.`);
+        return new Response(JSON.stringify({ error: 'Unauthorized: Invalid signature' }), { status: 401, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+      }
+      console.log(`Webhook verified successfully (${verification.reason}).`);
+
+      // --- Step 2: Parse Body and Drop Duplicate Deliveries ---
       if (!rawBody) throw new Error('Received empty request body');
       payload = JSON.parse(rawBody);
       console.log('Successfully parsed JSON payload.');
 
+      // ProductBoard bodies only name the event and the entity, so a later change to the same feature
+      // has the same body. Without a delivery ID header the body hash only catches retries in a short window.
+      const webhookId = req.headers.get('x-webhook-id');
+      const notificationId = webhookId || `body:${await sha256Hex(rawBody)}`;
+      const claimTtlSeconds = webhookId ? undefined : PB_BODY_DEDUPE_TTL_SECONDS;
+      if (!(await claimWebhookDelivery(supabase, 'productboard', notificationId, claimTtlSeconds))) {
+        return new Response(JSON.stringify({ success: true, message: 'Duplicate delivery ignored' }), { status: 200, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+      }
+      deliveryId = notificationId;
+
       // --- Step 3: Extract Event Info ---
       const eventType = payload?.data?.eventType;
       let itemId: string | null = null;
@@ -234,12 +348,17 @@ serve(async (req) => {
       if (itemId) console.log(`Extracted ${itemType} ID: ${itemId}`);
       else console.warn(`Could not extract ID for event type: ${eventType}`);
 
+      // The workspace decides which credentials and trigger rules apply
+      const workspaceId = await resolveWorkspaceId(itemId);
+      console.log(`Workspace: ${workspaceId || 'none (global rules only)'}`);
+
 
       // --- Step 4: Log Initial Receipt ---
       console.log('Attempting to log initial event receipt...');
       const { data: initialLogResult, error: initialLogError } = await supabase
         .from('pb_ado_automation_logs')
         .insert({
+          ...(workspaceId ? { workspace_id: workspaceId } : {}),
           event_type: eventType || 'unknown',
           pb_item_id: itemId,
           pb_item_type: itemType,
@@ -259,10 +378,8 @@ serve(async (req) => {
       // --- Step 5: Fetch, Check Status, Sync ADO ---
       if (itemId && itemType !== 'unknown') {
         try {
-          if (!pbApiToken) {
-            console.error('Cannot process: PB_API_TOKEN is not configured.');
-            if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'config_error', details: 'Missing PB_API_TOKEN' }).eq('id', logEntryId);
-          } else {
+          const pbApiToken = await loadCredential('productboard_api_token', 'PB_API_TOKEN', workspaceId, logEntryId, 'config_error');
+          if (pbApiToken) {
             console.log(`Attempting to fetch full data for ${itemType} ID: ${itemId}`);
             let apiUrl = '';
             if (itemType === 'feature' || itemType === 'hierarchy-entity') {
@@ -296,13 +413,14 @@ serve(async (req) => {
 
                 const currentStatus = extractedFields.status;
                 let proceedWithSync = false;
-                let mappingRecord: { ado_work_item_id: number | null, last_known_pb_status: string | null } | null = null;
+                let ruleAction: SyncRuleAction = 'skip';
+                let mappingRecord: ({ ado_work_item_id: number | null, ado_work_item_url: string | null, last_known_pb_status: string | null } & WritebackState) | null = null;
 
                 if (currentStatus) {
                   console.log(`Current PB Status from API: ${currentStatus}`);
                   const { data: mappingData, error: mappingError } = await supabase
                     .from('pb_ado_mappings')
-                    .select('ado_work_item_id, last_known_pb_status')
+                    .select('ado_work_item_id, ado_work_item_url, last_known_pb_status, last_writeback_target, last_writeback_at, last_writeback_fields')
                     .eq('productboard_id', itemId)
                     .maybeSingle();
 
@@ -311,16 +429,43 @@ serve(async (req) => {
                     if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'mapping_fetch_error', details: `Error fetching mapping: ${mappingError.message}` }).eq('id', logEntryId);
                   } else {
                     mappingRecord = mappingData;
-                    const lastKnownStatus = mappingRecord?.last_known_pb_status;
+                    const lastKnownStatus = mappingRecord?.last_known_pb_status ?? null;
                     console.log(`Last known status from DB: ${lastKnownStatus}`);
 
-                    if (currentStatus === "With Engineering" && lastKnownStatus !== "With Engineering") {
-                      console.log('Status changed TO "With Engineering". Proceeding with sync.');
+                    // Evaluate the workspace trigger rules against this status transition
+                    const triggerRules = await fetchTriggerRules(supabase, workspaceId);
+                    const decision = evaluateTriggerRules(triggerRules, {
+                      previousStatus: lastKnownStatus,
+                      currentStatus,
+                      featureType: extractedFields.type,
+                      componentId: extractedFields.componentId,
+                      customFields: pbItemData?.data?.custom_fields || {}
+                    });
+                    ruleAction = decision.action;
+                    console.log(decision.reason);
+
+                    const ruleLogFields = {
+                      matched_rule_id: decision.rule?.id ?? null,
+                      rule_action: decision.rule ? decision.action : null,
+                      details: decision.reason
+                    };
+
+                    // A change that handle-ado-webhook just wrote into ProductBoard must not bounce back to ADO
+                    const isEcho = isEchoEvent(mappingRecord, 'pb', { status: currentStatus, name: extractedFields.name });
+
+                    if (isEcho) {
+                      console.log('Event repeats a recent write-back from ADO. Skipping ADO sync.');
+                      if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'skipped_echo', ...ruleLogFields, details: 'Event repeats a recent write-back from ADO' }).eq('id', logEntryId);
+                    } else if (decision.action !== 'skip') {
+                      console.log(`Trigger rule action '${decision.action}'. Proceeding with sync.`);
                       proceedWithSync = true;
-                      if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'processing_required', details: `Status changed to ${currentStatus}` }).eq('id', logEntryId);
+                      if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'processing_required', ...ruleLogFields }).eq('id', logEntryId);
+                    } else if (decision.rule) {
+                      console.log(`Rule '${decision.rule.name}' requested skip. Skipping ADO sync.`);
+                      if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'skipped_by_rule', ...ruleLogFields }).eq('id', logEntryId);
                     } else {
-                      console.log(`Status condition not met (Current: ${currentStatus}, Last Known: ${lastKnownStatus}). Skipping ADO sync.`);
-                      if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'skipped_status_check', details: `Current status '${currentStatus}' did not meet trigger condition.` }).eq('id', logEntryId);
+                      console.log(`No trigger rule matched (Current: ${currentStatus}, Last Known: ${lastKnownStatus}). Skipping ADO sync.`);
+                      if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'skipped_status_check', ...ruleLogFields }).eq('id', logEntryId);
                     }
 
                     if (currentStatus !== lastKnownStatus && mappingRecord) {
@@ -340,13 +485,31 @@ serve(async (req) => {
                   if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'skipped_no_status', details: 'Could not determine current status from PB API response.' }).eq('id', logEntryId);
                 }
 
+                // --- Rule actions that need an existing mapping ---
+                if (proceedWithSync && (ruleAction === 'update' || ruleAction === 'link') && !mappingRecord?.ado_work_item_id) {
+                  console.log(`Rule action '${ruleAction}' requires an existing ADO mapping. Skipping ADO sync.`);
+                  proceedWithSync = false;
+                  if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'skipped_not_mapped', details: `Rule action '${ruleAction}' requires an existing ADO mapping for ${itemId}.` }).eq('id', logEntryId);
+                } else if (proceedWithSync && ruleAction === 'link' && mappingRecord?.ado_work_item_id) {
+                  proceedWithSync = false;
+                  if (!adoSyncEnabled) {
+                    console.log('⚠️ ADO_SYNC_DISABLED: Skipping link update to ProductBoard');
+                    if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'dry_run', details: `ADO sync disabled. Would have linked ADO item ${mappingRecord.ado_work_item_id}.` }).eq('id', logEntryId);
+                  } else {
+                    const adoWorkItemUrl = mappingRecord.ado_work_item_url || `https://dev.azure.com/${adoOrg}/${adoProject}/_workitems/edit/${mappingRecord.ado_work_item_id}`;
+                    if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'link_requested', details: `Requested PB link update for ADO item ${mappingRecord.ado_work_item_id}` }).eq('id', logEntryId);
+                    await triggerPbLinkUpdater(itemId, mappingRecord.ado_work_item_id, adoWorkItemUrl, logEntryId);
+                  }
+                }
+
                 // --- ADO Create/Update Logic ---
                 if (proceedWithSync) {
                   console.log(`Proceeding with ADO sync for ${itemType} ID: ${itemId}`);
-                  if (!adoOrg || !adoProject || !adoPat) {
+                  const adoPat = await loadCredential('ado_pat', 'ADO_PAT', workspaceId, logEntryId, 'ado_config_error');
+                  if (!adoOrg || !adoProject) {
                     console.error('ADO sync skipped: Missing ADO environment variables.');
-                    if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'ado_config_error', details: 'Missing ADO credentials.' }).eq('id', logEntryId);
-                  } else {
+                    if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'ado_config_error', details: 'Missing ADO organization or project.' }).eq('id', logEntryId);
+                  } else if (adoPat) {
                     // Use Healthcare POC 1 as the default project
                     const defaultProject = 'Healthcare POC 1';
                     
@@ -508,6 +671,7 @@ serve(async (req) => {
                         if (!adoResponse.ok) {
                           console.error(`ADO API Error: ${adoResponse.status} ${adoResponse.statusText}`, JSON.stringify(adoResponseBody, null, 2));
                           if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'ado_error', details: `ADO API Error ${adoResponse.status}: ${adoResponseBody?.message || 'Unknown ADO error'}` }).eq('id', logEntryId);
+                          await queueFailedAdoOperation(workspaceId, itemId, isCreate, existingAdoId, targetWorkItemType, adoPayload, `ADO API Error ${adoResponse.status}: ${adoResponseBody?.message || 'Unknown ADO error'}`);
                         } else {
                           const createdOrUpdatedAdoId = adoResponseBody.id;
                           const adoWorkItemUrl = adoResponseBody?._links?.html?.href || `https://dev.azure.com/${adoOrg}/${adoProject}/_workitems/edit/${createdOrUpdatedAdoId}`;
@@ -517,6 +681,7 @@ serve(async (req) => {
                           const { error: upsertError } = await supabase
                             .from('pb_ado_mappings')
                             .upsert({
+                              ...(workspaceId ? { workspace_id: workspaceId } : {}),
                               productboard_id: itemId,
                               ado_work_item_id: createdOrUpdatedAdoId,
                               ado_work_item_url: adoWorkItemUrl,
@@ -531,49 +696,22 @@ serve(async (req) => {
                             if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'mapping_update_error', details: `Failed to upsert mapping: ${upsertError.message}` }).eq('id', logEntryId);
                           } else {
                             console.log('Successfully upserted mapping.');
+                            // Remember what we wrote so the resulting ADO webhook is recognised as an echo
+                            await recordWriteback(supabase, itemId, 'ado', { 'System.Title': pbFeatureName });
                             if (logEntryId) {
                               const finalStatus = isCreate ? 'ado_created' : 'ado_updated';
                               await supabase.from('pb_ado_automation_logs').update({ status: finalStatus, details: `Successfully ${finalStatus} ADO item ${createdOrUpdatedAdoId}` }).eq('id', logEntryId);
                             }
                             // Only trigger the pb-link-updater if ADO sync is actually enabled
                             if (adoSyncEnabled) {
-                              // Trigger the pb-link-updater function to add the ADO link to ProductBoard
-                              console.log(`Triggering pb-link-updater for PB ID ${itemId} and ADO URL ${adoWorkItemUrl}`);
-                              try {
-                                const linkUpdaterUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/pb-link-updater`;
-                                const linkUpdaterResponse = await fetch(linkUpdaterUrl, {
-                                  method: 'POST',
-                                  headers: { 'Content-Type': 'application/json' },
-                                  body: JSON.stringify({
-                                    productboard_id: itemId,
-                                    ado_work_item_id: createdOrUpdatedAdoId,
-                                    ado_work_item_url: adoWorkItemUrl,
-                                    log_entry_id: logEntryId
-                                  })
-                                });
-                                
-                                if (!linkUpdaterResponse.ok) {
-                                  const linkUpdaterError = await linkUpdaterResponse.text();
-                                  console.error(`Error calling pb-link-updater: ${linkUpdaterResponse.status} ${linkUpdaterError}`);
-                                  if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ 
-                                    details: `ADO item created/updated, but failed to trigger link update: ${linkUpdaterResponse.status}`
-                                  }).eq('id', logEntryId);
-                                } else {
-                                  const linkResult = await linkUpdaterResponse.json();
-                                  console.log(`pb-link-updater response:`, JSON.stringify(linkResult, null, 2));
-                                }
-                              } catch (linkError) {
-                                console.error(`Exception calling pb-link-updater:`, linkError);
-                                if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ 
-                                  details: `ADO item created/updated, but exception calling link updater: ${linkError.message}`
-                                }).eq('id', logEntryId);
-                              }
+                              await triggerPbLinkUpdater(itemId, createdOrUpdatedAdoId, adoWorkItemUrl, logEntryId);
                             }
                           }
                         }
                       } catch (adoFetchError) {
                         console.error('Network or fetch error calling ADO API:', adoFetchError);
                         if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'ado_error', details: `Network/Fetch Error calling ADO: ${adoFetchError.message}` }).eq('id', logEntryId);
+                        await queueFailedAdoOperation(workspaceId, itemId, isCreate, existingAdoId, targetWorkItemType, adoPayload, `Network/Fetch Error calling ADO: ${adoFetchError.message}`);
                       }
                     }
                   }
@@ -590,14 +728,14 @@ serve(async (req) => {
          if (logEntryId) await supabase.from('pb_ado_automation_logs').update({ status: 'ignored', details: `No PB API endpoint for itemType ${itemType}` }).eq('id', logEntryId);
       }
     } else {
-      console.log('Skipping fetch/sync due to missing ID, itemType, or PB API token.');
-       if (logEntryId && !pbApiToken) {
-          await supabase.from('pb_ado_automation_logs').update({ status: 'config_error', details: 'Missing PB_API_TOKEN' }).eq('id', logEntryId);
-       } else if (logEntryId) {
+      console.log('Skipping fetch/sync due to missing ID or itemType.');
+       if (logEntryId) {
           await supabase.from('pb_ado_automation_logs').update({ details: 'Skipping fetch/sync due to missing ID or unhandled event type.' }).eq('id', logEntryId);
        }
     }
 
+    if (deliveryId) await completeWebhookDelivery(supabase, 'productboard', deliveryId);
+
     // --- Step 6: Respond to ProductBoard ---
     console.log('Sending success response to ProductBoard.');
     return new Response(JSON.stringify({ success: true, message: 'Webhook received', logId: logEntryId }), {
@@ -608,6 +746,7 @@ serve(async (req) => {
   } catch (error) {
     // Catch any unexpected errors in the main POST handler
     console.error('Unexpected error processing POST request:', error);
+    if (deliveryId) await releaseWebhookDelivery(supabase, 'productboard', deliveryId);
     if (logEntryId) {
        supabase.from('pb_ado_automation_logs').update({ status: 'unexpected_error', details: error.message }).eq('id', logEntryId).then();
     }
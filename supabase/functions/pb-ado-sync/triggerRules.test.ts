@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SYNC_TRIGGER_RULES,
+  SyncTriggerContext,
+  SyncTriggerRule,
+  evaluateTriggerRules,
+  fetchTriggerRules
+} from './triggerRules';
+
+function rule(overrides: Partial<SyncTriggerRule>): SyncTriggerRule {
+  return {
+    id: 'rule-1',
+    workspace_id: 'ws-1',
+    name: 'Create on With Engineering',
+    priority: 100,
+    enabled: true,
+    from_status: null,
+    to_status: 'With Engineering',
+    feature_type: null,
+    component_id: null,
+    custom_field_conditions: {},
+    action: 'create',
+    ...overrides,
+  };
+}
+
+function context(overrides: Partial<SyncTriggerContext>): SyncTriggerContext {
+  return {
+    previousStatus: 'Planned',
+    currentStatus: 'With Engineering',
+    featureType: 'feature',
+    componentId: 'comp-1',
+    customFields: {},
+    ...overrides,
+  };
+}
+
+// Resolves the rules query with the given result and records the filters it was built with
+function rulesTable(result: { data: SyncTriggerRule[] | null; error: { message: string } | null }) {
+  const filters: unknown[][] = [];
+  const query: Record<string, any> = {};
+  for (const method of ['select', 'eq', 'order', 'or', 'is']) {
+    query[method] = (...args: unknown[]) => {
+      filters.push([method, ...args]);
+      return query;
+    };
+  }
+  query.then = (resolve: (value: unknown) => void) => resolve(result);
+
+  return { filters, supabase: { from: () => query } };
+}
+
+describe('evaluateTriggerRules', () => {
+  it('should apply the matching rule with the lowest priority number', () => {
+    const decision = evaluateTriggerRules(
+      [
+        rule({ id: 'late', priority: 200, action: 'update' }),
+        rule({ id: 'early', priority: 10, action: 'link' }),
+        rule({ id: 'disabled', priority: 1, enabled: false, action: 'skip' }),
+      ],
+      context({})
+    );
+
+    expect(decision.rule?.id).toBe('early');
+    expect(decision.action).toBe('link');
+    expect(decision.reason).toBe("Rule 'Create on With Engineering' matched transition 'Planned' -> 'With Engineering' (action: link).");
+  });
+
+  it('should skip a higher priority rule whose conditions do not match', () => {
+    const decision = evaluateTriggerRules(
+      [
+        rule({ id: 'other-component', priority: 10, component_id: 'comp-2', action: 'skip' }),
+        rule({ id: 'epics-only', priority: 20, feature_type: 'epic', action: 'skip' }),
+        rule({ id: 'wrong-field', priority: 30, custom_field_conditions: { team: 'Search' }, action: 'skip' }),
+        rule({ id: 'fallback', priority: 100 }),
+      ],
+      context({ customFields: { team: 'Payments' } })
+    );
+
+    expect(decision.rule?.id).toBe('fallback');
+  });
+
+  it('should let a skip rule hold back a transition that a lower priority rule would sync', () => {
+    const rules = [
+      rule({ id: 'skip-spikes', priority: 10, feature_type: 'spike', action: 'skip' }),
+      rule({ id: 'create', priority: 100 }),
+    ];
+
+    const skipped = evaluateTriggerRules(rules, context({ featureType: 'Spike' }));
+    expect(skipped).toMatchObject({ action: 'skip', rule: { id: 'skip-spikes' } });
+
+    const synced = evaluateTriggerRules(rules, context({ featureType: 'feature' }));
+    expect(synced).toMatchObject({ action: 'create', rule: { id: 'create' } });
+  });
+
+  it('should let a higher priority sync rule force a transition that a skip rule would hold back', () => {
+    const decision = evaluateTriggerRules(
+      [
+        rule({ id: 'skip-all', priority: 50, to_status: null, action: 'skip' }),
+        rule({ id: 'force-payments', priority: 5, custom_field_conditions: { team: 'payments' }, action: 'update' }),
+      ],
+      context({ customFields: { team: ' Payments ' } })
+    );
+
+    expect(decision).toMatchObject({ action: 'update', rule: { id: 'force-payments' } });
+  });
+
+  it('should skip without a rule when no rule matches', () => {
+    const decision = evaluateTriggerRules([rule({ from_status: 'Idea' })], context({}));
+
+    expect(decision).toEqual({
+      rule: null,
+      action: 'skip',
+      reason: "No trigger rule matched transition 'Planned' -> 'With Engineering'.",
+    });
+  });
+
+  it('should skip when the status did not change, whatever the rules say', () => {
+    const decision = evaluateTriggerRules([rule({ to_status: null })], context({ previousStatus: 'with engineering' }));
+
+    expect(decision).toMatchObject({ rule: null, action: 'skip', reason: "Status 'With Engineering' did not change." });
+  });
+
+  it('should create a work item on With Engineering with the default rules, also for unmapped items', () => {
+    expect(evaluateTriggerRules(DEFAULT_SYNC_TRIGGER_RULES, context({ previousStatus: null })).action).toBe('create');
+    expect(evaluateTriggerRules(DEFAULT_SYNC_TRIGGER_RULES, context({ currentStatus: 'Done' })).action).toBe('skip');
+  });
+});
+
+describe('fetchTriggerRules', () => {
+  it('should read the global rules and those of the workspace', async () => {
+    const rules = [rule({})];
+    const { filters, supabase } = rulesTable({ data: rules, error: null });
+
+    expect(await fetchTriggerRules(supabase, 'ws-1')).toBe(rules);
+    expect(filters).toContainEqual(['or', 'workspace_id.is.null,workspace_id.eq.ws-1']);
+  });
+
+  it('should only read the global rules without a workspace', async () => {
+    const { filters, supabase } = rulesTable({ data: [], error: null });
+
+    expect(await fetchTriggerRules(supabase, null)).toEqual([]);
+    expect(filters).toContainEqual(['is', 'workspace_id', null]);
+  });
+
+  it('should fall back to the default rules when the rules cannot be read', async () => {
+    const { supabase } = rulesTable({ data: null, error: { message: 'relation does not exist' } });
+
+    expect(await fetchTriggerRules(supabase, 'ws-1')).toBe(DEFAULT_SYNC_TRIGGER_RULES);
+  });
+});
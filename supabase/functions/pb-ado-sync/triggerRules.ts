@@ -0,0 +1,158 @@
+/**
+ * Trigger Rule Engine for ProductBoard to Azure DevOps Integration
+ *
+ * Rules are stored per workspace in pb_ado_sync_rules and decide what
+ * pb-ado-sync does when a ProductBoard item changes status.
+ */
+
+export type SyncRuleAction = 'create' | 'update' | 'link' | 'skip';
+
+export interface SyncTriggerRule {
+  // NULL only for the built-in fallback rule, which is not stored in the database
+  id: string | null;
+  workspace_id: string | null;
+  name: string;
+  description?: string | null;
+  priority: number;
+  enabled: boolean;
+  from_status: string | null;
+  to_status: string | null;
+  feature_type: string | null;
+  component_id: string | null;
+  custom_field_conditions: Record<string, string | number | boolean>;
+  action: SyncRuleAction;
+}
+
+export interface SyncTriggerContext {
+  previousStatus: string | null;
+  currentStatus: string;
+  featureType: string | null;
+  componentId: string | null;
+  customFields: Record<string, any>;
+}
+
+export interface SyncTriggerDecision {
+  rule: SyncTriggerRule | null;
+  action: SyncRuleAction;
+  reason: string;
+}
+
+// Used when the rules table cannot be read, so the webhook keeps its original behaviour
+export const DEFAULT_SYNC_TRIGGER_RULES: SyncTriggerRule[] = [
+  {
+    id: null,
+    workspace_id: null,
+    name: 'Sync when moved to With Engineering',
+    priority: 100,
+    enabled: true,
+    from_status: null,
+    to_status: 'With Engineering',
+    feature_type: null,
+    component_id: null,
+    custom_field_conditions: {},
+    action: 'create'
+  }
+];
+
+/**
+ * Fetch the enabled trigger rules that apply to a workspace
+ * @param supabase The Supabase client instance
+ * @param workspaceId The workspace to load rules for; global (NULL workspace) rules are always included
+ * @returns Promise<SyncTriggerRule[]> Rules ordered by priority
+ */
+export async function fetchTriggerRules(supabase: any, workspaceId: string | null): Promise<SyncTriggerRule[]> {
+  try {
+    let query = supabase
+      .from('pb_ado_sync_rules')
+      .select('*')
+      .eq('enabled', true)
+      .order('priority', { ascending: true });
+
+    query = workspaceId
+      ? query.or(`workspace_id.is.null,workspace_id.eq.${workspaceId}`)
+      : query.is('workspace_id', null);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching sync trigger rules:', error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Exception in fetchTriggerRules:', err);
+    return DEFAULT_SYNC_TRIGGER_RULES;
+  }
+}
+
+// Status names are compared case-insensitively and ignoring surrounding whitespace
+function sameValue(expected: unknown, actual: unknown): boolean {
+  if (actual === undefined || actual === null) return false;
+  return String(expected).trim().toLowerCase() === String(actual).trim().toLowerCase();
+}
+
+/**
+ * Check a single rule against the transition and return why it did not match, or null if it did
+ */
+function getMismatchReason(rule: SyncTriggerRule, context: SyncTriggerContext): string | null {
+  if (rule.from_status && !sameValue(rule.from_status, context.previousStatus)) {
+    return `from status '${context.previousStatus ?? 'none'}' is not '${rule.from_status}'`;
+  }
+  if (rule.to_status && !sameValue(rule.to_status, context.currentStatus)) {
+    return `to status '${context.currentStatus}' is not '${rule.to_status}'`;
+  }
+  if (rule.feature_type && !sameValue(rule.feature_type, context.featureType)) {
+    return `type '${context.featureType ?? 'none'}' is not '${rule.feature_type}'`;
+  }
+  if (rule.component_id && rule.component_id !== context.componentId) {
+    return `component '${context.componentId ?? 'none'}' is not '${rule.component_id}'`;
+  }
+  for (const [field, expected] of Object.entries(rule.custom_field_conditions || {})) {
+    if (!sameValue(expected, context.customFields?.[field])) {
+      return `custom field '${field}' is not '${expected}'`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Evaluate the trigger rules for a status transition. Rules are checked in priority
+ * order and the first match wins; no match means the event is skipped.
+ * @param rules The rules to evaluate
+ * @param context The transition and item attributes to match against
+ * @returns SyncTriggerDecision The matched rule (if any), its action and a human readable reason
+ */
+export function evaluateTriggerRules(rules: SyncTriggerRule[], context: SyncTriggerContext): SyncTriggerDecision {
+  if (context.previousStatus !== null && sameValue(context.previousStatus, context.currentStatus)) {
+    return {
+      rule: null,
+      action: 'skip',
+      reason: `Status '${context.currentStatus}' did not change.`
+    };
+  }
+
+  const sortedRules = [...rules]
+    .filter(rule => rule.enabled)
+    .sort((a, b) => a.priority - b.priority);
+
+  for (const rule of sortedRules) {
+    const mismatch = getMismatchReason(rule, context);
+    if (mismatch) {
+      console.log(`Rule '${rule.name}' skipped: ${mismatch}`);
+      continue;
+    }
+
+    return {
+      rule,
+      action: rule.action,
+      reason: `Rule '${rule.name}' matched transition '${context.previousStatus ?? 'none'}' -> '${context.currentStatus}' (action: ${rule.action}).`
+    };
+  }
+
+  return {
+    rule: null,
+    action: 'skip',
+    reason: `No trigger rule matched transition '${context.previousStatus ?? 'none'}' -> '${context.currentStatus}'.`
+  };
+}
@@ -1,6 +1,8 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.21.0';
 import { corsHeaders } from '../_shared/cors.ts';
+import { getSecret } from '../_shared/secrets.ts';
+import { PbLinkUpdateRequest } from '../_shared/contracts.ts';
 
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
@@ -12,20 +14,6 @@ if (!supabaseUrl || !serviceRoleKey) {
 const supabase = createClient(supabaseUrl, serviceRoleKey);
 console.log('Supabase client initialized.');
 
-// Get ProductBoard API Token and session cookie - for automation and UI interaction
-const pbApiToken = Deno.env.get('PB_API_TOKEN');
-const pbSessionToken = Deno.env.get('PB_SESSION_TOKEN');
-if (!pbApiToken) {
-  console.error('FATAL: Missing PB_API_TOKEN environment variable');
-} else {
-  console.log('ProductBoard API token loaded.');
-}
-if (!pbSessionToken) {
-  console.error('WARNING: Missing PB_SESSION_TOKEN environment variable. UI automation will not work.');
-} else {
-  console.log('ProductBoard session token loaded.');
-}
-
 async function updateProductBoardLink(
   pbId: string, 
   adoUrl: string, 
@@ -39,8 +27,10 @@ async function updateProductBoardLink(
     return { success: false, message };
   }
 
+  // Stored token first, PB_API_TOKEN for deployments that have not moved it to config_secrets yet
+  const pbApiToken = await getSecret(supabase, 'productboard_api_token', { envVar: 'PB_API_TOKEN' });
   if (!pbApiToken) {
-    const message = 'Unable to update ProductBoard link: Missing PB_API_TOKEN';
+    const message = 'Unable to update ProductBoard link: ProductBoard API token is not configured';
     console.error(message);
     return { success: false, message };
   }
@@ -217,7 +207,7 @@ serve(async (req) => {
         });
       }
       
-      const requestData = JSON.parse(requestText);
+      const requestData: PbLinkUpdateRequest = JSON.parse(requestText);
       console.log('Request data:', JSON.stringify(requestData, null, 2));
       
       const pbId = requestData.productboard_id;
@@ -1,177 +1,197 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { encode as encodeBase64 } from 'https://deno.land/std@0.177.0/encoding/base64.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { callerHasRole, callerIsWorkspaceMember, getCaller } from '../_shared/auth.ts';
+import { getLlmClient, LlmClient } from '../_shared/llm.ts';
+import { RankingScreenshotSchema } from '../_shared/aiSchemas.ts';
+import { rankMatches } from '../_shared/textSimilarity.ts';
+import { RankingScreenshotResponse, ScreenshotFeatureMatch, ScreenshotRankingRow } from '../_shared/contracts.ts';
 
-// Simple CORS headers for development
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-};
+/**
+ * Reads the ranked list in a screenshot of a ProductBoard board with a vision-capable model and
+ * matches every row to a stored productboard_features record: by the PB ID when the row shows one,
+ * otherwise by fuzzy matching the feature name. Nothing is stored here; the app lets the user
+ * correct the matches and saves the ranking through save-screenshot-ranking.
+ */
 
 // Regular expression to match ProductBoard IDs (e.g., PB-123)
-const STORY_ID_REGEX = /([A-Z]+-\d+)/g;
+const STORY_ID_REGEX = /\b([A-Z]+-\d+)\b/;
 
-// Simple text extraction from image using canvas
-async function extractTextFromImage(imageData: Uint8Array): Promise<string> {
-  try {
-    // In a real implementation, we would use a more robust OCR solution
-    // For now, we'll return a mock text that simulates what might be extracted
-    // This is a placeholder for the actual OCR implementation
-    return `
-      ProductBoard Priority List
-      
-      PB-123 Implement user authentication
-      PB-456 Add dashboard analytics
-      PB-789 Fix navigation bug
-      PB-234 Improve search functionality
-      PB-567 Update user profile page
-    `;
-  } catch (error) {
-    console.error('Error extracting text from image:', error);
-    throw new Error('Failed to extract text from image');
+// Name matches below this confidence are offered as candidates but not preselected
+const MIN_MATCH_CONFIDENCE = 0.6;
+const CANDIDATE_COUNT = 3;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// productboard_features is read in pages of this size
+const PAGE_SIZE = 1000;
+
+interface StoredFeature {
+  productboard_id: string;
+  name: string;
+}
+
+interface RecognizedRow {
+  text: string;
+  pb_id?: string;
+  indent_level?: number;
+}
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') || '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+);
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+// Read the rows of the ranked list in the image, top to bottom
+async function extractRowsFromImage(llm: LlmClient, image: Uint8Array, mediaType: string): Promise<RecognizedRow[]> {
+  const result = await llm.structured([
+    {
+      role: 'system',
+      content: `You read ranked lists from screenshots of ProductBoard boards. Transcribe every item of the list exactly as shown, from top to bottom, and nothing else: skip headers, column names, buttons and other interface text.
+
+Reply with a JSON object in this format:
+{
+  "rows": [
+    { "text": "Full text of the item as shown", "pb_id": "PB-123 if an ID is shown on the row, otherwise null", "indent_level": 0 }
+  ]
+}
+
+indent_level is 0 for top-level items and 1 or more for items indented under another item.`,
+    },
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Transcribe the ranked list in this screenshot.' },
+        { type: 'image', mediaType, data: encodeBase64(image) },
+      ],
+    },
+  ], RankingScreenshotSchema, {
+    temperature: 0,
+    maxTokens: 4000,
+  });
+
+  if (!result.success) {
+    throw new Error(`Invalid text extraction from AI response: ${result.issues.join('; ')}`);
   }
+
+  return result.data.rows;
 }
 
-// Extract story IDs and their positions from text
-function extractStoryIdsFromText(text: string): Array<{ id: string, position: number }> {
-  const lines = text.split('\n');
-  const results: Array<{ id: string, position: number }> = [];
-  
-  lines.forEach((line, index) => {
-    const match = line.match(STORY_ID_REGEX);
-    if (match) {
-      match.forEach(id => {
-        results.push({
-          id,
-          position: index, // Use line number as position
-        });
-      });
+// All stored features of a workspace
+async function getStoredFeatures(workspaceId: string): Promise<StoredFeature[]> {
+  const features: StoredFeature[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('productboard_features')
+      .select('productboard_id, name')
+      .eq('workspace_id', workspaceId)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to get features: ${error.message}`);
     }
-  });
-  
-  return results;
+
+    features.push(...(data || []).filter((feature: StoredFeature) => feature.productboard_id && feature.name));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return features;
+}
+
+// Match a recognized row to a stored feature, by its PB ID if it shows one and by its name otherwise
+function matchRow(row: RecognizedRow, rank: number, features: StoredFeature[], featuresById: Map<string, StoredFeature>): ScreenshotRankingRow {
+  const pbId = row.pb_id?.trim() || row.text.match(STORY_ID_REGEX)?.[1] || null;
+  const name = pbId ? row.text.replace(pbId, '').trim() : row.text;
+
+  const candidates: ScreenshotFeatureMatch[] = rankMatches(name, features, feature => feature.name, { limit: CANDIDATE_COUNT })
+    .map(({ item, score }) => ({
+      productboard_id: item.productboard_id,
+      name: item.name,
+      confidence: Math.round(score * 100) / 100,
+      method: 'name' as const,
+    }));
+
+  const byId = pbId ? featuresById.get(pbId.toLowerCase()) : undefined;
+  const match: ScreenshotFeatureMatch | null = byId
+    ? { productboard_id: byId.productboard_id, name: byId.name, confidence: 1, method: 'id' }
+    : candidates[0] && candidates[0].confidence >= MIN_MATCH_CONFIDENCE ? candidates[0] : null;
+
+  return {
+    rank,
+    text: row.text,
+    pb_id: pbId,
+    indent_level: row.indent_level ?? null,
+    match,
+    candidates,
+  };
 }
 
 Deno.serve(async (req) => {
   // Handle CORS preflight request
   if (req.method === 'OPTIONS') {
-    return new Response(null, { 
+    return new Response(null, {
       status: 204,
-      headers: corsHeaders 
+      headers: corsHeaders
     });
   }
 
   try {
+    // Only the roles that can save a ranking may read one
+    const caller = await getCaller(req, supabase);
+    if (!callerHasRole(caller, ['admin', 'product_manager'])) {
+      return jsonResponse({ success: false, error: 'Only admins and product managers can import rankings' }, 403);
+    }
+
     // Parse multipart form data
     const formData = await req.formData();
-    const file = formData.get('file') as File;
-    const workspaceId = formData.get('workspace_id') as string;
-    
+    const file = formData.get('file') as File | null;
+    const workspaceId = formData.get('workspace_id') as string | null;
+
     if (!file || !workspaceId) {
-      return new Response(
-        JSON.stringify({ error: 'File and workspace_id are required' }),
-        {
-          status: 400,
-          headers: {
-            'Content-Type': 'application/json',
-            ...corsHeaders,
-          },
-        }
-      );
+      return jsonResponse({ success: false, error: 'File and workspace_id are required' }, 400);
+    }
+    if (!(await callerIsWorkspaceMember(caller, workspaceId, supabase))) {
+      return jsonResponse({ success: false, error: `Not a member of workspace ${workspaceId}` }, 403);
+    }
+    if (!IMAGE_TYPES.includes(file.type)) {
+      return jsonResponse({ success: false, error: `Unsupported image type ${file.type || 'unknown'}; use PNG, JPEG, WebP or GIF` }, 400);
     }
-    
+    if (file.size > MAX_IMAGE_BYTES) {
+      return jsonResponse({ success: false, error: 'The image must be 10 MB or smaller' }, 400);
+    }
+
     console.log(`Processing file: ${file.name}, size: ${file.size} bytes`);
     console.log(`Workspace ID: ${workspaceId}`);
-    
-    // Process the image to extract text
-    const imageBuffer = await file.arrayBuffer();
-    const extractedText = await extractTextFromImage(new Uint8Array(imageBuffer));
-    console.log('Extracted text:', extractedText);
-    
-    // Extract story IDs and their positions
-    const extractedStories = extractStoryIdsFromText(extractedText);
-    console.log('Extracted stories:', extractedStories);
-    
-    // Sort by position (line number) to determine ranking
-    extractedStories.sort((a, b) => a.position - b.position);
-    
-    // Assign ranks
-    const rankedStories = extractedStories.map((story, index) => ({
-      ...story,
-      rank: index + 1,
-    }));
-    
-    // Get current stories from database
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') || '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
-    );
-    
-    let dbStories = [];
-    try {
-      // Try to get stories from the database
-      const { data, error } = await supabase
-        .from('stories')
-        .select('id, pb_id, pb_title, current_rank')
-        .eq('workspace_id', workspaceId);
-        
-      if (error) {
-        console.error('Database error:', error);
-      } else {
-        dbStories = data || [];
-      }
-    } catch (dbError) {
-      console.error('Failed to query database:', dbError);
-    }
-    
-    // Match extracted stories with database records
-    const results = rankedStories
-      .map(extracted => {
-        const matchingStory = dbStories.find(s => s.pb_id === extracted.id);
-        if (!matchingStory) {
-          // If no matching story in database, create a mock one
-          return {
-            storyId: `mock-${extracted.id}`,
-            title: `Mock Story for ${extracted.id}`,
-            currentRank: extracted.rank,
-            previousRank: null,
-            extracted: true, // Flag to indicate this was extracted from the image
-          };
-        }
-        
-        return {
-          storyId: matchingStory.id,
-          title: matchingStory.pb_title,
-          currentRank: extracted.rank,
-          previousRank: matchingStory.current_rank || null,
-          extracted: true, // Flag to indicate this was extracted from the image
-        };
-      });
-    
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        results,
-        extractedText, // Include the extracted text for debugging
-        message: "Image processed successfully. Story IDs extracted and ranked."
-      }),
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders,
-        },
-      }
-    );
+
+    // Read the list with the provider and model configured for the workspace
+    const llm = await getLlmClient(supabase, 'process-ranking-screenshot', { workspaceId });
+    const recognizedRows = await extractRowsFromImage(llm, new Uint8Array(await file.arrayBuffer()), file.type);
+    console.log(`Recognized ${recognizedRows.length} rows`);
+
+    const features = await getStoredFeatures(workspaceId);
+    const featuresById = new Map(features.map(feature => [feature.productboard_id.toLowerCase(), feature]));
+
+    // The rows are in ranking order
+    const rows = recognizedRows.map((row, index) => matchRow(row, index + 1, features, featuresById));
+
+    const response: RankingScreenshotResponse = {
+      success: true,
+      rows,
+      extracted_text: recognizedRows.map(row => row.text).join('\n'),
+      model: llm.model,
+    };
+    return jsonResponse(response);
   } catch (error) {
     console.error('Function error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message || 'Unknown error' }),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders,
-        },
-      }
-    );
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500);
   }
 });
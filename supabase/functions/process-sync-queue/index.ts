@@ -0,0 +1,293 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.21.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { callerHasRole, getCaller } from '../_shared/auth.ts';
+import { requireSecret } from '../_shared/secrets.ts';
+
+/**
+ * Scheduled function that retries failed sync operations from pb_ado_sync_jobs.
+ * Jobs are retried with exponential backoff; once max_attempts is reached they are
+ * moved to the dead_letter state, where they can be inspected and replayed from the admin UI.
+ */
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+const adoOrg = Deno.env.get('ADO_ORG');
+const adoProject = Deno.env.get('ADO_PROJECT');
+
+// Backoff settings: base * 2^(attempt - 1), capped
+const RETRY_BASE_SECONDS = Number(Deno.env.get('SYNC_RETRY_BASE_SECONDS') || 60);
+const RETRY_MAX_SECONDS = Number(Deno.env.get('SYNC_RETRY_MAX_SECONDS') || 6 * 60 * 60);
+const BATCH_SIZE = Number(Deno.env.get('SYNC_QUEUE_BATCH_SIZE') || 10);
+
+const ADO_API_VERSION = '7.1-preview.3';
+
+interface SyncJob {
+  id: string;
+  sync_log_id: string | null;
+  mapping_id: string | null;
+  workspace_id: string | null;
+  operation_type: 'create' | 'update' | 'link' | 'rank_update';
+  payload: Record<string, any>;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface JobResult {
+  response: Record<string, any>;
+}
+
+/**
+ * Seconds to wait before the next attempt, with up to 10% jitter so retries spread out
+ */
+function getBackoffSeconds(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_SECONDS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_SECONDS);
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
+
+async function getAdoAuthHeader(workspaceId: string | null): Promise<string> {
+  if (!adoOrg || !adoProject) {
+    throw new Error('Missing ADO_ORG or ADO_PROJECT environment variables');
+  }
+  const adoPat = await requireSecret(supabase, 'ado_pat', { workspaceId, envVar: 'ADO_PAT' });
+  return `Basic ${btoa(`:${adoPat}`)}`;
+}
+
+/**
+ * Resolve the ADO work item ID from the payload, falling back to the job's enhanced mapping
+ */
+async function resolveAdoWorkItemId(job: SyncJob): Promise<number> {
+  if (job.payload.ado_work_item_id) {
+    return Number(job.payload.ado_work_item_id);
+  }
+
+  if (job.mapping_id) {
+    const { data, error } = await supabase
+      .from('pb_ado_enhanced_mappings')
+      .select('ado_work_item_id')
+      .eq('id', job.mapping_id)
+      .single();
+
+    if (error) throw new Error(`Error fetching mapping ${job.mapping_id}: ${error.message}`);
+    if (data?.ado_work_item_id) return data.ado_work_item_id;
+  }
+
+  throw new Error('Payload has no ado_work_item_id and the mapping has no ADO work item');
+}
+
+/**
+ * Send a JSON patch document to the ADO work items API
+ */
+async function callAdoWorkItemsApi(job: SyncJob, method: 'POST' | 'PATCH', path: string, patch: any[]): Promise<Record<string, any>> {
+  const authHeader = await getAdoAuthHeader(job.workspace_id);
+  const apiUrl = `https://dev.azure.com/${adoOrg}/${encodeURIComponent(adoProject!)}/_apis/wit/workitems/${path}?api-version=${ADO_API_VERSION}`;
+
+  const response = await fetch(apiUrl, {
+    method,
+    headers: { 'Authorization': authHeader, 'Content-Type': 'application/json-patch+json' },
+    body: JSON.stringify(patch),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`ADO API Error ${response.status}: ${body?.message || response.statusText}`);
+  }
+  return body;
+}
+
+/**
+ * Re-run a single job's operation
+ */
+async function runJob(job: SyncJob): Promise<JobResult> {
+  const payload = job.payload || {};
+
+  switch (job.operation_type) {
+    case 'create': {
+      if (!Array.isArray(payload.patch)) throw new Error('Create payload needs a patch array');
+      const workItemType = encodeURIComponent(payload.work_item_type || 'User Story');
+      const created = await callAdoWorkItemsApi(job, 'POST', `$${workItemType}`, payload.patch);
+
+      if (job.mapping_id) {
+        await supabase
+          .from('pb_ado_enhanced_mappings')
+          .update({ ado_work_item_id: created.id, status: 'synced' })
+          .eq('id', job.mapping_id);
+      }
+
+      if (payload.productboard_id) {
+        await supabase
+          .from('pb_ado_mappings')
+          .upsert({
+            productboard_id: payload.productboard_id,
+            ado_work_item_id: created.id,
+            ado_work_item_url: created._links?.html?.href || `https://dev.azure.com/${adoOrg}/${adoProject}/_workitems/edit/${created.id}`,
+            last_synced_at: new Date().toISOString(),
+            sync_status: 'success',
+            sync_error: null,
+          }, { onConflict: 'productboard_id' });
+      }
+
+      return { response: { id: created.id, rev: created.rev } };
+    }
+
+    case 'update': {
+      if (!Array.isArray(payload.patch)) throw new Error('Update payload needs a patch array');
+      const adoId = await resolveAdoWorkItemId(job);
+      const updated = await callAdoWorkItemsApi(job, 'PATCH', String(adoId), payload.patch);
+      return { response: { id: updated.id, rev: updated.rev } };
+    }
+
+    case 'rank_update': {
+      if (!Array.isArray(payload.patch) && payload.rank === undefined) {
+        throw new Error('Rank update payload needs a rank or a patch array');
+      }
+      const adoId = await resolveAdoWorkItemId(job);
+      const patch = Array.isArray(payload.patch)
+        ? payload.patch
+        : [{ op: 'add', path: '/fields/Microsoft.VSTS.Common.StackRank', value: payload.rank }];
+      const updated = await callAdoWorkItemsApi(job, 'PATCH', String(adoId), patch);
+      return { response: { id: updated.id, rev: updated.rev } };
+    }
+
+    case 'link': {
+      if (!payload.productboard_id) throw new Error('Link payload needs a productboard_id');
+      const adoId = await resolveAdoWorkItemId(job);
+      const response = await fetch(`${supabaseUrl}/functions/v1/pb-link-updater`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${serviceRoleKey}` },
+        body: JSON.stringify({
+          productboard_id: payload.productboard_id,
+          ado_work_item_id: adoId,
+          ado_work_item_url: payload.ado_work_item_url || `https://dev.azure.com/${adoOrg}/${adoProject}/_workitems/edit/${adoId}`,
+          log_entry_id: payload.log_entry_id || null,
+        }),
+      });
+
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(`pb-link-updater error ${response.status}: ${body?.error || response.statusText}`);
+      }
+      return { response: body };
+    }
+
+    default:
+      throw new Error(`Unsupported operation type: ${job.operation_type}`);
+  }
+}
+
+/**
+ * Mark a job completed and close out its sync log
+ */
+async function completeJob(job: SyncJob, result: JobResult) {
+  await supabase
+    .from('pb_ado_sync_jobs')
+    .update({
+      status: 'completed',
+      attempts: job.attempts + 1,
+      last_error: null,
+      last_response: result.response,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', job.id);
+
+  if (job.sync_log_id) {
+    await supabase
+      .from('pb_ado_sync_logs')
+      .update({ status: 'completed', error_message: null, response_payload: result.response })
+      .eq('id', job.sync_log_id);
+  }
+}
+
+/**
+ * Schedule the next attempt for a failed job, or dead-letter it once attempts are exhausted
+ */
+async function failJob(job: SyncJob, error: Error): Promise<'retrying' | 'dead_letter'> {
+  const attempts = job.attempts + 1;
+  const exhausted = attempts >= job.max_attempts;
+  const now = new Date();
+
+  await supabase
+    .from('pb_ado_sync_jobs')
+    .update({
+      status: exhausted ? 'dead_letter' : 'retrying',
+      attempts,
+      last_error: error.message,
+      locked_at: null,
+      next_attempt_at: exhausted ? now.toISOString() : new Date(now.getTime() + getBackoffSeconds(attempts) * 1000).toISOString(),
+      dead_lettered_at: exhausted ? now.toISOString() : null,
+    })
+    .eq('id', job.id);
+
+  if (job.sync_log_id) {
+    await supabase
+      .from('pb_ado_sync_logs')
+      .update({ status: exhausted ? 'failed' : 'retrying', error_message: error.message })
+      .eq('id', job.sync_log_id);
+  }
+
+  return exhausted ? 'dead_letter' : 'retrying';
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    // Run by the pg_cron job with the service role key, or by an admin replaying a job
+    const caller = await getCaller(req, supabase);
+    if (!callerHasRole(caller, ['admin'])) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins can run the sync retry queue' }),
+        { status: 403, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    console.log('Processing sync retry queue...');
+
+    const { data: jobs, error: claimError } = await supabase.rpc('claim_sync_jobs', { batch_size: BATCH_SIZE });
+    if (claimError) {
+      throw new Error(`Failed to claim sync jobs: ${claimError.message}`);
+    }
+
+    if (!jobs || jobs.length === 0) {
+      console.log('No sync jobs due');
+      return new Response(
+        JSON.stringify({ success: true, processed: 0 }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    console.log(`Claimed ${jobs.length} sync jobs`);
+
+    const results = [];
+    for (const job of jobs as SyncJob[]) {
+      console.log(`Running ${job.operation_type} job ${job.id} (attempt ${job.attempts + 1}/${job.max_attempts})`);
+      try {
+        const result = await runJob(job);
+        await completeJob(job, result);
+        console.log(`Job ${job.id} completed`);
+        results.push({ id: job.id, status: 'completed' });
+      } catch (error) {
+        const jobError = error instanceof Error ? error : new Error(String(error));
+        const status = await failJob(job, jobError);
+        console.error(`Job ${job.id} failed (${status}):`, jobError.message);
+        results.push({ id: job.id, status, error: jobError.message });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error processing sync queue:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+});
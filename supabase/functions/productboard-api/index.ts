@@ -0,0 +1,104 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.21.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { Caller, callerHasRole, callerIsWorkspaceMember, getCaller } from '../_shared/auth.ts';
+import { requireSecret } from '../_shared/secrets.ts';
+import { ProductBoardProxyRequest } from '../_shared/contracts.ts';
+
+/**
+ * Proxy for the ProductBoard API calls made by the app.
+ * The ProductBoard API token is read from config_secrets here, so it never reaches the browser.
+ */
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+const PRODUCTBOARD_API_URL = 'https://api.productboard.com';
+
+// Only the endpoints the app uses can be called through the proxy
+const ALLOWED_PATH = /^\/(features|products|users)(\/[\w-]+)?(\?[^#]*)?$/;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+/**
+ * The caller's workspace when they belong to exactly one, otherwise null for the system-wide token
+ */
+async function getOnlyWorkspace(caller: Caller): Promise<string | null> {
+  if (!caller.userId) return null;
+
+  const { data: memberships, error } = await supabase
+    .from('workspace_users')
+    .select('workspace_id')
+    .eq('user_id', caller.userId)
+    .limit(2);
+  if (error) throw new Error(`Failed to read workspace membership: ${error.message}`);
+
+  return memberships?.length === 1 ? memberships[0].workspace_id : null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    const { method = 'GET', path, body, workspace_id } = await req.json() as ProductBoardProxyRequest;
+
+    if (!path || !ALLOWED_PATH.test(path) || !['GET', 'POST', 'PUT'].includes(method)) {
+      return jsonResponse({ success: false, error: 'Unsupported ProductBoard request' }, 400);
+    }
+
+    // Viewers can read from ProductBoard but not push to it
+    if (method !== 'GET' && !callerHasRole(caller, ['admin', 'product_manager', 'engineer'])) {
+      return jsonResponse({ success: false, error: 'Your role cannot update ProductBoard' }, 403);
+    }
+
+    // The token is chosen by workspace, so callers can only use the token of a workspace they belong to
+    if (workspace_id && !(await callerIsWorkspaceMember(caller, workspace_id, supabase))) {
+      return jsonResponse({ success: false, error: `Not a member of workspace ${workspace_id}` }, 403);
+    }
+
+    const apiToken = await requireSecret(supabase, 'productboard_api_token', {
+      workspaceId: workspace_id || await getOnlyWorkspace(caller),
+      envVar: 'PB_API_TOKEN',
+    });
+
+    const response = await fetch(`${PRODUCTBOARD_API_URL}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Version': '1',
+        'Authorization': `Bearer ${apiToken}`,
+      },
+      body: method === 'GET' || body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    // Pass ProductBoard's status through in the body so the app can handle API errors itself
+    const text = await response.text();
+    let responseBody: unknown = text;
+    try {
+      responseBody = text ? JSON.parse(text) : null;
+    } catch {
+      // Not JSON, return the raw text
+    }
+
+    return jsonResponse({ status: response.status, body: responseBody });
+  } catch (error) {
+    console.error('Error proxying ProductBoard request:', error);
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      500
+    );
+  }
+});
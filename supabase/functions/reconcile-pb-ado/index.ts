@@ -0,0 +1,672 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.21.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { Caller, callerHasRole, callerIsWorkspaceMember, getCaller } from '../_shared/auth.ts';
+import { getConfigValue } from '../_shared/config.ts';
+import { ReconcileRequest, ReconciliationFix, ReconciliationRunSummary } from '../_shared/contracts.ts';
+import {
+  DEFAULT_ENGINEERING_STATUSES,
+  DEFAULT_TITLE_DRIFT_THRESHOLD,
+  PB_TAG_PREFIX,
+  RECONCILIATION_FIXES,
+  ReconcileAdoItem,
+  ReconcileLink,
+  ReconcileOptions,
+  ReconcilePbFeature,
+  ReconciliationFinding,
+  countByKind,
+  reconcile
+} from '../_shared/reconciliation.ts';
+import { adoWorkItemWebUrl, pbIdFromUrl } from '../_shared/pbAdoLinks.ts';
+
+/**
+ * Compares the cached ProductBoard features and ADO work items with pb_ado_mappings and
+ * pb_ado_enhanced_mappings, and keeps pb_ado_reconciliation_issues up to date with what disagrees.
+ * Runs on a schedule for every workspace, or for one workspace from the reconciliation dashboard.
+ *
+ * Fixes are applied here too: links are changed directly, while writes to ADO and ProductBoard
+ * are queued in pb_ado_sync_jobs for process-sync-queue.
+ */
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+const PAGE_SIZE = 1000;
+
+// As handle-ado-webhook falls back to when ado_pb_status_map is not configured
+const DEFAULT_ADO_TO_PB_STATUS_MAP: Record<string, string> = {
+  'New': 'With Engineering',
+  'Active': 'In progress',
+  'Resolved': 'In progress',
+  'Closed': 'Released',
+  'Removed': "Won't do",
+};
+
+const DEFAULT_ARCHIVE_STATE = 'Removed';
+
+// A work item missing from an older cache may just not have been synced, so broken links need a fresh one
+const DEFAULT_ADO_CACHE_MAX_AGE_HOURS = 24;
+
+// Fix jobs that have not run yet; their issues stay resolved until the job is done
+const PENDING_JOB_STATUSES = ['pending', 'in_progress', 'retrying'];
+
+const FIX_RESOLUTIONS: Record<ReconciliationFix, string> = {
+  relink: 'relinked',
+  unlink: 'unlinked',
+  create_missing: 'created',
+  archive: 'archived',
+};
+
+interface IssueRow {
+  id: string;
+  workspace_id: string;
+  issue_key: string;
+  kind: keyof typeof RECONCILIATION_FIXES;
+  status: 'open' | 'resolved' | 'ignored';
+  pb_feature_id: string | null;
+  ado_work_item_id: number | null;
+  resolution: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  fix_job_id: string | null;
+  first_seen_run_id: string | null;
+}
+
+/**
+ * Read every row of a workspace's table, a page at a time
+ */
+async function selectAll(table: string, columns: string, workspaceId: string, filter?: (query: any) => any): Promise<any[]> {
+  const rows: any[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from(table).select(columns).eq('workspace_id', workspaceId);
+    if (filter) query = filter(query);
+
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to read ${table}: ${error.message}`);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+async function getJsonConfig<T>(key: string, workspaceId: string, fallback: T): Promise<T> {
+  const value = await getConfigValue(supabase, key, workspaceId);
+  if (!value) return fallback;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch (parseError) {
+    console.error(`Invalid ${key} JSON, using defaults:`, parseError);
+    return fallback;
+  }
+}
+
+async function getArchiveState(workspaceId: string): Promise<string> {
+  return (await getConfigValue(supabase, 'reconcile_archive_state', workspaceId)) || DEFAULT_ARCHIVE_STATE;
+}
+
+async function loadOptions(workspaceId: string): Promise<ReconcileOptions> {
+  const threshold = Number(await getConfigValue(supabase, 'reconcile_title_drift_threshold', workspaceId));
+
+  return {
+    engineeringStatuses: await getJsonConfig('reconcile_engineering_statuses', workspaceId, DEFAULT_ENGINEERING_STATUSES),
+    statusMap: await getJsonConfig('ado_pb_status_map', workspaceId, DEFAULT_ADO_TO_PB_STATUS_MAP),
+    titleDriftThreshold: threshold > 0 ? threshold : DEFAULT_TITLE_DRIFT_THRESHOLD,
+    archivedAdoStates: [await getArchiveState(workspaceId)],
+  };
+}
+
+/**
+ * Why the workspace's ADO work item cache can't be trusted to be complete, or null when it was synced recently
+ */
+async function getStaleAdoCacheReason(workspaceId: string): Promise<string | null> {
+  const maxAgeHours = Number(await getConfigValue(supabase, 'reconcile_ado_cache_max_age_hours', workspaceId)) || DEFAULT_ADO_CACHE_MAX_AGE_HOURS;
+
+  const { data: lastSync, error } = await supabase
+    .from('ado_sync_history')
+    .select('last_sync_time')
+    .eq('workspace_id', workspaceId)
+    .eq('entity_type', 'work_items')
+    .eq('status', 'success')
+    .order('last_sync_time', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read the ADO sync history: ${error.message}`);
+  }
+  if (!lastSync) {
+    return 'The ADO work items of this workspace have never been synced successfully';
+  }
+
+  const ageHours = (Date.now() - new Date(lastSync.last_sync_time).getTime()) / 3600000;
+  if (ageHours > maxAgeHours) {
+    return `The ADO work items were last synced ${Math.floor(ageHours)} hours ago, more than ${maxAgeHours} hours`;
+  }
+  return null;
+}
+
+function statusName(status: unknown): string | null {
+  if (!status) return null;
+  return typeof status === 'object' ? (status as { name?: string }).name || null : String(status);
+}
+
+// Browser URL of a cached work item, from the REST URL ADO returns for it or else the workspace's ADO project
+async function workItemWebUrl(workspaceId: string, row: { id: number; url?: string | null }): Promise<string> {
+  const cachedUrl = adoWorkItemWebUrl(row);
+  if (cachedUrl) return cachedUrl;
+
+  const { data: workspace, error } = await supabase
+    .from('workspaces')
+    .select('ado_project_id')
+    .eq('id', workspaceId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to read workspace: ${error.message}`);
+
+  const [organization, project] = (workspace?.ado_project_id || '').split('/');
+  if (!organization || !project) {
+    throw new Error(`Work item #${row.id} has no cached URL and the workspace has no ADO organization/project`);
+  }
+  return `https://dev.azure.com/${organization}/${project}/_workitems/edit/${row.id}`;
+}
+
+/**
+ * Load the cached data of a workspace in the shape reconcile() compares
+ */
+async function loadWorkspaceData(workspaceId: string) {
+  const [featureRows, workItemRows, relationRows, enhancedRows, legacyRows] = await Promise.all([
+    selectAll('productboard_features', '*', workspaceId),
+    selectAll('ado_work_items', 'id, title, state, parent_id, tags', workspaceId),
+    selectAll('ado_work_item_relations', 'source_work_item_id, target_url', workspaceId, query =>
+      query.eq('rel_type', 'Hyperlink').ilike('target_url', '%productboard.com%')
+    ),
+    selectAll('pb_ado_enhanced_mappings', 'pb_feature_id, ado_work_item_id', workspaceId, query =>
+      query.not('ado_work_item_id', 'is', null)
+    ),
+    selectAll('pb_ado_mappings', 'productboard_id, ado_work_item_id', workspaceId),
+  ]);
+
+  const features: ReconcilePbFeature[] = featureRows.map(row => ({
+    id: row.productboard_id,
+    name: row.name || '',
+    status: statusName(row.status),
+    parentId: row.parent_id || null,
+    archived: row.archived === true || row.metadata?.archived === true,
+  }));
+
+  const pbLinks = new Map<number, string[]>();
+  relationRows.forEach(relation => {
+    const pbId = pbIdFromUrl(relation.target_url);
+    if (pbId) pbLinks.set(relation.source_work_item_id, [...(pbLinks.get(relation.source_work_item_id) || []), pbId]);
+  });
+
+  const workItems: ReconcileAdoItem[] = workItemRows.map(row => ({
+    id: Number(row.id),
+    title: row.title || '',
+    state: row.state || null,
+    parentId: row.parent_id ?? null,
+    tags: row.tags || null,
+    pbLinks: pbLinks.get(row.id) || [],
+  }));
+
+  const links: ReconcileLink[] = [
+    ...legacyRows.map(row => ({ pbId: row.productboard_id, adoId: Number(row.ado_work_item_id) })),
+    ...enhancedRows.map(row => ({ pbId: row.pb_feature_id, adoId: Number(row.ado_work_item_id) })),
+  ].filter(link => link.pbId && link.adoId);
+
+  return { features, workItems, links };
+}
+
+/**
+ * Store the findings of a run: new issues are added, resolved ones found again are reopened and
+ * ignored ones stay ignored. Open issues the run no longer finds are resolved as cleared, except
+ * those of the kinds the run did not check.
+ */
+async function storeFindings(
+  workspaceId: string,
+  runId: string,
+  findings: ReconciliationFinding[],
+  uncheckedKinds: ReconciliationFinding['kind'][] = []
+) {
+  const existing: IssueRow[] = await selectAll('pb_ado_reconciliation_issues', '*', workspaceId);
+  const existingByKey = new Map(existing.map(issue => [issue.issue_key, issue]));
+
+  const fixJobIds = existing.filter(issue => issue.fix_job_id).map(issue => issue.fix_job_id as string);
+  const pendingFixJobs = new Set<string>();
+  if (fixJobIds.length > 0) {
+    const { data: jobs, error: jobsError } = await supabase
+      .from('pb_ado_sync_jobs')
+      .select('id')
+      .in('id', fixJobIds)
+      .in('status', PENDING_JOB_STATUSES);
+    if (jobsError) {
+      throw new Error(`Failed to read fix jobs: ${jobsError.message}`);
+    }
+    (jobs || []).forEach((job: { id: string }) => pendingFixJobs.add(job.id));
+  }
+
+  // Ignored issues, and issues whose fix is still queued, keep how they were closed
+  const keepsResolution = (issue: IssueRow | undefined) =>
+    !!issue && (issue.status === 'ignored' || (issue.status === 'resolved' && !!issue.fix_job_id && pendingFixJobs.has(issue.fix_job_id)));
+
+  const rows = findings.map(finding => {
+    const issue = existingByKey.get(finding.key);
+    const kept = keepsResolution(issue);
+
+    return {
+      workspace_id: workspaceId,
+      issue_key: finding.key,
+      kind: finding.kind,
+      severity: finding.severity,
+      pb_feature_id: finding.pbFeatureId,
+      ado_work_item_id: finding.adoWorkItemId,
+      pb_name: finding.pbName,
+      ado_title: finding.adoTitle,
+      details: finding.details,
+      data: finding.data,
+      status: kept ? issue!.status : 'open',
+      resolution: kept ? issue!.resolution : null,
+      resolved_by: kept ? issue!.resolved_by : null,
+      resolved_at: kept ? issue!.resolved_at : null,
+      fix_job_id: kept ? issue!.fix_job_id : null,
+      first_seen_run_id: issue?.first_seen_run_id || runId,
+      last_seen_run_id: runId,
+    };
+  });
+
+  for (let from = 0; from < rows.length; from += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('pb_ado_reconciliation_issues')
+      .upsert(rows.slice(from, from + PAGE_SIZE), { onConflict: 'workspace_id,issue_key' });
+    if (error) {
+      throw new Error(`Failed to store issues: ${error.message}`);
+    }
+  }
+
+  const foundKeys = new Set(findings.map(finding => finding.key));
+  const cleared = existing
+    .filter(issue => issue.status === 'open' && !foundKeys.has(issue.issue_key) && !uncheckedKinds.includes(issue.kind))
+    .map(issue => issue.id);
+  for (let from = 0; from < cleared.length; from += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('pb_ado_reconciliation_issues')
+      .update({ status: 'resolved', resolution: 'cleared', resolved_by: null, resolved_at: new Date().toISOString() })
+      .in('id', cleared.slice(from, from + PAGE_SIZE));
+    if (error) {
+      throw new Error(`Failed to resolve cleared issues: ${error.message}`);
+    }
+  }
+
+  return { open: countByKind(rows.filter(row => row.status === 'open')), cleared: cleared.length };
+}
+
+/**
+ * Reconcile one workspace, recording the run
+ */
+async function runReconciliation(workspaceId: string, trigger: 'manual' | 'scheduled', startedBy: string | null): Promise<ReconciliationRunSummary> {
+  const { data: run, error: runError } = await supabase
+    .from('pb_ado_reconciliation_runs')
+    .insert({ workspace_id: workspaceId, trigger, started_by: startedBy })
+    .select('id')
+    .single();
+
+  if (runError || !run) {
+    throw new Error(`Failed to start reconciliation run: ${runError?.message || 'no run created'}`);
+  }
+
+  try {
+    const { features, workItems, links } = await loadWorkspaceData(workspaceId);
+
+    // Without cached features every linked work item would look orphaned
+    if (features.length === 0) {
+      throw new Error('No ProductBoard features are cached for this workspace; sync the ProductBoard hierarchy first');
+    }
+    // ...and without cached work items every link would look broken
+    if (workItems.length === 0) {
+      throw new Error('No ADO work items are cached for this workspace; sync the ADO work items first');
+    }
+
+    // A partial or old cache would turn links to work items it is missing into broken links
+    const staleReason = await getStaleAdoCacheReason(workspaceId);
+    const uncheckedKinds: ReconciliationFinding['kind'][] = staleReason ? ['broken_link'] : [];
+    const warning = staleReason ? `${staleReason}; broken links were not checked` : undefined;
+
+    const findings = reconcile(features, workItems, links, await loadOptions(workspaceId))
+      .filter(finding => !uncheckedKinds.includes(finding.kind));
+    const { open, cleared } = await storeFindings(workspaceId, run.id, findings, uncheckedKinds);
+
+    await supabase
+      .from('pb_ado_reconciliation_runs')
+      .update({ status: 'completed', summary: open, warning: warning || null, completed_at: new Date().toISOString() })
+      .eq('id', run.id);
+
+    console.log(`Reconciled workspace ${workspaceId}: ${findings.length} issues found, ${cleared} cleared${warning ? ` (${warning})` : ''}`);
+    return { run_id: run.id, workspace_id: workspaceId, status: 'completed', open, warning };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await supabase
+      .from('pb_ado_reconciliation_runs')
+      .update({ status: 'failed', error_message: message, completed_at: new Date().toISOString() })
+      .eq('id', run.id);
+
+    console.error(`Reconciliation of workspace ${workspaceId} failed:`, message);
+    return { run_id: run.id, workspace_id: workspaceId, status: 'failed', open: {}, error: message };
+  }
+}
+
+/**
+ * Remove the link between a feature and a work item from both mapping tables
+ */
+async function deleteLink(workspaceId: string, pbId: string | null, adoId: number | null) {
+  if (!pbId && !adoId) return;
+
+  let enhanced = supabase.from('pb_ado_enhanced_mappings').delete().eq('workspace_id', workspaceId);
+  let legacy = supabase.from('pb_ado_mappings').delete().eq('workspace_id', workspaceId);
+  if (pbId) {
+    enhanced = enhanced.eq('pb_feature_id', pbId);
+    legacy = legacy.eq('productboard_id', pbId);
+  }
+  if (adoId) {
+    enhanced = enhanced.eq('ado_work_item_id', adoId);
+    legacy = legacy.eq('ado_work_item_id', adoId);
+  }
+
+  const [enhancedResult, legacyResult] = await Promise.all([enhanced, legacy]);
+  const error = enhancedResult.error || legacyResult.error;
+  if (error) {
+    throw new Error(`Failed to remove link: ${error.message}`);
+  }
+}
+
+async function queueJob(workspaceId: string, mappingId: string | null, operationType: string, payload: Record<string, unknown>): Promise<string> {
+  const { data: job, error } = await supabase
+    .from('pb_ado_sync_jobs')
+    .insert({ workspace_id: workspaceId, mapping_id: mappingId, operation_type: operationType, payload })
+    .select('id')
+    .single();
+
+  if (error || !job) {
+    throw new Error(`Failed to queue ${operationType} job: ${error?.message || 'no job created'}`);
+  }
+  return job.id;
+}
+
+async function getCachedFeature(workspaceId: string, pbId: string): Promise<Record<string, any>> {
+  const { data: feature, error } = await supabase
+    .from('productboard_features')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('productboard_id', pbId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to read feature ${pbId}: ${error.message}`);
+  if (!feature) throw new Error(`ProductBoard feature ${pbId} is not in the cache`);
+  if (feature.archived === true || feature.metadata?.archived === true) {
+    throw new Error(`ProductBoard feature ${pbId} is archived`);
+  }
+  return feature;
+}
+
+// pb_feature_id and productboard_id are unique across workspaces, so a link saved here must not replace another workspace's
+async function assertNotLinkedElsewhere(workspaceId: string, pbId: string): Promise<void> {
+  const [enhanced, legacy] = await Promise.all([
+    supabase.from('pb_ado_enhanced_mappings').select('id').eq('pb_feature_id', pbId).neq('workspace_id', workspaceId).limit(1),
+    supabase.from('pb_ado_mappings').select('id').eq('productboard_id', pbId).neq('workspace_id', workspaceId).limit(1),
+  ]);
+
+  const error = enhanced.error || legacy.error;
+  if (error) throw new Error(`Failed to read links of feature ${pbId}: ${error.message}`);
+  if ((enhanced.data || []).length > 0 || (legacy.data || []).length > 0) {
+    throw new Error(`ProductBoard feature ${pbId} is linked in another workspace`);
+  }
+}
+
+/**
+ * Link the issue's feature to another work item, or its work item to another feature.
+ * The new link replaces the old one and is pushed to ProductBoard by a queued link job.
+ */
+async function relink(issue: IssueRow, request: Extract<ReconcileRequest, { action: 'fix' }>): Promise<string> {
+  const pbId = request.pb_feature_id || issue.pb_feature_id;
+  const adoId = request.ado_work_item_id ?? issue.ado_work_item_id;
+  if (!request.pb_feature_id && !request.ado_work_item_id) {
+    throw new Error('relink needs the pb_feature_id or ado_work_item_id to link to');
+  }
+  if (!pbId || !adoId) {
+    throw new Error('relink needs both a ProductBoard feature and an ADO work item');
+  }
+
+  await getCachedFeature(issue.workspace_id, pbId);
+  await assertNotLinkedElsewhere(issue.workspace_id, pbId);
+  const { data: workItem, error: workItemError } = await supabase
+    .from('ado_work_items')
+    .select('id, url')
+    .eq('workspace_id', issue.workspace_id)
+    .eq('id', adoId)
+    .maybeSingle();
+  if (workItemError) throw new Error(`Failed to read work item #${adoId}: ${workItemError.message}`);
+  if (!workItem) throw new Error(`Work item #${adoId} is not in the ADO cache`);
+
+  await deleteLink(issue.workspace_id, issue.pb_feature_id, issue.ado_work_item_id);
+
+  const url = await workItemWebUrl(issue.workspace_id, workItem);
+  const now = new Date().toISOString();
+  const { data: mapping, error: mappingError } = await supabase
+    .from('pb_ado_enhanced_mappings')
+    .upsert({
+      pb_feature_id: pbId,
+      ado_work_item_id: adoId,
+      status: 'pending',
+      origin_system: 'productboard',
+      workspace_id: issue.workspace_id,
+      metadata: { relinked: { issue_id: issue.id, previous_ado_work_item_id: issue.ado_work_item_id, at: now } },
+    }, { onConflict: 'pb_feature_id' })
+    .select('id')
+    .single();
+  if (mappingError) throw new Error(`Failed to save link: ${mappingError.message}`);
+
+  const { error: legacyError } = await supabase
+    .from('pb_ado_mappings')
+    .upsert({
+      productboard_id: pbId,
+      ado_work_item_id: adoId,
+      ado_work_item_url: url,
+      workspace_id: issue.workspace_id,
+      last_synced_at: now,
+    }, { onConflict: 'productboard_id' });
+  if (legacyError) throw new Error(`Failed to save link: ${legacyError.message}`);
+
+  return queueJob(issue.workspace_id, mapping.id, 'link', {
+    productboard_id: pbId,
+    ado_work_item_id: adoId,
+    ado_work_item_url: url,
+  });
+}
+
+/**
+ * Queue the creation of the work item the issue's feature is missing
+ */
+async function createMissing(issue: IssueRow, request: Extract<ReconcileRequest, { action: 'fix' }>): Promise<string> {
+  if (!issue.pb_feature_id) throw new Error('The issue has no ProductBoard feature to create a work item for');
+
+  const feature = await getCachedFeature(issue.workspace_id, issue.pb_feature_id);
+  await assertNotLinkedElsewhere(issue.workspace_id, issue.pb_feature_id);
+  // A broken link points at a deleted work item; the created one replaces it
+  await deleteLink(issue.workspace_id, issue.pb_feature_id, null);
+
+  const { data: mapping, error: mappingError } = await supabase
+    .from('pb_ado_enhanced_mappings')
+    .upsert({
+      pb_feature_id: issue.pb_feature_id,
+      ado_work_item_id: null,
+      status: 'pending',
+      origin_system: 'productboard',
+      workspace_id: issue.workspace_id,
+    }, { onConflict: 'pb_feature_id' })
+    .select('id')
+    .single();
+  if (mappingError) throw new Error(`Failed to save mapping: ${mappingError.message}`);
+
+  const patch = [
+    { op: 'add', path: '/fields/System.Title', value: feature.name },
+    { op: 'add', path: '/fields/System.Tags', value: `${PB_TAG_PREFIX}${issue.pb_feature_id}` },
+    ...(feature.description ? [{ op: 'add', path: '/fields/System.Description', value: feature.description }] : []),
+    ...(request.area_path ? [{ op: 'add', path: '/fields/System.AreaPath', value: request.area_path }] : []),
+  ];
+
+  return queueJob(issue.workspace_id, mapping.id, 'create', {
+    work_item_type: request.work_item_type || 'User Story',
+    productboard_id: issue.pb_feature_id,
+    patch,
+  });
+}
+
+/**
+ * Queue moving the issue's orphaned work item to the archive state, and drop its link
+ */
+async function archive(issue: IssueRow): Promise<string> {
+  if (!issue.ado_work_item_id) throw new Error('The issue has no work item to archive');
+
+  const state = await getArchiveState(issue.workspace_id);
+  await deleteLink(issue.workspace_id, issue.pb_feature_id, issue.ado_work_item_id);
+
+  return queueJob(issue.workspace_id, null, 'update', {
+    ado_work_item_id: issue.ado_work_item_id,
+    patch: [{ op: 'add', path: '/fields/System.State', value: state }],
+  });
+}
+
+async function applyFix(issue: IssueRow, request: Extract<ReconcileRequest, { action: 'fix' }>, caller: Caller): Promise<string | null> {
+  let jobId: string | null = null;
+
+  // Replacing or dropping a broken link is only safe while the cache still shows the work item is gone
+  if (issue.kind === 'broken_link' && request.fix !== 'relink') {
+    const staleReason = await getStaleAdoCacheReason(issue.workspace_id);
+    if (staleReason) {
+      throw new Error(`${staleReason}; sync ADO before fixing broken links`);
+    }
+  }
+
+  switch (request.fix) {
+    case 'relink':
+      jobId = await relink(issue, request);
+      break;
+    case 'unlink':
+      await deleteLink(issue.workspace_id, issue.pb_feature_id, issue.ado_work_item_id);
+      break;
+    case 'create_missing':
+      jobId = await createMissing(issue, request);
+      break;
+    case 'archive':
+      jobId = await archive(issue);
+      break;
+  }
+
+  const { error } = await supabase
+    .from('pb_ado_reconciliation_issues')
+    .update({
+      status: 'resolved',
+      resolution: FIX_RESOLUTIONS[request.fix],
+      resolved_by: caller.userId,
+      resolved_at: new Date().toISOString(),
+      fix_job_id: jobId,
+    })
+    .eq('id', issue.id);
+  if (error) throw new Error(`Failed to resolve issue: ${error.message}`);
+
+  return jobId;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const caller = await getCaller(req, supabase);
+    if (!callerHasRole(caller, ['admin', 'product_manager'])) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins and product managers can reconcile ProductBoard and ADO' }),
+        { status: 403, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const request = await req.json().catch(() => ({ action: 'run' })) as ReconcileRequest;
+
+    if (request.action === 'fix') {
+      const { data: issue, error: issueError } = await supabase
+        .from('pb_ado_reconciliation_issues')
+        .select('*')
+        .eq('id', request.issue_id)
+        .maybeSingle();
+
+      // Issues of workspaces the caller is not a member of are reported as missing too
+      if (issueError || !issue || !(await callerIsWorkspaceMember(caller, issue.workspace_id, supabase))) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Issue ${request.issue_id} not found` }),
+          { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+
+      if (issue.status !== 'open' || !RECONCILIATION_FIXES[issue.kind as IssueRow['kind']]?.includes(request.fix)) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Can't ${request.fix} a ${issue.status} ${issue.kind} issue` }),
+          { status: 409, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+
+      console.log(`Applying ${request.fix} to reconciliation issue ${issue.id} (${issue.issue_key})`);
+      const jobId = await applyFix(issue as IssueRow, request, caller!);
+
+      return new Response(
+        JSON.stringify({ success: true, job_id: jobId }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    // Users reconcile their workspace; the scheduled run goes through all of them
+    let workspaceIds: string[];
+    if (request.workspace_id) {
+      if (!(await callerIsWorkspaceMember(caller, request.workspace_id, supabase))) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Not a member of workspace ${request.workspace_id}` }),
+          { status: 403, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+      workspaceIds = [request.workspace_id];
+    } else if (caller!.role === 'service') {
+      const { data: workspaces, error: workspacesError } = await supabase.from('workspaces').select('id');
+      if (workspacesError) {
+        throw new Error(`Failed to list workspaces: ${workspacesError.message}`);
+      }
+      workspaceIds = (workspaces || []).map((workspace: { id: string }) => workspace.id);
+    } else {
+      return new Response(
+        JSON.stringify({ success: false, error: 'workspace_id is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const trigger = caller!.role === 'service' ? 'scheduled' : 'manual';
+    const runs: ReconciliationRunSummary[] = [];
+    for (const workspaceId of workspaceIds) {
+      runs.push(await runReconciliation(workspaceId, trigger, caller!.userId));
+    }
+
+    return new Response(
+      JSON.stringify({ success: runs.every(run => run.status === 'completed'), runs }),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error reconciling ProductBoard and ADO:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+});
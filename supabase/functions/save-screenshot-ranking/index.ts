@@ -0,0 +1,113 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { corsHeaders } from '../_shared/cors.ts';
+import { callerHasRole, callerIsWorkspaceMember, getCaller } from '../_shared/auth.ts';
+import { storeRankingItems, storeRankingSnapshot, RankedItem } from '../_shared/rankingStore.ts';
+import { SaveScreenshotRankingRequest, SaveScreenshotRankingResponse } from '../_shared/contracts.ts';
+
+/**
+ * Saves a ranking read from a screenshot by process-ranking-screenshot, after the user reviewed
+ * the matches. The ranking is stored like a scraped one: a productboard_sync_history run with
+ * source 'screenshot', the current ranks in productboard_item_rankings and a snapshot.
+ */
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') || '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+);
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const caller = await getCaller(req, supabase);
+    if (!callerHasRole(caller, ['admin', 'product_manager'])) {
+      return jsonResponse({ success: false, error: 'Only admins and product managers can import rankings' }, 403);
+    }
+
+    const { workspace_id, board_id, items } = await req.json() as Partial<SaveScreenshotRankingRequest>;
+
+    if (!workspace_id || !board_id || !Array.isArray(items) || items.length === 0) {
+      return jsonResponse({ success: false, error: 'workspace_id, board_id and at least one item are required' }, 400);
+    }
+
+    if (!(await callerIsWorkspaceMember(caller, workspace_id, supabase))) {
+      return jsonResponse({ success: false, error: `Not a member of workspace ${workspace_id}` }, 403);
+    }
+
+    const storyIds = new Set(items.map(item => item.story_id));
+    if (storyIds.size !== items.length) {
+      return jsonResponse({ success: false, error: 'Each feature can only appear once in a ranking' }, 400);
+    }
+
+    const rankings: RankedItem[] = [...items]
+      .sort((a, b) => a.rank - b.rank)
+      .map((item, index) => ({
+        storyId: item.story_id,
+        name: item.story_name,
+        rank: index + 1,
+        indentLevel: item.indent_level ?? undefined,
+      }));
+
+    const { data: syncRecord, error: syncRecordError } = await supabase
+      .from('productboard_sync_history')
+      .insert({
+        workspace_id,
+        board_id,
+        status: 'in_progress',
+        source: 'screenshot',
+      })
+      .select()
+      .single();
+
+    if (syncRecordError) {
+      throw new Error(`Failed to create sync record: ${syncRecordError.message}`);
+    }
+
+    try {
+      const rankingResult = await storeRankingItems(supabase, workspace_id, board_id, rankings, syncRecord.id);
+      const snapshotCount = await storeRankingSnapshot(supabase, workspace_id, board_id, rankings, syncRecord.id);
+
+      await supabase
+        .from('productboard_sync_history')
+        .update({
+          status: 'completed',
+          item_count: rankings.length,
+          rankings_stored: snapshotCount > 0,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', syncRecord.id);
+
+      console.log(`Saved screenshot ranking of ${rankings.length} items for board ${board_id}`);
+
+      const response: SaveScreenshotRankingResponse = {
+        success: true,
+        sync_history_id: syncRecord.id,
+        new_items: rankingResult.newItems,
+        updated_items: rankingResult.updatedItems,
+      };
+      return jsonResponse(response);
+    } catch (error) {
+      await supabase
+        .from('productboard_sync_history')
+        .update({
+          status: 'failed',
+          error_message: error instanceof Error ? error.message : String(error),
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', syncRecord.id);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error saving screenshot ranking:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }, 500);
+  }
+});
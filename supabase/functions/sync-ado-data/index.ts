@@ -234,7 +234,8 @@ function mapRelationToDb(sourceId: number, relation: any): Record<string, any> |
    };
 }
 
-async function syncData(supabaseClient: any) {
+// Cached ADO IDs are only unique per workspace, so every row is written under the workspace being synced
+async function syncData(supabaseClient: any, workspaceId: string) {
   if (!ADO_API_KEY) {
     // Update error message to reflect the correct secret name
     throw new Error("Missing AZURE_DEVOPS_PAT environment variable/secret."); 
@@ -249,7 +250,10 @@ async function syncData(supabaseClient: any) {
     console.log(`Fetched ${adoWorkItems.length} work items.`);
 
     if (adoWorkItems.length > 0) {
-      const mappedWorkItems = adoWorkItems.map(mapWorkItemToDb).filter(Boolean);
+      const mappedWorkItems = adoWorkItems
+        .map(mapWorkItemToDb)
+        .filter(Boolean)
+        .map(item => ({ ...item, workspace_id: workspaceId }));
       const mappedRelations: any[] = [];
       const parentUpdates: { id: number, parent_id: number }[] = [];
 
@@ -258,7 +262,7 @@ async function syncData(supabaseClient: any) {
           item.relations.forEach((rel: any) => {
             const mappedRel = mapRelationToDb(item.id, rel);
             if (mappedRel) {
-              mappedRelations.push(mappedRel);
+              mappedRelations.push({ ...mappedRel, workspace_id: workspaceId });
               // Specifically track parent relationships for direct update on work_items table
               if (rel.rel === 'System.LinkTypes.Hierarchy-Reverse' && mappedRel.target_work_item_id) {
                  parentUpdates.push({ id: item.id, parent_id: mappedRel.target_work_item_id });
@@ -275,7 +279,7 @@ async function syncData(supabaseClient: any) {
       console.log("Upserting work items into Supabase...");
       const { error: workItemError } = await supabaseClient
         .from('ado_work_items')
-        .upsert(mappedWorkItems, { onConflict: 'id', ignoreDuplicates: false }); // Update on conflict
+        .upsert(mappedWorkItems, { onConflict: 'workspace_id,id', ignoreDuplicates: false }); // Update on conflict
       if (workItemError) throw workItemError;
       console.log("Work items upserted.");
 
@@ -287,6 +291,7 @@ async function syncData(supabaseClient: any) {
             const { error: parentError } = await supabaseClient
                .from('ado_work_items')
                .update({ parent_id: update.parent_id })
+               .eq('workspace_id', workspaceId)
                .eq('id', update.id);
             if (parentError) console.error(`Error updating parent for ${update.id}:`, parentError.message); // Log and continue
          }
@@ -303,6 +308,7 @@ async function syncData(supabaseClient: any) {
          const { error: deleteRelError } = await supabaseClient
             .from('ado_work_item_relations')
             .delete()
+            .eq('workspace_id', workspaceId)
             .in('source_work_item_id', sourceIds);
          // Log error but continue, maybe relations just didn't exist yet
          if (deleteRelError) console.error("Error deleting old relations:", deleteRelError.message);
@@ -325,12 +331,12 @@ async function syncData(supabaseClient: any) {
     console.log(`Fetched ${adoAreaPaths.length} area paths.`);
     if (adoAreaPaths.length > 0) {
        // Add sync timestamp
-       const pathsToUpsert = adoAreaPaths.map(p => ({ ...p, last_synced_at: new Date().toISOString() }));
+       const pathsToUpsert = adoAreaPaths.map(p => ({ ...p, workspace_id: workspaceId, last_synced_at: new Date().toISOString() }));
        
        console.log("Upserting area paths into Supabase...");
        const { error: areaPathError } = await supabaseClient
          .from('ado_area_paths')
-         .upsert(pathsToUpsert, { onConflict: 'id', ignoreDuplicates: false });
+         .upsert(pathsToUpsert, { onConflict: 'workspace_id,id', ignoreDuplicates: false });
        if (areaPathError) throw areaPathError;
        console.log("Area paths upserted.");
     }
@@ -5,6 +5,8 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.36.0";
 import { z } from "https://esm.sh/zod@3.22.4";
 import axios from "https://esm.sh/axios@1.6.2";
+import { requireSecret } from "../_shared/secrets.ts";
+import { callerHasRole, callerIsWorkspaceMember, getCaller } from "../_shared/auth.ts";
 
 // ============================================================================
 // Types and Interfaces
@@ -13,13 +15,13 @@ import axios from "https://esm.sh/axios@1.6.2";
 // Request schema validation
 const RequestSchema = z.object({
   workspace_id: z.string().uuid(),
-  api_key: z.string().min(1),
   product_id: z.string().optional(),
   initiative_id: z.string().optional(),
   include_features: z.boolean().default(true),
   include_components: z.boolean().default(true),
   include_initiatives: z.boolean().default(true),
   max_depth: z.number().min(1).max(10).default(5),
+  trigger: z.enum(['manual', 'scheduled', 'webhook']).default('scheduled'),
 });
 
 type RequestType = z.infer<typeof RequestSchema>;
@@ -52,6 +54,15 @@ interface SyncResults {
   errors: string[];
 }
 
+// Outcome of storing one entity, logged as an item of the sync run
+interface SyncItemLog {
+  entity_type: 'product' | 'initiative' | 'component' | 'feature';
+  productboard_id: string;
+  name: string | null;
+  operation: 'create' | 'update';
+  error: string | null;
+}
+
 // Interface for storing ID mappings
 interface IdMaps {
   products: Record<string, string>;
@@ -81,6 +92,10 @@ interface CollectedEntities {
   results: SyncResults;
 }
 
+// Rows per insert when logging the items of a run, and per page when reading stored IDs
+const LOG_BATCH_SIZE = 500;
+const STORED_IDS_PAGE_SIZE = 1000;
+
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -654,7 +669,7 @@ function countRelationships(relationships: RelationshipMaps): Record<string, num
 /**
  * Create a new sync history record with 'in_progress' status
  */
-async function createSyncHistoryRecord(workspace_id: string): Promise<string> {
+async function createSyncHistoryRecord(workspace_id: string, trigger: string): Promise<string> {
   console.log("Creating new sync history record");
   
   const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
@@ -668,6 +683,7 @@ async function createSyncHistoryRecord(workspace_id: string): Promise<string> {
         workspace_id,
         status: "in_progress",
         started_at: new Date().toISOString(),
+        trigger,
       })
       .select()
       .single();
@@ -728,6 +744,86 @@ async function updateSyncHistory(
   }
 }
 
+/**
+ * Get the ProductBoard IDs already stored in a table for a workspace, to tell created entities from updated ones
+ */
+async function getStoredIds(supabase: any, table: string, workspace_id: string): Promise<Set<string>> {
+  const ids = new Set<string>();
+
+  for (let from = 0; ; from += STORED_IDS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("productboard_id")
+      .eq("workspace_id", workspace_id)
+      .range(from, from + STORED_IDS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`Error reading stored IDs from ${table}:`, error);
+      return ids;
+    }
+
+    for (const row of data || []) ids.add(row.productboard_id);
+    if (!data || data.length < STORED_IDS_PAGE_SIZE) return ids;
+  }
+}
+
+/**
+ * Describe the outcome of storing an entity
+ */
+function itemLog(
+  entity_type: SyncItemLog['entity_type'],
+  entity: any,
+  storedIds: Set<string>,
+  error: string | null
+): SyncItemLog {
+  return {
+    entity_type,
+    productboard_id: entity.id,
+    name: entity.name || null,
+    operation: storedIds.has(entity.id) ? 'update' : 'create',
+    error,
+  };
+}
+
+/**
+ * Log every stored entity as an item of the sync run, so the sync history page can list them
+ */
+async function logSyncItems(
+  workspace_id: string,
+  syncHistoryId: string,
+  trigger: string,
+  items: SyncItemLog[]
+): Promise<void> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  for (let i = 0; i < items.length; i += LOG_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("pb_ado_sync_logs")
+      .insert(items.slice(i, i + LOG_BATCH_SIZE).map(item => ({
+        workspace_id,
+        operation_type: item.operation,
+        status: item.error ? "failed" : "completed",
+        error_message: item.error,
+        request_payload: {
+          productboard_id: item.productboard_id,
+          entity_type: item.entity_type,
+          name: item.name,
+        },
+        // The run copies ProductBoard records into the app, so both ends are ProductBoard
+        source_system: "productboard",
+        target_system: "productboard",
+        trigger,
+        sync_run_id: syncHistoryId,
+      })));
+
+    if (error) {
+      console.error("Error logging sync items:", error);
+    }
+  }
+}
+
 /**
  * Store all collected data in the database
  */
@@ -740,6 +836,7 @@ async function storeData(
   relationships: RelationshipMaps
 ): Promise<{
   idMaps: IdMaps;
+  items: SyncItemLog[];
 }> {
   console.log("Storing all data in the database...");
   
@@ -755,6 +852,14 @@ async function storeData(
     components: {},
     features: {},
   };
+  const items: SyncItemLog[] = [];
+
+  const [storedProducts, storedInitiatives, storedComponents, storedFeatures] = await Promise.all([
+    getStoredIds(supabase, "productboard_products_extended", workspace_id),
+    getStoredIds(supabase, "productboard_initiatives_extended", workspace_id),
+    getStoredIds(supabase, "productboard_components_extended", workspace_id),
+    getStoredIds(supabase, "productboard_features_extended", workspace_id),
+  ]);
 
   // 1. Store products
   console.log("Storing products...");
@@ -775,11 +880,14 @@ async function storeData(
 
       if (error) {
         console.error(`Error storing product ${product.id}:`, error);
+        items.push(itemLog('product', product, storedProducts, error.message));
       } else if (insertedProduct) {
         idMaps.products[product.id] = insertedProduct.id;
+        items.push(itemLog('product', product, storedProducts, null));
       }
     } catch (error) {
       console.error(`Error storing product ${product.id}:`, error);
+      items.push(itemLog('product', product, storedProducts, error.message || String(error)));
     }
   }
   console.log(`Stored ${Object.keys(idMaps.products).length} products`);
@@ -809,11 +917,14 @@ async function storeData(
 
       if (error) {
         console.error(`Error storing initiative ${initiative.id}:`, error);
+        items.push(itemLog('initiative', initiative, storedInitiatives, error.message));
       } else if (insertedInitiative) {
         idMaps.initiatives[initiative.id] = insertedInitiative.id;
+        items.push(itemLog('initiative', initiative, storedInitiatives, null));
       }
     } catch (error) {
       console.error(`Error storing initiative ${initiative.id}:`, error);
+      items.push(itemLog('initiative', initiative, storedInitiatives, error.message || String(error)));
     }
   }
   console.log(`Stored ${Object.keys(idMaps.initiatives).length} initiatives`);
@@ -839,11 +950,14 @@ async function storeData(
 
       if (error) {
         console.error(`Error storing component ${component.id}:`, error);
+        items.push(itemLog('component', component, storedComponents, error.message));
       } else if (insertedComponent) {
         idMaps.components[component.id] = insertedComponent.id;
+        items.push(itemLog('component', component, storedComponents, null));
       }
     } catch (error) {
       console.error(`Error storing component ${component.id}:`, error);
+      items.push(itemLog('component', component, storedComponents, error.message || String(error)));
     }
   }
   console.log(`Stored ${Object.keys(idMaps.components).length} components`);
@@ -874,11 +988,14 @@ async function storeData(
 
       if (error) {
         console.error(`Error storing feature ${feature.id}:`, error);
+        items.push(itemLog('feature', feature, storedFeatures, error.message));
       } else if (insertedFeature) {
         idMaps.features[feature.id] = insertedFeature.id;
+        items.push(itemLog('feature', feature, storedFeatures, null));
       }
     } catch (error) {
       console.error(`Error storing feature ${feature.id}:`, error);
+      items.push(itemLog('feature', feature, storedFeatures, error.message || String(error)));
     }
   }
   console.log(`Stored ${Object.keys(idMaps.features).length} features`);
@@ -973,7 +1090,7 @@ console.log(`Stored ${initiativeComponentCount} component-initiative relationshi
 
 console.log("Finished storing all data");
 
-return { idMaps };
+return { idMaps, items };
 }
 
 // ============================================================================
@@ -1012,13 +1129,13 @@ Deno.serve(async (req) => {
     const validatedParams = RequestSchema.parse(body);
     const { 
       workspace_id, 
-      api_key, 
       product_id, 
       initiative_id,
       include_features,
       include_components,
       include_initiatives,
-      max_depth 
+      max_depth,
+      trigger
     } = validatedParams;
 
     console.log("Starting ProductBoard hierarchy sync");
@@ -1029,11 +1146,50 @@ Deno.serve(async (req) => {
       include_features,
       include_components,
       include_initiatives,
-      max_depth
+      max_depth,
+      trigger
     }));
 
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    // The sync writes the workspace's ProductBoard data with the service role, so check the caller first
+    const caller = await getCaller(req, supabaseAdmin);
+    if (!callerHasRole(caller, ['admin', 'product_manager', 'engineer'])) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Only admins, product managers and engineers can sync ProductBoard" }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+    if (!(await callerIsWorkspaceMember(caller, workspace_id, supabaseAdmin))) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Not a member of workspace ${workspace_id}` }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
+    // The API token is read server-side, never passed in by the app
+    const api_key = await requireSecret(supabaseAdmin, "productboard_api_token", {
+      workspaceId: workspace_id,
+      envVar: "PB_API_TOKEN",
+    });
+
     // Create sync history record
-    syncHistoryId = await createSyncHistoryRecord(workspace_id);
+    syncHistoryId = await createSyncHistoryRecord(workspace_id, trigger);
     console.log(`Created sync history record: ${syncHistoryId}`);
 
     // Step 1: Collect entities
@@ -1068,7 +1224,7 @@ Deno.serve(async (req) => {
 
     // Step 3: Store data
     console.log("Step 3: Storing data in the database");
-    const { idMaps } = await storeData(
+    const { idMaps, items } = await storeData(
       workspace_id,
       products,
       initiatives,
@@ -1077,6 +1233,10 @@ Deno.serve(async (req) => {
       relationships
     );
 
+    if (syncHistoryId !== "unknown") {
+      await logSyncItems(workspace_id, syncHistoryId, trigger, items);
+    }
+
     // Step 4: Update sync history
     console.log("Step 4: Updating sync history record");
     await updateSyncHistory(
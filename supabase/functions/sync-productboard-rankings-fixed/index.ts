@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.39.7";
+import { getSecret } from "../_shared/secrets.ts";
 import puppeteer from "npm:puppeteer-core@21.5.2";
 import type { Browser, Page } from "npm:puppeteer-core@21.5.2";
 
@@ -754,7 +755,7 @@ async function updateAzureDevOpsRankings(
   // Get Azure DevOps configuration
   const { data: workspace, error: workspaceError } = await supabase
     .from('workspaces')
-    .select('id, ado_api_key, ado_project_id')
+    .select('id, ado_project_id')
     .eq('id', workspaceId)
     .single();
   
@@ -788,8 +789,9 @@ async function updateAzureDevOpsRankings(
   
   // Extract organization and project
   const [organization, project] = (workspace.ado_project_id || '').split('/');
+  const adoApiKey = await getSecret(supabase, 'ado_pat', { workspaceId, envVar: 'ADO_PAT' });
   
-  if (!organization || !project || !workspace.ado_api_key) {
+  if (!organization || !project || !adoApiKey) {
     return { 
       success: false, 
       updatedCount: 0, 
@@ -819,7 +821,7 @@ async function updateAzureDevOpsRankings(
           method: 'PATCH',
           headers: {
             'Content-Type': 'application/json-patch+json',
-            'Authorization': `Basic ${btoa(`:${workspace.ado_api_key}`)}`,
+            'Authorization': `Basic ${btoa(`:${adoApiKey}`)}`,
           },
           body: JSON.stringify([
             {
@@ -1,6 +1,8 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
 import puppeteer from 'npm:puppeteer-core@21.5.2';
 import type { Browser, Page } from 'npm:puppeteer-core@21.5.2';
+import { getWorkspaceAdoConfig, getWorkItemRanks } from '../_shared/adoBacklogRank.ts';
+import { storeRankingItems, storeRankingSnapshot } from '../_shared/rankingStore.ts';
 
 // Simple CORS headers
 const corsHeaders = {
@@ -574,153 +576,27 @@ async function extractRankingsUsingApify(
 }
 
 /**
- * Store all ranking items in the database, tracking changes
+ * Compute the ADO backlog order that matches the new ProductBoard ranking and store it
+ * as a pending changeset. Nothing is written to ADO until the changeset is approved
+ * and applied by the apply-rank-changeset function.
+ *
+ * Items are only reordered within their own team backlog (area path), reusing the rank
+ * values those items already hold so unmapped work items keep their place.
  */
-async function storeRankingItems(
+async function createRankChangeset(
   supabase: any,
   workspaceId: string,
   boardId: string,
   rankings: ProductBoardItem[],
   syncHistoryId: string
-): Promise<{ 
-  newItems: number, 
-  updatedItems: number, 
-  changedItems: any[], 
-  rankingIds: string[] 
-}> {
-  let newItems = 0;
-  let updatedItems = 0;
-  const changedItems: any[] = [];
-  const rankingIds: string[] = [];
-  
-  for (const item of rankings) {
-    // Check for existing record
-    const { data: existingItem } = await supabase
-      .from('productboard_item_rankings')
-      .select('*')
-      .eq('workspace_id', workspaceId)
-      .eq('board_id', boardId)
-      .eq('story_id', item.storyId)
-      .single();
-      
-    if (existingItem) {
-      // Only update if the rank has changed
-      if (existingItem.current_rank !== item.rank) {
-        // Update with previous rank tracking
-        const { data: updatedItem, error } = await supabase
-          .from('productboard_item_rankings')
-          .update({
-            story_name: item.name,
-            previous_rank: existingItem.current_rank,
-            current_rank: item.rank,
-            updated_at: new Date().toISOString(),
-            indent_level: item.indentLevel,
-            matching_id: item.matchingId,
-            sync_history_id: syncHistoryId,
-            is_synced_to_ado: false
-          })
-          .eq('id', existingItem.id)
-          .select()
-          .single();
-          
-        if (!error && updatedItem) {
-          updatedItems++;
-          rankingIds.push(updatedItem.id);
-          
-          // Add to changed items if the rank has changed
-          if (updatedItem.current_rank !== updatedItem.previous_rank) {
-            changedItems.push({
-              id: updatedItem.id,
-              storyId: item.storyId,
-              name: item.name || existingItem.story_name,
-              currentRank: item.rank,
-              previousRank: existingItem.current_rank,
-              change: Math.abs(item.rank - existingItem.current_rank),
-              direction: item.rank < existingItem.current_rank ? 'up' : 'down'
-            });
-          }
-        }
-      } else {
-        // Just update the sync_history_id
-        await supabase
-          .from('productboard_item_rankings')
-          .update({
-            sync_history_id: syncHistoryId,
-            story_name: item.name || existingItem.story_name,
-            indent_level: item.indentLevel,
-            matching_id: item.matchingId || existingItem.matching_id
-          })
-          .eq('id', existingItem.id);
-          
-        rankingIds.push(existingItem.id);
-      }
-    } else {
-      // Insert new record
-      const { data: newItem, error } = await supabase
-        .from('productboard_item_rankings')
-        .insert({
-          workspace_id: workspaceId,
-          board_id: boardId,
-          story_id: item.storyId,
-          story_name: item.name,
-          current_rank: item.rank,
-          indent_level: item.indentLevel,
-          matching_id: item.matchingId,
-          sync_history_id: syncHistoryId,
-          is_synced_to_ado: false
-        })
-        .select()
-        .single();
-        
-      if (!error && newItem) {
-        newItems++;
-        rankingIds.push(newItem.id);
-        
-        // Add all new items to changed items list
-        changedItems.push({
-          id: newItem.id,
-          storyId: item.storyId,
-          name: item.name,
-          currentRank: item.rank,
-          previousRank: null,
-          change: null,
-          direction: 'new'
-        });
-      }
-    }
-  }
-  
-  return {
-    newItems,
-    updatedItems,
-    changedItems,
-    rankingIds
-  };
-}
-
-// Update Azure DevOps work items with new rankings
-async function updateAzureDevOpsRankings(
-  supabase: any,
-  workspaceId: string,
-  rankings: ProductBoardItem[],
-  rankingIds: string[] = []
-): Promise<{ success: boolean, updatedCount: number, errors: string[] }> {
+): Promise<{ success: boolean, changesetId: string | null, itemCount: number, changeCount: number, errors: string[] }> {
   const errors: string[] = [];
-  let updatedCount = 0;
-  
-  // Get Azure DevOps configuration
-  const { data: workspace, error: workspaceError } = await supabase
-    .from('workspaces')
-    .select('id, ado_api_key, ado_project_id')
-    .eq('id', workspaceId)
-    .single();
-  
-  if (workspaceError || !workspace) {
-    return { 
-      success: false, 
-      updatedCount: 0, 
-      errors: [`Failed to get workspace: ${workspaceError?.message || 'Workspace not found'}`] 
-    };
+
+  let adoConfig;
+  try {
+    adoConfig = await getWorkspaceAdoConfig(supabase, workspaceId);
+  } catch (error) {
+    return { success: false, changesetId: null, itemCount: 0, changeCount: 0, errors: [error instanceof Error ? error.message : String(error)] };
   }
   
   // Get entity mappings
@@ -731,8 +607,10 @@ async function updateAzureDevOpsRankings(
   
   if (mappingsError) {
     return { 
-      success: false, 
-      updatedCount: 0, 
+      success: false,
+      changesetId: null,
+      itemCount: 0,
+      changeCount: 0,
       errors: [`Failed to get entity mappings: ${mappingsError.message}`] 
     };
   }
@@ -743,20 +621,10 @@ async function updateAzureDevOpsRankings(
     idMap.set(mapping.productboard_id, mapping.ado_id);
   }
   
-  // Extract organization and project
-  const [organization, project] = (workspace.ado_project_id || '').split('/');
-  
-  if (!organization || !project || !workspace.ado_api_key) {
-    return { 
-      success: false, 
-      updatedCount: 0, 
-      errors: ['Azure DevOps configuration is incomplete'] 
-    };
-  }
-  
-  // Update each work item
-  for (const ranking of rankings) {
-    // Get ADO ID from mapping or matchingId
+  // Resolve the ADO work item of each ranked story, keeping the highest rank when several map to one item
+  const mapped: { ranking: ProductBoardItem, adoId: number }[] = [];
+  const seenAdoIds = new Set<number>();
+  for (const ranking of [...rankings].sort((a, b) => a.rank - b.rank)) {
     let adoId = idMap.get(ranking.storyId);
     
     if (ranking.matchingId && /^(\d+|AB#\d+)$/i.test(ranking.matchingId)) {
@@ -767,58 +635,112 @@ async function updateAzureDevOpsRankings(
       errors.push(`No mapping found for ProductBoard story ${ranking.storyId}`);
       continue;
     }
-    
-    try {
-      // Call Azure DevOps API
-      const response = await fetch(
-        `https://dev.azure.com/${organization}/${project}/_apis/wit/workitems/${adoId}?api-version=7.0`,
-        {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json-patch+json',
-            'Authorization': `Basic ${btoa(`:${workspace.ado_api_key}`)}`,
-          },
-          body: JSON.stringify([
-            {
-              op: 'add',
-              path: '/fields/Microsoft.VSTS.Common.StackRank',
-              value: ranking.rank
-            }
-          ]),
-        }
-      );
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        errors.push(`Failed to update work item ${adoId}: ${errorData.message || response.statusText}`);
-      } else {
-        updatedCount++;
-        
-        // Update the database to mark this item as synced to ADO
-        if (rankingIds.length > 0) {
-          const rankingId = rankingIds.find(id => {
-            return rankings.some(r => r.storyId === ranking.storyId);
-          });
-          
-          if (rankingId) {
-            await supabase
-              .from('productboard_item_rankings')
-              .update({
-                is_synced_to_ado: true,
-                synced_to_ado_at: new Date().toISOString()
-              })
-              .eq('id', rankingId);
-          }
-        }
-      }
-    } catch (error) {
-      errors.push(`Error updating work item ${adoId}: ${error instanceof Error ? error.message : String(error)}`);
+
+    const numericId = Number(adoId);
+    if (!seenAdoIds.has(numericId)) {
+      seenAdoIds.add(numericId);
+      mapped.push({ ranking, adoId: numericId });
     }
   }
-  
+
+  if (mapped.length === 0) {
+    return { success: true, changesetId: null, itemCount: 0, changeCount: 0, errors };
+  }
+
+  let workItems;
+  try {
+    workItems = await getWorkItemRanks(adoConfig, mapped.map(item => item.adoId));
+  } catch (error) {
+    return { success: false, changesetId: null, itemCount: 0, changeCount: 0, errors: [...errors, `Failed to get work items: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  // Group by team backlog, in ProductBoard order
+  const backlogs = new Map<string, { ranking: ProductBoardItem, workItem: any }[]>();
+  for (const { ranking, adoId } of mapped) {
+    const workItem = workItems.get(adoId);
+    if (!workItem) {
+      errors.push(`Work item ${adoId} for ProductBoard story ${ranking.storyId} was not found`);
+      continue;
+    }
+    const backlog = backlogs.get(workItem.areaPath) || [];
+    backlog.push({ ranking, workItem });
+    backlogs.set(workItem.areaPath, backlog);
+  }
+
+  const items: any[] = [];
+  backlogs.forEach((entries, teamBacklog) => {
+    // Current order: by rank value, unranked items last
+    const currentOrder = [...entries].sort((a, b) =>
+      (a.workItem.rankValue ?? Number.MAX_VALUE) - (b.workItem.rankValue ?? Number.MAX_VALUE)
+    );
+
+    // Reuse the values these items already hold; unranked items get values after the highest one
+    const values = entries
+      .map(entry => entry.workItem.rankValue)
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+    let nextValue = values.length > 0 ? values[values.length - 1] : 0;
+    while (values.length < entries.length) {
+      nextValue += 1;
+      values.push(nextValue);
+    }
+
+    entries.forEach((entry, index) => {
+      const proposedValue = values[index];
+      items.push({
+        productboard_id: entry.ranking.storyId,
+        story_name: entry.ranking.name,
+        pb_rank: entry.ranking.rank,
+        ado_work_item_id: entry.workItem.id,
+        ado_title: entry.workItem.title,
+        team_backlog: teamBacklog,
+        rank_field: entry.workItem.rankField,
+        current_value: entry.workItem.rankValue,
+        proposed_value: proposedValue,
+        current_position: currentOrder.indexOf(entry) + 1,
+        proposed_position: index + 1,
+        status: entry.workItem.rankValue === proposedValue ? 'unchanged' : 'pending'
+      });
+    });
+  });
+
+  const changeCount = items.filter(item => item.status === 'pending').length;
+  if (changeCount === 0) {
+    console.log('ADO backlog order already matches the ProductBoard ranking');
+    return { success: true, changesetId: null, itemCount: items.length, changeCount: 0, errors };
+  }
+
+  const { data: changeset, error: changesetError } = await supabase
+    .from('ado_rank_changesets')
+    .insert({
+      workspace_id: workspaceId,
+      board_id: boardId,
+      sync_history_id: syncHistoryId,
+      status: 'pending',
+      item_count: items.length,
+      change_count: changeCount
+    })
+    .select()
+    .single();
+
+  if (changesetError) {
+    return { success: false, changesetId: null, itemCount: items.length, changeCount, errors: [...errors, `Failed to create rank changeset: ${changesetError.message}`] };
+  }
+
+  const { error: itemsError } = await supabase
+    .from('ado_rank_changeset_items')
+    .insert(items.map(item => ({ ...item, changeset_id: changeset.id })));
+
+  if (itemsError) {
+    await supabase.from('ado_rank_changesets').delete().eq('id', changeset.id);
+    return { success: false, changesetId: null, itemCount: items.length, changeCount, errors: [...errors, `Failed to store rank changeset items: ${itemsError.message}`] };
+  }
+
   return {
-    success: errors.length === 0,
-    updatedCount,
+    success: true,
+    changesetId: changeset.id,
+    itemCount: items.length,
+    changeCount,
     errors
   };
 }
@@ -974,7 +896,11 @@ Deno.serve(async (req) => {
       console.log('Storing ranking items in the database...');
       const rankingResult = await storeRankingItems(supabase, workspace_id, board_id, rankings, syncRecord.id);
       
-      // If preview_only is true or sync_to_ado is false, don't update ADO
+      console.log('Storing ranking snapshot...');
+      const snapshotCount = await storeRankingSnapshot(supabase, workspace_id, board_id, rankings, syncRecord.id);
+      console.log(`Stored ${snapshotCount} snapshot entries`);
+      
+      // If preview_only is true or sync_to_ado is false, don't propose ADO changes
       if (preview_only || !sync_to_ado) {
         // Update sync history record
         await supabase
@@ -1004,18 +930,17 @@ Deno.serve(async (req) => {
         );
       }
       
-      // If sync_to_ado is true, update Azure DevOps work items with new rankings
-      console.log('Updating Azure DevOps work items...');
-      const updateResult = await updateAzureDevOpsRankings(supabase, workspace_id, rankings, rankingResult.rankingIds);
+      // If sync_to_ado is true, propose the matching ADO backlog order for approval
+      console.log('Computing proposed Azure DevOps backlog order...');
+      const changesetResult = await createRankChangeset(supabase, workspace_id, board_id, rankings, syncRecord.id);
       
       // Update sync history record
       await supabase
         .from('productboard_sync_history')
         .update({
-          status: updateResult.success ? 'completed' : 'failed',
+          status: changesetResult.success ? 'completed' : 'failed',
           item_count: rankings.length,
-          updated_count: updateResult.updatedCount,
-          error_message: updateResult.errors.join('\n') || null,
+          error_message: changesetResult.errors.join('\n') || null,
           rankings_stored: true,
           completed_at: new Date().toISOString()
         })
@@ -1023,9 +948,12 @@ Deno.serve(async (req) => {
       
       return new Response(
         JSON.stringify({ 
-          success: updateResult.success, 
-          message: `Synchronized ${updateResult.updatedCount} of ${rankings.length} items to Azure DevOps`, 
-          errors: updateResult.errors,
+          success: changesetResult.success, 
+          message: changesetResult.changesetId
+            ? `Proposed ${changesetResult.changeCount} Azure DevOps backlog order changes for approval`
+            : 'No Azure DevOps backlog order changes to propose',
+          changesetId: changesetResult.changesetId,
+          errors: changesetResult.errors,
           rankingCount: rankings.length,
           rankingResult
         }),
@@ -1,4 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { getSecret, requireSecret } from '../_shared/secrets.ts';
+import { SyncStoryRequest } from '../_shared/contracts.ts';
+import { applyFieldMappings } from '../_shared/fieldMappings.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,80 +9,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-interface SyncStoryRequest {
-  storyId: string;
-  direction: 'pb_to_ado' | 'ado_to_pb' | 'bidirectional';
-}
-
-// Helper function to apply field mappings
-function applyFieldMappings(
-  source: Record<string, any>,
-  mappings: any[],
-  direction: 'pb_to_ado' | 'ado_to_pb'
-): Record<string, any> {
-  const result: Record<string, any> = {};
-  
-  for (const mapping of mappings) {
-    const sourceField = direction === 'pb_to_ado' ? mapping.pb_field : mapping.ado_field;
-    const targetField = direction === 'pb_to_ado' ? mapping.ado_field : mapping.pb_field;
-    
-    if (!sourceField || !targetField) continue;
-    
-    let value = source[sourceField];
-    
-    // Apply mapping rules based on mapping type
-    switch (mapping.mapping_type) {
-      case 'direct':
-        // Direct mapping, just copy the value
-        result[targetField] = value;
-        break;
-        
-      case 'transform':
-        // Apply transformation rules
-        if (mapping.mapping_rules?.transforms && value in mapping.mapping_rules.transforms) {
-          result[targetField] = mapping.mapping_rules.transforms[value];
-        } else {
-          result[targetField] = value;
-        }
-        break;
-        
-      case 'lookup':
-        // Apply lookup table
-        if (mapping.mapping_rules?.lookupTable && value in mapping.mapping_rules.lookupTable) {
-          result[targetField] = mapping.mapping_rules.lookupTable[value];
-        } else {
-          result[targetField] = value;
-        }
-        break;
-        
-      // Special mapping types for hierarchy
-      case 'epic_business_unit':
-        if (source.level === 'epic') {
-          result[targetField] = value;
-        }
-        break;
-        
-      case 'feature_product_code':
-        if (source.level === 'feature') {
-          result[targetField] = value;
-        }
-        break;
-        
-      case 'story_team':
-        if (source.level === 'story') {
-          result[targetField] = value;
-        }
-        break;
-        
-      default:
-        // Unknown mapping type, just copy the value
-        result[targetField] = value;
-    }
-  }
-  
-  return result;
-}
-
 // Helper function to create Azure DevOps client
 function createAzureDevOpsClient(organization: string, project: string, apiKey: string) {
   // Create the Azure DevOps API URL
@@ -271,7 +200,6 @@ Deno.serve(async (req) => {
         workspaces (
           id,
           pb_api_key,
-          ado_api_key,
           pb_board_id,
           ado_project_id,
           ado_organization
@@ -310,13 +238,17 @@ Deno.serve(async (req) => {
       const [organization, project] = workspace.ado_project_id.split('/');
       
       // Create API clients
+      const adoApiKey = await requireSecret(supabase, 'ado_pat', { workspaceId: story.workspace_id, envVar: 'ADO_PAT' });
+      const pbApiKey = await getSecret(supabase, 'productboard_api_token', { workspaceId: story.workspace_id })
+        || workspace.pb_api_key;
+
       const adoClient = createAzureDevOpsClient(
         workspace.ado_organization || organization,
         project,
-        workspace.ado_api_key
+        adoApiKey
       );
       
-      const pbClient = createProductBoardClient(workspace.pb_api_key);
+      const pbClient = createProductBoardClient(pbApiKey);
 
       // Perform sync based on direction
       if (direction === 'pb_to_ado' || direction === 'bidirectional') {
@@ -0,0 +1,92 @@
+-- Migration: 0032_create_pb_ado_sync_rules.sql
+-- Creates per-workspace trigger rules that decide when pb-ado-sync pushes a ProductBoard item to ADO
+
+CREATE TABLE IF NOT EXISTS pb_ado_sync_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+
+    -- Lower numbers are evaluated first; the first matching rule wins
+    priority INTEGER NOT NULL DEFAULT 100,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+
+    -- Match conditions (NULL means "any")
+    from_status TEXT,
+    to_status TEXT,
+    feature_type TEXT,
+    component_id TEXT,
+    custom_field_conditions JSONB NOT NULL DEFAULT '{}',
+
+    -- What pb-ado-sync should do when the rule matches
+    action VARCHAR(20) NOT NULL DEFAULT 'create',
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT pb_ado_sync_rules_action_check CHECK (action IN ('create', 'update', 'link', 'skip'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pb_ado_sync_rules_workspace_id ON pb_ado_sync_rules(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_pb_ado_sync_rules_priority ON pb_ado_sync_rules(priority);
+
+DROP TRIGGER IF EXISTS update_pb_ado_sync_rules_timestamp ON pb_ado_sync_rules;
+
+CREATE TRIGGER update_pb_ado_sync_rules_timestamp
+BEFORE UPDATE ON pb_ado_sync_rules
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE pb_ado_sync_rules IS 'Trigger rules evaluated by pb-ado-sync to decide which action to take for a ProductBoard status transition';
+COMMENT ON COLUMN pb_ado_sync_rules.workspace_id IS 'Workspace the rule belongs to; NULL rules apply to every workspace';
+COMMENT ON COLUMN pb_ado_sync_rules.from_status IS 'Previous ProductBoard status to match (NULL matches any, including no previous status)';
+COMMENT ON COLUMN pb_ado_sync_rules.to_status IS 'New ProductBoard status to match (NULL matches any)';
+COMMENT ON COLUMN pb_ado_sync_rules.feature_type IS 'ProductBoard item type to match (feature, subfeature, ...)';
+COMMENT ON COLUMN pb_ado_sync_rules.component_id IS 'ProductBoard component ID to match';
+COMMENT ON COLUMN pb_ado_sync_rules.custom_field_conditions IS 'Map of custom field key to the value it must equal, e.g. {"tentpole": "true"}';
+COMMENT ON COLUMN pb_ado_sync_rules.action IS 'create (create, or update when already mapped), update (mapped items only), link (push the ADO link back to PB), skip';
+
+-- Keep track of which rule drove each automation decision
+ALTER TABLE pb_ado_automation_logs
+ADD COLUMN IF NOT EXISTS matched_rule_id UUID REFERENCES pb_ado_sync_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS rule_action VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_pb_ado_automation_logs_matched_rule_id ON pb_ado_automation_logs(matched_rule_id);
+
+COMMENT ON COLUMN pb_ado_automation_logs.matched_rule_id IS 'Trigger rule from pb_ado_sync_rules that matched this event, if any';
+COMMENT ON COLUMN pb_ado_automation_logs.rule_action IS 'Action taken for the matched rule (create, update, link, skip)';
+
+COMMENT ON COLUMN pb_ado_automation_logs.status IS 'Status of the automation: received, ignored, fetched, fetch_error, mapping_fetch_error, processing_required, skipped_status_check, skipped_by_rule, skipped_not_mapped, skipped_no_status, link_requested, ado_config_error, ado_error, mapping_update_error, ado_created, ado_updated, dry_run';
+
+-- RLS policies, matching hierarchy_mappings
+ALTER TABLE pb_ado_sync_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pb_ado_sync_rules"
+  ON pb_ado_sync_rules
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert pb_ado_sync_rules"
+  ON pb_ado_sync_rules
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Users can update pb_ado_sync_rules"
+  ON pb_ado_sync_rules
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Users can delete pb_ado_sync_rules"
+  ON pb_ado_sync_rules
+  FOR DELETE
+  USING (true);
+
+-- Seed the rule that reproduces the previous hard-coded behaviour
+INSERT INTO pb_ado_sync_rules (name, description, priority, to_status, action)
+VALUES (
+  'Sync when moved to With Engineering',
+  'Default rule: create (or update) the ADO work item when a feature enters "With Engineering"',
+  100,
+  'With Engineering',
+  'create'
+);
@@ -0,0 +1,28 @@
+-- Migration: 0033_add_bidirectional_sync_fields.sql
+-- Adds the state needed for ADO -> ProductBoard write-back and echo detection
+
+-- Latest ADO values seen by handle-ado-webhook
+ALTER TABLE pb_ado_mappings
+ADD COLUMN IF NOT EXISTS ado_state TEXT,
+ADD COLUMN IF NOT EXISTS ado_iteration_path TEXT;
+
+-- Echo detection: what was last written into the other system, and when
+ALTER TABLE pb_ado_mappings
+ADD COLUMN IF NOT EXISTS last_writeback_target VARCHAR(10),
+ADD COLUMN IF NOT EXISTS last_writeback_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_writeback_fields JSONB;
+
+COMMENT ON COLUMN pb_ado_mappings.ado_state IS 'Last ADO System.State received from the ADO webhook';
+COMMENT ON COLUMN pb_ado_mappings.ado_iteration_path IS 'Last ADO System.IterationPath received from the ADO webhook';
+COMMENT ON COLUMN pb_ado_mappings.last_writeback_target IS 'System (pb or ado) that was last written to by the sync functions';
+COMMENT ON COLUMN pb_ado_mappings.last_writeback_at IS 'When the last write-back happened; events from the target system shortly after are treated as echoes';
+COMMENT ON COLUMN pb_ado_mappings.last_writeback_fields IS 'Field values written by the last write-back, used to recognise the echoed webhook';
+
+-- Configurable ADO state -> ProductBoard status map used by handle-ado-webhook
+INSERT INTO public.system_config (key, value, description)
+VALUES (
+    'ado_pb_status_map',
+    '{"New": "With Engineering", "Active": "In progress", "Resolved": "In progress", "Closed": "Released", "Removed": "Won''t do"}',
+    'JSON map of Azure DevOps work item states to ProductBoard status names for ADO -> PB write-back'
+)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,25 @@
+-- Migration: 0034_create_webhook_deliveries.sql
+-- Records inbound webhook deliveries so retried notifications are processed exactly once
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source VARCHAR(20) NOT NULL,
+    delivery_id TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'processing',
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT webhook_deliveries_source_delivery_key UNIQUE (source, delivery_id),
+    CONSTRAINT webhook_deliveries_source_check CHECK (source IN ('productboard', 'ado')),
+    CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('processing', 'processed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at ON webhook_deliveries(received_at);
+
+COMMENT ON TABLE webhook_deliveries IS 'Inbound webhook deliveries claimed by the edge functions for duplicate detection';
+COMMENT ON COLUMN webhook_deliveries.source IS 'Sending system: productboard or ado';
+COMMENT ON COLUMN webhook_deliveries.delivery_id IS 'Notification ID of the delivery (ADO subscriptionId:notificationId, or a hash of the ProductBoard body)';
+COMMENT ON COLUMN webhook_deliveries.status IS 'processing while the function handles the delivery, processed once it succeeded; failed deliveries are deleted so the retry is accepted';
+
+-- Only the edge functions (service role) touch this table
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,111 @@
+-- Migration: 0035_create_sync_job_queue.sql
+-- Creates a durable retry queue for failed sync operations, processed by the process-sync-queue edge function
+
+CREATE TABLE IF NOT EXISTS pb_ado_sync_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sync_log_id UUID REFERENCES pb_ado_sync_logs(id) ON DELETE SET NULL,
+    mapping_id UUID REFERENCES pb_ado_enhanced_mappings(id) ON DELETE SET NULL,
+    operation_type VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+
+    -- Operation input; see docs/PB_ADO_WEBHOOK_INTEGRATION.md for the shape per operation type
+    payload JSONB NOT NULL DEFAULT '{}',
+
+    -- Retry bookkeeping
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    last_error TEXT,
+    last_response JSONB,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    dead_lettered_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT pb_ado_sync_jobs_operation_type_check CHECK (operation_type IN ('create', 'update', 'link', 'rank_update')),
+    CONSTRAINT pb_ado_sync_jobs_status_check CHECK (status IN ('pending', 'in_progress', 'retrying', 'completed', 'dead_letter'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pb_ado_sync_jobs_status_next_attempt ON pb_ado_sync_jobs(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_pb_ado_sync_jobs_sync_log_id ON pb_ado_sync_jobs(sync_log_id);
+
+DROP TRIGGER IF EXISTS update_pb_ado_sync_jobs_timestamp ON pb_ado_sync_jobs;
+
+CREATE TRIGGER update_pb_ado_sync_jobs_timestamp
+BEFORE UPDATE ON pb_ado_sync_jobs
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE pb_ado_sync_jobs IS 'Retry queue for failed create/update/link/rank_update sync operations';
+COMMENT ON COLUMN pb_ado_sync_jobs.status IS 'pending (due), in_progress (claimed by process-sync-queue), retrying (waiting for backoff), completed, dead_letter (max attempts exhausted)';
+COMMENT ON COLUMN pb_ado_sync_jobs.payload IS 'Operation input, initially the request_payload of the failed sync log; editable before a manual replay';
+COMMENT ON COLUMN pb_ado_sync_jobs.next_attempt_at IS 'Earliest time the job may run again (exponential backoff)';
+COMMENT ON COLUMN pb_ado_sync_jobs.locked_at IS 'When process-sync-queue claimed the job; stale locks are reclaimed';
+
+-- Enqueue a job whenever a retryable operation is logged as retrying
+CREATE OR REPLACE FUNCTION enqueue_sync_job_from_log()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'retrying'
+       AND NEW.operation_type IN ('create', 'update', 'link', 'rank_update')
+       AND NOT EXISTS (SELECT 1 FROM pb_ado_sync_jobs WHERE sync_log_id = NEW.id) THEN
+        INSERT INTO pb_ado_sync_jobs (sync_log_id, mapping_id, operation_type, payload, last_error)
+        VALUES (NEW.id, NEW.mapping_id, NEW.operation_type, COALESCE(NEW.request_payload, '{}'), NEW.error_message);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enqueue_sync_job_on_retrying ON pb_ado_sync_logs;
+
+CREATE TRIGGER enqueue_sync_job_on_retrying
+AFTER INSERT OR UPDATE OF status ON pb_ado_sync_logs
+FOR EACH ROW
+EXECUTE PROCEDURE enqueue_sync_job_from_log();
+
+COMMENT ON FUNCTION enqueue_sync_job_from_log() IS 'Adds a pb_ado_sync_jobs row for sync logs that are marked retrying';
+
+-- Pick up the rows that were already left in the retrying state
+INSERT INTO pb_ado_sync_jobs (sync_log_id, mapping_id, operation_type, payload, last_error)
+SELECT l.id, l.mapping_id, l.operation_type, COALESCE(l.request_payload, '{}'), l.error_message
+FROM pb_ado_sync_logs l
+WHERE l.status = 'retrying'
+  AND l.operation_type IN ('create', 'update', 'link', 'rank_update')
+  AND NOT EXISTS (SELECT 1 FROM pb_ado_sync_jobs j WHERE j.sync_log_id = l.id);
+
+-- Atomically claim due jobs so overlapping runs never process the same job
+CREATE OR REPLACE FUNCTION claim_sync_jobs(batch_size INTEGER DEFAULT 10, lock_timeout_minutes INTEGER DEFAULT 15)
+RETURNS SETOF pb_ado_sync_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE pb_ado_sync_jobs
+    SET status = 'in_progress',
+        locked_at = now()
+    WHERE id IN (
+        SELECT id FROM pb_ado_sync_jobs
+        WHERE (status IN ('pending', 'retrying') AND next_attempt_at <= now())
+           OR (status = 'in_progress' AND locked_at < now() - make_interval(mins => lock_timeout_minutes))
+        ORDER BY next_attempt_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION claim_sync_jobs(INTEGER, INTEGER) IS 'Claims up to batch_size due jobs (and jobs whose lock went stale) for process-sync-queue';
+
+-- Enable RLS
+ALTER TABLE pb_ado_sync_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pb_ado_sync_jobs"
+  ON pb_ado_sync_jobs
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can update pb_ado_sync_jobs"
+  ON pb_ado_sync_jobs
+  FOR UPDATE
+  USING (true);
@@ -0,0 +1,58 @@
+-- Migration: 0036_add_sync_run_tracking.sql
+-- Adds the fields the sync history page needs and publishes the run tables to Supabase realtime
+
+-- Run records written by sync-productboard-hierarchy (previously created outside the migrations)
+CREATE TABLE IF NOT EXISTS productboard_hierarchy_sync_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID,
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress',
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    products_count INTEGER DEFAULT 0,
+    components_count INTEGER DEFAULT 0,
+    features_count INTEGER DEFAULT 0,
+    initiatives_count INTEGER DEFAULT 0,
+    relationships_count INTEGER DEFAULT 0,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pb_hierarchy_sync_history_started_at ON productboard_hierarchy_sync_history(started_at);
+
+-- How each run was started
+ALTER TABLE productboard_hierarchy_sync_history
+ADD COLUMN IF NOT EXISTS trigger VARCHAR(20) NOT NULL DEFAULT 'scheduled';
+
+ALTER TABLE ado_sync_history
+ADD COLUMN IF NOT EXISTS trigger VARCHAR(20) NOT NULL DEFAULT 'manual';
+
+ALTER TABLE pb_ado_sync_logs
+ADD COLUMN IF NOT EXISTS trigger VARCHAR(20) NOT NULL DEFAULT 'webhook',
+ADD COLUMN IF NOT EXISTS sync_run_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_pb_ado_sync_logs_sync_run_id ON pb_ado_sync_logs(sync_run_id);
+
+COMMENT ON COLUMN productboard_hierarchy_sync_history.trigger IS 'How the run was started: manual, scheduled or webhook';
+COMMENT ON COLUMN ado_sync_history.trigger IS 'How the run was started: manual, scheduled or webhook';
+COMMENT ON COLUMN pb_ado_sync_logs.trigger IS 'How the operation was started: manual, scheduled, webhook or retry';
+COMMENT ON COLUMN pb_ado_sync_logs.sync_run_id IS 'ID of the history record of the sync run this operation belongs to, if any';
+
+-- ado_sync_history is now one row per run instead of one row per entity type
+COMMENT ON TABLE ado_sync_history IS 'One row per Azure DevOps entity sync run; the latest successful row per entity type is the last sync time';
+
+-- Stream run changes to the sync history page
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        FOREACH t IN ARRAY ARRAY['productboard_hierarchy_sync_history', 'ado_sync_history', 'pb_ado_sync_logs'] LOOP
+            IF NOT EXISTS (
+                SELECT 1 FROM pg_publication_tables
+                WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+            ) THEN
+                EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+            END IF;
+        END LOOP;
+    END IF;
+END$$;
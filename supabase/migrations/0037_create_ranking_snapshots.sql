@@ -0,0 +1,31 @@
+-- Migration: 0037_create_ranking_snapshots.sql
+-- Keeps a snapshot of every ProductBoard ranking sync so rank changes can be compared over time
+
+CREATE TABLE IF NOT EXISTS productboard_ranking_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL,
+    board_id TEXT NOT NULL,
+    sync_history_id UUID NOT NULL,
+    story_id TEXT NOT NULL,
+    story_name TEXT,
+    rank INTEGER NOT NULL,
+    indent_level INTEGER,
+    captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT productboard_ranking_snapshots_sync_story_key UNIQUE (sync_history_id, story_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pb_ranking_snapshots_board ON productboard_ranking_snapshots(workspace_id, board_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_pb_ranking_snapshots_story ON productboard_ranking_snapshots(story_id);
+
+COMMENT ON TABLE productboard_ranking_snapshots IS 'Rank of every item on a tracked board at each ranking sync, written by sync-productboard-rankings';
+COMMENT ON COLUMN productboard_ranking_snapshots.sync_history_id IS 'productboard_sync_history run that captured the snapshot';
+COMMENT ON COLUMN productboard_ranking_snapshots.captured_at IS 'When the ranking was scraped';
+
+-- Enable RLS
+ALTER TABLE productboard_ranking_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view productboard_ranking_snapshots"
+  ON productboard_ranking_snapshots
+  FOR SELECT
+  USING (true);
@@ -0,0 +1,100 @@
+-- Migration: 0038_create_ado_rank_changesets.sql
+-- Stores proposed ADO backlog order changes computed from ProductBoard rankings until they are approved
+
+CREATE TABLE IF NOT EXISTS ado_rank_changesets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL,
+    board_id TEXT NOT NULL,
+    sync_history_id UUID,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    item_count INTEGER NOT NULL DEFAULT 0,
+    change_count INTEGER NOT NULL DEFAULT 0,
+    applied_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    error_message TEXT,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    applied_at TIMESTAMP WITH TIME ZONE,
+    rejected_at TIMESTAMP WITH TIME ZONE,
+    rolled_back_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT ado_rank_changesets_status_check CHECK (status IN ('pending', 'applying', 'applied', 'partially_applied', 'failed', 'rejected', 'rolled_back'))
+);
+
+CREATE TABLE IF NOT EXISTS ado_rank_changeset_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    changeset_id UUID NOT NULL REFERENCES ado_rank_changesets(id) ON DELETE CASCADE,
+    productboard_id TEXT NOT NULL,
+    story_name TEXT,
+    pb_rank INTEGER NOT NULL,
+    ado_work_item_id INTEGER NOT NULL,
+    ado_title TEXT,
+    team_backlog TEXT NOT NULL,
+    rank_field VARCHAR(100) NOT NULL,
+    current_value DOUBLE PRECISION,
+    proposed_value DOUBLE PRECISION NOT NULL,
+    current_position INTEGER NOT NULL,
+    proposed_position INTEGER NOT NULL,
+    approved BOOLEAN NOT NULL DEFAULT true,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    sync_log_id UUID REFERENCES pb_ado_sync_logs(id) ON DELETE SET NULL,
+    rollback_log_id UUID REFERENCES pb_ado_sync_logs(id) ON DELETE SET NULL,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT ado_rank_changeset_items_status_check CHECK (status IN ('pending', 'unchanged', 'applied', 'failed', 'skipped', 'rolled_back'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ado_rank_changesets_workspace_status ON ado_rank_changesets(workspace_id, status);
+CREATE INDEX IF NOT EXISTS idx_ado_rank_changesets_created_at ON ado_rank_changesets(created_at);
+CREATE INDEX IF NOT EXISTS idx_ado_rank_changeset_items_changeset_id ON ado_rank_changeset_items(changeset_id);
+
+DROP TRIGGER IF EXISTS update_ado_rank_changesets_timestamp ON ado_rank_changesets;
+
+CREATE TRIGGER update_ado_rank_changesets_timestamp
+BEFORE UPDATE ON ado_rank_changesets
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+DROP TRIGGER IF EXISTS update_ado_rank_changeset_items_timestamp ON ado_rank_changeset_items;
+
+CREATE TRIGGER update_ado_rank_changeset_items_timestamp
+BEFORE UPDATE ON ado_rank_changeset_items
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE ado_rank_changesets IS 'ADO backlog order changes proposed by a ProductBoard ranking sync, applied only once approved';
+COMMENT ON COLUMN ado_rank_changesets.status IS 'pending (awaiting review), applying, applied, partially_applied, failed, rejected, rolled_back';
+COMMENT ON TABLE ado_rank_changeset_items IS 'One mapped work item of a rank changeset with its current and proposed backlog order';
+COMMENT ON COLUMN ado_rank_changeset_items.team_backlog IS 'Area path of the work item; items are only reordered among the items of the same backlog';
+COMMENT ON COLUMN ado_rank_changeset_items.rank_field IS 'ADO field that orders the backlog: Microsoft.VSTS.Common.StackRank or Microsoft.VSTS.Common.BacklogPriority';
+COMMENT ON COLUMN ado_rank_changeset_items.current_value IS 'Rank field value when the changeset was computed; restored on rollback';
+COMMENT ON COLUMN ado_rank_changeset_items.approved IS 'Whether the reviewer kept this change; unapproved changes are skipped on apply';
+COMMENT ON COLUMN ado_rank_changeset_items.sync_log_id IS 'rank_update log of the apply';
+COMMENT ON COLUMN ado_rank_changeset_items.rollback_log_id IS 'rank_update log of the rollback';
+
+-- Enable RLS
+ALTER TABLE ado_rank_changesets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ado_rank_changeset_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view ado_rank_changesets"
+  ON ado_rank_changesets
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can update ado_rank_changesets"
+  ON ado_rank_changesets
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Users can view ado_rank_changeset_items"
+  ON ado_rank_changeset_items
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can update ado_rank_changeset_items"
+  ON ado_rank_changeset_items
+  FOR UPDATE
+  USING (true);
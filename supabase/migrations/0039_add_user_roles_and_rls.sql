@@ -0,0 +1,180 @@
+-- Migration: 0039_add_user_roles_and_rls.sql
+-- Adds application roles for Supabase Auth users and enforces them with row-level security
+
+-- Profile and role of each authenticated user
+CREATE TABLE IF NOT EXISTS user_profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email TEXT,
+    full_name TEXT,
+    role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT user_profiles_role_check CHECK (role IN ('admin', 'product_manager', 'engineer', 'viewer'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_role ON user_profiles(role);
+
+DROP TRIGGER IF EXISTS update_user_profiles_timestamp ON user_profiles;
+
+CREATE TRIGGER update_user_profiles_timestamp
+BEFORE UPDATE ON user_profiles
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE user_profiles IS 'Application profile and role of each Supabase Auth user';
+COMMENT ON COLUMN user_profiles.role IS 'admin, product_manager, engineer or viewer';
+
+-- Create a profile for every new user; only the first user of a new install becomes admin so roles can be assigned.
+-- Once any profile exists new users are viewers, even if no admin is left
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.user_profiles (id, email, full_name, role)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name'),
+        CASE WHEN EXISTS (SELECT 1 FROM public.user_profiles) THEN 'viewer' ELSE 'admin' END
+    )
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE PROCEDURE handle_new_auth_user();
+
+-- Profiles for users that signed up before this migration
+INSERT INTO user_profiles (id, email, full_name)
+SELECT u.id, u.email, COALESCE(u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name')
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+-- The earliest existing user becomes admin, so an existing install is not left for the next signup to claim
+UPDATE user_profiles
+SET role = 'admin'
+WHERE id = (SELECT id FROM auth.users ORDER BY created_at, id LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM user_profiles WHERE role = 'admin');
+
+-- Whether the current user has one of the given roles
+CREATE OR REPLACE FUNCTION has_app_role(VARIADIC roles TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE id = auth.uid() AND role = ANY(roles)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION has_app_role(TEXT[]) IS 'True when the signed-in user has any of the given roles; used by RLS policies';
+
+-- Enable RLS
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view user_profiles"
+  ON user_profiles
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update user_profiles"
+  ON user_profiles
+  FOR UPDATE
+  USING (has_app_role('admin'));
+
+-- Replace the open or workspace_users based policies with role based ones.
+-- Edge functions use the service role and are not affected.
+DO $$
+DECLARE
+    t TEXT;
+    p RECORD;
+BEGIN
+    FOREACH t IN ARRAY ARRAY[
+        -- Grooming
+        'grooming_sessions', 'grooming_stories', 'session_stories', 'sprints', 'sprint_stories',
+        'story_relationships', 'story_history', 'session_participants', 'ai_analyses', 'session_sprints',
+        -- Mapping
+        'hierarchy_mappings', 'pb_ado_mappings', 'pb_ado_enhanced_mappings', 'pb_ado_sync_rules',
+        -- Config and sync operations
+        'system_config', 'pb_ado_sync_jobs', 'ado_rank_changesets', 'ado_rank_changeset_items'
+    ] LOOP
+        IF to_regclass('public.' || t) IS NOT NULL THEN
+            FOR p IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = t LOOP
+                EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', p.policyname, t);
+            END LOOP;
+
+            EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+            EXECUTE format('CREATE POLICY "Users can view %s" ON public.%I FOR SELECT USING (auth.uid() IS NOT NULL)', t, t);
+        END IF;
+    END LOOP;
+END$$;
+
+-- Grooming: engineers and up take part in grooming
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY[
+        'grooming_sessions', 'grooming_stories', 'session_stories', 'sprints', 'sprint_stories',
+        'story_relationships', 'story_history', 'session_participants', 'ai_analyses', 'session_sprints'
+    ] LOOP
+        IF to_regclass('public.' || t) IS NOT NULL THEN
+            EXECUTE format(
+                'CREATE POLICY "Editors can modify %s" ON public.%I FOR ALL USING (has_app_role(''admin'', ''product_manager'', ''engineer'')) WITH CHECK (has_app_role(''admin'', ''product_manager'', ''engineer''))',
+                t, t
+            );
+        END IF;
+    END LOOP;
+END$$;
+
+-- Work item links: product managers and admins
+CREATE POLICY "Product managers can modify pb_ado_mappings"
+  ON pb_ado_mappings
+  FOR ALL
+  USING (has_app_role('admin', 'product_manager'))
+  WITH CHECK (has_app_role('admin', 'product_manager'));
+
+CREATE POLICY "Product managers can modify pb_ado_enhanced_mappings"
+  ON pb_ado_enhanced_mappings
+  FOR ALL
+  USING (has_app_role('admin', 'product_manager'))
+  WITH CHECK (has_app_role('admin', 'product_manager'));
+
+-- Rank changesets are approved by product managers
+CREATE POLICY "Product managers can update ado_rank_changesets"
+  ON ado_rank_changesets
+  FOR UPDATE
+  USING (has_app_role('admin', 'product_manager'));
+
+CREATE POLICY "Product managers can update ado_rank_changeset_items"
+  ON ado_rank_changeset_items
+  FOR UPDATE
+  USING (has_app_role('admin', 'product_manager'));
+
+-- Retry queue replays
+CREATE POLICY "Engineers can update pb_ado_sync_jobs"
+  ON pb_ado_sync_jobs
+  FOR UPDATE
+  USING (has_app_role('admin', 'engineer'));
+
+-- Hierarchy mapping, trigger rules and system configuration: admins only
+CREATE POLICY "Admins can modify hierarchy_mappings"
+  ON hierarchy_mappings
+  FOR ALL
+  USING (has_app_role('admin'))
+  WITH CHECK (has_app_role('admin'));
+
+CREATE POLICY "Admins can modify pb_ado_sync_rules"
+  ON pb_ado_sync_rules
+  FOR ALL
+  USING (has_app_role('admin'))
+  WITH CHECK (has_app_role('admin'));
+
+CREATE POLICY "Admins can modify system_config"
+  ON system_config
+  FOR ALL
+  USING (has_app_role('admin'))
+  WITH CHECK (has_app_role('admin'));
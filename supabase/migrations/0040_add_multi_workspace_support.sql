@@ -0,0 +1,335 @@
+-- Migration: 0040_add_multi_workspace_support.sql
+-- Adds workspaces with membership and per-workspace config, and scopes the cache and sync tables by workspace
+
+-- Workspaces (previously created outside the migrations)
+CREATE TABLE IF NOT EXISTS workspaces (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL
+);
+
+ALTER TABLE workspaces
+ADD COLUMN IF NOT EXISTS description TEXT,
+ADD COLUMN IF NOT EXISTS ado_project_id TEXT,
+ADD COLUMN IF NOT EXISTS ado_api_key TEXT,
+ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+-- The workspace existing data belongs to
+INSERT INTO workspaces (id, name, description)
+VALUES ('00000000-0000-0000-0000-000000000000', 'Default Workspace', 'The default workspace for all users')
+ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_workspaces_timestamp ON workspaces;
+
+CREATE TRIGGER update_workspaces_timestamp
+BEFORE UPDATE ON workspaces
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE workspaces IS 'Product lines with their own ProductBoard and Azure DevOps settings, mappings and data';
+COMMENT ON COLUMN workspaces.ado_project_id IS 'Azure DevOps organization/project of the workspace';
+
+-- Workspace membership
+CREATE TABLE IF NOT EXISTS workspace_users (
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_users_user_id ON workspace_users(user_id);
+
+COMMENT ON TABLE workspace_users IS 'Users that can access a workspace; admins can access every workspace';
+
+-- Existing and new users start in the default workspace
+INSERT INTO workspace_users (workspace_id, user_id)
+SELECT '00000000-0000-0000-0000-000000000000', id FROM user_profiles
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION add_user_to_default_workspace()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.workspace_users (workspace_id, user_id)
+    VALUES ('00000000-0000-0000-0000-000000000000', NEW.id)
+    ON CONFLICT DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_user_profile_created ON user_profiles;
+
+CREATE TRIGGER on_user_profile_created
+AFTER INSERT ON user_profiles
+FOR EACH ROW
+EXECUTE PROCEDURE add_user_to_default_workspace();
+
+-- Whether the current user can access a workspace
+CREATE OR REPLACE FUNCTION is_workspace_member(ws UUID)
+RETURNS BOOLEAN AS $$
+    SELECT has_app_role('admin') OR EXISTS (
+        SELECT 1 FROM public.workspace_users
+        WHERE workspace_id = ws AND user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION is_workspace_member(UUID) IS 'True when the signed-in user is a member of the workspace or an admin; used by RLS policies';
+
+-- Per-workspace overrides of system_config values
+CREATE TABLE IF NOT EXISTS workspace_config (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    value TEXT,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT workspace_config_workspace_key UNIQUE (workspace_id, key)
+);
+
+DROP TRIGGER IF EXISTS update_workspace_config_timestamp ON workspace_config;
+
+CREATE TRIGGER update_workspace_config_timestamp
+BEFORE UPDATE ON workspace_config
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE workspace_config IS 'Workspace specific values that take precedence over the system_config value with the same key';
+
+-- Scope the ADO cache and sync tables by workspace; existing rows belong to the default workspace
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY[
+        'ado_work_items', 'ado_work_item_relations', 'ado_area_paths', 'ado_teams', 'ado_work_item_types',
+        'ado_sync_history', 'pb_ado_mappings', 'pb_ado_enhanced_mappings', 'pb_ado_automation_logs',
+        'pb_ado_sync_logs', 'pb_ado_sync_jobs', 'productboard_features', 'stories'
+    ] LOOP
+        IF to_regclass('public.' || t) IS NOT NULL THEN
+            EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL DEFAULT ''00000000-0000-0000-0000-000000000000''', t);
+            EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I(workspace_id)', 'idx_' || t || '_workspace_id', t);
+        END IF;
+    END LOOP;
+END$$;
+
+-- Runs recorded before workspaces existed belong to the default workspace
+UPDATE productboard_hierarchy_sync_history
+SET workspace_id = '00000000-0000-0000-0000-000000000000'
+WHERE workspace_id IS NULL;
+
+-- Workspaces can point at different ADO organizations, so cached ADO IDs are only unique per workspace.
+-- grooming_stories.ado_work_item_id referenced the old single-column key; it stays a plain ID
+-- resolved within the story's workspace
+ALTER TABLE grooming_stories DROP CONSTRAINT IF EXISTS grooming_stories_ado_work_item_id_fkey;
+ALTER TABLE ado_work_items DROP CONSTRAINT IF EXISTS ado_work_items_pkey;
+ALTER TABLE ado_work_items ADD PRIMARY KEY (workspace_id, id);
+
+ALTER TABLE ado_work_item_relations DROP CONSTRAINT IF EXISTS ado_work_item_relations_pkey;
+ALTER TABLE ado_work_item_relations ADD PRIMARY KEY (workspace_id, source_work_item_id, target_url, rel_type);
+
+ALTER TABLE ado_area_paths DROP CONSTRAINT IF EXISTS ado_area_paths_pkey;
+ALTER TABLE ado_area_paths DROP CONSTRAINT IF EXISTS ado_area_paths_path_key;
+ALTER TABLE ado_area_paths ADD PRIMARY KEY (workspace_id, id);
+ALTER TABLE ado_area_paths ADD CONSTRAINT ado_area_paths_workspace_path_key UNIQUE (workspace_id, path);
+
+ALTER TABLE ado_teams DROP CONSTRAINT IF EXISTS ado_teams_pkey;
+ALTER TABLE ado_teams ADD PRIMARY KEY (workspace_id, id);
+
+ALTER TABLE ado_work_item_types DROP CONSTRAINT IF EXISTS ado_work_item_types_pkey;
+ALTER TABLE ado_work_item_types ADD PRIMARY KEY (workspace_id, name);
+
+-- Carry the workspace of a failed operation over to its retry job
+CREATE OR REPLACE FUNCTION enqueue_sync_job_from_log()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'retrying'
+       AND NEW.operation_type IN ('create', 'update', 'link', 'rank_update')
+       AND NOT EXISTS (SELECT 1 FROM pb_ado_sync_jobs WHERE sync_log_id = NEW.id) THEN
+        INSERT INTO pb_ado_sync_jobs (sync_log_id, mapping_id, workspace_id, operation_type, payload, last_error)
+        VALUES (NEW.id, NEW.mapping_id, NEW.workspace_id, NEW.operation_type, COALESCE(NEW.request_payload, '{}'), NEW.error_message);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_config ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+    p RECORD;
+BEGIN
+    FOR p IN SELECT policyname, tablename FROM pg_policies
+             WHERE schemaname = 'public' AND tablename IN ('workspaces', 'workspace_users') LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', p.policyname, p.tablename);
+    END LOOP;
+END$$;
+
+CREATE POLICY "Members can view workspaces"
+  ON workspaces
+  FOR SELECT
+  USING (is_workspace_member(id));
+
+CREATE POLICY "Admins can modify workspaces"
+  ON workspaces
+  FOR ALL
+  USING (has_app_role('admin'))
+  WITH CHECK (has_app_role('admin'));
+
+CREATE POLICY "Users can view workspace_users"
+  ON workspace_users
+  FOR SELECT
+  USING (user_id = auth.uid() OR has_app_role('admin'));
+
+CREATE POLICY "Admins can modify workspace_users"
+  ON workspace_users
+  FOR ALL
+  USING (has_app_role('admin'))
+  WITH CHECK (has_app_role('admin'));
+
+CREATE POLICY "Members can view workspace_config"
+  ON workspace_config
+  FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Admins can modify workspace_config"
+  ON workspace_config
+  FOR ALL
+  USING (has_app_role('admin'))
+  WITH CHECK (has_app_role('admin'));
+
+-- Only members see the grooming, mapping, sync and rank data of a workspace
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY[
+        'grooming_sessions', 'grooming_stories', 'sprints', 'hierarchy_mappings', 'ado_rank_changesets',
+        'pb_ado_mappings', 'pb_ado_enhanced_mappings', 'pb_ado_sync_jobs', 'productboard_ranking_snapshots'
+    ] LOOP
+        IF to_regclass('public.' || t) IS NOT NULL THEN
+            EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Users can view ' || t, t);
+            EXECUTE format('CREATE POLICY %I ON public.%I FOR SELECT USING (workspace_id IS NULL OR is_workspace_member(workspace_id))', 'Members can view ' || t, t);
+        END IF;
+    END LOOP;
+END$$;
+
+-- Policies are OR-ed, and the role based write policies of 0039 also cover SELECT,
+-- so they are recreated to require both the role and membership of the row's workspace
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['grooming_sessions', 'grooming_stories', 'sprints'] LOOP
+        IF to_regclass('public.' || t) IS NOT NULL THEN
+            EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Editors can modify ' || t, t);
+            EXECUTE format(
+                'CREATE POLICY %I ON public.%I FOR ALL USING (has_app_role(''admin'', ''product_manager'', ''engineer'') AND (workspace_id IS NULL OR is_workspace_member(workspace_id))) WITH CHECK (has_app_role(''admin'', ''product_manager'', ''engineer'') AND (workspace_id IS NULL OR is_workspace_member(workspace_id)))',
+                'Editors can modify ' || t, t
+            );
+        END IF;
+    END LOOP;
+END$$;
+
+DROP POLICY IF EXISTS "Product managers can modify pb_ado_mappings" ON pb_ado_mappings;
+
+CREATE POLICY "Product managers can modify pb_ado_mappings"
+  ON pb_ado_mappings
+  FOR ALL
+  USING (has_app_role('admin', 'product_manager') AND is_workspace_member(workspace_id))
+  WITH CHECK (has_app_role('admin', 'product_manager') AND is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Product managers can modify pb_ado_enhanced_mappings" ON pb_ado_enhanced_mappings;
+
+CREATE POLICY "Product managers can modify pb_ado_enhanced_mappings"
+  ON pb_ado_enhanced_mappings
+  FOR ALL
+  USING (has_app_role('admin', 'product_manager') AND is_workspace_member(workspace_id))
+  WITH CHECK (has_app_role('admin', 'product_manager') AND is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Product managers can update ado_rank_changesets" ON ado_rank_changesets;
+
+CREATE POLICY "Product managers can update ado_rank_changesets"
+  ON ado_rank_changesets
+  FOR UPDATE
+  USING (has_app_role('admin', 'product_manager') AND is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Engineers can update pb_ado_sync_jobs" ON pb_ado_sync_jobs;
+
+CREATE POLICY "Engineers can update pb_ado_sync_jobs"
+  ON pb_ado_sync_jobs
+  FOR UPDATE
+  USING (has_app_role('admin', 'engineer') AND is_workspace_member(workspace_id));
+
+-- Tables without a workspace_id are scoped through the workspace of their parent row
+DO $$
+DECLARE
+    c RECORD;
+    member TEXT;
+BEGIN
+    FOR c IN SELECT * FROM (VALUES
+        ('session_stories', 'grooming_sessions', 'session_id'),
+        ('session_participants', 'grooming_sessions', 'session_id'),
+        ('session_sprints', 'grooming_sessions', 'session_id'),
+        ('sprint_stories', 'sprints', 'sprint_id'),
+        ('story_relationships', 'grooming_stories', 'source_story_id'),
+        ('story_history', 'grooming_stories', 'story_id'),
+        ('ado_rank_changeset_items', 'ado_rank_changesets', 'changeset_id')
+    ) AS scoped(child, parent, parent_column) LOOP
+        IF to_regclass('public.' || c.child) IS NOT NULL THEN
+            member := format(
+                'EXISTS (SELECT 1 FROM public.%I p WHERE p.id = %I.%I AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id)))',
+                c.parent, c.child, c.parent_column
+            );
+
+            EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Users can view ' || c.child, c.child);
+            EXECUTE format('CREATE POLICY %I ON public.%I FOR SELECT USING (%s)', 'Members can view ' || c.child, c.child, member);
+
+            IF c.child = 'ado_rank_changeset_items' THEN
+                EXECUTE 'DROP POLICY IF EXISTS "Product managers can update ado_rank_changeset_items" ON public.ado_rank_changeset_items';
+                EXECUTE format(
+                    'CREATE POLICY "Product managers can update ado_rank_changeset_items" ON public.ado_rank_changeset_items FOR UPDATE USING (has_app_role(''admin'', ''product_manager'') AND %s)',
+                    member
+                );
+            ELSE
+                EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Editors can modify ' || c.child, c.child);
+                EXECUTE format(
+                    'CREATE POLICY %I ON public.%I FOR ALL USING (has_app_role(''admin'', ''product_manager'', ''engineer'') AND %s) WITH CHECK (has_app_role(''admin'', ''product_manager'', ''engineer'') AND %s)',
+                    'Editors can modify ' || c.child, c.child, member, member
+                );
+            END IF;
+        END IF;
+    END LOOP;
+END$$;
+
+-- AI analyses can belong to a session, a story or a sprint; each one that is set must be accessible
+DROP POLICY IF EXISTS "Users can view ai_analyses" ON ai_analyses;
+DROP POLICY IF EXISTS "Editors can modify ai_analyses" ON ai_analyses;
+
+CREATE POLICY "Members can view ai_analyses"
+  ON ai_analyses
+  FOR SELECT
+  USING (
+    (session_id IS NULL OR EXISTS (SELECT 1 FROM grooming_sessions p WHERE p.id = ai_analyses.session_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+    AND (story_id IS NULL OR EXISTS (SELECT 1 FROM grooming_stories p WHERE p.id = ai_analyses.story_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+    AND (sprint_id IS NULL OR EXISTS (SELECT 1 FROM sprints p WHERE p.id = ai_analyses.sprint_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+  );
+
+CREATE POLICY "Editors can modify ai_analyses"
+  ON ai_analyses
+  FOR ALL
+  USING (
+    has_app_role('admin', 'product_manager', 'engineer')
+    AND (session_id IS NULL OR EXISTS (SELECT 1 FROM grooming_sessions p WHERE p.id = ai_analyses.session_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+    AND (story_id IS NULL OR EXISTS (SELECT 1 FROM grooming_stories p WHERE p.id = ai_analyses.story_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+    AND (sprint_id IS NULL OR EXISTS (SELECT 1 FROM sprints p WHERE p.id = ai_analyses.sprint_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+  )
+  WITH CHECK (
+    has_app_role('admin', 'product_manager', 'engineer')
+    AND (session_id IS NULL OR EXISTS (SELECT 1 FROM grooming_sessions p WHERE p.id = ai_analyses.session_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+    AND (story_id IS NULL OR EXISTS (SELECT 1 FROM grooming_stories p WHERE p.id = ai_analyses.story_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+    AND (sprint_id IS NULL OR EXISTS (SELECT 1 FROM sprints p WHERE p.id = ai_analyses.sprint_id AND (p.workspace_id IS NULL OR is_workspace_member(p.workspace_id))))
+  );
@@ -0,0 +1,224 @@
+-- Migration: 0041_encrypt_config_secrets.sql
+-- Moves credentials out of system_config into Vault-encrypted secrets that the browser can set but never read
+
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault CASCADE;
+
+-- Secret metadata; the value itself lives encrypted in vault.secrets
+CREATE TABLE IF NOT EXISTS config_secrets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    description TEXT,
+    vault_secret_id UUID NOT NULL,
+    value_hint TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT config_secrets_workspace_key UNIQUE NULLS NOT DISTINCT (workspace_id, key)
+);
+
+DROP TRIGGER IF EXISTS update_config_secrets_timestamp ON config_secrets;
+
+CREATE TRIGGER update_config_secrets_timestamp
+BEFORE UPDATE ON config_secrets
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE config_secrets IS 'Credentials such as API tokens and PATs; values are encrypted in vault.secrets and only readable by the service role';
+COMMENT ON COLUMN config_secrets.workspace_id IS 'Workspace the secret applies to, or NULL for the system-wide secret';
+COMMENT ON COLUMN config_secrets.value_hint IS 'Last four characters of the value (for values longer than eight characters) so admins can tell secrets apart';
+COMMENT ON COLUMN config_secrets.version IS 'Incremented on every rotation';
+
+-- Rotation history and audit trail of every change to a secret
+CREATE TABLE IF NOT EXISTS config_secret_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    secret_id UUID,
+    workspace_id UUID,
+    key TEXT NOT NULL,
+    action VARCHAR(20) NOT NULL,
+    version INTEGER NOT NULL,
+    value_hint TEXT,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT config_secret_history_action_check CHECK (action IN ('created', 'rotated', 'deleted'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_config_secret_history_key ON config_secret_history(key, changed_at);
+
+COMMENT ON TABLE config_secret_history IS 'Who created, rotated or deleted which secret and when; secret values are never recorded';
+COMMENT ON COLUMN config_secret_history.changed_by IS 'User that made the change, or NULL for edge functions running with the service role';
+
+-- Keys that hold credentials; the System Configuration page uses the same patterns
+CREATE OR REPLACE FUNCTION is_secret_config_key(p_key TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT p_key ~* '(token|key|secret|password|auth|credential)';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION secret_value_hint(p_value TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE WHEN length(p_value) > 8 THEN right(p_value, 4) END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Move the existing plaintext credentials into Vault
+INSERT INTO config_secrets (workspace_id, key, description, vault_secret_id, value_hint)
+SELECT NULL, s.key, s.description, vault.create_secret(s.value), secret_value_hint(s.value)
+FROM system_config s
+WHERE is_secret_config_key(s.key)
+  AND COALESCE(s.value, '') <> ''
+  AND NOT EXISTS (SELECT 1 FROM config_secrets c WHERE c.workspace_id IS NULL AND c.key = s.key);
+
+INSERT INTO config_secrets (workspace_id, key, description, vault_secret_id, value_hint)
+SELECT w.workspace_id, w.key, w.description, vault.create_secret(w.value), secret_value_hint(w.value)
+FROM workspace_config w
+WHERE is_secret_config_key(w.key)
+  AND COALESCE(w.value, '') <> ''
+  AND NOT EXISTS (SELECT 1 FROM config_secrets c WHERE c.workspace_id = w.workspace_id AND c.key = w.key);
+
+INSERT INTO config_secrets (workspace_id, key, description, vault_secret_id, value_hint)
+SELECT w.id, 'ado_pat', 'Azure DevOps personal access token', vault.create_secret(w.ado_api_key), secret_value_hint(w.ado_api_key)
+FROM workspaces w
+WHERE COALESCE(w.ado_api_key, '') <> ''
+  AND NOT EXISTS (SELECT 1 FROM config_secrets c WHERE c.workspace_id = w.id AND c.key = 'ado_pat');
+
+INSERT INTO config_secret_history (secret_id, workspace_id, key, action, version, value_hint)
+SELECT c.id, c.workspace_id, c.key, 'created', c.version, c.value_hint
+FROM config_secrets c
+WHERE NOT EXISTS (SELECT 1 FROM config_secret_history h WHERE h.secret_id = c.id);
+
+DELETE FROM system_config WHERE is_secret_config_key(key);
+DELETE FROM workspace_config WHERE is_secret_config_key(key);
+UPDATE workspaces SET ado_api_key = NULL WHERE ado_api_key IS NOT NULL;
+
+COMMENT ON COLUMN workspaces.ado_api_key IS 'Deprecated: the ADO PAT of a workspace is the ado_pat secret in config_secrets';
+
+-- Credentials can no longer be stored in plaintext
+ALTER TABLE system_config DROP CONSTRAINT IF EXISTS system_config_no_secrets;
+ALTER TABLE system_config ADD CONSTRAINT system_config_no_secrets CHECK (NOT is_secret_config_key(key));
+
+ALTER TABLE workspace_config DROP CONSTRAINT IF EXISTS workspace_config_no_secrets;
+ALTER TABLE workspace_config ADD CONSTRAINT workspace_config_no_secrets CHECK (NOT is_secret_config_key(key));
+
+-- Create or rotate a secret (admins, or edge functions with the service role)
+CREATE OR REPLACE FUNCTION set_config_secret(
+    p_key TEXT,
+    p_value TEXT,
+    p_description TEXT DEFAULT NULL,
+    p_workspace_id UUID DEFAULT NULL
+)
+RETURNS config_secrets AS $$
+DECLARE
+    existing config_secrets;
+    result config_secrets;
+BEGIN
+    IF NOT (has_app_role('admin') OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Only admins can change secrets' USING ERRCODE = '42501';
+    END IF;
+
+    IF COALESCE(p_value, '') = '' THEN
+        RAISE EXCEPTION 'Secret value cannot be empty';
+    END IF;
+
+    SELECT * INTO existing
+    FROM config_secrets
+    WHERE key = p_key AND workspace_id IS NOT DISTINCT FROM p_workspace_id
+    FOR UPDATE;
+
+    IF existing.id IS NULL THEN
+        INSERT INTO config_secrets (workspace_id, key, description, vault_secret_id, value_hint, updated_by)
+        VALUES (p_workspace_id, p_key, p_description, vault.create_secret(p_value), secret_value_hint(p_value), auth.uid())
+        RETURNING * INTO result;
+    ELSE
+        PERFORM vault.update_secret(existing.vault_secret_id, p_value);
+
+        UPDATE config_secrets
+        SET version = version + 1,
+            value_hint = secret_value_hint(p_value),
+            description = COALESCE(p_description, description),
+            updated_by = auth.uid()
+        WHERE id = existing.id
+        RETURNING * INTO result;
+    END IF;
+
+    INSERT INTO config_secret_history (secret_id, workspace_id, key, action, version, value_hint, changed_by)
+    VALUES (
+        result.id,
+        p_workspace_id,
+        p_key,
+        CASE WHEN existing.id IS NULL THEN 'created' ELSE 'rotated' END,
+        result.version,
+        result.value_hint,
+        auth.uid()
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION set_config_secret(TEXT, TEXT, TEXT, UUID) IS 'Creates or rotates a secret and records the change in config_secret_history';
+
+-- Delete a secret and its encrypted value
+CREATE OR REPLACE FUNCTION delete_config_secret(p_key TEXT, p_workspace_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+    existing config_secrets;
+BEGIN
+    IF NOT (has_app_role('admin') OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Only admins can change secrets' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM config_secrets
+    WHERE key = p_key AND workspace_id IS NOT DISTINCT FROM p_workspace_id
+    RETURNING * INTO existing;
+
+    IF existing.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    DELETE FROM vault.secrets WHERE id = existing.vault_secret_id;
+
+    INSERT INTO config_secret_history (secret_id, workspace_id, key, action, version, value_hint, changed_by)
+    VALUES (existing.id, p_workspace_id, p_key, 'deleted', existing.version, existing.value_hint, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION delete_config_secret(TEXT, UUID) IS 'Deletes a secret and records the deletion in config_secret_history';
+
+-- Read a secret, preferring the workspace value over the system-wide one (service role only)
+CREATE OR REPLACE FUNCTION get_config_secret(p_key TEXT, p_workspace_id UUID DEFAULT NULL)
+RETURNS TEXT AS $$
+    SELECT d.decrypted_secret
+    FROM config_secrets c
+    JOIN vault.decrypted_secrets d ON d.id = c.vault_secret_id
+    WHERE c.key = p_key
+      AND (c.workspace_id = p_workspace_id OR c.workspace_id IS NULL)
+    ORDER BY c.workspace_id NULLS LAST
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION get_config_secret(TEXT, UUID) IS 'Decrypts a secret for the edge functions; not executable by browser clients';
+
+REVOKE ALL ON FUNCTION get_config_secret(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_config_secret(TEXT, UUID) TO service_role;
+
+REVOKE ALL ON FUNCTION set_config_secret(TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_config_secret(TEXT, TEXT, TEXT, UUID) TO authenticated, service_role;
+
+REVOKE ALL ON FUNCTION delete_config_secret(TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_config_secret(TEXT, UUID) TO authenticated, service_role;
+
+-- Enable RLS; secrets are only changed through the functions above
+ALTER TABLE config_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE config_secret_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view config_secrets"
+  ON config_secrets
+  FOR SELECT
+  USING (has_app_role('admin'));
+
+CREATE POLICY "Admins can view config_secret_history"
+  ON config_secret_history
+  FOR SELECT
+  USING (has_app_role('admin'));
@@ -0,0 +1,44 @@
+-- Migration: 0042_add_llm_provider_config.sql
+-- Configures the shared LLM provider layer used by the AI edge functions and records the token usage of each call
+
+-- Provider and model settings; ai_provider_<function> / ai_model_<function> override them for one function
+-- (for example ai_model_analyze_transcript). API keys are stored as secrets, not here.
+INSERT INTO public.system_config (key, value, description)
+VALUES
+    ('ai_provider', 'openai', 'LLM provider for the AI functions: openai, azure_openai, anthropic or local'),
+    ('ai_model', 'gpt-4o', 'Default model for the AI functions; for Azure OpenAI this is the deployment name'),
+    ('azure_openai_endpoint', '', 'Azure OpenAI resource endpoint, e.g. https://my-resource.openai.azure.com'),
+    ('azure_openai_api_version', '2024-06-01', 'Azure OpenAI API version'),
+    ('local_llm_base_url', 'http://localhost:11434', 'Base URL of a local OpenAI-compatible endpoint such as Ollama')
+ON CONFLICT (key) DO NOTHING;
+
+-- One row per LLM call
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL,
+    function_name TEXT NOT NULL,
+    provider VARCHAR(20) NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    duration_ms INTEGER,
+    success BOOLEAN NOT NULL DEFAULT true,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_function_name ON ai_usage(function_name, created_at);
+
+COMMENT ON TABLE ai_usage IS 'Token usage of every LLM call made by the AI edge functions';
+COMMENT ON COLUMN ai_usage.provider IS 'openai, azure_openai, anthropic or local';
+COMMENT ON COLUMN ai_usage.input_tokens IS 'Prompt tokens as reported by the provider';
+COMMENT ON COLUMN ai_usage.output_tokens IS 'Completion tokens as reported by the provider';
+
+-- Enable RLS; usage is only written by the edge functions
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ai_usage"
+  ON ai_usage
+  FOR SELECT
+  USING (has_app_role('admin'));
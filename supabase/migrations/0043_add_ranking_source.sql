@@ -0,0 +1,13 @@
+-- Migration: 0043_add_ranking_source.sql
+-- Records whether a ranking run was scraped from ProductBoard or read from a screenshot
+
+ALTER TABLE productboard_sync_history
+ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'scrape';
+
+COMMENT ON COLUMN productboard_sync_history.source IS 'Where the ranking came from: scrape (sync-productboard-rankings) or screenshot (save-screenshot-ranking)';
+
+-- process-ranking-screenshot needs a vision-capable model; empty falls back to ai_model
+INSERT INTO public.system_config (key, value, description)
+VALUES
+    ('ai_model_process_ranking_screenshot', '', 'Vision-capable model used to read ranking screenshots; empty uses ai_model')
+ON CONFLICT (key) DO NOTHING;
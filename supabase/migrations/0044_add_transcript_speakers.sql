@@ -0,0 +1,19 @@
+-- Migration: 0044_add_transcript_speakers.sql
+-- Keeps the speaker turns of uploaded transcripts, which participant each speaker is and how long each story was discussed
+
+ALTER TABLE grooming_sessions
+ADD COLUMN IF NOT EXISTS transcript_format TEXT,
+ADD COLUMN IF NOT EXISTS transcript_segments JSONB;
+
+COMMENT ON COLUMN grooming_sessions.transcript_format IS 'Export the transcript was parsed from: webvtt, srt, teams, zoom or plain';
+COMMENT ON COLUMN grooming_sessions.transcript_segments IS 'Speaker turns of the transcript: speaker, start_seconds, end_seconds and text';
+
+ALTER TABLE session_participants
+ADD COLUMN IF NOT EXISTS transcript_speaker TEXT;
+
+COMMENT ON COLUMN session_participants.transcript_speaker IS 'Name under which the participant appears in the session transcript';
+
+ALTER TABLE session_stories
+ADD COLUMN IF NOT EXISTS discussion_duration_minutes INTEGER;
+
+COMMENT ON COLUMN session_stories.discussion_duration_minutes IS 'Minutes the story was discussed, estimated from the transcript timestamps';
@@ -0,0 +1,7 @@
+-- Migration: 0045_add_transcript_chunk_config.sql
+-- Size of the parts analyze-transcript splits long transcripts into; lower it for models with a small context window
+
+INSERT INTO public.system_config (key, value, description)
+VALUES
+    ('transcript_chunk_chars', '12000', 'Maximum characters of transcript analyzed in one model call; longer transcripts are analyzed in overlapping parts and merged')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,17 @@
+-- Migration: 0046_add_analysis_links.sql
+-- Stores the session action items and links session stories to the transcript analysis their decisions, questions and notes came from
+
+ALTER TABLE grooming_sessions
+ADD COLUMN IF NOT EXISTS action_items JSONB DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN grooming_sessions.action_items IS 'Action items of the session: description, assignee, due_date, status and the source_analysis_id they were taken from';
+
+ALTER TABLE session_stories
+ADD COLUMN IF NOT EXISTS source_analysis_id UUID REFERENCES ai_analyses(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN session_stories.source_analysis_id IS 'Transcript analysis whose results were last applied to the story';
+
+ALTER TABLE ai_analyses
+ADD COLUMN IF NOT EXISTS applied_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN ai_analyses.applied_at IS 'When the results of the analysis were reviewed and applied to the session';
@@ -0,0 +1,60 @@
+-- Migration: 0047_record_story_history.sql
+-- Records every change to a grooming story in story_history, one row per changed field, with who made it and from where
+
+-- Where a change came from: grooming, story_creator, ai, productboard, ado or restore
+ALTER TABLE story_history
+ADD COLUMN IF NOT EXISTS source TEXT;
+
+COMMENT ON COLUMN story_history.field_name IS 'Changed column of grooming_stories, or "created" for the row recording the creation of the story';
+COMMENT ON COLUMN story_history.old_value IS 'JSON encoded value before the change';
+COMMENT ON COLUMN story_history.new_value IS 'JSON encoded value after the change';
+COMMENT ON COLUMN story_history.source IS 'Where the change came from: grooming, story_creator, ai, productboard, ado or restore';
+
+-- Writers set these with their insert or update; the trigger moves them to story_history and clears them,
+-- so they are always NULL at rest and a write that does not set them is recorded without a source
+ALTER TABLE grooming_stories
+ADD COLUMN IF NOT EXISTS change_source TEXT,
+ADD COLUMN IF NOT EXISTS change_actor UUID REFERENCES auth.users(id);
+
+COMMENT ON COLUMN grooming_stories.change_source IS 'Source of the current write for story_history; cleared by the trigger';
+COMMENT ON COLUMN grooming_stories.change_actor IS 'User behind the current write when it is made with the service role; cleared by the trigger';
+
+-- The creation of a story is recorded before its row exists; check the reference at commit
+ALTER TABLE story_history
+ALTER CONSTRAINT story_history_story_id_fkey DEFERRABLE INITIALLY DEFERRED;
+
+CREATE INDEX IF NOT EXISTS idx_story_history_story_changed_at ON story_history(story_id, changed_at DESC);
+
+CREATE OR REPLACE FUNCTION record_story_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_source TEXT := NEW.change_source;
+    v_actor UUID := COALESCE(auth.uid(), NEW.change_actor);
+BEGIN
+    NEW.change_source := NULL;
+    NEW.change_actor := NULL;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO story_history (story_id, field_name, changed_by, source)
+        VALUES (NEW.id, 'created', v_actor, v_source);
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO story_history (story_id, field_name, old_value, new_value, changed_by, source)
+    SELECT NEW.id, new_field.key, (to_jsonb(OLD) -> new_field.key)::TEXT, new_field.value::TEXT, v_actor, v_source
+    FROM jsonb_each(to_jsonb(NEW)) AS new_field
+    WHERE new_field.key NOT IN ('id', 'created_at', 'updated_at', 'change_source', 'change_actor')
+      AND new_field.value IS DISTINCT FROM to_jsonb(OLD) -> new_field.key;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_grooming_story_changes ON grooming_stories;
+
+CREATE TRIGGER record_grooming_story_changes
+BEFORE INSERT OR UPDATE ON grooming_stories
+FOR EACH ROW
+EXECUTE PROCEDURE record_story_changes();
+
+COMMENT ON FUNCTION record_story_changes() IS 'Writes story_history rows for the creation and each changed field of a grooming story and clears change_source and change_actor';
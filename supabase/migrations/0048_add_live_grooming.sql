@@ -0,0 +1,79 @@
+-- Migration: 0048_add_live_grooming.sql
+-- Live grooming: the story under discussion, set by the facilitator, and per-story discussion timers
+
+ALTER TABLE grooming_sessions
+ADD COLUMN IF NOT EXISTS current_story_id UUID REFERENCES session_stories(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS current_story_started_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN grooming_sessions.current_story_id IS 'Session story under discussion in live mode; set with set_current_session_story()';
+COMMENT ON COLUMN grooming_sessions.current_story_started_at IS 'When the discussion of the current story started or resumed';
+
+ALTER TABLE session_stories
+ADD COLUMN IF NOT EXISTS discussion_seconds INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN session_stories.discussion_seconds IS 'Seconds the story was the current story in live mode; discussion_duration_minutes is kept in step';
+
+-- Move the pointer to another story (or none), adding the time spent on the previous one to its timer.
+-- Uses the database clock, so the timers do not depend on the clocks of the participants.
+CREATE OR REPLACE FUNCTION set_current_session_story(p_session_id UUID, p_session_story_id UUID)
+RETURNS grooming_sessions AS $$
+DECLARE
+    v_session grooming_sessions;
+    v_seconds INTEGER;
+BEGIN
+    SELECT * INTO v_session FROM grooming_sessions WHERE id = p_session_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Grooming session % not found', p_session_id;
+    END IF;
+
+    IF v_session.facilitator_id IS DISTINCT FROM auth.uid() AND NOT has_app_role('admin') THEN
+        RAISE EXCEPTION 'Only the facilitator can change the story under discussion' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_session_story_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM session_stories WHERE id = p_session_story_id AND session_id = p_session_id
+    ) THEN
+        RAISE EXCEPTION 'Story % is not part of session %', p_session_story_id, p_session_id;
+    END IF;
+
+    IF v_session.current_story_id IS NOT DISTINCT FROM p_session_story_id THEN
+        RETURN v_session;
+    END IF;
+
+    IF v_session.current_story_id IS NOT NULL AND v_session.current_story_started_at IS NOT NULL THEN
+        v_seconds := GREATEST(0, EXTRACT(EPOCH FROM now() - v_session.current_story_started_at)::INTEGER);
+
+        UPDATE session_stories
+        SET discussion_seconds = discussion_seconds + v_seconds,
+            discussion_duration_minutes = GREATEST(1, ROUND((discussion_seconds + v_seconds) / 60.0)::INTEGER)
+        WHERE id = v_session.current_story_id;
+    END IF;
+
+    UPDATE grooming_sessions
+    SET current_story_id = p_session_story_id,
+        current_story_started_at = CASE WHEN p_session_story_id IS NULL THEN NULL ELSE now() END
+    WHERE id = p_session_id
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION set_current_session_story(UUID, UUID) IS 'Sets the story under discussion of a live session (facilitator or admin) and books the time of the previous one';
+
+-- Stream session changes to the participants of a live session
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        FOREACH t IN ARRAY ARRAY['grooming_sessions', 'session_stories', 'session_participants', 'grooming_stories'] LOOP
+            IF NOT EXISTS (
+                SELECT 1 FROM pg_publication_tables
+                WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+            ) THEN
+                EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+            END IF;
+        END LOOP;
+    END IF;
+END$$;
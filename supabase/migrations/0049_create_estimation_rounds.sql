@@ -0,0 +1,289 @@
+-- Migration: 0049_create_estimation_rounds.sql
+-- Planning-poker estimation in grooming sessions: rounds of secret votes on story points, complexity and risk
+
+-- One round of voting on a session story; a re-vote is a new round, so earlier rounds stay as history
+CREATE TABLE IF NOT EXISTS estimation_rounds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES grooming_sessions(id) ON DELETE CASCADE,
+    session_story_id UUID NOT NULL REFERENCES session_stories(id) ON DELETE CASCADE,
+    round_number INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'voting',
+    vote_count INTEGER NOT NULL DEFAULT 0,
+    started_by UUID REFERENCES auth.users(id),
+    revealed_at TIMESTAMP WITH TIME ZONE,
+    accepted_story_points INTEGER,
+    accepted_complexity_rating INTEGER,
+    accepted_risk_rating INTEGER,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT estimation_rounds_status_check CHECK (status IN ('voting', 'revealed', 'accepted', 'cancelled')),
+    CONSTRAINT estimation_rounds_story_round_key UNIQUE (session_story_id, round_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_estimation_rounds_session_id ON estimation_rounds(session_id);
+
+DROP TRIGGER IF EXISTS update_estimation_rounds_timestamp ON estimation_rounds;
+
+CREATE TRIGGER update_estimation_rounds_timestamp
+BEFORE UPDATE ON estimation_rounds
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE estimation_rounds IS 'Planning-poker rounds on session stories; votes stay hidden until the round is revealed';
+COMMENT ON COLUMN estimation_rounds.status IS 'voting, revealed, accepted (consensus written to the story) or cancelled (replaced by a re-vote)';
+COMMENT ON COLUMN estimation_rounds.vote_count IS 'Number of votes cast, kept by a trigger so participants can follow the voting without seeing the votes';
+
+-- The vote of one participant in a round; a missing value means the voter abstained on it
+CREATE TABLE IF NOT EXISTS estimation_votes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    round_id UUID NOT NULL REFERENCES estimation_rounds(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    story_points INTEGER,
+    complexity_rating INTEGER,
+    risk_rating INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT estimation_votes_round_user_key UNIQUE (round_id, user_id),
+    CONSTRAINT estimation_votes_story_points_check CHECK (story_points IS NULL OR story_points >= 0),
+    CONSTRAINT estimation_votes_complexity_check CHECK (complexity_rating IS NULL OR complexity_rating BETWEEN 1 AND 5),
+    CONSTRAINT estimation_votes_risk_check CHECK (risk_rating IS NULL OR risk_rating BETWEEN 1 AND 5)
+);
+
+DROP TRIGGER IF EXISTS update_estimation_votes_timestamp ON estimation_votes;
+
+CREATE TRIGGER update_estimation_votes_timestamp
+BEFORE UPDATE ON estimation_votes
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE estimation_votes IS 'Votes of the participants of estimation rounds, kept for estimate spread and convergence analytics';
+
+-- Keep estimation_rounds.vote_count up to date
+CREATE OR REPLACE FUNCTION count_estimation_votes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_round_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.round_id ELSE NEW.round_id END;
+BEGIN
+    UPDATE estimation_rounds
+    SET vote_count = (SELECT COUNT(*) FROM estimation_votes WHERE round_id = v_round_id)
+    WHERE id = v_round_id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS count_estimation_votes ON estimation_votes;
+
+CREATE TRIGGER count_estimation_votes
+AFTER INSERT OR DELETE ON estimation_votes
+FOR EACH ROW
+EXECUTE PROCEDURE count_estimation_votes();
+
+-- Whether the current user leads the session of a round
+CREATE OR REPLACE FUNCTION leads_grooming_session(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT has_app_role('admin') OR EXISTS (
+        SELECT 1 FROM public.grooming_sessions
+        WHERE id = p_session_id AND facilitator_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Start a round on a session story. An open round of the story is cancelled, which is how re-votes start.
+CREATE OR REPLACE FUNCTION start_estimation_round(p_session_story_id UUID)
+RETURNS estimation_rounds AS $$
+DECLARE
+    v_session_id UUID;
+    v_round estimation_rounds;
+BEGIN
+    SELECT session_id INTO v_session_id FROM session_stories WHERE id = p_session_story_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session story % not found', p_session_story_id;
+    END IF;
+
+    IF NOT leads_grooming_session(v_session_id) THEN
+        RAISE EXCEPTION 'Only the facilitator can start an estimation round' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE estimation_rounds
+    SET status = 'cancelled'
+    WHERE session_story_id = p_session_story_id AND status IN ('voting', 'revealed');
+
+    INSERT INTO estimation_rounds (session_id, session_story_id, round_number, started_by)
+    SELECT v_session_id, p_session_story_id, COALESCE(MAX(round_number), 0) + 1, auth.uid()
+    FROM estimation_rounds
+    WHERE session_story_id = p_session_story_id
+    RETURNING * INTO v_round;
+
+    RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reveal the votes of a round to everyone
+CREATE OR REPLACE FUNCTION reveal_estimation_round(p_round_id UUID)
+RETURNS estimation_rounds AS $$
+DECLARE
+    v_round estimation_rounds;
+BEGIN
+    SELECT * INTO v_round FROM estimation_rounds WHERE id = p_round_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Estimation round % not found', p_round_id;
+    END IF;
+
+    IF NOT leads_grooming_session(v_round.session_id) THEN
+        RAISE EXCEPTION 'Only the facilitator can reveal the votes' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_round.status <> 'voting' THEN
+        RAISE EXCEPTION 'Estimation round % is not open for voting', p_round_id;
+    END IF;
+
+    UPDATE estimation_rounds
+    SET status = 'revealed', revealed_at = now()
+    WHERE id = p_round_id
+    RETURNING * INTO v_round;
+
+    RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the consensus of a revealed round and write it to the story. A missing value leaves the field unchanged.
+CREATE OR REPLACE FUNCTION accept_estimation_round(
+    p_round_id UUID,
+    p_story_points INTEGER,
+    p_complexity_rating INTEGER,
+    p_risk_rating INTEGER
+)
+RETURNS estimation_rounds AS $$
+DECLARE
+    v_round estimation_rounds;
+BEGIN
+    SELECT * INTO v_round FROM estimation_rounds WHERE id = p_round_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Estimation round % not found', p_round_id;
+    END IF;
+
+    IF NOT leads_grooming_session(v_round.session_id) THEN
+        RAISE EXCEPTION 'Only the facilitator can accept an estimate' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_round.status <> 'revealed' THEN
+        RAISE EXCEPTION 'Votes of estimation round % have not been revealed', p_round_id;
+    END IF;
+
+    UPDATE session_stories
+    SET complexity_rating = COALESCE(p_complexity_rating, complexity_rating),
+        risk_rating = COALESCE(p_risk_rating, risk_rating)
+    WHERE id = v_round.session_story_id;
+
+    IF p_story_points IS NOT NULL THEN
+        UPDATE grooming_stories
+        SET story_points = p_story_points,
+            change_source = 'grooming'
+        WHERE id = (SELECT story_id FROM session_stories WHERE id = v_round.session_story_id);
+    END IF;
+
+    UPDATE estimation_rounds
+    SET status = 'accepted',
+        accepted_story_points = p_story_points,
+        accepted_complexity_rating = p_complexity_rating,
+        accepted_risk_rating = p_risk_rating,
+        accepted_at = now()
+    WHERE id = p_round_id
+    RETURNING * INTO v_round;
+
+    RETURN v_round;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Who has voted in a round, without the votes themselves
+CREATE OR REPLACE FUNCTION get_estimation_voters(p_round_id UUID)
+RETURNS SETOF UUID AS $$
+    SELECT user_id FROM public.estimation_votes WHERE round_id = p_round_id ORDER BY created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION leads_grooming_session(UUID) IS 'True when the signed-in user is the facilitator of the session or an admin';
+COMMENT ON FUNCTION start_estimation_round(UUID) IS 'Starts a planning-poker round on a session story (facilitator or admin), cancelling its open round';
+COMMENT ON FUNCTION reveal_estimation_round(UUID) IS 'Reveals the votes of an estimation round (facilitator or admin)';
+COMMENT ON FUNCTION accept_estimation_round(UUID, INTEGER, INTEGER, INTEGER) IS 'Writes the consensus of a revealed round to the story and closes the round (facilitator or admin)';
+COMMENT ON FUNCTION get_estimation_voters(UUID) IS 'Users who have voted in an estimation round, also while the votes are hidden';
+
+-- Spread of the votes of each revealed round, for estimation analytics
+-- security_invoker, so the RLS of the rounds, votes and sessions applies to whoever queries the view
+CREATE OR REPLACE VIEW estimation_round_stats WITH (security_invoker = true) AS
+SELECT
+    r.id AS round_id,
+    r.session_id,
+    s.workspace_id,
+    r.session_story_id,
+    r.round_number,
+    r.status,
+    COUNT(v.id) AS vote_count,
+    MIN(v.story_points) AS min_story_points,
+    MAX(v.story_points) AS max_story_points,
+    STDDEV_POP(v.story_points) AS story_points_stddev,
+    STDDEV_POP(v.complexity_rating) AS complexity_stddev,
+    STDDEV_POP(v.risk_rating) AS risk_stddev,
+    r.accepted_story_points,
+    r.created_at
+FROM estimation_rounds r
+JOIN grooming_sessions s ON s.id = r.session_id
+LEFT JOIN estimation_votes v ON v.round_id = r.id
+WHERE r.revealed_at IS NOT NULL
+GROUP BY r.id, s.workspace_id;
+
+COMMENT ON VIEW estimation_round_stats IS 'Vote spread per revealed estimation round; compare round numbers of a story to see convergence';
+
+-- Row level security: everyone signed in sees the rounds; a vote is visible to its voter until the round is revealed
+ALTER TABLE estimation_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE estimation_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view estimation_rounds"
+  ON estimation_rounds
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can view own or revealed estimation_votes"
+  ON estimation_votes
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM estimation_rounds r
+      WHERE r.id = estimation_votes.round_id AND r.revealed_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Editors can vote in open estimation rounds"
+  ON estimation_votes
+  FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND has_app_role('admin', 'product_manager', 'engineer')
+    AND EXISTS (SELECT 1 FROM estimation_rounds r WHERE r.id = estimation_votes.round_id AND r.status = 'voting')
+  );
+
+CREATE POLICY "Editors can change their vote in open estimation rounds"
+  ON estimation_votes
+  FOR UPDATE
+  USING (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM estimation_rounds r WHERE r.id = estimation_votes.round_id AND r.status = 'voting')
+  )
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM estimation_rounds r WHERE r.id = estimation_votes.round_id AND r.status = 'voting')
+  );
+
+-- Stream rounds to the participants; votes are not streamed, the vote_count of the round changes instead
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'estimation_rounds'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.estimation_rounds;
+    END IF;
+END$$;
@@ -0,0 +1,7 @@
+-- Migration: 0050_add_area_path_rules.sql
+-- Adds prioritized rules that resolve the area path and team of ProductBoard items
+
+ALTER TABLE hierarchy_mappings
+ADD COLUMN IF NOT EXISTS area_path_rules JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN hierarchy_mappings.area_path_rules IS 'Ordered rules (priority, conditions on initiative, component, product, owner email and tags, area path and/or team); items no rule matches are reported instead of defaulted';
@@ -0,0 +1,136 @@
+-- Migration: 0051_create_hierarchy_mapping_versions.sql
+-- Keeps every saved hierarchy mapping configuration as an immutable version with its author and change note
+
+CREATE TABLE IF NOT EXISTS hierarchy_mapping_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  mapping_id UUID NOT NULL REFERENCES hierarchy_mappings(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  config JSONB NOT NULL,
+  change_note TEXT NOT NULL DEFAULT '',
+  source TEXT NOT NULL DEFAULT 'save' CHECK (source IN ('save', 'rollback', 'import')),
+  -- Version a rollback restored
+  restored_from_version INTEGER,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(mapping_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hierarchy_mapping_versions_mapping_id ON hierarchy_mapping_versions(mapping_id, version_number DESC);
+
+ALTER TABLE hierarchy_mappings
+ADD COLUMN IF NOT EXISTS current_version INTEGER;
+
+COMMENT ON TABLE hierarchy_mapping_versions IS 'Immutable snapshots of hierarchy mapping configurations, one per save, rollback or import';
+COMMENT ON COLUMN hierarchy_mapping_versions.config IS 'The configuration as saved: name, description and all mapping sections';
+COMMENT ON COLUMN hierarchy_mappings.current_version IS 'Version number of hierarchy_mapping_versions the row currently holds';
+
+-- The part of a mapping row that is versioned
+CREATE OR REPLACE FUNCTION hierarchy_mapping_snapshot(p_mapping hierarchy_mappings)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'name', p_mapping.name,
+        'description', p_mapping.description,
+        'pb_to_ado_mappings', COALESCE(p_mapping.pb_to_ado_mappings, '[]'::jsonb),
+        'area_path_mappings', COALESCE(p_mapping.area_path_mappings, '[]'::jsonb),
+        'initiative_epic_mappings', COALESCE(p_mapping.initiative_epic_mappings, '[]'::jsonb),
+        'user_team_mappings', COALESCE(p_mapping.user_team_mappings, '[]'::jsonb),
+        'component_product_mappings', COALESCE(p_mapping.component_product_mappings, '[]'::jsonb),
+        'area_path_rules', COALESCE(p_mapping.area_path_rules, '[]'::jsonb)
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Save a configuration and record it as the next version, in one transaction.
+-- A null mapping id creates the mapping in the given workspace. Runs with the caller's rights,
+-- so only admins can save, as with hierarchy_mappings itself.
+CREATE OR REPLACE FUNCTION save_hierarchy_mapping_version(
+    p_mapping_id UUID,
+    p_config JSONB,
+    p_change_note TEXT,
+    p_workspace_id UUID DEFAULT NULL,
+    p_source TEXT DEFAULT 'save',
+    p_restored_from_version INTEGER DEFAULT NULL
+)
+RETURNS hierarchy_mapping_versions AS $$
+DECLARE
+    v_mapping hierarchy_mappings;
+    v_version hierarchy_mapping_versions;
+BEGIN
+    IF p_mapping_id IS NULL THEN
+        INSERT INTO hierarchy_mappings (name, pb_to_ado_mappings, area_path_mappings, workspace_id)
+        VALUES (COALESCE(p_config->>'name', 'Default Mapping'), '[]'::jsonb, '[]'::jsonb,
+                COALESCE(p_workspace_id, '00000000-0000-0000-0000-000000000000'))
+        RETURNING * INTO v_mapping;
+    ELSE
+        SELECT * INTO v_mapping FROM hierarchy_mappings WHERE id = p_mapping_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Hierarchy mapping % not found', p_mapping_id;
+        END IF;
+    END IF;
+
+    UPDATE hierarchy_mappings
+    SET name = COALESCE(p_config->>'name', name),
+        description = p_config->>'description',
+        pb_to_ado_mappings = COALESCE(p_config->'pb_to_ado_mappings', '[]'::jsonb),
+        area_path_mappings = COALESCE(p_config->'area_path_mappings', '[]'::jsonb),
+        initiative_epic_mappings = COALESCE(p_config->'initiative_epic_mappings', '[]'::jsonb),
+        user_team_mappings = COALESCE(p_config->'user_team_mappings', '[]'::jsonb),
+        component_product_mappings = COALESCE(p_config->'component_product_mappings', '[]'::jsonb),
+        area_path_rules = COALESCE(p_config->'area_path_rules', '[]'::jsonb),
+        updated_at = NOW()
+    WHERE id = v_mapping.id
+    RETURNING * INTO v_mapping;
+
+    INSERT INTO hierarchy_mapping_versions (mapping_id, version_number, config, change_note, source, restored_from_version, created_by)
+    SELECT v_mapping.id, COALESCE(MAX(version_number), 0) + 1, hierarchy_mapping_snapshot(v_mapping),
+           COALESCE(p_change_note, ''), p_source, p_restored_from_version, auth.uid()
+    FROM hierarchy_mapping_versions
+    WHERE mapping_id = v_mapping.id
+    RETURNING * INTO v_version;
+
+    UPDATE hierarchy_mappings SET current_version = v_version.version_number WHERE id = v_mapping.id;
+
+    RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Authors of versions, for the version history. Reads auth.users, so it only answers signed-in
+-- members of the mapping's workspace.
+CREATE OR REPLACE FUNCTION get_hierarchy_mapping_version_authors(p_mapping_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT) AS $$
+    SELECT DISTINCT u.id, u.email::TEXT
+    FROM hierarchy_mapping_versions v
+    JOIN hierarchy_mappings m ON m.id = v.mapping_id
+    JOIN auth.users u ON u.id = v.created_by
+    WHERE v.mapping_id = p_mapping_id
+      AND auth.uid() IS NOT NULL
+      AND (m.workspace_id IS NULL OR is_workspace_member(m.workspace_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_hierarchy_mapping_version_authors(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_hierarchy_mapping_version_authors(UUID) TO authenticated, service_role;
+
+-- Existing configurations become version 1
+INSERT INTO hierarchy_mapping_versions (mapping_id, version_number, config, change_note)
+SELECT m.id, 1, hierarchy_mapping_snapshot(m), 'Configuration before versioning'
+FROM hierarchy_mappings m
+WHERE NOT EXISTS (SELECT 1 FROM hierarchy_mapping_versions v WHERE v.mapping_id = m.id);
+
+UPDATE hierarchy_mappings SET current_version = 1 WHERE current_version IS NULL;
+
+-- Versions are never changed or deleted, so there are no update or delete policies
+ALTER TABLE hierarchy_mapping_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions belong to the workspace of their mapping
+CREATE POLICY "Members can view hierarchy_mapping_versions"
+  ON hierarchy_mapping_versions
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM hierarchy_mappings m
+    WHERE m.id = hierarchy_mapping_versions.mapping_id
+      AND (m.workspace_id IS NULL OR is_workspace_member(m.workspace_id))
+  ));
+
+CREATE POLICY "Admins can create hierarchy_mapping_versions"
+  ON hierarchy_mapping_versions
+  FOR INSERT
+  WITH CHECK (has_app_role('admin'));
@@ -0,0 +1,103 @@
+-- Migration: 0052_create_reconciliation_reports.sql
+-- Stores the runs of the reconcile-pb-ado function and the orphans and drift it finds between ProductBoard and Azure DevOps
+
+CREATE TABLE IF NOT EXISTS pb_ado_reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES workspaces(id) ON DELETE CASCADE,
+    trigger VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+    status VARCHAR(20) NOT NULL DEFAULT 'running',
+    -- Open issues per kind when the run finished
+    summary JSONB NOT NULL DEFAULT '{}',
+    error_message TEXT,
+    -- Set when the run completed but left some checks out, such as broken links on a stale ADO cache
+    warning TEXT,
+    started_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT pb_ado_reconciliation_runs_trigger_check CHECK (trigger IN ('manual', 'scheduled')),
+    CONSTRAINT pb_ado_reconciliation_runs_status_check CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pb_ado_reconciliation_runs_workspace ON pb_ado_reconciliation_runs(workspace_id, started_at DESC);
+
+-- One row per issue; a run reopens or updates the issues it finds and resolves the open ones it no longer finds
+CREATE TABLE IF NOT EXISTS pb_ado_reconciliation_issues (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES workspaces(id) ON DELETE CASCADE,
+    -- kind:productboard id:work item id, the same across runs
+    issue_key TEXT NOT NULL,
+    kind VARCHAR(30) NOT NULL,
+    severity VARCHAR(10) NOT NULL DEFAULT 'warning',
+    pb_feature_id VARCHAR(100),
+    ado_work_item_id INTEGER,
+    pb_name TEXT,
+    ado_title TEXT,
+    details TEXT NOT NULL DEFAULT '',
+    data JSONB NOT NULL DEFAULT '{}',
+
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    -- How the issue was closed: a fix, ignored, or cleared when a run no longer found it
+    resolution VARCHAR(30),
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    -- Sync job queued by the fix, if any
+    fix_job_id UUID REFERENCES pb_ado_sync_jobs(id) ON DELETE SET NULL,
+
+    first_seen_run_id UUID REFERENCES pb_ado_reconciliation_runs(id) ON DELETE SET NULL,
+    last_seen_run_id UUID REFERENCES pb_ado_reconciliation_runs(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    CONSTRAINT pb_ado_reconciliation_issues_key_unique UNIQUE (workspace_id, issue_key),
+    CONSTRAINT pb_ado_reconciliation_issues_kind_check CHECK (kind IN (
+        'ado_orphan', 'pb_orphan', 'broken_link', 'parent_mismatch', 'status_mismatch', 'title_drift'
+    )),
+    CONSTRAINT pb_ado_reconciliation_issues_severity_check CHECK (severity IN ('error', 'warning')),
+    CONSTRAINT pb_ado_reconciliation_issues_status_check CHECK (status IN ('open', 'resolved', 'ignored')),
+    CONSTRAINT pb_ado_reconciliation_issues_resolution_check CHECK (resolution IS NULL OR resolution IN (
+        'relinked', 'unlinked', 'created', 'archived', 'ignored', 'cleared'
+    ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pb_ado_reconciliation_issues_status ON pb_ado_reconciliation_issues(workspace_id, status, kind);
+
+DROP TRIGGER IF EXISTS update_pb_ado_reconciliation_issues_timestamp ON pb_ado_reconciliation_issues;
+
+CREATE TRIGGER update_pb_ado_reconciliation_issues_timestamp
+BEFORE UPDATE ON pb_ado_reconciliation_issues
+FOR EACH ROW
+EXECUTE PROCEDURE update_timestamp();
+
+COMMENT ON TABLE pb_ado_reconciliation_runs IS 'Runs of reconcile-pb-ado, scheduled or started from the reconciliation dashboard';
+COMMENT ON TABLE pb_ado_reconciliation_issues IS 'Orphans, broken links and drift between ProductBoard features, ADO work items and the mapping tables';
+COMMENT ON COLUMN pb_ado_reconciliation_issues.data IS 'Values behind the issue, such as the ADO state and the status it maps to';
+
+-- Runs are written by the function with the service role. Product managers ignore and reopen issues;
+-- the other fixes go through reconcile-pb-ado.
+ALTER TABLE pb_ado_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pb_ado_reconciliation_issues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view pb_ado_reconciliation_runs"
+  ON pb_ado_reconciliation_runs
+  FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can view pb_ado_reconciliation_issues"
+  ON pb_ado_reconciliation_issues
+  FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Product managers can update pb_ado_reconciliation_issues"
+  ON pb_ado_reconciliation_issues
+  FOR UPDATE
+  USING (has_app_role('admin', 'product_manager') AND is_workspace_member(workspace_id));
+
+-- Settings read by reconcile-pb-ado
+INSERT INTO public.system_config (key, value, description)
+VALUES
+    ('reconcile_engineering_statuses', '["With Engineering"]', 'ProductBoard statuses of features that should have an ADO work item'),
+    ('reconcile_title_drift_threshold', '0.6', 'Work item titles less similar than this (0-1) to their feature name are reported as drifted'),
+    ('reconcile_archive_state', 'Removed', 'ADO state the reconciliation archive fix moves orphaned work items to'),
+    ('reconcile_ado_cache_max_age_hours', '24', 'Broken links are only reported when the ADO work items were synced this many hours ago or less')
+ON CONFLICT (key) DO NOTHING;
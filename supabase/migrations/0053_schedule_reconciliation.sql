@@ -0,0 +1,27 @@
+-- Migration: 0053_schedule_reconciliation.sql
+-- Runs reconcile-pb-ado nightly for every workspace with pg_cron and pg_net
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- The function URL and the service role key differ per project, so the job reads them from Vault when it runs.
+-- Store them once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+-- Until both exist the job fails without calling the function; failures are listed in cron.job_run_details.
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'reconcile-pb-ado';
+
+SELECT cron.schedule(
+    'reconcile-pb-ado',
+    '0 3 * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/reconcile-pb-ado',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{"action": "run"}'::jsonb
+    );
+    $$
+);
@@ -0,0 +1,23 @@
+-- Migration: 0054_schedule_sync_queue.sql
+-- Runs process-sync-queue every 5 minutes with pg_cron and pg_net, so failed sync operations are retried
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Reads the function URL and the service role key from the Vault secrets described in 0053_schedule_reconciliation.sql
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'process-sync-queue';
+
+SELECT cron.schedule(
+    'process-sync-queue',
+    '*/5 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-sync-queue',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
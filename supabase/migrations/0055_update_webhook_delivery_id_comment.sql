@@ -0,0 +1,4 @@
+-- Migration: 0055_update_webhook_delivery_id_comment.sql
+-- handle-ado-webhook claims ADO deliveries by a hash of the body, which it can compute before parsing it
+
+COMMENT ON COLUMN webhook_deliveries.delivery_id IS 'ID of the delivery: x-webhook-id for ProductBoard when sent, otherwise a hash of the body (ADO resends the same body on retry)';